@@ -0,0 +1,80 @@
+DO $$ BEGIN
+  ALTER TYPE "ExecutionStatus" ADD VALUE 'awaiting_approval';
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "CommandApprovalStatus" AS ENUM (
+    'pending',
+    'approved',
+    'rejected',
+    'expired'
+  );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "CommandApprovalResolution" AS ENUM (
+    'approve_once',
+    'always_allow_subagent'
+  );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "CommandExecution"
+  ADD COLUMN IF NOT EXISTS "metadata" JSONB;
+
+CREATE TABLE IF NOT EXISTS "CommandExecutionApproval" (
+  "id" TEXT NOT NULL,
+  "executionId" TEXT NOT NULL,
+  "ownerUserId" TEXT NOT NULL,
+  "requestedByUserId" TEXT NOT NULL,
+  "commandId" TEXT NOT NULL,
+  "subagentId" TEXT,
+  "status" "CommandApprovalStatus" NOT NULL DEFAULT 'pending',
+  "matchedPattern" TEXT,
+  "matchedSource" TEXT NOT NULL,
+  "decision" JSONB NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "resolution" "CommandApprovalResolution",
+  "createdPermissionId" TEXT,
+  "reviewedByUserId" TEXT,
+  "reviewedAt" TIMESTAMP(3),
+  "reviewNote" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "CommandExecutionApproval_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CommandExecutionApproval_executionId_key"
+  ON "CommandExecutionApproval"("executionId");
+
+CREATE INDEX IF NOT EXISTS "CommandExecutionApproval_ownerUserId_status_createdAt_idx"
+  ON "CommandExecutionApproval"("ownerUserId", "status", "createdAt" DESC);
+
+CREATE INDEX IF NOT EXISTS "CommandExecutionApproval_status_expiresAt_idx"
+  ON "CommandExecutionApproval"("status", "expiresAt");
+
+DO $$ BEGIN
+  ALTER TABLE "CommandExecutionApproval"
+    ADD CONSTRAINT "CommandExecutionApproval_executionId_fkey"
+    FOREIGN KEY ("executionId") REFERENCES "CommandExecution"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "CommandExecutionApproval"
+    ADD CONSTRAINT "CommandExecutionApproval_ownerUserId_fkey"
+    FOREIGN KEY ("ownerUserId") REFERENCES "User"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "CommandExecutionApproval"
+    ADD CONSTRAINT "CommandExecutionApproval_reviewedByUserId_fkey"
+    FOREIGN KEY ("reviewedByUserId") REFERENCES "User"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
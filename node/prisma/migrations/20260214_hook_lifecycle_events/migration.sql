@@ -0,0 +1,19 @@
+DO $$ BEGIN
+  CREATE TYPE "HookEvent" AS ENUM (
+    'post_tool_use',
+    'pre_tool_use',
+    'session_start',
+    'session_end',
+    'prompt_submitted',
+    'runtime_fallback'
+  );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "Hook"
+  ADD COLUMN IF NOT EXISTS "event" "HookEvent" NOT NULL DEFAULT 'post_tool_use';
+
+ALTER TABLE "HookExecution"
+  ADD COLUMN IF NOT EXISTS "event" "HookEvent" NOT NULL DEFAULT 'post_tool_use';
+
+CREATE INDEX IF NOT EXISTS "Hook_ownerUserId_event_idx" ON "Hook"("ownerUserId", "event");
@@ -0,0 +1,63 @@
+DO $$ BEGIN
+  CREATE TYPE "HookDeliveryStatus" AS ENUM (
+    'processing',
+    'retrying',
+    'delivered',
+    'dead_letter'
+  );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "Hook"
+  ADD COLUMN IF NOT EXISTS "signingSecret" TEXT;
+
+-- gen_random_uuid() draws from pg_strong_random, so existing webhook hooks get usable secrets.
+UPDATE "Hook"
+SET "signingSecret" = 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+WHERE "signingSecret" IS NULL
+  AND "type" = 'webhook';
+
+CREATE TABLE IF NOT EXISTS "HookDelivery" (
+  "id" TEXT NOT NULL,
+  "hookId" TEXT NOT NULL,
+  "ownerUserId" TEXT,
+  "event" "HookEvent" NOT NULL,
+  "sessionId" TEXT,
+  "toolUseId" TEXT,
+  "payload" JSONB NOT NULL,
+  "status" "HookDeliveryStatus" NOT NULL DEFAULT 'processing',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "nextAttemptAt" TIMESTAMP(3),
+  "lastError" TEXT,
+  "lastResponseStatus" INTEGER,
+  "deliveredAt" TIMESTAMP(3),
+  "deadLetteredAt" TIMESTAMP(3),
+  "redeliveryCount" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "HookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "HookDelivery_status_nextAttemptAt_idx" ON "HookDelivery"("status", "nextAttemptAt");
+CREATE INDEX IF NOT EXISTS "HookDelivery_hookId_createdAt_idx" ON "HookDelivery"("hookId", "createdAt");
+CREATE INDEX IF NOT EXISTS "HookDelivery_ownerUserId_status_idx" ON "HookDelivery"("ownerUserId", "status");
+
+DO $$ BEGIN
+  ALTER TABLE "HookDelivery"
+    ADD CONSTRAINT "HookDelivery_hookId_fkey"
+    FOREIGN KEY ("hookId") REFERENCES "Hook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "HookExecution"
+  ADD COLUMN IF NOT EXISTS "deliveryId" TEXT,
+  ADD COLUMN IF NOT EXISTS "attempt" INTEGER;
+
+CREATE INDEX IF NOT EXISTS "HookExecution_deliveryId_idx" ON "HookExecution"("deliveryId");
+
+DO $$ BEGIN
+  ALTER TABLE "HookExecution"
+    ADD CONSTRAINT "HookExecution_deliveryId_fkey"
+    FOREIGN KEY ("deliveryId") REFERENCES "HookDelivery"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,34 @@
+DO $$ BEGIN
+  CREATE TYPE "RuntimeRoutingStrategy" AS ENUM ('ordered', 'weighted');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "RuntimeProfile" (
+  "id" TEXT NOT NULL,
+  "ownerUserId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "strategy" "RuntimeRoutingStrategy" NOT NULL DEFAULT 'ordered',
+  "providers" JSONB NOT NULL,
+  "rules" JSONB,
+  "maxP95LatencyMs" INTEGER,
+  "maxErrorRate" DOUBLE PRECISION,
+  "healthWindowMinutes" INTEGER NOT NULL DEFAULT 60,
+  "minHealthSamples" INTEGER NOT NULL DEFAULT 5,
+  "maxCostUsdPerRequest" DOUBLE PRECISION,
+  "budgetUsd" DOUBLE PRECISION,
+  "budgetWindowHours" INTEGER NOT NULL DEFAULT 24,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "RuntimeProfile_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RuntimeProfile_ownerUserId_name_key" ON "RuntimeProfile"("ownerUserId", "name");
+
+DO $$ BEGIN
+  ALTER TABLE "RuntimeProfile"
+    ADD CONSTRAINT "RuntimeProfile_ownerUserId_fkey"
+    FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,39 @@
+DO $$ BEGIN
+  CREATE TYPE "RuntimeProviderInstanceKind" AS ENUM ('openai_compatible', 'anthropic');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "RuntimeProviderInstance" (
+  "id" TEXT NOT NULL,
+  "ownerUserId" TEXT NOT NULL,
+  "shipDeploymentId" TEXT,
+  "name" TEXT NOT NULL,
+  "kind" "RuntimeProviderInstanceKind" NOT NULL,
+  "baseUrl" TEXT NOT NULL,
+  "model" TEXT NOT NULL,
+  "apiKeyEnvelope" JSONB,
+  "timeoutMs" INTEGER NOT NULL DEFAULT 60000,
+  "maxOutputTokens" INTEGER,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "RuntimeProviderInstance_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RuntimeProviderInstance_ownerUserId_kind_name_shipDeploymentId_key"
+  ON "RuntimeProviderInstance"("ownerUserId", "kind", "name", "shipDeploymentId");
+CREATE INDEX IF NOT EXISTS "RuntimeProviderInstance_shipDeploymentId_idx" ON "RuntimeProviderInstance"("shipDeploymentId");
+
+DO $$ BEGIN
+  ALTER TABLE "RuntimeProviderInstance"
+    ADD CONSTRAINT "RuntimeProviderInstance_ownerUserId_fkey"
+    FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "RuntimeProviderInstance"
+    ADD CONSTRAINT "RuntimeProviderInstance_shipDeploymentId_fkey"
+    FOREIGN KEY ("shipDeploymentId") REFERENCES "AgentDeployment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
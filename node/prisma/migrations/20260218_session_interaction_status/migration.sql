@@ -0,0 +1,7 @@
+DO $$ BEGIN
+  CREATE TYPE "InteractionStatus" AS ENUM ('completed', 'cancelled', 'timed_out');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "SessionInteraction"
+  ADD COLUMN IF NOT EXISTS "status" "InteractionStatus" NOT NULL DEFAULT 'completed';
@@ -0,0 +1,6 @@
+-- Track which embedding model/dimension produced each chunk vector
+ALTER TABLE "VaultRagChunk" ADD COLUMN IF NOT EXISTS "embeddingModel" TEXT;
+ALTER TABLE "VaultRagChunk" ADD COLUMN IF NOT EXISTS "embeddingDimensions" INTEGER;
+
+ALTER TABLE "LocalPrivateRagChunk" ADD COLUMN IF NOT EXISTS "embeddingModel" TEXT;
+ALTER TABLE "LocalPrivateRagChunk" ADD COLUMN IF NOT EXISTS "embeddingDimensions" INTEGER;
@@ -0,0 +1,29 @@
+-- pgvector column for database-side ANN search over vault RAG chunks
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE "VaultRagChunk" ADD COLUMN IF NOT EXISTS "embeddingVector" vector;
+
+-- Backfill existing rows from the JSON embeddings
+UPDATE "VaultRagChunk"
+SET
+  "embeddingVector" = ("embedding"::text)::vector,
+  "embeddingDimensions" = COALESCE("embeddingDimensions", jsonb_array_length("embedding"))
+WHERE "embedding" IS NOT NULL
+  AND "embeddingVector" IS NULL
+  AND jsonb_typeof("embedding") = 'array'
+  AND jsonb_array_length("embedding") > 0;
+
+-- The column is untyped so models of any width can coexist; each common
+-- width gets a partial HNSW index over a fixed-width cast.
+CREATE INDEX IF NOT EXISTS "VaultRagChunk_embeddingVector_384_idx"
+  ON "VaultRagChunk" USING hnsw (("embeddingVector"::vector(384)) vector_cosine_ops)
+  WHERE "embeddingDimensions" = 384;
+CREATE INDEX IF NOT EXISTS "VaultRagChunk_embeddingVector_768_idx"
+  ON "VaultRagChunk" USING hnsw (("embeddingVector"::vector(768)) vector_cosine_ops)
+  WHERE "embeddingDimensions" = 768;
+CREATE INDEX IF NOT EXISTS "VaultRagChunk_embeddingVector_1024_idx"
+  ON "VaultRagChunk" USING hnsw (("embeddingVector"::vector(1024)) vector_cosine_ops)
+  WHERE "embeddingDimensions" = 1024;
+CREATE INDEX IF NOT EXISTS "VaultRagChunk_embeddingVector_1536_idx"
+  ON "VaultRagChunk" USING hnsw (("embeddingVector"::vector(1536)) vector_cosine_ops)
+  WHERE "embeddingDimensions" = 1536;
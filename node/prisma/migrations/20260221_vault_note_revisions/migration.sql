@@ -0,0 +1,33 @@
+DO $$ BEGIN
+  CREATE TYPE "VaultNoteRevisionAction" AS ENUM ('create', 'update', 'move', 'delete', 'restore');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "VaultNoteRevisionAuthorType" AS ENUM ('user', 'subagent', 'system');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "VaultNoteRevision" (
+  "id" TEXT NOT NULL,
+  "physicalVaultId" TEXT NOT NULL,
+  "physicalPath" TEXT NOT NULL,
+  "previousPath" TEXT,
+  "trashPath" TEXT,
+  "action" "VaultNoteRevisionAction" NOT NULL,
+  "content" TEXT NOT NULL,
+  "encrypted" BOOLEAN NOT NULL DEFAULT false,
+  "contentHash" TEXT NOT NULL,
+  "byteSize" INTEGER NOT NULL,
+  "authorType" "VaultNoteRevisionAuthorType" NOT NULL,
+  "authorUserId" TEXT,
+  "authorSubagentId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "VaultNoteRevision_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "VaultNoteRevision_physicalVaultId_physicalPath_createdAt_idx"
+  ON "VaultNoteRevision"("physicalVaultId", "physicalPath", "createdAt");
+CREATE INDEX IF NOT EXISTS "VaultNoteRevision_authorUserId_createdAt_idx"
+  ON "VaultNoteRevision"("authorUserId", "createdAt");
@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS "VaultRegistration" (
+  "id" TEXT NOT NULL,
+  "ownerUserId" TEXT NOT NULL,
+  "shipDeploymentId" TEXT,
+  "namespace" TEXT NOT NULL,
+  "label" TEXT NOT NULL,
+  "rootPath" TEXT NOT NULL,
+  "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+  "encrypted" BOOLEAN NOT NULL DEFAULT false,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "VaultRegistration_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "VaultRegistration_namespace_key"
+  ON "VaultRegistration"("namespace");
+CREATE INDEX IF NOT EXISTS "VaultRegistration_ownerUserId_idx"
+  ON "VaultRegistration"("ownerUserId");
+CREATE INDEX IF NOT EXISTS "VaultRegistration_shipDeploymentId_idx"
+  ON "VaultRegistration"("shipDeploymentId");
+
+DO $$ BEGIN
+  ALTER TABLE "VaultRegistration"
+    ADD CONSTRAINT "VaultRegistration_ownerUserId_fkey"
+    FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "VaultRegistration"
+    ADD CONSTRAINT "VaultRegistration_shipDeploymentId_fkey"
+    FOREIGN KEY ("shipDeploymentId") REFERENCES "AgentDeployment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1 @@
+ALTER TABLE "VaultRagDocument" ADD COLUMN IF NOT EXISTS "properties" JSONB;
@@ -0,0 +1 @@
+ALTER TABLE "VaultRagChunk" ADD COLUMN IF NOT EXISTS "anchor" JSONB;
@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "BridgeInboundMessage" (
+  "id" TEXT NOT NULL,
+  "connectionId" TEXT NOT NULL,
+  "provider" "BridgeConnectionProvider" NOT NULL,
+  "externalId" TEXT NOT NULL,
+  "senderId" TEXT NOT NULL,
+  "stationKey" "BridgeCrewRole" NOT NULL,
+  "threadId" TEXT NOT NULL,
+  "messageId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "BridgeInboundMessage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "BridgeInboundMessage_connectionId_externalId_key"
+  ON "BridgeInboundMessage"("connectionId", "externalId");
+CREATE INDEX IF NOT EXISTS "BridgeInboundMessage_createdAt_idx"
+  ON "BridgeInboundMessage"("createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "BridgeInboundMessage"
+    ADD CONSTRAINT "BridgeInboundMessage_connectionId_fkey"
+    FOREIGN KEY ("connectionId") REFERENCES "BridgeConnection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,14 @@
+DO $$ BEGIN
+  ALTER TYPE "BridgeConnectionProvider" ADD VALUE 'slack';
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TYPE "BridgeConnectionProvider" ADD VALUE 'matrix';
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TYPE "BridgeConnectionProvider" ADD VALUE 'webhook';
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
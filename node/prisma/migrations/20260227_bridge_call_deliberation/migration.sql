@@ -0,0 +1,31 @@
+DO $$ BEGIN
+  CREATE TYPE "BridgeCallRoundMode" AS ENUM ('single', 'deliberation');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "BridgeCallOfficerStance" AS ENUM ('concur', 'dissent');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "BridgeCallRound"
+  ADD COLUMN IF NOT EXISTS "mode" "BridgeCallRoundMode" NOT NULL DEFAULT 'single';
+
+ALTER TABLE "BridgeCallOfficerResult"
+  ADD COLUMN IF NOT EXISTS "parentResultId" TEXT,
+  ADD COLUMN IF NOT EXISTS "pass" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "stance" "BridgeCallOfficerStance",
+  ADD COLUMN IF NOT EXISTS "dissent" TEXT;
+
+DROP INDEX IF EXISTS "BridgeCallOfficerResult_roundId_stationKey_key";
+CREATE UNIQUE INDEX IF NOT EXISTS "BridgeCallOfficerResult_roundId_stationKey_pass_key"
+  ON "BridgeCallOfficerResult"("roundId", "stationKey", "pass");
+CREATE INDEX IF NOT EXISTS "BridgeCallOfficerResult_parentResultId_idx"
+  ON "BridgeCallOfficerResult"("parentResultId");
+
+DO $$ BEGIN
+  ALTER TABLE "BridgeCallOfficerResult"
+    ADD CONSTRAINT "BridgeCallOfficerResult_parentResultId_fkey"
+    FOREIGN KEY ("parentResultId") REFERENCES "BridgeCallOfficerResult"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,51 @@
+DO $$ BEGIN
+  CREATE TYPE "RuntimeGuardStage" AS ENUM ('prompt', 'output');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RuntimeGuardCategory" AS ENUM ('injection', 'secret', 'pii');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "RuntimeGuardAction" AS ENUM ('block', 'redact', 'flag');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "RuntimeGuardFinding" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT,
+  "sessionId" TEXT,
+  "stage" "RuntimeGuardStage" NOT NULL,
+  "category" "RuntimeGuardCategory" NOT NULL,
+  "detector" TEXT NOT NULL,
+  "action" "RuntimeGuardAction" NOT NULL,
+  "score" DOUBLE PRECISION NOT NULL,
+  "threatIds" TEXT[],
+  "controlIds" TEXT[],
+  "excerpt" TEXT,
+  "runtimeProfile" TEXT,
+  "provider" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "RuntimeGuardFinding_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "RuntimeGuardFinding_createdAt_idx" ON "RuntimeGuardFinding"("createdAt");
+CREATE INDEX IF NOT EXISTS "RuntimeGuardFinding_userId_createdAt_idx" ON "RuntimeGuardFinding"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "RuntimeGuardFinding_sessionId_createdAt_idx" ON "RuntimeGuardFinding"("sessionId", "createdAt");
+CREATE INDEX IF NOT EXISTS "RuntimeGuardFinding_category_createdAt_idx" ON "RuntimeGuardFinding"("category", "createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "RuntimeGuardFinding"
+    ADD CONSTRAINT "RuntimeGuardFinding_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "RuntimeGuardFinding"
+    ADD CONSTRAINT "RuntimeGuardFinding_sessionId_fkey"
+    FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
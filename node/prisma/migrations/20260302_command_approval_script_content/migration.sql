@@ -0,0 +1,2 @@
+ALTER TABLE "CommandExecutionApproval"
+  ADD COLUMN IF NOT EXISTS "scriptContent" TEXT;
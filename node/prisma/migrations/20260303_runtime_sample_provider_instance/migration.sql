@@ -0,0 +1,4 @@
+ALTER TABLE "RuntimePerformanceSample"
+  ADD COLUMN IF NOT EXISTS "providerInstanceId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "RuntimePerformanceSample_providerInstanceId_createdAt_idx" ON "RuntimePerformanceSample"("providerInstanceId", "createdAt");
@@ -77,6 +77,8 @@ export default function BridgeCallPage() {
   const [stations, setStations] = useState<BridgeCallStationSummary[]>([])
   const [rounds, setRounds] = useState<BridgeCallRoundView[]>([])
   const [directive, setDirective] = useState("")
+  const [deliberate, setDeliberate] = useState(false)
+  const [rebuttalRounds, setRebuttalRounds] = useState(1)
   const [isLoading, setIsLoading] = useState(true)
   const [isDispatching, setIsDispatching] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -337,6 +339,8 @@ export default function BridgeCallPage() {
             directive: text,
             shipDeploymentId: selectedShipDeploymentId,
             source: "operator",
+            mode: deliberate ? "deliberation" : "single",
+            ...(deliberate ? { rebuttalRounds } : {}),
           }),
         })
 
@@ -360,7 +364,7 @@ export default function BridgeCallPage() {
         setIsDispatching(false)
       }
     },
-    [isDispatching, revealRound, selectedShipDeploymentId],
+    [deliberate, isDispatching, rebuttalRounds, revealRound, selectedShipDeploymentId],
   )
 
   const commitPendingVoiceDirective = useCallback(() => {
@@ -680,6 +684,30 @@ export default function BridgeCallPage() {
                   <div className="text-xs text-slate-300">
                     {isHoldingToTalk ? `Listening: ${interimVoiceText || "…"}` : "Voice mode: hold-to-talk"}
                   </div>
+                  <div className="flex items-center gap-3 text-xs text-slate-300">
+                    <label className="inline-flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={deliberate}
+                        onChange={(event) => setDeliberate(event.target.checked)}
+                      />
+                      Deliberate
+                    </label>
+                    {deliberate && (
+                      <label className="inline-flex items-center gap-1.5">
+                        Rebuttals
+                        <select
+                          value={rebuttalRounds}
+                          onChange={(event) => setRebuttalRounds(Number.parseInt(event.target.value, 10))}
+                          className="rounded-md border border-slate-500/35 bg-slate-900/75 px-1.5 py-0.5 text-slate-100"
+                        >
+                          <option value={1}>1</option>
+                          <option value={2}>2</option>
+                          <option value={3}>3</option>
+                        </select>
+                      </label>
+                    )}
+                  </div>
                   <button
                     type="submit"
                     disabled={!directive.trim() || isDispatching}
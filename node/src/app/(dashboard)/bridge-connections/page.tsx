@@ -65,11 +65,7 @@ interface ConnectionsResponse {
     total: number
     enabled: number
     autoRelay: number
-    providers: {
-      telegram: { total: number; enabled: number }
-      discord: { total: number; enabled: number }
-      whatsapp: { total: number; enabled: number }
-    }
+    providers: Record<BridgeConnectionProvider, { total: number; enabled: number }>
     lastDeliveryAt: string | null
     lastDeliveryStatus: BridgeDispatchStatus | null
   }
@@ -87,6 +83,8 @@ interface CreateFormState {
   webhookUrl: string
   accessToken: string
   phoneNumberId: string
+  homeserverUrl: string
+  signingSecret: string
 }
 
 interface EditDraftState {
@@ -100,6 +98,8 @@ interface EditDraftState {
   webhookUrl: string
   accessToken: string
   phoneNumberId: string
+  homeserverUrl: string
+  signingSecret: string
 }
 
 interface Notice {
@@ -113,6 +113,9 @@ const PROVIDER_LABELS: Record<BridgeConnectionProvider, string> = {
   telegram: "Telegram",
   discord: "Discord",
   whatsapp: "WhatsApp",
+  slack: "Slack",
+  matrix: "Matrix",
+  webhook: "Signed webhook",
 }
 
 const STATUS_LABELS: Record<BridgeDispatchStatus, string> = {
@@ -158,6 +161,8 @@ function defaultCreateFormState(): CreateFormState {
     webhookUrl: "",
     accessToken: "",
     phoneNumberId: "",
+    homeserverUrl: "",
+    signingSecret: "",
   }
 }
 
@@ -186,9 +191,12 @@ function patchConfigTextPurpose(raw: string, purpose: BridgeConnectionPurpose):
 
 function buildCredentialsPayload(
   provider: BridgeConnectionProvider,
-  state: Pick<CreateFormState, "botToken" | "webhookUrl" | "accessToken" | "phoneNumberId">,
+  state: Pick<
+    CreateFormState,
+    "botToken" | "webhookUrl" | "accessToken" | "phoneNumberId" | "homeserverUrl" | "signingSecret"
+  >,
 ) {
-  if (provider === "telegram") {
+  if (provider === "telegram" || provider === "slack") {
     return { botToken: state.botToken.trim() }
   }
 
@@ -196,6 +204,20 @@ function buildCredentialsPayload(
     return { webhookUrl: state.webhookUrl.trim() }
   }
 
+  if (provider === "matrix") {
+    return {
+      homeserverUrl: state.homeserverUrl.trim(),
+      accessToken: state.accessToken.trim(),
+    }
+  }
+
+  if (provider === "webhook") {
+    return {
+      webhookUrl: state.webhookUrl.trim(),
+      signingSecret: state.signingSecret.trim(),
+    }
+  }
+
   return {
     accessToken: state.accessToken.trim(),
     phoneNumberId: state.phoneNumberId.trim(),
@@ -211,6 +233,18 @@ function destinationPlaceholderForProvider(provider: BridgeConnectionProvider):
     return "destination label (for example: #bridge-updates)"
   }
 
+  if (provider === "slack") {
+    return "channel id (for example: C0123456789)"
+  }
+
+  if (provider === "matrix") {
+    return "room id (for example: !abcdef:matrix.org)"
+  }
+
+  if (provider === "webhook") {
+    return "destination label (for example: pager-gateway)"
+  }
+
   return "recipient phone (E.164, for example: +15551234567)"
 }
 
@@ -228,6 +262,8 @@ function draftFromConnection(connection: ConnectionRecord): EditDraftState {
     webhookUrl: "",
     accessToken: "",
     phoneNumberId: "",
+    homeserverUrl: "",
+    signingSecret: "",
   }
 }
 
@@ -403,10 +439,28 @@ export default function BridgeConnectionsPage() {
           config: configWithPurpose(parseConfigJson(draft.configText), draft.purpose),
         }
 
-        if (connection.provider === "telegram" && draft.botToken.trim()) {
+        if ((connection.provider === "telegram" || connection.provider === "slack") && draft.botToken.trim()) {
           payload.credentials = { botToken: draft.botToken.trim() }
         } else if (connection.provider === "discord" && draft.webhookUrl.trim()) {
           payload.credentials = { webhookUrl: draft.webhookUrl.trim() }
+        } else if (
+          connection.provider === "matrix" &&
+          draft.homeserverUrl.trim() &&
+          draft.accessToken.trim()
+        ) {
+          payload.credentials = {
+            homeserverUrl: draft.homeserverUrl.trim(),
+            accessToken: draft.accessToken.trim(),
+          }
+        } else if (
+          connection.provider === "webhook" &&
+          draft.webhookUrl.trim() &&
+          draft.signingSecret.trim()
+        ) {
+          payload.credentials = {
+            webhookUrl: draft.webhookUrl.trim(),
+            signingSecret: draft.signingSecret.trim(),
+          }
         } else if (
           connection.provider === "whatsapp" &&
           draft.accessToken.trim() &&
@@ -579,7 +633,7 @@ export default function BridgeConnectionsPage() {
   return (
     <PageLayout
       title="Bridge Connections"
-      description="Configure Telegram, Discord, and WhatsApp patch-through channels for COU-DEA outbound relay."
+      description="Configure Telegram, Discord, WhatsApp, Slack, Matrix, and signed webhook patch-through channels for COU-DEA outbound relay."
     >
       <div className="space-y-4">
         {notice ? (
@@ -675,6 +729,9 @@ export default function BridgeConnectionsPage() {
                         <option value="telegram">Telegram</option>
                         <option value="discord">Discord</option>
                         <option value="whatsapp">WhatsApp</option>
+                        <option value="slack">Slack</option>
+                        <option value="matrix">Matrix</option>
+                        <option value="webhook">Signed webhook</option>
                       </select>
                     </label>
                     <label className="text-sm">
@@ -729,9 +786,11 @@ export default function BridgeConnectionsPage() {
                     />
                   </label>
 
-                  {createForm.provider === "telegram" && (
+                  {(createForm.provider === "telegram" || createForm.provider === "slack") && (
                     <label className="text-sm">
-                      <span className="mb-1 block text-slate-600 dark:text-slate-300">Telegram bot token</span>
+                      <span className="mb-1 block text-slate-600 dark:text-slate-300">
+                        {createForm.provider === "slack" ? "Slack bot token (xoxb-...)" : "Telegram bot token"}
+                      </span>
                       <input
                         type="password"
                         value={createForm.botToken}
@@ -788,6 +847,66 @@ export default function BridgeConnectionsPage() {
                     </div>
                   )}
 
+                  {createForm.provider === "matrix" && (
+                    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                      <label className="text-sm">
+                        <span className="mb-1 block text-slate-600 dark:text-slate-300">Homeserver URL</span>
+                        <input
+                          type="url"
+                          value={createForm.homeserverUrl}
+                          onChange={(event) =>
+                            setCreateForm((current) => ({ ...current, homeserverUrl: event.target.value }))
+                          }
+                          placeholder="https://matrix.org"
+                          className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                          required
+                        />
+                      </label>
+                      <label className="text-sm">
+                        <span className="mb-1 block text-slate-600 dark:text-slate-300">Access token</span>
+                        <input
+                          type="password"
+                          value={createForm.accessToken}
+                          onChange={(event) =>
+                            setCreateForm((current) => ({ ...current, accessToken: event.target.value }))
+                          }
+                          className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                          required
+                        />
+                      </label>
+                    </div>
+                  )}
+
+                  {createForm.provider === "webhook" && (
+                    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                      <label className="text-sm">
+                        <span className="mb-1 block text-slate-600 dark:text-slate-300">Webhook URL</span>
+                        <input
+                          type="password"
+                          value={createForm.webhookUrl}
+                          onChange={(event) =>
+                            setCreateForm((current) => ({ ...current, webhookUrl: event.target.value }))
+                          }
+                          className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                          required
+                        />
+                      </label>
+                      <label className="text-sm">
+                        <span className="mb-1 block text-slate-600 dark:text-slate-300">HMAC signing secret</span>
+                        <input
+                          type="password"
+                          value={createForm.signingSecret}
+                          onChange={(event) =>
+                            setCreateForm((current) => ({ ...current, signingSecret: event.target.value }))
+                          }
+                          className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                          minLength={16}
+                          required
+                        />
+                      </label>
+                    </div>
+                  )}
+
                   <label className="text-sm">
                     <span className="mb-1 block text-slate-600 dark:text-slate-300">Config (JSON)</span>
                     <textarea
@@ -911,7 +1030,7 @@ export default function BridgeConnectionsPage() {
               ) : connections.length === 0 ? (
                 <EmptyState
                   title="No bridge connections yet"
-                  description="Create your first Telegram, Discord, or WhatsApp bridge connection above."
+                  description="Create your first Telegram, Discord, WhatsApp, Slack, Matrix, or signed webhook bridge connection above."
                 />
               ) : (
                 <div className="space-y-3">
@@ -996,7 +1115,7 @@ export default function BridgeConnectionsPage() {
                             className="rounded-lg border border-slate-300 bg-white px-3 py-2 font-mono text-xs text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
                           />
                           <div className="space-y-2">
-                            {connection.provider === "telegram" && (
+                            {(connection.provider === "telegram" || connection.provider === "slack") && (
                               <input
                                 type="password"
                                 value={draft.botToken}
@@ -1052,6 +1171,62 @@ export default function BridgeConnectionsPage() {
                                 />
                               </div>
                             )}
+                            {connection.provider === "matrix" && (
+                              <div className="grid grid-cols-1 gap-2">
+                                  <input
+                                    type="password"
+                                    value={draft.homeserverUrl}
+                                    onChange={(event) =>
+                                      setDrafts((current) => ({
+                                        ...current,
+                                        [connection.id]: { ...draft, homeserverUrl: event.target.value },
+                                      }))
+                                    }
+                                    placeholder="Homeserver URL (set with token to rotate)"
+                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                                  />
+                                  <input
+                                    type="password"
+                                    value={draft.accessToken}
+                                    onChange={(event) =>
+                                      setDrafts((current) => ({
+                                        ...current,
+                                        [connection.id]: { ...draft, accessToken: event.target.value },
+                                      }))
+                                    }
+                                    placeholder="Rotate access token (optional)"
+                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                                  />
+                              </div>
+                            )}
+                            {connection.provider === "webhook" && (
+                              <div className="grid grid-cols-1 gap-2">
+                                  <input
+                                    type="password"
+                                    value={draft.webhookUrl}
+                                    onChange={(event) =>
+                                      setDrafts((current) => ({
+                                        ...current,
+                                        [connection.id]: { ...draft, webhookUrl: event.target.value },
+                                      }))
+                                    }
+                                    placeholder="Webhook URL (set with secret to rotate)"
+                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                                  />
+                                  <input
+                                    type="password"
+                                    value={draft.signingSecret}
+                                    onChange={(event) =>
+                                      setDrafts((current) => ({
+                                        ...current,
+                                        [connection.id]: { ...draft, signingSecret: event.target.value },
+                                      }))
+                                    }
+                                    placeholder="Rotate signing secret (optional)"
+                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
+                                  />
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -153,7 +153,7 @@ interface BridgeSceneCommsEntry {
 interface BridgeConnectionOption {
   id: string
   name: string
-  provider: "telegram" | "discord" | "whatsapp"
+  provider: "telegram" | "discord" | "whatsapp" | "slack" | "matrix" | "webhook"
   enabled: boolean
   autoRelay: boolean
   purpose: "bridge_group" | "xo_direct" | "custom"
@@ -784,7 +784,14 @@ export default function BridgePage() {
         ? payload.connections
             .map((connection: Record<string, unknown>) => {
               const provider = connection.provider
-              if (provider !== "telegram" && provider !== "discord" && provider !== "whatsapp") {
+              if (
+                provider !== "telegram" &&
+                provider !== "discord" &&
+                provider !== "whatsapp" &&
+                provider !== "slack" &&
+                provider !== "matrix" &&
+                provider !== "webhook"
+              ) {
                 return null
               }
 
@@ -1697,7 +1704,7 @@ export default function BridgePage() {
                   value={patchComposer}
                   onChange={(event) => setPatchComposer(event.target.value)}
                   rows={2}
-                  placeholder="Relay outbound status/update to Telegram, Discord, and WhatsApp..."
+                  placeholder="Relay outbound status/update to Telegram, Discord, WhatsApp, Slack, and Matrix..."
                   disabled={!selectedShipDeploymentId || isPatchingThrough}
                   className="w-full resize-none rounded-xl border border-slate-400/35 bg-white/90 px-3 py-2 text-sm placeholder:text-slate-400 focus:border-cyan-300/45 focus:outline-none dark:bg-slate-900/70"
                 />
@@ -33,7 +33,7 @@ interface PersonalSubagent {
 }
 
 interface ExecutionPolicyDecision {
-  matchedSource: "subagent-rule" | "policy-profile" | "fallback-rule" | "none"
+  matchedSource: "subagent-rule" | "policy-profile" | "fallback-rule" | "pre-tool-use-hook" | "none"
   matchedPolicyName?: string
   matchedPattern?: string
   reason: string
@@ -7,14 +7,69 @@ interface Hook {
   name: string
   matcher: string
   type: string
+  event?: HookEventValue
   command: string
   isActive: boolean
   createdAt: Date
+  hasSigningSecret?: boolean
+  signingSecretPreview?: string | null
+  deliveryHealth?: HookDeliveryHealth | null
   _count: {
     executions: number
   }
 }
 
+interface HookDeliveryHealth {
+  state: "healthy" | "degraded" | "failing" | "idle"
+  total: number
+  delivered: number
+  retrying: number
+  deadLettered: number
+  successRate: number | null
+  lastDeliveredAt: string | null
+  lastError: string | null
+}
+
+interface HookDeliveryRow {
+  id: string
+  event: string
+  status: string
+  attempts: number
+  redeliveryCount: number
+  lastError: string | null
+  lastResponseStatus: number | null
+  deadLetteredAt: string | null
+  createdAt: string
+}
+
+const HEALTH_BADGE_CLASSES: Record<HookDeliveryHealth["state"], string> = {
+  healthy: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  degraded: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  failing: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  idle: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+}
+
+type HookEventValue =
+  | "post_tool_use"
+  | "pre_tool_use"
+  | "session_start"
+  | "session_end"
+  | "prompt_submitted"
+  | "runtime_fallback"
+
+const HOOK_EVENT_OPTIONS: Array<{ value: HookEventValue; label: string; matcherHint: string }> = [
+  { value: "post_tool_use", label: "PostToolUse", matcherHint: "Matched against the tool name." },
+  {
+    value: "pre_tool_use",
+    label: "PreToolUse (blocking)",
+    matcherHint: "Matched against the tool name. Respond with {\"decision\": \"allow\" | \"deny\" | \"rewrite\"}.",
+  },
+  { value: "session_start", label: "Session start", matcherHint: "Matched against the session source." },
+  { value: "session_end", label: "Session end", matcherHint: "Matched against the session source." },
+  { value: "prompt_submitted", label: "Prompt submitted", matcherHint: "Matched against the session source." },
+  { value: "runtime_fallback", label: "Runtime fallback", matcherHint: "Matched against the runtime provider that answered." },
+]
+
 interface HookExample {
   name: string
   matcher: string
@@ -27,6 +82,7 @@ interface HookFormData {
   name: string
   matcher: string
   type: "webhook" | "command" | "script"
+  event: HookEventValue
   command: string
   webhookUrl: string
   isActive: boolean
@@ -61,6 +117,7 @@ function defaultFormData(): HookFormData {
     name: "",
     matcher: "",
     type: "webhook",
+    event: "post_tool_use",
     command: "",
     webhookUrl: "",
     isActive: true,
@@ -72,6 +129,7 @@ function requestPayloadFromFormData(formData: HookFormData): Record<string, unkn
     name: formData.name.trim(),
     matcher: formData.matcher.trim(),
     type: formData.type,
+    event: formData.event,
     isActive: formData.isActive,
   }
 
@@ -95,6 +153,10 @@ export default function HooksPage() {
   const [formData, setFormData] = useState<HookFormData>(defaultFormData)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [createError, setCreateError] = useState<string | null>(null)
+  const [revealedSecret, setRevealedSecret] = useState<{ hookId: string; secret: string } | null>(null)
+  const [openDeadLetters, setOpenDeadLetters] = useState<string | null>(null)
+  const [deadLetters, setDeadLetters] = useState<HookDeliveryRow[]>([])
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null)
 
   useEffect(() => {
     void fetchHooks()
@@ -141,6 +203,11 @@ export default function HooksPage() {
         return
       }
 
+      const created = (await response.json().catch(() => ({}))) as { id?: string; signingSecret?: string }
+      if (created.id && created.signingSecret) {
+        setRevealedSecret({ hookId: created.id, secret: created.signingSecret })
+      }
+
       setShowCreateForm(false)
       setFormData(defaultFormData())
       await fetchHooks()
@@ -186,6 +253,73 @@ export default function HooksPage() {
     }
   }
 
+  const handleRotateSecret = async (id: string) => {
+    if (!confirm("Rotate the signing secret? Receivers must switch to the new secret.")) return
+
+    try {
+      const response = await fetch(`/api/hooks/${id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ rotateSigningSecret: true }),
+      })
+
+      if (response.ok) {
+        const updated = (await response.json()) as { signingSecret?: string }
+        if (updated.signingSecret) {
+          setRevealedSecret({ hookId: id, secret: updated.signingSecret })
+        }
+        await fetchHooks()
+      }
+    } catch (error) {
+      console.error("Error rotating hook signing secret:", error)
+    }
+  }
+
+  const loadDeadLetters = async (id: string) => {
+    try {
+      const response = await fetch(`/api/hooks/${id}/deliveries?status=dead_letter`)
+      if (response.ok) {
+        const payload = (await response.json()) as { deliveries: HookDeliveryRow[] }
+        setDeadLetters(payload.deliveries)
+      }
+    } catch (error) {
+      console.error("Error fetching hook deliveries:", error)
+    }
+  }
+
+  const toggleDeadLetters = async (id: string) => {
+    if (openDeadLetters === id) {
+      setOpenDeadLetters(null)
+      return
+    }
+
+    setOpenDeadLetters(id)
+    setDeadLetters([])
+    await loadDeadLetters(id)
+  }
+
+  const handleRedeliver = async (hookId: string, deliveryId: string) => {
+    setRedeliveringId(deliveryId)
+    try {
+      const response = await fetch(`/api/hooks/deliveries/${deliveryId}/redeliver`, {
+        method: "POST",
+      })
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string }
+        setErrorMessage(payload.error || "Failed to redeliver hook event.")
+      }
+
+      await Promise.all([loadDeadLetters(hookId), fetchHooks()])
+    } catch (error) {
+      console.error("Error redelivering hook event:", error)
+    } finally {
+      setRedeliveringId(null)
+    }
+  }
+
   const applyExample = (example: HookExample) => {
     setShowCreateForm(true)
     setCreateError(null)
@@ -193,6 +327,7 @@ export default function HooksPage() {
       name: example.name,
       matcher: example.matcher,
       type: example.type,
+      event: "post_tool_use",
       command: "",
       webhookUrl: example.webhookUrl,
       isActive: true,
@@ -268,6 +403,27 @@ export default function HooksPage() {
                     placeholder="Format Code Hook"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Event
+                  </label>
+                  <select
+                    value={formData.event}
+                    onChange={(e) =>
+                      setFormData({ ...formData, event: e.target.value as HookEventValue })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    {HOOK_EVENT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {HOOK_EVENT_OPTIONS.find((option) => option.value === formData.event)?.matcherHint}
+                  </p>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Matcher (Regex pattern)
@@ -376,6 +532,23 @@ export default function HooksPage() {
           </div>
         )}
 
+        {revealedSecret && (
+          <div className="mb-4 rounded-lg border border-blue-300 bg-blue-50 px-3 py-2 text-sm text-blue-800 dark:border-blue-800 dark:bg-blue-950/50 dark:text-blue-200">
+            <p className="font-medium">Signing secret (shown once):</p>
+            <code className="block break-all font-mono text-xs mt-1">{revealedSecret.secret}</code>
+            <p className="mt-1 text-xs">
+              Verify <code>X-OrchWiz-Signature</code> as HMAC-SHA256 of{" "}
+              <code>{"${X-OrchWiz-Timestamp}.${X-OrchWiz-Nonce}.${body}"}</code>.
+            </p>
+            <button
+              onClick={() => setRevealedSecret(null)}
+              className="mt-2 px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="text-center py-12 text-gray-500 dark:text-gray-400">
             Loading hooks...
@@ -407,6 +580,17 @@ export default function HooksPage() {
                       >
                         {hook.isActive ? "Active" : "Inactive"}
                       </span>
+                      {hook.deliveryHealth && (
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded ${HEALTH_BADGE_CLASSES[hook.deliveryHealth.state]}`}
+                          title={hook.deliveryHealth.lastError || undefined}
+                        >
+                          {hook.deliveryHealth.state}
+                          {hook.deliveryHealth.successRate !== null
+                            ? ` · ${Math.round(hook.deliveryHealth.successRate * 100)}%`
+                            : ""}
+                        </span>
+                      )}
                     </div>
                     <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
                       <p>
@@ -415,6 +599,9 @@ export default function HooksPage() {
                           {hook.matcher}
                         </code>
                       </p>
+                      <p>
+                        <span className="font-medium">Event:</span> {hook.event || "post_tool_use"}
+                      </p>
                       <p>
                         <span className="font-medium">Type:</span> {hook.type}
                       </p>
@@ -428,6 +615,26 @@ export default function HooksPage() {
                         <span className="font-medium">Executions:</span>{" "}
                         {hook._count.executions}
                       </p>
+                      {hook.type === "webhook" && (
+                        <p>
+                          <span className="font-medium">Signing secret:</span>{" "}
+                          {hook.hasSigningSecret ? (
+                            <code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">
+                              {hook.signingSecretPreview}
+                            </code>
+                          ) : (
+                            "none (unsigned)"
+                          )}
+                        </p>
+                      )}
+                      {hook.deliveryHealth && hook.deliveryHealth.total > 0 && (
+                        <p>
+                          <span className="font-medium">Deliveries:</span>{" "}
+                          {hook.deliveryHealth.delivered} delivered, {hook.deliveryHealth.retrying} retrying,{" "}
+                          {hook.deliveryHealth.deadLettered} dead-lettered
+                          {hook.deliveryHealth.lastError ? ` (last error: ${hook.deliveryHealth.lastError})` : ""}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
@@ -441,6 +648,22 @@ export default function HooksPage() {
                     >
                       {hook.isActive ? "Deactivate" : "Activate"}
                     </button>
+                    {hook.type === "webhook" && (
+                      <>
+                        <button
+                          onClick={() => toggleDeadLetters(hook.id)}
+                          className="px-3 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                        >
+                          Dead letters ({hook.deliveryHealth?.deadLettered || 0})
+                        </button>
+                        <button
+                          onClick={() => handleRotateSecret(hook.id)}
+                          className="px-3 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                        >
+                          Rotate secret
+                        </button>
+                      </>
+                    )}
                     <button
                       onClick={() => handleDelete(hook.id)}
                       className="px-3 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors"
@@ -449,6 +672,40 @@ export default function HooksPage() {
                     </button>
                   </div>
                 </div>
+                {openDeadLetters === hook.id && (
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                    {deadLetters.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No dead-lettered deliveries.</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {deadLetters.map((delivery) => (
+                          <li
+                            key={delivery.id}
+                            className="flex items-start justify-between gap-4 rounded-lg bg-gray-50 dark:bg-gray-900/30 p-3 text-sm"
+                          >
+                            <div className="text-gray-600 dark:text-gray-400 space-y-1">
+                              <p>
+                                <span className="font-medium">{delivery.event}</span> ·{" "}
+                                {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts} attempts
+                                {delivery.redeliveryCount > 0 ? ` · redelivered ${delivery.redeliveryCount}x` : ""}
+                              </p>
+                              {delivery.lastError && (
+                                <p className="text-red-600 dark:text-red-400">{delivery.lastError}</p>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => handleRedeliver(hook.id, delivery.id)}
+                              disabled={redeliveringId === delivery.id}
+                              className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                              {redeliveringId === delivery.id ? "Redelivering..." : "Redeliver"}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
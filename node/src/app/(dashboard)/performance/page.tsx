@@ -57,6 +57,19 @@ interface RuntimeRlStateSummary {
   lastConsolidatedAt: string | null
 }
 
+interface RuntimeCircuitSummary {
+  provider: string
+  state: "closed" | "open" | "half_open"
+  consecutiveFailures: number
+  failureThreshold: number
+  openedAt: string | null
+  retryAt: string | null
+  lastError: string | null
+  lastFailureAt: string | null
+  lastSuccessAt: string | null
+  tripCount: number
+}
+
 interface PerformanceSummaryPayload {
   window: PerformanceWindow
   from: string
@@ -71,6 +84,7 @@ interface PerformanceSummaryPayload {
     economics: RuntimeEconomicsSummary
     intelligence: RuntimeIntelligenceSummary
     rlState: RuntimeRlStateSummary
+    circuits: RuntimeCircuitSummary[]
   }
   recentFailures: Array<{
     type: "rag" | "runtime"
@@ -94,6 +108,18 @@ interface PerformanceSummaryPayload {
   }>
 }
 
+function circuitStateClass(state: RuntimeCircuitSummary["state"]): string {
+  if (state === "open") {
+    return "text-rose-600 dark:text-rose-300"
+  }
+
+  if (state === "half_open") {
+    return "text-amber-600 dark:text-amber-300"
+  }
+
+  return "text-emerald-600 dark:text-emerald-300"
+}
+
 function formatRate(rate: number): string {
   return `${(rate * 100).toFixed(1)}%`
 }
@@ -317,6 +343,47 @@ export default function PerformancePage() {
               </SurfaceCard>
             </div>
 
+            <SurfaceCard>
+              <h2 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Provider circuits</h2>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Live breaker state for this server process. Open circuits are skipped until their cool-down probe succeeds.
+              </p>
+              <div className="mt-2 overflow-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="text-slate-500 dark:text-slate-400">
+                    <tr>
+                      <th className="px-2 py-1">Provider</th>
+                      <th className="px-2 py-1">State</th>
+                      <th className="px-2 py-1">Failures</th>
+                      <th className="px-2 py-1">Trips</th>
+                      <th className="px-2 py-1">Retry at</th>
+                      <th className="px-2 py-1">Last error</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.runtime.circuits.map((entry) => (
+                      <tr key={entry.provider} className="border-t border-slate-200/80 dark:border-white/10">
+                        <td className="px-2 py-1.5 text-slate-800 dark:text-slate-100">{entry.provider}</td>
+                        <td className={`px-2 py-1.5 font-medium ${circuitStateClass(entry.state)}`}>
+                          {entry.state.replace("_", "-")}
+                        </td>
+                        <td className="px-2 py-1.5 text-slate-700 dark:text-slate-200">
+                          {entry.consecutiveFailures} / {entry.failureThreshold}
+                        </td>
+                        <td className="px-2 py-1.5 text-slate-700 dark:text-slate-200">{entry.tripCount}</td>
+                        <td className="px-2 py-1.5 text-slate-700 dark:text-slate-200">
+                          {entry.retryAt ? new Date(entry.retryAt).toLocaleTimeString() : "n/a"}
+                        </td>
+                        <td className="max-w-[22rem] truncate px-2 py-1.5 text-slate-700 dark:text-slate-200" title={entry.lastError || undefined}>
+                          {entry.lastError || "n/a"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </SurfaceCard>
+
             <div className="grid gap-3 lg:grid-cols-2">
               <SurfaceCard>
                 <h2 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Intelligence adoption</h2>
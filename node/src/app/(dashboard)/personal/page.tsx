@@ -44,8 +44,8 @@ import {
 import {
   DEFAULT_SUBAGENT_SETTINGS,
   HARNESS_RUNTIME_PROFILES,
+  isHarnessRuntimeProfile,
   normalizeSubagentSettings,
-  type HarnessRuntimeProfile,
   type SubagentSettings,
 } from "@/lib/subagents/settings"
 import { normalizeSubagentType, type SubagentTypeValue } from "@/lib/subagents/types"
@@ -550,6 +550,7 @@ export default function PersonalPage() {
   })
   const [policyLibrary, setPolicyLibrary] = useState<PermissionPolicy[]>([])
   const [isPolicyLibraryLoading, setIsPolicyLibraryLoading] = useState(false)
+  const [runtimeProfileOptions, setRuntimeProfileOptions] = useState<string[]>([...HARNESS_RUNTIME_PROFILES])
   const [isPolicyEditorSaving, setIsPolicyEditorSaving] = useState(false)
   const [isPolicyAssignmentSaving, setIsPolicyAssignmentSaving] = useState(false)
   const [policyAssignments, setPolicyAssignments] = useState<PolicyAssignment[]>([])
@@ -718,6 +719,25 @@ export default function PersonalPage() {
     }
   }, [])
 
+  const loadRuntimeProfileOptions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/runtime/profiles")
+      if (!response.ok) {
+        return
+      }
+
+      const payload = await response.json()
+      const custom = Array.isArray(payload?.profiles)
+        ? payload.profiles
+            .filter((entry: any) => entry && typeof entry.name === "string" && entry.isActive !== false)
+            .map((entry: any) => entry.name as string)
+        : []
+      setRuntimeProfileOptions([...HARNESS_RUNTIME_PROFILES, ...custom])
+    } catch (error) {
+      console.error("Failed to load runtime profiles:", error)
+    }
+  }, [])
+
   const loadPolicyLibrary = useCallback(async () => {
     setIsPolicyLibraryLoading(true)
     try {
@@ -1077,6 +1097,10 @@ export default function PersonalPage() {
     void loadPolicyLibrary()
   }, [loadPolicyLibrary])
 
+  useEffect(() => {
+    void loadRuntimeProfileOptions()
+  }, [loadRuntimeProfileOptions])
+
   useEffect(() => {
     if (activeTab !== "personal" || effectiveDetailTab !== "tools") {
       return
@@ -2459,18 +2483,19 @@ export default function PersonalPage() {
                       {effectiveDetailTab === "harness" ? (
                         <HarnessPanel
                           harness={settingsDraft.harness}
+                          runtimeProfileOptions={runtimeProfileOptions}
                           readOnly={selectedSubagent.isShared || activeTab !== "personal"}
                           isDirty={harnessSettingsDirty}
                           isSaving={harnessSettingsSaving}
                           onRuntimeProfileChange={(profile) => {
-                            if (!HARNESS_RUNTIME_PROFILES.includes(profile)) {
+                            if (!isHarnessRuntimeProfile(profile)) {
                               return
                             }
                             setSettingsDraft((current) => ({
                               ...current,
                               harness: {
                                 ...current.harness,
-                                runtimeProfile: profile as HarnessRuntimeProfile,
+                                runtimeProfile: profile,
                               },
                             }))
                             markSettingsDirty("harness")
@@ -23,6 +23,7 @@ export default function SessionDetailPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [prompt, setPrompt] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
 
   useEffect(() => {
     if (params.id) {
@@ -64,11 +65,28 @@ export default function SessionDetailPage() {
       if (response.ok) {
         setPrompt("")
         fetchSession() // Refresh to get new interactions
+      } else if (response.status === 499 || response.status === 504) {
+        fetchSession() // Cancelled or timed out; show the partial response
       }
     } catch (error) {
       console.error("Error submitting prompt:", error)
     } finally {
       setIsSubmitting(false)
+      setIsCancelling(false)
+    }
+  }
+
+  const handleCancelPrompt = async () => {
+    if (!session) return
+
+    setIsCancelling(true)
+    try {
+      await fetch(`/api/sessions/${session.id}/prompt/cancel`, {
+        method: "POST",
+      })
+    } catch (error) {
+      console.error("Error cancelling prompt:", error)
+      setIsCancelling(false)
     }
   }
 
@@ -152,7 +170,17 @@ export default function SessionDetailPage() {
               rows={4}
               className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
-            <div className="flex justify-end mt-4">
+            <div className="flex justify-end gap-2 mt-4">
+              {isSubmitting && (
+                <button
+                  type="button"
+                  onClick={handleCancelPrompt}
+                  disabled={isCancelling}
+                  className="px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isCancelling ? "Stopping..." : "Stop"}
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={!prompt.trim() || isSubmitting}
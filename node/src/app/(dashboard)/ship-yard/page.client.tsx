@@ -212,6 +212,9 @@ interface BridgeConnectionSummary {
     telegram: { total: number; enabled: number }
     discord: { total: number; enabled: number }
     whatsapp: { total: number; enabled: number }
+    slack: { total: number; enabled: number }
+    matrix: { total: number; enabled: number }
+    webhook: { total: number; enabled: number }
   }
   lastDeliveryAt: string | null
   lastDeliveryStatus: "pending" | "processing" | "completed" | "failed" | null
@@ -18,8 +18,9 @@ import { VAULT_TAB_NOTIFICATION_CHANNEL } from "@/lib/notifications/channels"
 import { formatUnreadBadgeCount } from "@/lib/notifications/store"
 import { VaultExplorer } from "@/components/vault/VaultExplorer"
 import { VaultGraphView } from "@/components/vault/VaultGraphView"
+import { VaultPropertyTable } from "@/components/vault/VaultPropertyTable"
 
-type VaultTab = "topology" | "explorer" | "graph"
+type VaultTab = "topology" | "explorer" | "graph" | "table"
 
 function VaultNode({
   icon: Icon,
@@ -202,7 +203,9 @@ export default function VaultPage() {
   const router = useRouter()
   const pathname = usePathname()
   const tabParam = searchParams.get("tab")
-  const activeTab: VaultTab = tabParam === "explorer" || tabParam === "graph" ? tabParam : "topology"
+  const activeTab: VaultTab = tabParam === "explorer" || tabParam === "graph" || tabParam === "table"
+    ? tabParam
+    : "topology"
 
   useEffect(() => {
     return registerActiveChannels([VAULT_TAB_NOTIFICATION_CHANNEL[activeTab]])
@@ -226,6 +229,7 @@ export default function VaultPage() {
             { id: "topology", label: "Topology" },
             { id: "explorer", label: "Explorer" },
             { id: "graph", label: "Graph" },
+            { id: "table", label: "Table" },
           ] as Array<{ id: VaultTab; label: string }>).map((tab) => {
             const badgeLabel = formatUnreadBadgeCount(getUnread([VAULT_TAB_NOTIFICATION_CHANNEL[tab.id]]))
             return (
@@ -253,6 +257,7 @@ export default function VaultPage() {
         {activeTab === "topology" ? <VaultTopologyView /> : null}
         {activeTab === "explorer" ? <VaultExplorer /> : null}
         {activeTab === "graph" ? <VaultGraphView /> : null}
+        {activeTab === "table" ? <VaultPropertyTable /> : null}
       </div>
     </PageLayout>
   )
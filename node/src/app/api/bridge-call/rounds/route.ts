@@ -7,7 +7,9 @@ import {
   getBridgeCallQueueSnapshot,
   listBridgeCallRounds,
   parseDirective,
+  parseRebuttalRounds,
   parseRequestedShipDeploymentId,
+  parseRoundMode,
   parseRoundSource,
   parseRoundsQueryShipDeploymentId,
   parseRoundsQueryTake,
@@ -81,6 +83,7 @@ export async function POST(request: NextRequest) {
 
     const requestedShipDeploymentId = parseRequestedShipDeploymentId(body.shipDeploymentId)
     const source = parseRoundSource(body.source)
+    const mode = parseRoundMode(body.mode)
 
     const context = await resolveBridgeCallContext({
       userId: session.user.id,
@@ -91,6 +94,8 @@ export async function POST(request: NextRequest) {
       userId: session.user.id,
       directive,
       source,
+      mode,
+      rebuttalRounds: mode === "deliberation" ? parseRebuttalRounds(body.rebuttalRounds) : undefined,
       shipDeploymentId: context.selectedShipDeploymentId,
       stations: context.stations,
     })
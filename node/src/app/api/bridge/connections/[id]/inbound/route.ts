@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  BridgeInboundError,
+  deliverBridgeInboundMessages,
+  loadInboundBridgeConnection,
+  parseDiscordInteraction,
+  parseTelegramUpdate,
+  parseWhatsAppWebhook,
+  resolveWhatsAppVerifyChallenge,
+  verifyDiscordInteractionSignature,
+  verifyTelegramWebhookSecret,
+  verifyWhatsAppSignature,
+} from "@/lib/bridge/connections/inbound"
+import type {
+  DiscordConnectionCredentials,
+  TelegramConnectionCredentials,
+  WhatsAppConnectionCredentials,
+} from "@/lib/bridge/connections/validation"
+
+export const dynamic = "force-dynamic"
+
+const DISCORD_PONG = 1
+const DISCORD_CHANNEL_MESSAGE = 4
+const DISCORD_EPHEMERAL_FLAG = 64
+
+function parseJson(rawBody: string): unknown {
+  try {
+    return JSON.parse(rawBody) as unknown
+  } catch {
+    throw new BridgeInboundError("Invalid JSON body", { status: 400, code: "INVALID_JSON" })
+  }
+}
+
+function errorResponse(error: unknown, label: string) {
+  if (error instanceof BridgeInboundError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+  }
+
+  console.error(`Error handling bridge inbound ${label}:`, error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+}
+
+// WhatsApp Cloud API subscription handshake.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params
+    const inbound = await loadInboundBridgeConnection(id)
+    if (inbound.connection.provider !== "whatsapp") {
+      return NextResponse.json({ error: "Not supported for this provider" }, { status: 405 })
+    }
+
+    const challenge = resolveWhatsAppVerifyChallenge({
+      mode: request.nextUrl.searchParams.get("hub.mode"),
+      token: request.nextUrl.searchParams.get("hub.verify_token"),
+      challenge: request.nextUrl.searchParams.get("hub.challenge"),
+      verifyToken: (inbound.credentials as WhatsAppConnectionCredentials).verifyToken,
+    })
+
+    if (!challenge) {
+      return NextResponse.json({ error: "Verification failed" }, { status: 403 })
+    }
+
+    return new NextResponse(challenge, {
+      status: 200,
+      headers: {
+        "content-type": "text/plain",
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "verification")
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params
+    const inbound = await loadInboundBridgeConnection(id)
+    const rawBody = await request.text()
+
+    if (inbound.connection.provider === "telegram") {
+      const verified = verifyTelegramWebhookSecret(
+        (inbound.credentials as TelegramConnectionCredentials).webhookSecret,
+        request.headers.get("x-telegram-bot-api-secret-token"),
+      )
+      if (!verified) {
+        return unauthorized()
+      }
+
+      const result = await deliverBridgeInboundMessages({
+        inbound,
+        messages: parseTelegramUpdate(parseJson(rawBody)),
+      })
+      return NextResponse.json(result)
+    }
+
+    if (inbound.connection.provider === "whatsapp") {
+      const verified = verifyWhatsAppSignature({
+        rawBody,
+        signature: request.headers.get("x-hub-signature-256"),
+        appSecret: (inbound.credentials as WhatsAppConnectionCredentials).appSecret,
+      })
+      if (!verified) {
+        return unauthorized()
+      }
+
+      const result = await deliverBridgeInboundMessages({
+        inbound,
+        messages: parseWhatsAppWebhook(parseJson(rawBody)),
+      })
+      return NextResponse.json(result)
+    }
+
+    if (inbound.connection.provider !== "discord") {
+      return NextResponse.json({ error: "Not supported for this provider" }, { status: 405 })
+    }
+
+    const verified = verifyDiscordInteractionSignature({
+      rawBody,
+      signature: request.headers.get("x-signature-ed25519"),
+      timestamp: request.headers.get("x-signature-timestamp"),
+      publicKey: (inbound.credentials as DiscordConnectionCredentials).publicKey,
+    })
+    if (!verified) {
+      return unauthorized()
+    }
+
+    const interaction = parseDiscordInteraction(parseJson(rawBody))
+    if (interaction.type === "ping") {
+      return NextResponse.json({ type: DISCORD_PONG })
+    }
+
+    if (interaction.type === "ignored") {
+      return NextResponse.json({
+        type: DISCORD_CHANNEL_MESSAGE,
+        data: {
+          content: "Unsupported command. Use the bridge command with a message option.",
+          flags: DISCORD_EPHEMERAL_FLAG,
+        },
+      })
+    }
+
+    const result = await deliverBridgeInboundMessages({
+      inbound,
+      messages: [interaction.message],
+    })
+    const content = result.accepted > 0
+      ? `Relayed to ${result.stationKeys.map((stationKey) => stationKey.toUpperCase()).join(", ")}.`
+      : result.duplicates > 0
+        ? "Already relayed."
+        : "You are not allowed to message this ship."
+
+    return NextResponse.json({
+      type: DISCORD_CHANNEL_MESSAGE,
+      data: {
+        content,
+        flags: DISCORD_EPHEMERAL_FLAG,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "message")
+  }
+}
@@ -117,10 +117,13 @@ export async function GET(request: NextRequest) {
       }),
     ])
 
-    const providerSummary = {
+    const providerSummary: Record<BridgeConnectionProvider, { total: number; enabled: number }> = {
       telegram: { total: 0, enabled: 0 },
       discord: { total: 0, enabled: 0 },
       whatsapp: { total: 0, enabled: 0 },
+      slack: { total: 0, enabled: 0 },
+      matrix: { total: 0, enabled: 0 },
+      webhook: { total: 0, enabled: 0 },
     }
 
     for (const connection of connections) {
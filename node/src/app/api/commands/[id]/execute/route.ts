@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { executeCommandWithPolicy } from "@/lib/execution/command-executor"
-import { publishRealtimeEvent } from "@/lib/realtime/events"
-import { recordCommandExecutionSignal } from "@/lib/agentsync/signals"
-import { runPostToolUseHooks } from "@/lib/hooks/runner"
-import type { PostToolUseStatus } from "@/lib/hooks/types"
+import { completeCommandExecution } from "@/lib/execution/command-runs"
+import { createCommandExecutionApproval } from "@/lib/execution/approvals"
 import {
   AccessControlError,
   assertCanReadOwnedResource,
@@ -13,68 +11,6 @@ import {
 
 export const dynamic = 'force-dynamic'
 
-interface CommandPostToolUseHookInput {
-  ownerUserId: string
-  toolName: string
-  status: PostToolUseStatus
-  sessionId: string | null
-  toolUseId: string
-  durationMs: number
-  output: string | null
-  error: string | null
-  commandPath: string | null
-  blocked: boolean
-  commandId: string
-  subagentId: string | null
-}
-
-interface CommandPostToolUseHookDeps {
-  runHooks: typeof runPostToolUseHooks
-}
-
-const defaultCommandPostToolUseHookDeps: CommandPostToolUseHookDeps = {
-  runHooks: (input) => runPostToolUseHooks(input),
-}
-
-export async function runCommandPostToolUseHooks(
-  input: CommandPostToolUseHookInput,
-  deps: CommandPostToolUseHookDeps = defaultCommandPostToolUseHookDeps,
-) {
-  try {
-    const hookResult = await deps.runHooks({
-      ownerUserId: input.ownerUserId,
-      toolName: input.toolName,
-      status: input.status,
-      sessionId: input.sessionId,
-      toolUseId: input.toolUseId,
-      durationMs: input.durationMs,
-      input: {
-        commandId: input.commandId,
-        subagentId: input.subagentId,
-      },
-      output: input.output,
-      error: input.error,
-      metadata: {
-        commandPath: input.commandPath,
-        blocked: input.blocked,
-      },
-    })
-
-    return {
-      matchedHooks: hookResult.matchedHooks,
-      delivered: hookResult.delivered,
-      failed: hookResult.failed,
-    }
-  } catch (hookError) {
-    console.error("PostToolUse hook execution failed (fail-open):", hookError)
-    return {
-      matchedHooks: 0,
-      delivered: 0,
-      failed: 0,
-    }
-  }
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -141,75 +77,60 @@ export async function POST(
       },
     })
 
-    const result = await executeCommandWithPolicy(command, { subagentId: effectiveSubagentId })
-    const completedAt = new Date()
-    const duration = Math.max(result.durationMs, completedAt.getTime() - startedAt.getTime())
-
-    const updatedExecution = await prisma.commandExecution.update({
-      where: { id: execution.id },
-      data: {
-        status: result.status === "completed" ? "completed" : "failed",
-        output: result.output || null,
-        error:
-          result.error ||
-          (result.status === "blocked"
-            ? "Execution blocked by policy"
-            : null),
-        completedAt,
-        duration,
-      },
-    })
-
-    const hookSummary = await runCommandPostToolUseHooks({
-      ownerUserId: actor.userId,
-      toolName: command.name,
-      status: result.status,
-      sessionId,
-      toolUseId: updatedExecution.id,
-      durationMs: result.durationMs,
-      output: result.output || null,
-      error: result.error || null,
-      commandPath: command.path || null,
-      blocked: result.status === "blocked",
-      commandId: id,
+    const result = await executeCommandWithPolicy(command, {
       subagentId: effectiveSubagentId,
+      hookOwnerUserId: actor.userId,
+      sessionId,
+      toolUseId: execution.id,
     })
 
-    publishRealtimeEvent({
-      type: "command.executed",
-      userId: actor.userId,
-      payload: {
-        executionId: updatedExecution.id,
-        commandId: id,
-        sessionId,
-        subagentId: effectiveSubagentId,
-        status: updatedExecution.status,
-      },
-    })
-
-    if (effectiveSubagentId) {
-      void recordCommandExecutionSignal({
-        userId: actor.userId,
-        subagentId: effectiveSubagentId,
-        sourceId: updatedExecution.id,
-        status: result.status,
-        durationMs: result.durationMs,
-        metadata: {
-          commandId: id,
-          permission: result.permission,
+    if (result.status === "awaiting_approval") {
+      const parkedExecution = await prisma.commandExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: "awaiting_approval",
+          metadata: JSON.parse(JSON.stringify({
+            ...result.metadata,
+            permission: result.permission,
+          })),
         },
-      }).catch((signalError) => {
-        console.error("AgentSync command signal record failed:", signalError)
       })
+
+      const approval = await createCommandExecutionApproval({
+        execution: parkedExecution,
+        command,
+        permission: result.permission,
+        reviewScript: result.reviewScript,
+      })
+
+      return NextResponse.json({
+        ...parkedExecution,
+        policy: result.permission,
+        effectiveSubagentId,
+        blocked: false,
+        awaitingApproval: true,
+        approval,
+        metadata: result.metadata,
+      }, { status: 202 })
     }
 
+    const completed = await completeCommandExecution({
+      executionId: execution.id,
+      command,
+      userId: actor.userId,
+      sessionId,
+      subagentId: effectiveSubagentId,
+      startedAt,
+      result,
+    })
+
     return NextResponse.json({
-      ...updatedExecution,
+      ...completed.execution,
       policy: result.permission,
       effectiveSubagentId,
       blocked: result.status === "blocked",
       metadata: result.metadata,
-      hooks: hookSummary,
+      hooks: completed.hooks,
     })
   } catch (error) {
     if (error instanceof AccessControlError) {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { AccessControlError, requireAccessActor, type AccessActor } from "@/lib/security/access-control"
+import {
+  CommandApprovalError,
+  reviewCommandExecutionApproval,
+  type CommandApprovalReviewDecision,
+} from "@/lib/execution/approvals"
+
+export const dynamic = "force-dynamic"
+
+const REVIEW_DECISIONS: CommandApprovalReviewDecision[] = ["approve_once", "always_allow_subagent", "reject"]
+
+interface CommandApprovalReviewRouteDeps {
+  requireActor: () => Promise<AccessActor>
+  reviewApproval: typeof reviewCommandExecutionApproval
+}
+
+const defaultDeps: CommandApprovalReviewRouteDeps = {
+  requireActor: requireAccessActor,
+  reviewApproval: (args) => reviewCommandExecutionApproval(args),
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function toErrorResponse(error: unknown): NextResponse {
+  if (error instanceof AccessControlError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+  }
+
+  if (error instanceof CommandApprovalError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        ...(error.code ? { code: error.code } : {}),
+      },
+      { status: error.status },
+    )
+  }
+
+  console.error("Command approval review route failed:", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+export async function handlePatchCommandApproval(
+  request: NextRequest,
+  approvalId: string,
+  deps: CommandApprovalReviewRouteDeps = defaultDeps,
+) {
+  try {
+    const actor = await deps.requireActor()
+    const body = await request.json().catch(() => ({})) as Record<string, unknown>
+
+    const decisionRaw = asNonEmptyString(body.decision)
+    const decision = decisionRaw && (REVIEW_DECISIONS as string[]).includes(decisionRaw)
+      ? decisionRaw as CommandApprovalReviewDecision
+      : null
+    if (!decision) {
+      return NextResponse.json(
+        { error: "decision must be approve_once, always_allow_subagent or reject" },
+        { status: 400 },
+      )
+    }
+
+    const result = await deps.reviewApproval({
+      actor,
+      approvalId,
+      decision,
+      commandPattern: asNonEmptyString(body.commandPattern),
+      reviewNote: asNonEmptyString(body.reviewNote),
+    })
+
+    return NextResponse.json({
+      approval: result.approval,
+      execution: result.execution,
+      blocked: result.result.status === "blocked",
+      metadata: result.result.metadata,
+      hooks: result.hooks,
+    })
+  } catch (error) {
+    return toErrorResponse(error)
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ approvalId: string }> },
+) {
+  const { approvalId } = await params
+  return handlePatchCommandApproval(request, approvalId)
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { CommandApprovalStatus } from "@prisma/client"
+import { AccessControlError, requireAccessActor, type AccessActor } from "@/lib/security/access-control"
+import { listCommandExecutionApprovals } from "@/lib/execution/approvals"
+
+export const dynamic = "force-dynamic"
+
+const APPROVAL_STATUSES: CommandApprovalStatus[] = ["pending", "approved", "rejected", "expired"]
+
+interface CommandApprovalsRouteDeps {
+  requireActor: () => Promise<AccessActor>
+  listApprovals: typeof listCommandExecutionApprovals
+}
+
+const defaultDeps: CommandApprovalsRouteDeps = {
+  requireActor: requireAccessActor,
+  listApprovals: listCommandExecutionApprovals,
+}
+
+export async function handleGetCommandApprovals(
+  request: NextRequest,
+  deps: CommandApprovalsRouteDeps = defaultDeps,
+) {
+  try {
+    const actor = await deps.requireActor()
+    const statusParam = request.nextUrl.searchParams.get("status")
+    const status = statusParam && (APPROVAL_STATUSES as string[]).includes(statusParam)
+      ? statusParam as CommandApprovalStatus
+      : null
+
+    if (statusParam && !status) {
+      return NextResponse.json({ error: "status must be pending, approved, rejected or expired" }, { status: 400 })
+    }
+
+    const approvals = await deps.listApprovals({
+      actor,
+      status,
+    })
+
+    return NextResponse.json({ approvals })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+
+    console.error("Error listing command approvals:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleGetCommandApprovals(request)
+}
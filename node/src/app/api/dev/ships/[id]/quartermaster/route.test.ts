@@ -62,6 +62,7 @@ function createDeps(overrides: Partial<DevShipQuartermasterRouteDeps> = {}): Dev
           id: "i-1",
           sessionId: "session-1",
           type: "user_input",
+          status: "completed",
           content: "hello",
           metadata: null,
           timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -70,6 +71,7 @@ function createDeps(overrides: Partial<DevShipQuartermasterRouteDeps> = {}): Dev
           id: "i-2",
           sessionId: "session-1",
           type: "ai_response",
+          status: "completed",
           content: "world",
           metadata: null,
           timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { HookDeliveryStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import {
+  AccessControlError,
+  assertCanReadOwnedResource,
+  requireAccessActor,
+} from "@/lib/security/access-control"
+import {
+  listHookDeliveries,
+  serializeHookDelivery,
+  summarizeHookDeliveryHealth,
+} from "@/lib/hooks/deliveries"
+
+export const dynamic = "force-dynamic"
+
+const DELIVERY_STATUSES: HookDeliveryStatus[] = ["processing", "retrying", "delivered", "dead_letter"]
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const hook = await prisma.hook.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+      },
+    })
+
+    if (!hook) {
+      return NextResponse.json({ error: "Hook not found" }, { status: 404 })
+    }
+
+    assertCanReadOwnedResource({
+      actor,
+      ownerUserId: hook.ownerUserId,
+      notFoundMessage: "Hook not found",
+    })
+
+    const searchParams = request.nextUrl.searchParams
+    const statusParam = searchParams.get("status")
+    const status = DELIVERY_STATUSES.find((entry) => entry === statusParam)
+    if (statusParam && !status) {
+      return NextResponse.json(
+        { error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const take = Number.parseInt(searchParams.get("take") || "", 10)
+    const deliveries = await listHookDeliveries({
+      hookId: hook.id,
+      status,
+      take: Number.isFinite(take) ? take : undefined,
+    })
+    const recent = status ? await listHookDeliveries({ hookId: hook.id }) : deliveries
+
+    return NextResponse.json({
+      hookId: hook.id,
+      health: summarizeHookDeliveryHealth(recent),
+      deliveries: deliveries.map(serializeHookDelivery),
+    })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching hook deliveries:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -8,6 +8,8 @@ import {
   requireAccessActor,
 } from "@/lib/security/access-control"
 import { HookValidationError, parseHookUpdateInput } from "@/lib/hooks/validation"
+import { loadHookDeliveryHealth } from "@/lib/hooks/deliveries"
+import { redactHookSigningSecret } from "@/lib/hooks/signing"
 
 export const dynamic = 'force-dynamic'
 
@@ -49,7 +51,12 @@ export async function GET(
       notFoundMessage: "Hook not found",
     })
 
-    return NextResponse.json(hook)
+    const health = hook.type === "webhook" ? await loadHookDeliveryHealth([hook.id]) : {}
+
+    return NextResponse.json({
+      ...redactHookSigningSecret(hook),
+      deliveryHealth: health[hook.id] || null,
+    })
   } catch (error) {
     if (error instanceof AccessControlError) {
       return NextResponse.json({ error: error.message }, { status: error.status })
@@ -100,7 +107,7 @@ export async function PUT(
 
     notifyHooksChanged(actor.userId, hook.id)
 
-    return NextResponse.json(hook)
+    return NextResponse.json(redactHookSigningSecret(hook, { reveal: Boolean(updateData.signingSecret) }))
   } catch (error) {
     if (error instanceof AccessControlError) {
       return NextResponse.json({ error: error.message }, { status: error.status })
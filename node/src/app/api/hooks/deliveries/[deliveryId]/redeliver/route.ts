@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { publishNotificationUpdated } from "@/lib/realtime/notifications"
+import {
+  AccessControlError,
+  assertCanWriteOwnedResource,
+  requireAccessActor,
+} from "@/lib/security/access-control"
+import {
+  HookDeliveryError,
+  redeliverHookDelivery,
+  serializeHookDelivery,
+} from "@/lib/hooks/deliveries"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ deliveryId: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { deliveryId } = await params
+    const existing = await prisma.hookDelivery.findUnique({
+      where: { id: deliveryId },
+      select: {
+        id: true,
+        hook: {
+          select: {
+            ownerUserId: true,
+          },
+        },
+      },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: "Hook delivery not found" }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.hook.ownerUserId,
+      notFoundMessage: "Hook delivery not found",
+    })
+
+    const delivery = await redeliverHookDelivery(existing.id)
+
+    publishNotificationUpdated({
+      userId: actor.userId,
+      channel: "hooks",
+      entityId: delivery.hookId,
+    })
+
+    return NextResponse.json(serializeHookDelivery(delivery))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof HookDeliveryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error redelivering hook delivery:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
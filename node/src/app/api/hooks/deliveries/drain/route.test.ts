@@ -0,0 +1,47 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import type { NextRequest } from "next/server"
+import { POST } from "./route"
+
+function drainRequest(token: string): NextRequest {
+  return new Request("http://localhost/api/hooks/deliveries/drain", {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${token}`,
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({}),
+  }) as unknown as NextRequest
+}
+
+test("POST rejects bearer tokens that do not match the trigger token", async () => {
+  const previous = process.env.HOOK_TRIGGER_BEARER_TOKEN
+  process.env.HOOK_TRIGGER_BEARER_TOKEN = "machine-token"
+
+  try {
+    for (const token of ["machine-tokeX", "machine", "machine-token-extended"]) {
+      const response = await POST(drainRequest(token))
+      assert.equal(response.status, 401)
+    }
+  } finally {
+    if (previous === undefined) {
+      delete process.env.HOOK_TRIGGER_BEARER_TOKEN
+    } else {
+      process.env.HOOK_TRIGGER_BEARER_TOKEN = previous
+    }
+  }
+})
+
+test("POST rejects bearer tokens when no trigger token is configured", async () => {
+  const previous = process.env.HOOK_TRIGGER_BEARER_TOKEN
+  delete process.env.HOOK_TRIGGER_BEARER_TOKEN
+
+  try {
+    const response = await POST(drainRequest("machine-token"))
+    assert.equal(response.status, 401)
+  } finally {
+    if (previous !== undefined) {
+      process.env.HOOK_TRIGGER_BEARER_TOKEN = previous
+    }
+  }
+})
@@ -0,0 +1,66 @@
+import crypto from "node:crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { drainHookDeliveryQueue } from "@/lib/hooks/deliveries"
+import {
+  AccessControlError,
+  type AccessActor,
+  requireAccessActor,
+} from "@/lib/security/access-control"
+
+export const dynamic = "force-dynamic"
+
+function parseBearerToken(headerValue: string | null): string | null {
+  if (!headerValue) {
+    return null
+  }
+
+  const match = headerValue.match(/^Bearer\s+(.+)$/i)
+  return match?.[1]?.trim() || null
+}
+
+function timingSafeEqualStrings(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a, "utf8")
+  const bBuffer = Buffer.from(b, "utf8")
+  if (aBuffer.length !== bBuffer.length) {
+    return false
+  }
+
+  return crypto.timingSafeEqual(aBuffer, bBuffer)
+}
+
+/**
+ * Retries due hook deliveries. Schedulers call it with the
+ * `HOOK_TRIGGER_BEARER_TOKEN` bearer to drain every owner; signed-in users
+ * drain only their own queue.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({})) as { limit?: unknown }
+    const limit = typeof body.limit === "number" && Number.isFinite(body.limit) ? body.limit : undefined
+
+    const suppliedToken = parseBearerToken(request.headers.get("authorization"))
+    let actor: AccessActor | null = null
+    if (suppliedToken) {
+      const expectedToken = process.env.HOOK_TRIGGER_BEARER_TOKEN?.trim()
+      if (!expectedToken || !timingSafeEqualStrings(suppliedToken, expectedToken)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      }
+    } else {
+      actor = await requireAccessActor()
+    }
+
+    const processed = await drainHookDeliveryQueue({
+      limit,
+      ...(actor ? { ownerUserId: actor.userId } : {}),
+    })
+
+    return NextResponse.json({ processed })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error draining hook deliveries:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
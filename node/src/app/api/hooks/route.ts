@@ -3,6 +3,8 @@ import { prisma } from "@/lib/prisma"
 import { publishNotificationUpdated } from "@/lib/realtime/notifications"
 import { AccessControlError, requireAccessActor } from "@/lib/security/access-control"
 import { HookValidationError, parseHookCreateInput } from "@/lib/hooks/validation"
+import { loadHookDeliveryHealth } from "@/lib/hooks/deliveries"
+import { redactHookSigningSecret } from "@/lib/hooks/signing"
 
 export const dynamic = 'force-dynamic'
 
@@ -42,7 +44,16 @@ export async function GET(request: NextRequest) {
       },
     })
 
-    return NextResponse.json(hooks)
+    const health = await loadHookDeliveryHealth(
+      hooks.filter((hook) => hook.type === "webhook").map((hook) => hook.id),
+    )
+
+    return NextResponse.json(
+      hooks.map((hook) => ({
+        ...redactHookSigningSecret(hook),
+        deliveryHealth: health[hook.id] || null,
+      })),
+    )
   } catch (error) {
     if (error instanceof AccessControlError) {
       return NextResponse.json({ error: error.message }, { status: error.status })
@@ -66,7 +77,9 @@ export async function POST(request: NextRequest) {
         name: parsed.name,
         matcher: parsed.matcher,
         type: parsed.type,
+        event: parsed.event,
         command: parsed.command,
+        signingSecret: parsed.signingSecret,
         isActive: parsed.isActive,
         ownerUserId: actor.userId,
       } as any,
@@ -74,7 +87,7 @@ export async function POST(request: NextRequest) {
 
     notifyHooksChanged(actor.userId, hook.id)
 
-    return NextResponse.json(hook, { status: 201 })
+    return NextResponse.json(redactHookSigningSecret(hook, { reveal: true }), { status: 201 })
   } catch (error) {
     if (error instanceof AccessControlError) {
       return NextResponse.json({ error: error.message }, { status: error.status })
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+import { AccessControlError, type AccessActor, requireAccessActor } from "@/lib/security/access-control"
+import {
+  runRagVectorBenchmark,
+  type RagVectorBenchmarkArgs,
+  type RagVectorBenchmarkResult,
+} from "@/lib/performance/rag-vector-benchmark"
+import { resolveVaultKnowledgeScope } from "@/lib/vault/rag"
+
+export const dynamic = "force-dynamic"
+
+const BENCHMARK_VAULT_IDS = new Set<RagVectorBenchmarkArgs["vaultId"]>([
+  "orchwiz",
+  "ship",
+  "agent-public",
+  "agent-private",
+  "joined",
+])
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+  return value as Record<string, unknown>
+}
+
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const parsed = typeof value === "number" ? Math.round(value) : Number.parseInt(String(value ?? ""), 10)
+  if (!Number.isFinite(parsed)) {
+    return fallback
+  }
+  return Math.max(min, Math.min(max, parsed))
+}
+
+export interface RagVectorBenchmarkRouteDeps {
+  resolveActor: () => Promise<AccessActor>
+  runBenchmark: (args: RagVectorBenchmarkArgs) => Promise<RagVectorBenchmarkResult>
+}
+
+const defaultDeps: RagVectorBenchmarkRouteDeps = {
+  resolveActor: () => requireAccessActor(),
+  runBenchmark: (args) => runRagVectorBenchmark(args),
+}
+
+export async function handlePostRagVectorBenchmark(
+  request: NextRequest,
+  deps: RagVectorBenchmarkRouteDeps = defaultDeps,
+) {
+  try {
+    const actor = await deps.resolveActor()
+    if (!actor.isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = asRecord(await request.json().catch(() => ({})))
+    const query = typeof body.query === "string" ? body.query.trim() : ""
+    if (!query) {
+      return NextResponse.json({ error: "query required" }, { status: 400 })
+    }
+
+    const vaultId = typeof body.vaultId === "string" ? body.vaultId : "joined"
+    if (!BENCHMARK_VAULT_IDS.has(vaultId as RagVectorBenchmarkArgs["vaultId"])) {
+      return NextResponse.json({ error: "Invalid vaultId" }, { status: 400 })
+    }
+
+    const result = await deps.runBenchmark({
+      userId: actor.userId,
+      query,
+      vaultId: vaultId as RagVectorBenchmarkArgs["vaultId"],
+      scope: resolveVaultKnowledgeScope(typeof body.scope === "string" ? body.scope : null),
+      shipDeploymentId: typeof body.shipDeploymentId === "string" && body.shipDeploymentId.trim()
+        ? body.shipDeploymentId.trim()
+        : undefined,
+      k: clampInt(body.k, 12, 1, 100),
+      iterations: clampInt(body.iterations, 5, 1, 20),
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Failed to run RAG vector benchmark:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return handlePostRagVectorBenchmark(request)
+}
@@ -24,6 +24,7 @@ function baseDeps(overrides?: Partial<PerformanceSummaryRouteDeps>): Performance
     findRagFailures: async () => [],
     findRuntimeFailures: async () => [],
     findRuntimeRlStateRows: async () => [],
+    loadRuntimeCircuits: () => [],
     ...overrides,
   }
 }
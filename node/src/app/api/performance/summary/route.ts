@@ -10,6 +10,7 @@ import {
   summarizeRuntimeRlState,
   type PerformanceWindow,
 } from "@/lib/performance/summary"
+import { getRuntimeCircuitSnapshot, type RuntimeCircuitSnapshot } from "@/lib/runtime/circuit-breaker"
 
 export const dynamic = "force-dynamic"
 
@@ -137,6 +138,7 @@ export interface PerformanceSummaryRouteDeps {
   findRagFailures: (windowStart: Date) => Promise<RagFailureRow[]>
   findRuntimeFailures: (windowStart: Date) => Promise<RuntimeFailureRow[]>
   findRuntimeRlStateRows: () => Promise<RuntimeRlStateRow[]>
+  loadRuntimeCircuits: () => RuntimeCircuitSnapshot[]
 }
 
 const defaultDeps: PerformanceSummaryRouteDeps = {
@@ -247,6 +249,7 @@ const defaultDeps: PerformanceSummaryRouteDeps = {
       lastConsolidatedAt: true,
     },
   }),
+  loadRuntimeCircuits: () => getRuntimeCircuitSnapshot(),
 }
 
 export async function handleGetPerformanceSummary(
@@ -345,6 +348,7 @@ export async function handleGetPerformanceSummary(
         economics: runtimeEconomics,
         intelligence: runtimeIntelligence,
         rlState: runtimeRlState,
+        circuits: deps.loadRuntimeCircuits(),
       },
       recentFailures,
     })
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import {
+  AccessControlError,
+  assertCanReadOwnedResource,
+  assertCanWriteOwnedResource,
+  requireAccessActor,
+} from "@/lib/security/access-control"
+import { serializeRuntimeProfile } from "@/lib/runtime/profile-store"
+import {
+  parseRuntimeProfileUpdateInput,
+  RuntimeProfileValidationError,
+} from "@/lib/runtime/profile-validation"
+
+export const dynamic = 'force-dynamic'
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "P2002"
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const profile = await prisma.runtimeProfile.findUnique({
+      where: { id },
+    })
+
+    if (!profile) {
+      return NextResponse.json({ error: "Runtime profile not found" }, { status: 404 })
+    }
+
+    assertCanReadOwnedResource({
+      actor,
+      ownerUserId: profile.ownerUserId,
+      notFoundMessage: "Runtime profile not found",
+    })
+
+    return NextResponse.json(serializeRuntimeProfile(profile))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching runtime profile:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const existing = await prisma.runtimeProfile.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+      },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Runtime profile not found" }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.ownerUserId,
+      notFoundMessage: "Runtime profile not found",
+    })
+
+    const updateData = parseRuntimeProfileUpdateInput(await request.json())
+
+    const profile = await prisma.runtimeProfile.update({
+      where: { id },
+      data: updateData as any,
+    })
+
+    return NextResponse.json(serializeRuntimeProfile(profile))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof RuntimeProfileValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json({ error: "A runtime profile with that name already exists" }, { status: 409 })
+    }
+
+    console.error("Error updating runtime profile:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const existing = await prisma.runtimeProfile.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+      },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Runtime profile not found" }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.ownerUserId,
+      notFoundMessage: "Runtime profile not found",
+    })
+
+    await prisma.runtimeProfile.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting runtime profile:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
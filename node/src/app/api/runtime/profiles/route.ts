@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { AccessControlError, requireAccessActor } from "@/lib/security/access-control"
+import { BUILTIN_RUNTIME_PROFILE_NAMES, resolveRuntimeProviderOrder } from "@/lib/runtime/profiles"
+import { serializeRuntimeProfile } from "@/lib/runtime/profile-store"
+import {
+  parseRuntimeProfileCreateInput,
+  RuntimeProfileValidationError,
+} from "@/lib/runtime/profile-validation"
+
+export const dynamic = 'force-dynamic'
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "P2002"
+}
+
+export async function GET() {
+  try {
+    const actor = await requireAccessActor()
+
+    const profiles = await prisma.runtimeProfile.findMany({
+      where: {
+        ownerUserId: actor.userId,
+      },
+      orderBy: {
+        name: "asc",
+      },
+    })
+
+    return NextResponse.json({
+      builtin: BUILTIN_RUNTIME_PROFILE_NAMES.map((name) => ({
+        name,
+        providers: resolveRuntimeProviderOrder(name),
+      })),
+      profiles: profiles.map(serializeRuntimeProfile),
+    })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching runtime profiles:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireAccessActor()
+    const input = parseRuntimeProfileCreateInput(await request.json())
+
+    const profile = await prisma.runtimeProfile.create({
+      data: {
+        ...input,
+        providers: input.providers as any,
+        rules: input.rules as any,
+        ownerUserId: actor.userId,
+      },
+    })
+
+    return NextResponse.json(serializeRuntimeProfile(profile), { status: 201 })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof RuntimeProfileValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json({ error: "A runtime profile with that name already exists" }, { status: 409 })
+    }
+
+    console.error("Error creating runtime profile:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import {
+  AccessControlError,
+  assertCanReadOwnedResource,
+  assertCanWriteOwnedResource,
+  requireAccessActor,
+} from "@/lib/security/access-control"
+import { ShipyardCloudVaultError } from "@/lib/shipyard/cloud/vault"
+import {
+  clearRuntimeProviderInstanceCache,
+  fromStoredRuntimeProviderInstanceKind,
+  serializeRuntimeProviderInstance,
+  storeRuntimeProviderApiKeyEnvelope,
+} from "@/lib/runtime/provider-instances"
+import {
+  parseRuntimeProviderInstanceUpdateInput,
+  RuntimeProviderInstanceValidationError,
+} from "@/lib/runtime/provider-instance-validation"
+
+export const dynamic = 'force-dynamic'
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "P2002"
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const instance = await prisma.runtimeProviderInstance.findUnique({
+      where: { id },
+    })
+
+    if (!instance) {
+      return NextResponse.json({ error: "Runtime provider instance not found" }, { status: 404 })
+    }
+
+    assertCanReadOwnedResource({
+      actor,
+      ownerUserId: instance.ownerUserId,
+      notFoundMessage: "Runtime provider instance not found",
+    })
+
+    return NextResponse.json(serializeRuntimeProviderInstance(instance))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching runtime provider instance:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const existing = await prisma.runtimeProviderInstance.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+        kind: true,
+        name: true,
+        shipDeploymentId: true,
+      },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Runtime provider instance not found" }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.ownerUserId,
+      notFoundMessage: "Runtime provider instance not found",
+    })
+
+    const { apiKey, ...updateData } = parseRuntimeProviderInstanceUpdateInput(await request.json())
+
+    if (updateData.shipDeploymentId) {
+      const ship = await prisma.agentDeployment.findFirst({
+        where: {
+          id: updateData.shipDeploymentId,
+          userId: existing.ownerUserId,
+          deploymentType: "ship",
+        },
+        select: {
+          id: true,
+        },
+      })
+
+      if (!ship) {
+        return NextResponse.json({ error: "Ship not found" }, { status: 404 })
+      }
+    }
+
+    const apiKeyEnvelope = apiKey === undefined
+      ? undefined
+      : apiKey === null
+        ? null
+        : await storeRuntimeProviderApiKeyEnvelope({
+            userId: existing.ownerUserId,
+            kind: fromStoredRuntimeProviderInstanceKind(existing.kind),
+            name: updateData.name ?? existing.name,
+            shipDeploymentId: updateData.shipDeploymentId !== undefined
+              ? updateData.shipDeploymentId
+              : existing.shipDeploymentId,
+            apiKey,
+          })
+
+    const instance = await prisma.runtimeProviderInstance.update({
+      where: { id },
+      data: {
+        ...updateData,
+        ...(apiKeyEnvelope !== undefined ? { apiKeyEnvelope: apiKeyEnvelope as any } : {}),
+      },
+    })
+
+    clearRuntimeProviderInstanceCache()
+    return NextResponse.json(serializeRuntimeProviderInstance(instance))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof RuntimeProviderInstanceValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ShipyardCloudVaultError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: "A runtime provider instance with that kind, name and ship already exists" },
+        { status: 409 }
+      )
+    }
+
+    console.error("Error updating runtime provider instance:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const existing = await prisma.runtimeProviderInstance.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+      },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Runtime provider instance not found" }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.ownerUserId,
+      notFoundMessage: "Runtime provider instance not found",
+    })
+
+    await prisma.runtimeProviderInstance.delete({
+      where: { id },
+    })
+
+    clearRuntimeProviderInstanceCache()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting runtime provider instance:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
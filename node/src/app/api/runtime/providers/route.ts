@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { AccessControlError, requireAccessActor } from "@/lib/security/access-control"
+import { ShipyardCloudVaultError } from "@/lib/shipyard/cloud/vault"
+import { BUILTIN_RUNTIME_PROVIDERS } from "@/lib/runtime/profiles"
+import {
+  clearRuntimeProviderInstanceCache,
+  serializeRuntimeProviderInstance,
+  storeRuntimeProviderApiKeyEnvelope,
+  toStoredRuntimeProviderInstanceKind,
+} from "@/lib/runtime/provider-instances"
+import {
+  parseRuntimeProviderInstanceCreateInput,
+  RuntimeProviderInstanceValidationError,
+} from "@/lib/runtime/provider-instance-validation"
+
+export const dynamic = 'force-dynamic'
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "P2002"
+}
+
+export async function GET() {
+  try {
+    const actor = await requireAccessActor()
+
+    const instances = await prisma.runtimeProviderInstance.findMany({
+      where: {
+        ownerUserId: actor.userId,
+      },
+      orderBy: [
+        { kind: "asc" },
+        { name: "asc" },
+      ],
+    })
+
+    return NextResponse.json({
+      builtin: BUILTIN_RUNTIME_PROVIDERS,
+      instances: instances.map(serializeRuntimeProviderInstance),
+    })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching runtime providers:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireAccessActor()
+    const { apiKey, ...input } = parseRuntimeProviderInstanceCreateInput(await request.json())
+
+    if (input.shipDeploymentId) {
+      const ship = await prisma.agentDeployment.findFirst({
+        where: {
+          id: input.shipDeploymentId,
+          userId: actor.userId,
+          deploymentType: "ship",
+        },
+        select: {
+          id: true,
+        },
+      })
+
+      if (!ship) {
+        return NextResponse.json({ error: "Ship not found" }, { status: 404 })
+      }
+    }
+
+    const apiKeyEnvelope = apiKey
+      ? await storeRuntimeProviderApiKeyEnvelope({
+          userId: actor.userId,
+          kind: input.kind,
+          name: input.name,
+          shipDeploymentId: input.shipDeploymentId,
+          apiKey,
+        })
+      : null
+
+    const instance = await prisma.runtimeProviderInstance.create({
+      data: {
+        ...input,
+        kind: toStoredRuntimeProviderInstanceKind(input.kind),
+        apiKeyEnvelope: apiKeyEnvelope as any,
+        ownerUserId: actor.userId,
+      },
+    })
+
+    clearRuntimeProviderInstanceCache()
+    return NextResponse.json(serializeRuntimeProviderInstance(instance), { status: 201 })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof RuntimeProviderInstanceValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof ShipyardCloudVaultError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: "A runtime provider instance with that kind, name and ship already exists" },
+        { status: 409 }
+      )
+    }
+
+    console.error("Error creating runtime provider instance:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
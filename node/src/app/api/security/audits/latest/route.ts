@@ -1,11 +1,44 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { AccessControlError, requireAccessActor } from "@/lib/security/access-control"
+import {
+  parseSecurityAuditExportFormat,
+  renderSecurityAuditControlCsv,
+  renderSecurityAuditOscal,
+  renderSecurityAuditSarif,
+  type SecurityAuditExportFormat,
+} from "@/lib/security/audit/exporters"
 import { readLatestSecurityAuditReport } from "@/lib/security/audit/reporting"
+import type { SecurityAuditReport } from "@/lib/security/audit/types"
 
 export const dynamic = "force-dynamic"
 
-export async function GET() {
+function exportResponse(report: SecurityAuditReport, format: SecurityAuditExportFormat) {
+  const [body, contentType, extension] = format === "sarif"
+    ? [JSON.stringify(renderSecurityAuditSarif(report), null, 2), "application/sarif+json", "sarif"]
+    : format === "oscal"
+      ? [JSON.stringify(renderSecurityAuditOscal(report), null, 2), "application/json", "oscal.json"]
+      : [renderSecurityAuditControlCsv(report), "text/csv; charset=utf-8", "controls.csv"]
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "content-type": contentType,
+      "content-disposition": `attachment; filename="${report.reportId}.${extension}"`,
+    },
+  })
+}
+
+export async function GET(request: NextRequest) {
   try {
+    const formatParam = request.nextUrl.searchParams.get("format")
+    const format = parseSecurityAuditExportFormat(formatParam)
+    if (formatParam && formatParam !== "summary" && !format) {
+      return NextResponse.json(
+        { error: "format must be one of summary, sarif, oscal, csv" },
+        { status: 400 },
+      )
+    }
+
     const actor = await requireAccessActor()
     const latest = await readLatestSecurityAuditReport({ userId: actor.userId })
 
@@ -13,6 +46,10 @@ export async function GET() {
       return NextResponse.json({ error: "No security audit report found" }, { status: 404 })
     }
 
+    if (format) {
+      return exportResponse(latest, format)
+    }
+
     return NextResponse.json({
       reportId: latest.reportId,
       createdAt: latest.createdAt,
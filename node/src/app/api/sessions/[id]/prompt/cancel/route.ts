@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { headers } from "next/headers"
+import { cancelInFlightSessionPrompts } from "@/lib/runtime/cancellation"
+
+export const dynamic = "force-dynamic"
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object") {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() })
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = asRecord(await request.json().catch(() => ({})))
+    const interactionId = typeof body.interactionId === "string" ? body.interactionId.trim() : ""
+
+    const cancelled = cancelInFlightSessionPrompts({
+      userId: session.user.id,
+      sessionId: id,
+      interactionId: interactionId || null,
+    })
+
+    return NextResponse.json({ cancelled })
+  } catch (error) {
+    console.error("Error cancelling prompt:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -3,8 +3,11 @@ import { auth } from "@/lib/auth"
 import { headers } from "next/headers"
 import {
   executeSessionPrompt,
+  type ExecuteSessionPromptArgs,
+  type ExecuteSessionPromptResult,
   SessionPromptError,
 } from "@/lib/runtime/session-prompt"
+import { listInFlightSessionPrompts } from "@/lib/runtime/cancellation"
 
 export const dynamic = "force-dynamic"
 
@@ -16,6 +19,105 @@ function asRecord(value: unknown): Record<string, unknown> {
   return value as Record<string, unknown>
 }
 
+function serializePromptResult(result: ExecuteSessionPromptResult) {
+  return {
+    interaction: result.interaction,
+    responseInteraction: result.responseInteraction,
+    provider: result.provider,
+    fallbackUsed: result.fallbackUsed,
+    signature: result.signature,
+    ...(result.warnings && result.warnings.length > 0 ? { warnings: result.warnings } : {}),
+  }
+}
+
+function wantsEventStream(request: NextRequest, body: Record<string, unknown>): boolean {
+  if (body.stream === true) {
+    return true
+  }
+
+  return (request.headers.get("accept") || "").includes("text/event-stream")
+}
+
+function toPromptSseChunk(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function streamSessionPrompt(
+  args: Omit<ExecuteSessionPromptArgs, "onRuntimeDelta" | "onPromptStarted" | "signal">,
+): NextResponse {
+  const encoder = new TextEncoder()
+  const disconnect = new AbortController()
+  let closed = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) {
+          return
+        }
+        controller.enqueue(encoder.encode(toPromptSseChunk(event, data)))
+      }
+
+      try {
+        const result = await executeSessionPrompt({
+          ...args,
+          signal: disconnect.signal,
+          onPromptStarted: (started) => send("started", started),
+          onRuntimeDelta: (delta) => send("delta", delta),
+        })
+        send("result", serializePromptResult(result))
+      } catch (error) {
+        if (error instanceof SessionPromptError) {
+          send("error", {
+            error: error.message,
+            status: error.status,
+            ...(error.details ? { details: error.details } : {}),
+          })
+        } else {
+          console.error("Error streaming prompt:", error)
+          send("error", { error: "Internal server error", status: 500 })
+        }
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+      disconnect.abort("disconnected")
+    },
+  })
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  return NextResponse.json({
+    inFlight: listInFlightSessionPrompts({
+      userId: session.user.id,
+      sessionId: id,
+    }),
+  })
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -44,21 +146,22 @@ export async function POST(
       },
     }
 
-    const result = await executeSessionPrompt({
+    const promptArgs = {
       userId: session.user.id,
       sessionId: id,
       prompt,
       metadata: metadataWithExecutionKind,
-    })
+    }
 
-    return NextResponse.json({
-      interaction: result.interaction,
-      responseInteraction: result.responseInteraction,
-      provider: result.provider,
-      fallbackUsed: result.fallbackUsed,
-      signature: result.signature,
-      ...(result.warnings && result.warnings.length > 0 ? { warnings: result.warnings } : {}),
+    if (wantsEventStream(request, body)) {
+      return streamSessionPrompt(promptArgs)
+    }
+
+    const result = await executeSessionPrompt({
+      ...promptArgs,
+      signal: request.signal,
     })
+    return NextResponse.json(serializePromptResult(result))
   } catch (error) {
     if (error instanceof SessionPromptError) {
       return NextResponse.json(
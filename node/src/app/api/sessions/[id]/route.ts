@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { headers } from "next/headers"
 import { publishRealtimeEvent } from "@/lib/realtime/events"
+import { emitLifecycleHookEvent } from "@/lib/hooks/runner"
 
 export const dynamic = 'force-dynamic'
 
@@ -118,6 +119,21 @@ export async function PUT(
       },
     })
 
+    if (status === "completed" || status === "failed") {
+      emitLifecycleHookEvent({
+        ownerUserId: session.user.id,
+        event: "session_end",
+        subject: updatedSession.source,
+        sessionId: updatedSession.id,
+        payload: {
+          status: updatedSession.status,
+          mode: updatedSession.mode,
+          source: updatedSession.source,
+          completedAt: updatedSession.completedAt?.toISOString() || null,
+        },
+      })
+    }
+
     return NextResponse.json(updatedSession)
   } catch (error) {
     console.error("Error updating session:", error)
@@ -139,7 +155,7 @@ export async function DELETE(
     }
 
     const { id } = await params
-    await prisma.session.delete({
+    const deletedSession = await prisma.session.delete({
       where: {
         id,
         userId: session.user.id,
@@ -155,6 +171,19 @@ export async function DELETE(
       },
     })
 
+    // The session row is gone, so the execution log cannot reference it.
+    emitLifecycleHookEvent({
+      ownerUserId: session.user.id,
+      event: "session_end",
+      subject: deletedSession.source,
+      payload: {
+        sessionId: id,
+        status: "deleted",
+        mode: deletedSession.mode,
+        source: deletedSession.source,
+      },
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error("Error deleting session:", error)
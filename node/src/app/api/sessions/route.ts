@@ -4,6 +4,7 @@ import { prisma } from "@/lib/prisma"
 import { headers } from "next/headers"
 import { mapForwardedSession } from "@/lib/forwarding/projections"
 import { publishRealtimeEvent } from "@/lib/realtime/events"
+import { emitLifecycleHookEvent } from "@/lib/hooks/runner"
 import { publishNotificationUpdated } from "@/lib/realtime/notifications"
 import { buildSessionWhereFilter, hasBridgeAgentChannel } from "@/lib/sessions/filters"
 
@@ -141,6 +142,22 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    emitLifecycleHookEvent({
+      ownerUserId: session.user.id,
+      event: "session_start",
+      subject: newSession.source,
+      sessionId: newSession.id,
+      payload: {
+        title: newSession.title,
+        mode: newSession.mode,
+        source: newSession.source,
+        projectName: newSession.projectName,
+        branch: newSession.branch,
+        environment: newSession.environment,
+        parentSessionId: newSession.parentSessionId,
+      },
+    })
+
     const bridgeChannel =
       metadata && typeof metadata === "object" && !Array.isArray(metadata)
         ? typeof (metadata as { bridge?: { channel?: unknown } }).bridge?.channel === "string"
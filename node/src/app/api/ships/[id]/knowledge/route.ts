@@ -5,6 +5,7 @@ import { prisma } from "@/lib/prisma"
 import { publishNotificationUpdated } from "@/lib/realtime/notifications"
 import { deleteVaultFile, moveVaultFile, saveVaultFile, VaultRequestError } from "@/lib/vault"
 import { queryVaultRag } from "@/lib/vault/rag"
+import { resolveVaultAccess } from "@/lib/vault/registry"
 import { normalizeShipKnowledgePath } from "@/lib/vault/knowledge"
 import { dataCoreEnabled } from "@/lib/data-core/config"
 import {
@@ -147,6 +148,7 @@ export async function GET(
           scope,
           shipDeploymentId: id,
           k,
+          access: await resolveVaultAccess(session.user.id),
         })
 
     const durationMs = Date.now() - startedAt
@@ -285,7 +287,7 @@ export async function POST(
           userId: session.user.id,
           shipDeploymentId: id,
         })
-      : await saveVaultFile("ship", path, content)
+      : await saveVaultFile("ship", path, content, { author: { type: "user", userId: session.user.id } })
     publishNotificationUpdated({
       userId: session.user.id,
       channel: "quartermaster.knowledge",
@@ -343,7 +345,7 @@ export async function PATCH(
           userId: session.user.id,
           shipDeploymentId: id,
         })
-      : await moveVaultFile("ship", fromPath, toPath)
+      : await moveVaultFile("ship", fromPath, toPath, { author: { type: "user", userId: session.user.id } })
     publishNotificationUpdated({
       userId: session.user.id,
       channel: "quartermaster.knowledge",
@@ -404,7 +406,7 @@ export async function DELETE(
           userId: session.user.id,
           shipDeploymentId: id,
         })
-      : await deleteVaultFile("ship", path, mode)
+      : await deleteVaultFile("ship", path, mode, { author: { type: "user", userId: session.user.id } })
     publishNotificationUpdated({
       userId: session.user.id,
       channel: "quartermaster.knowledge",
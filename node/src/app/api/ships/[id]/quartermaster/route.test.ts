@@ -33,6 +33,7 @@ function createDeps(overrides: Partial<ShipQuartermasterRouteDeps> = {}): ShipQu
         id: "i-1",
         sessionId: "session-1",
         type: "user_input",
+        status: "completed",
         content: "hello",
         metadata: null,
         timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -41,6 +42,7 @@ function createDeps(overrides: Partial<ShipQuartermasterRouteDeps> = {}): ShipQu
         id: "i-2",
         sessionId: "session-1",
         type: "ai_response",
+        status: "completed",
         content: "world",
         metadata: null,
         timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -133,6 +135,7 @@ test("ship quartermaster POST enables auto-provision for missing quartermaster s
             id: "i-1",
             sessionId: "session-1",
             type: "user_input",
+            status: "completed",
             content: "hello",
             metadata: null,
             timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -141,6 +144,7 @@ test("ship quartermaster POST enables auto-provision for missing quartermaster s
             id: "i-2",
             sessionId: "session-1",
             type: "ai_response",
+            status: "completed",
             content: "world",
             metadata: null,
             timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { headers } from "next/headers"
 import { inspectLocalShipRuntime } from "@/lib/shipyard/local-runtime"
+import { getRuntimeCircuitSnapshot } from "@/lib/runtime/circuit-breaker"
 
 export const dynamic = "force-dynamic"
 export const runtime = "nodejs"
@@ -14,7 +15,10 @@ export async function GET() {
     }
 
     const snapshot = await inspectLocalShipRuntime()
-    return NextResponse.json(snapshot)
+    return NextResponse.json({
+      ...snapshot,
+      runtimeProviders: getRuntimeCircuitSnapshot(),
+    })
   } catch (error) {
     console.error("Error inspecting local ship runtime:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
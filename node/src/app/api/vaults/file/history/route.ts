@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { headers } from "next/headers"
+import { auth } from "@/lib/auth"
+import { parseVaultId } from "@/lib/vault/config"
+import { getVaultFileHistory, VaultRequestError } from "@/lib/vault"
+import { resolveVaultAccess } from "@/lib/vault/registry"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() })
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const access = await resolveVaultAccess(session.user.id)
+
+    const searchParams = request.nextUrl.searchParams
+    const vaultId = parseVaultId(searchParams.get("vault"))
+    const notePath = searchParams.get("path")
+
+    if (!vaultId) {
+      return NextResponse.json({ error: "Invalid vault id" }, { status: 400 })
+    }
+
+    if (!notePath) {
+      return NextResponse.json({ error: "path query parameter is required" }, { status: 400 })
+    }
+
+    return NextResponse.json(await getVaultFileHistory(vaultId, notePath, access))
+  } catch (error) {
+    if (error instanceof VaultRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching vault note history:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
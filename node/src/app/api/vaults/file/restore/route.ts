@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { headers } from "next/headers"
+import { auth } from "@/lib/auth"
+import { publishNotificationUpdated } from "@/lib/realtime/notifications"
+import { parseVaultId } from "@/lib/vault/config"
+import { restoreVaultFileRevision, restoreVaultTrashEntry, VaultRequestError } from "@/lib/vault"
+import { resolveVaultRevisionAuthor } from "@/lib/vault/revisions"
+import { resolveVaultAccess } from "@/lib/vault/registry"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() })
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const access = await resolveVaultAccess(session.user.id)
+
+    const body = await request.json().catch(() => ({}))
+    const vaultId = parseVaultId(typeof body?.vault === "string" ? body.vault : null)
+    const revisionId = typeof body?.revisionId === "string" && body.revisionId.trim() ? body.revisionId.trim() : null
+    const trashPath = typeof body?.trashPath === "string" && body.trashPath.trim() ? body.trashPath.trim() : null
+
+    if (!vaultId) {
+      return NextResponse.json({ error: "Invalid vault id" }, { status: 400 })
+    }
+
+    if (Boolean(revisionId) === Boolean(trashPath)) {
+      return NextResponse.json({ error: "Exactly one of revisionId or trashPath is required" }, { status: 400 })
+    }
+
+    const author = await resolveVaultRevisionAuthor({
+      userId: session.user.id,
+      subagentId: typeof body?.subagentId === "string" ? body.subagentId : null,
+    })
+    if (!author) {
+      return NextResponse.json({ error: "Subagent not found" }, { status: 404 })
+    }
+
+    const payload = revisionId
+      ? await restoreVaultFileRevision(vaultId, revisionId, { author, access })
+      : await restoreVaultTrashEntry(vaultId, trashPath!, { author, access })
+    publishNotificationUpdated({
+      userId: session.user.id,
+      channel: "vault.explorer",
+      entityId: payload.path,
+    })
+    return NextResponse.json(payload)
+  } catch (error) {
+    if (error instanceof VaultRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error restoring vault note:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
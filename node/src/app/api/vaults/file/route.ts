@@ -4,7 +4,9 @@ import { auth } from "@/lib/auth"
 import { publishNotificationUpdated } from "@/lib/realtime/notifications"
 import { parseVaultId } from "@/lib/vault/config"
 import { deleteVaultFile, getVaultFile, moveVaultFile, saveVaultFile, VaultRequestError } from "@/lib/vault"
+import { resolveVaultRevisionAuthor } from "@/lib/vault/revisions"
 import type { VaultDeleteMode, VaultFileReadMode } from "@/lib/vault/types"
+import { resolveVaultAccess } from "@/lib/vault/registry"
 import { dataCoreDualReadVerifyEnabled, dataCoreEnabled } from "@/lib/data-core/config"
 import {
   deleteVaultFileToDataCore,
@@ -31,6 +33,10 @@ function parseDeleteMode(value: string | null): VaultDeleteMode {
   return value === "hard" ? "hard" : "soft"
 }
 
+function unknownSubagentResponse() {
+  return NextResponse.json({ error: "Subagent not found" }, { status: 404 })
+}
+
 export async function GET(request: NextRequest) {
   try {
     const session = await auth.api.getSession({ headers: await headers() })
@@ -38,6 +44,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     const searchParams = request.nextUrl.searchParams
     const vaultId = parseVaultId(searchParams.get("vault"))
     const notePath = searchParams.get("path")
@@ -58,9 +66,10 @@ export async function GET(request: NextRequest) {
         notePath,
         mode,
         userId: session.user.id,
+        access,
       })
       if (dataCoreDualReadVerifyEnabled()) {
-        const legacyPayload = await getVaultFile(vaultId, notePath, { mode }).catch(() => null)
+        const legacyPayload = await getVaultFile(vaultId, notePath, { mode, access }).catch(() => null)
         if (legacyPayload) {
           logDualReadDrift({
             route: "/api/vaults/file",
@@ -71,7 +80,7 @@ export async function GET(request: NextRequest) {
         }
       }
     } else {
-      payload = await getVaultFile(vaultId, notePath, { mode })
+      payload = await getVaultFile(vaultId, notePath, { mode, access })
     }
     return NextResponse.json(payload)
   } catch (error) {
@@ -91,6 +100,8 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     const body = await request.json()
     const vaultId = parseVaultId(typeof body?.vault === "string" ? body.vault : null)
     const fromPath = typeof body?.fromPath === "string" ? body.fromPath : null
@@ -104,14 +115,24 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "fromPath and toPath are required" }, { status: 400 })
     }
 
+    const author = await resolveVaultRevisionAuthor({
+      userId: session.user.id,
+      subagentId: typeof body?.subagentId === "string" ? body.subagentId : null,
+    })
+    if (!author) {
+      return unknownSubagentResponse()
+    }
+
     const payload = dataCoreEnabled()
       ? await moveVaultFileToDataCore({
           vaultId,
           fromPath,
           toPath,
           userId: session.user.id,
+          author,
+          access,
         })
-      : await moveVaultFile(vaultId, fromPath, toPath)
+      : await moveVaultFile(vaultId, fromPath, toPath, { author, access })
     publishNotificationUpdated({
       userId: session.user.id,
       channel: "vault.topology",
@@ -135,6 +156,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     const searchParams = request.nextUrl.searchParams
     const vaultId = parseVaultId(searchParams.get("vault"))
     const notePath = searchParams.get("path")
@@ -148,14 +171,24 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "path query parameter is required" }, { status: 400 })
     }
 
+    const author = await resolveVaultRevisionAuthor({
+      userId: session.user.id,
+      subagentId: searchParams.get("subagentId"),
+    })
+    if (!author) {
+      return unknownSubagentResponse()
+    }
+
     const payload = dataCoreEnabled()
       ? await deleteVaultFileToDataCore({
           vaultId,
           notePath,
           mode,
           userId: session.user.id,
+          author,
+          access,
         })
-      : await deleteVaultFile(vaultId, notePath, mode)
+      : await deleteVaultFile(vaultId, notePath, mode, { author, access })
     publishNotificationUpdated({
       userId: session.user.id,
       channel: "vault.explorer",
@@ -179,6 +212,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     const body = await request.json()
     const vaultId = parseVaultId(typeof body?.vault === "string" ? body.vault : null)
     const notePath = typeof body?.path === "string" ? body.path : null
@@ -196,14 +231,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "content is required" }, { status: 400 })
     }
 
+    const author = await resolveVaultRevisionAuthor({
+      userId: session.user.id,
+      subagentId: typeof body?.subagentId === "string" ? body.subagentId : null,
+    })
+    if (!author) {
+      return unknownSubagentResponse()
+    }
+
     const payload = dataCoreEnabled()
       ? await saveVaultFileToDataCore({
           vaultId,
           notePath,
           content,
           userId: session.user.id,
+          author,
+          access,
         })
-      : await saveVaultFile(vaultId, notePath, content)
+      : await saveVaultFile(vaultId, notePath, content, { author, access })
     publishNotificationUpdated({
       userId: session.user.id,
       channel: "vault.explorer",
@@ -3,6 +3,7 @@ import { headers } from "next/headers"
 import { auth } from "@/lib/auth"
 import { parseVaultId } from "@/lib/vault/config"
 import { getVaultGraph, VaultRequestError } from "@/lib/vault"
+import { resolveVaultAccess } from "@/lib/vault/registry"
 import { dataCoreDualReadVerifyEnabled, dataCoreEnabled } from "@/lib/data-core/config"
 import { getVaultGraphFromDataCore } from "@/lib/data-core/vault-adapter"
 import { logDualReadDrift } from "@/lib/data-core/dual-read"
@@ -38,6 +39,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     const searchParams = request.nextUrl.searchParams
     const vaultId = parseVaultId(searchParams.get("vault"))
 
@@ -52,6 +55,7 @@ export async function GET(request: NextRequest) {
       includeUnresolved,
       includeTrash: parseBoolean(searchParams.get("includeTrash"), false),
       query: searchParams.get("q") || "",
+      access,
     }
 
     let payload
@@ -60,6 +64,7 @@ export async function GET(request: NextRequest) {
         vaultId,
         includeUnresolved,
         userId: session.user.id,
+        access,
       })
       if (dataCoreDualReadVerifyEnabled()) {
         const legacyPayload = await getVaultGraph(vaultId, legacyOptions).catch(() => null)
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { headers } from "next/headers"
+import { auth } from "@/lib/auth"
+import { parseVaultId } from "@/lib/vault/config"
+import { queryVaultNoteProperties, VaultRequestError } from "@/lib/vault"
+import { resolveVaultAccess } from "@/lib/vault/registry"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() })
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const access = await resolveVaultAccess(session.user.id)
+
+    const vaultId = parseVaultId(request.nextUrl.searchParams.get("vault"))
+    if (!vaultId) {
+      return NextResponse.json({ error: "Invalid vault id" }, { status: 400 })
+    }
+
+    const query = request.nextUrl.searchParams.get("q") || ""
+    const payload = await queryVaultNoteProperties(vaultId, query, { access })
+    return NextResponse.json(payload)
+  } catch (error) {
+    if (error instanceof VaultRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error querying vault note properties:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import {
+  AccessControlError,
+  assertCanReadOwnedResource,
+  assertCanWriteOwnedResource,
+  requireAccessActor,
+} from "@/lib/security/access-control"
+import {
+  clearVaultRegistryCache,
+  purgeVaultNamespaceData,
+  serializeVaultRegistration,
+} from "@/lib/vault/registry"
+import {
+  assertVaultRootIsDisjoint,
+  parseVaultRegistrationUpdateInput,
+  VaultRegistrationValidationError,
+} from "@/lib/vault/registry-validation"
+
+export const dynamic = "force-dynamic"
+
+const NOT_FOUND_MESSAGE = "Vault registration not found"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const registration = await prisma.vaultRegistration.findUnique({
+      where: { id },
+    })
+
+    if (!registration) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 })
+    }
+
+    assertCanReadOwnedResource({
+      actor,
+      ownerUserId: registration.ownerUserId,
+      notFoundMessage: NOT_FOUND_MESSAGE,
+    })
+
+    return NextResponse.json(serializeVaultRegistration(registration))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching vault registration:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const existing = await prisma.vaultRegistration.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+        namespace: true,
+        rootPath: true,
+        isPrivate: true,
+        encrypted: true,
+        isActive: true,
+      },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.ownerUserId,
+      notFoundMessage: NOT_FOUND_MESSAGE,
+    })
+
+    const updateData = parseVaultRegistrationUpdateInput(await request.json().catch(() => ({})), existing)
+    const movedRootPath = updateData.rootPath !== existing.rootPath ? updateData.rootPath : undefined
+    if (movedRootPath) {
+      await assertVaultRootIsDisjoint({
+        rootPath: movedRootPath,
+        others: await prisma.vaultRegistration.findMany({
+          where: {
+            id: {
+              not: id,
+            },
+          },
+          select: {
+            namespace: true,
+            rootPath: true,
+          },
+        }),
+      })
+    }
+
+    if (updateData.shipDeploymentId) {
+      const ship = await prisma.agentDeployment.findFirst({
+        where: {
+          id: updateData.shipDeploymentId,
+          userId: existing.ownerUserId,
+          deploymentType: "ship",
+        },
+        select: {
+          id: true,
+        },
+      })
+
+      if (!ship) {
+        return NextResponse.json({ error: "Ship not found" }, { status: 404 })
+      }
+    }
+
+    const registration = await prisma.vaultRegistration.update({
+      where: { id },
+      data: updateData,
+    })
+
+    // A deactivated or moved vault's index no longer matches what its owner can read.
+    if ((existing.isActive && !registration.isActive) || movedRootPath) {
+      await purgeVaultNamespaceData(existing.namespace, { revisions: false })
+    }
+
+    clearVaultRegistryCache()
+    return NextResponse.json(serializeVaultRegistration(registration))
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof VaultRegistrationValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error updating vault registration:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/** Unregisters the vault and drops its RAG index and revisions; notes on disk are left in place. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const actor = await requireAccessActor()
+
+    const { id } = await params
+    const existing = await prisma.vaultRegistration.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerUserId: true,
+        namespace: true,
+      },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 })
+    }
+
+    assertCanWriteOwnedResource({
+      actor,
+      ownerUserId: existing.ownerUserId,
+      notFoundMessage: NOT_FOUND_MESSAGE,
+    })
+
+    await prisma.vaultRegistration.delete({
+      where: { id },
+    })
+    await purgeVaultNamespaceData(existing.namespace, { revisions: true })
+
+    clearVaultRegistryCache()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error deleting vault registration:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
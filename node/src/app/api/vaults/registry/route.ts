@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { AccessControlError, requireAccessActor } from "@/lib/security/access-control"
+import { clearVaultRegistryCache, serializeVaultRegistration } from "@/lib/vault/registry"
+import {
+  assertVaultRootIsDisjoint,
+  parseVaultRegistrationCreateInput,
+  VaultRegistrationValidationError,
+} from "@/lib/vault/registry-validation"
+
+export const dynamic = "force-dynamic"
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "P2002"
+}
+
+export async function GET() {
+  try {
+    const actor = await requireAccessActor()
+
+    const registrations = await prisma.vaultRegistration.findMany({
+      where: {
+        ownerUserId: actor.userId,
+      },
+      orderBy: {
+        namespace: "asc",
+      },
+    })
+
+    return NextResponse.json({
+      registrations: registrations.map(serializeVaultRegistration),
+    })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error fetching vault registrations:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireAccessActor()
+    const input = parseVaultRegistrationCreateInput(await request.json().catch(() => ({})))
+    await assertVaultRootIsDisjoint({
+      rootPath: input.rootPath,
+      others: await prisma.vaultRegistration.findMany({
+        select: {
+          namespace: true,
+          rootPath: true,
+        },
+      }),
+    })
+
+    if (input.shipDeploymentId) {
+      const ship = await prisma.agentDeployment.findFirst({
+        where: {
+          id: input.shipDeploymentId,
+          userId: actor.userId,
+          deploymentType: "ship",
+        },
+        select: {
+          id: true,
+        },
+      })
+
+      if (!ship) {
+        return NextResponse.json({ error: "Ship not found" }, { status: 404 })
+      }
+    }
+
+    const registration = await prisma.vaultRegistration.create({
+      data: {
+        ...input,
+        ownerUserId: actor.userId,
+      },
+    })
+
+    clearVaultRegistryCache()
+    return NextResponse.json(serializeVaultRegistration(registration), { status: 201 })
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof VaultRegistrationValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json({ error: "A vault with that namespace already exists" }, { status: 409 })
+    }
+
+    console.error("Error creating vault registration:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
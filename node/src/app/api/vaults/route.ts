@@ -2,6 +2,7 @@ import { NextResponse } from "next/server"
 import { headers } from "next/headers"
 import { auth } from "@/lib/auth"
 import { getVaultSummaries } from "@/lib/vault"
+import { resolveVaultAccess } from "@/lib/vault/registry"
 import { dataCoreDualReadVerifyEnabled, dataCoreEnabled } from "@/lib/data-core/config"
 import { getVaultSummariesFromDataCore } from "@/lib/data-core/vault-adapter"
 import { logDualReadDrift } from "@/lib/data-core/dual-read"
@@ -15,11 +16,13 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     let summaries
     if (dataCoreEnabled()) {
-      summaries = await getVaultSummariesFromDataCore()
+      summaries = await getVaultSummariesFromDataCore(access)
       if (dataCoreDualReadVerifyEnabled()) {
-        const legacySummaries = await getVaultSummaries().catch(() => null)
+        const legacySummaries = await getVaultSummaries(access).catch(() => null)
         if (legacySummaries) {
           logDualReadDrift({
             route: "/api/vaults",
@@ -30,7 +33,7 @@ export async function GET() {
         }
       }
     } else {
-      summaries = await getVaultSummaries()
+      summaries = await getVaultSummaries(access)
     }
     return NextResponse.json(summaries)
   } catch (error) {
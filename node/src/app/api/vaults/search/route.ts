@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { headers } from "next/headers"
 import { auth } from "@/lib/auth"
 import { parseVaultId } from "@/lib/vault/config"
-import { searchVaultNotes } from "@/lib/vault"
+import { searchVaultNotes, VaultRequestError } from "@/lib/vault"
+import { parseVaultPropertyQuery } from "@/lib/vault/frontmatter"
 import { resolveVaultRagMode } from "@/lib/vault/rag"
+import { resolveVaultAccess } from "@/lib/vault/registry"
 import { dataCoreDualReadVerifyEnabled, dataCoreEnabled } from "@/lib/data-core/config"
 import { searchVaultNotesFromDataCore } from "@/lib/data-core/vault-adapter"
 import { logDualReadDrift } from "@/lib/data-core/dual-read"
@@ -38,6 +40,8 @@ export async function GET(request: NextRequest) {
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
+
+    const access = await resolveVaultAccess(session.user.id)
     userId = session.user.id
 
     const vaultId = parseVaultId(searchParams.get("vault"))
@@ -47,9 +51,15 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Invalid vault id" }, { status: 400 })
     }
 
+    // Data-core does not index frontmatter, so property filters always run vault-local.
+    const hasPropertyFilters = parseVaultPropertyQuery(query).filters.length > 0
+    if (hasPropertyFilters && requestedBackend === "data-core-merged") {
+      return NextResponse.json({ error: "Property filters require the vault-local backend." }, { status: 400 })
+    }
+
     const backendResolution = resolveRagBackend({
       requestedBackend,
-      dataCoreEnabled: dataCoreEnabled(),
+      dataCoreEnabled: dataCoreEnabled() && !hasPropertyFilters,
     })
     effectiveBackend = backendResolution.effectiveBackend
 
@@ -61,9 +71,10 @@ export async function GET(request: NextRequest) {
         mode,
         k,
         userId: session.user.id,
+        access,
       })
       if (requestedBackend === "auto" && dataCoreDualReadVerifyEnabled()) {
-        const legacyPayload = await searchVaultNotes(vaultId, query, { mode, k }).catch(() => null)
+        const legacyPayload = await searchVaultNotes(vaultId, query, { mode, k, access }).catch(() => null)
         if (legacyPayload) {
           logDualReadDrift({
             route: "/api/vaults/search",
@@ -74,7 +85,7 @@ export async function GET(request: NextRequest) {
         }
       }
     } else {
-      payload = await searchVaultNotes(vaultId, query, { mode, k })
+      payload = await searchVaultNotes(vaultId, query, { mode, k, access })
     }
 
     const durationMs = Date.now() - startedAt
@@ -143,6 +154,10 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (error instanceof VaultRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     const durationMs = Date.now() - startedAt
     await recordRagPerformanceSample({
       userId,
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { headers } from "next/headers"
 import { auth } from "@/lib/auth"
 import { parseVaultId } from "@/lib/vault/config"
-import { getVaultTree } from "@/lib/vault"
+import { getVaultTree, VaultRequestError } from "@/lib/vault"
+import { resolveVaultAccess } from "@/lib/vault/registry"
 import { dataCoreDualReadVerifyEnabled, dataCoreEnabled } from "@/lib/data-core/config"
 import { getVaultTreeFromDataCore } from "@/lib/data-core/vault-adapter"
 import { logDualReadDrift } from "@/lib/data-core/dual-read"
@@ -16,6 +17,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const access = await resolveVaultAccess(session.user.id)
+
     const vaultId = parseVaultId(request.nextUrl.searchParams.get("vault"))
     if (!vaultId) {
       return NextResponse.json({ error: "Invalid vault id" }, { status: 400 })
@@ -26,9 +29,10 @@ export async function GET(request: NextRequest) {
       payload = await getVaultTreeFromDataCore({
         vaultId,
         userId: session.user.id,
+        access,
       })
       if (dataCoreDualReadVerifyEnabled()) {
-        const legacyPayload = await getVaultTree(vaultId).catch(() => null)
+        const legacyPayload = await getVaultTree(vaultId, access).catch(() => null)
         if (legacyPayload) {
           logDualReadDrift({
             route: "/api/vaults/tree",
@@ -39,10 +43,14 @@ export async function GET(request: NextRequest) {
         }
       }
     } else {
-      payload = await getVaultTree(vaultId)
+      payload = await getVaultTree(vaultId, access)
     }
     return NextResponse.json(payload)
   } catch (error) {
+    if (error instanceof VaultRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Error fetching vault tree:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
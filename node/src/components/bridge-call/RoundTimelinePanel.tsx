@@ -71,6 +71,20 @@ export function RoundTimelinePanel({ rounds, collapsed, onToggle }: RoundTimelin
               <p className="mt-2 text-sm text-slate-100">{round.directive}</p>
               {round.summary && <p className="mt-1 text-xs text-slate-300">{round.summary}</p>}
 
+              {round.consensus && (
+                <div className="mt-2 rounded-lg border border-cyan-300/20 bg-cyan-500/5 px-2 py-1.5 text-xs">
+                  <p className="text-cyan-100">
+                    Consensus{round.consensus.leadStationKey ? ` (${round.consensus.leadStationKey.toUpperCase()} lead)` : ""}:{" "}
+                    {round.consensus.position || "No position recorded."}
+                  </p>
+                  {round.consensus.dissent.map((entry) => (
+                    <p key={entry.stationKey} className="mt-1 text-amber-100">
+                      {entry.callsign} dissents: {entry.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               <div className="mt-2 flex flex-wrap gap-1.5">
                 {round.officerResults.map((result) => (
                   <span
@@ -78,6 +92,7 @@ export function RoundTimelinePanel({ rounds, collapsed, onToggle }: RoundTimelin
                     className={`rounded-full border border-slate-500/30 bg-slate-800/80 px-2 py-0.5 text-[10px] uppercase ${officerStatusClass(result.status)}`}
                   >
                     {result.callsign} {result.status}
+                    {result.stance ? ` · ${result.stance}` : ""}
                   </span>
                 ))}
               </div>
@@ -54,6 +54,11 @@ export function InteractionTimeline({ interactions }: InteractionTimelineProps)
               >
                 {interaction.type.replace("_", " ")}
               </span>
+              {interaction.status !== "completed" && (
+                <span className="px-2 py-1 text-xs font-medium rounded bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                  {interaction.status === "timed_out" ? "timed out" : "cancelled"}
+                </span>
+              )}
               <span className="text-xs text-gray-500 dark:text-gray-400">
                 {new Date(interaction.timestamp).toLocaleString()}
               </span>
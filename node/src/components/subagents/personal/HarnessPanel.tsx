@@ -4,6 +4,7 @@ import type { HarnessRuntimeProfile, SubagentSettings } from "@/lib/subagents/se
 
 interface HarnessPanelProps {
   harness: SubagentSettings["harness"]
+  runtimeProfileOptions: string[]
   readOnly: boolean
   isDirty: boolean
   isSaving: boolean
@@ -15,6 +16,7 @@ interface HarnessPanelProps {
 
 export function HarnessPanel({
   harness,
+  runtimeProfileOptions,
   readOnly,
   isDirty,
   isSaving,
@@ -23,6 +25,10 @@ export function HarnessPanel({
   onApplyWhenSubagentPresentChange,
   onSave,
 }: HarnessPanelProps) {
+  const profileOptions = runtimeProfileOptions.includes(harness.runtimeProfile)
+    ? runtimeProfileOptions
+    : [...runtimeProfileOptions, harness.runtimeProfile]
+
   return (
     <div className="space-y-4">
       <div className="rounded-lg border border-slate-200/80 bg-white/80 p-3 dark:border-white/10 dark:bg-white/[0.03]">
@@ -49,8 +55,11 @@ export function HarnessPanel({
               onChange={(event) => onRuntimeProfileChange(event.target.value as HarnessRuntimeProfile)}
               className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-white/15 dark:bg-white/[0.05] dark:text-slate-100"
             >
-              <option value="default">default</option>
-              <option value="quartermaster">quartermaster</option>
+              {profileOptions.map((profile) => (
+                <option key={profile} value={profile}>
+                  {profile}
+                </option>
+              ))}
             </select>
           </label>
 
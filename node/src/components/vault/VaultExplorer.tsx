@@ -23,15 +23,19 @@ import type {
 import { VaultTree } from "./VaultTree"
 import { VaultNotePreview } from "./VaultNotePreview"
 import { VaultLinksPanel } from "./VaultLinksPanel"
+import { VaultHistoryPanel } from "./VaultHistoryPanel"
+import { VaultTrashPanel } from "./VaultTrashPanel"
 
 const VAULT_IDS: VaultId[] = ["orchwiz", "ship", "agent-public", "agent-private", "joined"]
-const PHYSICAL_VAULT_IDS: VaultId[] = ["orchwiz", "ship", "agent-public", "agent-private"]
+const BUILT_IN_NAMESPACES = ["orchwiz", "ship", "agent-public", "agent-private"]
+const CUSTOM_VAULT_ID_PATTERN = /^custom:[a-z0-9][a-z0-9-]{0,47}$/
 
 type MobileSection = "tree" | "note" | "links"
+type SidePanel = "links" | "history" | "trash"
 type SaveState = "idle" | "saving" | "saved" | "error"
 
 function isVaultId(value: string | null): value is VaultId {
-  return Boolean(value && VAULT_IDS.includes(value as VaultId))
+  return Boolean(value && (VAULT_IDS.includes(value as VaultId) || CUSTOM_VAULT_ID_PATTERN.test(value)))
 }
 
 function flattenFilePaths(nodes: VaultTreeNode[]): string[] {
@@ -71,9 +75,9 @@ function normalizePathInput(raw: string): string | null {
   return normalized
 }
 
-function ensureJoinedNamespace(path: string): boolean {
+function ensureJoinedNamespace(path: string, namespaces: string[]): boolean {
   const namespace = path.split("/")[0]
-  return Boolean(namespace && PHYSICAL_VAULT_IDS.includes(namespace as VaultId))
+  return Boolean(namespace && namespaces.includes(namespace))
 }
 
 function inferCreatePathFromFolder(folderPath: string, selectedVault: VaultId): string {
@@ -83,7 +87,12 @@ function inferCreatePathFromFolder(folderPath: string, selectedVault: VaultId):
   return `${folderPath}/Untitled.md`
 }
 
-function inferCreatePathFromUnresolved(target: string, selectedVault: VaultId, selectedNotePath: string | null): string {
+function inferCreatePathFromUnresolved(
+  target: string,
+  selectedVault: VaultId,
+  selectedNotePath: string | null,
+  namespaces: string[],
+): string {
   const normalizedTarget = target.trim().replaceAll("\\", "/").split("#")[0].split("?")[0]
 
   if (!normalizedTarget) {
@@ -91,12 +100,12 @@ function inferCreatePathFromUnresolved(target: string, selectedVault: VaultId, s
   }
 
   if (selectedVault === "joined") {
-    if (ensureJoinedNamespace(normalizedTarget)) {
+    if (ensureJoinedNamespace(normalizedTarget, namespaces)) {
       return normalizedTarget.toLowerCase().endsWith(".md") ? normalizedTarget : `${normalizedTarget}.md`
     }
 
     const namespace = selectedNotePath?.split("/")[0]
-    if (namespace && ensureJoinedNamespace(`${namespace}/x.md`)) {
+    if (namespace && ensureJoinedNamespace(`${namespace}/x.md`, namespaces)) {
       const withNamespace = `${namespace}/${normalizedTarget}`
       return withNamespace.toLowerCase().endsWith(".md") ? withNamespace : `${withNamespace}.md`
     }
@@ -135,6 +144,8 @@ export function VaultExplorer() {
   const [searchBackend, setSearchBackend] = useState<VaultRagBackend>("auto")
   const [searchResults, setSearchResults] = useState<VaultSearchResult[]>([])
   const [mobileSection, setMobileSection] = useState<MobileSection>("tree")
+  const [sidePanel, setSidePanel] = useState<SidePanel>("links")
+  const [revisionRefreshKey, setRevisionRefreshKey] = useState(0)
 
   const [isEditing, setIsEditing] = useState(false)
   const [draftContent, setDraftContent] = useState("")
@@ -170,6 +181,10 @@ export function VaultExplorer() {
     () => vaults.find((vault) => vault.id === selectedVault) || null,
     [vaults, selectedVault],
   )
+  const joinedNamespaces = useMemo(() => {
+    const customNamespaces = vaults.flatMap((vault) => (vault.isCustom && vault.namespace ? [vault.namespace] : []))
+    return [...BUILT_IN_NAMESPACES, ...customNamespaces]
+  }, [vaults])
   const seedPackControlsVisible = selectedVault === "orchwiz" || selectedVault === "joined"
   const orchwizSeedPacks = useMemo(
     () => seedPacks.filter((pack) => pack.vaultId === "orchwiz"),
@@ -518,6 +533,7 @@ export function VaultExplorer() {
       const unchangedSinceSaveStart = latestDraftRef.current === content
       setDraftDirty(!unchangedSinceSaveStart)
       setSaveState(unchangedSinceSaveStart ? "saved" : "idle")
+      setRevisionRefreshKey((current) => current + 1)
 
       if (announce) {
         setMessage({ type: "success", text: "Note saved." })
@@ -651,7 +667,7 @@ export function VaultExplorer() {
       return
     }
 
-    if (selectedVault === "joined" && !ensureJoinedNamespace(normalizedPath)) {
+    if (selectedVault === "joined" && !ensureJoinedNamespace(normalizedPath, joinedNamespaces)) {
       setMessage({ type: "error", text: "Joined vault notes must start with a vault namespace (e.g. orchwiz/...)." })
       return
     }
@@ -724,7 +740,7 @@ export function VaultExplorer() {
       return
     }
 
-    if (selectedVault === "joined" && !ensureJoinedNamespace(normalizedTarget)) {
+    if (selectedVault === "joined" && !ensureJoinedNamespace(normalizedTarget, joinedNamespaces)) {
       setMessage({ type: "error", text: "Joined vault moves must keep a namespace prefix." })
       return
     }
@@ -766,6 +782,7 @@ export function VaultExplorer() {
       setRenameSourcePath(null)
       setRenameTargetPath("")
       setMessage({ type: "success", text: "Note moved." })
+      setRevisionRefreshKey((current) => current + 1)
       await loadTree(selectedVault, movedTo)
     } catch (error) {
       console.error("Error renaming note:", error)
@@ -827,6 +844,7 @@ export function VaultExplorer() {
         type: "success",
         text: mode === "soft" ? "Note moved to trash." : "Note permanently deleted.",
       })
+      setRevisionRefreshKey((current) => current + 1)
       await loadTree(selectedVault, null)
     } catch (error) {
       console.error("Error deleting note:", error)
@@ -844,6 +862,17 @@ export function VaultExplorer() {
     }
   }
 
+  const handleNoteRestored = async (path: string) => {
+    setIsEditing(false)
+    setDraftDirty(false)
+    setMessage({ type: "success", text: `Restored ${path}.` })
+    setRevisionRefreshKey((current) => current + 1)
+    await loadTree(selectedVault, path)
+    if (selectedNotePath === path) {
+      await loadPreviewFile(selectedVault, path)
+    }
+  }
+
   const handleOpenResolvedLink = (vaultId: VaultId, path: string) => {
     if (!isVaultId(vaultId)) return
 
@@ -853,7 +882,7 @@ export function VaultExplorer() {
   }
 
   const handleCreateFromUnresolvedLink = (target: string) => {
-    const suggestedPath = inferCreatePathFromUnresolved(target, selectedVault, selectedNotePath)
+    const suggestedPath = inferCreatePathFromUnresolved(target, selectedVault, selectedNotePath, joinedNamespaces)
     openCreateForm(suggestedPath)
   }
 
@@ -1259,13 +1288,47 @@ export function VaultExplorer() {
   )
 
   const linksPanel = (
-    <SurfaceCard className="h-[68vh] overflow-auto">
-      <VaultLinksPanel
-        file={file}
-        selectedVaultSummary={selectedVaultSummary}
-        onOpenLink={handleOpenResolvedLink}
-        onCreateFromUnresolved={handleCreateFromUnresolvedLink}
-      />
+    <SurfaceCard className="h-[68vh] space-y-3 overflow-auto">
+      <div className="inline-flex w-full items-center rounded-lg border border-slate-200/80 bg-white/80 p-1 dark:border-white/10 dark:bg-white/[0.03]">
+        {(["links", "history", "trash"] as SidePanel[]).map((panel) => (
+          <button
+            key={panel}
+            type="button"
+            onClick={() => setSidePanel(panel)}
+            className={`flex-1 rounded-md px-2 py-1 text-[11px] font-medium uppercase tracking-wide ${
+              sidePanel === panel
+                ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                : "text-slate-600 dark:text-slate-300"
+            }`}
+          >
+            {panel}
+          </button>
+        ))}
+      </div>
+
+      {sidePanel === "links" ? (
+        <VaultLinksPanel
+          file={file}
+          selectedVaultSummary={selectedVaultSummary}
+          onOpenLink={handleOpenResolvedLink}
+          onCreateFromUnresolved={handleCreateFromUnresolvedLink}
+        />
+      ) : null}
+      {sidePanel === "history" ? (
+        <VaultHistoryPanel
+          vaultId={selectedVault}
+          notePath={selectedNotePath}
+          refreshKey={revisionRefreshKey}
+          onRestored={(path) => void handleNoteRestored(path)}
+        />
+      ) : null}
+      {sidePanel === "trash" ? (
+        <VaultTrashPanel
+          vaultId={selectedVault}
+          refreshKey={revisionRefreshKey}
+          onRestored={(path) => void handleNoteRestored(path)}
+        />
+      ) : null}
     </SurfaceCard>
   )
 
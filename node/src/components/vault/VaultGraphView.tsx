@@ -6,12 +6,13 @@ import { Filter, Loader2, RefreshCw } from "lucide-react"
 import { MarkerType, type Edge, type Node } from "reactflow"
 import { FlowCanvas } from "@/components/flow/FlowCanvas"
 import { InlineNotice, SurfaceCard } from "@/components/dashboard/PageLayout"
-import type { VaultGraphNode, VaultGraphResponse, VaultId } from "@/lib/vault/types"
+import type { VaultGraphNode, VaultGraphResponse, VaultId, VaultSummary } from "@/lib/vault/types"
 
 const VAULT_IDS: VaultId[] = ["orchwiz", "ship", "agent-public", "agent-private", "joined"]
+const CUSTOM_VAULT_ID_PATTERN = /^custom:[a-z0-9][a-z0-9-]{0,47}$/
 
 function isVaultId(value: string): value is VaultId {
-  return VAULT_IDS.includes(value as VaultId)
+  return VAULT_IDS.includes(value as VaultId) || CUSTOM_VAULT_ID_PATTERN.test(value)
 }
 
 function encodeExplorerUrl(pathname: string, vaultId: VaultId, notePath: string): string {
@@ -37,6 +38,24 @@ export function VaultGraphView() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
+  const [customVaults, setCustomVaults] = useState<VaultSummary[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/vaults")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((payload: unknown) => {
+        if (!cancelled && Array.isArray(payload)) {
+          setCustomVaults((payload as VaultSummary[]).filter((vault) => vault.isCustom))
+        }
+      })
+      .catch((fetchError) => {
+        console.error("Error loading vault summaries:", fetchError)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
 
   useEffect(() => {
     const timer = window.setTimeout(() => {
@@ -231,6 +250,9 @@ export function VaultGraphView() {
               <option value="ship">Ship Vault</option>
               <option value="agent-public">Agent Vault Public</option>
               <option value="agent-private">Agent Vault Private</option>
+              {customVaults.map((vault) => (
+                <option key={vault.id} value={vault.id}>{vault.label}</option>
+              ))}
             </select>
           </label>
 
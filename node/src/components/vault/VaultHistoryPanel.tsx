@@ -0,0 +1,216 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { History, Loader2, RotateCcw } from "lucide-react"
+import type {
+  VaultId,
+  VaultNoteDiffResponse,
+  VaultNoteHistoryResponse,
+  VaultNoteRevisionSummary,
+} from "@/lib/vault/types"
+
+interface VaultHistoryPanelProps {
+  vaultId: VaultId
+  notePath: string | null
+  /** Bumped by the explorer after writes so the list picks up new revisions. */
+  refreshKey: number
+  onRestored: (path: string) => void
+}
+
+function authorLabel(revision: VaultNoteRevisionSummary): string {
+  if (revision.author.type === "subagent") {
+    return `subagent ${revision.author.subagentId}`
+  }
+  return revision.author.type
+}
+
+export function VaultHistoryPanel({ vaultId, notePath, refreshKey, onRestored }: VaultHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<VaultNoteRevisionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<VaultNoteDiffResponse | null>(null)
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const loadHistory = useCallback(async () => {
+    if (!notePath) {
+      setRevisions([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ vault: vaultId, path: notePath })
+      const response = await fetch(`/api/vaults/file/history?${params.toString()}`)
+      const payload = (await response.json().catch(() => ({}))) as Partial<VaultNoteHistoryResponse> & { error?: string }
+      if (!response.ok) {
+        setError(payload.error || "Failed to load note history.")
+        setRevisions([])
+        return
+      }
+      setRevisions(Array.isArray(payload.revisions) ? payload.revisions : [])
+    } catch (loadError) {
+      console.error("Error loading vault note history:", loadError)
+      setError("Failed to load note history.")
+      setRevisions([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [vaultId, notePath])
+
+  useEffect(() => {
+    setSelectedRevisionId(null)
+    setDiff(null)
+    void loadHistory()
+  }, [loadHistory, refreshKey])
+
+  const selectRevision = async (revisionId: string) => {
+    setSelectedRevisionId(revisionId)
+    setDiff(null)
+    setIsLoadingDiff(true)
+    try {
+      const params = new URLSearchParams({ vault: vaultId, from: revisionId, to: "current" })
+      const response = await fetch(`/api/vaults/file/diff?${params.toString()}`)
+      const payload = (await response.json().catch(() => ({}))) as VaultNoteDiffResponse & { error?: string }
+      if (!response.ok) {
+        setError(payload.error || "Failed to load diff.")
+        return
+      }
+      setDiff(payload)
+    } catch (diffError) {
+      console.error("Error loading vault note diff:", diffError)
+      setError("Failed to load diff.")
+    } finally {
+      setIsLoadingDiff(false)
+    }
+  }
+
+  const restoreRevision = async (revisionId: string) => {
+    if (!window.confirm("Restore this revision? The current note content will be replaced (and kept in history).")) {
+      return
+    }
+
+    setIsRestoring(true)
+    try {
+      const response = await fetch("/api/vaults/file/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ vault: vaultId, revisionId }),
+      })
+      const payload = (await response.json().catch(() => ({}))) as { path?: string; error?: string }
+      if (!response.ok || !payload.path) {
+        setError(payload.error || "Failed to restore revision.")
+        return
+      }
+      onRestored(payload.path)
+    } catch (restoreError) {
+      console.error("Error restoring vault note revision:", restoreError)
+      setError("Failed to restore revision.")
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (!notePath) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">Select a note to view its history.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {error ? (
+        <p className="rounded-md border border-rose-500/30 bg-rose-500/10 px-2.5 py-2 text-xs text-rose-700 dark:text-rose-200">{error}</p>
+      ) : null}
+
+      <div className="rounded-lg border border-slate-200/80 bg-white/70 p-3 dark:border-white/10 dark:bg-white/[0.03]">
+        <p className="inline-flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <History className="h-3.5 w-3.5" />
+          Revisions ({revisions.length})
+        </p>
+        <div className="mt-2 space-y-1.5">
+          {isLoading ? (
+            <div className="inline-flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Loading history...
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No recorded revisions.</p>
+          ) : (
+            revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className={`rounded-md border px-2.5 py-2 text-xs ${
+                  selectedRevisionId === revision.id
+                    ? "border-cyan-500/40 bg-cyan-50/70 dark:bg-cyan-500/10"
+                    : "border-slate-200/80 bg-white/80 dark:border-white/10 dark:bg-white/[0.03]"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => void selectRevision(revision.id)}
+                  className="w-full text-left"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-700 dark:text-slate-200">{new Date(revision.createdAt).toLocaleString()}</span>
+                    <span className="rounded bg-slate-100 px-1.5 py-0.5 text-[10px] uppercase tracking-wide text-slate-600 dark:bg-white/[0.08] dark:text-slate-300">
+                      {revision.action}
+                    </span>
+                  </div>
+                  <p className="mt-1 truncate text-[11px] text-slate-500 dark:text-slate-400">
+                    {authorLabel(revision)} · {revision.contentHash.slice(0, 10)}
+                    {revision.previousPath ? ` · from ${revision.previousPath}` : ""}
+                  </p>
+                </button>
+                {selectedRevisionId === revision.id ? (
+                  <button
+                    type="button"
+                    onClick={() => void restoreRevision(revision.id)}
+                    disabled={isRestoring}
+                    className="mt-1.5 inline-flex items-center gap-1 rounded border border-slate-300 bg-white px-2 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-white/15 dark:bg-white/[0.03] dark:text-slate-200"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    {isRestoring ? "Restoring..." : "Restore this version"}
+                  </button>
+                ) : null}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {selectedRevisionId ? (
+        <div className="rounded-lg border border-slate-200/80 bg-white/70 p-3 dark:border-white/10 dark:bg-white/[0.03]">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            Changes since this revision
+            {diff ? ` (+${diff.added} / -${diff.removed})` : ""}
+          </p>
+          {isLoadingDiff ? (
+            <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Loading diff...
+            </div>
+          ) : diff ? (
+            <pre className="mt-2 max-h-[40vh] overflow-auto rounded-md bg-slate-50 p-2 font-mono text-[11px] leading-5 dark:bg-black/30">
+              {diff.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === "add"
+                      ? "bg-emerald-500/10 text-emerald-800 dark:text-emerald-200"
+                      : line.type === "remove"
+                        ? "bg-rose-500/10 text-rose-800 dark:text-rose-200"
+                        : "text-slate-600 dark:text-slate-300"
+                  }
+                >
+                  {line.type === "add" ? "+ " : line.type === "remove" ? "- " : "  "}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { Filter, Loader2, RefreshCw } from "lucide-react"
+import { InlineNotice, SurfaceCard } from "@/components/dashboard/PageLayout"
+import type { VaultId, VaultNotePropertyValue, VaultPropertyTableResponse, VaultSummary } from "@/lib/vault/types"
+
+const VAULT_IDS: VaultId[] = ["orchwiz", "ship", "agent-public", "agent-private", "joined"]
+const CUSTOM_VAULT_ID_PATTERN = /^custom:[a-z0-9][a-z0-9-]{0,47}$/
+const MAX_VISIBLE_COLUMNS = 8
+
+function isVaultId(value: string): value is VaultId {
+  return VAULT_IDS.includes(value as VaultId) || CUSTOM_VAULT_ID_PATTERN.test(value)
+}
+
+function encodeExplorerUrl(pathname: string, vaultId: VaultId, notePath: string): string {
+  const params = new URLSearchParams()
+  params.set("tab", "explorer")
+  params.set("vault", vaultId)
+  params.set("note", notePath)
+  return `${pathname}?${params.toString()}`
+}
+
+function formatPropertyValue(value: VaultNotePropertyValue | undefined): string {
+  if (value === undefined) return ""
+  return Array.isArray(value) ? value.join(", ") : value
+}
+
+export function VaultPropertyTable() {
+  const router = useRouter()
+  const pathname = usePathname()
+
+  const [selectedVault, setSelectedVault] = useState<VaultId>("joined")
+  const [queryInput, setQueryInput] = useState("")
+  const [query, setQuery] = useState("")
+  const [table, setTable] = useState<VaultPropertyTableResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [customVaults, setCustomVaults] = useState<VaultSummary[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/vaults")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((payload: unknown) => {
+        if (!cancelled && Array.isArray(payload)) {
+          setCustomVaults((payload as VaultSummary[]).filter((vault) => vault.isCustom))
+        }
+      })
+      .catch((fetchError) => {
+        console.error("Error loading vault summaries:", fetchError)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setQuery(queryInput.trim())
+    }, 250)
+    return () => window.clearTimeout(timer)
+  }, [queryInput])
+
+  const loadTable = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      params.set("vault", selectedVault)
+      if (query) {
+        params.set("q", query)
+      }
+
+      const response = await fetch(`/api/vaults/properties?${params.toString()}`)
+      const payload = await response.json()
+      if (!response.ok) {
+        setError(payload?.error || "Unable to load note properties.")
+        setTable(null)
+        return
+      }
+
+      setTable(payload as VaultPropertyTableResponse)
+    } catch (fetchError) {
+      console.error("Error loading vault note properties:", fetchError)
+      setError("Unable to load note properties.")
+      setTable(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [query, selectedVault])
+
+  useEffect(() => {
+    loadTable()
+  }, [loadTable])
+
+  const columns = table?.columns.slice(0, MAX_VISIBLE_COLUMNS) || []
+
+  return (
+    <div className="space-y-4">
+      {error ? <InlineNotice variant="error">{error}</InlineNotice> : null}
+
+      <SurfaceCard>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="min-w-[170px] text-sm">
+            <span className="mb-1 block text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Vault</span>
+            <select
+              value={selectedVault}
+              onChange={(event) => {
+                const next = event.target.value
+                if (!isVaultId(next)) return
+                setSelectedVault(next)
+              }}
+              className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm dark:border-white/15 dark:bg-white/[0.05]"
+            >
+              <option value="joined">Joined Vault</option>
+              <option value="orchwiz">OrchWiz Vault</option>
+              <option value="ship">Ship Vault</option>
+              <option value="agent-public">Agent Vault Public</option>
+              <option value="agent-private">Agent Vault Private</option>
+              {customVaults.map((vault) => (
+                <option key={vault.id} value={vault.id}>{vault.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="min-w-[280px] flex-1 text-sm">
+            <span className="mb-1 block text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Property Query</span>
+            <div className="relative">
+              <Filter className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+              <input
+                type="text"
+                value={queryInput}
+                onChange={(event) => setQueryInput(event.target.value)}
+                placeholder="tag:incident service:payments severity:>=2"
+                className="w-full rounded-lg border border-slate-300 bg-white py-2 pl-8 pr-3 text-sm dark:border-white/15 dark:bg-white/[0.05]"
+              />
+            </div>
+          </label>
+
+          <button
+            type="button"
+            onClick={loadTable}
+            className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-2 text-sm font-medium text-white hover:bg-black dark:bg-white dark:text-slate-900"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </button>
+        </div>
+      </SurfaceCard>
+
+      <SurfaceCard className="overflow-x-auto">
+        {isLoading ? (
+          <div className="inline-flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading notes...
+          </div>
+        ) : null}
+
+        {!isLoading && table ? (
+          <>
+            <div className="mb-3 flex flex-wrap gap-2 text-xs text-slate-600 dark:text-slate-300">
+              <span className="rounded border border-slate-300 bg-white/70 px-2 py-1 dark:border-white/15 dark:bg-white/[0.03]">
+                Notes: {table.rows.length}
+              </span>
+              {table.truncated ? (
+                <span className="rounded border border-amber-500/30 bg-amber-500/10 px-2 py-1 text-amber-800 dark:text-amber-200">
+                  Results truncated; narrow the query
+                </span>
+              ) : null}
+            </div>
+
+            {table.rows.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No notes with frontmatter match this query.</p>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500 dark:border-white/10 dark:text-slate-400">
+                    <th className="px-2 py-2 font-semibold">Note</th>
+                    {columns.map((column) => (
+                      <th key={column} className="px-2 py-2 font-semibold">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row) => (
+                    <tr key={row.path} className="border-b border-slate-100 align-top dark:border-white/5">
+                      <td className="px-2 py-2">
+                        <button
+                          type="button"
+                          onClick={() => router.push(encodeExplorerUrl(pathname, table.vaultId, row.path))}
+                          className="text-left font-medium text-cyan-700 hover:underline dark:text-cyan-300"
+                        >
+                          {row.title}
+                        </button>
+                        <p className="break-all text-[11px] text-slate-500 dark:text-slate-400">{row.path}</p>
+                      </td>
+                      {columns.map((column) => (
+                        <td key={column} className="px-2 py-2 text-slate-700 dark:text-slate-300">
+                          {formatPropertyValue(row.properties[column])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        ) : null}
+      </SurfaceCard>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2, RotateCcw, Trash2 } from "lucide-react"
+import type { VaultId, VaultTrashEntry, VaultTrashResponse } from "@/lib/vault/types"
+
+interface VaultTrashPanelProps {
+  vaultId: VaultId
+  refreshKey: number
+  onRestored: (path: string) => void
+}
+
+export function VaultTrashPanel({ vaultId, refreshKey, onRestored }: VaultTrashPanelProps) {
+  const [entries, setEntries] = useState<VaultTrashEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [restoringPath, setRestoringPath] = useState<string | null>(null)
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/vaults/file/trash?vault=${encodeURIComponent(vaultId)}`)
+      const payload = (await response.json().catch(() => ({}))) as Partial<VaultTrashResponse> & { error?: string }
+      if (!response.ok) {
+        setError(payload.error || "Failed to load trash.")
+        setEntries([])
+        return
+      }
+      setEntries(Array.isArray(payload.entries) ? payload.entries : [])
+    } catch (loadError) {
+      console.error("Error loading vault trash:", loadError)
+      setError("Failed to load trash.")
+      setEntries([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [vaultId])
+
+  useEffect(() => {
+    void loadTrash()
+  }, [loadTrash, refreshKey])
+
+  const restoreEntry = async (entry: VaultTrashEntry) => {
+    setRestoringPath(entry.trashPath)
+    setError(null)
+    try {
+      const response = await fetch("/api/vaults/file/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ vault: vaultId, trashPath: entry.trashPath }),
+      })
+      const payload = (await response.json().catch(() => ({}))) as { path?: string; error?: string }
+      if (!response.ok || !payload.path) {
+        setError(payload.error || "Failed to restore note.")
+        return
+      }
+      setEntries((current) => current.filter((candidate) => candidate.trashPath !== entry.trashPath))
+      onRestored(payload.path)
+    } catch (restoreError) {
+      console.error("Error restoring vault trash entry:", restoreError)
+      setError("Failed to restore note.")
+    } finally {
+      setRestoringPath(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {error ? (
+        <p className="rounded-md border border-rose-500/30 bg-rose-500/10 px-2.5 py-2 text-xs text-rose-700 dark:text-rose-200">{error}</p>
+      ) : null}
+
+      <div className="rounded-lg border border-slate-200/80 bg-white/70 p-3 dark:border-white/10 dark:bg-white/[0.03]">
+        <p className="inline-flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <Trash2 className="h-3.5 w-3.5" />
+          Trash ({entries.length})
+        </p>
+        <div className="mt-2 space-y-1.5">
+          {isLoading ? (
+            <div className="inline-flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Loading trash...
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Trash is empty.</p>
+          ) : (
+            entries.map((entry) => (
+              <div
+                key={entry.trashPath}
+                className="rounded-md border border-slate-200/80 bg-white/80 px-2.5 py-2 text-xs dark:border-white/10 dark:bg-white/[0.03]"
+              >
+                <p className="truncate text-slate-700 dark:text-slate-200">{entry.originalPath}</p>
+                <p className="mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+                  {entry.deletedAt ? `Deleted ${new Date(entry.deletedAt).toLocaleString()}` : "Deletion time unknown"}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => void restoreEntry(entry)}
+                  disabled={restoringPath !== null}
+                  className="mt-1.5 inline-flex items-center gap-1 rounded border border-slate-300 bg-white px-2 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-white/15 dark:bg-white/[0.03] dark:text-slate-200"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  {restoringPath === entry.trashPath ? "Restoring..." : "Restore"}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
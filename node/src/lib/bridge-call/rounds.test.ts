@@ -1,12 +1,18 @@
 import test from "node:test"
 import assert from "node:assert/strict"
 import {
+  buildRebuttalDirective,
   deriveRoundStatus,
+  parseDeliberationStance,
   parseDirective,
+  parseRebuttalRounds,
+  parseRoundMode,
   parseRoundSource,
   parseRoundsQueryTake,
   selectLeadStationKey,
+  summarizeConsensus,
   summarizeRound,
+  synthesizeDeliberation,
 } from "./rounds"
 
 test("selectLeadStationKey prefers XO then fallback order", () => {
@@ -88,3 +94,84 @@ test("parseRoundSource supports operator/system", () => {
   assert.equal(parseRoundSource("system"), "system")
   assert.equal(parseRoundSource("anything"), "operator")
 })
+
+test("parseRoundMode and parseRebuttalRounds default and clamp", () => {
+  assert.equal(parseRoundMode("deliberation"), "deliberation")
+  assert.equal(parseRoundMode("debate"), "single")
+  assert.equal(parseRebuttalRounds(undefined), 1)
+  assert.equal(parseRebuttalRounds("2"), 2)
+  assert.equal(parseRebuttalRounds(0), 1)
+  assert.equal(parseRebuttalRounds(9), 3)
+})
+
+test("buildRebuttalDirective shares the lead and peer positions", () => {
+  const directive = buildRebuttalDirective({
+    directive: "Plot a course to Kepler",
+    stationKey: "eng",
+    leadStationKey: "xo",
+    pass: 1,
+    totalPasses: 2,
+    peers: [
+      { stationKey: "xo", callsign: "Number One", summary: "Burn at 0400." },
+      { stationKey: "eng", callsign: "Chief", summary: "Reactor needs a cooldown." },
+      { stationKey: "ops", callsign: "Ops", summary: "Lanes are clear." },
+    ],
+  })
+
+  assert.match(directive, /pass 1 of 2/)
+  assert.match(directive, /Lead XO position: Burn at 0400\./)
+  assert.match(directive, /- Ops \(OPS\): Lanes are clear\./)
+  assert.doesNotMatch(directive, /Chief/)
+  assert.match(directive, /POSITION: DISSENT - <reason>/)
+})
+
+test("parseDeliberationStance reads the leading POSITION line", () => {
+  assert.deepEqual(parseDeliberationStance("POSITION: CONCUR\nBurn at 0400."), {
+    stance: "concur",
+    dissent: null,
+    body: "Burn at 0400.",
+  })
+
+  const dissent = parseDeliberationStance("**POSITION: DISSENT** - reactor is not ready\nDelay by two hours.")
+  assert.equal(dissent.stance, "dissent")
+  assert.equal(dissent.dissent, "reactor is not ready")
+  assert.equal(dissent.body, "reactor is not ready\nDelay by two hours.")
+
+  assert.deepEqual(parseDeliberationStance("  No position given. "), {
+    stance: null,
+    dissent: null,
+    body: "No position given.",
+  })
+})
+
+test("synthesizeDeliberation keeps the lead position and latest dissent", () => {
+  const consensus = synthesizeDeliberation({
+    leadStationKey: "xo",
+    rebuttalRounds: 2,
+    firstPass: [
+      { stationKey: "xo", callsign: "Number One", status: "success", summary: "Burn at 0400." },
+      { stationKey: "eng", callsign: "Chief", status: "success", summary: "Reactor cooldown first." },
+      { stationKey: "ops", callsign: "Ops", status: "success", summary: "Lanes are clear." },
+      { stationKey: "med", callsign: "Doc", status: "offline", summary: "" },
+    ],
+    rebuttalPasses: [
+      [
+        { stationKey: "xo", callsign: "Number One", status: "success", summary: "Burn at 0600.", stance: "concur", dissent: null },
+        { stationKey: "eng", callsign: "Chief", status: "success", summary: "Still too early.", stance: "dissent", dissent: "reactor is not ready" },
+        { stationKey: "ops", callsign: "Ops", status: "success", summary: "Agreed.", stance: "concur", dissent: null },
+      ],
+      [
+        { stationKey: "eng", callsign: "Chief", status: "failed", summary: "timeout", stance: null, dissent: null },
+        { stationKey: "med", callsign: "Doc", status: "success", summary: "Ready.", stance: "concur", dissent: null },
+      ],
+    ],
+  })
+
+  assert.equal(consensus.position, "Burn at 0600.")
+  assert.deepEqual(consensus.concurring, ["xo", "ops"])
+  assert.deepEqual(consensus.dissent, [{ stationKey: "eng", callsign: "Chief", reason: "reactor is not ready" }])
+  assert.equal(
+    summarizeConsensus(consensus),
+    "Consensus after 2 rebuttal rounds: 2 concur, dissent ENG.",
+  )
+})
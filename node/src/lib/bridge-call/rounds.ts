@@ -3,6 +3,7 @@ import type {
   BridgeCallRound,
   BridgeCrewRole,
   BridgeThread,
+  Prisma,
 } from "@prisma/client"
 import { prisma } from "@/lib/prisma"
 import {
@@ -17,7 +18,11 @@ import {
 import { publishRealtimeEvent } from "@/lib/realtime/events"
 import { recordBridgeCallSignal } from "@/lib/agentsync/signals"
 import type {
+  BridgeCallConsensusView,
   BridgeCallOfficerResultStatus,
+  BridgeCallOfficerResultView,
+  BridgeCallOfficerStance,
+  BridgeCallRoundMode,
   BridgeCallRoundPostResponse,
   BridgeCallRoundSource,
   BridgeCallRoundStatus,
@@ -31,6 +36,8 @@ export const BRIDGE_CALL_MAX_PENDING = 3
 export const BRIDGE_CALL_RETRY_DELAY_MS = 700
 export const BRIDGE_CALL_RETENTION_LIMIT = 200
 export const BRIDGE_CALL_LEAD_ORDER: BridgeStationKey[] = ["xo", "ops", "eng", "sec", "med", "cou"]
+export const BRIDGE_CALL_DEFAULT_REBUTTAL_ROUNDS = 1
+export const BRIDGE_CALL_MAX_REBUTTAL_ROUNDS = 3
 
 interface QueueJob<T> {
   run: () => Promise<T>
@@ -57,6 +64,10 @@ interface ExecuteOfficerResult {
   stationKey: BridgeStationKey
   callsign: string
   status: BridgeCallOfficerResultStatus
+  pass: number
+  stance?: BridgeCallOfficerStance | null
+  dissent?: string | null
+  responseContent?: string | null
   wasRetried: boolean
   attemptCount: number
   error?: string | null
@@ -74,10 +85,18 @@ interface DispatchBridgeCallRoundArgs {
   userId: string
   directive: string
   source: BridgeCallRoundSource
+  mode?: BridgeCallRoundMode
+  rebuttalRounds?: number
   shipDeploymentId: string | null
   stations: BridgeCallStationSummary[]
 }
 
+interface DeliberationPeer {
+  stationKey: BridgeStationKey
+  callsign: string
+  summary: string
+}
+
 declare global {
   // eslint-disable-next-line no-var
   var __orchwizBridgeCallQueues: BridgeCallQueueRegistry | undefined
@@ -263,6 +282,169 @@ export function summarizeRound(args: {
   return `Lead ${lead}. Success ${successCount}, offline ${offlineCount}, failed ${failedCount}.`
 }
 
+export function buildRebuttalDirective(args: {
+  directive: string
+  stationKey: BridgeStationKey
+  leadStationKey: BridgeStationKey
+  pass: number
+  totalPasses: number
+  peers: DeliberationPeer[]
+}): string {
+  const lead = args.peers.find((peer) => peer.stationKey === args.leadStationKey)
+  const others = args.peers.filter(
+    (peer) => peer.stationKey !== args.stationKey && peer.stationKey !== args.leadStationKey,
+  )
+  const isLead = args.stationKey === args.leadStationKey
+
+  return [
+    `[Bridge deliberation pass ${args.pass} of ${args.totalPasses}]`,
+    `Original directive: ${args.directive}`,
+    isLead
+      ? "You hold the lead position. Refine it in light of the other officers' positions."
+      : `Lead ${args.leadStationKey.toUpperCase()} position: ${lead?.summary || "(no position reported)"}`,
+    "Other officers:",
+    ...(others.length > 0
+      ? others.map((peer) => `- ${peer.callsign} (${peer.stationKey.toUpperCase()}): ${peer.summary}`)
+      : ["- (none)"]),
+    "",
+    isLead
+      ? "Start with \"POSITION: CONCUR\", then restate the consensus position in at most 6 short lines."
+      : "Start with \"POSITION: CONCUR\" if you accept the lead position, or \"POSITION: DISSENT - <reason>\" if you do not. Then add at most 6 short lines.",
+  ].join("\n")
+}
+
+/** Reads the leading POSITION line an officer was asked to give in a rebuttal pass. */
+export function parseDeliberationStance(content: string): {
+  stance: BridgeCallOfficerStance | null
+  dissent: string | null
+  body: string
+} {
+  const trimmed = content.trim()
+  const match = /^\**\s*POSITION\s*:\s*\**\s*(CONCUR|DISSENT)\b\**[\s:\-–—]*([^\n]*)(?:\n([\s\S]*))?$/iu.exec(trimmed)
+  if (!match) {
+    return {
+      stance: null,
+      dissent: null,
+      body: trimmed,
+    }
+  }
+
+  const stance = match[1].toLowerCase() as BridgeCallOfficerStance
+  const inlineReason = match[2].trim()
+  const rest = (match[3] || "").trim()
+  const body = [inlineReason, rest].filter(Boolean).join("\n")
+
+  return {
+    stance,
+    dissent: stance === "dissent" ? compactSummary(inlineReason || rest || "No reason given.") : null,
+    body: body || trimmed,
+  }
+}
+
+/**
+ * Folds the first pass and rebuttal passes into a consensus. The lead's
+ * latest answer is the consensus position; each other officer's latest
+ * stance decides whether they concur or are recorded as dissenting.
+ */
+export function synthesizeDeliberation(args: {
+  firstPass: Array<Pick<ExecuteOfficerResult, "stationKey" | "callsign" | "status" | "summary">>
+  rebuttalPasses: Array<Array<Pick<ExecuteOfficerResult, "stationKey" | "callsign" | "status" | "summary" | "stance" | "dissent">>>
+  leadStationKey: BridgeStationKey | null
+  rebuttalRounds: number
+}): BridgeCallConsensusView {
+  const latest = new Map<BridgeStationKey, { callsign: string; summary: string | null; stance: BridgeCallOfficerStance | null; dissent: string | null }>()
+
+  for (const result of args.firstPass) {
+    if (result.status === "success") {
+      latest.set(result.stationKey, {
+        callsign: result.callsign,
+        summary: result.summary || null,
+        stance: null,
+        dissent: null,
+      })
+    }
+  }
+
+  for (const pass of args.rebuttalPasses) {
+    for (const result of pass) {
+      const current = latest.get(result.stationKey)
+      if (!current || result.status !== "success") {
+        continue
+      }
+
+      latest.set(result.stationKey, {
+        callsign: result.callsign,
+        summary: result.summary || current.summary,
+        stance: result.stance ?? current.stance,
+        dissent: result.stance === "dissent" ? result.dissent || null : result.stance === "concur" ? null : current.dissent,
+      })
+    }
+  }
+
+  const concurring: BridgeStationKey[] = []
+  const dissent: BridgeCallConsensusView["dissent"] = []
+  for (const stationKey of BRIDGE_CALL_LEAD_ORDER) {
+    const entry = latest.get(stationKey)
+    if (!entry) {
+      continue
+    }
+
+    if (stationKey === args.leadStationKey || entry.stance === "concur") {
+      concurring.push(stationKey)
+    } else if (entry.stance === "dissent") {
+      dissent.push({
+        stationKey,
+        callsign: entry.callsign,
+        reason: entry.dissent || "No reason given.",
+      })
+    }
+  }
+
+  return {
+    leadStationKey: args.leadStationKey,
+    position: args.leadStationKey ? latest.get(args.leadStationKey)?.summary || null : null,
+    rebuttalRounds: args.rebuttalRounds,
+    concurring,
+    dissent,
+  }
+}
+
+export function summarizeConsensus(consensus: BridgeCallConsensusView): string {
+  const rounds = `${consensus.rebuttalRounds} rebuttal round${consensus.rebuttalRounds === 1 ? "" : "s"}`
+  const dissent = consensus.dissent.length > 0
+    ? `dissent ${consensus.dissent.map((entry) => entry.stationKey.toUpperCase()).join(", ")}`
+    : "no dissent"
+
+  return `Consensus after ${rounds}: ${consensus.concurring.length} concur, ${dissent}.`
+}
+
+function consensusFromMetadata(metadata: unknown): BridgeCallConsensusView | null {
+  const consensus = asRecord(asRecord(metadata).consensus)
+  if (!Array.isArray(consensus.concurring) || !Array.isArray(consensus.dissent)) {
+    return null
+  }
+
+  return {
+    leadStationKey: asStationKey(consensus.leadStationKey),
+    position: typeof consensus.position === "string" ? consensus.position : null,
+    rebuttalRounds: typeof consensus.rebuttalRounds === "number" ? consensus.rebuttalRounds : 0,
+    concurring: consensus.concurring.map(asStationKey).filter((key): key is BridgeStationKey => Boolean(key)),
+    dissent: consensus.dissent.flatMap((entry) => {
+      const record = asRecord(entry)
+      const stationKey = asStationKey(record.stationKey)
+      if (!stationKey) {
+        return []
+      }
+
+      return [{
+        stationKey,
+        callsign: typeof record.callsign === "string" ? record.callsign : stationKey.toUpperCase(),
+        reason: typeof record.reason === "string" ? record.reason : "No reason given.",
+      }]
+    }),
+  }
+}
+
 function mapRoundRecord(
   round: BridgeCallRound & { officerResults: BridgeCallOfficerResult[] },
 ): BridgeCallRoundView {
@@ -271,32 +453,51 @@ function mapRoundRecord(
     shipDeploymentId: round.shipDeploymentId,
     directive: round.directive,
     source: round.source,
+    mode: round.mode,
     status: round.status,
     leadStationKey: asStationKey(round.leadStationKey),
     summary: round.summary,
     createdAt: round.createdAt.toISOString(),
     completedAt: round.completedAt ? round.completedAt.toISOString() : null,
     officerResults: round.officerResults
-      .slice()
+      .filter((result) => !result.parentResultId)
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
-      .map((result) => ({
-        id: result.id,
-        stationKey: asStationKey(result.stationKey) || "xo",
-        callsign: result.callsign,
-        status: result.status,
-        wasRetried: result.wasRetried,
-        attemptCount: result.attemptCount,
-        error: result.error,
-        summary: result.summary,
-        threadId: result.threadId,
-        sessionId: result.sessionId,
-        userInteractionId: result.userInteractionId,
-        aiInteractionId: result.aiInteractionId,
-        provider: result.provider,
-        fallbackUsed: result.fallbackUsed,
-        latencyMs: result.latencyMs,
-        createdAt: result.createdAt.toISOString(),
-      })),
+      .map((result) => {
+        const rebuttals = round.officerResults
+          .filter((child) => child.parentResultId === result.id)
+          .sort((a, b) => a.pass - b.pass)
+          .map(mapOfficerResultRecord)
+
+        return {
+          ...mapOfficerResultRecord(result),
+          ...(rebuttals.length > 0 ? { rebuttals } : {}),
+        }
+      }),
+    consensus: consensusFromMetadata(round.metadata),
+  }
+}
+
+function mapOfficerResultRecord(result: BridgeCallOfficerResult): BridgeCallOfficerResultView {
+  return {
+    id: result.id,
+    stationKey: asStationKey(result.stationKey) || "xo",
+    callsign: result.callsign,
+    status: result.status,
+    pass: result.pass,
+    stance: result.stance,
+    dissent: result.dissent,
+    wasRetried: result.wasRetried,
+    attemptCount: result.attemptCount,
+    error: result.error,
+    summary: result.summary,
+    threadId: result.threadId,
+    sessionId: result.sessionId,
+    userInteractionId: result.userInteractionId,
+    aiInteractionId: result.aiInteractionId,
+    provider: result.provider,
+    fallbackUsed: result.fallbackUsed,
+    latencyMs: result.latencyMs,
+    createdAt: result.createdAt.toISOString(),
   }
 }
 
@@ -335,17 +536,20 @@ async function executeOfficerDirective(args: {
   roundId: string
   shipDeploymentId: string | null
   directive: string
+  pass?: number
   station: BridgeCallStationSummary
   allStations: BridgeCallStationSummary[]
   stationThreadMap: Partial<Record<BridgeStationKey, { sessionId: string; threadId: string }>>
 }): Promise<ExecuteOfficerResult> {
   const threadRef = args.stationThreadMap[args.station.stationKey]
+  const pass = args.pass ?? 0
 
   if (args.station.status === "offline") {
     return {
       stationKey: args.station.stationKey,
       callsign: args.station.callsign,
       status: "offline",
+      pass,
       wasRetried: false,
       attemptCount: 0,
       summary: "Station offline. Directive skipped.",
@@ -359,6 +563,7 @@ async function executeOfficerDirective(args: {
       stationKey: args.station.stationKey,
       callsign: args.station.callsign,
       status: "failed",
+      pass,
       wasRetried: false,
       attemptCount: 1,
       error: "No session is bound to this station.",
@@ -393,6 +598,7 @@ async function executeOfficerDirective(args: {
           bridge: {
             channel: "bridge-agent",
             roundId: args.roundId,
+            ...(pass > 0 ? { deliberationPass: pass } : {}),
             stationKey: args.station.stationKey,
             callsign: args.station.callsign,
             role: args.station.role,
@@ -415,9 +621,11 @@ async function executeOfficerDirective(args: {
         stationKey: args.station.stationKey,
         callsign: args.station.callsign,
         status: "success",
+        pass,
         wasRetried: attempt > 1,
         attemptCount: attempt,
         summary: compactSummary(result.responseInteraction.content),
+        responseContent: result.responseInteraction.content,
         threadId: threadRef.threadId,
         sessionId: threadRef.sessionId,
         userInteractionId: result.interaction.id,
@@ -438,6 +646,7 @@ async function executeOfficerDirective(args: {
     stationKey: args.station.stationKey,
     callsign: args.station.callsign,
     status: "failed",
+    pass,
     wasRetried: true,
     attemptCount: 2,
     error: errorMessage(lastError),
@@ -579,16 +788,120 @@ export async function listBridgeCallRounds(args: {
   return rounds.map(mapRoundRecord)
 }
 
+async function runDeliberationPasses(args: {
+  userId: string
+  roundId: string
+  shipDeploymentId: string | null
+  directive: string
+  rebuttalRounds: number
+  leadStationKey: BridgeStationKey
+  firstPass: ExecuteOfficerResult[]
+  stations: BridgeCallStationSummary[]
+  stationThreadMap: Partial<Record<BridgeStationKey, { sessionId: string; threadId: string }>>
+}): Promise<ExecuteOfficerResult[][]> {
+  const participants = args.stations.filter((station) =>
+    args.firstPass.some((result) => result.stationKey === station.stationKey && result.status === "success"),
+  )
+  const latestSummary = new Map<BridgeStationKey, string>(
+    args.firstPass
+      .filter((result) => result.status === "success")
+      .map((result) => [result.stationKey, result.summary || ""]),
+  )
+  const passes: ExecuteOfficerResult[][] = []
+
+  for (let pass = 1; pass <= args.rebuttalRounds; pass += 1) {
+    const peers: DeliberationPeer[] = participants.map((station) => ({
+      stationKey: station.stationKey,
+      callsign: station.callsign,
+      summary: latestSummary.get(station.stationKey) || "",
+    }))
+
+    const results = await Promise.all(
+      participants.map(async (station) => {
+        const result = await executeOfficerDirective({
+          userId: args.userId,
+          roundId: args.roundId,
+          shipDeploymentId: args.shipDeploymentId,
+          directive: buildRebuttalDirective({
+            directive: args.directive,
+            stationKey: station.stationKey,
+            leadStationKey: args.leadStationKey,
+            pass,
+            totalPasses: args.rebuttalRounds,
+            peers,
+          }),
+          pass,
+          station,
+          allStations: args.stations,
+          stationThreadMap: args.stationThreadMap,
+        })
+
+        if (result.status !== "success" || !result.responseContent) {
+          return result
+        }
+
+        const parsed = parseDeliberationStance(result.responseContent)
+        return {
+          ...result,
+          summary: compactSummary(parsed.body),
+          stance: station.stationKey === args.leadStationKey ? "concur" : parsed.stance,
+          dissent: station.stationKey === args.leadStationKey ? null : parsed.dissent,
+        } satisfies ExecuteOfficerResult
+      }),
+    )
+
+    for (const result of results) {
+      if (result.status === "success" && result.summary) {
+        latestSummary.set(result.stationKey, result.summary)
+      }
+    }
+
+    passes.push(results)
+  }
+
+  return passes
+}
+
+function officerResultData(roundId: string, result: ExecuteOfficerResult, parentResultId: string | null) {
+  return {
+    roundId,
+    parentResultId,
+    pass: result.pass,
+    stationKey: result.stationKey as BridgeCrewRole,
+    callsign: result.callsign,
+    status: result.status,
+    stance: result.stance ?? null,
+    dissent: result.dissent || null,
+    wasRetried: result.wasRetried,
+    attemptCount: result.attemptCount,
+    error: result.error || null,
+    summary: result.summary || null,
+    threadId: result.threadId || null,
+    sessionId: result.sessionId || null,
+    userInteractionId: result.userInteractionId || null,
+    aiInteractionId: result.aiInteractionId || null,
+    provider: result.provider || null,
+    fallbackUsed: result.fallbackUsed ?? null,
+    latencyMs: result.latencyMs ?? null,
+  }
+}
+
 async function executeAndPersistBridgeCallRound(args: DispatchBridgeCallRoundArgs): Promise<BridgeCallRoundView> {
+  const mode = args.mode || "single"
+  const rebuttalRounds = mode === "deliberation"
+    ? parseRebuttalRounds(args.rebuttalRounds)
+    : 0
   const round = await prisma.bridgeCallRound.create({
     data: {
       userId: args.userId,
       shipDeploymentId: args.shipDeploymentId,
       directive: args.directive,
       source: args.source,
+      mode,
       status: "running",
       metadata: {
         stationCount: args.stations.length,
+        ...(mode === "deliberation" ? { rebuttalRounds } : {}),
       },
     },
   })
@@ -612,32 +925,67 @@ async function executeAndPersistBridgeCallRound(args: DispatchBridgeCallRoundArg
 
   const leadStationKey = selectLeadStationKey(results)
   const status = deriveRoundStatus(results)
-  const summary = summarizeRound({
+  let summary = summarizeRound({
     results,
     leadStationKey,
   })
 
+  // Deliberation needs a lead to rebut and at least one other voice.
+  const rebuttalPasses = mode === "deliberation"
+    && leadStationKey
+    && results.filter((result) => result.status === "success").length > 1
+    ? await runDeliberationPasses({
+        userId: args.userId,
+        roundId: round.id,
+        shipDeploymentId: args.shipDeploymentId,
+        directive: args.directive,
+        rebuttalRounds,
+        leadStationKey,
+        firstPass: results,
+        stations: args.stations,
+        stationThreadMap,
+      })
+    : []
+
+  const consensus = rebuttalPasses.length > 0
+    ? synthesizeDeliberation({
+        firstPass: results,
+        rebuttalPasses,
+        leadStationKey,
+        rebuttalRounds: rebuttalPasses.length,
+      })
+    : null
+  if (consensus) {
+    summary = `${summary} ${summarizeConsensus(consensus)}`
+  }
+
   const updated = await prisma.$transaction(async (tx) => {
+    const parentIds = new Map<BridgeStationKey, string>()
     for (const result of results) {
-      await tx.bridgeCallOfficerResult.create({
-        data: {
-          roundId: round.id,
-          stationKey: result.stationKey as BridgeCrewRole,
-          callsign: result.callsign,
-          status: result.status,
-          wasRetried: result.wasRetried,
-          attemptCount: result.attemptCount,
-          error: result.error || null,
-          summary: result.summary || null,
-          threadId: result.threadId || null,
-          sessionId: result.sessionId || null,
-          userInteractionId: result.userInteractionId || null,
-          aiInteractionId: result.aiInteractionId || null,
-          provider: result.provider || null,
-          fallbackUsed: result.fallbackUsed ?? null,
-          latencyMs: result.latencyMs ?? null,
-        },
+      const latestStance = [...rebuttalPasses]
+        .reverse()
+        .flat()
+        .find((entry) => entry.stationKey === result.stationKey && entry.status === "success" && entry.stance)
+      const created = await tx.bridgeCallOfficerResult.create({
+        data: officerResultData(
+          round.id,
+          {
+            ...result,
+            stance: latestStance?.stance ?? null,
+            dissent: latestStance?.dissent ?? null,
+          },
+          null,
+        ),
       })
+      parentIds.set(result.stationKey, created.id)
+    }
+
+    for (const pass of rebuttalPasses) {
+      for (const result of pass) {
+        await tx.bridgeCallOfficerResult.create({
+          data: officerResultData(round.id, result, parentIds.get(result.stationKey) || null),
+        })
+      }
     }
 
     return tx.bridgeCallRound.update({
@@ -649,6 +997,15 @@ async function executeAndPersistBridgeCallRound(args: DispatchBridgeCallRoundArg
         leadStationKey: leadStationKey as BridgeCrewRole | null,
         summary,
         completedAt: new Date(),
+        ...(consensus
+          ? {
+              metadata: {
+                stationCount: args.stations.length,
+                rebuttalRounds,
+                consensus,
+              } as unknown as Prisma.InputJsonObject,
+            }
+          : {}),
       },
       include: {
         officerResults: true,
@@ -657,7 +1014,7 @@ async function executeAndPersistBridgeCallRound(args: DispatchBridgeCallRoundArg
   })
 
   await Promise.all(
-    updated.officerResults.map(async (result) => {
+    updated.officerResults.filter((result) => !result.parentResultId).map(async (result) => {
       try {
         await recordBridgeCallSignal({
           userId: args.userId,
@@ -764,6 +1121,19 @@ export function parseRoundSource(value: unknown): BridgeCallRoundSource {
   return value === "system" ? "system" : "operator"
 }
 
+export function parseRoundMode(value: unknown): BridgeCallRoundMode {
+  return value === "deliberation" ? "deliberation" : "single"
+}
+
+export function parseRebuttalRounds(value: unknown): number {
+  const raw = typeof value === "number" ? value : Number.parseInt(typeof value === "string" ? value : "", 10)
+  if (!Number.isFinite(raw)) {
+    return BRIDGE_CALL_DEFAULT_REBUTTAL_ROUNDS
+  }
+
+  return Math.max(1, Math.min(BRIDGE_CALL_MAX_REBUTTAL_ROUNDS, Math.trunc(raw)))
+}
+
 export function stationStatusForRound(station: BridgeCallStationSummary): "eligible" | "offline" {
   return station.status === "offline" ? "offline" : "eligible"
 }
@@ -3,6 +3,8 @@ import type { BridgeStationKey } from "@/lib/bridge/stations"
 export type BridgeCallRoundSource = "operator" | "system"
 export type BridgeCallRoundStatus = "pending" | "running" | "completed" | "partial" | "failed"
 export type BridgeCallOfficerResultStatus = "success" | "offline" | "failed"
+export type BridgeCallRoundMode = "single" | "deliberation"
+export type BridgeCallOfficerStance = "concur" | "dissent"
 
 export interface BridgeCallShipSummary {
   id: string
@@ -34,6 +36,9 @@ export interface BridgeCallOfficerResultView {
   stationKey: BridgeStationKey
   callsign: string
   status: BridgeCallOfficerResultStatus
+  pass: number
+  stance?: BridgeCallOfficerStance | null
+  dissent?: string | null
   wasRetried: boolean
   attemptCount: number
   error?: string | null
@@ -46,6 +51,19 @@ export interface BridgeCallOfficerResultView {
   fallbackUsed?: boolean | null
   latencyMs?: number | null
   createdAt: string
+  rebuttals?: BridgeCallOfficerResultView[]
+}
+
+export interface BridgeCallConsensusView {
+  leadStationKey: BridgeStationKey | null
+  position: string | null
+  rebuttalRounds: number
+  concurring: BridgeStationKey[]
+  dissent: Array<{
+    stationKey: BridgeStationKey
+    callsign: string
+    reason: string
+  }>
 }
 
 export interface BridgeCallRoundView {
@@ -53,12 +71,14 @@ export interface BridgeCallRoundView {
   shipDeploymentId: string | null
   directive: string
   source: BridgeCallRoundSource
+  mode: BridgeCallRoundMode
   status: BridgeCallRoundStatus
   leadStationKey: BridgeStationKey | null
   summary: string | null
   createdAt: string
   completedAt: string | null
   officerResults: BridgeCallOfficerResultView[]
+  consensus: BridgeCallConsensusView | null
 }
 
 export interface BridgeCallRoundsGetResponse {
@@ -76,6 +96,8 @@ export interface BridgeCallRoundPostRequest {
   directive: string
   shipDeploymentId?: string | null
   source?: BridgeCallRoundSource
+  mode?: BridgeCallRoundMode
+  rebuttalRounds?: number
 }
 
 export interface BridgeCallRoundPostResponse {
@@ -0,0 +1,146 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import crypto from "node:crypto"
+import {
+  buildSlackMessagePayload,
+  dispatchBridgeConnectionDirect,
+} from "./direct-dispatch"
+import { isFreshHookTimestamp, verifyHookWebhookSignature } from "@/lib/hooks/signing"
+
+test("buildSlackMessagePayload renders Block Kit sections with a context footer", () => {
+  const payload = buildSlackMessagePayload({
+    destination: "C0123456789",
+    message: "x".repeat(3_500),
+    config: {},
+    metadata: {
+      source: "cou_auto",
+      connectionName: "Ops Slack",
+      bridgeContext: { stationKey: "cou" },
+    },
+  })
+
+  const blocks = payload.blocks as Array<Record<string, unknown>>
+  assert.equal(payload.channel, "C0123456789")
+  assert.equal(payload.text, "x".repeat(3_500))
+  assert.equal(blocks.length, 3)
+  assert.equal((blocks[0].text as Record<string, unknown>).text, "x".repeat(3_000))
+  assert.deepEqual(blocks[2], {
+    type: "context",
+    elements: [{ type: "mrkdwn", text: "COU • cou auto • Ops Slack" }],
+  })
+
+  const plain = buildSlackMessagePayload({
+    destination: "#bridge",
+    message: "hello",
+    config: { blockKit: false },
+  })
+  assert.equal(plain.blocks, undefined)
+})
+
+test("dispatchBridgeConnectionDirect treats Slack ok:false as a failed delivery", async () => {
+  const originalFetch = globalThis.fetch
+  let capturedAuth = ""
+
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    capturedAuth = String((init?.headers as Record<string, string>)?.Authorization || "")
+    return new Response(JSON.stringify({ ok: false, error: "channel_not_found" }), { status: 200 })
+  }) as typeof globalThis.fetch
+
+  try {
+    const result = await dispatchBridgeConnectionDirect({
+      deliveryId: "delivery-1",
+      provider: "slack",
+      destination: "C0123456789",
+      message: "hello",
+      config: {},
+      credentials: { botToken: "xoxb-abc" },
+    })
+
+    assert.equal(result.ok, false)
+    assert.equal(result.payload.error, "channel_not_found")
+    assert.equal(capturedAuth, "Bearer xoxb-abc")
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("dispatchBridgeConnectionDirect sends Matrix events keyed by delivery id", async () => {
+  const originalFetch = globalThis.fetch
+  let capturedUrl = ""
+  let capturedMethod = ""
+  let capturedBody: Record<string, unknown> = {}
+
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    capturedUrl = String(input)
+    capturedMethod = String(init?.method)
+    capturedBody = JSON.parse(String(init?.body || "{}")) as Record<string, unknown>
+    return new Response(JSON.stringify({ event_id: "$evt1" }), { status: 200 })
+  }) as typeof globalThis.fetch
+
+  try {
+    const result = await dispatchBridgeConnectionDirect({
+      deliveryId: "delivery-2",
+      provider: "matrix",
+      destination: "!room:matrix.example",
+      message: "status green",
+      config: { msgtype: "m.notice" },
+      credentials: { homeserverUrl: "https://matrix.example", accessToken: "syt_abc" },
+    })
+
+    assert.equal(result.ok, true)
+    assert.equal(result.providerMessageId, "$evt1")
+    assert.equal(capturedMethod, "PUT")
+    assert.equal(
+      capturedUrl,
+      "https://matrix.example/_matrix/client/v3/rooms/!room%3Amatrix.example/send/m.room.message/delivery-2",
+    )
+    assert.deepEqual(capturedBody, { msgtype: "m.notice", body: "status green" })
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("dispatchBridgeConnectionDirect signs generic webhook deliveries", async () => {
+  const originalFetch = globalThis.fetch
+  let capturedHeaders: Record<string, string> = {}
+  let capturedBody = ""
+
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    capturedHeaders = init?.headers as Record<string, string>
+    capturedBody = String(init?.body)
+    return new Response(null, { status: 202 })
+  }) as typeof globalThis.fetch
+
+  try {
+    const result = await dispatchBridgeConnectionDirect({
+      deliveryId: "delivery-3",
+      provider: "webhook",
+      destination: "pager",
+      message: "hello",
+      config: {},
+      credentials: { webhookUrl: "https://hooks.example/bridge", signingSecret: "0123456789abcdef" },
+    })
+
+    assert.equal(result.ok, true)
+    assert.equal(capturedHeaders["X-Bridge-Delivery"], "delivery-3")
+    const expected = crypto
+      .createHmac("sha256", "0123456789abcdef")
+      .update(`${capturedHeaders["X-Bridge-Timestamp"]}.${capturedHeaders["X-Bridge-Nonce"]}.${capturedBody}`)
+      .digest("hex")
+    assert.equal(capturedHeaders["X-Bridge-Signature"], expected)
+    assert.equal(isFreshHookTimestamp(capturedHeaders["X-Bridge-Timestamp"]), true)
+    assert.equal(
+      verifyHookWebhookSignature(
+        capturedHeaders["X-Bridge-Timestamp"],
+        capturedHeaders["X-Bridge-Nonce"],
+        capturedBody,
+        capturedHeaders["X-Bridge-Signature"],
+        "0123456789abcdef",
+      ),
+      true,
+    )
+    assert.equal((JSON.parse(capturedBody) as Record<string, unknown>).message, "hello")
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
@@ -0,0 +1,256 @@
+import crypto from "node:crypto"
+import type { BridgeConnectionProvider } from "@prisma/client"
+import { signHookWebhookPayload } from "@/lib/hooks/signing"
+import type { OpenClawBridgeDispatchInput, OpenClawBridgeDispatchResult } from "./openclaw-dispatch"
+import type {
+  MatrixConnectionCredentials,
+  SlackConnectionCredentials,
+  WebhookConnectionCredentials,
+} from "./validation"
+
+const SLACK_POST_MESSAGE_URL = "https://slack.com/api/chat.postMessage"
+const SLACK_SECTION_TEXT_LIMIT = 3_000
+const SLACK_MAX_SECTIONS = 45
+
+export type DirectDispatchProvider = Extract<BridgeConnectionProvider, "slack" | "matrix" | "webhook">
+
+const DIRECT_DISPATCH_PROVIDERS: readonly DirectDispatchProvider[] = ["slack", "matrix", "webhook"]
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function directDispatchTimeoutMs(): number {
+  const parsed = Number.parseInt(process.env.BRIDGE_DIRECT_DISPATCH_TIMEOUT_MS || "12000", 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return 12000
+  }
+
+  return parsed
+}
+
+export function isDirectDispatchProvider(provider: BridgeConnectionProvider): provider is DirectDispatchProvider {
+  return DIRECT_DISPATCH_PROVIDERS.includes(provider as DirectDispatchProvider)
+}
+
+function chunkText(value: string, size: number): string[] {
+  const chunks: string[] = []
+  for (let index = 0; index < value.length; index += size) {
+    chunks.push(value.slice(index, index + size))
+  }
+
+  return chunks.length > 0 ? chunks : [""]
+}
+
+function describeDispatchContext(metadata: Record<string, unknown> | undefined): string | null {
+  const record = asRecord(metadata)
+  const source = asNonEmptyString(record.source)
+  const stationKey = asNonEmptyString(asRecord(record.bridgeContext).stationKey)
+    || asNonEmptyString(asRecord(record.payload).stationKey)
+  const parts = [
+    stationKey ? stationKey.toUpperCase() : null,
+    source ? source.replace(/_/gu, " ") : null,
+    asNonEmptyString(record.connectionName),
+  ].filter((part): part is string => Boolean(part))
+
+  return parts.length > 0 ? parts.join(" • ") : null
+}
+
+/**
+ * Renders a relay as Block Kit sections plus a context footer. `text` stays
+ * populated as the notification/fallback body. Set `config.blockKit` to
+ * false to post plain text only.
+ */
+export function buildSlackMessagePayload(input: Pick<OpenClawBridgeDispatchInput, "destination" | "message" | "config" | "metadata">): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    channel: input.destination,
+    text: input.message,
+    unfurl_links: false,
+  }
+
+  if (input.config.blockKit === false) {
+    return payload
+  }
+
+  const blocks: Record<string, unknown>[] = chunkText(input.message, SLACK_SECTION_TEXT_LIMIT)
+    .slice(0, SLACK_MAX_SECTIONS)
+    .map((chunk) => ({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: chunk,
+      },
+    }))
+
+  const context = describeDispatchContext(input.metadata)
+  if (context) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: context,
+        },
+      ],
+    })
+  }
+
+  return {
+    ...payload,
+    blocks,
+  }
+}
+
+export function buildMatrixMessageEvent(input: Pick<OpenClawBridgeDispatchInput, "message" | "config">): Record<string, unknown> {
+  return {
+    msgtype: input.config.msgtype === "m.notice" ? "m.notice" : "m.text",
+    body: input.message,
+  }
+}
+
+export function buildBridgeWebhookBody(input: OpenClawBridgeDispatchInput, sentAt: Date): string {
+  return JSON.stringify({
+    type: "bridge.connection.dispatch.v1",
+    deliveryId: input.deliveryId,
+    destination: input.destination,
+    message: input.message,
+    metadata: input.metadata || {},
+    sentAt: sentAt.toISOString(),
+  })
+}
+
+async function sendWithTimeout(
+  label: string,
+  url: string,
+  init: RequestInit,
+): Promise<{ response: Response; payload: Record<string, unknown> }> {
+  const timeoutMs = directDispatchTimeoutMs()
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+    })
+    const payload = asRecord(await response.json().catch(() => ({})))
+    return { response, payload }
+  } catch (error) {
+    if ((error as Error).name === "AbortError") {
+      throw new Error(`${label} dispatch timed out after ${timeoutMs}ms.`)
+    }
+
+    throw new Error(`${label} dispatch request failed: ${(error as Error).message}`)
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+async function dispatchSlack(input: OpenClawBridgeDispatchInput): Promise<OpenClawBridgeDispatchResult> {
+  const credentials = input.credentials as SlackConnectionCredentials
+  const { response, payload } = await sendWithTimeout("Slack", SLACK_POST_MESSAGE_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      Authorization: `Bearer ${credentials.botToken}`,
+    },
+    body: JSON.stringify(buildSlackMessagePayload(input)),
+  })
+
+  // Slack reports API errors with HTTP 200 and `ok: false`.
+  return {
+    ok: response.ok && payload.ok === true,
+    status: response.status,
+    providerMessageId: asNonEmptyString(payload.ts),
+    payload,
+  }
+}
+
+async function dispatchMatrix(input: OpenClawBridgeDispatchInput): Promise<OpenClawBridgeDispatchResult> {
+  const credentials = input.credentials as MatrixConnectionCredentials
+  // The delivery id doubles as the transaction id, so a retried delivery is
+  // de-duplicated by the homeserver instead of posting twice.
+  const url = [
+    credentials.homeserverUrl.replace(/\/+$/u, ""),
+    "_matrix/client/v3/rooms",
+    encodeURIComponent(input.destination),
+    "send/m.room.message",
+    encodeURIComponent(input.deliveryId),
+  ].join("/")
+
+  const { response, payload } = await sendWithTimeout("Matrix", url, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${credentials.accessToken}`,
+    },
+    body: JSON.stringify(buildMatrixMessageEvent(input)),
+  })
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    providerMessageId: asNonEmptyString(payload.event_id),
+    payload,
+  }
+}
+
+async function dispatchWebhook(input: OpenClawBridgeDispatchInput): Promise<OpenClawBridgeDispatchResult> {
+  const credentials = input.credentials as WebhookConnectionCredentials
+  const sentAt = new Date()
+  const timestamp = String(sentAt.getTime())
+  const nonce = crypto.randomUUID()
+  const body = buildBridgeWebhookBody(input, sentAt)
+
+  const { response, payload } = await sendWithTimeout("Webhook", credentials.webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Bridge-Delivery": input.deliveryId,
+      // Same scheme as hook deliveries, so receivers can verify both with one helper.
+      "X-Bridge-Timestamp": timestamp,
+      "X-Bridge-Nonce": nonce,
+      "X-Bridge-Signature": signHookWebhookPayload(timestamp, nonce, body, credentials.signingSecret),
+    },
+    body,
+  })
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    providerMessageId: asNonEmptyString(payload.id) || asNonEmptyString(payload.messageId),
+    payload,
+  }
+}
+
+const DIRECT_DISPATCHERS: Record<
+  DirectDispatchProvider,
+  (input: OpenClawBridgeDispatchInput) => Promise<OpenClawBridgeDispatchResult>
+> = {
+  slack: dispatchSlack,
+  matrix: dispatchMatrix,
+  webhook: dispatchWebhook,
+}
+
+export async function dispatchBridgeConnectionDirect(
+  input: OpenClawBridgeDispatchInput,
+): Promise<OpenClawBridgeDispatchResult> {
+  if (!isDirectDispatchProvider(input.provider)) {
+    throw new Error(`Provider ${input.provider} is not delivered directly.`)
+  }
+
+  return DIRECT_DISPATCHERS[input.provider](input)
+}
@@ -0,0 +1,187 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import crypto from "node:crypto"
+import {
+  formatInboundContent,
+  isInboundSenderAllowed,
+  parseDiscordInteraction,
+  parseTelegramUpdate,
+  parseWhatsAppWebhook,
+  resolveInboundDefaultStation,
+  resolveInboundStation,
+  resolveWhatsAppVerifyChallenge,
+  verifyDiscordInteractionSignature,
+  verifyTelegramWebhookSecret,
+  verifyWhatsAppSignature,
+} from "./inbound"
+
+test("verifyTelegramWebhookSecret requires a matching secret token", () => {
+  assert.equal(verifyTelegramWebhookSecret("s3cret", "s3cret"), true)
+  assert.equal(verifyTelegramWebhookSecret("s3cret", "other"), false)
+  assert.equal(verifyTelegramWebhookSecret(undefined, "s3cret"), false)
+  assert.equal(verifyTelegramWebhookSecret("s3cret", null), false)
+})
+
+test("verifyWhatsAppSignature checks X-Hub-Signature-256 against the app secret", () => {
+  const rawBody = JSON.stringify({ object: "whatsapp_business_account" })
+  const digest = crypto.createHmac("sha256", "app-secret").update(rawBody).digest("hex")
+
+  assert.equal(verifyWhatsAppSignature({ rawBody, signature: `sha256=${digest}`, appSecret: "app-secret" }), true)
+  assert.equal(verifyWhatsAppSignature({ rawBody: `${rawBody} `, signature: `sha256=${digest}`, appSecret: "app-secret" }), false)
+  assert.equal(verifyWhatsAppSignature({ rawBody, signature: digest, appSecret: "app-secret" }), false)
+  assert.equal(verifyWhatsAppSignature({ rawBody, signature: `sha256=${digest}`, appSecret: undefined }), false)
+})
+
+test("resolveWhatsAppVerifyChallenge echoes the challenge only for the configured token", () => {
+  const base = { mode: "subscribe", challenge: "1158201444", verifyToken: "verify-me" }
+  assert.equal(resolveWhatsAppVerifyChallenge({ ...base, token: "verify-me" }), "1158201444")
+  assert.equal(resolveWhatsAppVerifyChallenge({ ...base, token: "nope" }), null)
+  assert.equal(resolveWhatsAppVerifyChallenge({ ...base, mode: "unsubscribe", token: "verify-me" }), null)
+})
+
+test("verifyDiscordInteractionSignature verifies Ed25519 over timestamp and body", () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519")
+  const publicKeyHex = publicKey.export({ format: "der", type: "spki" }).subarray(-32).toString("hex")
+  const rawBody = JSON.stringify({ type: 1 })
+  const now = new Date("2026-03-01T00:00:00.000Z")
+  const timestamp = String(Math.floor(now.getTime() / 1000))
+  const signature = crypto.sign(null, Buffer.from(`${timestamp}${rawBody}`), privateKey).toString("hex")
+
+  assert.equal(verifyDiscordInteractionSignature({ rawBody, signature, timestamp, publicKey: publicKeyHex, now }), true)
+  assert.equal(
+    verifyDiscordInteractionSignature({ rawBody: JSON.stringify({ type: 2 }), signature, timestamp, publicKey: publicKeyHex, now }),
+    false,
+  )
+  assert.equal(
+    verifyDiscordInteractionSignature({
+      rawBody,
+      signature,
+      timestamp,
+      publicKey: publicKeyHex,
+      now: new Date(now.getTime() + 10 * 60 * 1000),
+    }),
+    false,
+  )
+  assert.equal(verifyDiscordInteractionSignature({ rawBody, signature: "zz", timestamp, publicKey: publicKeyHex, now }), false)
+})
+
+test("parseTelegramUpdate extracts text messages", () => {
+  const messages = parseTelegramUpdate({
+    update_id: 9001,
+    message: {
+      message_id: 12,
+      chat: { id: -100123 },
+      from: { id: 42, username: "oncall" },
+      text: "/eng status of reactor?",
+    },
+  })
+
+  assert.deepEqual(messages, [
+    {
+      externalId: "telegram:9001",
+      senderId: "42",
+      senderName: "@oncall",
+      chatId: "-100123",
+      text: "/eng status of reactor?",
+    },
+  ])
+  assert.deepEqual(parseTelegramUpdate({ update_id: 1, message: { chat: { id: 1 }, from: { id: 2 }, sticker: {} } }), [])
+})
+
+test("parseWhatsAppWebhook extracts text messages and contact names", () => {
+  const messages = parseWhatsAppWebhook({
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        changes: [
+          {
+            value: {
+              contacts: [{ wa_id: "15551234567", profile: { name: "Riley" } }],
+              messages: [
+                { id: "wamid.1", from: "15551234567", type: "text", text: { body: "ack" } },
+                { id: "wamid.2", from: "15551234567", type: "image", image: {} },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  })
+
+  assert.deepEqual(messages, [
+    {
+      externalId: "whatsapp:wamid.1",
+      senderId: "15551234567",
+      senderName: "Riley",
+      chatId: "15551234567",
+      text: "ack",
+    },
+  ])
+})
+
+test("parseDiscordInteraction handles ping and bridge commands", () => {
+  assert.deepEqual(parseDiscordInteraction({ type: 1 }), { type: "ping" })
+  assert.deepEqual(parseDiscordInteraction({ type: 3 }), { type: "ignored" })
+
+  const parsed = parseDiscordInteraction({
+    id: "1200",
+    type: 2,
+    channel_id: "77",
+    member: { user: { id: "55", username: "riley" } },
+    data: {
+      name: "bridge",
+      options: [
+        { name: "message", type: 3, value: "hold position" },
+        { name: "station", type: 3, value: "OPS" },
+      ],
+    },
+  })
+
+  assert.deepEqual(parsed, {
+    type: "message",
+    message: {
+      externalId: "discord:1200",
+      senderId: "55",
+      senderName: "riley",
+      chatId: "77",
+      text: "hold position",
+      stationKey: "ops",
+    },
+  })
+})
+
+test("resolveInboundStation routes station prefixes and falls back to the default", () => {
+  assert.deepEqual(resolveInboundStation("/eng status?"), { stationKey: "eng", text: "status?" })
+  assert.deepEqual(resolveInboundStation("/sec@ShipBot lock it down"), { stationKey: "sec", text: "lock it down" })
+  assert.deepEqual(resolveInboundStation("MED: crew check"), { stationKey: "med", text: "crew check" })
+  assert.deepEqual(resolveInboundStation("ops team is online"), { stationKey: "cou", text: "ops team is online" })
+  assert.deepEqual(resolveInboundStation("/xo", "ops"), { stationKey: "ops", text: "/xo" })
+  assert.equal(resolveInboundDefaultStation({ inboundStationKey: "XO" }), "xo")
+  assert.equal(resolveInboundDefaultStation({ inboundStationKey: "captain" }), "cou")
+})
+
+test("isInboundSenderAllowed scopes senders to the connection destination", () => {
+  const telegram = { externalId: "telegram:1", senderId: "42", senderName: null, chatId: "-100123", text: "hi" }
+  assert.equal(isInboundSenderAllowed({ provider: "telegram", destination: "-100123", config: {}, message: telegram }), true)
+  assert.equal(isInboundSenderAllowed({ provider: "telegram", destination: "-100999", config: {}, message: telegram }), false)
+  assert.equal(
+    isInboundSenderAllowed({ provider: "telegram", destination: "-100123", config: { inboundSenderIds: ["7"] }, message: telegram }),
+    false,
+  )
+
+  const whatsapp = { externalId: "whatsapp:1", senderId: "15551234567", senderName: null, chatId: "15551234567", text: "hi" }
+  assert.equal(isInboundSenderAllowed({ provider: "whatsapp", destination: "+15551234567", config: {}, message: whatsapp }), true)
+  assert.equal(isInboundSenderAllowed({ provider: "whatsapp", destination: "+15550000000", config: {}, message: whatsapp }), false)
+
+  const discord = { externalId: "discord:1", senderId: "55", senderName: null, chatId: "77", text: "hi" }
+  assert.equal(isInboundSenderAllowed({ provider: "discord", destination: "#ops", config: {}, message: discord }), false)
+  assert.equal(
+    isInboundSenderAllowed({ provider: "discord", destination: "#ops", config: { inboundSenderIds: ["55"] }, message: discord }),
+    true,
+  )
+})
+
+test("formatInboundContent attributes the sender", () => {
+  const message = { externalId: "telegram:1", senderId: "42", senderName: "@oncall", chatId: "1", text: "/eng hi" }
+  assert.equal(formatInboundContent("telegram", message, "hi"), "[Telegram · @oncall] hi")
+})
@@ -0,0 +1,521 @@
+import crypto from "node:crypto"
+import type { BridgeConnection, BridgeConnectionProvider, BridgeCrewRole, BridgeThread } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { isBridgeStationKey } from "@/lib/bridge-chat/mapping"
+import {
+  drainBridgeMirrorJobsSafely,
+  enqueueThreadToSessionMirrorJob,
+  ensureStationThreadsForUser,
+} from "@/lib/bridge-chat/sync"
+import { resolveBridgeConnectionCredentials } from "./secrets"
+import type { BridgeConnectionCredentials } from "./validation"
+
+const DEFAULT_INBOUND_STATION: BridgeCrewRole = "cou"
+const INBOUND_MAX_TEXT_LENGTH = 4_000
+const DISCORD_SIGNATURE_MAX_SKEW_SECONDS = 300
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex")
+const STATION_COMMAND_PATTERN = /^(?:\/(xo|ops|eng|sec|med|cou)(?:@\S+)?(?:\s+|$)|(xo|ops|eng|sec|med|cou):\s*)([\s\S]*)$/iu
+
+export class BridgeInboundError extends Error {
+  status: number
+  code: string
+
+  constructor(
+    message: string,
+    options: {
+      status?: number
+      code?: string
+    } = {},
+  ) {
+    super(message)
+    this.name = "BridgeInboundError"
+    this.status = options.status ?? 400
+    this.code = options.code ?? "BRIDGE_INBOUND_ERROR"
+  }
+}
+
+export interface ParsedBridgeInboundMessage {
+  externalId: string
+  senderId: string
+  senderName: string | null
+  chatId: string | null
+  text: string
+  stationKey?: BridgeCrewRole | null
+}
+
+export type ParsedDiscordInteraction =
+  | { type: "ping" }
+  | { type: "message"; message: ParsedBridgeInboundMessage }
+  | { type: "ignored" }
+
+export interface InboundBridgeConnection {
+  connection: BridgeConnection
+  userId: string
+  credentials: BridgeConnectionCredentials
+}
+
+export interface BridgeInboundDeliveryResult {
+  accepted: number
+  duplicates: number
+  rejected: number
+  stationKeys: BridgeCrewRole[]
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function asIdString(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value)
+  }
+
+  return asNonEmptyString(value)
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "P2002"
+}
+
+function timingSafeEqualStrings(left: string, right: string): boolean {
+  const leftBuffer = Buffer.from(left, "utf8")
+  const rightBuffer = Buffer.from(right, "utf8")
+  if (leftBuffer.length !== rightBuffer.length) {
+    return false
+  }
+
+  return crypto.timingSafeEqual(leftBuffer, rightBuffer)
+}
+
+function clampText(value: string): string {
+  return value.length > INBOUND_MAX_TEXT_LENGTH ? value.slice(0, INBOUND_MAX_TEXT_LENGTH) : value
+}
+
+export function verifyTelegramWebhookSecret(expected: string | undefined, received: string | null): boolean {
+  if (!expected || !received) {
+    return false
+  }
+
+  return timingSafeEqualStrings(expected, received)
+}
+
+export function verifyWhatsAppSignature(args: {
+  rawBody: string
+  signature: string | null
+  appSecret: string | undefined
+}): boolean {
+  if (!args.appSecret || !args.signature?.startsWith("sha256=")) {
+    return false
+  }
+
+  const expected = crypto.createHmac("sha256", args.appSecret).update(args.rawBody, "utf8").digest("hex")
+  return timingSafeEqualStrings(`sha256=${expected}`, args.signature.toLowerCase())
+}
+
+/** Returns the hub challenge to echo back, or null when the subscription handshake is not ours. */
+export function resolveWhatsAppVerifyChallenge(args: {
+  mode: string | null
+  token: string | null
+  challenge: string | null
+  verifyToken: string | undefined
+}): string | null {
+  if (args.mode !== "subscribe" || !args.challenge || !args.verifyToken || !args.token) {
+    return null
+  }
+
+  return timingSafeEqualStrings(args.verifyToken, args.token) ? args.challenge : null
+}
+
+export function verifyDiscordInteractionSignature(args: {
+  rawBody: string
+  signature: string | null
+  timestamp: string | null
+  publicKey: string | undefined
+  now?: Date
+}): boolean {
+  if (!args.publicKey || !args.signature || !args.timestamp) {
+    return false
+  }
+
+  const timestampSeconds = Number.parseInt(args.timestamp, 10)
+  const nowSeconds = Math.floor((args.now ?? new Date()).getTime() / 1000)
+  if (!Number.isFinite(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > DISCORD_SIGNATURE_MAX_SKEW_SECONDS) {
+    return false
+  }
+
+  if (!/^[0-9a-f]{128}$/iu.test(args.signature)) {
+    return false
+  }
+
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(args.publicKey, "hex")]),
+      format: "der",
+      type: "spki",
+    })
+    return crypto.verify(
+      null,
+      Buffer.from(`${args.timestamp}${args.rawBody}`, "utf8"),
+      key,
+      Buffer.from(args.signature, "hex"),
+    )
+  } catch {
+    return false
+  }
+}
+
+export function parseTelegramUpdate(body: unknown): ParsedBridgeInboundMessage[] {
+  const update = asRecord(body)
+  const message = asRecord(update.message)
+  const text = asNonEmptyString(message.text)
+  const updateId = asIdString(update.update_id)
+  const chatId = asIdString(asRecord(message.chat).id)
+  const from = asRecord(message.from)
+  const senderId = asIdString(from.id)
+  if (!text || !updateId || !chatId || !senderId) {
+    return []
+  }
+
+  const senderName = asNonEmptyString(from.username)
+    ? `@${asNonEmptyString(from.username)}`
+    : asNonEmptyString([from.first_name, from.last_name].filter((part) => typeof part === "string").join(" "))
+
+  return [
+    {
+      externalId: `telegram:${updateId}`,
+      senderId,
+      senderName,
+      chatId,
+      text: clampText(text),
+    },
+  ]
+}
+
+export function parseWhatsAppWebhook(body: unknown): ParsedBridgeInboundMessage[] {
+  const payload = asRecord(body)
+  const entries = Array.isArray(payload.entry) ? payload.entry : []
+  const messages: ParsedBridgeInboundMessage[] = []
+
+  for (const entry of entries) {
+    const changes = Array.isArray(asRecord(entry).changes) ? (asRecord(entry).changes as unknown[]) : []
+    for (const change of changes) {
+      const value = asRecord(asRecord(change).value)
+      const contacts = Array.isArray(value.contacts) ? value.contacts : []
+      const rawMessages = Array.isArray(value.messages) ? value.messages : []
+
+      for (const rawMessage of rawMessages) {
+        const message = asRecord(rawMessage)
+        const text = message.type === "text" ? asNonEmptyString(asRecord(message.text).body) : null
+        const messageId = asNonEmptyString(message.id)
+        const from = asNonEmptyString(message.from)
+        if (!text || !messageId || !from) {
+          continue
+        }
+
+        const contact = contacts.map(asRecord).find((candidate) => candidate.wa_id === from)
+        messages.push({
+          externalId: `whatsapp:${messageId}`,
+          senderId: from,
+          senderName: asNonEmptyString(asRecord(contact?.profile).name),
+          chatId: from,
+          text: clampText(text),
+        })
+      }
+    }
+  }
+
+  return messages
+}
+
+/**
+ * Discord delivers slash commands as interactions. The bridge command is
+ * expected to carry a `message` string option and an optional `station`.
+ */
+export function parseDiscordInteraction(body: unknown): ParsedDiscordInteraction {
+  const interaction = asRecord(body)
+  if (interaction.type === 1) {
+    return { type: "ping" }
+  }
+
+  if (interaction.type !== 2) {
+    return { type: "ignored" }
+  }
+
+  const interactionId = asIdString(interaction.id)
+  const user = asRecord(asRecord(interaction.member).user ?? interaction.user)
+  const senderId = asIdString(user.id)
+  const options = Array.isArray(asRecord(interaction.data).options)
+    ? (asRecord(interaction.data).options as unknown[]).map(asRecord)
+    : []
+  const text = asNonEmptyString(options.find((option) => option.name === "message")?.value)
+  const station = asNonEmptyString(options.find((option) => option.name === "station")?.value)?.toLowerCase()
+  if (!interactionId || !senderId || !text) {
+    return { type: "ignored" }
+  }
+
+  return {
+    type: "message",
+    message: {
+      externalId: `discord:${interactionId}`,
+      senderId,
+      senderName: asNonEmptyString(user.global_name) || asNonEmptyString(user.username),
+      chatId: asIdString(interaction.channel_id),
+      text: clampText(text),
+      stationKey: isBridgeStationKey(station) ? station : null,
+    },
+  }
+}
+
+/**
+ * Routes a message to a station. `/eng ...` and `eng: ...` address a station
+ * explicitly; anything else goes to the connection's inbound station.
+ */
+export function resolveInboundStation(
+  text: string,
+  fallback: BridgeCrewRole = DEFAULT_INBOUND_STATION,
+): { stationKey: BridgeCrewRole; text: string } {
+  const match = STATION_COMMAND_PATTERN.exec(text.trim())
+  const stationKey = (match?.[1] || match?.[2])?.toLowerCase()
+  const remainder = match?.[3]?.trim()
+  if (!isBridgeStationKey(stationKey) || !remainder) {
+    return { stationKey: fallback, text: text.trim() }
+  }
+
+  return { stationKey, text: remainder }
+}
+
+export function resolveInboundDefaultStation(config: unknown): BridgeCrewRole {
+  const configured = asNonEmptyString(asRecord(config).inboundStationKey)?.toLowerCase()
+  return isBridgeStationKey(configured) ? configured : DEFAULT_INBOUND_STATION
+}
+
+function configuredSenderIds(config: unknown): string[] {
+  const value = asRecord(config).inboundSenderIds
+  if (!Array.isArray(value)) {
+    return []
+  }
+
+  return value.map(asIdString).filter((entry): entry is string => Boolean(entry))
+}
+
+/**
+ * Telegram and WhatsApp only accept messages from the chat the connection
+ * relays to. Discord interactions can come from any guild member, so an
+ * explicit `config.inboundSenderIds` allowlist is required there.
+ */
+export function isInboundSenderAllowed(args: {
+  provider: BridgeConnectionProvider
+  destination: string
+  config: unknown
+  message: ParsedBridgeInboundMessage
+}): boolean {
+  const allowlist = configuredSenderIds(args.config)
+  if (allowlist.length > 0 && !allowlist.includes(args.message.senderId)) {
+    return false
+  }
+
+  if (args.provider === "telegram") {
+    return args.message.chatId === args.destination.trim()
+  }
+
+  if (args.provider === "whatsapp") {
+    return `+${args.message.senderId}` === args.destination.trim()
+  }
+
+  return allowlist.length > 0
+}
+
+const PROVIDER_LABELS: Record<BridgeConnectionProvider, string> = {
+  telegram: "Telegram",
+  discord: "Discord",
+  whatsapp: "WhatsApp",
+  slack: "Slack",
+  matrix: "Matrix",
+  webhook: "Webhook",
+}
+
+export function formatInboundContent(provider: BridgeConnectionProvider, message: ParsedBridgeInboundMessage, text: string): string {
+  const sender = message.senderName || message.senderId
+  return `[${PROVIDER_LABELS[provider]} · ${sender}] ${text}`
+}
+
+export async function loadInboundBridgeConnection(connectionId: string): Promise<InboundBridgeConnection> {
+  const connection = await prisma.bridgeConnection.findFirst({
+    where: {
+      id: connectionId,
+      enabled: true,
+      deployment: {
+        deploymentType: "ship",
+      },
+    },
+    include: {
+      deployment: {
+        select: {
+          userId: true,
+        },
+      },
+    },
+  })
+
+  if (!connection) {
+    throw new BridgeInboundError("Connection not found", { status: 404, code: "CONNECTION_NOT_FOUND" })
+  }
+
+  const credentials = await resolveBridgeConnectionCredentials({
+    provider: connection.provider,
+    connectionId: connection.id,
+    stored: connection.credentials,
+  })
+
+  const { deployment, ...rest } = connection
+  return {
+    connection: rest,
+    userId: deployment.userId,
+    credentials,
+  }
+}
+
+async function resolveStationThread(userId: string, stationKey: BridgeCrewRole): Promise<BridgeThread> {
+  const existing = await prisma.bridgeThread.findFirst({
+    where: {
+      userId,
+      stationKey,
+      sessionId: {
+        not: null,
+      },
+    },
+    orderBy: {
+      updatedAt: "desc",
+    },
+  })
+
+  if (existing) {
+    return existing
+  }
+
+  const threads = await ensureStationThreadsForUser(userId)
+  const thread = threads.find((candidate) => candidate.stationKey === stationKey)
+  if (!thread) {
+    throw new BridgeInboundError(`No bridge thread for station ${stationKey}`, {
+      status: 500,
+      code: "STATION_THREAD_MISSING",
+    })
+  }
+
+  return thread
+}
+
+/**
+ * Writes verified inbound messages into the owner's station threads and
+ * feeds them through the thread-to-session mirror. Provider retries are
+ * de-duplicated on (connectionId, externalId).
+ */
+export async function deliverBridgeInboundMessages(args: {
+  inbound: InboundBridgeConnection
+  messages: ParsedBridgeInboundMessage[]
+}): Promise<BridgeInboundDeliveryResult> {
+  const { connection, userId } = args.inbound
+  const defaultStation = resolveInboundDefaultStation(connection.config)
+  const result: BridgeInboundDeliveryResult = {
+    accepted: 0,
+    duplicates: 0,
+    rejected: 0,
+    stationKeys: [],
+  }
+
+  for (const message of args.messages) {
+    if (
+      !isInboundSenderAllowed({
+        provider: connection.provider,
+        destination: connection.destination,
+        config: connection.config,
+        message,
+      })
+    ) {
+      result.rejected += 1
+      continue
+    }
+
+    const routed = message.stationKey
+      ? { stationKey: message.stationKey, text: message.text }
+      : resolveInboundStation(message.text, defaultStation)
+
+    const existing = await prisma.bridgeInboundMessage.findUnique({
+      where: {
+        connectionId_externalId: {
+          connectionId: connection.id,
+          externalId: message.externalId,
+        },
+      },
+    })
+    if (existing) {
+      result.duplicates += 1
+      continue
+    }
+
+    const thread = await resolveStationThread(userId, routed.stationKey)
+
+    let bridgeMessageId: string
+    try {
+      bridgeMessageId = await prisma.$transaction(async (tx) => {
+        const bridgeMessage = await tx.bridgeMessage.create({
+          data: {
+            threadId: thread.id,
+            role: "user",
+            content: formatInboundContent(connection.provider, message, routed.text),
+          },
+        })
+
+        await tx.bridgeInboundMessage.create({
+          data: {
+            connectionId: connection.id,
+            provider: connection.provider,
+            externalId: message.externalId,
+            senderId: message.senderId,
+            stationKey: routed.stationKey,
+            threadId: thread.id,
+            messageId: bridgeMessage.id,
+          },
+        })
+
+        return bridgeMessage.id
+      })
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        result.duplicates += 1
+        continue
+      }
+
+      throw error
+    }
+
+    await enqueueThreadToSessionMirrorJob({
+      messageId: bridgeMessageId,
+      threadId: thread.id,
+    })
+
+    result.accepted += 1
+    if (!result.stationKeys.includes(routed.stationKey)) {
+      result.stationKeys.push(routed.stationKey)
+    }
+  }
+
+  if (result.accepted > 0) {
+    await drainBridgeMirrorJobsSafely({ label: `bridge-inbound.${connection.provider}` })
+  }
+
+  return result
+}
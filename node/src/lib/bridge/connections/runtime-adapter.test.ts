@@ -79,3 +79,38 @@ test("dispatchBridgeConnectionViaRuntime rejects unsupported runtime ids", async
     /Unsupported bridge dispatch runtime: nano-claw/,
   )
 })
+
+test("dispatchBridgeConnectionViaRuntime posts Slack connections directly", async () => {
+  const originalFetch = globalThis.fetch
+  let capturedUrl = ""
+
+  await withEnv(
+    {
+      OPENCLAW_GATEWAY_URL: "http://127.0.0.1:18789",
+    },
+    async () => {
+      globalThis.fetch = (async (input: RequestInfo | URL) => {
+        capturedUrl = String(input)
+        return new Response(JSON.stringify({ ok: true, ts: "1700000000.000100" }), { status: 200 })
+      }) as typeof globalThis.fetch
+
+      const result = await dispatchBridgeConnectionViaRuntime({
+        runtimeId: "openclaw",
+        input: {
+          deliveryId: "delivery-3",
+          provider: "slack",
+          destination: "C0123456789",
+          message: "hello",
+          config: {},
+          credentials: { botToken: "xoxb-abc" },
+        },
+      })
+
+      assert.equal(result.ok, true)
+      assert.equal(result.providerMessageId, "1700000000.000100")
+      assert.equal(capturedUrl, "https://slack.com/api/chat.postMessage")
+    },
+  ).finally(() => {
+    globalThis.fetch = originalFetch
+  })
+})
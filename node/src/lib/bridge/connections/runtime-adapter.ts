@@ -2,6 +2,7 @@ import type { BridgeConnectionProvider } from "@prisma/client"
 import type { BridgeConnectionCredentials } from "./validation"
 import type { OpenClawBridgeDispatchResult } from "./openclaw-dispatch"
 import { dispatchBridgeConnectionViaOpenClaw } from "./openclaw-dispatch"
+import { dispatchBridgeConnectionDirect, isDirectDispatchProvider } from "./direct-dispatch"
 import type { BridgeDispatchRuntimeId } from "./dispatch-runtime"
 
 export interface BridgeRuntimeDispatchInput {
@@ -31,5 +32,11 @@ export async function dispatchBridgeConnectionViaRuntime(args: {
     throw new Error(`Unsupported bridge dispatch runtime: ${args.runtimeId}.`)
   }
 
+  // Slack, Matrix and signed webhooks are posted from the app itself; the
+  // runtime rail only carries the providers it has channel support for.
+  if (isDirectDispatchProvider(args.input.provider)) {
+    return dispatchBridgeConnectionDirect(args.input)
+  }
+
   return adapter(args.input)
 }
@@ -48,3 +48,61 @@ test("validateBridgeConnectionCredentials enforces Discord webhook url", () => {
     BridgeConnectionValidationError,
   )
 })
+
+test("validateBridgeConnectionCredentials keeps optional inbound secrets", () => {
+  assert.deepEqual(
+    validateBridgeConnectionCredentials("whatsapp", {
+      accessToken: "token",
+      phoneNumberId: "123",
+      appSecret: "app-secret",
+      verifyToken: "verify-me",
+    }),
+    {
+      accessToken: "token",
+      phoneNumberId: "123",
+      appSecret: "app-secret",
+      verifyToken: "verify-me",
+    },
+  )
+
+  assert.throws(
+    () => validateBridgeConnectionCredentials("discord", {
+      webhookUrl: "https://discord.com/api/webhooks/1/abc",
+      publicKey: "not-hex",
+    }),
+    BridgeConnectionValidationError,
+  )
+})
+
+test("parseBridgeConnectionCreateInput accepts slack, matrix and webhook providers", () => {
+  const slack = parseBridgeConnectionCreateInput({
+    provider: "slack",
+    name: "Ops Slack",
+    destination: "C0123456789",
+    credentials: { botToken: "xoxb-123" },
+  })
+  assert.deepEqual(slack.credentials, { botToken: "xoxb-123" })
+
+  const matrix = parseBridgeConnectionCreateInput({
+    provider: "matrix",
+    name: "Sec Matrix",
+    destination: "!ops:matrix.example",
+    credentials: { homeserverUrl: "https://matrix.example/", accessToken: "syt_abc" },
+  })
+  assert.deepEqual(matrix.credentials, { homeserverUrl: "https://matrix.example", accessToken: "syt_abc" })
+
+  const webhook = parseBridgeConnectionCreateInput({
+    provider: "webhook",
+    name: "Pager",
+    destination: "pager",
+    credentials: { webhookUrl: "https://hooks.example/bridge", signingSecret: "0123456789abcdef" },
+  })
+  assert.equal(webhook.provider, "webhook")
+
+  assert.throws(() => validateBridgeConnectionDestination("matrix", "#ops:matrix.example"), BridgeConnectionValidationError)
+  assert.throws(() => validateBridgeConnectionCredentials("slack", { botToken: "xoxp-user" }), BridgeConnectionValidationError)
+  assert.throws(
+    () => validateBridgeConnectionCredentials("webhook", { webhookUrl: "https://hooks.example", signingSecret: "short" }),
+    BridgeConnectionValidationError,
+  )
+})
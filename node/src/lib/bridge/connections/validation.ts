@@ -2,21 +2,47 @@ import type { BridgeConnectionProvider } from "@prisma/client"
 
 export interface TelegramConnectionCredentials {
   botToken: string
+  /** Matched against X-Telegram-Bot-Api-Secret-Token on inbound updates. */
+  webhookSecret?: string
 }
 
 export interface DiscordConnectionCredentials {
   webhookUrl: string
+  /** Application public key used to verify inbound interaction signatures. */
+  publicKey?: string
 }
 
 export interface WhatsAppConnectionCredentials {
   accessToken: string
   phoneNumberId: string
+  /** App secret used to verify X-Hub-Signature-256 on inbound webhooks. */
+  appSecret?: string
+  /** Token echoed back during the Cloud API webhook subscription handshake. */
+  verifyToken?: string
+}
+
+export interface SlackConnectionCredentials {
+  botToken: string
+}
+
+export interface MatrixConnectionCredentials {
+  homeserverUrl: string
+  accessToken: string
+}
+
+export interface WebhookConnectionCredentials {
+  webhookUrl: string
+  /** HMAC-SHA256 key for the X-Bridge-Signature header on each delivery (hook signing scheme). */
+  signingSecret: string
 }
 
 export type BridgeConnectionCredentials =
   | TelegramConnectionCredentials
   | DiscordConnectionCredentials
   | WhatsAppConnectionCredentials
+  | SlackConnectionCredentials
+  | MatrixConnectionCredentials
+  | WebhookConnectionCredentials
 
 export interface ParsedBridgeConnectionInput {
   provider: BridgeConnectionProvider
@@ -42,9 +68,16 @@ const BRIDGE_CONNECTION_PROVIDERS = new Set<BridgeConnectionProvider>([
   "telegram",
   "discord",
   "whatsapp",
+  "slack",
+  "matrix",
+  "webhook",
 ])
 
 const WHATSAPP_E164_PATTERN = /^\+[1-9]\d{7,14}$/u
+const DISCORD_PUBLIC_KEY_PATTERN = /^[0-9a-f]{64}$/u
+const SLACK_CHANNEL_PATTERN = /^(?:[CGD][A-Z0-9]{6,}|#[a-z0-9][a-z0-9._-]*)$/u
+const MATRIX_ROOM_ID_PATTERN = /^![^:\s]+:[^\s]+$/u
+const WEBHOOK_SIGNING_SECRET_MIN_LENGTH = 16
 
 function asRecord(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
@@ -71,17 +104,17 @@ function asBoolean(value: unknown, fallback: boolean): boolean {
   return fallback
 }
 
-function ensureHttpsUrl(value: string): string {
+function ensureHttpsUrl(value: string, label: string): string {
   let parsed: URL
 
   try {
     parsed = new URL(value)
   } catch {
-    throw new BridgeConnectionValidationError("Discord webhookUrl must be a valid URL.")
+    throw new BridgeConnectionValidationError(`${label} must be a valid URL.`)
   }
 
   if (parsed.protocol !== "https:") {
-    throw new BridgeConnectionValidationError("Discord webhookUrl must use https.")
+    throw new BridgeConnectionValidationError(`${label} must use https.`)
   }
 
   return parsed.toString()
@@ -94,7 +127,9 @@ export function parseBridgeConnectionProvider(value: unknown): BridgeConnectionP
 
   const normalized = value.trim().toLowerCase() as BridgeConnectionProvider
   if (!BRIDGE_CONNECTION_PROVIDERS.has(normalized)) {
-    throw new BridgeConnectionValidationError("provider must be telegram, discord, or whatsapp.")
+    throw new BridgeConnectionValidationError(
+      "provider must be telegram, discord, whatsapp, slack, matrix, or webhook.",
+    )
   }
 
   return normalized
@@ -115,6 +150,18 @@ export function validateBridgeConnectionDestination(
     )
   }
 
+  if (provider === "slack" && !SLACK_CHANNEL_PATTERN.test(destination)) {
+    throw new BridgeConnectionValidationError(
+      "Slack destination must be a channel ID (for example: C0123456789) or #channel-name.",
+    )
+  }
+
+  if (provider === "matrix" && !MATRIX_ROOM_ID_PATTERN.test(destination)) {
+    throw new BridgeConnectionValidationError(
+      "Matrix destination must be a room ID (for example: !abcdef:matrix.org).",
+    )
+  }
+
   return destination
 }
 
@@ -141,7 +188,12 @@ export function validateBridgeConnectionCredentials(
     if (!botToken) {
       throw new BridgeConnectionValidationError("Telegram credentials require botToken.")
     }
-    return { botToken }
+
+    const webhookSecret = asNonEmptyString(record.webhookSecret)
+    return {
+      botToken,
+      ...(webhookSecret ? { webhookSecret } : {}),
+    }
   }
 
   if (provider === "discord") {
@@ -150,8 +202,63 @@ export function validateBridgeConnectionCredentials(
       throw new BridgeConnectionValidationError("Discord credentials require webhookUrl.")
     }
 
+    const publicKey = asNonEmptyString(record.publicKey)?.toLowerCase()
+    if (publicKey && !DISCORD_PUBLIC_KEY_PATTERN.test(publicKey)) {
+      throw new BridgeConnectionValidationError("Discord publicKey must be a 32-byte hex string.")
+    }
+
+    return {
+      webhookUrl: ensureHttpsUrl(webhookUrl, "Discord webhookUrl"),
+      ...(publicKey ? { publicKey } : {}),
+    }
+  }
+
+  if (provider === "slack") {
+    const botToken = asNonEmptyString(record.botToken)
+    if (!botToken) {
+      throw new BridgeConnectionValidationError("Slack credentials require botToken.")
+    }
+
+    if (!botToken.startsWith("xoxb-")) {
+      throw new BridgeConnectionValidationError("Slack botToken must be a bot token (xoxb-...).")
+    }
+
+    return { botToken }
+  }
+
+  if (provider === "matrix") {
+    const homeserverUrl = asNonEmptyString(record.homeserverUrl)
+    const accessToken = asNonEmptyString(record.accessToken)
+    if (!homeserverUrl || !accessToken) {
+      throw new BridgeConnectionValidationError(
+        "Matrix credentials require homeserverUrl and accessToken.",
+      )
+    }
+
+    return {
+      homeserverUrl: ensureHttpsUrl(homeserverUrl, "Matrix homeserverUrl").replace(/\/+$/u, ""),
+      accessToken,
+    }
+  }
+
+  if (provider === "webhook") {
+    const webhookUrl = asNonEmptyString(record.webhookUrl)
+    const signingSecret = asNonEmptyString(record.signingSecret)
+    if (!webhookUrl || !signingSecret) {
+      throw new BridgeConnectionValidationError(
+        "Webhook credentials require webhookUrl and signingSecret.",
+      )
+    }
+
+    if (signingSecret.length < WEBHOOK_SIGNING_SECRET_MIN_LENGTH) {
+      throw new BridgeConnectionValidationError(
+        `Webhook signingSecret must be at least ${WEBHOOK_SIGNING_SECRET_MIN_LENGTH} characters.`,
+      )
+    }
+
     return {
-      webhookUrl: ensureHttpsUrl(webhookUrl),
+      webhookUrl: ensureHttpsUrl(webhookUrl, "Webhook webhookUrl"),
+      signingSecret,
     }
   }
 
@@ -163,9 +270,13 @@ export function validateBridgeConnectionCredentials(
     )
   }
 
+  const appSecret = asNonEmptyString(record.appSecret)
+  const verifyToken = asNonEmptyString(record.verifyToken)
   return {
     accessToken,
     phoneNumberId,
+    ...(appSecret ? { appSecret } : {}),
+    ...(verifyToken ? { verifyToken } : {}),
   }
 }
 
@@ -3,6 +3,7 @@ import { basename } from "node:path"
 import { prisma } from "@/lib/prisma"
 import { parseJoinedVaultPath, resolveVaultAbsolutePath } from "@/lib/vault/config"
 import { readMarkdownFile } from "@/lib/vault/fs"
+import { embeddingMatchesProvider, resolveVaultEmbeddingProvider } from "@/lib/vault/embeddings"
 import { decryptPrivateVaultContent, privateMemoryEncryptionRequired } from "@/lib/vault/private-enclave-client"
 import { parsePrivateVaultEncryptedEnvelope } from "@/lib/vault/private-encryption"
 import {
@@ -20,6 +21,8 @@ interface LocalPrivateChunkCandidate {
   content: string
   normalizedContent: string
   embedding: unknown
+  embeddingModel: string | null
+  embeddingDimensions: number | null
   document: {
     title: string
   }
@@ -41,10 +44,6 @@ function queryCandidateLimit(): number {
   return asPositiveInt(process.env.LOCAL_PRIVATE_RAG_QUERY_CANDIDATE_LIMIT, 1200)
 }
 
-function embeddingModel(): string {
-  return process.env.VAULT_RAG_EMBEDDING_MODEL?.trim() || "text-embedding-3-small"
-}
-
 function contentHashFor(text: string): string {
   return createHash("sha256").update(text).digest("hex")
 }
@@ -65,59 +64,6 @@ function parseEmbedding(value: unknown): number[] | null {
   return parsed.length > 0 ? parsed : null
 }
 
-async function embedTextsWithOpenAi(texts: string[]): Promise<number[][] | null> {
-  if (texts.length === 0) {
-    return []
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY?.trim()
-  if (!apiKey) {
-    return null
-  }
-
-  let response: Response
-  try {
-    response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: embeddingModel(),
-        input: texts,
-      }),
-    })
-  } catch (error) {
-    console.error("Local private RAG embedding request failed:", error)
-    return null
-  }
-
-  if (!response.ok) {
-    console.error("Local private RAG embedding request returned non-2xx:", response.status)
-    return null
-  }
-
-  const payload = (await response.json().catch(() => null)) as
-    | { data?: Array<{ embedding?: unknown; index?: number }> }
-    | null
-  if (!payload?.data || !Array.isArray(payload.data)) {
-    return null
-  }
-
-  const ordered = [...payload.data].sort((a, b) => (a.index || 0) - (b.index || 0))
-  const vectors: number[][] = []
-  for (const entry of ordered) {
-    const embedding = parseEmbedding(entry.embedding)
-    if (!embedding) {
-      return null
-    }
-    vectors.push(embedding)
-  }
-
-  return vectors
-}
-
 async function readPrivatePlaintext(relativePath: string): Promise<{ content: string; size: number; mtime: Date } | null> {
   const rootPath = resolveVaultAbsolutePath("agent-private")
   const file = await readMarkdownFile(rootPath, relativePath).catch(() => null)
@@ -226,7 +172,8 @@ async function upsertJoinedPath(joinedPath: string): Promise<void> {
   }
 
   const chunks = chunkMarkdownForRag(file.content)
-  const embeddings = await embedTextsWithOpenAi(chunks.map((chunk) => chunk.content))
+  const embedder = resolveVaultEmbeddingProvider()
+  const embeddings = embedder ? await embedder.embed(chunks.map((chunk) => chunk.content)) : null
 
   await prisma.$transaction(async (tx) => {
     const doc = await tx.localPrivateRagDocument.upsert({
@@ -273,6 +220,8 @@ async function upsertJoinedPath(joinedPath: string): Promise<void> {
           content: chunk.content,
           normalizedContent: chunk.normalizedContent,
           embedding: embeddings?.[idx] ?? undefined,
+          embeddingModel: embeddings?.[idx] && embedder ? embedder.model : null,
+          embeddingDimensions: embeddings?.[idx]?.length ?? null,
           tokenCount: chunk.tokenCount,
         })),
       })
@@ -330,6 +279,8 @@ export async function queryLocalPrivateRag(args: {
       content: true,
       normalizedContent: true,
       embedding: true,
+      embeddingModel: true,
+      embeddingDimensions: true,
       document: {
         select: {
           title: true,
@@ -350,10 +301,11 @@ export async function queryLocalPrivateRag(args: {
     }
   }
 
+  const embedder = mode === "hybrid" ? resolveVaultEmbeddingProvider() : null
   let queryEmbedding: number[] | null = null
   let fallbackUsed = false
   if (mode === "hybrid") {
-    const embedded = await embedTextsWithOpenAi([query])
+    const embedded = embedder ? await embedder.embed([query]) : null
     if (embedded?.[0]) {
       queryEmbedding = embedded[0]
     } else {
@@ -364,7 +316,7 @@ export async function queryLocalPrivateRag(args: {
   const ranked = candidates
     .map((row) => {
       const lexical = lexicalScore(queryTokens, row.normalizedContent)
-      const semantic = queryEmbedding
+      const semantic = queryEmbedding && embedder && embeddingMatchesProvider(row, embedder)
         ? Math.max(0, cosineSimilarity(queryEmbedding, parseEmbedding(row.embedding) || []))
         : 0
       const titlePath = pathTitleBonus(queryLower, row.joinedPath, row.document.title)
@@ -13,14 +13,16 @@ import type {
   VaultTreeResponse,
   PhysicalVaultId,
   VaultRagMode,
+  VaultRevisionAuthor,
 } from "@/lib/vault/types"
 import type { VaultKnowledgeScope } from "@/lib/vault/rag"
 import { getDataCoreClient } from "./client"
 import { dataCoreClusterId } from "./config"
 import { domainFromCanonicalPath, fromCanonicalPath, isDataCoreBackedPhysicalVault, resolvePhysicalTargetFromVaultRequest, toCanonicalPath, type CanonicalMappingContext } from "./canonical"
-import { getVaultFile, getVaultGraph, getVaultSummaries, getVaultTree, saveVaultFile, moveVaultFile, deleteVaultFile } from "@/lib/vault"
+import { getVaultFile, getVaultGraph, getVaultSummaries, getVaultTree, saveVaultFile, moveVaultFile, deleteVaultFile, searchVaultNotes } from "@/lib/vault"
 import type { DataCoreDomain } from "./types"
-import { toJoinedVaultPath } from "@/lib/vault/config"
+import { isCustomVaultId, toJoinedVaultPath, type VaultAccess } from "@/lib/vault/config"
+import { loadVaultRegistry } from "@/lib/vault/registry"
 import { searchLocalPrivateRagNotes } from "./local-private-rag"
 
 function domainForPhysicalVault(vaultId: PhysicalVaultId): DataCoreDomain {
@@ -185,13 +187,13 @@ function mergeByPath(results: VaultSearchResponse["results"]): VaultSearchRespon
   return deduped
 }
 
-export async function getVaultSummariesFromDataCore(): Promise<VaultSummary[]> {
+export async function getVaultSummariesFromDataCore(access?: VaultAccess): Promise<VaultSummary[]> {
   const client = getDataCoreClient()
   const orchwizTree = await client.getTree({ domain: "orchwiz" })
   const shipTree = await client.getTree({ domain: "ship" })
   const agentPublicTree = await client.getTree({ domain: "agent-public" })
 
-  const local = await getVaultSummaries()
+  const local = await getVaultSummaries(access)
   const privateSummary = local.find((entry) => entry.id === "agent-private")
 
   const summaries: VaultSummary[] = [
@@ -228,6 +230,7 @@ export async function getVaultSummariesFromDataCore(): Promise<VaultSummary[]> {
       encryptedLabel: "Encrypted via wallet-enclave",
       noteCount: 0,
     },
+    ...local.filter((entry) => entry.isCustom),
   ]
 
   summaries.push({
@@ -246,20 +249,22 @@ export async function getVaultTreeFromDataCore(args: {
   vaultId: VaultId
   userId?: string
   shipDeploymentId?: string
+  access?: VaultAccess
 }): Promise<VaultTreeResponse> {
-  if (args.vaultId === "agent-private") {
-    return getVaultTree("agent-private")
+  if (args.vaultId === "agent-private" || isCustomVaultId(args.vaultId)) {
+    return getVaultTree(args.vaultId, args.access)
   }
 
   const client = getDataCoreClient()
   const context = contextForAdapter({ userId: args.userId, shipDeploymentId: args.shipDeploymentId })
 
   if (args.vaultId === "joined") {
-    const [orchwizTree, shipTree, agentPublicTree, privateTree] = await Promise.all([
+    const [orchwizTree, shipTree, agentPublicTree, privateTree, localJoinedTree] = await Promise.all([
       client.getTree({ domain: "orchwiz" }),
       client.getTree({ domain: "ship" }),
       client.getTree({ domain: "agent-public" }),
       getVaultTree("agent-private"),
+      getVaultTree("joined", args.access),
     ])
 
     const tree: VaultTreeNode[] = [
@@ -288,6 +293,8 @@ export async function getVaultTreeFromDataCore(args: {
         vaultId: "joined" as const,
         originVaultId: "agent-private" as const,
       })),
+      // Custom vaults are local-only; reuse their namespace folders from the local joined tree.
+      ...localJoinedTree.tree.filter((node) => node.originVaultId && isCustomVaultId(node.originVaultId)),
     ]
 
     return {
@@ -323,14 +330,16 @@ export async function getVaultFileFromDataCore(args: {
   mode?: VaultFileReadMode
   userId?: string
   shipDeploymentId?: string
+  access?: VaultAccess
 }): Promise<VaultFileResponse> {
+  await loadVaultRegistry()
   const target = resolvePhysicalTargetFromVaultRequest({
     vaultId: args.vaultId,
     notePath: args.notePath,
   })
 
-  if (target.physicalVaultId === "agent-private") {
-    return getVaultFile(args.vaultId, args.notePath, { mode: args.mode })
+  if (!isDataCoreBackedPhysicalVault(target.physicalVaultId)) {
+    return getVaultFile(args.vaultId, args.notePath, { mode: args.mode, access: args.access })
   }
 
   const context = contextForAdapter({ userId: args.userId, shipDeploymentId: args.shipDeploymentId })
@@ -406,15 +415,18 @@ export async function saveVaultFileToDataCore(args: {
   notePath: string
   content: string
   userId?: string
+  author?: VaultRevisionAuthor
   shipDeploymentId?: string
+  access?: VaultAccess
 }): Promise<VaultSaveResponse> {
+  await loadVaultRegistry()
   const target = resolvePhysicalTargetFromVaultRequest({
     vaultId: args.vaultId,
     notePath: args.notePath,
   })
 
-  if (target.physicalVaultId === "agent-private") {
-    return saveVaultFile(args.vaultId, args.notePath, args.content)
+  if (!isDataCoreBackedPhysicalVault(target.physicalVaultId)) {
+    return saveVaultFile(args.vaultId, args.notePath, args.content, { author: args.author, access: args.access })
   }
 
   const context = contextForAdapter({ userId: args.userId, shipDeploymentId: args.shipDeploymentId })
@@ -446,8 +458,11 @@ export async function moveVaultFileToDataCore(args: {
   fromPath: string
   toPath: string
   userId?: string
+  author?: VaultRevisionAuthor
   shipDeploymentId?: string
+  access?: VaultAccess
 }): Promise<VaultMoveResponse> {
+  await loadVaultRegistry()
   const fromTarget = resolvePhysicalTargetFromVaultRequest({ vaultId: args.vaultId, notePath: args.fromPath })
   const toTarget = resolvePhysicalTargetFromVaultRequest({ vaultId: args.vaultId, notePath: args.toPath })
 
@@ -455,8 +470,8 @@ export async function moveVaultFileToDataCore(args: {
     throw new Error("Cross-vault move is not allowed")
   }
 
-  if (fromTarget.physicalVaultId === "agent-private") {
-    return moveVaultFile(args.vaultId, args.fromPath, args.toPath)
+  if (!isDataCoreBackedPhysicalVault(fromTarget.physicalVaultId)) {
+    return moveVaultFile(args.vaultId, args.fromPath, args.toPath, { author: args.author, access: args.access })
   }
 
   const context = contextForAdapter({ userId: args.userId, shipDeploymentId: args.shipDeploymentId })
@@ -500,15 +515,18 @@ export async function deleteVaultFileToDataCore(args: {
   notePath: string
   mode?: VaultDeleteMode
   userId?: string
+  author?: VaultRevisionAuthor
   shipDeploymentId?: string
+  access?: VaultAccess
 }): Promise<VaultDeleteResponse> {
+  await loadVaultRegistry()
   const target = resolvePhysicalTargetFromVaultRequest({
     vaultId: args.vaultId,
     notePath: args.notePath,
   })
 
-  if (target.physicalVaultId === "agent-private") {
-    return deleteVaultFile(args.vaultId, args.notePath, args.mode)
+  if (!isDataCoreBackedPhysicalVault(target.physicalVaultId)) {
+    return deleteVaultFile(args.vaultId, args.notePath, args.mode, { author: args.author, access: args.access })
   }
 
   const mode = args.mode || "soft"
@@ -573,7 +591,12 @@ export async function searchVaultNotesFromDataCore(args: {
   userId?: string
   shipDeploymentId?: string
   scope?: VaultKnowledgeScope
+  access?: VaultAccess
 }): Promise<VaultSearchResponse> {
+  if (isCustomVaultId(args.vaultId)) {
+    return searchVaultNotes(args.vaultId, args.query, { mode: args.mode, k: args.k, access: args.access })
+  }
+
   if (args.vaultId === "agent-private") {
     return searchLocalPrivateRagNotes({
       query: args.query,
@@ -723,7 +746,15 @@ export async function getVaultGraphFromDataCore(args: {
   includeUnresolved?: boolean
   userId?: string
   shipDeploymentId?: string
+  access?: VaultAccess
 }): Promise<VaultGraphResponse> {
+  if (isCustomVaultId(args.vaultId)) {
+    return getVaultGraph(args.vaultId, {
+      includeUnresolved: args.includeUnresolved,
+      access: args.access,
+    })
+  }
+
   if (args.vaultId === "agent-private") {
     return getVaultGraph("agent-private", {
       includeUnresolved: args.includeUnresolved,
@@ -0,0 +1,298 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { AccessActor } from "@/lib/security/access-control"
+import {
+  CommandApprovalError,
+  commandScriptHash,
+  reviewCommandExecutionApproval,
+  type ReviewCommandApprovalDeps,
+} from "./approvals"
+import type { CommandExecutionResult } from "./command-executor"
+
+const owner: AccessActor = {
+  userId: "user-1",
+  email: "captain@example.com",
+  role: "captain",
+  isAdmin: false,
+}
+
+function approvalFixture(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "approval-1",
+    executionId: "exec-1",
+    ownerUserId: "user-1",
+    requestedByUserId: "user-1",
+    commandId: "cmd-1",
+    subagentId: "sub-1",
+    status: "pending",
+    matchedPattern: "*",
+    matchedSource: "policy-profile",
+    decision: {
+      allowed: false,
+      status: "ask",
+      matchedSource: "policy-profile",
+      matchedPattern: "*",
+      reason: "Matched ask rule `*`; operator approval required.",
+    },
+    scriptHash: commandScriptHash({ path: null, scriptContent: "npm run deploy:preview" }),
+    expiresAt: new Date("2026-02-13T12:15:00.000Z"),
+    resolution: null,
+    createdPermissionId: null,
+    reviewedByUserId: null,
+    reviewedAt: null,
+    reviewNote: null,
+    createdAt: new Date("2026-02-13T12:00:00.000Z"),
+    updatedAt: new Date("2026-02-13T12:00:00.000Z"),
+    execution: {
+      id: "exec-1",
+      sessionId: null,
+      startedAt: new Date("2026-02-13T12:00:00.000Z"),
+      command: {
+        id: "cmd-1",
+        name: "deploy-preview",
+        path: null,
+        scriptContent: "npm run deploy:preview",
+      },
+    },
+    ...overrides,
+  }
+}
+
+function installPrismaMock(approval: Record<string, unknown> | null) {
+  const globalAny = globalThis as any
+  const previous = globalAny.prisma
+  const calls = {
+    approvalUpdates: [] as any[],
+    permissionCreates: [] as any[],
+    permissionDeletes: [] as any[],
+  }
+
+  globalAny.prisma = {
+    commandExecutionApproval: {
+      findUnique: async () => approval,
+      findMany: async () => [],
+      updateMany: async (args: any) => {
+        calls.approvalUpdates.push(args)
+        return { count: 1 }
+      },
+    },
+    permission: {
+      create: async (args: any) => {
+        calls.permissionCreates.push(args)
+        return { id: "perm-1", ...args.data }
+      },
+      delete: async (args: any) => {
+        calls.permissionDeletes.push(args)
+        return {}
+      },
+    },
+  }
+
+  return {
+    calls,
+    restore: () => {
+      globalAny.prisma = previous
+    },
+  }
+}
+
+function reviewDeps(executed: CommandExecutionResult | null, captured: { executeContext?: unknown; completed?: any }) {
+  const deps: ReviewCommandApprovalDeps = {
+    now: () => new Date("2026-02-13T12:05:00.000Z"),
+    executeCommand: async (_command, context) => {
+      captured.executeContext = context
+      if (!executed) {
+        throw new Error("execute should not run")
+      }
+      return executed
+    },
+    completeExecution: async (args) => {
+      captured.completed = args
+      return {
+        execution: { id: args.executionId, status: args.result.status === "completed" ? "completed" : "failed" } as any,
+        hooks: { matchedHooks: 0, delivered: 0, failed: 0 },
+      }
+    },
+  }
+  return deps
+}
+
+test("approve_once resumes the parked execution with approval granted", async () => {
+  const prismaMock = installPrismaMock(approvalFixture())
+  const captured: { executeContext?: unknown; completed?: any } = {}
+
+  try {
+    const result = await reviewCommandExecutionApproval(
+      {
+        actor: owner,
+        approvalId: "approval-1",
+        decision: "approve_once",
+      },
+      reviewDeps({
+        status: "completed",
+        output: "deployed",
+        durationMs: 10,
+        permission: approvalFixture().decision as any,
+        metadata: { approvedByOperator: true },
+      }, captured),
+    )
+
+    assert.deepEqual(captured.executeContext, {
+      subagentId: "sub-1",
+      approvalGranted: true,
+      approvedScriptHash: approvalFixture().scriptHash,
+      hookOwnerUserId: "user-1",
+      sessionId: null,
+      toolUseId: "exec-1",
+    })
+    assert.equal(result.approval.status, "approved")
+    assert.equal(result.approval.resolution, "approve_once")
+    assert.equal(captured.completed.result.status, "completed")
+    assert.equal(captured.completed.result.metadata.approval.id, "approval-1")
+    assert.equal(prismaMock.calls.permissionCreates.length, 0)
+    assert.equal(prismaMock.calls.approvalUpdates[0].where.status, "pending")
+  } finally {
+    prismaMock.restore()
+  }
+})
+
+test("always_allow_subagent records a subagent-scoped allow rule", async () => {
+  const prismaMock = installPrismaMock(approvalFixture())
+  const captured: { executeContext?: unknown; completed?: any } = {}
+
+  try {
+    const result = await reviewCommandExecutionApproval(
+      {
+        actor: owner,
+        approvalId: "approval-1",
+        decision: "always_allow_subagent",
+      },
+      reviewDeps({
+        status: "completed",
+        output: "ok",
+        durationMs: 3,
+        permission: approvalFixture().decision as any,
+        metadata: {},
+      }, captured),
+    )
+
+    assert.equal(prismaMock.calls.permissionCreates.length, 1)
+    assert.deepEqual(prismaMock.calls.permissionCreates[0].data, {
+      commandPattern: "deploy-preview",
+      type: "bash_command",
+      status: "allow",
+      scope: "subagent",
+      subagentId: "sub-1",
+      ownerUserId: "user-1",
+      sourceFile: "approval:approval-1",
+    })
+    assert.equal(result.approval.createdPermissionId, "perm-1")
+  } finally {
+    prismaMock.restore()
+  }
+})
+
+test("reject completes the execution as blocked without running it", async () => {
+  const prismaMock = installPrismaMock(approvalFixture())
+  const captured: { executeContext?: unknown; completed?: any } = {}
+
+  try {
+    const result = await reviewCommandExecutionApproval(
+      {
+        actor: owner,
+        approvalId: "approval-1",
+        decision: "reject",
+        reviewNote: "not during freeze",
+      },
+      reviewDeps(null, captured),
+    )
+
+    assert.equal(captured.executeContext, undefined)
+    assert.equal(captured.completed.result.status, "blocked")
+    assert.match(captured.completed.result.error, /not during freeze/)
+    assert.equal(result.approval.status, "rejected")
+  } finally {
+    prismaMock.restore()
+  }
+})
+
+test("review rejects expired and foreign approvals", async () => {
+  const expired = installPrismaMock(approvalFixture({
+    expiresAt: new Date("2026-02-13T12:01:00.000Z"),
+  }))
+
+  try {
+    await assert.rejects(
+      reviewCommandExecutionApproval(
+        { actor: owner, approvalId: "approval-1", decision: "approve_once" },
+        reviewDeps(null, {}),
+      ),
+      (error: unknown) => error instanceof CommandApprovalError && error.status === 410,
+    )
+  } finally {
+    expired.restore()
+  }
+
+  const foreign = installPrismaMock(approvalFixture({ ownerUserId: "user-2" }))
+  try {
+    await assert.rejects(
+      reviewCommandExecutionApproval(
+        { actor: owner, approvalId: "approval-1", decision: "approve_once" },
+        reviewDeps(null, {}),
+      ),
+      (error: unknown) => error instanceof CommandApprovalError && error.status === 404,
+    )
+  } finally {
+    foreign.restore()
+  }
+})
+
+test("approving refuses and expires an approval whose script changed since it was requested", async () => {
+  const prismaMock = installPrismaMock(approvalFixture())
+  const captured: { executeContext?: unknown; completed?: any } = {}
+
+  try {
+    await assert.rejects(
+      reviewCommandExecutionApproval(
+        { actor: owner, approvalId: "approval-1", decision: "always_allow_subagent" },
+        reviewDeps({
+          status: "blocked",
+          error: "Command script changed after approval was requested.",
+          durationMs: 1,
+          permission: approvalFixture().decision as any,
+          metadata: { approvalScriptChanged: true },
+        }, captured),
+      ),
+      (error: unknown) => error instanceof CommandApprovalError
+        && error.status === 409
+        && error.code === "APPROVAL_SCRIPT_CHANGED",
+    )
+
+    const expiry = prismaMock.calls.approvalUpdates.at(-1)
+    assert.equal(expiry.where.status, "approved")
+    assert.equal(expiry.data.status, "expired")
+    assert.deepEqual(prismaMock.calls.permissionDeletes, [{ where: { id: "perm-1" } }])
+    assert.equal(captured.completed.result.status, "blocked")
+    assert.match(captured.completed.result.error, /script changed/)
+    assert.equal(captured.completed.result.metadata.approval.status, "expired")
+  } finally {
+    prismaMock.restore()
+  }
+
+  const unhashed = installPrismaMock(approvalFixture({ scriptHash: null }))
+  const unhashedCaptured: { executeContext?: unknown; completed?: any } = {}
+  try {
+    await assert.rejects(
+      reviewCommandExecutionApproval(
+        { actor: owner, approvalId: "approval-1", decision: "approve_once" },
+        reviewDeps(null, unhashedCaptured),
+      ),
+      (error: unknown) => error instanceof CommandApprovalError && error.code === "APPROVAL_SCRIPT_CHANGED",
+    )
+
+    assert.equal(unhashedCaptured.executeContext, undefined)
+    assert.equal(unhashed.calls.approvalUpdates[0].data.status, "expired")
+  } finally {
+    unhashed.restore()
+  }
+})
@@ -0,0 +1,526 @@
+import type {
+  Command,
+  CommandApprovalResolution,
+  CommandApprovalStatus,
+  CommandExecution,
+  CommandExecutionApproval,
+  Prisma,
+} from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { publishRealtimeEvent } from "@/lib/realtime/events"
+import { publishNotificationUpdatedMany } from "@/lib/realtime/notifications"
+import type { AccessActor } from "@/lib/security/access-control"
+import { commandScriptHash, executeCommandWithPolicy, type CommandExecutionResult } from "./command-executor"
+import { completeCommandExecution, type CommandHookSummary } from "./command-runs"
+import type { PermissionDecision } from "./permissions"
+
+export { commandScriptHash } from "./command-executor"
+
+export const COMMAND_APPROVAL_EVENT_TYPE = "command.approval.updated"
+
+export type CommandApprovalReviewDecision = "approve_once" | "always_allow_subagent" | "reject"
+
+export class CommandApprovalError extends Error {
+  status: number
+  code?: string
+
+  constructor(message: string, status = 400, code?: string) {
+    super(message)
+    this.name = "CommandApprovalError"
+    this.status = status
+    this.code = code
+  }
+}
+
+export interface CommandApprovalDto {
+  id: string
+  executionId: string
+  commandId: string
+  commandName: string | null
+  subagentId: string | null
+  ownerUserId: string
+  requestedByUserId: string
+  status: CommandApprovalStatus
+  matchedPattern: string | null
+  matchedSource: string
+  reason: string | null
+  /** The script the operator is approving, after `pre_tool_use` rewrites. */
+  scriptContent: string | null
+  expiresAt: string
+  resolution: CommandApprovalResolution | null
+  createdPermissionId: string | null
+  reviewedByUserId: string | null
+  reviewedAt: string | null
+  reviewNote: string | null
+  createdAt: string
+}
+
+type ApprovalWithExecution = CommandExecutionApproval & {
+  execution: CommandExecution & {
+    command: Command
+  }
+}
+
+export function commandApprovalTtlMs(): number {
+  const parsed = Number.parseInt(process.env.COMMAND_APPROVAL_TTL_MS || "900000", 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return 900000
+  }
+
+  return parsed
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function toJsonValue(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
+
+export function toCommandApprovalDto(
+  approval: CommandExecutionApproval & { execution?: { command?: { name: string } | null } | null },
+): CommandApprovalDto {
+  const decision = asRecord(approval.decision)
+
+  return {
+    id: approval.id,
+    executionId: approval.executionId,
+    commandId: approval.commandId,
+    commandName: approval.execution?.command?.name || null,
+    subagentId: approval.subagentId,
+    ownerUserId: approval.ownerUserId,
+    requestedByUserId: approval.requestedByUserId,
+    status: approval.status,
+    matchedPattern: approval.matchedPattern,
+    matchedSource: approval.matchedSource,
+    reason: typeof decision.reason === "string" ? decision.reason : null,
+    scriptContent: approval.scriptContent,
+    expiresAt: approval.expiresAt.toISOString(),
+    resolution: approval.resolution,
+    createdPermissionId: approval.createdPermissionId,
+    reviewedByUserId: approval.reviewedByUserId,
+    reviewedAt: approval.reviewedAt ? approval.reviewedAt.toISOString() : null,
+    reviewNote: approval.reviewNote,
+    createdAt: approval.createdAt.toISOString(),
+  }
+}
+
+function publishApprovalUpdated(approval: CommandExecutionApproval) {
+  const userIds = Array.from(new Set([approval.ownerUserId, approval.requestedByUserId]))
+
+  for (const userId of userIds) {
+    publishRealtimeEvent({
+      type: COMMAND_APPROVAL_EVENT_TYPE,
+      userId,
+      payload: {
+        approvalId: approval.id,
+        executionId: approval.executionId,
+        commandId: approval.commandId,
+        subagentId: approval.subagentId,
+        status: approval.status,
+      },
+    })
+  }
+
+  publishNotificationUpdatedMany({
+    userIds,
+    channel: "commands",
+    action: approval.status === "pending" ? "increment" : "clear",
+    entityId: approval.id,
+  })
+}
+
+export async function createCommandExecutionApproval(args: {
+  execution: Pick<CommandExecution, "id" | "subagentId" | "userId">
+  command: Pick<Command, "id" | "ownerUserId" | "path" | "scriptContent">
+  permission: PermissionDecision
+  /** Post-hook script from the parked run; defaults to the stored command script. */
+  reviewScript?: CommandExecutionResult["reviewScript"]
+  now?: Date
+}): Promise<CommandApprovalDto> {
+  const now = args.now || new Date()
+  const reviewScript = args.reviewScript || {
+    scriptContent: args.command.scriptContent,
+    scriptHash: commandScriptHash(args.command),
+  }
+  const approval = await prisma.commandExecutionApproval.create({
+    data: {
+      executionId: args.execution.id,
+      ownerUserId: args.command.ownerUserId || args.execution.userId,
+      requestedByUserId: args.execution.userId,
+      commandId: args.command.id,
+      subagentId: args.execution.subagentId,
+      matchedPattern: args.permission.matchedPattern || null,
+      matchedSource: args.permission.matchedSource,
+      decision: toJsonValue(args.permission),
+      scriptHash: reviewScript.scriptHash,
+      scriptContent: reviewScript.scriptContent,
+      expiresAt: new Date(now.getTime() + commandApprovalTtlMs()),
+    },
+  })
+
+  publishApprovalUpdated(approval)
+  return toCommandApprovalDto(approval)
+}
+
+function expiredExecutionResult(
+  approval: CommandExecutionApproval,
+  error = "Approval expired before an operator acted.",
+): CommandExecutionResult {
+  return {
+    status: "blocked",
+    error,
+    durationMs: 0,
+    permission: asRecord(approval.decision) as unknown as PermissionDecision,
+    metadata: {
+      approval: {
+        id: approval.id,
+        status: "expired",
+      },
+    },
+  }
+}
+
+/**
+ * Lazily expires pending approvals. Called from the list and review paths so
+ * no background scheduler is required.
+ */
+export async function expireStaleCommandApprovals(args: {
+  ownerUserId?: string
+  now?: Date
+} = {}): Promise<number> {
+  const now = args.now || new Date()
+  const stale = await prisma.commandExecutionApproval.findMany({
+    where: {
+      status: "pending",
+      expiresAt: {
+        lte: now,
+      },
+      ...(args.ownerUserId ? { ownerUserId: args.ownerUserId } : {}),
+    },
+    include: {
+      execution: {
+        include: {
+          command: true,
+        },
+      },
+    },
+  })
+
+  let expired = 0
+  for (const approval of stale) {
+    const updated = await prisma.commandExecutionApproval.updateMany({
+      where: {
+        id: approval.id,
+        status: "pending",
+      },
+      data: {
+        status: "expired",
+      },
+    })
+
+    if (updated.count === 0) {
+      continue
+    }
+
+    expired += 1
+    await completeCommandExecution({
+      executionId: approval.executionId,
+      command: approval.execution.command,
+      userId: approval.requestedByUserId,
+      sessionId: approval.execution.sessionId,
+      subagentId: approval.subagentId,
+      startedAt: approval.execution.startedAt,
+      result: expiredExecutionResult(approval),
+    })
+    publishApprovalUpdated({
+      ...approval,
+      status: "expired",
+    })
+  }
+
+  return expired
+}
+
+function canReviewApproval(actor: AccessActor, approval: CommandExecutionApproval): boolean {
+  return actor.isAdmin || approval.ownerUserId === actor.userId
+}
+
+export async function listCommandExecutionApprovals(args: {
+  actor: AccessActor
+  status?: CommandApprovalStatus | null
+  limit?: number
+}): Promise<CommandApprovalDto[]> {
+  await expireStaleCommandApprovals({
+    ownerUserId: args.actor.isAdmin ? undefined : args.actor.userId,
+  })
+
+  const approvals = await prisma.commandExecutionApproval.findMany({
+    where: {
+      ...(args.actor.isAdmin ? {} : { ownerUserId: args.actor.userId }),
+      ...(args.status ? { status: args.status } : {}),
+    },
+    include: {
+      execution: {
+        include: {
+          command: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: Math.min(Math.max(args.limit || 50, 1), 200),
+  })
+
+  return approvals.map((approval) => toCommandApprovalDto(approval))
+}
+
+export interface ReviewCommandApprovalDeps {
+  executeCommand: typeof executeCommandWithPolicy
+  completeExecution: typeof completeCommandExecution
+  now: () => Date
+}
+
+const defaultReviewDeps: ReviewCommandApprovalDeps = {
+  executeCommand: executeCommandWithPolicy,
+  completeExecution: completeCommandExecution,
+  now: () => new Date(),
+}
+
+export interface ReviewCommandApprovalResult {
+  approval: CommandApprovalDto
+  execution: CommandExecution
+  result: CommandExecutionResult
+  hooks: CommandHookSummary
+}
+
+/**
+ * Closes an approval whose script changed since it was requested (the command
+ * was edited, a hook now rewrites it differently, or the approval predates
+ * script hashing) so the operator's decision never runs a script they did not
+ * see. Approvals already claimed by the review are closed too, along with any
+ * allow rule the review created.
+ */
+async function expireChangedScriptApproval(
+  approval: ApprovalWithExecution,
+  deps: ReviewCommandApprovalDeps,
+  claimed: { createdPermissionId: string | null; result: CommandExecutionResult } | null = null,
+): Promise<CommandApprovalError> {
+  const updated = await prisma.commandExecutionApproval.updateMany({
+    where: {
+      id: approval.id,
+      status: claimed ? "approved" : "pending",
+    },
+    data: {
+      status: "expired",
+      ...(claimed ? { resolution: null, createdPermissionId: null } : {}),
+    },
+  })
+
+  if (claimed?.createdPermissionId) {
+    await prisma.permission.delete({ where: { id: claimed.createdPermissionId } }).catch(() => {})
+  }
+
+  if (updated.count > 0) {
+    const error = "Command script changed after approval was requested."
+    await deps.completeExecution({
+      executionId: approval.executionId,
+      command: approval.execution.command,
+      userId: approval.requestedByUserId,
+      sessionId: approval.execution.sessionId,
+      subagentId: approval.subagentId,
+      startedAt: approval.execution.startedAt,
+      result: claimed
+        ? {
+          ...claimed.result,
+          error,
+          metadata: {
+            ...claimed.result.metadata,
+            approval: {
+              id: approval.id,
+              status: "expired",
+            },
+          },
+        }
+        : expiredExecutionResult(approval, error),
+    })
+    publishApprovalUpdated({
+      ...approval,
+      status: "expired",
+    })
+  }
+
+  return new CommandApprovalError(
+    "Command script changed after approval was requested; run it again to request a new approval",
+    409,
+    "APPROVAL_SCRIPT_CHANGED",
+  )
+}
+
+export async function reviewCommandExecutionApproval(
+  args: {
+    actor: AccessActor
+    approvalId: string
+    decision: CommandApprovalReviewDecision
+    commandPattern?: string | null
+    reviewNote?: string | null
+  },
+  deps: ReviewCommandApprovalDeps = defaultReviewDeps,
+): Promise<ReviewCommandApprovalResult> {
+  const approval = await prisma.commandExecutionApproval.findUnique({
+    where: {
+      id: args.approvalId,
+    },
+    include: {
+      execution: {
+        include: {
+          command: true,
+        },
+      },
+    },
+  }) as ApprovalWithExecution | null
+
+  if (!approval || !canReviewApproval(args.actor, approval)) {
+    throw new CommandApprovalError("Command approval not found", 404)
+  }
+
+  if (approval.status !== "pending") {
+    throw new CommandApprovalError("Only pending approvals can be reviewed", 409, "APPROVAL_NOT_PENDING")
+  }
+
+  const now = deps.now()
+  if (approval.expiresAt.getTime() <= now.getTime()) {
+    await expireStaleCommandApprovals({ now })
+    throw new CommandApprovalError("Command approval has expired", 410, "APPROVAL_EXPIRED")
+  }
+
+  const command = approval.execution.command
+  if (args.decision !== "reject" && !approval.scriptHash) {
+    throw await expireChangedScriptApproval(approval, deps)
+  }
+
+  const reviewNote = args.reviewNote?.trim() || null
+  let createdPermissionId: string | null = null
+
+  if (args.decision === "always_allow_subagent") {
+    if (!approval.subagentId) {
+      throw new CommandApprovalError("always_allow_subagent requires an execution bound to a subagent", 400)
+    }
+
+    const commandPattern = args.commandPattern?.trim() || command.name
+    const permission = await prisma.permission.create({
+      data: {
+        commandPattern,
+        type: "bash_command",
+        status: "allow",
+        scope: "subagent",
+        subagentId: approval.subagentId,
+        ownerUserId: approval.ownerUserId,
+        sourceFile: `approval:${approval.id}`,
+      },
+    })
+    createdPermissionId = permission.id
+  }
+
+  const approved = args.decision !== "reject"
+  const claimed = await prisma.commandExecutionApproval.updateMany({
+    where: {
+      id: approval.id,
+      status: "pending",
+    },
+    data: {
+      status: approved ? "approved" : "rejected",
+      resolution: approved ? args.decision as CommandApprovalResolution : null,
+      createdPermissionId,
+      reviewedByUserId: args.actor.userId,
+      reviewedAt: now,
+      reviewNote,
+    },
+  })
+
+  if (claimed.count === 0) {
+    if (createdPermissionId) {
+      await prisma.permission.delete({ where: { id: createdPermissionId } }).catch(() => {})
+    }
+    throw new CommandApprovalError("Command approval was reviewed concurrently", 409, "APPROVAL_NOT_PENDING")
+  }
+
+  const reviewedApproval: CommandExecutionApproval = {
+    ...approval,
+    status: approved ? "approved" : "rejected",
+    resolution: approved ? args.decision as CommandApprovalResolution : null,
+    createdPermissionId,
+    reviewedByUserId: args.actor.userId,
+    reviewedAt: now,
+    reviewNote,
+  }
+
+  const approvalMetadata = {
+    id: approval.id,
+    status: reviewedApproval.status,
+    resolution: reviewedApproval.resolution,
+    reviewedByUserId: args.actor.userId,
+    ...(createdPermissionId ? { createdPermissionId } : {}),
+  }
+
+  let result: CommandExecutionResult
+  if (approved) {
+    const executed = await deps.executeCommand(command, {
+      subagentId: approval.subagentId,
+      approvalGranted: true,
+      approvedScriptHash: approval.scriptHash,
+      hookOwnerUserId: approval.requestedByUserId,
+      sessionId: approval.execution.sessionId,
+      toolUseId: approval.executionId,
+    })
+    if (executed.metadata.approvalScriptChanged === true) {
+      throw await expireChangedScriptApproval(approval, deps, { createdPermissionId, result: executed })
+    }
+
+    result = {
+      ...executed,
+      metadata: {
+        ...executed.metadata,
+        approval: approvalMetadata,
+      },
+    }
+  } else {
+    result = {
+      status: "blocked",
+      error: reviewNote ? `Execution rejected by operator: ${reviewNote}` : "Execution rejected by operator.",
+      durationMs: 0,
+      permission: asRecord(approval.decision) as unknown as PermissionDecision,
+      metadata: {
+        approval: approvalMetadata,
+      },
+    }
+  }
+
+  const completed = await deps.completeExecution({
+    executionId: approval.executionId,
+    command,
+    userId: approval.requestedByUserId,
+    sessionId: approval.execution.sessionId,
+    subagentId: approval.subagentId,
+    startedAt: approval.execution.startedAt,
+    result,
+  })
+
+  publishApprovalUpdated(reviewedApproval)
+
+  return {
+    approval: toCommandApprovalDto({
+      ...reviewedApproval,
+      execution: approval.execution,
+    }),
+    execution: completed.execution,
+    result,
+    hooks: completed.hooks,
+  }
+}
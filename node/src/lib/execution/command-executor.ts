@@ -1,23 +1,54 @@
-import { exec as execCallback } from "node:child_process"
+import { createHash } from "node:crypto"
 import { existsSync, lstatSync } from "node:fs"
 import { dirname, isAbsolute, resolve } from "node:path"
-import { promisify } from "node:util"
 import type { Command } from "@prisma/client"
-import { evaluateCommandPermission, type PermissionDecision } from "./permissions"
-
-const execAsync = promisify(execCallback)
+import { runPreToolUseHooks } from "@/lib/hooks/runner"
+import type { PreToolUseHookRunResult } from "@/lib/hooks/types"
+import { evaluateCommandScriptPermission, type PermissionDecision } from "./permissions"
+import { resolveCommandExecutorBackend, type CommandExecutorBackend } from "./executors"
 
 export interface CommandExecutionResult {
-  status: "completed" | "failed" | "blocked"
+  status: "completed" | "failed" | "blocked" | "awaiting_approval"
   output?: string
   error?: string
   durationMs: number
   permission: PermissionDecision
   metadata: Record<string, unknown>
+  /** Set on `awaiting_approval`: the script after hook rewrites, which the operator reviews and approves. */
+  reviewScript?: {
+    scriptContent: string
+    scriptHash: string
+  }
 }
 
 export interface CommandExecutionPolicyContext {
   subagentId?: string | null
+  /** Set when an operator approved a parked execution; satisfies a matched `ask` rule. */
+  approvalGranted?: boolean
+  /** Hash of the script the operator approved; the run is refused when hooks now produce a different one. */
+  approvedScriptHash?: string | null
+  executor?: CommandExecutorBackend
+  /** Owner whose `pre_tool_use` hooks gate the run; hooks are skipped when unset. */
+  hookOwnerUserId?: string | null
+  sessionId?: string | null
+  toolUseId?: string | null
+}
+
+export interface CommandExecutorDeps {
+  runPreToolUseHooks: typeof runPreToolUseHooks
+}
+
+const defaultCommandExecutorDeps: CommandExecutorDeps = {
+  runPreToolUseHooks: (input) => runPreToolUseHooks(input),
+}
+
+/** Binds an approval to what would run: the script and the directory it runs in. */
+export function commandScriptHash(command: Pick<Command, "path" | "scriptContent">): string {
+  return createHash("sha256")
+    .update(command.path || "")
+    .update("\u0000")
+    .update(command.scriptContent)
+    .digest("hex")
 }
 
 function resolveCommandCwd(pathHint: string | null): string {
@@ -43,14 +74,98 @@ function localExecutionEnabled(): boolean {
   return process.env.ENABLE_LOCAL_COMMAND_EXECUTION === "true"
 }
 
+function preToolUseHookMetadata(result: PreToolUseHookRunResult | null): Record<string, unknown> {
+  if (!result || result.matchedHooks === 0) {
+    return {}
+  }
+
+  return {
+    preToolUse: {
+      decision: result.decision,
+      rewritten: result.rewritten,
+      matchedHooks: result.matchedHooks,
+      failed: result.failed,
+      decidedByHookId: result.decidedByHookId,
+      ...(result.reason ? { reason: result.reason } : {}),
+    },
+  }
+}
+
+function rewrittenScriptContent(input: unknown): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return null
+  }
+
+  const scriptContent = (input as Record<string, unknown>).scriptContent
+  return typeof scriptContent === "string" && scriptContent.trim() ? scriptContent : null
+}
+
 export async function executeCommandWithPolicy(
   command: Command,
   context: CommandExecutionPolicyContext = {},
+  deps: CommandExecutorDeps = defaultCommandExecutorDeps,
 ): Promise<CommandExecutionResult> {
   const started = Date.now()
 
-  const candidates = [command.name, command.path || "", command.scriptContent.split("\n")[0] || ""]
-  const permission = await evaluateCommandPermission(candidates, { subagentId: context.subagentId })
+  let effectiveCommand = command
+  let preToolUse: PreToolUseHookRunResult | null = null
+  if (context.hookOwnerUserId && localExecutionEnabled()) {
+    preToolUse = await deps.runPreToolUseHooks({
+      ownerUserId: context.hookOwnerUserId,
+      toolName: command.name,
+      sessionId: context.sessionId,
+      toolUseId: context.toolUseId,
+      input: {
+        commandId: command.id,
+        subagentId: context.subagentId || null,
+        path: command.path,
+        scriptContent: command.scriptContent,
+      },
+      metadata: {
+        approvalGranted: context.approvalGranted === true,
+      },
+    })
+
+    if (preToolUse.decision === "deny") {
+      const reason = preToolUse.reason || "Denied by pre_tool_use hook."
+      return {
+        status: "blocked",
+        durationMs: Date.now() - started,
+        error: reason,
+        permission: {
+          allowed: false,
+          status: "deny",
+          matchedSource: "pre-tool-use-hook",
+          matchedScope: "none",
+          matchedSubagentId: context.subagentId || null,
+          reason,
+        },
+        metadata: {
+          localExecutionEnabled: true,
+          ...preToolUseHookMetadata(preToolUse),
+        },
+      }
+    }
+
+    const scriptContent = preToolUse.rewritten ? rewrittenScriptContent(preToolUse.input) : null
+    if (scriptContent) {
+      effectiveCommand = {
+        ...command,
+        scriptContent,
+      }
+    }
+  }
+  const hookMetadata = preToolUseHookMetadata(preToolUse)
+  const scriptHash = commandScriptHash(effectiveCommand)
+
+  const permission = await evaluateCommandScriptPermission(
+    {
+      name: effectiveCommand.name,
+      path: effectiveCommand.path,
+      scriptContent: effectiveCommand.scriptContent,
+    },
+    { subagentId: context.subagentId },
+  )
 
   if (!localExecutionEnabled()) {
     return {
@@ -64,56 +179,89 @@ export async function executeCommandWithPolicy(
     }
   }
 
-  if (!permission.allowed) {
+  if (context.approvalGranted && context.approvedScriptHash !== scriptHash) {
+    const reason = "Command script changed after approval was requested."
     return {
       status: "blocked",
       durationMs: Date.now() - started,
-      error: permission.reason,
+      error: reason,
       permission,
       metadata: {
         localExecutionEnabled: true,
+        approvalScriptChanged: true,
+        ...hookMetadata,
       },
     }
   }
 
-  const timeoutMs = Number.parseInt(process.env.LOCAL_COMMAND_TIMEOUT_MS || "120000", 10)
-  const cwd = resolveCommandCwd(command.path)
-
-  try {
-    const { stdout, stderr } = await execAsync(command.scriptContent, {
-      cwd,
-      shell: process.env.COMMAND_EXECUTION_SHELL || "/bin/bash",
-      timeout: Number.isFinite(timeoutMs) ? timeoutMs : 120000,
-      maxBuffer: 2 * 1024 * 1024,
-      env: process.env,
-    })
-
-    const output = [stdout, stderr].filter(Boolean).join("\n").trim()
+  if (permission.status === "ask" && !context.approvalGranted) {
+    return {
+      status: "awaiting_approval",
+      durationMs: Date.now() - started,
+      permission,
+      metadata: {
+        localExecutionEnabled: true,
+        ...hookMetadata,
+      },
+      reviewScript: {
+        scriptContent: effectiveCommand.scriptContent,
+        scriptHash,
+      },
+    }
+  }
 
+  const approvedByOperator = permission.status === "ask" && context.approvalGranted === true
+  if (!permission.allowed && !approvedByOperator) {
     return {
-      status: "completed",
-      output,
+      status: "blocked",
       durationMs: Date.now() - started,
+      error: permission.reason,
       permission,
       metadata: {
-        cwd,
-        timeoutMs,
+        localExecutionEnabled: true,
+        ...hookMetadata,
       },
     }
-  } catch (error) {
-    const commandError = error as { stdout?: string; stderr?: string; message?: string }
-    const output = [commandError.stdout, commandError.stderr].filter(Boolean).join("\n").trim()
+  }
+
+  const parsedTimeoutMs = Number.parseInt(process.env.LOCAL_COMMAND_TIMEOUT_MS || "120000", 10)
+  const timeoutMs = Number.isFinite(parsedTimeoutMs) && parsedTimeoutMs > 0 ? parsedTimeoutMs : 120000
+  const cwd = resolveCommandCwd(effectiveCommand.path)
+  const executor = context.executor || resolveCommandExecutorBackend()
+
+  const execution = await executor.run({
+    script: effectiveCommand.scriptContent,
+    cwd,
+    shell: process.env.COMMAND_EXECUTION_SHELL || "/bin/bash",
+    timeoutMs,
+    maxBufferBytes: 2 * 1024 * 1024,
+  })
 
+  const output = [execution.stdout, execution.stderr].filter(Boolean).join("\n").trim()
+  const metadata = {
+    cwd,
+    timeoutMs,
+    executor: execution.metadata,
+    ...(approvedByOperator ? { approvedByOperator: true } : {}),
+    ...hookMetadata,
+  }
+
+  if (execution.error) {
     return {
       status: "failed",
       output,
-      error: commandError.message || "Command execution failed.",
+      error: execution.error,
       durationMs: Date.now() - started,
       permission,
-      metadata: {
-        cwd,
-        timeoutMs,
-      },
+      metadata,
     }
   }
+
+  return {
+    status: "completed",
+    output,
+    durationMs: Date.now() - started,
+    permission,
+    metadata,
+  }
 }
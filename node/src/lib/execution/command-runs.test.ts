@@ -1,6 +1,6 @@
 import assert from "node:assert/strict"
 import test from "node:test"
-import { runCommandPostToolUseHooks } from "./route"
+import { runCommandPostToolUseHooks } from "./command-runs"
 
 test("runCommandPostToolUseHooks maps hook runner summary", async () => {
   const summary = await runCommandPostToolUseHooks(
@@ -0,0 +1,165 @@
+import type { Command, CommandExecution, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { publishRealtimeEvent } from "@/lib/realtime/events"
+import { recordCommandExecutionSignal } from "@/lib/agentsync/signals"
+import { runPostToolUseHooks } from "@/lib/hooks/runner"
+import type { PostToolUseStatus } from "@/lib/hooks/types"
+import type { CommandExecutionResult } from "./command-executor"
+
+export interface CommandPostToolUseHookInput {
+  ownerUserId: string
+  toolName: string
+  status: PostToolUseStatus
+  sessionId: string | null
+  toolUseId: string
+  durationMs: number
+  output: string | null
+  error: string | null
+  commandPath: string | null
+  blocked: boolean
+  commandId: string
+  subagentId: string | null
+}
+
+export interface CommandPostToolUseHookDeps {
+  runHooks: typeof runPostToolUseHooks
+}
+
+export interface CommandHookSummary {
+  matchedHooks: number
+  delivered: number
+  failed: number
+}
+
+const defaultCommandPostToolUseHookDeps: CommandPostToolUseHookDeps = {
+  runHooks: (input) => runPostToolUseHooks(input),
+}
+
+export async function runCommandPostToolUseHooks(
+  input: CommandPostToolUseHookInput,
+  deps: CommandPostToolUseHookDeps = defaultCommandPostToolUseHookDeps,
+): Promise<CommandHookSummary> {
+  try {
+    const hookResult = await deps.runHooks({
+      ownerUserId: input.ownerUserId,
+      toolName: input.toolName,
+      status: input.status,
+      sessionId: input.sessionId,
+      toolUseId: input.toolUseId,
+      durationMs: input.durationMs,
+      input: {
+        commandId: input.commandId,
+        subagentId: input.subagentId,
+      },
+      output: input.output,
+      error: input.error,
+      metadata: {
+        commandPath: input.commandPath,
+        blocked: input.blocked,
+      },
+    })
+
+    return {
+      matchedHooks: hookResult.matchedHooks,
+      delivered: hookResult.delivered,
+      failed: hookResult.failed,
+    }
+  } catch (hookError) {
+    console.error("PostToolUse hook execution failed (fail-open):", hookError)
+    return {
+      matchedHooks: 0,
+      delivered: 0,
+      failed: 0,
+    }
+  }
+}
+
+function toJsonMetadata(value: Record<string, unknown>): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
+
+/**
+ * Persists the terminal state of a command execution and fans out the same
+ * side effects for direct runs and for runs resumed from an approval.
+ */
+export async function completeCommandExecution(args: {
+  executionId: string
+  command: Pick<Command, "id" | "name" | "path">
+  userId: string
+  sessionId: string | null
+  subagentId: string | null
+  startedAt: Date
+  result: CommandExecutionResult
+}): Promise<{ execution: CommandExecution; hooks: CommandHookSummary }> {
+  const { result } = args
+  const terminalStatus = result.status === "awaiting_approval" ? "blocked" : result.status
+  const completedAt = new Date()
+  const duration = Math.max(result.durationMs, completedAt.getTime() - args.startedAt.getTime())
+
+  const execution = await prisma.commandExecution.update({
+    where: { id: args.executionId },
+    data: {
+      status: terminalStatus === "completed" ? "completed" : "failed",
+      output: result.output || null,
+      error:
+        result.error ||
+        (terminalStatus === "blocked"
+          ? "Execution blocked by policy"
+          : null),
+      completedAt,
+      duration,
+      metadata: toJsonMetadata({
+        ...result.metadata,
+        permission: result.permission,
+      }),
+    },
+  })
+
+  const hooks = await runCommandPostToolUseHooks({
+    ownerUserId: args.userId,
+    toolName: args.command.name,
+    status: terminalStatus,
+    sessionId: args.sessionId,
+    toolUseId: execution.id,
+    durationMs: result.durationMs,
+    output: result.output || null,
+    error: result.error || null,
+    commandPath: args.command.path || null,
+    blocked: terminalStatus === "blocked",
+    commandId: args.command.id,
+    subagentId: args.subagentId,
+  })
+
+  publishRealtimeEvent({
+    type: "command.executed",
+    userId: args.userId,
+    payload: {
+      executionId: execution.id,
+      commandId: args.command.id,
+      sessionId: args.sessionId,
+      subagentId: args.subagentId,
+      status: execution.status,
+    },
+  })
+
+  if (args.subagentId) {
+    void recordCommandExecutionSignal({
+      userId: args.userId,
+      subagentId: args.subagentId,
+      sourceId: execution.id,
+      status: terminalStatus,
+      durationMs: result.durationMs,
+      metadata: {
+        commandId: args.command.id,
+        permission: result.permission,
+      },
+    }).catch((signalError) => {
+      console.error("AgentSync command signal record failed:", signalError)
+    })
+  }
+
+  return {
+    execution,
+    hooks,
+  }
+}
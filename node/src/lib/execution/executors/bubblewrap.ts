@@ -0,0 +1,114 @@
+import { execFile as execFileCallback } from "node:child_process"
+import { promisify } from "node:util"
+import { buildScrubbedCommandEnv } from "./env"
+import { commandSandboxLimits, commandSandboxShell, type CommandSandboxLimits } from "./limits"
+import type { CommandExecutorBackend, CommandExecutorInput, CommandExecutorOutput } from "./types"
+
+const execFileAsync = promisify(execFileCallback)
+
+const WORKSPACE_MOUNT = "/workspace"
+const SANDBOX_PATH = "/usr/local/bin:/usr/bin:/bin"
+const READ_ONLY_SYSTEM_PATHS = [
+  "/usr",
+  "/bin",
+  "/sbin",
+  "/lib",
+  "/lib32",
+  "/lib64",
+  "/etc/alternatives",
+  "/etc/ssl",
+]
+
+function bubblewrapPath(): string {
+  const raw = process.env.COMMAND_SANDBOX_BWRAP_PATH
+  return raw && raw.trim() ? raw.trim() : "bwrap"
+}
+
+export function buildBubblewrapArgs(args: {
+  cwd: string
+  shell: string
+  script: string
+  env: Record<string, string>
+  limits: CommandSandboxLimits
+  timeoutMs: number
+}): string[] {
+  const env: Record<string, string> = {
+    PATH: SANDBOX_PATH,
+    HOME: "/tmp",
+    ...args.env,
+  }
+
+  return [
+    "--die-with-parent",
+    "--new-session",
+    "--unshare-all",
+    ...(args.limits.network === "bridge" ? ["--share-net", "--ro-bind-try", "/etc/resolv.conf", "/etc/resolv.conf"] : []),
+    ...READ_ONLY_SYSTEM_PATHS.flatMap((path) => ["--ro-bind-try", path, path]),
+    "--proc",
+    "/proc",
+    "--dev",
+    "/dev",
+    "--tmpfs",
+    "/tmp",
+    "--ro-bind",
+    args.cwd,
+    WORKSPACE_MOUNT,
+    "--chdir",
+    WORKSPACE_MOUNT,
+    "--clearenv",
+    ...Object.entries(env).flatMap(([key, value]) => ["--setenv", key, value]),
+    "--",
+    "prlimit",
+    `--as=${args.limits.memoryMb * 1024 * 1024}`,
+    `--cpu=${Math.max(1, Math.ceil((args.timeoutMs / 1000) * args.limits.cpus))}`,
+    `--nproc=${args.limits.pidsLimit}`,
+    args.shell,
+    "-c",
+    args.script,
+  ]
+}
+
+async function runInBubblewrap(input: CommandExecutorInput): Promise<CommandExecutorOutput> {
+  const executable = bubblewrapPath()
+  const limits = commandSandboxLimits()
+  const metadata = {
+    backend: "bubblewrap",
+    isolated: true,
+    executable,
+    workspaceMount: `${input.cwd}:${WORKSPACE_MOUNT}:ro`,
+    ...limits,
+  }
+
+  try {
+    const { stdout, stderr } = await execFileAsync(executable, buildBubblewrapArgs({
+      cwd: input.cwd,
+      shell: commandSandboxShell(),
+      script: input.script,
+      env: buildScrubbedCommandEnv(),
+      limits,
+      timeoutMs: input.timeoutMs,
+    }), {
+      timeout: input.timeoutMs,
+      maxBuffer: input.maxBufferBytes,
+      env: {} as NodeJS.ProcessEnv,
+    })
+
+    return { stdout, stderr, metadata }
+  } catch (error) {
+    const commandError = error as { stdout?: string; stderr?: string; message?: string; killed?: boolean }
+    return {
+      stdout: commandError.stdout || "",
+      stderr: commandError.stderr || "",
+      error: commandError.killed
+        ? `Sandboxed command timed out after ${input.timeoutMs}ms.`
+        : commandError.message || "Sandboxed command execution failed.",
+      metadata,
+    }
+  }
+}
+
+export const bubblewrapCommandExecutor: CommandExecutorBackend = {
+  id: "bubblewrap",
+  isolated: true,
+  run: runInBubblewrap,
+}
@@ -0,0 +1,128 @@
+import { execFile as execFileCallback } from "node:child_process"
+import crypto from "node:crypto"
+import { promisify } from "node:util"
+import { buildScrubbedCommandEnv } from "./env"
+import { commandSandboxLimits, commandSandboxShell, type CommandSandboxLimits } from "./limits"
+import type { CommandExecutorBackend, CommandExecutorInput, CommandExecutorOutput } from "./types"
+
+const execFileAsync = promisify(execFileCallback)
+
+const WORKSPACE_MOUNT = "/workspace"
+
+function containerRuntime(): string {
+  const raw = process.env.COMMAND_SANDBOX_CONTAINER_RUNTIME
+  return raw && raw.trim() ? raw.trim() : "podman"
+}
+
+function containerImage(): string {
+  const raw = process.env.COMMAND_SANDBOX_IMAGE
+  return raw && raw.trim() ? raw.trim() : "docker.io/library/alpine:3.20"
+}
+
+export function buildContainerRunArgs(args: {
+  name: string
+  image: string
+  cwd: string
+  shell: string
+  script: string
+  env: Record<string, string>
+  limits: CommandSandboxLimits
+}): string[] {
+  const envArgs = Object.entries(args.env).flatMap(([key, value]) => ["-e", `${key}=${value}`])
+
+  return [
+    "run",
+    "--rm",
+    "--name",
+    args.name,
+    "--network",
+    args.limits.network,
+    "--read-only",
+    "--tmpfs",
+    "/tmp:rw,size=64m",
+    "--cap-drop",
+    "ALL",
+    "--security-opt",
+    "no-new-privileges",
+    "--user",
+    "65534:65534",
+    "--cpus",
+    String(args.limits.cpus),
+    "--memory",
+    `${args.limits.memoryMb}m`,
+    "--pids-limit",
+    String(args.limits.pidsLimit),
+    "-v",
+    `${args.cwd}:${WORKSPACE_MOUNT}:ro`,
+    "-w",
+    WORKSPACE_MOUNT,
+    ...envArgs,
+    args.image,
+    args.shell,
+    "-c",
+    args.script,
+  ]
+}
+
+async function runInContainer(input: CommandExecutorInput): Promise<CommandExecutorOutput> {
+  const runtime = containerRuntime()
+  const image = containerImage()
+  const limits = commandSandboxLimits()
+  const name = `orchwiz-cmd-${crypto.randomUUID()}`
+  const metadata = {
+    backend: "container",
+    isolated: true,
+    runtime,
+    image,
+    containerName: name,
+    workspaceMount: `${input.cwd}:${WORKSPACE_MOUNT}:ro`,
+    ...limits,
+  }
+
+  const runArgs = buildContainerRunArgs({
+    name,
+    image,
+    cwd: input.cwd,
+    shell: commandSandboxShell(),
+    script: input.script,
+    env: buildScrubbedCommandEnv(),
+    limits,
+  })
+
+  try {
+    const { stdout, stderr } = await execFileAsync(runtime, runArgs, {
+      timeout: input.timeoutMs,
+      maxBuffer: input.maxBufferBytes,
+      env: buildScrubbedCommandEnv(process.env, [
+        "PATH",
+        "HOME",
+        "XDG_RUNTIME_DIR",
+        "DOCKER_HOST",
+        "CONTAINER_HOST",
+      ]) as NodeJS.ProcessEnv,
+    })
+
+    return { stdout, stderr, metadata }
+  } catch (error) {
+    const commandError = error as { stdout?: string; stderr?: string; message?: string; killed?: boolean }
+    if (commandError.killed) {
+      // Killing the CLI client does not stop the container itself.
+      await execFileAsync(runtime, ["rm", "-f", name], { timeout: 10_000 }).catch(() => {})
+    }
+
+    return {
+      stdout: commandError.stdout || "",
+      stderr: commandError.stderr || "",
+      error: commandError.killed
+        ? `Sandboxed command timed out after ${input.timeoutMs}ms.`
+        : commandError.message || "Sandboxed command execution failed.",
+      metadata,
+    }
+  }
+}
+
+export const containerCommandExecutor: CommandExecutorBackend = {
+  id: "container",
+  isolated: true,
+  run: runInContainer,
+}
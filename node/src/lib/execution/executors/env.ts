@@ -0,0 +1,36 @@
+const DEFAULT_SANDBOX_ENV_ALLOWLIST = ["LANG", "LC_ALL", "TERM", "TZ"]
+
+export function commandSandboxEnvAllowlist(): string[] {
+  const raw = process.env.COMMAND_SANDBOX_ENV_ALLOWLIST
+  if (!raw || !raw.trim()) {
+    return [...DEFAULT_SANDBOX_ENV_ALLOWLIST]
+  }
+
+  return Array.from(
+    new Set(
+      raw
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => /^[A-Za-z_][A-Za-z0-9_]*$/u.test(entry)),
+    ),
+  )
+}
+
+/**
+ * Copies only allowlisted keys from the source env. Sandboxed commands never
+ * inherit secrets such as DATABASE_URL or provider API keys by default.
+ */
+export function buildScrubbedCommandEnv(
+  source: Record<string, string | undefined> = process.env,
+  allowlist: string[] = commandSandboxEnvAllowlist(),
+): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const key of allowlist) {
+    const value = source[key]
+    if (typeof value === "string") {
+      env[key] = value
+    }
+  }
+
+  return env
+}
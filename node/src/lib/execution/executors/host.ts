@@ -0,0 +1,38 @@
+import { exec as execCallback } from "node:child_process"
+import { promisify } from "node:util"
+import type { CommandExecutorBackend, CommandExecutorInput, CommandExecutorOutput } from "./types"
+
+const execAsync = promisify(execCallback)
+
+async function runOnHost(input: CommandExecutorInput): Promise<CommandExecutorOutput> {
+  const metadata = {
+    backend: "host",
+    isolated: false,
+  }
+
+  try {
+    const { stdout, stderr } = await execAsync(input.script, {
+      cwd: input.cwd,
+      shell: input.shell,
+      timeout: input.timeoutMs,
+      maxBuffer: input.maxBufferBytes,
+      env: process.env,
+    })
+
+    return { stdout, stderr, metadata }
+  } catch (error) {
+    const commandError = error as { stdout?: string; stderr?: string; message?: string }
+    return {
+      stdout: commandError.stdout || "",
+      stderr: commandError.stderr || "",
+      error: commandError.message || "Command execution failed.",
+      metadata,
+    }
+  }
+}
+
+export const hostCommandExecutor: CommandExecutorBackend = {
+  id: "host",
+  isolated: false,
+  run: runOnHost,
+}
@@ -0,0 +1,75 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { resolveCommandExecutorBackendId } from "./index"
+import { buildScrubbedCommandEnv } from "./env"
+import { buildContainerRunArgs } from "./container"
+import { buildBubblewrapArgs } from "./bubblewrap"
+
+const limits = {
+  cpus: 0.5,
+  memoryMb: 256,
+  pidsLimit: 64,
+  network: "none" as const,
+}
+
+test("resolveCommandExecutorBackendId defaults to host for unknown values", () => {
+  assert.equal(resolveCommandExecutorBackendId(undefined), "host")
+  assert.equal(resolveCommandExecutorBackendId("Container"), "container")
+  assert.equal(resolveCommandExecutorBackendId("bubblewrap"), "bubblewrap")
+  assert.equal(resolveCommandExecutorBackendId("toString"), "host")
+})
+
+test("buildScrubbedCommandEnv keeps only allowlisted keys", () => {
+  const env = buildScrubbedCommandEnv(
+    {
+      LANG: "C.UTF-8",
+      DATABASE_URL: "postgres://secret",
+      OPENAI_API_KEY: "sk-secret",
+      TZ: "UTC",
+    },
+    ["LANG", "TZ", "MISSING"],
+  )
+
+  assert.deepEqual(env, { LANG: "C.UTF-8", TZ: "UTC" })
+})
+
+test("buildContainerRunArgs disables network and mounts the workspace read-only", () => {
+  const args = buildContainerRunArgs({
+    name: "orchwiz-cmd-1",
+    image: "alpine:3.20",
+    cwd: "/repo",
+    shell: "/bin/sh",
+    script: "ls -la",
+    env: { LANG: "C.UTF-8" },
+    limits,
+  })
+
+  const networkIndex = args.indexOf("--network")
+  assert.equal(args[networkIndex + 1], "none")
+  assert.ok(args.includes("--read-only"))
+  assert.ok(args.includes("/repo:/workspace:ro"))
+  assert.equal(args[args.indexOf("--memory") + 1], "256m")
+  assert.equal(args[args.indexOf("--cpus") + 1], "0.5")
+  assert.equal(args[args.indexOf("--pids-limit") + 1], "64")
+  assert.deepEqual(args.slice(-4), ["alpine:3.20", "/bin/sh", "-c", "ls -la"])
+})
+
+test("buildBubblewrapArgs unshares namespaces and clears the environment", () => {
+  const args = buildBubblewrapArgs({
+    cwd: "/repo",
+    shell: "/bin/sh",
+    script: "cat README.md",
+    env: { LANG: "C.UTF-8" },
+    limits,
+    timeoutMs: 10_000,
+  })
+
+  assert.ok(args.includes("--unshare-all"))
+  assert.ok(!args.includes("--share-net"))
+  assert.ok(args.includes("--clearenv"))
+  const roBindIndex = args.indexOf("--ro-bind")
+  assert.deepEqual(args.slice(roBindIndex, roBindIndex + 3), ["--ro-bind", "/repo", "/workspace"])
+  assert.ok(args.includes(`--as=${256 * 1024 * 1024}`))
+  assert.ok(args.includes("--cpu=5"))
+  assert.deepEqual(args.slice(-3), ["/bin/sh", "-c", "cat README.md"])
+})
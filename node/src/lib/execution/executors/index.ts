@@ -0,0 +1,29 @@
+import { bubblewrapCommandExecutor } from "./bubblewrap"
+import { containerCommandExecutor } from "./container"
+import { hostCommandExecutor } from "./host"
+import type { CommandExecutorBackend, CommandExecutorBackendId } from "./types"
+
+export type { CommandExecutorBackend, CommandExecutorBackendId } from "./types"
+
+const EXECUTORS_BY_ID: Record<CommandExecutorBackendId, CommandExecutorBackend> = {
+  host: hostCommandExecutor,
+  container: containerCommandExecutor,
+  bubblewrap: bubblewrapCommandExecutor,
+}
+
+export function resolveCommandExecutorBackendId(raw = process.env.COMMAND_EXECUTION_BACKEND): CommandExecutorBackendId {
+  const normalized = (raw || "").trim().toLowerCase()
+  if (Object.prototype.hasOwnProperty.call(EXECUTORS_BY_ID, normalized)) {
+    return normalized as CommandExecutorBackendId
+  }
+
+  if (normalized) {
+    console.warn("Unknown COMMAND_EXECUTION_BACKEND, falling back to host", { backend: normalized })
+  }
+
+  return "host"
+}
+
+export function resolveCommandExecutorBackend(): CommandExecutorBackend {
+  return EXECUTORS_BY_ID[resolveCommandExecutorBackendId()]
+}
@@ -0,0 +1,31 @@
+export type CommandSandboxNetwork = "none" | "bridge"
+
+export interface CommandSandboxLimits {
+  cpus: number
+  memoryMb: number
+  pidsLimit: number
+  network: CommandSandboxNetwork
+}
+
+function positiveNumber(raw: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(raw || "")
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback
+  }
+
+  return parsed
+}
+
+export function commandSandboxLimits(): CommandSandboxLimits {
+  return {
+    cpus: positiveNumber(process.env.COMMAND_SANDBOX_CPUS, 1),
+    memoryMb: Math.round(positiveNumber(process.env.COMMAND_SANDBOX_MEMORY_MB, 512)),
+    pidsLimit: Math.round(positiveNumber(process.env.COMMAND_SANDBOX_PIDS_LIMIT, 128)),
+    network: process.env.COMMAND_SANDBOX_NETWORK === "bridge" ? "bridge" : "none",
+  }
+}
+
+export function commandSandboxShell(): string {
+  const raw = process.env.COMMAND_SANDBOX_SHELL
+  return raw && raw.trim() ? raw.trim() : "/bin/sh"
+}
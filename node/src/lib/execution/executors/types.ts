@@ -0,0 +1,23 @@
+export type CommandExecutorBackendId = "host" | "container" | "bubblewrap"
+
+export interface CommandExecutorInput {
+  script: string
+  cwd: string
+  shell: string
+  timeoutMs: number
+  maxBufferBytes: number
+}
+
+export interface CommandExecutorOutput {
+  stdout: string
+  stderr: string
+  /** Set when the process failed to start, exited non-zero, or was killed. */
+  error?: string
+  metadata: Record<string, unknown>
+}
+
+export interface CommandExecutorBackend {
+  id: CommandExecutorBackendId
+  isolated: boolean
+  run: (input: CommandExecutorInput) => Promise<CommandExecutorOutput>
+}
@@ -1,6 +1,11 @@
 import test from "node:test"
 import assert from "node:assert/strict"
-import { evaluateCommandPermissionFromRules, matchesCommandPattern } from "./permissions"
+import {
+  evaluateCommandPermissionFromRules,
+  evaluateCommandScriptPermissionFromRules,
+  matchesCommandPattern,
+  type PermissionRuleLike,
+} from "./permissions"
 
 test("matches wildcard command patterns", () => {
   assert.equal(matchesCommandPattern("bun run build:*", "bun run build:web"), true)
@@ -181,3 +186,126 @@ test("evaluateCommandPermissionFromRules preserves ask/deny semantics", () => {
   assert.equal(denyDecision.status, "deny")
   assert.equal(denyDecision.matchedSource, "fallback-rule")
 })
+
+const scriptRules: PermissionRuleLike[] = [
+  {
+    commandPattern: "rm -rf *",
+    status: "deny",
+    scope: "global",
+    subagentId: null,
+  },
+  {
+    commandPattern: "terraform *",
+    status: "ask",
+    scope: "global",
+    subagentId: null,
+  },
+  {
+    commandPattern: "ls*",
+    status: "allow",
+    scope: "global",
+    subagentId: null,
+  },
+  {
+    commandPattern: "npm *",
+    status: "allow",
+    scope: "global",
+    subagentId: null,
+  },
+]
+
+test("evaluateCommandScriptPermissionFromRules denies chained and nested fragments", () => {
+  const scripts = [
+    "ls; rm -rf /",
+    "ls -la\nnpm test\nrm -rf /",
+    "ls | sudo rm -rf /",
+    "echo $(rm -rf /)",
+    "env FORCE=1 bash -c 'rm -rf /'",
+  ]
+
+  for (const scriptContent of scripts) {
+    const decision = evaluateCommandScriptPermissionFromRules(
+      { name: "list-files", scriptContent },
+      scriptRules,
+    )
+
+    assert.equal(decision.status, "deny", scriptContent)
+    assert.equal(decision.allowed, false)
+    assert.equal(decision.matchedPattern, "rm -rf *")
+    assert.match(decision.matchedFragment || "", /rm -rf \//)
+  }
+})
+
+test("evaluateCommandScriptPermissionFromRules keeps the most restrictive decision", () => {
+  const ask = evaluateCommandScriptPermissionFromRules(
+    { name: "plan", scriptContent: "npm ci && terraform apply" },
+    scriptRules,
+  )
+  assert.equal(ask.status, "ask")
+  assert.equal(ask.matchedFragment, "terraform apply")
+  assert.equal(ask.evaluatedFragments, 2)
+
+  const unmatched = evaluateCommandScriptPermissionFromRules(
+    { name: "mixed", scriptContent: "terraform plan\ncurl https://example.com" },
+    scriptRules,
+  )
+  assert.equal(unmatched.status, "none")
+  assert.equal(unmatched.matchedFragment, "curl https://example.com")
+
+  const allowed = evaluateCommandScriptPermissionFromRules(
+    { name: "build", scriptContent: "npm ci\nnpm run build | ls" },
+    scriptRules,
+  )
+  assert.equal(allowed.allowed, true)
+  assert.equal(allowed.status, "allow")
+})
+
+test("evaluateCommandScriptPermissionFromRules lets unmatched fragments inherit the name decision", () => {
+  const rules: PermissionRuleLike[] = [
+    ...scriptRules,
+    {
+      commandPattern: "deploy-*",
+      status: "allow",
+      scope: "global",
+      subagentId: null,
+    },
+  ]
+
+  const allowed = evaluateCommandScriptPermissionFromRules(
+    { name: "deploy-preview", scriptContent: "cd app && ./scripts/deploy.sh preview" },
+    rules,
+  )
+  assert.equal(allowed.allowed, true)
+  assert.equal(allowed.matchedPattern, "deploy-*")
+
+  const denied = evaluateCommandScriptPermissionFromRules(
+    { name: "deploy-preview", scriptContent: "./scripts/deploy.sh && rm -rf dist" },
+    rules,
+  )
+  assert.equal(denied.status, "deny")
+  assert.equal(denied.matchedFragment, "rm -rf dist")
+})
+
+test("evaluateCommandScriptPermissionFromRules denies scripts past the parser limits", () => {
+  const rules: PermissionRuleLike[] = [
+    { commandPattern: "rm *", status: "deny", scope: "global", subagentId: null },
+    { commandPattern: "true", status: "allow", scope: "global", subagentId: null },
+    { commandPattern: "*", status: "ask", scope: "global", subagentId: null },
+  ]
+
+  const longScript = evaluateCommandScriptPermissionFromRules(
+    { name: "padded", scriptContent: `${"true;".repeat(300)}rm -rf /` },
+    rules,
+  )
+  assert.equal(longScript.status, "deny")
+  assert.equal(longScript.allowed, false)
+  assert.match(longScript.reason, /fragment limit/)
+
+  let nested = "rm -rf /"
+  for (let depth = 0; depth < 10; depth += 1) {
+    nested = `echo $(${nested})`
+  }
+  const deepScript = evaluateCommandScriptPermissionFromRules({ name: "nested", scriptContent: nested }, rules)
+  assert.equal(deepScript.status, "deny")
+  assert.equal(deepScript.allowed, false)
+})
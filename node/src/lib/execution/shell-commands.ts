@@ -0,0 +1,455 @@
+export type ShellCommandFragmentSource =
+  | "script"
+  | "subshell"
+  | "command-substitution"
+  | "process-substitution"
+  | "nested-shell"
+
+export interface ShellCommandFragment {
+  /** Fragment as written in the script, trimmed. */
+  text: string
+  /** Fragment with wrappers (`sudo`, `env`, assignments, ...) and quoting removed. */
+  command: string
+  source: ShellCommandFragmentSource
+  line: number
+}
+
+export interface ShellCommandAnalysis {
+  fragments: ShellCommandFragment[]
+  /** Set when the nesting or fragment limit cut the parse short; the fragment list is incomplete. */
+  truncated: boolean
+}
+
+interface ShellSegment {
+  text: string
+  line: number
+}
+
+interface NestedScript {
+  script: string
+  source: ShellCommandFragmentSource
+  line: number
+}
+
+const MAX_NESTING_DEPTH = 8
+const MAX_FRAGMENTS = 256
+
+const LEADING_KEYWORDS = new Set(["if", "then", "else", "elif", "do", "while", "until", "!", "{"])
+const STANDALONE_KEYWORDS = new Set(["fi", "done", "esac", "}", "then", "do", "else"])
+const NESTED_SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "ash"])
+
+const SUDO_OPTIONS_WITH_VALUE = new Set(["-u", "-g", "-p", "-C", "-D", "-R", "-T", "-U", "-h", "-r", "-t"])
+const ENV_OPTIONS_WITH_VALUE = new Set(["-u", "-C", "-S", "--unset", "--chdir", "--split-string"])
+
+function isAssignment(word: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)
+}
+
+function basename(word: string): string {
+  const index = word.lastIndexOf("/")
+  return index >= 0 ? word.slice(index + 1) : word
+}
+
+/**
+ * Returns the index just past the `)` that closes a group opened right before
+ * `start`, honoring quotes and escapes. Unbalanced input consumes the rest.
+ */
+function findClosingParen(script: string, start: number): number {
+  let depth = 1
+  let quote: "'" | "\"" | null = null
+
+  for (let index = start; index < script.length; index += 1) {
+    const char = script[index]
+
+    if (quote === "'") {
+      if (char === "'") quote = null
+      continue
+    }
+
+    if (char === "\\") {
+      index += 1
+      continue
+    }
+
+    if (quote === "\"") {
+      if (char === "\"") quote = null
+      continue
+    }
+
+    if (char === "'" || char === "\"") {
+      quote = char
+    } else if (char === "(") {
+      depth += 1
+    } else if (char === ")") {
+      depth -= 1
+      if (depth === 0) {
+        return index + 1
+      }
+    }
+  }
+
+  return script.length
+}
+
+function findClosingBacktick(script: string, start: number): number {
+  for (let index = start; index < script.length; index += 1) {
+    if (script[index] === "\\") {
+      index += 1
+      continue
+    }
+    if (script[index] === "`") {
+      return index + 1
+    }
+  }
+
+  return script.length
+}
+
+function stripClosing(script: string, start: number, end: number, closing: string): string {
+  const inner = script.slice(start, end)
+  return inner.endsWith(closing) ? inner.slice(0, -closing.length) : inner
+}
+
+/**
+ * Splits a script into top-level simple commands on `;`, `&&`, `||`, `|`, `&`
+ * and newlines, collecting subshells and substitutions for separate parsing.
+ */
+function scanShellScript(script: string): { segments: ShellSegment[]; nested: NestedScript[] } {
+  const segments: ShellSegment[] = []
+  const nested: NestedScript[] = []
+  let buffer = ""
+  let bufferLine = 1
+  let line = 1
+  let quote: "'" | "\"" | null = null
+
+  const flush = () => {
+    const text = buffer.trim()
+    if (text) {
+      segments.push({ text, line: bufferLine })
+    }
+    buffer = ""
+    bufferLine = line
+  }
+
+  for (let index = 0; index < script.length; index += 1) {
+    const char = script[index]
+    const next = script[index + 1]
+
+    if (char === "\n") {
+      line += 1
+    }
+
+    if (quote === "'") {
+      buffer += char
+      if (char === "'") quote = null
+      continue
+    }
+
+    if (char === "\\") {
+      if (next === "\n") {
+        buffer += " "
+        line += 1
+      } else if (next !== undefined) {
+        buffer += char + next
+      }
+      index += 1
+      continue
+    }
+
+    if (char === "$" && next === "(") {
+      const arithmetic = script[index + 2] === "("
+      const end = findClosingParen(script, index + 2)
+      const inner = stripClosing(script, index + 2, end, ")")
+      if (!arithmetic) {
+        nested.push({ script: inner, source: "command-substitution", line })
+      }
+      buffer += script.slice(index, end)
+      line += (inner.match(/\n/g) || []).length
+      index = end - 1
+      continue
+    }
+
+    if (char === "`") {
+      const end = findClosingBacktick(script, index + 1)
+      const inner = stripClosing(script, index + 1, end, "`")
+      nested.push({ script: inner, source: "command-substitution", line })
+      buffer += script.slice(index, end)
+      line += (inner.match(/\n/g) || []).length
+      index = end - 1
+      continue
+    }
+
+    if (quote === "\"") {
+      buffer += char
+      if (char === "\"") quote = null
+      continue
+    }
+
+    if (char === "'" || char === "\"") {
+      quote = char
+      buffer += char
+      continue
+    }
+
+    if (char === "#" && (buffer.length === 0 || /\s$/.test(buffer))) {
+      while (index + 1 < script.length && script[index + 1] !== "\n") {
+        index += 1
+      }
+      continue
+    }
+
+    if (char === "(") {
+      const previous = buffer[buffer.length - 1]
+      const processSubstitution = previous === "<" || previous === ">"
+      if (processSubstitution || buffer.trim().length === 0) {
+        const end = findClosingParen(script, index + 1)
+        const inner = stripClosing(script, index + 1, end, ")")
+        nested.push({
+          script: inner,
+          source: processSubstitution ? "process-substitution" : "subshell",
+          line,
+        })
+        if (processSubstitution) {
+          buffer += script.slice(index, end)
+        }
+        line += (inner.match(/\n/g) || []).length
+        index = end - 1
+        continue
+      }
+    }
+
+    if (char === "\n" || char === ";") {
+      flush()
+      if (char === ";" && next === ";") index += 1
+      continue
+    }
+
+    if (char === "|") {
+      if (buffer[buffer.length - 1] === ">") {
+        buffer += char
+        continue
+      }
+      flush()
+      if (next === "|" || next === "&") index += 1
+      continue
+    }
+
+    if (char === "&") {
+      const previous = buffer[buffer.length - 1]
+      if (previous === ">" || previous === "<" || next === ">") {
+        buffer += char
+        continue
+      }
+      flush()
+      if (next === "&") index += 1
+      continue
+    }
+
+    if (buffer.length === 0) {
+      bufferLine = line
+    }
+    buffer += char
+  }
+
+  flush()
+  return { segments, nested }
+}
+
+/**
+ * Splits a simple command into words, removing quotes the way the shell would.
+ */
+export function splitShellWords(segment: string): string[] {
+  const words: string[] = []
+  let current = ""
+  let inWord = false
+  let quote: "'" | "\"" | null = null
+
+  for (let index = 0; index < segment.length; index += 1) {
+    const char = segment[index]
+
+    if (quote === "'") {
+      if (char === "'") quote = null
+      else current += char
+      continue
+    }
+
+    if (quote === "\"") {
+      if (char === "\"") {
+        quote = null
+      } else if (char === "\\" && index + 1 < segment.length && "\"\\$`".includes(segment[index + 1])) {
+        current += segment[index + 1]
+        index += 1
+      } else {
+        current += char
+      }
+      continue
+    }
+
+    if (char === "\\" && index + 1 < segment.length) {
+      current += segment[index + 1]
+      inWord = true
+      index += 1
+      continue
+    }
+
+    if (char === "'" || char === "\"") {
+      quote = char
+      inWord = true
+      continue
+    }
+
+    if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(current)
+        current = ""
+        inWord = false
+      }
+      continue
+    }
+
+    current += char
+    inWord = true
+  }
+
+  if (inWord) {
+    words.push(current)
+  }
+
+  return words
+}
+
+function skipOptions(words: string[], start: number, optionsWithValue: Set<string>): number {
+  let index = start
+  while (index < words.length && words[index].startsWith("-")) {
+    const word = words[index]
+    index += 1
+    if (word === "--") {
+      break
+    }
+    if (optionsWithValue.has(word)) {
+      index += 1
+    }
+  }
+  return index
+}
+
+/**
+ * Drops leading assignments, control keywords and transparent wrappers so the
+ * command that actually runs is what gets matched against permission rules.
+ */
+function unwrapCommandWords(words: string[], nested: NestedScript[], line: number): string[] {
+  let index = 0
+
+  while (index < words.length) {
+    const word = words[index]
+    const name = basename(word)
+
+    if (LEADING_KEYWORDS.has(word) || isAssignment(word)) {
+      index += 1
+      continue
+    }
+
+    if (name === "sudo" || name === "doas") {
+      index = skipOptions(words, index + 1, SUDO_OPTIONS_WITH_VALUE)
+      continue
+    }
+
+    if (name === "env") {
+      index = skipOptions(words, index + 1, ENV_OPTIONS_WITH_VALUE)
+      while (index < words.length && isAssignment(words[index])) {
+        index += 1
+      }
+      continue
+    }
+
+    if (name === "nice") {
+      index = skipOptions(words, index + 1, new Set(["-n", "--adjustment"]))
+      continue
+    }
+
+    if (name === "timeout") {
+      index = skipOptions(words, index + 1, new Set(["-s", "-k", "--signal", "--kill-after"]))
+      index += 1
+      continue
+    }
+
+    if (name === "nohup" || name === "exec" || name === "command" || name === "builtin" || name === "time") {
+      index = skipOptions(words, index + 1, new Set())
+      continue
+    }
+
+    break
+  }
+
+  const remaining = words.slice(index)
+  const program = remaining[0] ? basename(remaining[0]) : ""
+
+  if (NESTED_SHELLS.has(program)) {
+    const flagIndex = remaining.findIndex((word, position) =>
+      position > 0 && /^-[A-Za-z]*c[A-Za-z]*$/.test(word)
+    )
+    if (flagIndex > 0 && remaining[flagIndex + 1] !== undefined) {
+      nested.push({ script: remaining[flagIndex + 1], source: "nested-shell", line })
+    }
+  } else if (program === "eval" && remaining.length > 1) {
+    nested.push({ script: remaining.slice(1).join(" "), source: "nested-shell", line })
+  }
+
+  return remaining
+}
+
+function collectFragments(
+  script: string,
+  source: ShellCommandFragmentSource,
+  lineOffset: number,
+  depth: number,
+  analysis: ShellCommandAnalysis,
+) {
+  if (depth > MAX_NESTING_DEPTH) {
+    analysis.truncated = true
+    return
+  }
+
+  const { fragments } = analysis
+  const { segments, nested } = scanShellScript(script)
+
+  for (const segment of segments) {
+    if (fragments.length >= MAX_FRAGMENTS) {
+      analysis.truncated = true
+      return
+    }
+
+    const line = lineOffset + segment.line - 1
+    const words = unwrapCommandWords(splitShellWords(segment.text), nested, segment.line)
+    if (words.length === 0 || (words.length === 1 && STANDALONE_KEYWORDS.has(words[0]))) {
+      continue
+    }
+
+    fragments.push({
+      text: segment.text,
+      command: words.join(" "),
+      source,
+      line,
+    })
+  }
+
+  for (const child of nested) {
+    collectFragments(child.script, child.source, lineOffset + child.line - 1, depth + 1, analysis)
+  }
+}
+
+/**
+ * Parses a shell script into every simple command it would run, including
+ * chained and piped commands, later lines, subshells, `$(...)` and backtick
+ * substitutions and `sh -c` / `eval` payloads. Scripts nested deeper than
+ * `MAX_NESTING_DEPTH` or longer than `MAX_FRAGMENTS` come back `truncated`.
+ */
+export function analyzeShellCommandScript(script: string): ShellCommandAnalysis {
+  const analysis: ShellCommandAnalysis = { fragments: [], truncated: false }
+  collectFragments(script, "script", 1, 0, analysis)
+  return analysis
+}
+
+export function parseShellCommandFragments(script: string): ShellCommandFragment[] {
+  return analyzeShellCommandScript(script).fragments
+}
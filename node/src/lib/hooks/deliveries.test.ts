@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  computeHookDeliveryRetrySchedule,
+  summarizeHookDeliveryHealth,
+} from "@/lib/hooks/deliveries"
+
+function row(
+  status: "processing" | "retrying" | "delivered" | "dead_letter",
+  at: string,
+  lastError: string | null = null,
+) {
+  const date = new Date(at)
+  return {
+    status,
+    createdAt: date,
+    updatedAt: date,
+    deliveredAt: status === "delivered" ? date : null,
+    deadLetteredAt: status === "dead_letter" ? date : null,
+    lastError,
+  }
+}
+
+test("computeHookDeliveryRetrySchedule backs off exponentially and dead-letters at the cap", () => {
+  const now = new Date("2026-02-14T10:00:00.000Z")
+
+  const first = computeHookDeliveryRetrySchedule({ attempts: 1, now, maxAttemptsOverride: 4, baseDelayMsOverride: 1000 })
+  assert.equal(first.terminal, false)
+  assert.equal(first.nextAttemptAt?.getTime(), now.getTime() + 1000)
+
+  const third = computeHookDeliveryRetrySchedule({ attempts: 3, now, maxAttemptsOverride: 4, baseDelayMsOverride: 1000 })
+  assert.equal(third.nextAttemptAt?.getTime(), now.getTime() + 4000)
+
+  const capped = computeHookDeliveryRetrySchedule({ attempts: 20, now, maxAttemptsOverride: 50, baseDelayMsOverride: 1000 })
+  assert.equal(capped.nextAttemptAt?.getTime(), now.getTime() + 60 * 60 * 1000)
+
+  assert.deepEqual(
+    computeHookDeliveryRetrySchedule({ attempts: 4, now, maxAttemptsOverride: 4 }),
+    { terminal: true, nextAttemptAt: null },
+  )
+})
+
+test("summarizeHookDeliveryHealth reports idle, healthy, degraded and failing hooks", () => {
+  assert.equal(summarizeHookDeliveryHealth([]).state, "idle")
+
+  const healthy = summarizeHookDeliveryHealth([
+    row("delivered", "2026-02-14T10:00:00.000Z"),
+    row("delivered", "2026-02-14T09:00:00.000Z"),
+  ])
+  assert.equal(healthy.state, "healthy")
+  assert.equal(healthy.successRate, 1)
+
+  const recovered = summarizeHookDeliveryHealth([
+    row("delivered", "2026-02-14T10:00:00.000Z"),
+    row("dead_letter", "2026-02-14T09:00:00.000Z", "HTTP 500"),
+  ])
+  assert.equal(recovered.state, "degraded")
+  assert.equal(recovered.successRate, 0.5)
+  assert.equal(recovered.lastError, "HTTP 500")
+
+  const failing = summarizeHookDeliveryHealth([
+    row("retrying", "2026-02-14T11:00:00.000Z", "timed out"),
+    row("dead_letter", "2026-02-14T10:00:00.000Z", "HTTP 500"),
+    row("delivered", "2026-02-14T09:00:00.000Z"),
+  ])
+  assert.equal(failing.state, "failing")
+  assert.equal(failing.retrying, 1)
+  assert.equal(failing.lastError, "timed out")
+  assert.equal(failing.lastFailureAt, "2026-02-14T11:00:00.000Z")
+})
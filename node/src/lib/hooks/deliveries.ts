@@ -0,0 +1,651 @@
+import type { HookDelivery, HookDeliveryStatus, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { publishNotificationUpdated } from "@/lib/realtime/notifications"
+import { buildHookWebhookHeaders } from "@/lib/hooks/signing"
+import type { HookEventType } from "@/lib/hooks/types"
+
+const HOOK_DELIVERY_RETRY_BASE_MS = 30_000
+const HOOK_DELIVERY_MAX_ATTEMPTS = 6
+const HOOK_DELIVERY_MAX_DELAY_MS = 60 * 60 * 1000
+const HOOK_DELIVERY_STALE_PROCESSING_MS = 10 * 60 * 1000
+const HOOK_DELIVERY_HEALTH_WINDOW = 50
+
+export class HookDeliveryError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "HookDeliveryError"
+    this.status = status
+  }
+}
+
+export interface HookWebhookTarget {
+  id: string
+  name: string
+  command: string
+  signingSecret?: string | null
+}
+
+export interface HookWebhookDelivery {
+  status: "completed" | "failed"
+  output: string | null
+  error: string | null
+  responseText: string | null
+  responseStatus: number | null
+}
+
+export interface HookDeliveryEnqueueInput {
+  hookId: string
+  ownerUserId: string | null
+  eventType: HookEventType
+  sessionId: string | null
+  toolUseId: string | null
+  payload: unknown
+}
+
+export interface HookDeliverySettleInput {
+  deliveryId: string
+  ownerUserId: string | null
+  attempts: number
+  delivery: HookWebhookDelivery
+  now?: Date
+}
+
+export interface HookDeliveryAttemptDeps {
+  fetchFn: typeof fetch
+  timeoutMs: () => number
+  now: () => number
+}
+
+export type HookDeliveryHealthState = "healthy" | "degraded" | "failing" | "idle"
+
+export interface HookDeliveryHealth {
+  state: HookDeliveryHealthState
+  total: number
+  delivered: number
+  retrying: number
+  deadLettered: number
+  inFlight: number
+  successRate: number | null
+  lastDeliveredAt: string | null
+  lastFailureAt: string | null
+  lastError: string | null
+}
+
+type HookDeliveryHealthRow = Pick<
+  HookDelivery,
+  "status" | "createdAt" | "updatedAt" | "deliveredAt" | "deadLetteredAt" | "lastError"
+>
+
+type HookDeliveryWithHook = HookDelivery & {
+  hook: HookWebhookTarget & {
+    type: string
+    isActive: boolean
+    ownerUserId: string | null
+  }
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const parsed = Number.parseInt(process.env[name] || "", 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback
+  }
+
+  return parsed
+}
+
+function retryBaseMs(): number {
+  return readPositiveInt("HOOK_DELIVERY_RETRY_BASE_MS", HOOK_DELIVERY_RETRY_BASE_MS)
+}
+
+function maxAttempts(): number {
+  return readPositiveInt("HOOK_DELIVERY_MAX_ATTEMPTS", HOOK_DELIVERY_MAX_ATTEMPTS)
+}
+
+export function hookWebhookTimeoutMs(): number {
+  return readPositiveInt("HOOK_WEBHOOK_TIMEOUT_MS", 8000)
+}
+
+function truncateText(value: string, maxLength = 4000): string {
+  if (value.length <= maxLength) {
+    return value
+  }
+
+  return `${value.slice(0, maxLength)}...`
+}
+
+function asErrorMessage(error: unknown): string {
+  if (error instanceof Error && error.message.trim()) {
+    return error.message
+  }
+
+  return String(error)
+}
+
+function asJsonValue(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value ?? null)) as Prisma.InputJsonValue
+}
+
+/**
+ * POSTs a hook payload once. The body is signed with the hook's secret when it
+ * has one; delivery ids and attempt numbers let receivers deduplicate retries.
+ */
+export async function postHookWebhook(args: {
+  hook: HookWebhookTarget
+  payload: unknown
+  fetchFn: typeof fetch
+  timeoutMs: number
+  deliveryId?: string | null
+  attempt?: number
+  now?: number
+}): Promise<HookWebhookDelivery> {
+  const body = JSON.stringify(args.payload)
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), args.timeoutMs)
+
+  try {
+    const response = await args.fetchFn(args.hook.command, {
+      method: "POST",
+      headers: buildHookWebhookHeaders({
+        hookId: args.hook.id,
+        body,
+        signingSecret: args.hook.signingSecret,
+        deliveryId: args.deliveryId,
+        attempt: args.attempt,
+        now: args.now,
+      }),
+      body,
+      signal: controller.signal,
+    })
+
+    const responseText = await response.text().catch(() => "")
+    const summarizedResponse = truncateText(responseText || `HTTP ${response.status}`)
+
+    if (!response.ok) {
+      return {
+        status: "failed",
+        output: summarizedResponse,
+        error: `Webhook request failed with status ${response.status}`,
+        responseText,
+        responseStatus: response.status,
+      }
+    }
+
+    return {
+      status: "completed",
+      output: summarizedResponse,
+      error: null,
+      responseText,
+      responseStatus: response.status,
+    }
+  } catch (error) {
+    if ((error as Error).name === "AbortError") {
+      return {
+        status: "failed",
+        output: null,
+        error: `Webhook request timed out after ${args.timeoutMs}ms`,
+        responseText: null,
+        responseStatus: null,
+      }
+    }
+
+    return {
+      status: "failed",
+      output: null,
+      error: asErrorMessage(error),
+      responseText: null,
+      responseStatus: null,
+    }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+export function computeHookDeliveryRetrySchedule(args: {
+  attempts: number
+  now?: Date
+  maxAttemptsOverride?: number
+  baseDelayMsOverride?: number
+}): {
+  terminal: boolean
+  nextAttemptAt: Date | null
+} {
+  const cap = args.maxAttemptsOverride ?? maxAttempts()
+  const now = args.now || new Date()
+
+  if (args.attempts >= cap) {
+    return {
+      terminal: true,
+      nextAttemptAt: null,
+    }
+  }
+
+  const delayMs = Math.min(
+    HOOK_DELIVERY_MAX_DELAY_MS,
+    (args.baseDelayMsOverride ?? retryBaseMs()) * 2 ** Math.max(0, args.attempts - 1),
+  )
+
+  return {
+    terminal: false,
+    nextAttemptAt: new Date(now.getTime() + delayMs),
+  }
+}
+
+/**
+ * Creates the queue row for an event before its first attempt, so a crash
+ * between attempt and settle still leaves something for the drain to retry.
+ */
+export async function createHookDelivery(input: HookDeliveryEnqueueInput): Promise<string> {
+  const delivery = await prisma.hookDelivery.create({
+    data: {
+      hookId: input.hookId,
+      ownerUserId: input.ownerUserId,
+      event: input.eventType,
+      sessionId: input.sessionId,
+      toolUseId: input.toolUseId,
+      payload: asJsonValue(input.payload),
+      status: "processing",
+    },
+    select: {
+      id: true,
+    },
+  })
+
+  return delivery.id
+}
+
+export async function settleHookDeliveryAttempt(input: HookDeliverySettleInput): Promise<HookDeliveryStatus> {
+  const now = input.now || new Date()
+
+  if (input.delivery.status === "completed") {
+    await prisma.hookDelivery.update({
+      where: {
+        id: input.deliveryId,
+      },
+      data: {
+        status: "delivered",
+        attempts: input.attempts,
+        nextAttemptAt: null,
+        deliveredAt: now,
+        lastError: null,
+        lastResponseStatus: input.delivery.responseStatus,
+      },
+    })
+
+    return "delivered"
+  }
+
+  const schedule = computeHookDeliveryRetrySchedule({ attempts: input.attempts, now })
+  const status: HookDeliveryStatus = schedule.terminal ? "dead_letter" : "retrying"
+
+  await prisma.hookDelivery.update({
+    where: {
+      id: input.deliveryId,
+    },
+    data: {
+      status,
+      attempts: input.attempts,
+      nextAttemptAt: schedule.nextAttemptAt,
+      lastError: input.delivery.error,
+      lastResponseStatus: input.delivery.responseStatus,
+      ...(schedule.terminal ? { deadLetteredAt: now } : {}),
+    },
+  })
+
+  if (schedule.terminal && input.ownerUserId) {
+    publishNotificationUpdated({
+      userId: input.ownerUserId,
+      channel: "hooks",
+      entityId: input.deliveryId,
+    })
+  }
+
+  return status
+}
+
+const defaultAttemptDeps: HookDeliveryAttemptDeps = {
+  fetchFn: (input, init) => fetch(input, init),
+  timeoutMs: () => hookWebhookTimeoutMs(),
+  now: () => Date.now(),
+}
+
+const hookTargetSelect = {
+  id: true,
+  name: true,
+  command: true,
+  type: true,
+  isActive: true,
+  ownerUserId: true,
+  signingSecret: true,
+} as const
+
+/**
+ * Makes one attempt for a delivery that the caller has already claimed, logs
+ * it as a `HookExecution` and moves the row to its next state.
+ */
+async function attemptClaimedHookDelivery(
+  job: HookDeliveryWithHook,
+  attempt: number,
+  deps: HookDeliveryAttemptDeps,
+): Promise<HookDeliveryStatus> {
+  if (!job.hook.isActive || job.hook.type !== "webhook") {
+    const now = new Date(deps.now())
+    await prisma.hookDelivery.update({
+      where: {
+        id: job.id,
+      },
+      data: {
+        status: "dead_letter",
+        nextAttemptAt: null,
+        deadLetteredAt: now,
+        lastError: "Hook is inactive or no longer a webhook",
+      },
+    })
+    return "dead_letter"
+  }
+
+  const startedAt = deps.now()
+  const delivery = await postHookWebhook({
+    hook: job.hook,
+    payload: job.payload,
+    fetchFn: deps.fetchFn,
+    timeoutMs: deps.timeoutMs(),
+    deliveryId: job.id,
+    attempt,
+    now: startedAt,
+  })
+  const finishedAt = deps.now()
+
+  try {
+    await prisma.hookExecution.create({
+      data: {
+        hookId: job.hookId,
+        event: job.event,
+        deliveryId: job.id,
+        attempt,
+        sessionId: job.sessionId,
+        toolUseId: job.toolUseId,
+        status: delivery.status,
+        output: delivery.output || `Delivery attempt ${attempt}`,
+        error: delivery.error,
+        duration: Math.max(0, finishedAt - startedAt),
+      },
+    })
+  } catch (persistError) {
+    console.error("Failed to persist hook execution log:", persistError)
+  }
+
+  return settleHookDeliveryAttempt({
+    deliveryId: job.id,
+    ownerUserId: job.ownerUserId || job.hook.ownerUserId,
+    attempts: attempt,
+    delivery,
+    now: new Date(finishedAt),
+  })
+}
+
+/**
+ * Retries deliveries whose backoff has elapsed, plus rows left in
+ * `processing` by a worker that died mid-attempt.
+ */
+export async function drainHookDeliveryQueue(
+  options: {
+    limit?: number
+    ownerUserId?: string
+    hookId?: string
+  } = {},
+  deps: HookDeliveryAttemptDeps = defaultAttemptDeps,
+): Promise<number> {
+  const now = new Date(deps.now())
+  const limit = Math.max(1, Math.min(100, options.limit ?? 20))
+
+  const jobs = await prisma.hookDelivery.findMany({
+    where: {
+      ...(options.ownerUserId ? { ownerUserId: options.ownerUserId } : {}),
+      ...(options.hookId ? { hookId: options.hookId } : {}),
+      OR: [
+        {
+          status: "retrying",
+          nextAttemptAt: {
+            lte: now,
+          },
+        },
+        {
+          status: "processing",
+          updatedAt: {
+            lte: new Date(now.getTime() - HOOK_DELIVERY_STALE_PROCESSING_MS),
+          },
+        },
+      ],
+    },
+    include: {
+      hook: {
+        select: hookTargetSelect,
+      },
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+    take: limit,
+  })
+
+  let processed = 0
+
+  for (const job of jobs) {
+    const claimed = await prisma.hookDelivery.updateMany({
+      where: {
+        id: job.id,
+        status: job.status,
+        updatedAt: job.updatedAt,
+      },
+      data: {
+        status: "processing",
+      },
+    })
+    if (claimed.count !== 1) {
+      continue
+    }
+
+    await attemptClaimedHookDelivery(job, job.attempts + 1, deps)
+    processed += 1
+  }
+
+  return processed
+}
+
+export async function drainHookDeliveryQueueSafely(options: {
+  limit?: number
+  ownerUserId?: string
+  hookId?: string
+  label?: string
+} = {}): Promise<void> {
+  try {
+    await drainHookDeliveryQueue(options)
+  } catch (error) {
+    const suffix = options.label ? ` (${options.label})` : ""
+    console.error(`Hook delivery drain failed${suffix}:`, error)
+  }
+}
+
+/**
+ * Starts a fresh retry cycle for a delivery and makes its first attempt
+ * inline. Only settled deliveries (delivered, retrying or dead-lettered) can
+ * be redelivered; the caller is responsible for ownership checks.
+ */
+export async function redeliverHookDelivery(
+  deliveryId: string,
+  deps: HookDeliveryAttemptDeps = defaultAttemptDeps,
+): Promise<HookDelivery> {
+  const job = await prisma.hookDelivery.findUnique({
+    where: {
+      id: deliveryId,
+    },
+    include: {
+      hook: {
+        select: hookTargetSelect,
+      },
+    },
+  })
+
+  if (!job) {
+    throw new HookDeliveryError("Hook delivery not found", 404)
+  }
+
+  if (job.status === "processing") {
+    throw new HookDeliveryError("Hook delivery is already in flight", 409)
+  }
+
+  if (!job.hook.isActive || job.hook.type !== "webhook") {
+    throw new HookDeliveryError("Hook must be an active webhook to redeliver", 409)
+  }
+
+  const claimed = await prisma.hookDelivery.updateMany({
+    where: {
+      id: job.id,
+      status: job.status,
+      updatedAt: job.updatedAt,
+    },
+    data: {
+      status: "processing",
+      attempts: 0,
+      nextAttemptAt: null,
+      deadLetteredAt: null,
+      redeliveryCount: {
+        increment: 1,
+      },
+    },
+  })
+  if (claimed.count !== 1) {
+    throw new HookDeliveryError("Hook delivery changed while redelivering; try again", 409)
+  }
+
+  await attemptClaimedHookDelivery(job, 1, deps)
+
+  return prisma.hookDelivery.findUniqueOrThrow({
+    where: {
+      id: job.id,
+    },
+  })
+}
+
+export async function listHookDeliveries(args: {
+  hookId: string
+  status?: HookDeliveryStatus
+  take?: number
+}): Promise<HookDelivery[]> {
+  const take = Math.max(1, Math.min(200, args.take ?? 50))
+  return prisma.hookDelivery.findMany({
+    where: {
+      hookId: args.hookId,
+      ...(args.status ? { status: args.status } : {}),
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take,
+  })
+}
+
+function latestDate(values: Array<Date | null>): Date | null {
+  let latest: Date | null = null
+  for (const value of values) {
+    if (value && (!latest || value.getTime() > latest.getTime())) {
+      latest = value
+    }
+  }
+  return latest
+}
+
+/**
+ * Rolls recent deliveries into a health badge. `failing` means the newest
+ * settled delivery was dead-lettered; `degraded` means some deliveries are
+ * retrying or were dead-lettered but the hook has since recovered.
+ */
+export function summarizeHookDeliveryHealth(rows: HookDeliveryHealthRow[]): HookDeliveryHealth {
+  const delivered = rows.filter((row) => row.status === "delivered")
+  const retrying = rows.filter((row) => row.status === "retrying")
+  const deadLettered = rows.filter((row) => row.status === "dead_letter")
+  const inFlight = rows.filter((row) => row.status === "processing")
+  const settled = delivered.length + deadLettered.length
+  const failures = rows.filter((row) => row.status !== "delivered" && row.lastError)
+  const lastFailure = failures.reduce<HookDeliveryHealthRow | null>(
+    (latest, row) => (!latest || row.updatedAt.getTime() > latest.updatedAt.getTime() ? row : latest),
+    null,
+  )
+  const lastDeliveredAt = latestDate(delivered.map((row) => row.deliveredAt))
+  const lastDeadLetteredAt = latestDate(deadLettered.map((row) => row.deadLetteredAt))
+
+  let state: HookDeliveryHealthState = "healthy"
+  if (rows.length === 0) {
+    state = "idle"
+  } else if (
+    lastDeadLetteredAt &&
+    (!lastDeliveredAt || lastDeadLetteredAt.getTime() > lastDeliveredAt.getTime())
+  ) {
+    state = "failing"
+  } else if (retrying.length > 0 || deadLettered.length > 0) {
+    state = "degraded"
+  }
+
+  return {
+    state,
+    total: rows.length,
+    delivered: delivered.length,
+    retrying: retrying.length,
+    deadLettered: deadLettered.length,
+    inFlight: inFlight.length,
+    successRate: settled > 0 ? delivered.length / settled : null,
+    lastDeliveredAt: lastDeliveredAt?.toISOString() || null,
+    lastFailureAt: lastFailure?.updatedAt.toISOString() || null,
+    lastError: lastFailure?.lastError || null,
+  }
+}
+
+export async function loadHookDeliveryHealth(hookIds: string[]): Promise<Record<string, HookDeliveryHealth>> {
+  const entries = await Promise.all(
+    hookIds.map(async (hookId) => {
+      const rows = await prisma.hookDelivery.findMany({
+        where: {
+          hookId,
+        },
+        select: {
+          status: true,
+          createdAt: true,
+          updatedAt: true,
+          deliveredAt: true,
+          deadLetteredAt: true,
+          lastError: true,
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        take: HOOK_DELIVERY_HEALTH_WINDOW,
+      })
+
+      return [hookId, summarizeHookDeliveryHealth(rows)] as const
+    }),
+  )
+
+  return Object.fromEntries(entries)
+}
+
+export function serializeHookDelivery(delivery: HookDelivery) {
+  return {
+    id: delivery.id,
+    hookId: delivery.hookId,
+    event: delivery.event,
+    sessionId: delivery.sessionId,
+    toolUseId: delivery.toolUseId,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    redeliveryCount: delivery.redeliveryCount,
+    nextAttemptAt: delivery.nextAttemptAt,
+    lastError: delivery.lastError,
+    lastResponseStatus: delivery.lastResponseStatus,
+    deliveredAt: delivery.deliveredAt,
+    deadLetteredAt: delivery.deadLetteredAt,
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt,
+  }
+}
@@ -1,6 +1,14 @@
 import assert from "node:assert/strict"
 import test from "node:test"
-import { runPostToolUseHooks, type HookExecutionPersistInput, type HookRecord } from "@/lib/hooks/runner"
+import {
+  parsePreToolUseHookResponse,
+  runLifecycleHooks,
+  runPostToolUseHooks,
+  runPreToolUseHooks,
+  type HookExecutionPersistInput,
+  type HookRecord,
+} from "@/lib/hooks/runner"
+import { verifyHookWebhookSignature } from "@/lib/hooks/signing"
 
 function createClock(values: number[]): () => number {
   let index = 0
@@ -151,3 +159,272 @@ test("runPostToolUseHooks treats webhook network errors as failed deliveries", a
   assert.equal(result.executions[0].status, "failed")
   assert.equal(result.executions[0].error, "network down")
 })
+
+function preToolUseHook(id: string, matcher = "deploy"): HookRecord {
+  return {
+    id,
+    name: `Policy ${id}`,
+    matcher,
+    type: "webhook",
+    event: "pre_tool_use",
+    command: `https://hooks.example.com/${id}`,
+  }
+}
+
+test("runPreToolUseHooks chains rewrites and stops at the first deny", async () => {
+  const bodies: any[] = []
+  const result = await runPreToolUseHooks(
+    {
+      ownerUserId: "user-1",
+      toolName: "deploy",
+      toolUseId: "exec-1",
+      input: { scriptContent: "npm run deploy" },
+    },
+    {
+      findActiveWebhookHooks: async () => [
+        preToolUseHook("rewrite"),
+        preToolUseHook("deny"),
+        preToolUseHook("never"),
+      ],
+      persistExecution: async () => {},
+      fetchFn: async (input, init) => {
+        bodies.push(JSON.parse(String(init?.body)))
+        if (String(input).endsWith("/rewrite")) {
+          return Response.json({ decision: "rewrite", input: { scriptContent: "npm run deploy -- --dry-run" } })
+        }
+        return Response.json({ decision: "deny", reason: "change freeze" })
+      },
+      timeoutMs: () => 5000,
+      now: createClock([0]),
+    },
+  )
+
+  assert.equal(result.decision, "deny")
+  assert.equal(result.reason, "change freeze")
+  assert.equal(result.decidedByHookId, "deny")
+  assert.equal(result.rewritten, true)
+  assert.equal(result.matchedHooks, 2)
+  assert.equal(bodies.length, 2)
+  assert.equal(bodies[0].event, "pre_tool_use.v1")
+  assert.deepEqual(bodies[1].toolUse.input, { scriptContent: "npm run deploy -- --dry-run" })
+})
+
+test("runPreToolUseHooks ignores hooks subscribed to other events", async () => {
+  const result = await runPreToolUseHooks(
+    {
+      ownerUserId: "user-1",
+      toolName: "deploy",
+      input: { scriptContent: "npm run deploy" },
+    },
+    {
+      findActiveWebhookHooks: async () => [
+        { ...preToolUseHook("post"), event: "post_tool_use" },
+        preToolUseHook("lint-only", "lint"),
+      ],
+      persistExecution: async () => {},
+      fetchFn: async () => Response.json({ decision: "deny" }),
+      timeoutMs: () => 5000,
+      now: createClock([0]),
+    },
+  )
+
+  assert.equal(result.decision, "allow")
+  assert.equal(result.matchedHooks, 0)
+  assert.deepEqual(result.input, { scriptContent: "npm run deploy" })
+})
+
+test("runPreToolUseHooks honors the configured fail mode for unusable responses", async () => {
+  const deps = {
+    findActiveWebhookHooks: async () => [preToolUseHook("broken")],
+    persistExecution: async () => {},
+    fetchFn: async () => new Response("upstream error", { status: 502 }),
+    timeoutMs: () => 5000,
+    now: createClock([0]),
+  }
+  const input = {
+    ownerUserId: "user-1",
+    toolName: "deploy",
+    input: {},
+  }
+
+  const open = await runPreToolUseHooks(input, deps)
+  assert.equal(open.decision, "allow")
+  assert.equal(open.failed, 1)
+
+  const closed = await runPreToolUseHooks(input, { ...deps, preToolUseFailClosed: () => true })
+  assert.equal(closed.decision, "deny")
+  assert.match(closed.reason || "", /Policy broken/)
+})
+
+test("parsePreToolUseHookResponse accepts empty bodies and rejects unknown decisions", () => {
+  assert.deepEqual(parsePreToolUseHookResponse(""), { decision: "allow", reason: null })
+  assert.deepEqual(parsePreToolUseHookResponse("{\"decision\":\"deny\",\"reason\":\" no \"}"), {
+    decision: "deny",
+    reason: "no",
+  })
+  assert.equal(parsePreToolUseHookResponse("{\"decision\":\"rewrite\"}"), null)
+  assert.equal(parsePreToolUseHookResponse("{\"decision\":\"maybe\"}"), null)
+  assert.equal(parsePreToolUseHookResponse("ok"), null)
+})
+
+test("runLifecycleHooks matches the event subject and tags persisted executions", async () => {
+  const persisted: HookExecutionPersistInput[] = []
+  const bodies: any[] = []
+
+  const result = await runLifecycleHooks(
+    {
+      ownerUserId: "user-1",
+      event: "runtime_fallback",
+      subject: "local-fallback",
+      sessionId: "sess-1",
+      payload: { reason: "openclaw:timeout" },
+      occurredAt: new Date("2026-02-14T10:00:00.000Z"),
+    },
+    {
+      findActiveWebhookHooks: async () => [
+        {
+          id: "hook-1",
+          name: "Fallback alert",
+          matcher: "fallback",
+          type: "webhook",
+          event: "runtime_fallback",
+          command: "https://hooks.example.com/fallback",
+        },
+        {
+          id: "hook-2",
+          name: "Session audit",
+          matcher: ".*",
+          type: "webhook",
+          event: "session_start",
+          command: "https://hooks.example.com/sessions",
+        },
+      ],
+      persistExecution: async (input) => {
+        persisted.push(input)
+      },
+      fetchFn: async (_input, init) => {
+        bodies.push(JSON.parse(String(init?.body)))
+        return new Response("ok", { status: 200 })
+      },
+      timeoutMs: () => 5000,
+      now: createClock([0, 5]),
+    },
+  )
+
+  assert.equal(result.matchedHooks, 1)
+  assert.equal(result.delivered, 1)
+  assert.equal(bodies[0].event, "runtime_fallback.v1")
+  assert.equal(bodies[0].subject, "local-fallback")
+  assert.deepEqual(bodies[0].data, { reason: "openclaw:timeout" })
+  assert.equal(persisted[0].eventType, "runtime_fallback")
+  assert.equal(persisted[0].sessionId, "sess-1")
+})
+
+test("runPostToolUseHooks signs queued deliveries and settles them after the first attempt", async () => {
+  const enqueued: unknown[] = []
+  const settled: Array<{ deliveryId: string; attempts: number; status: string }> = []
+  const persisted: HookExecutionPersistInput[] = []
+  const drained: string[] = []
+  let capturedHeaders: Record<string, string> = {}
+  let capturedBody = ""
+
+  const result = await runPostToolUseHooks(
+    {
+      ownerUserId: "user-1",
+      toolName: "deploy",
+      status: "completed",
+      occurredAt: new Date("2026-02-14T10:00:00.000Z"),
+    },
+    {
+      findActiveWebhookHooks: async () => [
+        {
+          id: "hook-1",
+          name: "Signed webhook",
+          matcher: "deploy",
+          type: "webhook",
+          command: "https://hooks.example.com/deploy",
+          signingSecret: "whsec_test",
+        },
+      ],
+      persistExecution: async (input) => {
+        persisted.push(input)
+      },
+      fetchFn: async (_input, init) => {
+        capturedHeaders = init?.headers as Record<string, string>
+        capturedBody = String(init?.body)
+        return new Response("unavailable", { status: 503 })
+      },
+      timeoutMs: () => 5000,
+      now: createClock([1_771_063_200_000, 1_771_063_200_040]),
+      enqueueDelivery: async (input) => {
+        enqueued.push(input)
+        return "delivery-1"
+      },
+      settleDelivery: async (input) => {
+        settled.push({
+          deliveryId: input.deliveryId,
+          attempts: input.attempts,
+          status: input.delivery.status,
+        })
+      },
+      drainDeliveries: (ownerUserId) => {
+        drained.push(ownerUserId)
+      },
+    },
+  )
+
+  assert.equal(result.failed, 1)
+  assert.equal(enqueued.length, 1)
+  assert.equal(capturedHeaders["X-OrchWiz-Delivery-Id"], "delivery-1")
+  assert.equal(capturedHeaders["X-OrchWiz-Delivery-Attempt"], "1")
+  assert.equal(capturedHeaders["X-OrchWiz-Timestamp"], "1771063200000")
+  assert.equal(
+    verifyHookWebhookSignature(
+      capturedHeaders["X-OrchWiz-Timestamp"],
+      capturedHeaders["X-OrchWiz-Nonce"],
+      capturedBody,
+      capturedHeaders["X-OrchWiz-Signature"],
+      "whsec_test",
+    ),
+    true,
+  )
+  assert.equal(persisted[0].deliveryId, "delivery-1")
+  assert.equal(persisted[0].attempt, 1)
+  assert.deepEqual(settled, [{ deliveryId: "delivery-1", attempts: 1, status: "failed" }])
+  assert.deepEqual(drained, ["user-1"])
+})
+
+test("runPreToolUseHooks does not queue blocking deliveries", async () => {
+  let enqueued = 0
+
+  const result = await runPreToolUseHooks(
+    {
+      ownerUserId: "user-1",
+      toolName: "deploy",
+      input: { scriptContent: "npm run deploy" },
+    },
+    {
+      findActiveWebhookHooks: async () => [
+        {
+          id: "hook-1",
+          name: "Gate",
+          matcher: "deploy",
+          type: "webhook",
+          event: "pre_tool_use",
+          command: "https://hooks.example.com/gate",
+        },
+      ],
+      persistExecution: async () => {},
+      fetchFn: async () => new Response(JSON.stringify({ decision: "allow" }), { status: 200 }),
+      timeoutMs: () => 5000,
+      now: () => 0,
+      enqueueDelivery: async () => {
+        enqueued += 1
+        return "delivery-1"
+      },
+    },
+  )
+
+  assert.equal(result.decision, "allow")
+  assert.equal(enqueued, 0)
+})
@@ -1,46 +1,77 @@
 import { prisma } from "@/lib/prisma"
+import {
+  createHookDelivery,
+  drainHookDeliveryQueueSafely,
+  hookWebhookTimeoutMs,
+  postHookWebhook,
+  settleHookDeliveryAttempt,
+  type HookDeliveryEnqueueInput,
+  type HookDeliverySettleInput,
+  type HookWebhookDelivery,
+} from "@/lib/hooks/deliveries"
 import type {
+  HookEventType,
   HookExecutionSummary,
+  LifecycleHookEvent,
+  LifecycleHookEventInput,
   PostToolUseEvent,
   PostToolUseEventInput,
   PostToolUseHookRunResult,
+  PreToolUseEvent,
+  PreToolUseEventInput,
+  PreToolUseHookRunResult,
 } from "@/lib/hooks/types"
-import { normalizePostToolUseEvent } from "@/lib/hooks/validation"
+import {
+  normalizeLifecycleHookEvent,
+  normalizePostToolUseEvent,
+  normalizePreToolUseEvent,
+} from "@/lib/hooks/validation"
 
 export interface HookRecord {
   id: string
   name: string
   matcher: string
   type: string
+  event?: HookEventType
   command: string
+  signingSecret?: string | null
 }
 
 export interface HookExecutionPersistInput {
   hookId: string
+  eventType?: HookEventType
+  deliveryId?: string | null
+  attempt?: number | null
   sessionId: string | null
   toolUseId: string | null
   status: "completed" | "failed"
   output: string | null
   error: string | null
   durationMs: number
-  event: PostToolUseEvent
+  event: PostToolUseEvent | PreToolUseEvent | LifecycleHookEvent
 }
 
 export interface PostToolUseHookRunnerDeps {
-  findActiveWebhookHooks: (ownerUserId: string) => Promise<HookRecord[]>
+  findActiveWebhookHooks: (ownerUserId: string, event: HookEventType) => Promise<HookRecord[]>
   persistExecution: (input: HookExecutionPersistInput) => Promise<void>
   fetchFn: typeof fetch
   timeoutMs: () => number
   now: () => number
+  preToolUseFailClosed?: () => boolean
+  /** Durable delivery queue; without it every hook gets exactly one attempt. */
+  enqueueDelivery?: (input: HookDeliveryEnqueueInput) => Promise<string>
+  settleDelivery?: (input: HookDeliverySettleInput) => Promise<unknown>
+  drainDeliveries?: (ownerUserId: string) => void
 }
 
-function hookWebhookTimeoutMs(): number {
-  const parsed = Number.parseInt(process.env.HOOK_WEBHOOK_TIMEOUT_MS || "8000", 10)
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    return 8000
-  }
+export type HookRunnerDeps = PostToolUseHookRunnerDeps
 
-  return parsed
+/**
+ * `closed` blocks the tool when a pre_tool_use webhook cannot be reached or
+ * answers with an unusable decision; the default `open` lets it proceed.
+ */
+function preToolUseFailClosed(): boolean {
+  return process.env.HOOK_PRE_TOOL_USE_FAIL_MODE?.trim().toLowerCase() === "closed"
 }
 
 function truncateText(value: string, maxLength = 4000): string {
@@ -83,24 +114,28 @@ function stringifyJson(value: unknown): string {
   }
 }
 
-function hookMatchesToolName(hook: HookRecord, toolName: string): boolean {
+function hookMatchesSubject(hook: HookRecord, subject: string): boolean {
   try {
-    return new RegExp(hook.matcher).test(toolName)
+    return new RegExp(hook.matcher).test(subject)
   } catch {
     return false
   }
 }
 
+function hookPayloadHeader(hook: HookRecord) {
+  return {
+    id: hook.id,
+    name: hook.name,
+    matcher: hook.matcher,
+    type: hook.type,
+  }
+}
+
 function buildHookWebhookPayload(hook: HookRecord, event: PostToolUseEvent) {
   return {
     event: "post_tool_use.v1",
     occurredAt: event.occurredAt.toISOString(),
-    hook: {
-      id: hook.id,
-      name: hook.name,
-      matcher: hook.matcher,
-      type: hook.type,
-    },
+    hook: hookPayloadHeader(hook),
     toolUse: {
       toolName: event.toolName,
       status: event.status,
@@ -115,80 +150,57 @@ function buildHookWebhookPayload(hook: HookRecord, event: PostToolUseEvent) {
   }
 }
 
-async function postWebhook(args: {
-  hook: HookRecord
-  event: PostToolUseEvent
-  fetchFn: typeof fetch
-  timeoutMs: number
-}): Promise<{
-  status: "completed" | "failed"
-  output: string | null
-  error: string | null
-}> {
-  const payload = buildHookWebhookPayload(args.hook, args.event)
-  const controller = new AbortController()
-  const timeout = setTimeout(() => controller.abort(), args.timeoutMs)
-
-  try {
-    const response = await args.fetchFn(args.hook.command, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "User-Agent": "OrchWiz-Hooks/1.0",
-        "X-OrchWiz-Hook-Id": args.hook.id,
-      },
-      body: JSON.stringify(payload),
-      signal: controller.signal,
-    })
-
-    const responseText = await response.text().catch(() => "")
-    const summarizedResponse = truncateText(responseText || `HTTP ${response.status}`)
+function buildPreToolUseWebhookPayload(hook: HookRecord, event: PreToolUseEvent, input: unknown) {
+  return {
+    event: "pre_tool_use.v1",
+    occurredAt: event.occurredAt.toISOString(),
+    hook: hookPayloadHeader(hook),
+    toolUse: {
+      toolName: event.toolName,
+      sessionId: event.sessionId,
+      toolUseId: event.toolUseId,
+      input: toSerializableJsonValue(input),
+      metadata: toSerializableJsonValue(event.metadata),
+    },
+  }
+}
 
-    if (!response.ok) {
-      return {
-        status: "failed",
-        output: summarizedResponse,
-        error: `Webhook request failed with status ${response.status}`,
-      }
-    }
+function buildLifecycleWebhookPayload(hook: HookRecord, event: LifecycleHookEvent) {
+  return {
+    event: `${event.event}.v1`,
+    occurredAt: event.occurredAt.toISOString(),
+    hook: hookPayloadHeader(hook),
+    subject: event.subject,
+    sessionId: event.sessionId,
+    data: toSerializableJsonValue(event.payload),
+  }
+}
 
+function summarizeEvent(event: HookExecutionPersistInput["event"]): Record<string, unknown> {
+  if ("subject" in event) {
     return {
-      status: "completed",
-      output: summarizedResponse,
-      error: null,
-    }
-  } catch (error) {
-    if ((error as Error).name === "AbortError") {
-      return {
-        status: "failed",
-        output: null,
-        error: `Webhook request timed out after ${args.timeoutMs}ms`,
-      }
+      event: event.event,
+      subject: event.subject,
     }
+  }
 
-    return {
-      status: "failed",
-      output: null,
-      error: asErrorMessage(error),
-    }
-  } finally {
-    clearTimeout(timeout)
+  return {
+    toolName: event.toolName,
+    ...("status" in event ? { status: event.status } : {}),
   }
 }
 
 async function recordExecution(args: HookExecutionPersistInput) {
   const outputText =
     args.output ||
-    truncateText(
-      stringifyJson({
-        toolName: args.event.toolName,
-        status: args.event.status,
-      }),
-    )
+    truncateText(stringifyJson(summarizeEvent(args.event)))
 
   await prisma.hookExecution.create({
     data: {
       hookId: args.hookId,
+      event: args.eventType || "post_tool_use",
+      deliveryId: args.deliveryId || null,
+      attempt: args.attempt ?? null,
       sessionId: args.sessionId,
       toolUseId: args.toolUseId,
       status: args.status,
@@ -200,12 +212,13 @@ async function recordExecution(args: HookExecutionPersistInput) {
 }
 
 const defaultDeps: PostToolUseHookRunnerDeps = {
-  findActiveWebhookHooks: (ownerUserId) =>
+  findActiveWebhookHooks: (ownerUserId, event) =>
     prisma.hook.findMany({
       where: {
         ownerUserId,
         isActive: true,
         type: "webhook",
+        event,
       },
       orderBy: {
         createdAt: "asc",
@@ -215,78 +228,121 @@ const defaultDeps: PostToolUseHookRunnerDeps = {
   fetchFn: (input, init) => fetch(input, init),
   timeoutMs: () => hookWebhookTimeoutMs(),
   now: () => Date.now(),
+  preToolUseFailClosed: () => preToolUseFailClosed(),
+  enqueueDelivery: (input) => createHookDelivery(input),
+  settleDelivery: (input) => settleHookDeliveryAttempt(input),
+  drainDeliveries: (ownerUserId) => {
+    void drainHookDeliveryQueueSafely({
+      ownerUserId,
+      label: "hook-event",
+    })
+  },
 }
 
-export async function runPostToolUseHooks(
-  input: PostToolUseEventInput,
-  deps: PostToolUseHookRunnerDeps = defaultDeps,
-): Promise<PostToolUseHookRunResult> {
-  const normalizedInput = normalizePostToolUseEvent(input)
-
-  const ownerUserId = normalizedInput.ownerUserId?.trim()
-  const toolName = normalizedInput.toolName?.trim()
-  if (!ownerUserId || !toolName) {
-    return {
-      matchedHooks: 0,
-      delivered: 0,
-      failed: 0,
-      executions: [],
-    }
-  }
-
-  const event: PostToolUseEvent = {
-    ownerUserId,
-    toolName,
-    status: normalizedInput.status,
-    sessionId: normalizedInput.sessionId || null,
-    toolUseId: normalizedInput.toolUseId || null,
-    durationMs: normalizedInput.durationMs ?? null,
-    input: normalizedInput.input,
-    output: normalizedInput.output,
-    error: normalizedInput.error,
-    metadata: normalizedInput.metadata || {},
-    occurredAt: normalizedInput.occurredAt || new Date(),
-  }
-
-  const hooks = await deps.findActiveWebhookHooks(ownerUserId)
-
-  const result: PostToolUseHookRunResult = {
+function emptyRunResult(): PostToolUseHookRunResult {
+  return {
     matchedHooks: 0,
     delivered: 0,
     failed: 0,
     executions: [],
   }
+}
+
+/**
+ * Delivers an event to every active webhook hook of the owner that subscribes
+ * to `eventType` and whose matcher accepts `subject`. Hooks run sequentially in
+ * creation order; `onDelivery` may return `false` to stop the chain.
+ *
+ * Durable events are queued before their first attempt so failures are
+ * retried with backoff and eventually dead-lettered. Synchronous events
+ * (pre_tool_use) get a single attempt because the caller is waiting on them.
+ */
+async function deliverToMatchingHooks(args: {
+  eventType: HookEventType
+  ownerUserId: string
+  subject: string
+  sessionId: string | null
+  toolUseId: string | null
+  event: HookExecutionPersistInput["event"]
+  buildPayload: (hook: HookRecord) => unknown
+  onDelivery?: (hook: HookRecord, delivery: HookWebhookDelivery) => boolean
+  durable: boolean
+  deps: PostToolUseHookRunnerDeps
+}): Promise<PostToolUseHookRunResult> {
+  const { deps } = args
+  const hooks = await deps.findActiveWebhookHooks(args.ownerUserId, args.eventType)
+  const result = emptyRunResult()
 
   for (const hook of hooks) {
-    if (!hookMatchesToolName(hook, event.toolName)) {
+    if ((hook.event || "post_tool_use") !== args.eventType) {
+      continue
+    }
+
+    if (!hookMatchesSubject(hook, args.subject)) {
       continue
     }
 
     result.matchedHooks += 1
+    const payload = args.buildPayload(hook)
+    let deliveryId: string | null = null
+    if (args.durable && deps.enqueueDelivery) {
+      try {
+        deliveryId = await deps.enqueueDelivery({
+          hookId: hook.id,
+          ownerUserId: args.ownerUserId,
+          eventType: args.eventType,
+          sessionId: args.sessionId,
+          toolUseId: args.toolUseId,
+          payload,
+        })
+      } catch (enqueueError) {
+        console.error("Failed to queue hook delivery; attempting once without retries:", enqueueError)
+      }
+    }
+
     const startedAt = deps.now()
-    const delivery = await postWebhook({
+    const delivery = await postHookWebhook({
       hook,
-      event,
+      payload,
       fetchFn: deps.fetchFn,
       timeoutMs: deps.timeoutMs(),
+      deliveryId,
+      attempt: deliveryId ? 1 : undefined,
+      now: startedAt,
     })
     const durationMs = Math.max(0, deps.now() - startedAt)
 
     try {
       await deps.persistExecution({
         hookId: hook.id,
-        sessionId: event.sessionId,
-        toolUseId: event.toolUseId,
+        eventType: args.eventType,
+        deliveryId,
+        attempt: deliveryId ? 1 : null,
+        sessionId: args.sessionId,
+        toolUseId: args.toolUseId,
         status: delivery.status,
         output: delivery.output,
         error: delivery.error,
         durationMs,
-        event,
+        event: args.event,
       })
     } catch (persistError) {
       console.error("Failed to persist hook execution log:", persistError)
     }
 
+    if (deliveryId && deps.settleDelivery) {
+      try {
+        await deps.settleDelivery({
+          deliveryId,
+          ownerUserId: args.ownerUserId,
+          attempts: 1,
+          delivery,
+        })
+      } catch (settleError) {
+        console.error("Failed to settle hook delivery:", settleError)
+      }
+    }
+
     if (delivery.status === "completed") {
       result.delivered += 1
     } else {
@@ -301,7 +357,251 @@ export async function runPostToolUseHooks(
       error: delivery.error,
     }
     result.executions.push(summary)
+
+    if (args.onDelivery && !args.onDelivery(hook, delivery)) {
+      break
+    }
+  }
+
+  if (args.durable && hooks.length > 0 && deps.drainDeliveries) {
+    deps.drainDeliveries(args.ownerUserId)
   }
 
   return result
 }
+
+export async function runPostToolUseHooks(
+  input: PostToolUseEventInput,
+  deps: PostToolUseHookRunnerDeps = defaultDeps,
+): Promise<PostToolUseHookRunResult> {
+  const normalizedInput = normalizePostToolUseEvent(input)
+
+  const ownerUserId = normalizedInput.ownerUserId?.trim()
+  const toolName = normalizedInput.toolName?.trim()
+  if (!ownerUserId || !toolName) {
+    return {
+      matchedHooks: 0,
+      delivered: 0,
+      failed: 0,
+      executions: [],
+    }
+  }
+
+  const event: PostToolUseEvent = {
+    ownerUserId,
+    toolName,
+    status: normalizedInput.status,
+    sessionId: normalizedInput.sessionId || null,
+    toolUseId: normalizedInput.toolUseId || null,
+    durationMs: normalizedInput.durationMs ?? null,
+    input: normalizedInput.input,
+    output: normalizedInput.output,
+    error: normalizedInput.error,
+    metadata: normalizedInput.metadata || {},
+    occurredAt: normalizedInput.occurredAt || new Date(),
+  }
+
+  return deliverToMatchingHooks({
+    eventType: "post_tool_use",
+    ownerUserId,
+    subject: event.toolName,
+    sessionId: event.sessionId,
+    toolUseId: event.toolUseId,
+    event,
+    buildPayload: (hook) => buildHookWebhookPayload(hook, event),
+    durable: true,
+    deps,
+  })
+}
+
+type ParsedPreToolUseResponse =
+  | { decision: "allow"; reason: string | null }
+  | { decision: "deny"; reason: string | null }
+  | { decision: "rewrite"; reason: string | null; input: unknown }
+
+/**
+ * Reads a pre_tool_use webhook response body. An empty body allows the tool;
+ * anything else must be a JSON object with `decision` of allow, deny or
+ * rewrite (the latter with a replacement `input`).
+ */
+export function parsePreToolUseHookResponse(text: string | null): ParsedPreToolUseResponse | null {
+  if (!text || !text.trim()) {
+    return { decision: "allow", reason: null }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return null
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return null
+  }
+
+  const record = parsed as Record<string, unknown>
+  const reason = typeof record.reason === "string" && record.reason.trim() ? record.reason.trim() : null
+
+  if (record.decision === "allow" || record.decision === "deny") {
+    return { decision: record.decision, reason }
+  }
+
+  if (record.decision === "rewrite" && Object.prototype.hasOwnProperty.call(record, "input")) {
+    return { decision: "rewrite", reason, input: record.input }
+  }
+
+  return null
+}
+
+/**
+ * Runs `pre_tool_use` hooks before a tool executes. Each matching webhook sees
+ * the input as rewritten by the hooks before it; the first deny stops the
+ * chain. Delivery failures follow `HOOK_PRE_TOOL_USE_FAIL_MODE`.
+ */
+export async function runPreToolUseHooks(
+  input: PreToolUseEventInput,
+  deps: PostToolUseHookRunnerDeps = defaultDeps,
+): Promise<PreToolUseHookRunResult> {
+  const normalizedInput = normalizePreToolUseEvent(input)
+  const ownerUserId = normalizedInput.ownerUserId?.trim()
+  const toolName = normalizedInput.toolName?.trim()
+  const allowed: PreToolUseHookRunResult = {
+    ...emptyRunResult(),
+    decision: "allow",
+    input: normalizedInput.input,
+    rewritten: false,
+    reason: null,
+    decidedByHookId: null,
+  }
+
+  if (!ownerUserId || !toolName) {
+    return allowed
+  }
+
+  const event: PreToolUseEvent = {
+    ownerUserId,
+    toolName,
+    sessionId: normalizedInput.sessionId || null,
+    toolUseId: normalizedInput.toolUseId || null,
+    input: normalizedInput.input,
+    metadata: normalizedInput.metadata || {},
+    occurredAt: normalizedInput.occurredAt || new Date(),
+  }
+  const failClosed = deps.preToolUseFailClosed ? deps.preToolUseFailClosed() : false
+  let currentInput = event.input
+  let rewritten = false
+  // A plain `let` would be narrowed to `null` here, since the type checker
+  // cannot see the assignments made inside onDelivery.
+  const outcome: { denial: { reason: string; hookId: string } | null } = { denial: null }
+
+  let delivered: PostToolUseHookRunResult
+  try {
+    delivered = await deliverToMatchingHooks({
+      eventType: "pre_tool_use",
+      ownerUserId,
+      subject: toolName,
+      sessionId: event.sessionId,
+      toolUseId: event.toolUseId,
+      event,
+      buildPayload: (hook) => buildPreToolUseWebhookPayload(hook, event, currentInput),
+      onDelivery: (hook, delivery) => {
+        const response = delivery.status === "completed"
+          ? parsePreToolUseHookResponse(delivery.responseText)
+          : null
+
+        if (!response) {
+          if (!failClosed) {
+            return true
+          }
+
+          outcome.denial = {
+            reason: `pre_tool_use hook \`${hook.name}\` failed: ${delivery.error || "invalid decision response"}`,
+            hookId: hook.id,
+          }
+          return false
+        }
+
+        if (response.decision === "deny") {
+          outcome.denial = {
+            reason: response.reason || `Denied by pre_tool_use hook \`${hook.name}\``,
+            hookId: hook.id,
+          }
+          return false
+        }
+
+        if (response.decision === "rewrite") {
+          currentInput = response.input
+          rewritten = true
+        }
+
+        return true
+      },
+      durable: false,
+      deps,
+    })
+  } catch (error) {
+    if (!failClosed) {
+      console.error("pre_tool_use hook lookup failed (fail-open):", error)
+      return allowed
+    }
+
+    return {
+      ...allowed,
+      decision: "deny",
+      reason: `pre_tool_use hooks could not be evaluated: ${asErrorMessage(error)}`,
+    }
+  }
+
+  const deniedBy = outcome.denial
+  return {
+    ...delivered,
+    decision: deniedBy ? "deny" : "allow",
+    input: currentInput,
+    rewritten,
+    reason: deniedBy?.reason || null,
+    decidedByHookId: deniedBy?.hookId || null,
+  }
+}
+
+export async function runLifecycleHooks(
+  input: LifecycleHookEventInput,
+  deps: PostToolUseHookRunnerDeps = defaultDeps,
+): Promise<PostToolUseHookRunResult> {
+  const normalizedInput = normalizeLifecycleHookEvent(input)
+  const ownerUserId = normalizedInput.ownerUserId?.trim()
+  if (!ownerUserId) {
+    return emptyRunResult()
+  }
+
+  const event: LifecycleHookEvent = {
+    ownerUserId,
+    event: normalizedInput.event,
+    subject: normalizedInput.subject,
+    sessionId: normalizedInput.sessionId || null,
+    payload: normalizedInput.payload || {},
+    occurredAt: normalizedInput.occurredAt || new Date(),
+  }
+
+  return deliverToMatchingHooks({
+    eventType: event.event,
+    ownerUserId,
+    subject: event.subject,
+    sessionId: event.sessionId,
+    toolUseId: null,
+    event,
+    buildPayload: (hook) => buildLifecycleWebhookPayload(hook, event),
+    durable: true,
+    deps,
+  })
+}
+
+/**
+ * Fire-and-forget variant for request paths that must not wait on, or fail
+ * because of, lifecycle webhooks.
+ */
+export function emitLifecycleHookEvent(input: LifecycleHookEventInput): void {
+  void runLifecycleHooks(input).catch((error) => {
+    console.error(`${input.event} hook delivery failed (fail-open):`, error)
+  })
+}
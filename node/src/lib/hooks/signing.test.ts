@@ -0,0 +1,57 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  buildHookWebhookHeaders,
+  generateHookSigningSecret,
+  isFreshHookTimestamp,
+  maskHookSigningSecret,
+  redactHookSigningSecret,
+  signHookWebhookPayload,
+  verifyHookWebhookSignature,
+} from "@/lib/hooks/signing"
+
+test("signHookWebhookPayload matches the timestamp.nonce.body HMAC scheme", () => {
+  const signature = signHookWebhookPayload("1700000000000", "nonce-1", "{\"ok\":true}", "whsec_test")
+
+  assert.match(signature, /^[0-9a-f]{64}$/)
+  assert.equal(verifyHookWebhookSignature("1700000000000", "nonce-1", "{\"ok\":true}", signature, "whsec_test"), true)
+  assert.equal(verifyHookWebhookSignature("1700000000000", "nonce-1", "{\"ok\":false}", signature, "whsec_test"), false)
+  assert.equal(verifyHookWebhookSignature("1700000000000", "nonce-1", "{\"ok\":true}", signature, "whsec_other"), false)
+})
+
+test("buildHookWebhookHeaders only signs when the hook has a secret", () => {
+  const unsigned = buildHookWebhookHeaders({ hookId: "hook-1", body: "{}" })
+  assert.equal(unsigned["X-OrchWiz-Hook-Id"], "hook-1")
+  assert.equal(unsigned["X-OrchWiz-Signature"], undefined)
+
+  const signed = buildHookWebhookHeaders({
+    hookId: "hook-1",
+    body: "{}",
+    signingSecret: "whsec_test",
+    deliveryId: "delivery-1",
+    attempt: 2,
+    now: 1700000000000,
+    nonce: "nonce-1",
+  })
+  assert.equal(signed["X-OrchWiz-Timestamp"], "1700000000000")
+  assert.equal(signed["X-OrchWiz-Delivery-Attempt"], "2")
+  assert.equal(signed["X-OrchWiz-Signature"], signHookWebhookPayload("1700000000000", "nonce-1", "{}", "whsec_test"))
+})
+
+test("isFreshHookTimestamp allows five minutes of clock skew", () => {
+  assert.equal(isFreshHookTimestamp("1700000000000", 1700000000000 + 4 * 60 * 1000), true)
+  assert.equal(isFreshHookTimestamp("1700000000000", 1700000000000 + 6 * 60 * 1000), false)
+  assert.equal(isFreshHookTimestamp("not-a-time"), false)
+})
+
+test("redactHookSigningSecret hides the secret unless it is being revealed", () => {
+  const secret = generateHookSigningSecret()
+  assert.match(secret, /^whsec_[0-9a-f]{64}$/)
+
+  const redacted = redactHookSigningSecret({ id: "hook-1", signingSecret: secret })
+  assert.equal("signingSecret" in redacted, false)
+  assert.equal(redacted.hasSigningSecret, true)
+  assert.equal(redacted.signingSecretPreview, maskHookSigningSecret(secret))
+
+  assert.equal(redactHookSigningSecret({ id: "hook-1", signingSecret: secret }, { reveal: true }).signingSecret, secret)
+})
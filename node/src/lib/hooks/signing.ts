@@ -0,0 +1,117 @@
+import crypto from "node:crypto"
+
+const ALLOWED_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+export const HOOK_SIGNING_SECRET_PREFIX = "whsec_"
+
+function safeCompareHex(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+
+  const bufferA = Buffer.from(a, "hex")
+  const bufferB = Buffer.from(b, "hex")
+  if (bufferA.length !== bufferB.length) {
+    return false
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB)
+}
+
+export function generateHookSigningSecret(): string {
+  return `${HOOK_SIGNING_SECRET_PREFIX}${crypto.randomBytes(32).toString("hex")}`
+}
+
+/**
+ * Same scheme as forwarding signatures: hex HMAC-SHA256 over
+ * `${timestamp}.${nonce}.${body}`, keyed with the hook's signing secret.
+ */
+export function signHookWebhookPayload(timestamp: string, nonce: string, body: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${nonce}.${body}`).digest("hex")
+}
+
+export function verifyHookWebhookSignature(
+  timestamp: string,
+  nonce: string,
+  body: string,
+  signature: string,
+  secret: string,
+): boolean {
+  const expected = signHookWebhookPayload(timestamp, nonce, body, secret)
+  return safeCompareHex(expected, signature)
+}
+
+export function isFreshHookTimestamp(timestamp: string, now = Date.now()): boolean {
+  const numericTimestamp = Number.parseInt(timestamp, 10)
+  if (!Number.isFinite(numericTimestamp)) {
+    return false
+  }
+
+  return Math.abs(now - numericTimestamp) <= ALLOWED_CLOCK_SKEW_MS
+}
+
+export function buildHookWebhookHeaders(args: {
+  hookId: string
+  body: string
+  signingSecret?: string | null
+  deliveryId?: string | null
+  attempt?: number
+  now?: number
+  nonce?: string
+}): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "OrchWiz-Hooks/1.0",
+    "X-OrchWiz-Hook-Id": args.hookId,
+  }
+
+  if (args.deliveryId) {
+    headers["X-OrchWiz-Delivery-Id"] = args.deliveryId
+  }
+
+  if (args.attempt !== undefined) {
+    headers["X-OrchWiz-Delivery-Attempt"] = String(args.attempt)
+  }
+
+  if (args.signingSecret) {
+    const timestamp = String(args.now ?? Date.now())
+    const nonce = args.nonce || crypto.randomUUID()
+    headers["X-OrchWiz-Timestamp"] = timestamp
+    headers["X-OrchWiz-Nonce"] = nonce
+    headers["X-OrchWiz-Signature"] = signHookWebhookPayload(timestamp, nonce, args.body, args.signingSecret)
+  }
+
+  return headers
+}
+
+/**
+ * Shows enough of a secret to tell two apart without making it usable.
+ */
+export function maskHookSigningSecret(secret: string | null | undefined): string | null {
+  if (!secret) {
+    return null
+  }
+
+  return `${secret.slice(0, HOOK_SIGNING_SECRET_PREFIX.length + 4)}...${secret.slice(-4)}`
+}
+
+/**
+ * Strips the signing secret from a hook response. The full secret is only
+ * returned when it was just created or rotated (`reveal`).
+ */
+export function redactHookSigningSecret<T extends { signingSecret?: string | null }>(
+  hook: T,
+  options: { reveal?: boolean } = {},
+): Omit<T, "signingSecret"> & {
+  hasSigningSecret: boolean
+  signingSecretPreview: string | null
+  signingSecret?: string
+} {
+  const { signingSecret, ...rest } = hook
+  return {
+    ...rest,
+    hasSigningSecret: Boolean(signingSecret),
+    signingSecretPreview: maskHookSigningSecret(signingSecret),
+    ...(options.reveal && signingSecret ? { signingSecret } : {}),
+  }
+}
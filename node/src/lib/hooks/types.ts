@@ -42,3 +42,62 @@ export interface PostToolUseHookRunResult {
   failed: number
   executions: HookExecutionSummary[]
 }
+
+export type HookEventType =
+  | "post_tool_use"
+  | "pre_tool_use"
+  | "session_start"
+  | "session_end"
+  | "prompt_submitted"
+  | "runtime_fallback"
+
+export type LifecycleHookEventType = Exclude<HookEventType, "post_tool_use" | "pre_tool_use">
+
+export interface PreToolUseEventInput {
+  ownerUserId: string
+  toolName: string
+  sessionId?: string | null
+  toolUseId?: string | null
+  input?: unknown
+  metadata?: Record<string, unknown>
+  occurredAt?: Date
+}
+
+export interface PreToolUseEvent {
+  ownerUserId: string
+  toolName: string
+  sessionId: string | null
+  toolUseId: string | null
+  input: unknown
+  metadata: Record<string, unknown>
+  occurredAt: Date
+}
+
+export type PreToolUseDecision = "allow" | "deny"
+
+export interface PreToolUseHookRunResult extends PostToolUseHookRunResult {
+  decision: PreToolUseDecision
+  input: unknown
+  rewritten: boolean
+  reason: string | null
+  decidedByHookId: string | null
+}
+
+export interface LifecycleHookEventInput {
+  ownerUserId: string
+  event: LifecycleHookEventType
+  /** Value tested against `Hook.matcher`, e.g. the session source or runtime provider. */
+  subject: string
+  sessionId?: string | null
+  payload?: Record<string, unknown>
+  occurredAt?: Date
+}
+
+export interface LifecycleHookEvent {
+  ownerUserId: string
+  event: LifecycleHookEventType
+  subject: string
+  sessionId: string | null
+  payload: Record<string, unknown>
+  occurredAt: Date
+}
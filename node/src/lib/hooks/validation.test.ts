@@ -47,6 +47,34 @@ test("parseHookCreateInput supports webhookUrl field for webhook hooks", () => {
   assert.equal(parsed.isActive, false)
 })
 
+test("parseHookCreateInput defaults event to post_tool_use and validates it", () => {
+  const defaults = withEnv({ HOOK_WEBHOOK_TARGET_ALLOWLIST: "hooks.example.com" }, () =>
+    parseHookCreateInput({
+      name: "Deploy notifier",
+      matcher: "deploy",
+      type: "webhook",
+      webhookUrl: "https://hooks.example.com/events",
+    }),
+  )
+  assert.equal(defaults.event, "post_tool_use")
+
+  const gate = withEnv({ HOOK_WEBHOOK_TARGET_ALLOWLIST: "hooks.example.com" }, () =>
+    parseHookCreateInput({
+      name: "Deploy gate",
+      matcher: "deploy",
+      type: "webhook",
+      event: "pre_tool_use",
+      webhookUrl: "https://hooks.example.com/gate",
+    }),
+  )
+  assert.equal(gate.event, "pre_tool_use")
+
+  assert.throws(
+    () => parseHookUpdateInput({ event: "on_whatever" }, { type: "webhook" }),
+    (error: unknown) => error instanceof HookValidationError && /event must be one of/.test(error.message),
+  )
+})
+
 test("parseHookCreateInput accepts command as backward-compatible webhook alias", () => {
   const parsed = withEnv({ HOOK_WEBHOOK_TARGET_ALLOWLIST: "hooks.example.com" }, () =>
     parseHookCreateInput({
@@ -163,3 +191,24 @@ test("parsePostToolUseTriggerBody normalizes trigger body", () => {
   assert.equal(parsed.occurredAt.toISOString(), "2026-02-10T10:00:00.000Z")
   assert.deepEqual(parsed.metadata, { source: "test" })
 })
+
+test("webhook hooks get a signing secret that can be rotated", () => {
+  const created = withEnv({ HOOK_WEBHOOK_TARGET_ALLOWLIST: "hooks.example.com" }, () =>
+    parseHookCreateInput({
+      name: "Deploy notifier",
+      matcher: "deploy",
+      type: "webhook",
+      webhookUrl: "https://hooks.example.com/events",
+    }),
+  )
+  assert.match(created.signingSecret || "", /^whsec_/)
+
+  const rotated = parseHookUpdateInput({ rotateSigningSecret: true }, { type: "webhook" })
+  assert.match(rotated.signingSecret || "", /^whsec_/)
+  assert.notEqual(rotated.signingSecret, created.signingSecret)
+
+  assert.throws(
+    () => parseHookUpdateInput({ rotateSigningSecret: true }, { type: "command" }),
+    (error: unknown) => error instanceof HookValidationError,
+  )
+})
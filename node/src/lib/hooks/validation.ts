@@ -4,15 +4,33 @@ import {
   isHookWebhookTargetAllowed,
   parseHookWebhookUrl,
 } from "@/lib/hooks/allowlist"
-import type { PostToolUseEventInput, PostToolUseStatus } from "@/lib/hooks/types"
+import { generateHookSigningSecret } from "@/lib/hooks/signing"
+import type {
+  HookEventType,
+  LifecycleHookEventInput,
+  PostToolUseEventInput,
+  PostToolUseStatus,
+  PreToolUseEventInput,
+} from "@/lib/hooks/types"
 
 export type HookTypeValue = "command" | "script" | "webhook"
 
+export const HOOK_EVENT_TYPES: HookEventType[] = [
+  "post_tool_use",
+  "pre_tool_use",
+  "session_start",
+  "session_end",
+  "prompt_submitted",
+  "runtime_fallback",
+]
+
 export interface ParsedHookCreateInput {
   name: string
   matcher: string
   type: HookTypeValue
+  event: HookEventType
   command: string
+  signingSecret: string | null
   isActive: boolean
 }
 
@@ -20,7 +38,9 @@ export interface ParsedHookUpdateInput {
   name?: string
   matcher?: string
   type?: HookTypeValue
+  event?: HookEventType
   command?: string
+  signingSecret?: string
   isActive?: boolean
 }
 
@@ -81,6 +101,19 @@ function parseHookType(value: unknown): HookTypeValue {
   throw new HookValidationError("type must be command, script, or webhook.")
 }
 
+function parseHookEvent(value: unknown): HookEventType {
+  if (value === undefined || value === null || value === "") {
+    return "post_tool_use"
+  }
+
+  const match = HOOK_EVENT_TYPES.find((eventType) => eventType === value)
+  if (!match) {
+    throw new HookValidationError(`event must be one of: ${HOOK_EVENT_TYPES.join(", ")}.`)
+  }
+
+  return match
+}
+
 export function assertValidMatcherPattern(matcher: string): void {
   try {
     // Validate user-supplied regex pattern eagerly to avoid runtime failures.
@@ -125,6 +158,7 @@ export function parseHookCreateInput(input: unknown): ParsedHookCreateInput {
   const name = asNonEmptyString(record.name)
   const matcher = asNonEmptyString(record.matcher)
   const type = parseHookType(record.type)
+  const event = parseHookEvent(record.event)
 
   if (!name || !matcher) {
     throw new HookValidationError("Name and matcher are required.")
@@ -146,7 +180,9 @@ export function parseHookCreateInput(input: unknown): ParsedHookCreateInput {
     name,
     matcher,
     type,
+    event,
     command,
+    signingSecret: type === "webhook" ? generateHookSigningSecret() : null,
     isActive: asOptionalBoolean(record.isActive) ?? true,
   }
 }
@@ -180,6 +216,10 @@ export function parseHookUpdateInput(
     update.type = nextType
   }
 
+  if (record.event !== undefined) {
+    update.event = parseHookEvent(record.event)
+  }
+
   const hasCommandField = Object.prototype.hasOwnProperty.call(record, "command")
   const hasWebhookUrlField = Object.prototype.hasOwnProperty.call(record, "webhookUrl")
   if (nextType === "webhook") {
@@ -196,6 +236,19 @@ export function parseHookUpdateInput(
     update.command = command
   }
 
+  if (record.rotateSigningSecret !== undefined && asOptionalBoolean(record.rotateSigningSecret) === undefined) {
+    throw new HookValidationError("rotateSigningSecret must be a boolean when provided.")
+  }
+
+  if (record.rotateSigningSecret === true) {
+    if (nextType !== "webhook") {
+      throw new HookValidationError("Only webhook hooks have a signing secret to rotate.")
+    }
+    update.signingSecret = generateHookSigningSecret()
+  } else if (nextType === "webhook" && existing.type !== "webhook") {
+    update.signingSecret = generateHookSigningSecret()
+  }
+
   const isActive = asOptionalBoolean(record.isActive)
   if (isActive !== undefined) {
     update.isActive = isActive
@@ -287,3 +340,24 @@ export function normalizePostToolUseEvent(input: PostToolUseEventInput): PostToo
     occurredAt: input.occurredAt || new Date(),
   }
 }
+
+export function normalizePreToolUseEvent(input: PreToolUseEventInput): PreToolUseEventInput {
+  return {
+    ...input,
+    toolName: input.toolName.trim(),
+    sessionId: asNonEmptyString(input.sessionId),
+    toolUseId: asNonEmptyString(input.toolUseId),
+    metadata: asRecord(input.metadata),
+    occurredAt: input.occurredAt || new Date(),
+  }
+}
+
+export function normalizeLifecycleHookEvent(input: LifecycleHookEventInput): LifecycleHookEventInput {
+  return {
+    ...input,
+    subject: input.subject.trim(),
+    sessionId: asNonEmptyString(input.sessionId),
+    payload: asRecord(input.payload),
+    occurredAt: input.occurredAt || new Date(),
+  }
+}
@@ -45,6 +45,7 @@ test("sidebar route channel aggregation resolves canonical channels", () => {
     "vault.topology",
     "vault.explorer",
     "vault.graph",
+    "vault.table",
   ])
 
   assert.deepEqual(notificationChannelsForSidebarHref("/settings"), [])
@@ -150,6 +151,7 @@ test("channel registries include full permissions, vault, and personal contracts
     "vault.topology",
     "vault.explorer",
     "vault.graph",
+    "vault.table",
   ])
   assert.deepEqual(Object.values(PERSONAL_TAB_NOTIFICATION_CHANNEL), [
     "personal.personal",
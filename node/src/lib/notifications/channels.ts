@@ -12,6 +12,7 @@ export const VAULT_TAB_NOTIFICATION_CHANNEL = {
   topology: "vault.topology",
   explorer: "vault.explorer",
   graph: "vault.graph",
+  table: "vault.table",
 } as const
 
 export const PERSONAL_TAB_NOTIFICATION_CHANNEL = {
@@ -0,0 +1,96 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { RagPerformanceSampleInput } from "./tracker"
+import { runRagVectorBenchmark } from "./rag-vector-benchmark"
+import type { VaultRagCitation } from "@/lib/vault/rag"
+
+function citation(path: string): VaultRagCitation {
+  return {
+    id: "S1",
+    path,
+    title: path,
+    excerpt: `excerpt for ${path}`,
+    scopeType: "global",
+    shipDeploymentId: null,
+    score: 1,
+    lexicalScore: 0.5,
+    semanticScore: 0.5,
+  }
+}
+
+test("runRagVectorBenchmark interleaves both paths and records a sample per run", async () => {
+  const calls: string[] = []
+  const samples: RagPerformanceSampleInput[] = []
+  let clock = 0
+
+  const result = await runRagVectorBenchmark(
+    {
+      userId: "admin-1",
+      query: "reactor",
+      vaultId: "joined",
+      scope: "all",
+      k: 3,
+      iterations: 2,
+    },
+    {
+      query: async (_args, vectorSearch) => {
+        calls.push(vectorSearch)
+        clock += vectorSearch === "pgvector" ? 4 : 20
+        return {
+          mode: "hybrid",
+          fallbackUsed: false,
+          results: vectorSearch === "pgvector"
+            ? [citation("a.md"), citation("c.md")]
+            : [citation("a.md"), citation("b.md")],
+        }
+      },
+      record: async (input) => {
+        samples.push(input)
+      },
+      now: () => clock,
+    },
+  )
+
+  assert.deepEqual(calls, ["in-process", "pgvector", "in-process", "pgvector"])
+  assert.deepEqual(samples.map((sample) => sample.effectiveBackend), [
+    "vault-local:in-process",
+    "vault-local:pgvector",
+    "vault-local:in-process",
+    "vault-local:pgvector",
+  ])
+  assert.ok(samples.every((sample) => sample.operation === "vector_benchmark" && sample.status === "success"))
+  assert.equal(result.paths[0].medianMs, 20)
+  assert.equal(result.paths[1].medianMs, 4)
+  assert.equal(result.topKOverlap, 0.5)
+})
+
+test("runRagVectorBenchmark counts failing runs as errors without aborting", async () => {
+  const samples: RagPerformanceSampleInput[] = []
+  const result = await runRagVectorBenchmark(
+    {
+      userId: "admin-1",
+      query: "reactor",
+      vaultId: "ship",
+      scope: "fleet",
+      k: 3,
+      iterations: 1,
+    },
+    {
+      query: async (_args, vectorSearch) => {
+        if (vectorSearch === "pgvector") {
+          throw new Error("extension \"vector\" is not available")
+        }
+        return { mode: "hybrid", fallbackUsed: false, results: [citation("a.md")] }
+      },
+      record: async (input) => {
+        samples.push(input)
+      },
+      now: () => 0,
+    },
+  )
+
+  assert.equal(result.paths[1].errors, 1)
+  assert.equal(result.paths[1].medianMs, null)
+  assert.equal(result.topKOverlap, null)
+  assert.equal(samples[1].status, "error")
+})
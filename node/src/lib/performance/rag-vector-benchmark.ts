@@ -0,0 +1,146 @@
+import { recordRagPerformanceSample, type RagPerformanceSampleInput } from "@/lib/performance/tracker"
+import { queryVaultRag, type VaultKnowledgeScope, type VaultRagQueryResult } from "@/lib/vault/rag"
+import type { VaultRagVectorSearch } from "@/lib/vault/rag-vector"
+
+export const RAG_VECTOR_BENCHMARK_ROUTE = "/api/performance/rag-benchmark"
+
+const BENCHMARK_PATHS: VaultRagVectorSearch[] = ["in-process", "pgvector"]
+
+export interface RagVectorBenchmarkArgs {
+  userId: string
+  query: string
+  vaultId: "orchwiz" | "ship" | "agent-public" | "agent-private" | "joined"
+  scope: VaultKnowledgeScope
+  shipDeploymentId?: string
+  k: number
+  iterations: number
+}
+
+export interface RagVectorBenchmarkPathSummary {
+  vectorSearch: VaultRagVectorSearch
+  runs: number
+  errors: number
+  minMs: number | null
+  medianMs: number | null
+  maxMs: number | null
+  resultCount: number
+  fallbackUsed: boolean
+}
+
+export interface RagVectorBenchmarkResult {
+  iterations: number
+  paths: RagVectorBenchmarkPathSummary[]
+  /** Share of the in-process top-k that pgvector also returned (recall against the exact path). */
+  topKOverlap: number | null
+}
+
+export interface RagVectorBenchmarkDeps {
+  query: (args: RagVectorBenchmarkArgs, vectorSearch: VaultRagVectorSearch) => Promise<VaultRagQueryResult>
+  record: (input: RagPerformanceSampleInput) => Promise<void>
+  now: () => number
+}
+
+const defaultDeps: RagVectorBenchmarkDeps = {
+  query: (args, vectorSearch) => queryVaultRag({
+    query: args.query,
+    vaultId: args.vaultId,
+    mode: "hybrid",
+    scope: args.scope,
+    shipDeploymentId: args.shipDeploymentId,
+    k: args.k,
+    vectorSearch,
+  }),
+  record: (input) => recordRagPerformanceSample(input),
+  now: () => performance.now(),
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null
+  }
+  const sorted = [...values].sort((left, right) => left - right)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function citationKeys(result: VaultRagQueryResult | null): string[] {
+  return (result?.results || []).map((citation) => `${citation.path}\n${citation.excerpt}`)
+}
+
+/**
+ * Runs the same hybrid query through the in-process cosine path and the
+ * pgvector path, interleaved so neither benefits from a warmer cache. Every
+ * run is stored as a RAG performance sample with `effectiveBackend`
+ * `vault-local:<path>`, so the summary endpoint compares them per backend.
+ */
+export async function runRagVectorBenchmark(
+  args: RagVectorBenchmarkArgs,
+  deps: RagVectorBenchmarkDeps = defaultDeps,
+): Promise<RagVectorBenchmarkResult> {
+  const durations = new Map<VaultRagVectorSearch, number[]>(BENCHMARK_PATHS.map((path) => [path, []]))
+  const errors = new Map<VaultRagVectorSearch, number>(BENCHMARK_PATHS.map((path) => [path, 0]))
+  const lastResults = new Map<VaultRagVectorSearch, VaultRagQueryResult>()
+
+  for (let iteration = 0; iteration < args.iterations; iteration += 1) {
+    for (const vectorSearch of BENCHMARK_PATHS) {
+      const startedAt = deps.now()
+      let result: VaultRagQueryResult | null = null
+      let errorCode: string | null = null
+      try {
+        result = await deps.query(args, vectorSearch)
+      } catch (error) {
+        errorCode = error instanceof Error ? error.name : "UNKNOWN"
+      }
+      const durationMs = deps.now() - startedAt
+
+      if (result) {
+        durations.get(vectorSearch)!.push(durationMs)
+        lastResults.set(vectorSearch, result)
+      } else {
+        errors.set(vectorSearch, errors.get(vectorSearch)! + 1)
+      }
+
+      await deps.record({
+        userId: args.userId,
+        shipDeploymentId: args.shipDeploymentId || null,
+        route: RAG_VECTOR_BENCHMARK_ROUTE,
+        operation: "vector_benchmark",
+        requestedBackend: "vault-local",
+        effectiveBackend: `vault-local:${vectorSearch}`,
+        mode: "hybrid",
+        scope: args.scope,
+        status: result ? "success" : "error",
+        fallbackUsed: result?.fallbackUsed === true,
+        durationMs,
+        resultCount: result?.results.length ?? null,
+        query: args.query,
+        errorCode,
+      })
+    }
+  }
+
+  const exactKeys = citationKeys(lastResults.get("in-process") || null)
+  const indexedKeys = new Set(citationKeys(lastResults.get("pgvector") || null))
+  const topKOverlap = exactKeys.length > 0 && lastResults.has("pgvector")
+    ? exactKeys.filter((key) => indexedKeys.has(key)).length / exactKeys.length
+    : null
+
+  return {
+    iterations: args.iterations,
+    paths: BENCHMARK_PATHS.map((vectorSearch) => {
+      const samples = durations.get(vectorSearch)!
+      const last = lastResults.get(vectorSearch)
+      return {
+        vectorSearch,
+        runs: samples.length,
+        errors: errors.get(vectorSearch)!,
+        minMs: samples.length > 0 ? Math.min(...samples) : null,
+        medianMs: median(samples),
+        maxMs: samples.length > 0 ? Math.max(...samples) : null,
+        resultCount: last?.results.length ?? 0,
+        fallbackUsed: last?.fallbackUsed === true,
+      }
+    }),
+    topKOverlap: topKOverlap === null ? null : Number(topKOverlap.toFixed(4)),
+  }
+}
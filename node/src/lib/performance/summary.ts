@@ -164,7 +164,7 @@ export function summarizePerformanceRows(rows: PerformanceAggregateInput[]): Per
   }
 
   const durations = rows.map((row) => row.durationMs).filter((value) => Number.isFinite(value) && value >= 0)
-  const errors = rows.filter((row) => row.status !== "success").length
+  const errors = rows.filter((row) => row.status !== "success" && row.status !== "cancelled").length
   const fallbackCount = rows.filter((row) => row.fallbackUsed).length
   const p50 = percentile(durations, 50)
   const p95 = percentile(durations, 95)
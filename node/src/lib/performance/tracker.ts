@@ -50,6 +50,7 @@ export interface RuntimePerformanceSampleInput {
   source: string
   runtimeProfile?: string | null
   provider?: string | null
+  providerInstanceId?: string | null
   status: string
   fallbackUsed?: boolean
   durationMs: number
@@ -176,6 +177,7 @@ export async function recordRuntimePerformanceSample(
       source: input.source,
       runtimeProfile: input.runtimeProfile || null,
       provider: input.provider || null,
+      providerInstanceId: input.providerInstanceId || null,
       status: input.status,
       fallbackUsed: input.fallbackUsed === true,
       durationMs: normalizeDurationMs(input.durationMs),
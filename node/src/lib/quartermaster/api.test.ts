@@ -19,6 +19,7 @@ function makeInteraction(
     id,
     sessionId: "session-1",
     type,
+    status: "completed",
     content,
     metadata: null,
     timestamp: new Date("2026-02-12T00:00:00.000Z"),
@@ -15,7 +15,7 @@ import {
   executeSessionPrompt,
   SessionPromptError,
 } from "@/lib/runtime/session-prompt"
-import { queryVaultRag } from "@/lib/vault/rag"
+import { formatVaultRagAnchor, queryVaultRag } from "@/lib/vault/rag"
 import { dataCoreEnabled } from "@/lib/data-core/config"
 import { getMergedMemoryRetriever, type MergedMemoryRetriever } from "@/lib/data-core/merged-memory-retriever"
 import {
@@ -41,6 +41,8 @@ export interface QuartermasterKnowledgeSource {
   excerpt: string
   scopeType: "ship" | "fleet" | "global"
   shipDeploymentId: string | null
+  /** Page or line range within the source file, e.g. `p. 3` or `L10-L24`. */
+  location?: string
 }
 
 export interface QuartermasterKnowledgePerformance {
@@ -338,14 +340,18 @@ export async function executeShipQuartermasterPrompt(
         fallbackUsed: knowledge.fallbackUsed,
         status: "success",
       },
-      sources: knowledge.results.map((result) => ({
-        id: result.id,
-        path: result.path,
-        title: result.title,
-        excerpt: result.excerpt,
-        scopeType: result.scopeType,
-        shipDeploymentId: result.shipDeploymentId,
-      })),
+      sources: knowledge.results.map((result) => {
+        const location = formatVaultRagAnchor(result.anchor)
+        return {
+          id: result.id,
+          path: result.path,
+          title: result.title,
+          excerpt: result.excerpt,
+          scopeType: result.scopeType,
+          shipDeploymentId: result.shipDeploymentId,
+          ...(location ? { location } : {}),
+        }
+      }),
     }
 
     await deps.recordRagPerformanceSample({
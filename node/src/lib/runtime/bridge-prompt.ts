@@ -47,6 +47,7 @@ export interface QuartermasterKnowledgeSource {
   excerpt?: string
   scopeType?: "ship" | "fleet" | "global"
   shipDeploymentId?: string | null
+  location?: string
 }
 
 export interface QuartermasterKnowledgeMetadata {
@@ -298,7 +299,8 @@ function summarizeQuartermasterKnowledge(knowledge?: QuartermasterKnowledgeMetad
     const path = source.path || "unknown-path"
     const title = source.title || "Untitled"
     const excerpt = source.excerpt || ""
-    lines.push(`[${id}] ${title} (${scope}) :: ${path}`)
+    const location = source.location ? ` (${source.location})` : ""
+    lines.push(`[${id}] ${title} (${scope}) :: ${path}${location}`)
     if (excerpt) {
       lines.push(`  Snippet: ${excerpt}`)
     }
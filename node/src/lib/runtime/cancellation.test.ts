@@ -0,0 +1,65 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import {
+  cancelInFlightSessionPrompts,
+  createRuntimeAbortedError,
+  isRuntimeAbortedError,
+  listInFlightSessionPrompts,
+  registerInFlightSessionPrompt,
+  sessionPromptTimeoutMs,
+} from "./cancellation"
+
+test("createRuntimeAbortedError distinguishes timeouts from cancels", () => {
+  const timedOut = new AbortController()
+  timedOut.abort("timeout")
+  const timeoutError = createRuntimeAbortedError("openclaw", timedOut.signal)
+  assert.equal(timeoutError.code, "RUNTIME_TIMED_OUT")
+  assert.equal(timeoutError.status, 504)
+  assert.equal(timeoutError.recoverable, false)
+
+  const dropped = new AbortController()
+  dropped.abort()
+  const droppedError = createRuntimeAbortedError("openclaw", dropped.signal)
+  assert.equal(droppedError.code, "RUNTIME_CANCELLED")
+  assert.deepEqual(droppedError.details, { reason: "disconnected" })
+  assert.equal(isRuntimeAbortedError(droppedError), true)
+})
+
+test("cancelInFlightSessionPrompts only aborts the caller's prompts for the session", () => {
+  const mine = new AbortController()
+  const otherUser = new AbortController()
+  const unregisterMine = registerInFlightSessionPrompt({
+    userId: "user-1",
+    sessionId: "session-1",
+    interactionId: "interaction-1",
+    controller: mine,
+  })
+  const unregisterOther = registerInFlightSessionPrompt({
+    userId: "user-2",
+    sessionId: "session-1",
+    interactionId: "interaction-2",
+    controller: otherUser,
+  })
+
+  try {
+    assert.deepEqual(
+      listInFlightSessionPrompts({ userId: "user-1", sessionId: "session-1" }).map((prompt) => prompt.interactionId),
+      ["interaction-1"],
+    )
+    assert.deepEqual(cancelInFlightSessionPrompts({ userId: "user-1", sessionId: "session-1" }), ["interaction-1"])
+    assert.equal(mine.signal.reason, "cancelled")
+    assert.equal(otherUser.signal.aborted, false)
+    assert.deepEqual(cancelInFlightSessionPrompts({ userId: "user-1", sessionId: "session-1" }), [])
+  } finally {
+    unregisterMine()
+    unregisterOther()
+  }
+
+  assert.deepEqual(listInFlightSessionPrompts({ userId: "user-2", sessionId: "session-1" }), [])
+})
+
+test("sessionPromptTimeoutMs defaults to five minutes and can be disabled", () => {
+  assert.equal(sessionPromptTimeoutMs({} as NodeJS.ProcessEnv), 300_000)
+  assert.equal(sessionPromptTimeoutMs({ NODE_ENV: "test", SESSION_PROMPT_TIMEOUT_MS: "0" } as NodeJS.ProcessEnv), null)
+  assert.equal(sessionPromptTimeoutMs({ NODE_ENV: "test", SESSION_PROMPT_TIMEOUT_MS: "45000" } as NodeJS.ProcessEnv), 45_000)
+})
@@ -0,0 +1,149 @@
+import { createNonRecoverableRuntimeError, RuntimeProviderError } from "@/lib/runtime/errors"
+import type { RuntimeProvider } from "@/lib/types/runtime"
+
+/**
+ * Why an in-flight prompt was aborted. Passed as the `AbortSignal` reason so
+ * every layer can tell a user cancel from a timeout or a dropped client.
+ */
+export type RuntimeAbortReason = "cancelled" | "timeout" | "disconnected"
+
+const ABORT_REASONS = new Set<RuntimeAbortReason>(["cancelled", "timeout", "disconnected"])
+
+interface InFlightPrompt {
+  userId: string
+  sessionId: string
+  interactionId: string
+  controller: AbortController
+  startedAt: number
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __orchwizInFlightPrompts: Map<string, InFlightPrompt> | undefined
+}
+
+function inFlightPrompts(): Map<string, InFlightPrompt> {
+  if (!globalThis.__orchwizInFlightPrompts) {
+    globalThis.__orchwizInFlightPrompts = new Map()
+  }
+
+  return globalThis.__orchwizInFlightPrompts
+}
+
+/** Signals aborted by the platform (e.g. `request.signal`) carry a DOMException; treat those as a dropped client. */
+export function runtimeAbortReason(signal: AbortSignal): RuntimeAbortReason {
+  return ABORT_REASONS.has(signal.reason as RuntimeAbortReason)
+    ? signal.reason as RuntimeAbortReason
+    : "disconnected"
+}
+
+/**
+ * Non-recoverable so the provider chain stops instead of falling through to
+ * the next provider; the circuit breaker ignores it for the same reason.
+ */
+export function createRuntimeAbortedError(provider: RuntimeProvider, signal: AbortSignal): RuntimeProviderError {
+  const reason = runtimeAbortReason(signal)
+  return createNonRecoverableRuntimeError({
+    provider,
+    code: reason === "timeout" ? "RUNTIME_TIMED_OUT" : "RUNTIME_CANCELLED",
+    message: reason === "timeout"
+      ? `${provider} runtime call exceeded the prompt timeout`
+      : `${provider} runtime call was cancelled`,
+    status: reason === "timeout" ? 504 : 499,
+    details: { reason },
+  })
+}
+
+export function isRuntimeAbortedError(error: unknown): error is RuntimeProviderError {
+  return error instanceof RuntimeProviderError
+    && (error.code === "RUNTIME_CANCELLED" || error.code === "RUNTIME_TIMED_OUT")
+}
+
+export function throwIfRuntimeAborted(provider: RuntimeProvider, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createRuntimeAbortedError(provider, signal)
+  }
+}
+
+/** Aborts `controller` when `signal` aborts; returns the listener cleanup. */
+export function linkAbortSignal(controller: AbortController, signal?: AbortSignal): () => void {
+  if (!signal) {
+    return () => {}
+  }
+
+  if (signal.aborted) {
+    controller.abort(signal.reason)
+    return () => {}
+  }
+
+  const onAbort = () => controller.abort(signal.reason)
+  signal.addEventListener("abort", onAbort, { once: true })
+  return () => signal.removeEventListener("abort", onAbort)
+}
+
+export function sessionPromptTimeoutMs(env: NodeJS.ProcessEnv = process.env): number | null {
+  const parsed = Number.parseInt(env.SESSION_PROMPT_TIMEOUT_MS || "300000", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/**
+ * Tracks a running session prompt so `cancelInFlightSessionPrompts` can abort
+ * it from another request. Returns the unregister callback.
+ */
+export function registerInFlightSessionPrompt(args: {
+  userId: string
+  sessionId: string
+  interactionId: string
+  controller: AbortController
+}): () => void {
+  const prompts = inFlightPrompts()
+  prompts.set(args.interactionId, {
+    ...args,
+    startedAt: Date.now(),
+  })
+
+  return () => {
+    if (prompts.get(args.interactionId)?.controller === args.controller) {
+      prompts.delete(args.interactionId)
+    }
+  }
+}
+
+export function listInFlightSessionPrompts(args: { userId: string; sessionId: string }): Array<{
+  interactionId: string
+  startedAt: string
+}> {
+  return [...inFlightPrompts().values()]
+    .filter((prompt) => prompt.userId === args.userId && prompt.sessionId === args.sessionId)
+    .map((prompt) => ({
+      interactionId: prompt.interactionId,
+      startedAt: new Date(prompt.startedAt).toISOString(),
+    }))
+}
+
+/**
+ * Aborts the caller's in-flight prompts for a session, or only the one whose
+ * user interaction is `interactionId`. Returns the interaction ids aborted.
+ */
+export function cancelInFlightSessionPrompts(args: {
+  userId: string
+  sessionId: string
+  interactionId?: string | null
+}): string[] {
+  const cancelled: string[] = []
+  for (const prompt of inFlightPrompts().values()) {
+    if (
+      prompt.userId !== args.userId
+      || prompt.sessionId !== args.sessionId
+      || (args.interactionId && prompt.interactionId !== args.interactionId)
+      || prompt.controller.signal.aborted
+    ) {
+      continue
+    }
+
+    prompt.controller.abort("cancelled" satisfies RuntimeAbortReason)
+    cancelled.push(prompt.interactionId)
+  }
+
+  return cancelled
+}
@@ -0,0 +1,87 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { createRecoverableRuntimeError } from "./errors"
+import { createRuntimeCircuitBreaker } from "./circuit-breaker"
+
+function breakerAt(clock: { now: number }) {
+  return createRuntimeCircuitBreaker({
+    config: () => ({ enabled: true, failureThreshold: 2, cooldownMs: 1000 }),
+    now: () => clock.now,
+  })
+}
+
+const timeout = createRecoverableRuntimeError({
+  provider: "openclaw",
+  code: "OPENCLAW_TIMEOUT",
+  message: "gateway timed out",
+})
+
+test("circuit opens after consecutive failures and rejects until the cool-down passes", () => {
+  const clock = { now: 0 }
+  const breaker = breakerAt(clock)
+
+  breaker.recordFailure("openclaw", timeout)
+  assert.deepEqual(breaker.admit("openclaw"), { allowed: true, probe: false })
+
+  breaker.recordFailure("openclaw", timeout)
+  const rejected = breaker.admit("openclaw")
+  assert.equal(rejected.allowed, false)
+  if (!rejected.allowed) {
+    assert.equal(rejected.retryAt, new Date(1000).toISOString())
+  }
+
+  const [snapshot] = breaker.snapshot(["openclaw"])
+  assert.equal(snapshot.state, "open")
+  assert.equal(snapshot.tripCount, 1)
+  assert.equal(snapshot.lastError, "OPENCLAW_TIMEOUT: gateway timed out")
+})
+
+test("half-open admits a single probe and closes on success", () => {
+  const clock = { now: 0 }
+  const breaker = breakerAt(clock)
+  breaker.recordFailure("openclaw", timeout)
+  breaker.recordFailure("openclaw", timeout)
+
+  clock.now = 1500
+  assert.deepEqual(breaker.admit("openclaw"), { allowed: true, probe: true })
+  assert.equal(breaker.admit("openclaw").allowed, false)
+
+  breaker.recordSuccess("openclaw")
+  assert.deepEqual(breaker.admit("openclaw"), { allowed: true, probe: false })
+  assert.equal(breaker.snapshot(["openclaw"])[0].state, "closed")
+})
+
+test("a failed probe re-opens the circuit for another cool-down", () => {
+  const clock = { now: 0 }
+  const breaker = breakerAt(clock)
+  breaker.recordFailure("openclaw", timeout)
+  breaker.recordFailure("openclaw", timeout)
+
+  clock.now = 1500
+  assert.equal(breaker.admit("openclaw").allowed, true)
+  breaker.recordFailure("openclaw", timeout)
+
+  const rejected = breaker.admit("openclaw")
+  assert.equal(rejected.allowed, false)
+  if (!rejected.allowed) {
+    assert.equal(rejected.retryAt, new Date(2500).toISOString())
+  }
+  assert.equal(breaker.snapshot(["openclaw"])[0].tripCount, 2)
+})
+
+test("configuration errors and local fallback never trip the circuit", () => {
+  const breaker = breakerAt({ now: 0 })
+  const notConfigured = createRecoverableRuntimeError({
+    provider: "openclaw",
+    code: "OPENCLAW_NOT_CONFIGURED",
+    message: "missing gateway url",
+  })
+
+  for (let index = 0; index < 5; index += 1) {
+    breaker.recordFailure("openclaw", notConfigured)
+    breaker.recordFailure("local-fallback", timeout)
+  }
+
+  assert.equal(breaker.admit("openclaw").allowed, true)
+  assert.equal(breaker.admit("local-fallback").allowed, true)
+})
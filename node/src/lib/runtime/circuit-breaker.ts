@@ -0,0 +1,284 @@
+import type { RuntimeProviderError } from "@/lib/runtime/errors"
+import type { RuntimeProvider, RuntimeProviderInstanceId } from "@/lib/types/runtime"
+
+export type RuntimeCircuitState = "closed" | "open" | "half_open"
+
+export interface RuntimeCircuitBreakerConfig {
+  enabled: boolean
+  failureThreshold: number
+  cooldownMs: number
+}
+
+/**
+ * Circuits are per resolved backend: a built-in provider id, or an instance
+ * provider id suffixed with the instance record it resolved to for the request.
+ */
+export type RuntimeCircuitKey = RuntimeProvider | `${RuntimeProviderInstanceId}#${string}`
+
+export interface RuntimeCircuitSnapshot {
+  provider: RuntimeProvider
+  instanceId: string | null
+  state: RuntimeCircuitState
+  consecutiveFailures: number
+  failureThreshold: number
+  openedAt: string | null
+  retryAt: string | null
+  lastError: string | null
+  lastFailureAt: string | null
+  lastSuccessAt: string | null
+  tripCount: number
+}
+
+export type RuntimeCircuitAdmission =
+  | { allowed: true; probe: boolean }
+  | { allowed: false; reason: string; retryAt: string | null }
+
+export interface RuntimeCircuitBreaker {
+  admit: (key: RuntimeCircuitKey) => RuntimeCircuitAdmission
+  recordSuccess: (key: RuntimeCircuitKey) => void
+  recordFailure: (key: RuntimeCircuitKey, error: RuntimeProviderError) => void
+  release: (key: RuntimeCircuitKey) => void
+  snapshot: (keys?: RuntimeCircuitKey[]) => RuntimeCircuitSnapshot[]
+  reset: () => void
+}
+
+interface ProviderCircuit {
+  state: RuntimeCircuitState
+  consecutiveFailures: number
+  openedAt: number | null
+  probeInFlight: boolean
+  lastError: string | null
+  lastFailureAt: number | null
+  lastSuccessAt: number | null
+  tripCount: number
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __orchwizRuntimeCircuitBreaker: RuntimeCircuitBreaker | undefined
+}
+
+/** Providers the breaker reports on; `local-fallback` never trips. */
+export const RUNTIME_CIRCUIT_PROVIDERS: RuntimeProvider[] = ["openclaw", "openai-fallback", "codex-cli"]
+
+/**
+ * Error codes that describe configuration or the request rather than the
+ * provider's health. They fail instantly, so they do not count toward a trip.
+ */
+const NEUTRAL_ERROR_CODES = new Set([
+  "CODEX_BINARY_NOT_FOUND",
+  "CODEX_PROVIDER_PROXY_API_KEY_MISSING",
+  "QUARTERMASTER_SUBAGENT_MISSING",
+  "QUARTERMASTER_POLICY_BLOCKED",
+])
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function runtimeCircuitBreakerConfig(env: NodeJS.ProcessEnv = process.env): RuntimeCircuitBreakerConfig {
+  return {
+    enabled: env.RUNTIME_CIRCUIT_BREAKER_ENABLED !== "false",
+    failureThreshold: readPositiveInt(env.RUNTIME_CIRCUIT_FAILURE_THRESHOLD, 3),
+    cooldownMs: readPositiveInt(env.RUNTIME_CIRCUIT_COOLDOWN_MS, 30_000),
+  }
+}
+
+export function countsTowardRuntimeCircuit(error: RuntimeProviderError): boolean {
+  return error.recoverable
+    && !error.code.endsWith("_NOT_CONFIGURED")
+    && !NEUTRAL_ERROR_CODES.has(error.code)
+}
+
+export function runtimeCircuitKey(provider: RuntimeProvider, instanceId?: string | null): RuntimeCircuitKey {
+  return instanceId ? `${provider as RuntimeProviderInstanceId}#${instanceId}` : provider
+}
+
+function parseRuntimeCircuitKey(key: RuntimeCircuitKey): { provider: RuntimeProvider; instanceId: string | null } {
+  const separatorIndex = key.indexOf("#")
+  return separatorIndex < 0
+    ? { provider: key as RuntimeProvider, instanceId: null }
+    : { provider: key.slice(0, separatorIndex) as RuntimeProvider, instanceId: key.slice(separatorIndex + 1) }
+}
+
+function toIso(value: number | null): string | null {
+  return value === null ? null : new Date(value).toISOString()
+}
+
+/**
+ * Closed -> open after `failureThreshold` consecutive counted failures. Once
+ * `cooldownMs` has passed, the next request is admitted as a single half-open
+ * probe: success closes the circuit, failure re-opens it for another cool-down.
+ */
+export function createRuntimeCircuitBreaker(
+  options: {
+    config?: () => RuntimeCircuitBreakerConfig
+    now?: () => number
+  } = {},
+): RuntimeCircuitBreaker {
+  const readConfig = options.config || (() => runtimeCircuitBreakerConfig())
+  const now = options.now || (() => Date.now())
+  const circuits = new Map<RuntimeCircuitKey, ProviderCircuit>()
+
+  const circuitFor = (key: RuntimeCircuitKey): ProviderCircuit => {
+    let circuit = circuits.get(key)
+    if (!circuit) {
+      circuit = {
+        state: "closed",
+        consecutiveFailures: 0,
+        openedAt: null,
+        probeInFlight: false,
+        lastError: null,
+        lastFailureAt: null,
+        lastSuccessAt: null,
+        tripCount: 0,
+      }
+      circuits.set(key, circuit)
+    }
+
+    return circuit
+  }
+
+  const release = (key: RuntimeCircuitKey) => {
+    const circuit = circuits.get(key)
+    if (circuit) {
+      circuit.probeInFlight = false
+    }
+  }
+
+  const open = (circuit: ProviderCircuit, at: number) => {
+    if (circuit.state !== "open") {
+      circuit.tripCount += 1
+    }
+    circuit.state = "open"
+    circuit.openedAt = at
+    circuit.probeInFlight = false
+  }
+
+  return {
+    admit(key) {
+      const config = readConfig()
+      if (!config.enabled || key === "local-fallback") {
+        return { allowed: true, probe: false }
+      }
+
+      const circuit = circuitFor(key)
+      const current = now()
+
+      if (circuit.state === "open") {
+        const retryAt = (circuit.openedAt ?? current) + config.cooldownMs
+        if (current < retryAt) {
+          return {
+            allowed: false,
+            reason: `circuit open after ${circuit.consecutiveFailures} consecutive failures`,
+            retryAt: toIso(retryAt),
+          }
+        }
+
+        circuit.state = "half_open"
+        circuit.probeInFlight = false
+      }
+
+      if (circuit.state === "half_open") {
+        if (circuit.probeInFlight) {
+          return {
+            allowed: false,
+            reason: "circuit half-open; probe in flight",
+            retryAt: null,
+          }
+        }
+
+        circuit.probeInFlight = true
+        return { allowed: true, probe: true }
+      }
+
+      return { allowed: true, probe: false }
+    },
+
+    recordSuccess(key) {
+      if (key === "local-fallback") {
+        return
+      }
+
+      const circuit = circuitFor(key)
+      circuit.state = "closed"
+      circuit.consecutiveFailures = 0
+      circuit.openedAt = null
+      circuit.probeInFlight = false
+      circuit.lastSuccessAt = now()
+    },
+
+    recordFailure(key, error) {
+      if (key === "local-fallback" || !countsTowardRuntimeCircuit(error)) {
+        release(key)
+        return
+      }
+
+      const config = readConfig()
+      const circuit = circuitFor(key)
+      const current = now()
+      circuit.consecutiveFailures += 1
+      circuit.lastError = `${error.code}: ${error.message}`
+      circuit.lastFailureAt = current
+
+      if (circuit.state === "half_open" || circuit.consecutiveFailures >= config.failureThreshold) {
+        if (circuit.state !== "open") {
+          console.warn("Runtime provider circuit opened", {
+            ...parseRuntimeCircuitKey(key),
+            consecutiveFailures: circuit.consecutiveFailures,
+            lastError: circuit.lastError,
+          })
+        }
+        open(circuit, current)
+      }
+    },
+
+    /** Frees a half-open probe slot when the attempt ended without a verdict. */
+    release,
+
+    snapshot(keys = RUNTIME_CIRCUIT_PROVIDERS) {
+      const config = readConfig()
+      const current = now()
+      const ids = [...new Set([...keys, ...circuits.keys()])]
+
+      return ids.map((key) => {
+        const circuit = circuitFor(key)
+        const reopenAt = circuit.openedAt === null ? null : circuit.openedAt + config.cooldownMs
+        const state: RuntimeCircuitState = circuit.state === "open" && reopenAt !== null && current >= reopenAt
+          ? "half_open"
+          : circuit.state
+
+        return {
+          ...parseRuntimeCircuitKey(key),
+          state,
+          consecutiveFailures: circuit.consecutiveFailures,
+          failureThreshold: config.failureThreshold,
+          openedAt: toIso(circuit.openedAt),
+          retryAt: state === "open" ? toIso(reopenAt) : null,
+          lastError: circuit.lastError,
+          lastFailureAt: toIso(circuit.lastFailureAt),
+          lastSuccessAt: toIso(circuit.lastSuccessAt),
+          tripCount: circuit.tripCount,
+        }
+      })
+    },
+
+    reset() {
+      circuits.clear()
+    },
+  }
+}
+
+/** Process-wide breaker shared by every runtime request. */
+export function getRuntimeCircuitBreaker(): RuntimeCircuitBreaker {
+  if (!globalThis.__orchwizRuntimeCircuitBreaker) {
+    globalThis.__orchwizRuntimeCircuitBreaker = createRuntimeCircuitBreaker()
+  }
+
+  return globalThis.__orchwizRuntimeCircuitBreaker
+}
+
+export function getRuntimeCircuitSnapshot(): RuntimeCircuitSnapshot[] {
+  return getRuntimeCircuitBreaker().snapshot()
+}
@@ -0,0 +1,42 @@
+import type { RuntimeGuardAction, RuntimeGuardCategory } from "@prisma/client"
+
+export interface RuntimeGuardConfig {
+  enabled: boolean
+  injectionThreshold: number
+  policies: Record<RuntimeGuardCategory, RuntimeGuardAction>
+}
+
+const RUNTIME_GUARD_ACTIONS: readonly RuntimeGuardAction[] = ["block", "redact", "flag"]
+
+function asBoolean(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined) return fallback
+  const normalized = value.trim().toLowerCase()
+  if (["1", "true", "yes", "on"].includes(normalized)) return true
+  if (["0", "false", "no", "off"].includes(normalized)) return false
+  return fallback
+}
+
+function asNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || "")
+  if (!Number.isFinite(parsed)) return fallback
+  return parsed
+}
+
+function asAction(value: string | undefined, fallback: RuntimeGuardAction): RuntimeGuardAction {
+  const normalized = value?.trim().toLowerCase()
+  return RUNTIME_GUARD_ACTIONS.includes(normalized as RuntimeGuardAction)
+    ? normalized as RuntimeGuardAction
+    : fallback
+}
+
+export function runtimeGuardConfig(env: Record<string, string | undefined> = process.env): RuntimeGuardConfig {
+  return {
+    enabled: asBoolean(env.RUNTIME_GUARD_ENABLED, true),
+    injectionThreshold: Math.max(0.05, Math.min(1, asNumber(env.RUNTIME_GUARD_INJECTION_THRESHOLD, 0.6))),
+    policies: {
+      injection: asAction(env.RUNTIME_GUARD_INJECTION_ACTION, "block"),
+      secret: asAction(env.RUNTIME_GUARD_SECRET_ACTION, "redact"),
+      pii: asAction(env.RUNTIME_GUARD_PII_ACTION, "flag"),
+    },
+  }
+}
@@ -0,0 +1,210 @@
+import type { RuntimeGuardCategory } from "@prisma/client"
+
+export interface RuntimeGuardMatch {
+  category: RuntimeGuardCategory
+  detector: string
+  start: number
+  end: number
+  value: string
+}
+
+interface RuntimeGuardPattern {
+  detector: string
+  regex: RegExp
+  /** Contribution to the injection score; ignored for secret and PII detectors. */
+  weight?: number
+  validate?: (value: string) => boolean
+}
+
+const INJECTION_PATTERNS: RuntimeGuardPattern[] = [
+  {
+    detector: "ignore_previous_instructions",
+    regex: /\b(?:ignore|disregard|forget)\s+(?:all\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|rules|directives)/giu,
+    weight: 0.6,
+  },
+  {
+    detector: "system_prompt_extraction",
+    regex: /\b(?:reveal|print|show|repeat|output|leak)\s+(?:me\s+)?(?:your\s+|the\s+)?(?:system|hidden|initial|developer)\s+(?:prompt|instructions|message)/giu,
+    weight: 0.5,
+  },
+  {
+    detector: "role_override",
+    regex: /\byou\s+are\s+now\s+(?:in\s+)?(?:dan|developer\s+mode|jailbroken|unrestricted|unfiltered)\b|\bact\s+as\s+(?:an?\s+)?(?:unrestricted|unfiltered|jailbroken)\b/giu,
+    weight: 0.5,
+  },
+  {
+    detector: "bypass_policy",
+    regex: /\bbypass\s+(?:the\s+|your\s+)?(?:security|policy|policies|guardrails?|safety|filters?)\b/giu,
+    weight: 0.4,
+  },
+  {
+    detector: "exfiltrate_data",
+    regex: /\bexfiltrat(?:e|ion)\b|\bleak\s+(?:the\s+)?(?:data|secrets?|credentials|keys)\b/giu,
+    weight: 0.4,
+  },
+  {
+    detector: "spoofed_system_turn",
+    regex: /<\|?(?:im_start|system)\|?>|^\s*\[?system\]?\s*:/gimu,
+    weight: 0.3,
+  },
+]
+
+const SECRET_PATTERNS: RuntimeGuardPattern[] = [
+  { detector: "private_key", regex: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )?PRIVATE KEY-----/gu },
+  { detector: "aws_access_key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/gu },
+  { detector: "github_token", regex: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/gu },
+  { detector: "slack_token", regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/gu },
+  { detector: "openai_api_key", regex: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/gu },
+  { detector: "jwt", regex: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/gu },
+  {
+    detector: "credential_assignment",
+    regex: /\b(?:api[_-]?key|secret|password|passwd|access[_-]?token)\s*[:=]\s*["']?[^\s"']{8,}/giu,
+  },
+]
+
+const PII_PATTERNS: RuntimeGuardPattern[] = [
+  { detector: "email_address", regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/gu },
+  { detector: "us_ssn", regex: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/gu },
+  { detector: "payment_card", regex: /\b\d(?:[ -]?\d){12,18}\b/gu, validate: passesLuhnCheck },
+  { detector: "phone_number", regex: /(?<![\w+])\+\d{1,3}[ .-]?\(?\d{1,4}\)?(?:[ .-]?\d{2,4}){2,4}\b/gu },
+]
+
+function passesLuhnCheck(value: string): boolean {
+  const digits = value.replace(/\D/gu, "")
+  if (digits.length < 13 || digits.length > 19) {
+    return false
+  }
+
+  let sum = 0
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index])
+    if (index % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+
+  return sum % 10 === 0
+}
+
+function collectMatches(
+  text: string,
+  category: RuntimeGuardCategory,
+  patterns: RuntimeGuardPattern[],
+): RuntimeGuardMatch[] {
+  const matches: RuntimeGuardMatch[] = []
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern.regex)) {
+      if (pattern.validate && !pattern.validate(match[0])) {
+        continue
+      }
+
+      matches.push({
+        category,
+        detector: pattern.detector,
+        start: match.index,
+        end: match.index + match[0].length,
+        value: match[0],
+      })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Scores a prompt for injection. Each distinct detector contributes its weight
+ * independently (`1 - Π(1 - w)`), so one strong phrase can cross the default
+ * threshold while several weak ones have to stack.
+ */
+export function scoreRuntimePromptInjection(prompt: string): { score: number; matches: RuntimeGuardMatch[] } {
+  const matches = collectMatches(prompt, "injection", INJECTION_PATTERNS)
+  const detectors = new Set(matches.map((match) => match.detector))
+  let remaining = 1
+  for (const pattern of INJECTION_PATTERNS) {
+    if (detectors.has(pattern.detector)) {
+      remaining *= 1 - (pattern.weight ?? 0)
+    }
+  }
+
+  return {
+    score: Math.round((1 - remaining) * 1000) / 1000,
+    matches,
+  }
+}
+
+export function scanRuntimeOutputForLeaks(output: string): RuntimeGuardMatch[] {
+  return [
+    ...collectMatches(output, "secret", SECRET_PATTERNS),
+    ...collectMatches(output, "pii", PII_PATTERNS),
+  ]
+}
+
+/**
+ * Text always held back from a stream, so spaced card and phone numbers are
+ * complete before anything around them is released.
+ */
+const STREAM_CARRY_CHARS = 32
+const TRAILING_CREDENTIAL_KEY_PATTERN = /\b(?:api[_-]?key|secret|password|passwd|access[_-]?token)\s*[:=]?\s*["']?$/iu
+
+/**
+ * How much of `text` (streamed output not yet released) can be emitted
+ * without splitting something the detectors could still match once more text
+ * arrives. Holds back the carry window, the trailing unbroken token (keys and
+ * tokens arrive in pieces), a credential key still waiting for its value, an
+ * unterminated private key block and any match reaching into the held part.
+ */
+export function runtimeGuardStreamCut(text: string, matches: RuntimeGuardMatch[]): number {
+  let cut = Math.min(text.length - STREAM_CARRY_CHARS, text.length - (text.match(/\S*$/u)?.[0].length ?? 0))
+
+  const credentialKey = text.match(TRAILING_CREDENTIAL_KEY_PATTERN)
+  if (credentialKey?.index !== undefined) {
+    cut = Math.min(cut, credentialKey.index)
+  }
+
+  const privateKeyStart = text.lastIndexOf("-----BEGIN")
+  if (privateKeyStart >= 0 && text.indexOf("-----END", privateKeyStart) === -1) {
+    cut = Math.min(cut, privateKeyStart)
+  }
+
+  let moved = true
+  while (moved) {
+    moved = false
+    for (const match of matches) {
+      if (match.start < cut && match.end > cut) {
+        cut = match.start
+        moved = true
+      }
+    }
+  }
+
+  return Math.max(0, cut)
+}
+
+/** Replaces matched spans with `[REDACTED:<detector>]`; overlapping spans collapse into the earliest one. */
+export function redactRuntimeGuardMatches(text: string, matches: RuntimeGuardMatch[]): string {
+  const ordered = [...matches].sort((left, right) => left.start - right.start || right.end - left.end)
+  let cursor = 0
+  let redacted = ""
+  for (const match of ordered) {
+    if (match.start < cursor) {
+      continue
+    }
+
+    redacted += `${text.slice(cursor, match.start)}[REDACTED:${match.detector}]`
+    cursor = match.end
+  }
+
+  return redacted + text.slice(cursor)
+}
+
+/** Findings never store a leaked value verbatim: secrets and PII keep a short prefix only. */
+export function runtimeGuardExcerpt(match: RuntimeGuardMatch): string {
+  if (match.category === "injection") {
+    return match.value.replace(/\s+/gu, " ").trim().slice(0, 160)
+  }
+
+  const prefix = match.value.slice(0, Math.min(4, Math.floor(match.value.length / 4)))
+  return `${prefix}… (${match.value.length} chars)`
+}
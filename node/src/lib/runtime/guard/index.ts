@@ -0,0 +1,279 @@
+import type { RuntimeGuardAction, RuntimeGuardCategory, RuntimeGuardStage } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import type { RuntimeRequest } from "@/lib/types/runtime"
+import { runtimeGuardConfig, type RuntimeGuardConfig } from "./config"
+import {
+  redactRuntimeGuardMatches,
+  runtimeGuardExcerpt,
+  runtimeGuardStreamCut,
+  scanRuntimeOutputForLeaks,
+  scoreRuntimePromptInjection,
+  type RuntimeGuardMatch,
+} from "./detectors"
+
+export { runtimeGuardConfig, type RuntimeGuardConfig } from "./config"
+export {
+  redactRuntimeGuardMatches,
+  scanRuntimeOutputForLeaks,
+  scoreRuntimePromptInjection,
+  type RuntimeGuardMatch,
+} from "./detectors"
+
+/** Threat and control IDs from `BRIDGE_CORE_THREAT_MODEL` that each guard category evidences. */
+export const RUNTIME_GUARD_THREAT_LINKS: Record<RuntimeGuardCategory, { threatIds: string[]; controlIds: string[] }> = {
+  injection: { threatIds: ["TM-01"], controlIds: ["CTRL-RUNTIME-GUARD"] },
+  secret: { threatIds: ["TM-04", "TM-03"], controlIds: ["CTRL-RUNTIME-DLP"] },
+  pii: { threatIds: ["TM-03"], controlIds: ["CTRL-RUNTIME-DLP"] },
+}
+
+export interface RuntimeGuardFindingInput {
+  userId: string | null
+  sessionId: string | null
+  stage: RuntimeGuardStage
+  category: RuntimeGuardCategory
+  detector: string
+  action: RuntimeGuardAction
+  score: number
+  threatIds: string[]
+  controlIds: string[]
+  excerpt: string | null
+  runtimeProfile: string | null
+  provider: string | null
+}
+
+export interface RuntimeGuardDeps {
+  config?: RuntimeGuardConfig
+  recordFindings?: (findings: RuntimeGuardFindingInput[]) => Promise<void>
+}
+
+export interface RuntimeOutputStreamGuard {
+  /** Adds a streamed chunk and returns the text that is safe to emit now, already redacted. */
+  push(text: string): string
+  /** Releases the held tail; call once the full output has passed `applyRuntimeOutputGuard`. */
+  flush(): string
+}
+
+export interface RuntimeGuardStageSummary {
+  action: RuntimeGuardAction
+  score: number
+  detectors: string[]
+}
+
+export class RuntimeGuardBlockedError extends Error {
+  status: number
+  code: string
+  stage: RuntimeGuardStage
+  detectors: string[]
+
+  constructor(stage: RuntimeGuardStage, detectors: string[]) {
+    super(
+      stage === "prompt"
+        ? "Prompt blocked by the runtime guard."
+        : "Runtime output withheld by the runtime guard.",
+    )
+    this.name = "RuntimeGuardBlockedError"
+    this.status = 422
+    this.code = "RUNTIME_GUARD_BLOCKED"
+    this.stage = stage
+    this.detectors = detectors
+  }
+}
+
+async function recordRuntimeGuardFindingsInDb(findings: RuntimeGuardFindingInput[]): Promise<void> {
+  await prisma.runtimeGuardFinding.createMany({
+    data: findings,
+  })
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function runtimeProfileFromRequest(request: RuntimeRequest): string | null {
+  const profile = asRecord(asRecord(request.metadata).runtime).profile
+  return typeof profile === "string" && profile.trim() ? profile.trim() : null
+}
+
+const ACTION_SEVERITY: Record<RuntimeGuardAction, number> = {
+  flag: 0,
+  redact: 1,
+  block: 2,
+}
+
+function strictestAction(actions: RuntimeGuardAction[]): RuntimeGuardAction {
+  return actions.reduce<RuntimeGuardAction>(
+    (strictest, action) => ACTION_SEVERITY[action] > ACTION_SEVERITY[strictest] ? action : strictest,
+    "flag",
+  )
+}
+
+/** One finding per detector, so a prompt pasting the same key five times is one finding. */
+function buildFindings(args: {
+  request: RuntimeRequest
+  stage: RuntimeGuardStage
+  matches: RuntimeGuardMatch[]
+  config: RuntimeGuardConfig
+  score: number
+  provider: string | null
+}): RuntimeGuardFindingInput[] {
+  const byDetector = new Map<string, RuntimeGuardMatch>()
+  for (const match of args.matches) {
+    if (!byDetector.has(match.detector)) {
+      byDetector.set(match.detector, match)
+    }
+  }
+
+  return [...byDetector.values()].map((match) => ({
+    userId: args.request.userId || null,
+    sessionId: args.request.sessionId || null,
+    stage: args.stage,
+    category: match.category,
+    detector: match.detector,
+    action: args.config.policies[match.category],
+    score: args.score,
+    threatIds: RUNTIME_GUARD_THREAT_LINKS[match.category].threatIds,
+    controlIds: RUNTIME_GUARD_THREAT_LINKS[match.category].controlIds,
+    excerpt: runtimeGuardExcerpt(match),
+    runtimeProfile: runtimeProfileFromRequest(args.request),
+    provider: args.provider,
+  }))
+}
+
+async function recordFindings(findings: RuntimeGuardFindingInput[], deps?: RuntimeGuardDeps): Promise<void> {
+  try {
+    await (deps?.recordFindings || recordRuntimeGuardFindingsInDb)(findings)
+  } catch (error) {
+    console.error("Failed to record runtime guard findings:", error)
+  }
+}
+
+/**
+ * Scores the incoming prompt for injection before it reaches any provider.
+ * Below the threshold nothing happens. Above it the injection policy decides:
+ * `block` throws `RuntimeGuardBlockedError`, `redact` strips the matched
+ * phrases and `flag` only records the finding.
+ */
+export async function applyRuntimePromptGuard(
+  request: RuntimeRequest,
+  deps?: RuntimeGuardDeps,
+): Promise<{ request: RuntimeRequest; summary: RuntimeGuardStageSummary | null }> {
+  const config = deps?.config || runtimeGuardConfig()
+  if (!config.enabled) {
+    return { request, summary: null }
+  }
+
+  const { score, matches } = scoreRuntimePromptInjection(request.prompt)
+  if (matches.length === 0 || score < config.injectionThreshold) {
+    return { request, summary: null }
+  }
+
+  const findings = buildFindings({
+    request,
+    stage: "prompt",
+    matches,
+    config,
+    score,
+    provider: null,
+  })
+  await recordFindings(findings, deps)
+
+  const action = config.policies.injection
+  const detectors = findings.map((finding) => finding.detector)
+  if (action === "block") {
+    throw new RuntimeGuardBlockedError("prompt", detectors)
+  }
+
+  return {
+    request: action === "redact"
+      ? { ...request, prompt: redactRuntimeGuardMatches(request.prompt, matches) }
+      : request,
+    summary: { action, score, detectors },
+  }
+}
+
+/**
+ * Scans provider output for secrets, keys and PII before it is persisted,
+ * mirrored to bridge threads or forwarded. Each category applies its own
+ * policy: any `block` hit withholds the whole output, `redact` hits are
+ * masked and `flag` hits are only recorded. Streams pass their deltas through
+ * `createRuntimeOutputStreamGuard` first, so nothing reaches the caller unscanned.
+ */
+export async function applyRuntimeOutputGuard(args: {
+  request: RuntimeRequest
+  output: string
+  provider: string
+  deps?: RuntimeGuardDeps
+}): Promise<{ output: string; summary: RuntimeGuardStageSummary | null }> {
+  const config = args.deps?.config || runtimeGuardConfig()
+  if (!config.enabled) {
+    return { output: args.output, summary: null }
+  }
+
+  const matches = scanRuntimeOutputForLeaks(args.output)
+  if (matches.length === 0) {
+    return { output: args.output, summary: null }
+  }
+
+  const findings = buildFindings({
+    request: args.request,
+    stage: "output",
+    matches,
+    config,
+    score: 1,
+    provider: args.provider,
+  })
+  await recordFindings(findings, args.deps)
+
+  const action = strictestAction(findings.map((finding) => finding.action))
+  const detectors = findings.map((finding) => finding.detector)
+  if (action === "block") {
+    throw new RuntimeGuardBlockedError("output", detectors)
+  }
+
+  const redactable = matches.filter((match) => config.policies[match.category] === "redact")
+  return {
+    output: redactable.length > 0 ? redactRuntimeGuardMatches(args.output, redactable) : args.output,
+    summary: { action, score: 1, detectors },
+  }
+}
+
+/**
+ * Incremental counterpart of `applyRuntimeOutputGuard` for streamed deltas.
+ * Text is released once no detector can still match across it, with
+ * `redact` hits masked. When any output category is set to `block` nothing is
+ * released before the final check, since a later hit withholds the whole
+ * output. Findings are left to `applyRuntimeOutputGuard` on the final output.
+ */
+export function createRuntimeOutputStreamGuard(deps?: RuntimeGuardDeps): RuntimeOutputStreamGuard {
+  const config = deps?.config || runtimeGuardConfig()
+  const holdsUntilFinal = config.policies.secret === "block" || config.policies.pii === "block"
+  let pending = ""
+
+  const release = (final: boolean): string => {
+    const matches = scanRuntimeOutputForLeaks(pending)
+    const cut = final ? pending.length : runtimeGuardStreamCut(pending, matches)
+    const released = pending.slice(0, cut)
+    pending = pending.slice(cut)
+
+    const redactable = matches.filter((match) => match.end <= cut && config.policies[match.category] === "redact")
+    return redactable.length > 0 ? redactRuntimeGuardMatches(released, redactable) : released
+  }
+
+  return {
+    push(text) {
+      if (!config.enabled) {
+        return text
+      }
+
+      pending += text
+      return holdsUntilFinal ? "" : release(false)
+    },
+    flush() {
+      return config.enabled ? release(true) : ""
+    },
+  }
+}
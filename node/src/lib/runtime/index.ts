@@ -1,23 +1,31 @@
-import type { RuntimeProvider, RuntimeRequest, RuntimeResult } from "@/lib/types/runtime"
+import type { RuntimeProvider, RuntimeRequest, RuntimeResult, RuntimeStreamEvent } from "@/lib/types/runtime"
 import { RuntimeProviderError, createRecoverableRuntimeError } from "@/lib/runtime/errors"
-import { resolveRuntimeProfileConfig } from "@/lib/runtime/profiles"
+import {
+  getRuntimeCircuitBreaker,
+  runtimeCircuitKey,
+  type RuntimeCircuitBreaker,
+  type RuntimeCircuitKey,
+} from "@/lib/runtime/circuit-breaker"
+import { createRuntimeAbortedError, throwIfRuntimeAborted } from "@/lib/runtime/cancellation"
+import {
+  RuntimeGuardBlockedError,
+  applyRuntimeOutputGuard,
+  applyRuntimePromptGuard,
+  createRuntimeOutputStreamGuard,
+  type RuntimeGuardDeps,
+  type RuntimeGuardStageSummary,
+} from "@/lib/runtime/guard"
+import type { RuntimeRoutingDecision } from "@/lib/runtime/profiles"
+import { resolveRuntimeRoutingPlan } from "@/lib/runtime/profile-store"
 import {
   applyRuntimeIntelligencePolicy,
   finalizeRuntimeIntelligencePolicy,
 } from "@/lib/runtime/intelligence"
-import { codexCliRuntimeProvider } from "@/lib/runtime/providers/codex-cli"
+import type { RuntimeIntelligencePolicyResolution } from "@/lib/runtime/intelligence/types"
 import { localFallbackRuntimeProvider } from "@/lib/runtime/providers/local-fallback"
-import { openAiFallbackRuntimeProvider } from "@/lib/runtime/providers/openai-fallback"
-import { openClawRuntimeProvider } from "@/lib/runtime/providers/openclaw"
+import { resolveRuntimeProviderDefinition } from "@/lib/runtime/providers/registry"
 import type { RuntimeProviderContext, RuntimeProviderDefinition } from "@/lib/runtime/providers/types"
 
-const PROVIDERS_BY_ID: Record<RuntimeProvider, RuntimeProviderDefinition> = {
-  openclaw: openClawRuntimeProvider,
-  "openai-fallback": openAiFallbackRuntimeProvider,
-  "local-fallback": localFallbackRuntimeProvider,
-  "codex-cli": codexCliRuntimeProvider,
-}
-
 function providerLabel(error: RuntimeProviderError): string {
   return `${error.provider}:${error.code}`
 }
@@ -34,66 +42,203 @@ function normalizeProviderError(providerId: RuntimeProvider, error: unknown): Ru
   })
 }
 
-export async function runSessionRuntime(request: RuntimeRequest): Promise<RuntimeResult> {
-  const profileConfig = resolveRuntimeProfileConfig(request)
+export interface RuntimeProviderOverrides {
+  providers?: Partial<Record<RuntimeProvider, RuntimeProviderDefinition>>
+  circuitBreaker?: RuntimeCircuitBreaker
+  /** Cancels the active provider call; the chain stops instead of falling back. */
+  signal?: AbortSignal
+  guard?: RuntimeGuardDeps
+}
+
+function resolveProvider(providerId: RuntimeProvider, deps?: RuntimeProviderOverrides): RuntimeProviderDefinition | undefined {
+  return deps?.providers?.[providerId] || resolveRuntimeProviderDefinition(providerId)
+}
+
+/**
+ * Circuit for the backend `providerId` resolves to on this request. Instance
+ * providers get one circuit per instance record, so one user's failing server
+ * does not trip the same provider id for everyone else.
+ */
+async function resolveCircuitTarget(
+  provider: RuntimeProviderDefinition,
+  providerId: RuntimeProvider,
+  request: RuntimeRequest,
+): Promise<{ key: RuntimeCircuitKey; instanceId: string | null }> {
+  const instanceId = provider.resolveInstanceId ? await provider.resolveInstanceId(request) : null
+  return { key: runtimeCircuitKey(providerId, instanceId), instanceId }
+}
+
+/** Tags a provider failure with the instance it ran against, for health samples. */
+function withInstanceId(error: RuntimeProviderError, instanceId: string | null): RuntimeProviderError {
+  if (instanceId) {
+    error.details = { ...(error.details || {}), instanceId }
+  }
+
+  return error
+}
+
+/**
+ * Asks the shared circuit breaker whether `providerId` may be tried. Skipped
+ * providers are recorded on the routing decision and in `previousErrors`.
+ */
+function admitProvider(
+  breaker: RuntimeCircuitBreaker,
+  providerId: RuntimeProvider,
+  circuitKey: RuntimeCircuitKey,
+  routing: RuntimeRoutingDecision,
+  providerErrors: string[],
+): boolean {
+  const admission = breaker.admit(circuitKey)
+  if (admission.allowed) {
+    return true
+  }
+
+  routing.skipped.push({ provider: providerId, reason: admission.reason })
+  providerErrors.push(`${providerId}:CIRCUIT_OPEN:${admission.reason}`)
+  return false
+}
+
+function routingMetadata(routing: RuntimeRoutingDecision): Record<string, unknown> {
+  return {
+    profile: routing.profile,
+    source: routing.source,
+    profileId: routing.profileId,
+    rule: routing.ruleName,
+    strategy: routing.strategy,
+    providerOrder: routing.providerOrder,
+    skipped: routing.skipped,
+    budget: routing.budget,
+  }
+}
+
+function guardMetadata(
+  prompt: RuntimeGuardStageSummary | null,
+  output: RuntimeGuardStageSummary | null,
+): Record<string, unknown> {
+  if (!prompt && !output) {
+    return {}
+  }
+
+  return {
+    guard: {
+      prompt,
+      output,
+    },
+  }
+}
+
+async function finalizeRuntimeResult(args: {
+  policy: RuntimeIntelligencePolicyResolution
+  routing: RuntimeRoutingDecision
+  runtimeResult: RuntimeResult
+  fallbackUsed: boolean
+  runtimeStartedAt: number
+  promptGuard: RuntimeGuardStageSummary | null
+  guard?: RuntimeGuardDeps
+}): Promise<RuntimeResult> {
+  const outputGuard = await applyRuntimeOutputGuard({
+    request: args.policy.request,
+    output: args.runtimeResult.output,
+    provider: args.runtimeResult.provider,
+    deps: args.guard,
+  })
+  const finalized = await finalizeRuntimeIntelligencePolicy({
+    request: args.policy.request,
+    state: args.policy.state,
+    output: outputGuard.output,
+    fallbackUsed: args.fallbackUsed,
+    durationMs: Date.now() - args.runtimeStartedAt,
+    status: "success",
+  })
+
+  return {
+    ...args.runtimeResult,
+    output: outputGuard.output,
+    metadata: {
+      ...(args.runtimeResult.metadata || {}),
+      ...guardMetadata(args.promptGuard, outputGuard.summary),
+      routing: routingMetadata(args.routing),
+      intelligence: {
+        executionKind: finalized.state.executionKind,
+        tier: finalized.state.tier,
+        decision: finalized.state.decision,
+        resolvedModel: finalized.state.selectedModel,
+        classifierModel: finalized.state.classifierModel,
+        classifierConfidence: finalized.state.classifierConfidence,
+        thresholdBefore: finalized.state.thresholdBefore,
+        thresholdAfter: finalized.state.thresholdAfter,
+        rewardScore: finalized.rewardScore,
+        classifierRequiresBump: finalized.state.classifierRequiresBump,
+        classifierReason: finalized.state.classifierReason,
+        classifierPromptSource: finalized.state.classifierPromptSource,
+        classifierPromptLabel: finalized.state.classifierPromptLabel,
+        classifierPromptVersion: finalized.state.classifierPromptVersion,
+        explorationRate: finalized.state.explorationRate,
+        explorationApplied: finalized.state.explorationApplied,
+        ...finalized.economics,
+      },
+    },
+  }
+}
+
+export async function runSessionRuntime(
+  request: RuntimeRequest,
+  deps?: RuntimeProviderOverrides,
+): Promise<RuntimeResult> {
+  const promptGuard = await applyRuntimePromptGuard(request, deps?.guard)
+  const profileConfig = await resolveRuntimeRoutingPlan(promptGuard.request)
   const policy = await applyRuntimeIntelligencePolicy({
-    request,
+    request: promptGuard.request,
     providerOrder: profileConfig.providerOrder,
     profile: profileConfig.profile,
   })
   const runtimeStartedAt = Date.now()
   const providerErrors: string[] = []
+  const breaker = deps?.circuitBreaker || getRuntimeCircuitBreaker()
 
   for (const providerId of policy.providerOrder) {
-    const provider = PROVIDERS_BY_ID[providerId]
+    throwIfRuntimeAborted(providerId, deps?.signal)
+    const provider = resolveProvider(providerId, deps)
     if (!provider) {
       console.warn("Skipping unknown runtime provider", { providerId, profile: profileConfig.profile })
       continue
     }
 
+    const circuit = await resolveCircuitTarget(provider, providerId, policy.request)
+    if (!admitProvider(breaker, providerId, circuit.key, profileConfig, providerErrors)) {
+      continue
+    }
+
     const context: RuntimeProviderContext = {
       profile: profileConfig.profile,
       previousErrors: [...providerErrors],
+      signal: deps?.signal,
     }
 
     try {
       const runtimeResult = await provider.run(policy.request, context)
-      const finalized = await finalizeRuntimeIntelligencePolicy({
-        request: policy.request,
-        state: policy.state,
-        output: runtimeResult.output,
+      breaker.recordSuccess(circuit.key)
+      return await finalizeRuntimeResult({
+        policy,
+        routing: profileConfig,
+        runtimeResult,
         fallbackUsed: runtimeResult.fallbackUsed,
-        durationMs: Date.now() - runtimeStartedAt,
-        status: "success",
+        runtimeStartedAt,
+        promptGuard: promptGuard.summary,
+        guard: deps?.guard,
       })
-
-      return {
-        ...runtimeResult,
-        metadata: {
-          ...(runtimeResult.metadata || {}),
-          intelligence: {
-            executionKind: finalized.state.executionKind,
-            tier: finalized.state.tier,
-            decision: finalized.state.decision,
-            resolvedModel: finalized.state.selectedModel,
-            classifierModel: finalized.state.classifierModel,
-            classifierConfidence: finalized.state.classifierConfidence,
-            thresholdBefore: finalized.state.thresholdBefore,
-            thresholdAfter: finalized.state.thresholdAfter,
-            rewardScore: finalized.rewardScore,
-            classifierRequiresBump: finalized.state.classifierRequiresBump,
-            classifierReason: finalized.state.classifierReason,
-            classifierPromptSource: finalized.state.classifierPromptSource,
-            classifierPromptLabel: finalized.state.classifierPromptLabel,
-            classifierPromptVersion: finalized.state.classifierPromptVersion,
-            explorationRate: finalized.state.explorationRate,
-            explorationApplied: finalized.state.explorationApplied,
-            ...finalized.economics,
-          },
-        },
-      }
     } catch (error) {
-      const normalizedError = normalizeProviderError(providerId, error)
+      if (error instanceof RuntimeGuardBlockedError) {
+        throw error
+      }
+
+      const normalizedError = withInstanceId(
+        deps?.signal?.aborted
+          ? createRuntimeAbortedError(providerId, deps.signal)
+          : normalizeProviderError(providerId, error),
+        circuit.instanceId,
+      )
+      breaker.recordFailure(circuit.key, normalizedError)
       if (!normalizedError.recoverable) {
         throw normalizedError
       }
@@ -103,42 +248,159 @@ export async function runSessionRuntime(request: RuntimeRequest): Promise<Runtim
     }
   }
 
+  throwIfRuntimeAborted("local-fallback", deps?.signal)
   const fallbackResult = await localFallbackRuntimeProvider.run(policy.request, {
     profile: profileConfig.profile,
     previousErrors: providerErrors,
   })
-  const finalized = await finalizeRuntimeIntelligencePolicy({
-    request: policy.request,
-    state: policy.state,
-    output: fallbackResult.output,
+
+  return finalizeRuntimeResult({
+    policy,
+    routing: profileConfig,
+    runtimeResult: fallbackResult,
     fallbackUsed: true,
-    durationMs: Date.now() - runtimeStartedAt,
-    status: "success",
+    runtimeStartedAt,
+    promptGuard: promptGuard.summary,
+    guard: deps?.guard,
   })
+}
 
-  return {
-    ...fallbackResult,
-    metadata: {
-      ...(fallbackResult.metadata || {}),
-      intelligence: {
-        executionKind: finalized.state.executionKind,
-        tier: finalized.state.tier,
-        decision: finalized.state.decision,
-        resolvedModel: finalized.state.selectedModel,
-        classifierModel: finalized.state.classifierModel,
-        classifierConfidence: finalized.state.classifierConfidence,
-        thresholdBefore: finalized.state.thresholdBefore,
-        thresholdAfter: finalized.state.thresholdAfter,
-        rewardScore: finalized.rewardScore,
-        classifierRequiresBump: finalized.state.classifierRequiresBump,
-        classifierReason: finalized.state.classifierReason,
-        classifierPromptSource: finalized.state.classifierPromptSource,
-        classifierPromptLabel: finalized.state.classifierPromptLabel,
-        classifierPromptVersion: finalized.state.classifierPromptVersion,
-        explorationRate: finalized.state.explorationRate,
-        explorationApplied: finalized.state.explorationApplied,
-        ...finalized.economics,
-      },
-    },
+/**
+ * Streaming counterpart of `runSessionRuntime`. Yields `delta` chunks as the
+ * active provider produces them and ends with a single `result` event carrying
+ * the intelligence metadata. A recoverable provider failure only advances the
+ * chain while no chunk has been emitted; once output has reached the caller the
+ * error is rethrown instead of mixing output from two providers. With the
+ * runtime guard enabled, deltas are released only after the output guard has
+ * scanned them, so a chunk can arrive later than the provider produced it.
+ */
+export async function* streamSessionRuntime(
+  request: RuntimeRequest,
+  deps?: RuntimeProviderOverrides,
+): AsyncGenerator<RuntimeStreamEvent> {
+  const promptGuard = await applyRuntimePromptGuard(request, deps?.guard)
+  const profileConfig = await resolveRuntimeRoutingPlan(promptGuard.request)
+  const policy = await applyRuntimeIntelligencePolicy({
+    request: promptGuard.request,
+    providerOrder: profileConfig.providerOrder,
+    profile: profileConfig.profile,
+  })
+  const runtimeStartedAt = Date.now()
+  const providerErrors: string[] = []
+  const breaker = deps?.circuitBreaker || getRuntimeCircuitBreaker()
+
+  for (const providerId of policy.providerOrder) {
+    throwIfRuntimeAborted(providerId, deps?.signal)
+    const provider = resolveProvider(providerId, deps)
+    if (!provider) {
+      console.warn("Skipping unknown runtime provider", { providerId, profile: profileConfig.profile })
+      continue
+    }
+
+    const circuit = await resolveCircuitTarget(provider, providerId, policy.request)
+    if (!admitProvider(breaker, providerId, circuit.key, profileConfig, providerErrors)) {
+      continue
+    }
+
+    const context: RuntimeProviderContext = {
+      profile: profileConfig.profile,
+      previousErrors: [...providerErrors],
+      signal: deps?.signal,
+    }
+    // Held text never reached the caller, so a failure before any release can still fail over.
+    const outputGuard = createRuntimeOutputStreamGuard(deps?.guard)
+    let emittedDelta = false
+
+    try {
+      let runtimeResult: RuntimeResult | null = null
+
+      if (provider.stream) {
+        for await (const event of provider.stream(policy.request, context)) {
+          if (event.type === "result") {
+            runtimeResult = event.result
+            continue
+          }
+
+          const text = outputGuard.push(event.text)
+          if (text.length === 0) {
+            continue
+          }
+
+          emittedDelta = true
+          yield { type: "delta", provider: providerId, text }
+        }
+      } else {
+        runtimeResult = await provider.run(policy.request, context)
+        const text = outputGuard.push(runtimeResult.output)
+        if (text.length > 0) {
+          emittedDelta = true
+          yield { type: "delta", provider: providerId, text }
+        }
+      }
+
+      if (!runtimeResult) {
+        throw createRecoverableRuntimeError({
+          provider: providerId,
+          code: "RUNTIME_STREAM_MISSING_RESULT",
+          message: `${providerId} runtime stream ended without a result`,
+        })
+      }
+
+      breaker.recordSuccess(circuit.key)
+      const result = await finalizeRuntimeResult({
+        policy,
+        routing: profileConfig,
+        runtimeResult,
+        fallbackUsed: runtimeResult.fallbackUsed,
+        runtimeStartedAt,
+        promptGuard: promptGuard.summary,
+        guard: deps?.guard,
+      })
+      const tail = outputGuard.flush()
+      if (tail.length > 0) {
+        yield { type: "delta", provider: providerId, text: tail }
+      }
+      yield { type: "result", result }
+      return
+    } catch (error) {
+      if (error instanceof RuntimeGuardBlockedError) {
+        throw error
+      }
+
+      const normalizedError = withInstanceId(
+        deps?.signal?.aborted
+          ? createRuntimeAbortedError(providerId, deps.signal)
+          : normalizeProviderError(providerId, error),
+        circuit.instanceId,
+      )
+      breaker.recordFailure(circuit.key, normalizedError)
+      if (!normalizedError.recoverable || emittedDelta) {
+        throw normalizedError
+      }
+
+      providerErrors.push(`${providerLabel(normalizedError)}:${normalizedError.message}`)
+      continue
+    } finally {
+      // A consumer that stops reading mid-stream must not leave a half-open probe claimed.
+      breaker.release(circuit.key)
+    }
   }
+
+  throwIfRuntimeAborted("local-fallback", deps?.signal)
+  const fallbackResult = await localFallbackRuntimeProvider.run(policy.request, {
+    profile: profileConfig.profile,
+    previousErrors: providerErrors,
+  })
+
+  const result = await finalizeRuntimeResult({
+    policy,
+    routing: profileConfig,
+    runtimeResult: fallbackResult,
+    fallbackUsed: true,
+    runtimeStartedAt,
+    promptGuard: promptGuard.summary,
+    guard: deps?.guard,
+  })
+  yield { type: "delta", provider: fallbackResult.provider, text: result.output }
+  yield { type: "result", result }
 }
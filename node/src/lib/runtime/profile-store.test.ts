@@ -0,0 +1,160 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { RuntimeProfile } from "@prisma/client"
+import {
+  loadRuntimeProviderHealth,
+  resolveRuntimeRoutingPlan,
+  summarizeRuntimeProviderHealth,
+  type RuntimeRoutingPlanDeps,
+} from "./profile-store"
+import { clearRuntimeProviderInstanceCache } from "./provider-instances"
+
+function storedProfile(overrides: Partial<RuntimeProfile> = {}): RuntimeProfile {
+  return {
+    id: "profile-1",
+    ownerUserId: "user-1",
+    name: "latency-guarded",
+    description: null,
+    strategy: "ordered",
+    providers: [{ provider: "openclaw", weight: 1 }, { provider: "openai-fallback", weight: 1 }],
+    rules: [],
+    maxP95LatencyMs: 4000,
+    maxErrorRate: null,
+    healthWindowMinutes: 60,
+    minHealthSamples: 5,
+    maxCostUsdPerRequest: null,
+    budgetUsd: null,
+    budgetWindowHours: 24,
+    isActive: true,
+    createdAt: new Date("2026-02-16T00:00:00.000Z"),
+    updatedAt: new Date("2026-02-16T00:00:00.000Z"),
+    ...overrides,
+  }
+}
+
+function routingDeps(profile: RuntimeProfile | null, captured: { lookups: string[] } = { lookups: [] }) {
+  const deps: RuntimeRoutingPlanDeps = {
+    findProfile: async (ownerUserId, name) => {
+      captured.lookups.push(`${ownerUserId}:${name}`)
+      return profile
+    },
+    loadProviderHealth: async () => ({
+      openclaw: { sampleCount: 10, p95DurationMs: 12000, errorRate: 0 },
+    }),
+    loadSpendUsd: async () => 0,
+    now: () => new Date("2026-02-16T12:00:00.000Z"),
+    random: () => 0,
+  }
+  return deps
+}
+
+test("summarizeRuntimeProviderHealth computes p95 and error rate per provider", () => {
+  const samples = Array.from({ length: 20 }, (_, index) => ({
+    provider: "openclaw",
+    status: index < 2 ? "error" : "success",
+    durationMs: (index + 1) * 100,
+  }))
+
+  const health = summarizeRuntimeProviderHealth([...samples, { provider: null, status: "success", durationMs: 1 }])
+  assert.deepEqual(health, {
+    openclaw: { sampleCount: 20, p95DurationMs: 1900, errorRate: 0.1 },
+  })
+})
+
+test("loadRuntimeProviderHealth reads instance samples by the record the request resolves to", async () => {
+  const globalAny = globalThis as any
+  const previousPrisma = globalAny.prisma
+  const sampleQueries: unknown[] = []
+  clearRuntimeProviderInstanceCache()
+  globalAny.prisma = {
+    runtimeProviderInstance: {
+      findMany: async (args: { where: { name: string } }) => args.where.name !== "llama-local" ? [] : [{
+        id: "instance-user-1",
+        ownerUserId: "user-1",
+        kind: "openai_compatible",
+        name: "llama-local",
+        baseUrl: "http://llama.internal/v1",
+        model: "llama-3.1-8b",
+        apiKeyEnvelope: null,
+        timeoutMs: 30000,
+        maxOutputTokens: null,
+        shipDeploymentId: null,
+      }],
+    },
+    runtimePerformanceSample: {
+      findMany: async (args: { where: unknown }) => {
+        sampleQueries.push(args.where)
+        return [
+          { provider: "openai-compatible:llama-local", status: "success", durationMs: 300 },
+          { provider: "openclaw", status: "error", durationMs: 100 },
+        ]
+      },
+    },
+  }
+
+  try {
+    const since = new Date("2026-02-16T11:00:00.000Z")
+    const health = await loadRuntimeProviderHealth({
+      providers: ["openclaw", "openai-compatible:llama-local", "openai-compatible:missing"],
+      request: { sessionId: "session-1", userId: "user-1", prompt: "hello" },
+      since,
+    })
+
+    assert.deepEqual(sampleQueries, [{
+      OR: [
+        { provider: { in: ["openclaw"] } },
+        { providerInstanceId: { in: ["instance-user-1"] } },
+      ],
+      createdAt: { gte: since },
+    }])
+    assert.deepEqual(health["openai-compatible:llama-local"], { sampleCount: 1, p95DurationMs: 300, errorRate: 0 })
+  } finally {
+    globalAny.prisma = previousPrisma
+    clearRuntimeProviderInstanceCache()
+  }
+})
+
+test("resolveRuntimeRoutingPlan routes through a stored profile and skips slow providers", async () => {
+  const captured = { lookups: [] as string[] }
+  const plan = await resolveRuntimeRoutingPlan(
+    {
+      sessionId: "session-1",
+      userId: "user-1",
+      prompt: "hello",
+      metadata: { runtime: { profile: "latency-guarded" } },
+    },
+    routingDeps(storedProfile(), captured),
+  )
+
+  assert.deepEqual(captured.lookups, ["user-1:latency-guarded"])
+  assert.equal(plan.source, "custom")
+  assert.deepEqual(plan.providerOrder, ["openai-fallback", "local-fallback"])
+  assert.equal(plan.skipped[0].provider, "openclaw")
+})
+
+test("resolveRuntimeRoutingPlan falls back to the built-in chain for unknown or inactive profiles", async () => {
+  const inactive = await resolveRuntimeRoutingPlan(
+    {
+      sessionId: "session-1",
+      userId: "user-1",
+      prompt: "hello",
+      metadata: { runtime: { profile: "latency-guarded" } },
+    },
+    routingDeps(storedProfile({ isActive: false })),
+  )
+  assert.equal(inactive.source, "builtin")
+  assert.equal(inactive.profile, "default")
+
+  const captured = { lookups: [] as string[] }
+  const builtin = await resolveRuntimeRoutingPlan(
+    {
+      sessionId: "session-1",
+      userId: "user-1",
+      prompt: "hello",
+      metadata: { runtime: { profile: "quartermaster" } },
+    },
+    routingDeps(storedProfile(), captured),
+  )
+  assert.equal(builtin.profile, "quartermaster")
+  assert.deepEqual(captured.lookups, [])
+})
@@ -0,0 +1,306 @@
+import type { RuntimeProfile } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { runtimeIntelligenceConfig } from "@/lib/runtime/intelligence/config"
+import { estimateRuntimeEconomics } from "@/lib/runtime/intelligence/economics"
+import { resolveRuntimeExecutionKind } from "@/lib/runtime/intelligence/policy"
+import {
+  builtinRuntimeRoutingDecision,
+  isBuiltinRuntimeProfileName,
+  parseRuntimeProviderInstanceId,
+  planRuntimeProviderRoute,
+  resolveRequestedRuntimeProfileName,
+  resolveRuntimeProfileName,
+  type RuntimeProfileDefinition,
+  type RuntimeProviderHealthStats,
+  type RuntimeRoutingDecision,
+} from "@/lib/runtime/profiles"
+import { readStoredRuntimeProfileRouting } from "@/lib/runtime/profile-validation"
+import { resolveRuntimeProviderInstanceRecordId } from "@/lib/runtime/provider-instances"
+import type { RuntimeProvider, RuntimeProviderInstanceId, RuntimeRequest } from "@/lib/types/runtime"
+
+const HEALTH_SAMPLE_LIMIT = 2000
+
+interface RuntimeSampleForHealth {
+  provider: string | null
+  status: string
+  durationMs: number
+}
+
+export interface RuntimeRoutingPlanDeps {
+  findProfile: (ownerUserId: string, name: string) => Promise<RuntimeProfile | null>
+  loadProviderHealth: (args: {
+    providers: RuntimeProvider[]
+    request: RuntimeRequest
+    since: Date
+  }) => Promise<Partial<Record<RuntimeProvider, RuntimeProviderHealthStats>>>
+  loadSpendUsd: (args: { ownerUserId: string; profile: string; since: Date }) => Promise<number>
+  now: () => Date
+  random: () => number
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function percentile(sortedValues: number[], fraction: number): number | null {
+  if (sortedValues.length === 0) {
+    return null
+  }
+
+  const index = Math.min(sortedValues.length - 1, Math.ceil(fraction * sortedValues.length) - 1)
+  return sortedValues[Math.max(0, index)]
+}
+
+export function toRuntimeProfileDefinition(profile: RuntimeProfile): RuntimeProfileDefinition {
+  const routing = readStoredRuntimeProfileRouting({
+    providers: profile.providers,
+    rules: profile.rules,
+  })
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    strategy: profile.strategy,
+    providers: routing.providers,
+    rules: routing.rules,
+    guardrails: {
+      maxP95LatencyMs: profile.maxP95LatencyMs,
+      maxErrorRate: profile.maxErrorRate,
+      healthWindowMinutes: profile.healthWindowMinutes,
+      minHealthSamples: profile.minHealthSamples,
+      maxCostUsdPerRequest: profile.maxCostUsdPerRequest,
+      budgetUsd: profile.budgetUsd,
+      budgetWindowHours: profile.budgetWindowHours,
+    },
+  }
+}
+
+export function summarizeRuntimeProviderHealth(
+  samples: RuntimeSampleForHealth[],
+): Partial<Record<RuntimeProvider, RuntimeProviderHealthStats>> {
+  const grouped = new Map<string, RuntimeSampleForHealth[]>()
+  for (const sample of samples) {
+    // A user cancel says nothing about the provider's health.
+    if (!sample.provider || sample.status === "cancelled") {
+      continue
+    }
+
+    const bucket = grouped.get(sample.provider) || []
+    bucket.push(sample)
+    grouped.set(sample.provider, bucket)
+  }
+
+  const result: Partial<Record<RuntimeProvider, RuntimeProviderHealthStats>> = {}
+  for (const [provider, bucket] of grouped) {
+    const durations = bucket.map((sample) => sample.durationMs).sort((a, b) => a - b)
+    const errors = bucket.filter((sample) => sample.status !== "success").length
+    result[provider as RuntimeProvider] = {
+      sampleCount: bucket.length,
+      p95DurationMs: percentile(durations, 0.95),
+      errorRate: errors / bucket.length,
+    }
+  }
+
+  return result
+}
+
+/**
+ * Instance provider ids resolve to a different record per user and ship, so
+ * their samples are read by the record this request resolves to rather than
+ * by provider id.
+ */
+export async function loadRuntimeProviderHealth(args: {
+  providers: RuntimeProvider[]
+  request: RuntimeRequest
+  since: Date
+}): Promise<Partial<Record<RuntimeProvider, RuntimeProviderHealthStats>>> {
+  if (args.providers.length === 0) {
+    return {}
+  }
+
+  const builtinProviders = args.providers.filter((provider) => !parseRuntimeProviderInstanceId(provider))
+  const instanceRecordIds = (await Promise.all(
+    args.providers
+      .filter((provider) => parseRuntimeProviderInstanceId(provider))
+      .map((provider) => resolveRuntimeProviderInstanceRecordId(provider as RuntimeProviderInstanceId, args.request)),
+  )).filter((recordId): recordId is string => recordId !== null)
+
+  const samples = await prisma.runtimePerformanceSample.findMany({
+    where: {
+      OR: [
+        { provider: { in: builtinProviders } },
+        ...(instanceRecordIds.length > 0 ? [{ providerInstanceId: { in: instanceRecordIds } }] : []),
+      ],
+      createdAt: {
+        gte: args.since,
+      },
+    },
+    select: {
+      provider: true,
+      status: true,
+      durationMs: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: HEALTH_SAMPLE_LIMIT,
+  })
+
+  return summarizeRuntimeProviderHealth(samples)
+}
+
+async function loadRuntimeProfileSpendUsd(args: {
+  ownerUserId: string
+  profile: string
+  since: Date
+}): Promise<number> {
+  const aggregate = await prisma.runtimePerformanceSample.aggregate({
+    where: {
+      userId: args.ownerUserId,
+      runtimeProfile: args.profile,
+      createdAt: {
+        gte: args.since,
+      },
+    },
+    _sum: {
+      estimatedCostUsd: true,
+    },
+  })
+
+  return aggregate._sum.estimatedCostUsd || 0
+}
+
+const defaultDeps: RuntimeRoutingPlanDeps = {
+  findProfile: (ownerUserId, name) =>
+    prisma.runtimeProfile.findUnique({
+      where: {
+        ownerUserId_name: {
+          ownerUserId,
+          name,
+        },
+      },
+    }),
+  loadProviderHealth: (args) => loadRuntimeProviderHealth(args),
+  loadSpendUsd: (args) => loadRuntimeProfileSpendUsd(args),
+  now: () => new Date(),
+  random: () => Math.random(),
+}
+
+function resolveRoutingChannel(metadata: Record<string, unknown>): string | null {
+  return asNonEmptyString(asRecord(metadata.runtime).channel)
+    || asNonEmptyString(asRecord(metadata.bridge).channel)
+    || asNonEmptyString(asRecord(metadata.quartermaster).channel)
+}
+
+/**
+ * Lower bound on what the request will cost: prompt tokens priced at the max
+ * model. Completion tokens are unknown until the provider answers.
+ */
+function projectRequestCostUsd(prompt: string): number {
+  const config = runtimeIntelligenceConfig()
+  return estimateRuntimeEconomics({
+    prompt,
+    output: "",
+    selectedModel: config.maxModel,
+    baselineMaxModel: config.maxModel,
+    config,
+  }).estimatedCostUsd
+}
+
+/**
+ * Resolves the provider chain for a request. `metadata.runtime.profile` may
+ * name a built-in profile or one of the requesting user's stored profiles;
+ * unknown, inactive or unreadable profiles fall back to the built-in chain.
+ */
+export async function resolveRuntimeRoutingPlan(
+  request: RuntimeRequest,
+  deps: RuntimeRoutingPlanDeps = defaultDeps,
+): Promise<RuntimeRoutingDecision> {
+  const fallback = () => builtinRuntimeRoutingDecision(resolveRuntimeProfileName(request.metadata))
+  const requested = resolveRequestedRuntimeProfileName(request.metadata)
+  if (!requested || isBuiltinRuntimeProfileName(requested) || !request.userId) {
+    return fallback()
+  }
+
+  try {
+    const stored = await deps.findProfile(request.userId, requested)
+    if (!stored || !stored.isActive) {
+      return fallback()
+    }
+
+    const definition = toRuntimeProfileDefinition(stored)
+    if (definition.providers.length === 0) {
+      return fallback()
+    }
+
+    const { guardrails } = definition
+    const now = deps.now()
+    const providers = [
+      ...definition.providers.map((entry) => entry.provider),
+      ...definition.rules.flatMap((rule) => rule.providers.map((entry) => entry.provider)),
+    ]
+    const needsHealth = guardrails.maxP95LatencyMs !== null || guardrails.maxErrorRate !== null
+    const needsBudget = guardrails.budgetUsd !== null || guardrails.maxCostUsdPerRequest !== null
+
+    const [health, spentUsd] = await Promise.all([
+      needsHealth
+        ? deps.loadProviderHealth({
+            providers: [...new Set(providers)],
+            request,
+            since: new Date(now.getTime() - guardrails.healthWindowMinutes * 60_000),
+          })
+        : Promise.resolve({}),
+      guardrails.budgetUsd !== null
+        ? deps.loadSpendUsd({
+            ownerUserId: request.userId,
+            profile: definition.name,
+            since: new Date(now.getTime() - guardrails.budgetWindowHours * 3_600_000),
+          })
+        : Promise.resolve(0),
+    ])
+
+    const metadata = asRecord(request.metadata)
+    return planRuntimeProviderRoute({
+      definition,
+      executionKind: resolveRuntimeExecutionKind(metadata),
+      channel: resolveRoutingChannel(metadata),
+      promptChars: request.prompt.length,
+      health,
+      spentUsd,
+      projectedCostUsd: needsBudget ? projectRequestCostUsd(request.prompt) : 0,
+      random: deps.random,
+    })
+  } catch (error) {
+    console.error("Runtime profile routing failed; using built-in profile (fail-open):", error)
+    return fallback()
+  }
+}
+
+export function serializeRuntimeProfile(profile: RuntimeProfile) {
+  const definition = toRuntimeProfileDefinition(profile)
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    strategy: profile.strategy,
+    providers: definition.providers,
+    rules: definition.rules,
+    ...definition.guardrails,
+    isActive: profile.isActive,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  }
+}
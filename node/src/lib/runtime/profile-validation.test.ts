@@ -0,0 +1,67 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import {
+  parseRuntimeProfileCreateInput,
+  parseRuntimeProfileUpdateInput,
+  readStoredRuntimeProfileRouting,
+  RuntimeProfileValidationError,
+} from "./profile-validation"
+
+test("parseRuntimeProfileCreateInput applies defaults and normalizes providers", () => {
+  const parsed = parseRuntimeProfileCreateInput({
+    name: "Cost-Aware",
+    providers: ["openclaw", { provider: " OpenAI-Fallback ", weight: 2 }],
+    rules: [
+      {
+        when: { executionKind: "autonomous_task" },
+        providers: ["codex-cli"],
+      },
+    ],
+  })
+
+  assert.equal(parsed.name, "cost-aware")
+  assert.equal(parsed.strategy, "ordered")
+  assert.deepEqual(parsed.providers, [
+    { provider: "openclaw", weight: 1 },
+    { provider: "openai-fallback", weight: 2 },
+  ])
+  assert.equal(parsed.rules[0].name, "rule-1")
+  assert.equal(parsed.healthWindowMinutes, 60)
+  assert.equal(parsed.budgetUsd, null)
+  assert.equal(parsed.isActive, true)
+})
+
+test("parseRuntimeProfileCreateInput rejects reserved names, unknown providers and bad guardrails", () => {
+  const isValidationError = (error: unknown) => error instanceof RuntimeProfileValidationError
+
+  assert.throws(() => parseRuntimeProfileCreateInput({ name: "default", providers: ["openclaw"] }), isValidationError)
+  assert.throws(() => parseRuntimeProfileCreateInput({ name: "ok", providers: ["mystery"] }), isValidationError)
+  assert.throws(
+    () => parseRuntimeProfileCreateInput({ name: "ok", providers: ["openclaw", "openclaw"] }),
+    isValidationError,
+  )
+  assert.throws(
+    () => parseRuntimeProfileCreateInput({ name: "ok", providers: ["openclaw"], maxErrorRate: 1.5 }),
+    isValidationError,
+  )
+})
+
+test("parseRuntimeProfileUpdateInput only returns fields that were provided", () => {
+  assert.deepEqual(parseRuntimeProfileUpdateInput({ budgetUsd: null, isActive: false }), {
+    budgetUsd: null,
+    isActive: false,
+  })
+})
+
+test("readStoredRuntimeProfileRouting drops entries that no longer validate", () => {
+  const routing = readStoredRuntimeProfileRouting({
+    providers: [{ provider: "openclaw", weight: 2 }, { provider: "retired-provider" }],
+    rules: [
+      { name: "broken", when: {}, providers: [] },
+      { name: "chat", when: { executionKind: "human_chat" }, providers: ["openai-fallback"] },
+    ],
+  })
+
+  assert.deepEqual(routing.providers, [{ provider: "openclaw", weight: 2 }])
+  assert.deepEqual(routing.rules.map((rule) => rule.name), ["chat"])
+})
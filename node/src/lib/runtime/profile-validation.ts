@@ -0,0 +1,341 @@
+import type { RuntimeExecutionKind } from "@/lib/runtime/intelligence/types"
+import {
+  isBuiltinRuntimeProfileName,
+  normalizeProviderId,
+  RUNTIME_PROFILE_NAME_PATTERN,
+  type RuntimeProfileProviderEntry,
+  type RuntimeRoutingCondition,
+  type RuntimeRoutingRule,
+  type RuntimeRoutingStrategy,
+} from "@/lib/runtime/profiles"
+
+const MAX_PROVIDERS = 16
+const MAX_RULES = 32
+
+export interface ParsedRuntimeProfileInput {
+  name: string
+  description: string | null
+  strategy: RuntimeRoutingStrategy
+  providers: RuntimeProfileProviderEntry[]
+  rules: RuntimeRoutingRule[]
+  maxP95LatencyMs: number | null
+  maxErrorRate: number | null
+  healthWindowMinutes: number
+  minHealthSamples: number
+  maxCostUsdPerRequest: number | null
+  budgetUsd: number | null
+  budgetWindowHours: number
+  isActive: boolean
+}
+
+export type ParsedRuntimeProfileUpdateInput = Partial<ParsedRuntimeProfileInput>
+
+export class RuntimeProfileValidationError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "RuntimeProfileValidationError"
+    this.status = status
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function has(record: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function parseName(value: unknown): string {
+  const name = asNonEmptyString(value)?.toLowerCase() || ""
+  if (!RUNTIME_PROFILE_NAME_PATTERN.test(name)) {
+    throw new RuntimeProfileValidationError(
+      "name must be 1-64 lowercase letters, digits, '-' or '_' and start with a letter or digit.",
+    )
+  }
+
+  if (isBuiltinRuntimeProfileName(name)) {
+    throw new RuntimeProfileValidationError(`name \`${name}\` is reserved for a built-in profile.`)
+  }
+
+  return name
+}
+
+function parseStrategy(value: unknown, field: string): RuntimeRoutingStrategy {
+  if (value === "ordered" || value === "weighted") {
+    return value
+  }
+
+  throw new RuntimeProfileValidationError(`${field} must be ordered or weighted.`)
+}
+
+function parseProviders(value: unknown, field: string): RuntimeProfileProviderEntry[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new RuntimeProfileValidationError(`${field} must be a non-empty array.`)
+  }
+
+  if (value.length > MAX_PROVIDERS) {
+    throw new RuntimeProfileValidationError(`${field} accepts at most ${MAX_PROVIDERS} providers.`)
+  }
+
+  const entries: RuntimeProfileProviderEntry[] = []
+  for (const item of value) {
+    const record = typeof item === "string" ? { provider: item } : asRecord(item)
+    const raw = asNonEmptyString(record.provider)
+    const provider = raw ? normalizeProviderId(raw) : null
+    if (!provider) {
+      throw new RuntimeProfileValidationError(`${field} contains unknown provider \`${raw || String(item)}\`.`)
+    }
+
+    if (entries.some((entry) => entry.provider === provider)) {
+      throw new RuntimeProfileValidationError(`${field} lists \`${provider}\` more than once.`)
+    }
+
+    const weight = record.weight === undefined ? 1 : record.weight
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      throw new RuntimeProfileValidationError(`${field} weight for \`${provider}\` must be a non-negative number.`)
+    }
+
+    entries.push({ provider, weight })
+  }
+
+  return entries
+}
+
+function parseOptionalCount(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new RuntimeProfileValidationError(`${field} must be a non-negative integer.`)
+  }
+
+  return value
+}
+
+function parseCondition(value: unknown, field: string): RuntimeRoutingCondition {
+  const record = asRecord(value)
+  const condition: RuntimeRoutingCondition = {}
+
+  if (record.executionKind !== undefined) {
+    if (record.executionKind !== "human_chat" && record.executionKind !== "autonomous_task") {
+      throw new RuntimeProfileValidationError(`${field}.executionKind must be human_chat or autonomous_task.`)
+    }
+    condition.executionKind = record.executionKind as RuntimeExecutionKind
+  }
+
+  if (record.channel !== undefined) {
+    const channel = asNonEmptyString(record.channel)
+    if (!channel) {
+      throw new RuntimeProfileValidationError(`${field}.channel must be a non-empty string.`)
+    }
+    condition.channel = channel
+  }
+
+  const minPromptChars = parseOptionalCount(record.minPromptChars, `${field}.minPromptChars`)
+  const maxPromptChars = parseOptionalCount(record.maxPromptChars, `${field}.maxPromptChars`)
+  if (minPromptChars !== undefined) condition.minPromptChars = minPromptChars
+  if (maxPromptChars !== undefined) condition.maxPromptChars = maxPromptChars
+
+  return condition
+}
+
+function parseRules(value: unknown): RuntimeRoutingRule[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+
+  if (!Array.isArray(value)) {
+    throw new RuntimeProfileValidationError("rules must be an array.")
+  }
+
+  if (value.length > MAX_RULES) {
+    throw new RuntimeProfileValidationError(`rules accepts at most ${MAX_RULES} entries.`)
+  }
+
+  return value.map((item, index) => {
+    const field = `rules[${index}]`
+    const record = asRecord(item)
+    const rule: RuntimeRoutingRule = {
+      name: asNonEmptyString(record.name) || `rule-${index + 1}`,
+      when: parseCondition(record.when, `${field}.when`),
+      providers: parseProviders(record.providers, `${field}.providers`),
+    }
+
+    if (record.strategy !== undefined) {
+      rule.strategy = parseStrategy(record.strategy, `${field}.strategy`)
+    }
+
+    return rule
+  })
+}
+
+function parseNullableNumber(
+  value: unknown,
+  field: string,
+  options: { integer?: boolean; max?: number } = {},
+): number | null {
+  if (value === null) {
+    return null
+  }
+
+  if (
+    typeof value !== "number"
+    || !Number.isFinite(value)
+    || value < 0
+    || (options.integer && !Number.isInteger(value))
+    || (options.max !== undefined && value > options.max)
+  ) {
+    const bound = options.max !== undefined ? ` no greater than ${options.max}` : ""
+    throw new RuntimeProfileValidationError(
+      `${field} must be a non-negative ${options.integer ? "integer" : "number"}${bound}, or null.`,
+    )
+  }
+
+  return value
+}
+
+function parsePositiveInt(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new RuntimeProfileValidationError(`${field} must be a positive integer.`)
+  }
+
+  return value
+}
+
+function parseBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new RuntimeProfileValidationError(`${field} must be a boolean.`)
+  }
+
+  return value
+}
+
+/**
+ * Parses the fields present on `record`; absent fields are left out so the
+ * same parser serves create (after defaults) and partial updates.
+ */
+function parseProfileFields(record: Record<string, unknown>): ParsedRuntimeProfileUpdateInput {
+  const parsed: ParsedRuntimeProfileUpdateInput = {}
+
+  if (has(record, "name")) parsed.name = parseName(record.name)
+  if (has(record, "description")) parsed.description = asNonEmptyString(record.description)
+  if (has(record, "strategy")) parsed.strategy = parseStrategy(record.strategy, "strategy")
+  if (has(record, "providers")) parsed.providers = parseProviders(record.providers, "providers")
+  if (has(record, "rules")) parsed.rules = parseRules(record.rules)
+  if (has(record, "maxP95LatencyMs")) {
+    parsed.maxP95LatencyMs = parseNullableNumber(record.maxP95LatencyMs, "maxP95LatencyMs", { integer: true })
+  }
+  if (has(record, "maxErrorRate")) {
+    parsed.maxErrorRate = parseNullableNumber(record.maxErrorRate, "maxErrorRate", { max: 1 })
+  }
+  if (has(record, "healthWindowMinutes")) {
+    parsed.healthWindowMinutes = parsePositiveInt(record.healthWindowMinutes, "healthWindowMinutes")
+  }
+  if (has(record, "minHealthSamples")) {
+    parsed.minHealthSamples = parsePositiveInt(record.minHealthSamples, "minHealthSamples")
+  }
+  if (has(record, "maxCostUsdPerRequest")) {
+    parsed.maxCostUsdPerRequest = parseNullableNumber(record.maxCostUsdPerRequest, "maxCostUsdPerRequest")
+  }
+  if (has(record, "budgetUsd")) parsed.budgetUsd = parseNullableNumber(record.budgetUsd, "budgetUsd")
+  if (has(record, "budgetWindowHours")) {
+    parsed.budgetWindowHours = parsePositiveInt(record.budgetWindowHours, "budgetWindowHours")
+  }
+  if (has(record, "isActive")) parsed.isActive = parseBoolean(record.isActive, "isActive")
+
+  return parsed
+}
+
+export function parseRuntimeProfileCreateInput(input: unknown): ParsedRuntimeProfileInput {
+  const record = asRecord(input)
+  if (!has(record, "name")) {
+    throw new RuntimeProfileValidationError("name is required.")
+  }
+
+  if (!has(record, "providers")) {
+    throw new RuntimeProfileValidationError("providers is required.")
+  }
+
+  const parsed = parseProfileFields(record)
+  return {
+    description: null,
+    strategy: "ordered",
+    rules: [],
+    maxP95LatencyMs: null,
+    maxErrorRate: null,
+    healthWindowMinutes: 60,
+    minHealthSamples: 5,
+    maxCostUsdPerRequest: null,
+    budgetUsd: null,
+    budgetWindowHours: 24,
+    isActive: true,
+    ...parsed,
+    name: parsed.name as string,
+    providers: parsed.providers as RuntimeProfileProviderEntry[],
+  }
+}
+
+export function parseRuntimeProfileUpdateInput(input: unknown): ParsedRuntimeProfileUpdateInput {
+  return parseProfileFields(asRecord(input))
+}
+
+/**
+ * Reads provider entries and rules back out of stored JSON, dropping anything
+ * that no longer validates (e.g. a provider that was removed) instead of
+ * failing the request that uses the profile.
+ */
+export function readStoredRuntimeProfileRouting(stored: {
+  providers: unknown
+  rules: unknown
+}): {
+  providers: RuntimeProfileProviderEntry[]
+  rules: RuntimeRoutingRule[]
+} {
+  const readProviders = (value: unknown): RuntimeProfileProviderEntry[] => {
+    if (!Array.isArray(value)) {
+      return []
+    }
+
+    return value.flatMap((item) => {
+      const record = asRecord(item)
+      const provider = typeof record.provider === "string" ? normalizeProviderId(record.provider) : null
+      const weight = typeof record.weight === "number" && Number.isFinite(record.weight) ? record.weight : 1
+      return provider ? [{ provider, weight }] : []
+    })
+  }
+
+  const rules = Array.isArray(stored.rules)
+    ? stored.rules.flatMap((item, index) => {
+        try {
+          return parseRules([item]).map((rule) => ({
+            ...rule,
+            name: asNonEmptyString(asRecord(item).name) || `rule-${index + 1}`,
+          }))
+        } catch {
+          return []
+        }
+      })
+    : []
+
+  return {
+    providers: readProviders(stored.providers),
+    rules,
+  }
+}
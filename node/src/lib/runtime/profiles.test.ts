@@ -1,9 +1,12 @@
 import test from "node:test"
 import assert from "node:assert/strict"
 import {
+  parseRuntimeProviderInstanceId,
+  planRuntimeProviderRoute,
   resolveRuntimeProfileConfig,
   resolveRuntimeProfileName,
   resolveRuntimeProviderOrder,
+  type RuntimeProfileDefinition,
 } from "./profiles"
 
 function withEnv<K extends keyof NodeJS.ProcessEnv>(key: K, value: string | undefined) {
@@ -44,6 +47,19 @@ test("resolveRuntimeProviderOrder ignores unknown providers and appends local fa
   }
 })
 
+test("resolveRuntimeProviderOrder keeps provider instance ids from the env chain", () => {
+  const restore = withEnv("RUNTIME_PROFILE_DEFAULT", "openai-compatible:Local-Llama,anthropic:bad name,openclaw")
+
+  try {
+    const providers = resolveRuntimeProviderOrder("default")
+    assert.deepEqual(providers, ["openai-compatible:local-llama", "openclaw", "local-fallback"])
+    assert.deepEqual(parseRuntimeProviderInstanceId("anthropic:main"), { kind: "anthropic", name: "main" })
+    assert.equal(parseRuntimeProviderInstanceId("gemini:main"), null)
+  } finally {
+    restore()
+  }
+})
+
 test("resolveRuntimeProfileConfig returns quartermaster chain by metadata", () => {
   const restore = withEnv("RUNTIME_PROFILE_QUARTERMASTER", undefined)
 
@@ -64,3 +80,127 @@ test("resolveRuntimeProfileConfig returns quartermaster chain by metadata", () =
     restore()
   }
 })
+
+function customProfile(overrides: Partial<RuntimeProfileDefinition> = {}): RuntimeProfileDefinition {
+  return {
+    id: "profile-1",
+    name: "cost-aware",
+    strategy: "ordered",
+    providers: [
+      { provider: "openclaw", weight: 1 },
+      { provider: "openai-fallback", weight: 1 },
+    ],
+    rules: [],
+    guardrails: {
+      maxP95LatencyMs: null,
+      maxErrorRate: null,
+      healthWindowMinutes: 60,
+      minHealthSamples: 5,
+      maxCostUsdPerRequest: null,
+      budgetUsd: null,
+      budgetWindowHours: 24,
+    },
+    ...overrides,
+  }
+}
+
+test("planRuntimeProviderRoute applies the first rule matching the execution kind", () => {
+  const definition = customProfile({
+    rules: [
+      {
+        name: "autonomous-to-codex",
+        when: { executionKind: "autonomous_task" },
+        providers: [{ provider: "codex-cli", weight: 1 }],
+      },
+    ],
+  })
+
+  const autonomous = planRuntimeProviderRoute({
+    definition,
+    executionKind: "autonomous_task",
+    promptChars: 10,
+    health: {},
+    spentUsd: 0,
+    projectedCostUsd: 0,
+  })
+  assert.equal(autonomous.ruleName, "autonomous-to-codex")
+  assert.deepEqual(autonomous.providerOrder, ["codex-cli", "local-fallback"])
+
+  const chat = planRuntimeProviderRoute({
+    definition,
+    executionKind: "human_chat",
+    promptChars: 10,
+    health: {},
+    spentUsd: 0,
+    projectedCostUsd: 0,
+  })
+  assert.equal(chat.ruleName, null)
+  assert.deepEqual(chat.providerOrder, ["openclaw", "openai-fallback", "local-fallback"])
+})
+
+test("planRuntimeProviderRoute orders weighted providers by sampled weight", () => {
+  const route = planRuntimeProviderRoute({
+    definition: customProfile({
+      strategy: "weighted",
+      providers: [
+        { provider: "openclaw", weight: 1 },
+        { provider: "openai-fallback", weight: 3 },
+        { provider: "codex-cli", weight: 0 },
+      ],
+    }),
+    executionKind: "human_chat",
+    promptChars: 10,
+    health: {},
+    spentUsd: 0,
+    projectedCostUsd: 0,
+    random: () => 0.5,
+  })
+
+  assert.equal(route.strategy, "weighted")
+  assert.deepEqual(route.providerOrder, ["openai-fallback", "openclaw", "local-fallback"])
+})
+
+test("planRuntimeProviderRoute skips providers breaching latency or error guardrails", () => {
+  const route = planRuntimeProviderRoute({
+    definition: customProfile({
+      guardrails: {
+        ...customProfile().guardrails,
+        maxP95LatencyMs: 5000,
+        maxErrorRate: 0.2,
+      },
+    }),
+    executionKind: "human_chat",
+    promptChars: 10,
+    health: {
+      openclaw: { sampleCount: 20, p95DurationMs: 9000, errorRate: 0 },
+      "openai-fallback": { sampleCount: 3, p95DurationMs: 9000, errorRate: 1 },
+    },
+    spentUsd: 0,
+    projectedCostUsd: 0,
+  })
+
+  assert.deepEqual(route.providerOrder, ["openai-fallback", "local-fallback"])
+  assert.equal(route.skipped.length, 1)
+  assert.equal(route.skipped[0].provider, "openclaw")
+  assert.match(route.skipped[0].reason, /p95 9000ms/)
+})
+
+test("planRuntimeProviderRoute drops metered providers once the budget would be exceeded", () => {
+  const route = planRuntimeProviderRoute({
+    definition: customProfile({
+      guardrails: {
+        ...customProfile().guardrails,
+        budgetUsd: 1,
+      },
+    }),
+    executionKind: "human_chat",
+    promptChars: 10,
+    health: {},
+    spentUsd: 0.99,
+    projectedCostUsd: 0.02,
+  })
+
+  assert.deepEqual(route.providerOrder, ["local-fallback"])
+  assert.equal(route.budget?.exceeded, true)
+  assert.deepEqual(route.skipped.map((entry) => entry.provider), ["openclaw", "openai-fallback"])
+})
@@ -1,20 +1,104 @@
-import type { RuntimeRequest, RuntimeProvider } from "@/lib/types/runtime"
+import type {
+  BuiltinRuntimeProvider,
+  RuntimeProvider,
+  RuntimeProviderInstanceId,
+  RuntimeProviderInstanceKind,
+  RuntimeRequest,
+} from "@/lib/types/runtime"
+import type { RuntimeExecutionKind } from "@/lib/runtime/intelligence/types"
 
-export type RuntimeProfileName = "default" | "quartermaster"
+export type BuiltinRuntimeProfileName = "default" | "quartermaster"
 
-const KNOWN_PROVIDER_SET = new Set<RuntimeProvider>([
+/** Built-in profile names plus user-defined profile slugs. */
+export type RuntimeProfileName = string
+
+export const BUILTIN_RUNTIME_PROFILE_NAMES: BuiltinRuntimeProfileName[] = ["default", "quartermaster"]
+
+export const RUNTIME_PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+export const RUNTIME_PROVIDER_INSTANCE_KINDS: RuntimeProviderInstanceKind[] = ["openai-compatible", "anthropic"]
+
+export type RuntimeRoutingStrategy = "ordered" | "weighted"
+
+export interface RuntimeProfileProviderEntry {
+  provider: RuntimeProvider
+  weight: number
+}
+
+export interface RuntimeRoutingCondition {
+  executionKind?: RuntimeExecutionKind
+  channel?: string
+  minPromptChars?: number
+  maxPromptChars?: number
+}
+
+export interface RuntimeRoutingRule {
+  name: string
+  when: RuntimeRoutingCondition
+  strategy?: RuntimeRoutingStrategy
+  providers: RuntimeProfileProviderEntry[]
+}
+
+export interface RuntimeProfileGuardrails {
+  maxP95LatencyMs: number | null
+  maxErrorRate: number | null
+  healthWindowMinutes: number
+  minHealthSamples: number
+  maxCostUsdPerRequest: number | null
+  budgetUsd: number | null
+  budgetWindowHours: number
+}
+
+export interface RuntimeProfileDefinition {
+  id: string
+  name: string
+  strategy: RuntimeRoutingStrategy
+  providers: RuntimeProfileProviderEntry[]
+  rules: RuntimeRoutingRule[]
+  guardrails: RuntimeProfileGuardrails
+}
+
+export interface RuntimeProviderHealthStats {
+  sampleCount: number
+  p95DurationMs: number | null
+  errorRate: number | null
+}
+
+export interface RuntimeRoutingDecision {
+  profile: RuntimeProfileName
+  source: "builtin" | "custom"
+  profileId: string | null
+  ruleName: string | null
+  strategy: RuntimeRoutingStrategy
+  providerOrder: RuntimeProvider[]
+  skipped: Array<{ provider: RuntimeProvider; reason: string }>
+  budget: {
+    spentUsd: number
+    projectedCostUsd: number
+    limitUsd: number | null
+    maxCostUsdPerRequest: number | null
+    exceeded: boolean
+  } | null
+}
+
+/** Providers that never leave the host and so never count against a budget. */
+const UNMETERED_PROVIDERS = new Set<RuntimeProvider>(["local-fallback"])
+
+export const BUILTIN_RUNTIME_PROVIDERS: BuiltinRuntimeProvider[] = [
   "openclaw",
   "openai-fallback",
   "local-fallback",
   "codex-cli",
-])
+]
+
+const KNOWN_PROVIDER_SET = new Set<BuiltinRuntimeProvider>(BUILTIN_RUNTIME_PROVIDERS)
 
-const DEFAULT_PROFILE_CHAIN: Record<RuntimeProfileName, RuntimeProvider[]> = {
+const DEFAULT_PROFILE_CHAIN: Record<BuiltinRuntimeProfileName, RuntimeProvider[]> = {
   default: ["openclaw", "openai-fallback", "local-fallback"],
   quartermaster: ["codex-cli", "openclaw", "openai-fallback", "local-fallback"],
 }
 
-const PROFILE_ENV_KEYS: Record<RuntimeProfileName, string> = {
+const PROFILE_ENV_KEYS: Record<BuiltinRuntimeProfileName, string> = {
   default: "RUNTIME_PROFILE_DEFAULT",
   quartermaster: "RUNTIME_PROFILE_QUARTERMASTER",
 }
@@ -26,17 +110,50 @@ function asRecord(value: unknown): Record<string, unknown> {
   return value as Record<string, unknown>
 }
 
-function normalizeProviderId(value: string): RuntimeProvider | null {
+export function isBuiltinRuntimeProvider(value: string): value is BuiltinRuntimeProvider {
+  return KNOWN_PROVIDER_SET.has(value as BuiltinRuntimeProvider)
+}
+
+export function runtimeProviderInstanceId(
+  kind: RuntimeProviderInstanceKind,
+  name: string,
+): RuntimeProviderInstanceId {
+  return `${kind}:${name}`
+}
+
+/**
+ * Splits a registry instance id (`openai-compatible:llama-local`) into its kind
+ * and instance name. Names follow the same slug rules as runtime profiles.
+ */
+export function parseRuntimeProviderInstanceId(
+  value: string,
+): { kind: RuntimeProviderInstanceKind; name: string } | null {
+  const separatorIndex = value.indexOf(":")
+  if (separatorIndex < 0) {
+    return null
+  }
+
+  const kind = value.slice(0, separatorIndex) as RuntimeProviderInstanceKind
+  const name = value.slice(separatorIndex + 1)
+  if (!RUNTIME_PROVIDER_INSTANCE_KINDS.includes(kind) || !RUNTIME_PROFILE_NAME_PATTERN.test(name)) {
+    return null
+  }
+
+  return { kind, name }
+}
+
+export function normalizeProviderId(value: string): RuntimeProvider | null {
   const normalized = value.trim().toLowerCase()
   if (!normalized) {
     return null
   }
 
-  if (KNOWN_PROVIDER_SET.has(normalized as RuntimeProvider)) {
-    return normalized as RuntimeProvider
+  if (isBuiltinRuntimeProvider(normalized)) {
+    return normalized
   }
 
-  return null
+  const instance = parseRuntimeProviderInstanceId(normalized)
+  return instance ? runtimeProviderInstanceId(instance.kind, instance.name) : null
 }
 
 function uniqueProviders(input: RuntimeProvider[]): RuntimeProvider[] {
@@ -55,7 +172,7 @@ function uniqueProviders(input: RuntimeProvider[]): RuntimeProvider[] {
   return result
 }
 
-function parseProfileOverride(raw: string | undefined, profile: RuntimeProfileName): RuntimeProvider[] | null {
+function parseProfileOverride(raw: string | undefined, profile: BuiltinRuntimeProfileName): RuntimeProvider[] | null {
   if (!raw || !raw.trim()) {
     return null
   }
@@ -92,7 +209,7 @@ function parseProfileOverride(raw: string | undefined, profile: RuntimeProfileNa
   return uniqueProviders(providers)
 }
 
-export function resolveRuntimeProfileName(metadata?: Record<string, unknown>): RuntimeProfileName {
+export function resolveRuntimeProfileName(metadata?: Record<string, unknown>): BuiltinRuntimeProfileName {
   const metadataRecord = asRecord(metadata)
   const runtimeRecord = asRecord(metadataRecord.runtime)
   const rawProfile = typeof runtimeRecord.profile === "string" ? runtimeRecord.profile.trim().toLowerCase() : ""
@@ -104,7 +221,21 @@ export function resolveRuntimeProfileName(metadata?: Record<string, unknown>): R
   return "default"
 }
 
-export function resolveRuntimeProviderOrder(profile: RuntimeProfileName): RuntimeProvider[] {
+/**
+ * The profile name a request asked for, normalized, whether or not it is a
+ * built-in. Returns null when none was given or it is not a valid slug.
+ */
+export function resolveRequestedRuntimeProfileName(metadata?: Record<string, unknown>): string | null {
+  const runtimeRecord = asRecord(asRecord(metadata).runtime)
+  const rawProfile = typeof runtimeRecord.profile === "string" ? runtimeRecord.profile.trim().toLowerCase() : ""
+  return RUNTIME_PROFILE_NAME_PATTERN.test(rawProfile) ? rawProfile : null
+}
+
+export function isBuiltinRuntimeProfileName(name: string): name is BuiltinRuntimeProfileName {
+  return BUILTIN_RUNTIME_PROFILE_NAMES.includes(name as BuiltinRuntimeProfileName)
+}
+
+export function resolveRuntimeProviderOrder(profile: BuiltinRuntimeProfileName): RuntimeProvider[] {
   const envKey = PROFILE_ENV_KEYS[profile]
   const override = parseProfileOverride(process.env[envKey], profile)
   const baseOrder = override || DEFAULT_PROFILE_CHAIN[profile]
@@ -118,7 +249,7 @@ export function resolveRuntimeProviderOrder(profile: RuntimeProfileName): Runtim
 }
 
 export function resolveRuntimeProfileConfig(request: RuntimeRequest): {
-  profile: RuntimeProfileName
+  profile: BuiltinRuntimeProfileName
   providerOrder: RuntimeProvider[]
 } {
   const profile = resolveRuntimeProfileName(request.metadata)
@@ -127,3 +258,188 @@ export function resolveRuntimeProfileConfig(request: RuntimeRequest): {
     providerOrder: resolveRuntimeProviderOrder(profile),
   }
 }
+
+export function builtinRuntimeRoutingDecision(profile: BuiltinRuntimeProfileName): RuntimeRoutingDecision {
+  return {
+    profile,
+    source: "builtin",
+    profileId: null,
+    ruleName: null,
+    strategy: "ordered",
+    providerOrder: resolveRuntimeProviderOrder(profile),
+    skipped: [],
+    budget: null,
+  }
+}
+
+function ruleMatches(rule: RuntimeRoutingRule, context: {
+  executionKind: RuntimeExecutionKind
+  channel: string | null
+  promptChars: number
+}): boolean {
+  const { when } = rule
+  if (when.executionKind && when.executionKind !== context.executionKind) {
+    return false
+  }
+
+  if (when.channel && when.channel !== context.channel) {
+    return false
+  }
+
+  if (when.minPromptChars !== undefined && context.promptChars < when.minPromptChars) {
+    return false
+  }
+
+  if (when.maxPromptChars !== undefined && context.promptChars > when.maxPromptChars) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Weighted sampling without replacement: higher weights tend to come first,
+ * but every provider with a positive weight stays in the chain as a fallback.
+ */
+function orderByWeight(entries: RuntimeProfileProviderEntry[], random: () => number): RuntimeProvider[] {
+  const remaining = entries.filter((entry) => entry.weight > 0)
+  const ordered: RuntimeProvider[] = []
+
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, entry) => sum + entry.weight, 0)
+    let pick = random() * total
+    let index = remaining.findIndex((entry) => {
+      pick -= entry.weight
+      return pick < 0
+    })
+    if (index < 0) {
+      index = remaining.length - 1
+    }
+
+    ordered.push(remaining[index].provider)
+    remaining.splice(index, 1)
+  }
+
+  return ordered
+}
+
+function healthSkipReason(
+  stats: RuntimeProviderHealthStats | undefined,
+  guardrails: RuntimeProfileGuardrails,
+): string | null {
+  if (!stats || stats.sampleCount < guardrails.minHealthSamples) {
+    return null
+  }
+
+  if (
+    guardrails.maxP95LatencyMs !== null
+    && stats.p95DurationMs !== null
+    && stats.p95DurationMs > guardrails.maxP95LatencyMs
+  ) {
+    return `p95 ${stats.p95DurationMs}ms exceeds ${guardrails.maxP95LatencyMs}ms`
+  }
+
+  if (
+    guardrails.maxErrorRate !== null
+    && stats.errorRate !== null
+    && stats.errorRate > guardrails.maxErrorRate
+  ) {
+    return `error rate ${stats.errorRate.toFixed(3)} exceeds ${guardrails.maxErrorRate}`
+  }
+
+  return null
+}
+
+/**
+ * Builds the provider chain for a user-defined profile: the first matching
+ * rule (or the profile's own providers) is ordered by its strategy, providers
+ * breaching the latency/error guardrails are skipped, and metered providers
+ * are dropped once the spend cap would be exceeded. `local-fallback` is always
+ * kept last so a request can still be answered.
+ */
+export function planRuntimeProviderRoute(args: {
+  definition: RuntimeProfileDefinition
+  executionKind: RuntimeExecutionKind
+  channel?: string | null
+  promptChars: number
+  health: Partial<Record<RuntimeProvider, RuntimeProviderHealthStats>>
+  spentUsd: number
+  projectedCostUsd: number
+  random?: () => number
+}): RuntimeRoutingDecision {
+  const { definition } = args
+  const { guardrails } = definition
+  const random = args.random || Math.random
+  const rule = definition.rules.find((candidate) =>
+    ruleMatches(candidate, {
+      executionKind: args.executionKind,
+      channel: args.channel || null,
+      promptChars: args.promptChars,
+    }),
+  ) || null
+  const strategy = rule?.strategy || definition.strategy
+  const entries = rule ? rule.providers : definition.providers
+  const candidates = uniqueProviders(
+    strategy === "weighted"
+      ? orderByWeight(entries, random)
+      : entries.map((entry) => entry.provider),
+  )
+
+  const skipped: RuntimeRoutingDecision["skipped"] = []
+  let providerOrder = candidates.filter((provider) => {
+    if (UNMETERED_PROVIDERS.has(provider)) {
+      return true
+    }
+
+    const reason = healthSkipReason(args.health[provider], guardrails)
+    if (reason) {
+      skipped.push({ provider, reason })
+      return false
+    }
+
+    return true
+  })
+
+  const hasBudget = guardrails.budgetUsd !== null || guardrails.maxCostUsdPerRequest !== null
+  const overRequestCap = guardrails.maxCostUsdPerRequest !== null
+    && args.projectedCostUsd > guardrails.maxCostUsdPerRequest
+  const overBudget = guardrails.budgetUsd !== null
+    && args.spentUsd + args.projectedCostUsd > guardrails.budgetUsd
+  const exceeded = overRequestCap || overBudget
+
+  if (exceeded) {
+    const reason = overRequestCap
+      ? `projected cost $${args.projectedCostUsd.toFixed(6)} exceeds per-request cap $${guardrails.maxCostUsdPerRequest}`
+      : `spend $${args.spentUsd.toFixed(6)} would exceed budget $${guardrails.budgetUsd} over ${guardrails.budgetWindowHours}h`
+    providerOrder = providerOrder.filter((provider) => {
+      if (UNMETERED_PROVIDERS.has(provider)) {
+        return true
+      }
+      skipped.push({ provider, reason })
+      return false
+    })
+  }
+
+  if (!providerOrder.includes("local-fallback")) {
+    providerOrder.push("local-fallback")
+  }
+
+  return {
+    profile: definition.name,
+    source: "custom",
+    profileId: definition.id,
+    ruleName: rule?.name || null,
+    strategy,
+    providerOrder,
+    skipped,
+    budget: hasBudget
+      ? {
+          spentUsd: args.spentUsd,
+          projectedCostUsd: args.projectedCostUsd,
+          limitUsd: guardrails.budgetUsd,
+          maxCostUsdPerRequest: guardrails.maxCostUsdPerRequest,
+          exceeded,
+        }
+      : null,
+  }
+}
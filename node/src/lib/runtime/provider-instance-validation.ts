@@ -0,0 +1,199 @@
+import type { RuntimeProviderInstanceKind } from "@/lib/types/runtime"
+import { RUNTIME_PROFILE_NAME_PATTERN, RUNTIME_PROVIDER_INSTANCE_KINDS } from "@/lib/runtime/profiles"
+
+const MAX_TIMEOUT_MS = 600_000
+
+export interface ParsedRuntimeProviderInstanceInput {
+  name: string
+  kind: RuntimeProviderInstanceKind
+  baseUrl: string
+  model: string
+  apiKey: string | null
+  shipDeploymentId: string | null
+  timeoutMs: number
+  maxOutputTokens: number | null
+  isActive: boolean
+}
+
+export type ParsedRuntimeProviderInstanceUpdateInput = Partial<
+  Omit<ParsedRuntimeProviderInstanceInput, "kind">
+>
+
+export class RuntimeProviderInstanceValidationError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "RuntimeProviderInstanceValidationError"
+    this.status = status
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function has(record: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function parseName(value: unknown): string {
+  const name = asNonEmptyString(value)?.toLowerCase() || ""
+  if (!RUNTIME_PROFILE_NAME_PATTERN.test(name)) {
+    throw new RuntimeProviderInstanceValidationError(
+      "name must be 1-64 lowercase letters, digits, '-' or '_' and start with a letter or digit.",
+    )
+  }
+
+  return name
+}
+
+function parseKind(value: unknown): RuntimeProviderInstanceKind {
+  const kind = asNonEmptyString(value) as RuntimeProviderInstanceKind | null
+  if (!kind || !RUNTIME_PROVIDER_INSTANCE_KINDS.includes(kind)) {
+    throw new RuntimeProviderInstanceValidationError(
+      `kind must be one of ${RUNTIME_PROVIDER_INSTANCE_KINDS.join(", ")}.`,
+    )
+  }
+
+  return kind
+}
+
+function parseBaseUrl(value: unknown): string {
+  const raw = asNonEmptyString(value)
+  if (!raw) {
+    throw new RuntimeProviderInstanceValidationError("baseUrl is required.")
+  }
+
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new RuntimeProviderInstanceValidationError("baseUrl must be a valid URL.")
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RuntimeProviderInstanceValidationError("baseUrl must use http or https.")
+  }
+
+  if (url.username || url.password) {
+    throw new RuntimeProviderInstanceValidationError("baseUrl must not embed credentials; use apiKey instead.")
+  }
+
+  return raw.replace(/\/+$/, "")
+}
+
+function parseRequiredString(value: unknown, field: string): string {
+  const parsed = asNonEmptyString(value)
+  if (!parsed) {
+    throw new RuntimeProviderInstanceValidationError(`${field} is required.`)
+  }
+
+  return parsed
+}
+
+function parseNullableString(value: unknown, field: string): string | null {
+  if (value === null) {
+    return null
+  }
+
+  if (typeof value !== "string") {
+    throw new RuntimeProviderInstanceValidationError(`${field} must be a string or null.`)
+  }
+
+  return asNonEmptyString(value)
+}
+
+function parseTimeoutMs(value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0 || value > MAX_TIMEOUT_MS) {
+    throw new RuntimeProviderInstanceValidationError(`timeoutMs must be a positive integer up to ${MAX_TIMEOUT_MS}.`)
+  }
+
+  return value
+}
+
+function parseMaxOutputTokens(value: unknown): number | null {
+  if (value === null) {
+    return null
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new RuntimeProviderInstanceValidationError("maxOutputTokens must be a positive integer or null.")
+  }
+
+  return value
+}
+
+function parseBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new RuntimeProviderInstanceValidationError(`${field} must be a boolean.`)
+  }
+
+  return value
+}
+
+function parseInstanceFields(record: Record<string, unknown>): ParsedRuntimeProviderInstanceUpdateInput {
+  const parsed: ParsedRuntimeProviderInstanceUpdateInput = {}
+
+  if (has(record, "name")) parsed.name = parseName(record.name)
+  if (has(record, "baseUrl")) parsed.baseUrl = parseBaseUrl(record.baseUrl)
+  if (has(record, "model")) parsed.model = parseRequiredString(record.model, "model")
+  if (has(record, "apiKey")) parsed.apiKey = parseNullableString(record.apiKey, "apiKey")
+  if (has(record, "shipDeploymentId")) {
+    parsed.shipDeploymentId = parseNullableString(record.shipDeploymentId, "shipDeploymentId")
+  }
+  if (has(record, "timeoutMs")) parsed.timeoutMs = parseTimeoutMs(record.timeoutMs)
+  if (has(record, "maxOutputTokens")) parsed.maxOutputTokens = parseMaxOutputTokens(record.maxOutputTokens)
+  if (has(record, "isActive")) parsed.isActive = parseBoolean(record.isActive, "isActive")
+
+  return parsed
+}
+
+export function parseRuntimeProviderInstanceCreateInput(input: unknown): ParsedRuntimeProviderInstanceInput {
+  const record = asRecord(input)
+  for (const field of ["name", "kind", "baseUrl", "model"]) {
+    if (!has(record, field)) {
+      throw new RuntimeProviderInstanceValidationError(`${field} is required.`)
+    }
+  }
+
+  const parsed = parseInstanceFields(record)
+  return {
+    apiKey: null,
+    shipDeploymentId: null,
+    timeoutMs: 60_000,
+    maxOutputTokens: null,
+    isActive: true,
+    ...parsed,
+    name: parsed.name as string,
+    kind: parseKind(record.kind),
+    baseUrl: parsed.baseUrl as string,
+    model: parsed.model as string,
+  }
+}
+
+/**
+ * `kind` is part of the instance id that profiles reference, so it cannot be
+ * changed in place; create a new instance instead.
+ */
+export function parseRuntimeProviderInstanceUpdateInput(input: unknown): ParsedRuntimeProviderInstanceUpdateInput {
+  const record = asRecord(input)
+  if (has(record, "kind")) {
+    throw new RuntimeProviderInstanceValidationError("kind cannot be changed; create a new instance instead.")
+  }
+
+  return parseInstanceFields(record)
+}
@@ -0,0 +1,126 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { RuntimeProviderInstance } from "@prisma/client"
+import { RuntimeProviderError } from "@/lib/runtime/errors"
+import {
+  clearRuntimeProviderInstanceCache,
+  loadRuntimeProviderInstance,
+  resolveRuntimeRequestShipDeploymentId,
+  type RuntimeProviderInstanceLoadDeps,
+} from "./provider-instances"
+
+function instanceRecord(overrides: Partial<RuntimeProviderInstance> = {}): RuntimeProviderInstance {
+  return {
+    id: "rpi-shared",
+    ownerUserId: "user-1",
+    shipDeploymentId: null,
+    name: "local",
+    kind: "openai_compatible",
+    baseUrl: "http://shared-host:8000/v1",
+    model: "shared-model",
+    apiKeyEnvelope: null,
+    timeoutMs: 60_000,
+    maxOutputTokens: null,
+    isActive: true,
+    createdAt: new Date("2026-02-17T00:00:00.000Z"),
+    updatedAt: new Date("2026-02-17T00:00:00.000Z"),
+    ...overrides,
+  }
+}
+
+function loadDeps(
+  records: RuntimeProviderInstance[],
+  calls: { find: number } = { find: 0 },
+): RuntimeProviderInstanceLoadDeps {
+  return {
+    findCandidates: async (args) => {
+      calls.find += 1
+      return records.filter((record) =>
+        record.ownerUserId === args.ownerUserId
+        && record.kind === args.kind
+        && record.name === args.name
+        && (record.shipDeploymentId === null || record.shipDeploymentId === args.shipDeploymentId),
+      )
+    },
+    decryptApiKey: async () => "sk-decrypted",
+    now: () => 1_000,
+  }
+}
+
+test("resolveRuntimeRequestShipDeploymentId reads bridge, chat and ship context metadata", () => {
+  assert.equal(
+    resolveRuntimeRequestShipDeploymentId({
+      sessionId: "s",
+      prompt: "p",
+      metadata: { bridge: { shipDeploymentId: "ship-bridge" } },
+    }),
+    "ship-bridge",
+  )
+  assert.equal(
+    resolveRuntimeRequestShipDeploymentId({
+      sessionId: "s",
+      prompt: "p",
+      metadata: { shipContext: { deploymentId: "ship-context" } },
+    }),
+    "ship-context",
+  )
+  assert.equal(resolveRuntimeRequestShipDeploymentId({ sessionId: "s", prompt: "p" }), null)
+})
+
+test("loadRuntimeProviderInstance prefers the ship-bound instance and caches the lookup", async () => {
+  clearRuntimeProviderInstanceCache()
+  const calls = { find: 0 }
+  const deps = loadDeps(
+    [
+      instanceRecord(),
+      instanceRecord({
+        id: "rpi-ship",
+        shipDeploymentId: "ship-1",
+        baseUrl: "http://ship-host:8000/v1",
+        model: "ship-model",
+        apiKeyEnvelope: { storageMode: "wallet-enclave" },
+      }),
+    ],
+    calls,
+  )
+  const request = {
+    sessionId: "s",
+    prompt: "p",
+    userId: "user-1",
+    metadata: { bridge: { shipDeploymentId: "ship-1" } },
+  }
+
+  const shipScoped = await loadRuntimeProviderInstance("openai-compatible:local", request, deps)
+  assert.equal(shipScoped.recordId, "rpi-ship")
+  assert.equal(shipScoped.baseUrl, "http://ship-host:8000/v1")
+  assert.equal(shipScoped.apiKey, "sk-decrypted")
+
+  await loadRuntimeProviderInstance("openai-compatible:local", request, deps)
+  assert.equal(calls.find, 1)
+
+  const unscoped = await loadRuntimeProviderInstance(
+    "openai-compatible:local",
+    { sessionId: "s", prompt: "p", userId: "user-1" },
+    deps,
+  )
+  assert.equal(unscoped.recordId, "rpi-shared")
+  assert.equal(unscoped.apiKey, null)
+})
+
+test("loadRuntimeProviderInstance raises a recoverable not-configured error for unknown instances", async () => {
+  clearRuntimeProviderInstanceCache()
+
+  await assert.rejects(
+    () => loadRuntimeProviderInstance(
+      "anthropic:missing",
+      { sessionId: "s", prompt: "p", userId: "user-1" },
+      loadDeps([instanceRecord()]),
+    ),
+    (error) => {
+      assert.ok(error instanceof RuntimeProviderError)
+      assert.equal(error.code, "PROVIDER_INSTANCE_NOT_CONFIGURED")
+      assert.equal(error.recoverable, true)
+      return true
+    },
+  )
+})
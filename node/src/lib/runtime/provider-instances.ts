@@ -0,0 +1,243 @@
+import type { RuntimeProviderInstance } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { createRecoverableRuntimeError } from "@/lib/runtime/errors"
+import { parseRuntimeProviderInstanceId, runtimeProviderInstanceId } from "@/lib/runtime/profiles"
+import {
+  decryptCloudSecretEnvelope,
+  encryptCloudSecretEnvelope,
+  summarizeCloudSecretEnvelope,
+  type EncryptedCloudSecretEnvelope,
+} from "@/lib/shipyard/cloud/vault"
+import type {
+  RuntimeProviderInstanceId,
+  RuntimeProviderInstanceKind,
+  RuntimeRequest,
+} from "@/lib/types/runtime"
+
+const INSTANCE_CACHE_TTL_MS = 60_000
+
+type StoredInstanceKind = RuntimeProviderInstance["kind"]
+
+export interface RuntimeProviderInstanceConfig {
+  id: RuntimeProviderInstanceId
+  recordId: string
+  kind: RuntimeProviderInstanceKind
+  name: string
+  baseUrl: string
+  model: string
+  apiKey: string | null
+  timeoutMs: number
+  maxOutputTokens: number | null
+  shipDeploymentId: string | null
+}
+
+export interface RuntimeProviderInstanceLoadDeps {
+  findCandidates: (args: {
+    ownerUserId: string
+    kind: StoredInstanceKind
+    name: string
+    shipDeploymentId: string | null
+  }) => Promise<RuntimeProviderInstance[]>
+  decryptApiKey: (stored: unknown, contextFallback: string) => Promise<string>
+  now: () => number
+}
+
+const instanceCache = new Map<string, { value: RuntimeProviderInstanceConfig | null; expiresAt: number }>()
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+export function toStoredRuntimeProviderInstanceKind(kind: RuntimeProviderInstanceKind): StoredInstanceKind {
+  return kind === "openai-compatible" ? "openai_compatible" : "anthropic"
+}
+
+export function fromStoredRuntimeProviderInstanceKind(kind: StoredInstanceKind): RuntimeProviderInstanceKind {
+  return kind === "openai_compatible" ? "openai-compatible" : "anthropic"
+}
+
+export function buildRuntimeProviderApiKeyContext(args: {
+  userId: string
+  kind: RuntimeProviderInstanceKind
+  name: string
+  shipDeploymentId: string | null
+}): string {
+  return `shipyard:runtime-provider:${args.userId}:${args.kind}:${args.name}:${args.shipDeploymentId || "any"}:api-key`
+}
+
+/**
+ * API keys live in the Ship Yard secret vault as wallet-enclave envelopes, the
+ * same storage used for cloud credentials.
+ */
+export async function storeRuntimeProviderApiKeyEnvelope(args: {
+  userId: string
+  kind: RuntimeProviderInstanceKind
+  name: string
+  shipDeploymentId: string | null
+  apiKey: string
+}): Promise<EncryptedCloudSecretEnvelope> {
+  return encryptCloudSecretEnvelope({
+    context: buildRuntimeProviderApiKeyContext(args),
+    plaintext: JSON.stringify({ apiKey: args.apiKey }),
+  })
+}
+
+/** Ship the request is scoped to, read from the same metadata the bridge and Quartermaster flows set. */
+export function resolveRuntimeRequestShipDeploymentId(request: RuntimeRequest): string | null {
+  const metadata = asRecord(request.metadata)
+  const shipContext = asRecord(metadata.shipContext)
+  return asNonEmptyString(asRecord(metadata.bridge).shipDeploymentId)
+    || asNonEmptyString(asRecord(metadata.agentChat).shipDeploymentId)
+    || asNonEmptyString(asRecord(metadata.quartermaster).shipDeploymentId)
+    || asNonEmptyString(shipContext.shipDeploymentId)
+    || asNonEmptyString(shipContext.deploymentId)
+}
+
+const defaultLoadDeps: RuntimeProviderInstanceLoadDeps = {
+  findCandidates: (args) =>
+    prisma.runtimeProviderInstance.findMany({
+      where: {
+        ownerUserId: args.ownerUserId,
+        kind: args.kind,
+        name: args.name,
+        isActive: true,
+        OR: [
+          { shipDeploymentId: null },
+          ...(args.shipDeploymentId ? [{ shipDeploymentId: args.shipDeploymentId }] : []),
+        ],
+      },
+    }),
+  decryptApiKey: async (stored, contextFallback) => {
+    const plaintext = await decryptCloudSecretEnvelope({ stored, contextFallback })
+    const apiKey = asNonEmptyString(asRecord(JSON.parse(plaintext)).apiKey)
+    if (!apiKey) {
+      throw new Error("Runtime provider API key is missing in stored envelope.")
+    }
+    return apiKey
+  },
+  now: () => Date.now(),
+}
+
+export function clearRuntimeProviderInstanceCache(): void {
+  instanceCache.clear()
+}
+
+/**
+ * Loads the active instance a provider id refers to for the requesting user.
+ * An instance bound to the request's ship wins over an unbound one with the
+ * same name, so one profile can reach a different model server per ship.
+ * Missing instances surface as a recoverable `*_NOT_CONFIGURED` error so the
+ * chain moves on without tripping the circuit breaker.
+ */
+export async function loadRuntimeProviderInstance(
+  providerId: RuntimeProviderInstanceId,
+  request: RuntimeRequest,
+  deps: RuntimeProviderInstanceLoadDeps = defaultLoadDeps,
+): Promise<RuntimeProviderInstanceConfig> {
+  const parsed = parseRuntimeProviderInstanceId(providerId)
+  const notConfigured = (message: string) => createRecoverableRuntimeError({
+    provider: providerId,
+    code: "PROVIDER_INSTANCE_NOT_CONFIGURED",
+    message,
+  })
+
+  if (!parsed) {
+    throw notConfigured(`Runtime provider id \`${providerId}\` is not a valid instance id`)
+  }
+
+  if (!request.userId) {
+    throw notConfigured(`Runtime provider \`${providerId}\` requires a user-scoped request`)
+  }
+
+  const shipDeploymentId = resolveRuntimeRequestShipDeploymentId(request)
+  const cacheKey = `${request.userId}:${providerId}:${shipDeploymentId || ""}`
+  const now = deps.now()
+  const cached = instanceCache.get(cacheKey)
+  let config: RuntimeProviderInstanceConfig | null
+
+  if (cached && cached.expiresAt > now) {
+    config = cached.value
+  } else {
+    const candidates = await deps.findCandidates({
+      ownerUserId: request.userId,
+      kind: toStoredRuntimeProviderInstanceKind(parsed.kind),
+      name: parsed.name,
+      shipDeploymentId,
+    })
+    const record = candidates.find((candidate) => shipDeploymentId && candidate.shipDeploymentId === shipDeploymentId)
+      || candidates.find((candidate) => candidate.shipDeploymentId === null)
+      || null
+
+    config = record
+      ? {
+          id: providerId,
+          recordId: record.id,
+          kind: parsed.kind,
+          name: record.name,
+          baseUrl: record.baseUrl,
+          model: record.model,
+          apiKey: record.apiKeyEnvelope
+            ? await deps.decryptApiKey(
+                record.apiKeyEnvelope,
+                buildRuntimeProviderApiKeyContext({
+                  userId: record.ownerUserId,
+                  kind: parsed.kind,
+                  name: record.name,
+                  shipDeploymentId: record.shipDeploymentId,
+                }),
+              )
+            : null,
+          timeoutMs: record.timeoutMs,
+          maxOutputTokens: record.maxOutputTokens,
+          shipDeploymentId: record.shipDeploymentId,
+        }
+      : null
+    instanceCache.set(cacheKey, { value: config, expiresAt: now + INSTANCE_CACHE_TTL_MS })
+  }
+
+  if (!config) {
+    throw notConfigured(`Runtime provider \`${providerId}\` has no active instance for this user or ship`)
+  }
+
+  return config
+}
+
+/**
+ * Record id the provider id resolves to for this request, or null when no
+ * active instance is configured. Used to key circuit and health state.
+ */
+export async function resolveRuntimeProviderInstanceRecordId(
+  providerId: RuntimeProviderInstanceId,
+  request: RuntimeRequest,
+  load: (providerId: RuntimeProviderInstanceId, request: RuntimeRequest) => Promise<RuntimeProviderInstanceConfig> = loadRuntimeProviderInstance,
+): Promise<string | null> {
+  try {
+    return (await load(providerId, request)).recordId
+  } catch {
+    return null
+  }
+}
+
+export function serializeRuntimeProviderInstance(instance: RuntimeProviderInstance) {
+  const kind = fromStoredRuntimeProviderInstanceKind(instance.kind)
+  const { apiKeyEnvelope, ...rest } = instance
+  return {
+    ...rest,
+    kind,
+    providerId: runtimeProviderInstanceId(kind, instance.name),
+    hasApiKey: summarizeCloudSecretEnvelope(apiKeyEnvelope).hasSecret,
+  }
+}
@@ -0,0 +1,136 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { createAnthropicRuntimeProvider } from "./anthropic"
+import type { RuntimeProviderInstanceConfig } from "@/lib/runtime/provider-instances"
+
+const context = { profile: "default", previousErrors: [] }
+
+function instanceConfig(overrides: Partial<RuntimeProviderInstanceConfig> = {}): RuntimeProviderInstanceConfig {
+  return {
+    id: "anthropic:main",
+    recordId: "rpi-2",
+    kind: "anthropic",
+    name: "main",
+    baseUrl: "https://api.anthropic.com",
+    model: "claude-sonnet-4-5",
+    apiKey: "sk-ant",
+    timeoutMs: 5_000,
+    maxOutputTokens: null,
+    shipDeploymentId: null,
+    ...overrides,
+  }
+}
+
+test("anthropic provider calls the Messages API and joins text blocks", async () => {
+  const previousFetch = globalThis.fetch
+  globalThis.fetch = (async (url: RequestInfo | URL, init?: RequestInit) => {
+    assert.equal(String(url), "https://api.anthropic.com/v1/messages")
+    const headers = init?.headers as Record<string, string>
+    assert.equal(headers["x-api-key"], "sk-ant")
+    assert.equal(headers["anthropic-version"], "2023-06-01")
+    const body = JSON.parse(String(init?.body))
+    assert.equal(body.model, "claude-sonnet-4-5")
+    assert.equal(body.max_tokens, 1024)
+
+    return new Response(
+      JSON.stringify({
+        content: [
+          { type: "text", text: "Hello" },
+          { type: "text", text: " world" },
+        ],
+        stop_reason: "end_turn",
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )
+  }) as typeof fetch
+
+  try {
+    const provider = createAnthropicRuntimeProvider("anthropic:main", async () => instanceConfig())
+    const result = await provider.run({ sessionId: "s", prompt: "hi", userId: "user-1" }, context)
+
+    assert.equal(result.provider, "anthropic:main")
+    assert.equal(result.output, "Hello world")
+    assert.equal(result.metadata?.stopReason, "end_turn")
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
+
+test("anthropic provider streams text deltas until message_stop", async () => {
+  const encoder = new TextEncoder()
+  const previousFetch = globalThis.fetch
+  globalThis.fetch = (async () =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(
+            'event: message_start\ndata: {"type":"message_start"}\n\n'
+              + 'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n'
+              + 'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"!"}}\n\n'
+              + 'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+          ))
+          controller.close()
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    )) as typeof fetch
+
+  try {
+    const provider = createAnthropicRuntimeProvider("anthropic:main", async () => instanceConfig())
+    const deltas: string[] = []
+    let output = ""
+    for await (const event of provider.stream!({ sessionId: "s", prompt: "hi", userId: "user-1" }, context)) {
+      if (event.type === "delta") {
+        deltas.push(event.text)
+      } else {
+        output = event.result.output
+      }
+    }
+
+    assert.deepEqual(deltas, ["Hi", "!"])
+    assert.equal(output, "Hi!")
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
+
+test("anthropic provider skips malformed stream frames", async () => {
+  const encoder = new TextEncoder()
+  const previousFetch = globalThis.fetch
+  const originalWarn = console.warn
+  const warnings: unknown[][] = []
+  console.warn = (...args: unknown[]) => {
+    warnings.push(args)
+  }
+  globalThis.fetch = (async () =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(
+            'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n'
+              + 'event: content_block_delta\ndata: {"type":"content_block_delta","delta":\n\n'
+              + 'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"!"}}\n\n'
+              + 'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+          ))
+          controller.close()
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    )) as typeof fetch
+
+  try {
+    const provider = createAnthropicRuntimeProvider("anthropic:main", async () => instanceConfig())
+    let output = ""
+    for await (const event of provider.stream!({ sessionId: "s", prompt: "hi", userId: "user-1" }, context)) {
+      if (event.type === "result") {
+        output = event.result.output
+      }
+    }
+
+    assert.equal(output, "Hi!")
+    assert.equal(warnings.length, 1)
+  } finally {
+    globalThis.fetch = previousFetch
+    console.warn = originalWarn
+  }
+})
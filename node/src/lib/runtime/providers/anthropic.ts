@@ -0,0 +1,258 @@
+import type { RuntimeProviderInstanceId, RuntimeRequest, RuntimeResult } from "@/lib/types/runtime"
+import { createRecoverableRuntimeError, RuntimeProviderError } from "@/lib/runtime/errors"
+import {
+  loadRuntimeProviderInstance,
+  resolveRuntimeProviderInstanceRecordId,
+  type RuntimeProviderInstanceConfig,
+} from "@/lib/runtime/provider-instances"
+import { linkAbortSignal } from "@/lib/runtime/cancellation"
+import type {
+  RuntimeProviderContext,
+  RuntimeProviderDefinition,
+  RuntimeProviderStreamEvent,
+} from "@/lib/runtime/providers/types"
+import { parseServerSentEventJson, readServerSentEvents } from "@/lib/runtime/providers/sse"
+
+const ANTHROPIC_VERSION = "2023-06-01"
+const DEFAULT_MAX_OUTPUT_TOKENS = 1024
+
+type LoadInstance = (
+  providerId: RuntimeProviderInstanceId,
+  request: RuntimeRequest,
+) => Promise<RuntimeProviderInstanceConfig>
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+  return value as Record<string, unknown>
+}
+
+function messagesUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/v1/messages`
+}
+
+function buildHeaders(instance: RuntimeProviderInstanceConfig, stream: boolean): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "anthropic-version": ANTHROPIC_VERSION,
+  }
+
+  if (stream) {
+    headers.Accept = "text/event-stream"
+  }
+
+  if (instance.apiKey) {
+    headers["x-api-key"] = instance.apiKey
+  }
+
+  return headers
+}
+
+function buildBody(instance: RuntimeProviderInstanceConfig, request: RuntimeRequest, stream: boolean): string {
+  return JSON.stringify({
+    model: instance.model,
+    max_tokens: instance.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+    messages: [
+      {
+        role: "user",
+        content: request.prompt,
+      },
+    ],
+    ...(stream ? { stream: true } : {}),
+  })
+}
+
+function extractMessageOutput(payload: unknown): string | null {
+  const content = asRecord(payload).content
+  if (!Array.isArray(content)) {
+    return null
+  }
+
+  const text = content
+    .map((block) => asRecord(block))
+    .filter((block) => block.type === "text" && typeof block.text === "string")
+    .map((block) => block.text as string)
+    .join("")
+
+  return text.trim().length > 0 ? text : null
+}
+
+async function postMessage(
+  providerId: RuntimeProviderInstanceId,
+  instance: RuntimeProviderInstanceConfig,
+  request: RuntimeRequest,
+  stream: boolean,
+  signal?: AbortSignal,
+): Promise<{ response: Response; clearTimer: () => void }> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), instance.timeoutMs)
+  const unlinkSignal = linkAbortSignal(controller, signal)
+  const cleanup = () => {
+    clearTimeout(timer)
+    unlinkSignal()
+  }
+
+  try {
+    const response = await fetch(messagesUrl(instance.baseUrl), {
+      method: "POST",
+      headers: buildHeaders(instance, stream),
+      body: buildBody(instance, request, stream),
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      cleanup()
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "ANTHROPIC_HTTP_ERROR",
+        message: `${providerId} request failed with status ${response.status}`,
+      })
+    }
+
+    return { response, clearTimer: cleanup }
+  } catch (error) {
+    cleanup()
+    if (error instanceof RuntimeProviderError) {
+      throw error
+    }
+
+    const aborted = (error as Error)?.name === "AbortError"
+    throw createRecoverableRuntimeError({
+      provider: providerId,
+      code: aborted ? "ANTHROPIC_TIMEOUT" : "ANTHROPIC_REQUEST_FAILED",
+      message: aborted
+        ? `${providerId} did not respond within ${instance.timeoutMs}ms`
+        : `${providerId} request failed: ${(error as Error)?.message || "Unknown error"}`,
+    })
+  }
+}
+
+/**
+ * Anthropic Messages API provider. Instances with a custom `baseUrl` can
+ * target any gateway that speaks the same `/v1/messages` protocol.
+ */
+export function createAnthropicRuntimeProvider(
+  providerId: RuntimeProviderInstanceId,
+  loadInstance: LoadInstance = loadRuntimeProviderInstance,
+): RuntimeProviderDefinition {
+  async function run(request: RuntimeRequest, context: RuntimeProviderContext): Promise<RuntimeResult> {
+    const instance = await loadInstance(providerId, request)
+    const { response, clearTimer } = await postMessage(providerId, instance, request, false, context.signal)
+
+    let payload: unknown
+    try {
+      payload = await response.json()
+    } catch (error) {
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "ANTHROPIC_INVALID_RESPONSE",
+        message: `${providerId} returned invalid JSON: ${(error as Error)?.message || "Unknown error"}`,
+      })
+    } finally {
+      clearTimer()
+    }
+
+    const output = extractMessageOutput(payload)
+    if (!output) {
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "ANTHROPIC_MISSING_OUTPUT",
+        message: `${providerId} response did not contain text content`,
+      })
+    }
+
+    return {
+      provider: providerId,
+      output,
+      fallbackUsed: false,
+      metadata: {
+        model: instance.model,
+        instanceId: instance.recordId,
+        stopReason: asRecord(payload).stop_reason ?? null,
+      },
+    }
+  }
+
+  async function* stream(
+    request: RuntimeRequest,
+    context: RuntimeProviderContext,
+  ): AsyncGenerator<RuntimeProviderStreamEvent> {
+    const instance = await loadInstance(providerId, request)
+    const { response, clearTimer } = await postMessage(providerId, instance, request, true, context.signal)
+    let output = ""
+
+    if (!response.body) {
+      clearTimer()
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "ANTHROPIC_MISSING_BODY",
+        message: `${providerId} stream response had no body`,
+      })
+    }
+
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        const parsed = parseServerSentEventJson(event, providerId)
+        if (parsed === undefined) {
+          continue
+        }
+
+        const payload = asRecord(parsed)
+        const type = event.event || payload.type
+
+        if (type === "error") {
+          throw createRecoverableRuntimeError({
+            provider: providerId,
+            code: "ANTHROPIC_STREAM_FAILED",
+            message: `${providerId} stream reported a failure`,
+            details: { event: payload },
+          })
+        }
+
+        if (type === "message_stop") {
+          break
+        }
+
+        if (type === "content_block_delta") {
+          const delta = asRecord(payload.delta)
+          if (delta.type === "text_delta" && typeof delta.text === "string" && delta.text.length > 0) {
+            output += delta.text
+            yield { type: "delta", text: delta.text }
+          }
+        }
+      }
+    } finally {
+      clearTimer()
+    }
+
+    if (!output.trim()) {
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "ANTHROPIC_MISSING_OUTPUT",
+        message: `${providerId} stream did not contain text content`,
+      })
+    }
+
+    yield {
+      type: "result",
+      result: {
+        provider: providerId,
+        output,
+        fallbackUsed: false,
+        metadata: {
+          model: instance.model,
+          instanceId: instance.recordId,
+          streamed: true,
+        },
+      },
+    }
+  }
+
+  return {
+    id: providerId,
+    run,
+    stream,
+    resolveInstanceId: (request) => resolveRuntimeProviderInstanceRecordId(providerId, request, loadInstance),
+  }
+}
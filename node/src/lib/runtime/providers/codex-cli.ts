@@ -1,4 +1,4 @@
-import { execFile as execFileCallback } from "node:child_process"
+import { execFile as execFileCallback, spawn } from "node:child_process"
 import { mkdtemp, readFile, rm } from "node:fs/promises"
 import { tmpdir } from "node:os"
 import { join } from "node:path"
@@ -9,7 +9,11 @@ import {
   createRecoverableRuntimeError,
   RuntimeProviderError,
 } from "@/lib/runtime/errors"
-import type { RuntimeProviderDefinition } from "@/lib/runtime/providers/types"
+import type {
+  RuntimeProviderContext,
+  RuntimeProviderDefinition,
+  RuntimeProviderStreamEvent,
+} from "@/lib/runtime/providers/types"
 import { evaluateCommandPermission } from "@/lib/execution/permissions"
 
 const execFileAsync = promisify(execFileCallback)
@@ -203,7 +207,32 @@ function classifyCodexExecFailure(error: unknown): RuntimeProviderError {
   })
 }
 
-async function runCodexCliRuntime(request: RuntimeRequest): Promise<RuntimeResult> {
+function buildCodexExecArgs(args: {
+  workspace: string
+  outputPath: string
+  model: string | null
+  prompt: string
+}): string[] {
+  const execArgs = [
+    "exec",
+    "--sandbox",
+    "read-only",
+    "--skip-git-repo-check",
+    "-C",
+    args.workspace,
+    "--output-last-message",
+    args.outputPath,
+  ]
+
+  if (args.model) {
+    execArgs.push("-m", args.model)
+  }
+
+  execArgs.push(args.prompt)
+  return execArgs
+}
+
+async function runCodexCliRuntime(request: RuntimeRequest, context?: RuntimeProviderContext): Promise<RuntimeResult> {
   const model = resolveCodexRuntimeModel(request)
   await enforceQuartermasterPolicy(request, model)
 
@@ -230,6 +259,7 @@ async function runCodexCliRuntime(request: RuntimeRequest): Promise<RuntimeResul
           Authorization: `Bearer ${apiKey}`,
         },
         body: JSON.stringify(request),
+        signal: context?.signal,
       })
     } catch (error) {
       throw createRecoverableRuntimeError({
@@ -285,22 +315,12 @@ async function runCodexCliRuntime(request: RuntimeRequest): Promise<RuntimeResul
   const tempDir = await mkdtemp(join(tmpdir(), "orchwiz-codex-runtime-"))
   const outputPath = join(tempDir, "last-message.txt")
 
-  const args = [
-    "exec",
-    "--sandbox",
-    "read-only",
-    "--skip-git-repo-check",
-    "-C",
+  const args = buildCodexExecArgs({
     workspace,
-    "--output-last-message",
     outputPath,
-  ]
-
-  if (model) {
-    args.push("-m", model)
-  }
-
-  args.push(request.prompt)
+    model,
+    prompt: request.prompt,
+  })
 
   const startedAt = Date.now()
 
@@ -309,6 +329,7 @@ async function runCodexCliRuntime(request: RuntimeRequest): Promise<RuntimeResul
       timeout: timeoutMs,
       maxBuffer: 8 * 1024 * 1024,
       env: process.env,
+      signal: context?.signal,
     })
 
     const output = await readLastMessage(outputPath, stdout)
@@ -347,7 +368,174 @@ async function runCodexCliRuntime(request: RuntimeRequest): Promise<RuntimeResul
   }
 }
 
+type CodexProcessEvent =
+  | { type: "stdout"; text: string }
+  | { type: "stderr"; text: string }
+  | { type: "exit"; code: number | null; signal: NodeJS.Signals | null }
+  | { type: "error"; error: NodeJS.ErrnoException }
+
+async function* spawnCodexProcess(
+  executable: string,
+  args: string[],
+  timeoutMs: number,
+  signal?: AbortSignal,
+): AsyncGenerator<CodexProcessEvent> {
+  const child = spawn(executable, args, {
+    env: process.env,
+    timeout: timeoutMs,
+    signal,
+    stdio: ["ignore", "pipe", "pipe"],
+  })
+
+  const pending: CodexProcessEvent[] = []
+  let notify: (() => void) | null = null
+  let finished = false
+
+  const push = (event: CodexProcessEvent) => {
+    if (finished) {
+      return
+    }
+    if (event.type === "exit" || event.type === "error") {
+      finished = true
+    }
+    pending.push(event)
+    notify?.()
+  }
+
+  child.stdout.setEncoding("utf8")
+  child.stderr.setEncoding("utf8")
+  child.stdout.on("data", (text: string) => push({ type: "stdout", text }))
+  child.stderr.on("data", (text: string) => push({ type: "stderr", text }))
+  child.on("error", (error) => push({ type: "error", error }))
+  child.on("close", (code, signal) => push({ type: "exit", code, signal }))
+
+  try {
+    while (true) {
+      const next = pending.shift()
+      if (!next) {
+        await new Promise<void>((resolve) => {
+          notify = resolve
+        })
+        notify = null
+        continue
+      }
+
+      yield next
+      if (next.type === "exit" || next.type === "error") {
+        return
+      }
+    }
+  } finally {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill("SIGTERM")
+    }
+  }
+}
+
+/**
+ * `codex exec` writes progress to stderr and the agent message to stdout, so
+ * stdout chunks are relayed as deltas. The final result still prefers the
+ * `--output-last-message` file, matching `runCodexCliRuntime`.
+ */
+async function* streamCodexCliRuntime(
+  request: RuntimeRequest,
+  context?: RuntimeProviderContext,
+): AsyncGenerator<RuntimeProviderStreamEvent> {
+  if (codexProviderProxyUrl()) {
+    const result = await runCodexCliRuntime(request, context)
+    yield { type: "delta", text: result.output }
+    yield { type: "result", result }
+    return
+  }
+
+  const model = resolveCodexRuntimeModel(request)
+  await enforceQuartermasterPolicy(request, model)
+
+  const executable = codexCliPath()
+  const workspace = codexWorkspace()
+  const timeoutMs = codexTimeoutMs()
+  const tempDir = await mkdtemp(join(tmpdir(), "orchwiz-codex-runtime-"))
+  const outputPath = join(tempDir, "last-message.txt")
+  const args = buildCodexExecArgs({
+    workspace,
+    outputPath,
+    model,
+    prompt: request.prompt,
+  })
+
+  const startedAt = Date.now()
+  let stdout = ""
+  let stderr = ""
+
+  try {
+    for await (const event of spawnCodexProcess(executable, args, timeoutMs, context?.signal)) {
+      if (event.type === "stdout") {
+        stdout += event.text
+        yield { type: "delta", text: event.text }
+        continue
+      }
+
+      if (event.type === "stderr") {
+        stderr += event.text
+        continue
+      }
+
+      if (event.type === "error") {
+        throw classifyCodexExecFailure(Object.assign(event.error, { stdout, stderr }))
+      }
+
+      if (event.code !== 0) {
+        throw classifyCodexExecFailure({
+          code: event.code ?? undefined,
+          signal: event.signal ?? undefined,
+          killed: event.signal === "SIGTERM",
+          stdout,
+          stderr,
+          message: `Codex CLI exited with ${event.signal || event.code}`,
+        })
+      }
+    }
+
+    const output = await readLastMessage(outputPath, stdout)
+    if (!output) {
+      throw createRecoverableRuntimeError({
+        provider: "codex-cli",
+        code: "CODEX_EMPTY_OUTPUT",
+        message: "Codex CLI did not produce a final output message.",
+        details: {
+          stdout,
+          stderr,
+        },
+      })
+    }
+
+    if (!stdout.trim()) {
+      yield { type: "delta", text: output }
+    }
+
+    yield {
+      type: "result",
+      result: {
+        provider: "codex-cli",
+        output,
+        fallbackUsed: false,
+        metadata: {
+          cliPath: executable,
+          workspace,
+          timeoutMs,
+          durationMs: Date.now() - startedAt,
+          model,
+          streamed: true,
+        },
+      },
+    }
+  } finally {
+    await rm(tempDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
 export const codexCliRuntimeProvider: RuntimeProviderDefinition = {
   id: "codex-cli",
   run: runCodexCliRuntime,
+  stream: streamCodexCliRuntime,
 }
@@ -0,0 +1,178 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { createOpenAiCompatibleRuntimeProvider } from "./openai-compatible"
+import { RuntimeProviderError } from "@/lib/runtime/errors"
+import type { RuntimeProviderInstanceConfig } from "@/lib/runtime/provider-instances"
+
+const context = { profile: "default", previousErrors: [] }
+
+function instanceConfig(overrides: Partial<RuntimeProviderInstanceConfig> = {}): RuntimeProviderInstanceConfig {
+  return {
+    id: "openai-compatible:local",
+    recordId: "rpi-1",
+    kind: "openai-compatible",
+    name: "local",
+    baseUrl: "http://model-host:8000/v1",
+    model: "llama-3.1-8b-instruct",
+    apiKey: "sk-local",
+    timeoutMs: 5_000,
+    maxOutputTokens: 256,
+    shipDeploymentId: null,
+    ...overrides,
+  }
+}
+
+function eventStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      controller.close()
+    },
+  })
+}
+
+test("openai-compatible provider posts chat completions with the instance model and key", async () => {
+  const previousFetch = globalThis.fetch
+  globalThis.fetch = (async (url: RequestInfo | URL, init?: RequestInit) => {
+    assert.equal(String(url), "http://model-host:8000/v1/chat/completions")
+    assert.equal((init?.headers as Record<string, string>)?.Authorization, "Bearer sk-local")
+    const body = JSON.parse(String(init?.body))
+    assert.equal(body.model, "llama-3.1-8b-instruct")
+    assert.equal(body.max_tokens, 256)
+    assert.deepEqual(body.messages, [{ role: "user", content: "hello" }])
+
+    return new Response(
+      JSON.stringify({ choices: [{ message: { role: "assistant", content: "hi there" } }] }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )
+  }) as typeof fetch
+
+  try {
+    const provider = createOpenAiCompatibleRuntimeProvider("openai-compatible:local", async () => instanceConfig())
+    const result = await provider.run({ sessionId: "s", prompt: "hello", userId: "user-1" }, context)
+
+    assert.equal(result.provider, "openai-compatible:local")
+    assert.equal(result.output, "hi there")
+    assert.equal(result.fallbackUsed, false)
+    assert.equal(result.metadata?.model, "llama-3.1-8b-instruct")
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
+
+test("openai-compatible provider streams deltas until [DONE]", async () => {
+  const previousFetch = globalThis.fetch
+  globalThis.fetch = (async () =>
+    new Response(
+      eventStream([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+        "data: [DONE]\n\n",
+      ]),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    )) as typeof fetch
+
+  try {
+    const provider = createOpenAiCompatibleRuntimeProvider(
+      "openai-compatible:local",
+      async () => instanceConfig({ apiKey: null }),
+    )
+    const events = []
+    for await (const event of provider.stream!({ sessionId: "s", prompt: "hello", userId: "user-1" }, context)) {
+      events.push(event)
+    }
+
+    assert.deepEqual(events.slice(0, 2), [
+      { type: "delta", text: "Hel" },
+      { type: "delta", text: "lo" },
+    ])
+    const last = events[2]
+    assert.equal(last.type, "result")
+    assert.equal(last.type === "result" && last.result.output, "Hello")
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
+
+test("openai-compatible provider maps HTTP failures to recoverable errors", async () => {
+  const previousFetch = globalThis.fetch
+  globalThis.fetch = (async () => new Response("upstream down", { status: 502 })) as typeof fetch
+
+  try {
+    const provider = createOpenAiCompatibleRuntimeProvider("openai-compatible:local", async () => instanceConfig())
+    await assert.rejects(
+      () => provider.run({ sessionId: "s", prompt: "hello", userId: "user-1" }, context),
+      (error) => {
+        assert.ok(error instanceof RuntimeProviderError)
+        assert.equal(error.code, "OPENAI_COMPATIBLE_HTTP_ERROR")
+        assert.equal(error.recoverable, true)
+        return true
+      },
+    )
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
+
+test("openai-compatible provider skips malformed stream frames", async () => {
+  const previousFetch = globalThis.fetch
+  const originalWarn = console.warn
+  const warnings: unknown[][] = []
+  console.warn = (...args: unknown[]) => {
+    warnings.push(args)
+  }
+  globalThis.fetch = (async () =>
+    new Response(
+      eventStream([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"choices":[{"delta":\n\n',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+        "data: [DONE]\n\n",
+      ]),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } },
+    )) as typeof fetch
+
+  try {
+    const provider = createOpenAiCompatibleRuntimeProvider("openai-compatible:local", async () => instanceConfig())
+    let output = ""
+    for await (const event of provider.stream!({ sessionId: "s", prompt: "hello", userId: "user-1" }, context)) {
+      if (event.type === "result") {
+        output = event.result.output
+      }
+    }
+
+    assert.equal(output, "Hello")
+    assert.equal(warnings.length, 1)
+  } finally {
+    globalThis.fetch = previousFetch
+    console.warn = originalWarn
+  }
+})
+
+test("openai-compatible provider reports a stream response without a body", async () => {
+  const previousFetch = globalThis.fetch
+  globalThis.fetch = (async () =>
+    new Response(null, { status: 200, headers: { "Content-Type": "text/event-stream" } })) as typeof fetch
+
+  try {
+    const provider = createOpenAiCompatibleRuntimeProvider("openai-compatible:local", async () => instanceConfig())
+    await assert.rejects(
+      async () => {
+        for await (const event of provider.stream!({ sessionId: "s", prompt: "hello", userId: "user-1" }, context)) {
+          void event
+        }
+      },
+      (error) => {
+        assert.ok(error instanceof RuntimeProviderError)
+        assert.equal(error.code, "OPENAI_COMPATIBLE_MISSING_BODY")
+        assert.equal(error.recoverable, true)
+        return true
+      },
+    )
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
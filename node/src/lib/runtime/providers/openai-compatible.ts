@@ -0,0 +1,246 @@
+import type { RuntimeProviderInstanceId, RuntimeRequest, RuntimeResult } from "@/lib/types/runtime"
+import { createRecoverableRuntimeError, RuntimeProviderError } from "@/lib/runtime/errors"
+import {
+  loadRuntimeProviderInstance,
+  resolveRuntimeProviderInstanceRecordId,
+  type RuntimeProviderInstanceConfig,
+} from "@/lib/runtime/provider-instances"
+import { linkAbortSignal } from "@/lib/runtime/cancellation"
+import type {
+  RuntimeProviderContext,
+  RuntimeProviderDefinition,
+  RuntimeProviderStreamEvent,
+} from "@/lib/runtime/providers/types"
+import { parseServerSentEventJson, readServerSentEvents } from "@/lib/runtime/providers/sse"
+
+type LoadInstance = (
+  providerId: RuntimeProviderInstanceId,
+  request: RuntimeRequest,
+) => Promise<RuntimeProviderInstanceConfig>
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+  return value as Record<string, unknown>
+}
+
+function chatCompletionsUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/chat/completions`
+}
+
+function buildHeaders(instance: RuntimeProviderInstanceConfig, stream: boolean): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+
+  if (stream) {
+    headers.Accept = "text/event-stream"
+  }
+
+  if (instance.apiKey) {
+    headers.Authorization = `Bearer ${instance.apiKey}`
+  }
+
+  return headers
+}
+
+function buildBody(instance: RuntimeProviderInstanceConfig, request: RuntimeRequest, stream: boolean): string {
+  return JSON.stringify({
+    model: instance.model,
+    messages: [
+      {
+        role: "user",
+        content: request.prompt,
+      },
+    ],
+    ...(instance.maxOutputTokens ? { max_tokens: instance.maxOutputTokens } : {}),
+    ...(stream ? { stream: true } : {}),
+  })
+}
+
+function extractChatCompletionOutput(payload: unknown): string | null {
+  const choices = asRecord(payload).choices
+  if (!Array.isArray(choices)) {
+    return null
+  }
+
+  const content = asRecord(asRecord(choices[0]).message).content
+  return typeof content === "string" && content.trim().length > 0 ? content : null
+}
+
+async function postChatCompletion(
+  providerId: RuntimeProviderInstanceId,
+  instance: RuntimeProviderInstanceConfig,
+  request: RuntimeRequest,
+  stream: boolean,
+  signal?: AbortSignal,
+): Promise<{ response: Response; clearTimer: () => void }> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), instance.timeoutMs)
+  const unlinkSignal = linkAbortSignal(controller, signal)
+  const cleanup = () => {
+    clearTimeout(timer)
+    unlinkSignal()
+  }
+
+  try {
+    const response = await fetch(chatCompletionsUrl(instance.baseUrl), {
+      method: "POST",
+      headers: buildHeaders(instance, stream),
+      body: buildBody(instance, request, stream),
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      cleanup()
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "OPENAI_COMPATIBLE_HTTP_ERROR",
+        message: `${providerId} request failed with status ${response.status}`,
+      })
+    }
+
+    return { response, clearTimer: cleanup }
+  } catch (error) {
+    cleanup()
+    if (error instanceof RuntimeProviderError) {
+      throw error
+    }
+
+    const aborted = (error as Error)?.name === "AbortError"
+    throw createRecoverableRuntimeError({
+      provider: providerId,
+      code: aborted ? "OPENAI_COMPATIBLE_TIMEOUT" : "OPENAI_COMPATIBLE_REQUEST_FAILED",
+      message: aborted
+        ? `${providerId} did not respond within ${instance.timeoutMs}ms`
+        : `${providerId} request failed: ${(error as Error)?.message || "Unknown error"}`,
+    })
+  }
+}
+
+/**
+ * Generic `/chat/completions` provider for any OpenAI-compatible server
+ * (vLLM, llama.cpp, LM Studio, hosted gateways). One definition serves every
+ * named instance; the instance config is resolved per request.
+ */
+export function createOpenAiCompatibleRuntimeProvider(
+  providerId: RuntimeProviderInstanceId,
+  loadInstance: LoadInstance = loadRuntimeProviderInstance,
+): RuntimeProviderDefinition {
+  async function run(request: RuntimeRequest, context: RuntimeProviderContext): Promise<RuntimeResult> {
+    const instance = await loadInstance(providerId, request)
+    const { response, clearTimer } = await postChatCompletion(providerId, instance, request, false, context.signal)
+
+    let payload: unknown
+    try {
+      payload = await response.json()
+    } catch (error) {
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "OPENAI_COMPATIBLE_INVALID_RESPONSE",
+        message: `${providerId} returned invalid JSON: ${(error as Error)?.message || "Unknown error"}`,
+      })
+    } finally {
+      clearTimer()
+    }
+
+    const output = extractChatCompletionOutput(payload)
+    if (!output) {
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "OPENAI_COMPATIBLE_MISSING_OUTPUT",
+        message: `${providerId} response did not contain message content`,
+      })
+    }
+
+    return {
+      provider: providerId,
+      output,
+      fallbackUsed: false,
+      metadata: {
+        model: instance.model,
+        instanceId: instance.recordId,
+      },
+    }
+  }
+
+  async function* stream(
+    request: RuntimeRequest,
+    context: RuntimeProviderContext,
+  ): AsyncGenerator<RuntimeProviderStreamEvent> {
+    const instance = await loadInstance(providerId, request)
+    const { response, clearTimer } = await postChatCompletion(providerId, instance, request, true, context.signal)
+    let output = ""
+
+    if (!response.body) {
+      clearTimer()
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "OPENAI_COMPATIBLE_MISSING_BODY",
+        message: `${providerId} stream response had no body`,
+      })
+    }
+
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.data === "[DONE]") {
+          break
+        }
+
+        const parsed = parseServerSentEventJson(event, providerId)
+        if (parsed === undefined) {
+          continue
+        }
+
+        const payload = asRecord(parsed)
+        if (payload.error) {
+          throw createRecoverableRuntimeError({
+            provider: providerId,
+            code: "OPENAI_COMPATIBLE_STREAM_FAILED",
+            message: `${providerId} stream reported a failure`,
+            details: { event: payload },
+          })
+        }
+
+        const choices = Array.isArray(payload.choices) ? payload.choices : []
+        const delta = asRecord(asRecord(choices[0]).delta).content
+        if (typeof delta === "string" && delta.length > 0) {
+          output += delta
+          yield { type: "delta", text: delta }
+        }
+      }
+    } finally {
+      clearTimer()
+    }
+
+    if (!output.trim()) {
+      throw createRecoverableRuntimeError({
+        provider: providerId,
+        code: "OPENAI_COMPATIBLE_MISSING_OUTPUT",
+        message: `${providerId} stream did not contain message content`,
+      })
+    }
+
+    yield {
+      type: "result",
+      result: {
+        provider: providerId,
+        output,
+        fallbackUsed: false,
+        metadata: {
+          model: instance.model,
+          instanceId: instance.recordId,
+          streamed: true,
+        },
+      },
+    }
+  }
+
+  return {
+    id: providerId,
+    run,
+    stream,
+    resolveInstanceId: (request) => resolveRuntimeProviderInstanceRecordId(providerId, request, loadInstance),
+  }
+}
@@ -1,6 +1,11 @@
 import type { RuntimeRequest, RuntimeResult } from "@/lib/types/runtime"
 import { createRecoverableRuntimeError, RuntimeProviderError } from "@/lib/runtime/errors"
-import type { RuntimeProviderDefinition } from "@/lib/runtime/providers/types"
+import type {
+  RuntimeProviderContext,
+  RuntimeProviderDefinition,
+  RuntimeProviderStreamEvent,
+} from "@/lib/runtime/providers/types"
+import { parseServerSentEventJson, readServerSentEvents } from "@/lib/runtime/providers/sse"
 
 function asRecord(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
@@ -63,7 +68,7 @@ function extractOpenAiOutput(payload: unknown): string | null {
   return null
 }
 
-async function runOpenAiFallback(request: RuntimeRequest): Promise<RuntimeResult> {
+async function runOpenAiFallback(request: RuntimeRequest, context?: RuntimeProviderContext): Promise<RuntimeResult> {
   if (!openAiConfigured()) {
     throw createRecoverableRuntimeError({
       provider: "openai-fallback",
@@ -89,6 +94,7 @@ async function runOpenAiFallback(request: RuntimeRequest): Promise<RuntimeResult
           sessionId: request.sessionId,
         },
       }),
+      signal: context?.signal,
     })
 
     if (!response.ok) {
@@ -131,7 +137,124 @@ async function runOpenAiFallback(request: RuntimeRequest): Promise<RuntimeResult
   }
 }
 
+async function* streamOpenAiFallback(
+  request: RuntimeRequest,
+  context?: RuntimeProviderContext,
+): AsyncGenerator<RuntimeProviderStreamEvent> {
+  if (!openAiConfigured()) {
+    throw createRecoverableRuntimeError({
+      provider: "openai-fallback",
+      code: "OPENAI_NOT_CONFIGURED",
+      message: "OpenAI fallback is not configured",
+    })
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY!
+  const model = resolveOpenAiFallbackModel(request)
+
+  let response: Response
+  try {
+    response = await fetch("https://api.openai.com/v1/responses", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        input: request.prompt,
+        stream: true,
+        metadata: {
+          sessionId: request.sessionId,
+        },
+      }),
+      signal: context?.signal,
+    })
+  } catch (error) {
+    throw createRecoverableRuntimeError({
+      provider: "openai-fallback",
+      code: "OPENAI_REQUEST_FAILED",
+      message: `OpenAI fallback request failed: ${(error as Error).message || "Unknown error"}`,
+    })
+  }
+
+  if (!response.ok || !response.body) {
+    throw createRecoverableRuntimeError({
+      provider: "openai-fallback",
+      code: "OPENAI_HTTP_ERROR",
+      message: `OpenAI fallback request failed with status ${response.status}`,
+    })
+  }
+
+  let streamedOutput = ""
+  let completedOutput: string | null = null
+
+  for await (const event of readServerSentEvents(response.body)) {
+    if (event.data === "[DONE]") {
+      break
+    }
+
+    const parsed = parseServerSentEventJson(event, "openai-fallback")
+    if (parsed === undefined) {
+      continue
+    }
+
+    const payload = asRecord(parsed)
+    const eventType = asString(payload.type) || event.event
+
+    if (eventType === "response.output_text.delta" && typeof payload.delta === "string") {
+      streamedOutput += payload.delta
+      yield { type: "delta", text: payload.delta }
+      continue
+    }
+
+    if (eventType === "response.completed") {
+      completedOutput = extractOpenAiOutput(payload.response)
+      continue
+    }
+
+    if (eventType === "response.failed" || eventType === "error") {
+      throw createRecoverableRuntimeError({
+        provider: "openai-fallback",
+        code: "OPENAI_STREAM_FAILED",
+        message: "OpenAI fallback stream reported a failure",
+        details: {
+          event: payload,
+        },
+      })
+    }
+  }
+
+  const outputText = streamedOutput.trim().length > 0 ? streamedOutput : completedOutput
+  if (!outputText) {
+    throw createRecoverableRuntimeError({
+      provider: "openai-fallback",
+      code: "OPENAI_MISSING_OUTPUT",
+      message: "OpenAI fallback response did not contain output text",
+    })
+  }
+
+  if (!streamedOutput) {
+    yield { type: "delta", text: outputText }
+  }
+
+  yield {
+    type: "result",
+    result: {
+      provider: "openai-fallback",
+      output: outputText,
+      fallbackUsed: true,
+      metadata: {
+        model,
+        streamed: true,
+      },
+    },
+  }
+}
+
 export const openAiFallbackRuntimeProvider: RuntimeProviderDefinition = {
   id: "openai-fallback",
   run: runOpenAiFallback,
+  stream: streamOpenAiFallback,
 }
@@ -1,6 +1,12 @@
 import type { RuntimeRequest, RuntimeResult } from "@/lib/types/runtime"
 import { createRecoverableRuntimeError, RuntimeProviderError } from "@/lib/runtime/errors"
-import type { RuntimeProviderDefinition } from "@/lib/runtime/providers/types"
+import { linkAbortSignal } from "@/lib/runtime/cancellation"
+import type {
+  RuntimeProviderContext,
+  RuntimeProviderDefinition,
+  RuntimeProviderStreamEvent,
+} from "@/lib/runtime/providers/types"
+import { isEventStreamResponse, parseServerSentEventJson, readServerSentEvents } from "@/lib/runtime/providers/sse"
 import { prisma } from "@/lib/prisma"
 import type { BridgeStationKey } from "@/lib/bridge/stations"
 import {
@@ -174,7 +180,15 @@ async function resolveShipNamespaceFromDb(shipDeploymentId: string): Promise<str
   return namespace
 }
 
-async function runOpenClawRuntime(request: RuntimeRequest): Promise<RuntimeResult> {
+interface OpenClawTarget {
+  gateway: string
+  path: string
+  stationKey: BridgeStationKey | null
+  shipNamespace: string | null
+  gatewaySource: string
+}
+
+async function resolveOpenClawTarget(request: RuntimeRequest): Promise<OpenClawTarget> {
   const stationKey = resolveBridgeStationKey(request)
   const shipDeploymentId = resolveShipDeploymentId(request)
   const shipNamespace =
@@ -195,20 +209,47 @@ async function runOpenClawRuntime(request: RuntimeRequest): Promise<RuntimeResul
     })
   }
 
-  const path = openClawPath()
+  return {
+    gateway,
+    path: openClawPath(),
+    stationKey: effectiveStationKey,
+    shipNamespace,
+    gatewaySource: resolved.source,
+  }
+}
+
+function openClawHeaders(accept?: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(accept ? { Accept: accept } : {}),
+    ...(process.env.OPENCLAW_API_KEY
+      ? { Authorization: `Bearer ${process.env.OPENCLAW_API_KEY}` }
+      : {}),
+  }
+}
+
+function openClawResultMetadata(target: OpenClawTarget): Record<string, unknown> {
+  return {
+    gateway: target.gateway,
+    path: target.path,
+    stationKey: target.stationKey,
+    shipNamespace: target.shipNamespace,
+    gatewaySource: target.gatewaySource,
+  }
+}
+
+async function runOpenClawRuntime(request: RuntimeRequest, context?: RuntimeProviderContext): Promise<RuntimeResult> {
+  const target = await resolveOpenClawTarget(request)
+  const { gateway, path } = target
   const timeoutMs = openClawTimeoutMs()
   const controller = new AbortController()
   const timeout = setTimeout(() => controller.abort(), timeoutMs)
+  const unlinkSignal = linkAbortSignal(controller, context?.signal)
 
   try {
     const response = await fetch(`${gateway}${path}`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(process.env.OPENCLAW_API_KEY
-          ? { Authorization: `Bearer ${process.env.OPENCLAW_API_KEY}` }
-          : {}),
-      },
+      headers: openClawHeaders(),
       body: JSON.stringify(request),
       signal: controller.signal,
     })
@@ -236,13 +277,7 @@ async function runOpenClawRuntime(request: RuntimeRequest): Promise<RuntimeResul
       output,
       fallbackUsed: false,
       signatureBundle: extractRuntimeSignatureBundle(payload),
-      metadata: {
-        gateway,
-        path,
-        stationKey: effectiveStationKey,
-        shipNamespace,
-        gatewaySource: resolved.source,
-      },
+      metadata: openClawResultMetadata(target),
     }
   } catch (error) {
     if ((error as Error)?.name === "AbortError") {
@@ -264,10 +299,144 @@ async function runOpenClawRuntime(request: RuntimeRequest): Promise<RuntimeResul
     })
   } finally {
     clearTimeout(timeout)
+    unlinkSignal()
+  }
+}
+
+function extractOpenClawDelta(payload: unknown): string | null {
+  const root = asRecord(payload)
+  const candidates = [root.delta, root.token, asRecord(root.data).delta]
+
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && candidate.length > 0) {
+      return candidate
+    }
+  }
+
+  return null
+}
+
+/**
+ * Requests `text/event-stream` from the gateway. Gateways that only answer with
+ * JSON are still accepted and surface as a single chunk. The timeout is an idle
+ * timeout that resets on every received event.
+ */
+async function* streamOpenClawRuntime(
+  request: RuntimeRequest,
+  context?: RuntimeProviderContext,
+): AsyncGenerator<RuntimeProviderStreamEvent> {
+  const target = await resolveOpenClawTarget(request)
+  const timeoutMs = openClawTimeoutMs()
+  const controller = new AbortController()
+  let timeout = setTimeout(() => controller.abort(), timeoutMs)
+  const resetTimeout = () => {
+    clearTimeout(timeout)
+    timeout = setTimeout(() => controller.abort(), timeoutMs)
+  }
+  const unlinkSignal = linkAbortSignal(controller, context?.signal)
+
+  try {
+    const response = await fetch(`${target.gateway}${target.path}`, {
+      method: "POST",
+      headers: openClawHeaders("text/event-stream, application/json"),
+      body: JSON.stringify({
+        ...request,
+        stream: true,
+      }),
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      throw createRecoverableRuntimeError({
+        provider: "openclaw",
+        code: "OPENCLAW_HTTP_ERROR",
+        message: `OpenClaw runtime request failed with status ${response.status}`,
+      })
+    }
+
+    let streamedOutput = ""
+    let finalPayload: unknown = null
+
+    if (isEventStreamResponse(response) && response.body) {
+      for await (const event of readServerSentEvents(response.body)) {
+        resetTimeout()
+        if (event.data === "[DONE]") {
+          break
+        }
+
+        const payload = parseServerSentEventJson(event, "openclaw")
+        if (payload === undefined) {
+          continue
+        }
+
+        if (event.event === "result" || event.event === "done") {
+          finalPayload = payload
+          continue
+        }
+
+        const delta = extractOpenClawDelta(payload)
+        if (delta) {
+          streamedOutput += delta
+          yield { type: "delta", text: delta }
+        }
+      }
+    } else {
+      finalPayload = await response.json()
+    }
+
+    const output = (finalPayload ? extractOpenClawOutput(finalPayload) : null)
+      || (streamedOutput.trim().length > 0 ? streamedOutput : null)
+    if (!output) {
+      throw createRecoverableRuntimeError({
+        provider: "openclaw",
+        code: "OPENCLAW_MISSING_OUTPUT",
+        message: "OpenClaw runtime response did not contain a text output",
+      })
+    }
+
+    if (!streamedOutput) {
+      yield { type: "delta", text: output }
+    }
+
+    yield {
+      type: "result",
+      result: {
+        provider: "openclaw",
+        output,
+        fallbackUsed: false,
+        signatureBundle: finalPayload ? extractRuntimeSignatureBundle(finalPayload) : undefined,
+        metadata: {
+          ...openClawResultMetadata(target),
+          streamed: true,
+        },
+      },
+    }
+  } catch (error) {
+    if ((error as Error)?.name === "AbortError") {
+      throw createRecoverableRuntimeError({
+        provider: "openclaw",
+        code: "OPENCLAW_TIMEOUT",
+        message: `OpenClaw runtime stream was idle for ${timeoutMs}ms`,
+      })
+    }
+
+    if (error instanceof RuntimeProviderError) {
+      throw error
+    }
+
+    throw createRecoverableRuntimeError({
+      provider: "openclaw",
+      code: "OPENCLAW_REQUEST_FAILED",
+      message: `OpenClaw runtime request failed: ${(error as Error).message || "Unknown error"}`,
+    })
+  } finally {
+    clearTimeout(timeout)
+    unlinkSignal()
   }
 }
 
 export const openClawRuntimeProvider: RuntimeProviderDefinition = {
   id: "openclaw",
   run: runOpenClawRuntime,
+  stream: streamOpenClawRuntime,
 }
@@ -0,0 +1,55 @@
+import type {
+  BuiltinRuntimeProvider,
+  RuntimeProvider,
+  RuntimeProviderInstanceId,
+  RuntimeProviderInstanceKind,
+} from "@/lib/types/runtime"
+import { parseRuntimeProviderInstanceId } from "@/lib/runtime/profiles"
+import { createAnthropicRuntimeProvider } from "@/lib/runtime/providers/anthropic"
+import { codexCliRuntimeProvider } from "@/lib/runtime/providers/codex-cli"
+import { localFallbackRuntimeProvider } from "@/lib/runtime/providers/local-fallback"
+import { createOpenAiCompatibleRuntimeProvider } from "@/lib/runtime/providers/openai-compatible"
+import { openAiFallbackRuntimeProvider } from "@/lib/runtime/providers/openai-fallback"
+import { openClawRuntimeProvider } from "@/lib/runtime/providers/openclaw"
+import type { RuntimeProviderDefinition } from "@/lib/runtime/providers/types"
+
+type RuntimeProviderInstanceFactory = (providerId: RuntimeProviderInstanceId) => RuntimeProviderDefinition
+
+const BUILTIN_PROVIDERS: Record<BuiltinRuntimeProvider, RuntimeProviderDefinition> = {
+  openclaw: openClawRuntimeProvider,
+  "openai-fallback": openAiFallbackRuntimeProvider,
+  "local-fallback": localFallbackRuntimeProvider,
+  "codex-cli": codexCliRuntimeProvider,
+}
+
+const INSTANCE_FACTORIES: Record<RuntimeProviderInstanceKind, RuntimeProviderInstanceFactory> = {
+  "openai-compatible": (providerId) => createOpenAiCompatibleRuntimeProvider(providerId),
+  anthropic: (providerId) => createAnthropicRuntimeProvider(providerId),
+}
+
+const instanceProviders = new Map<RuntimeProviderInstanceId, RuntimeProviderDefinition>()
+
+/**
+ * Maps a provider id from a profile chain to its definition. Built-ins are
+ * static; `<kind>:<name>` ids get a definition from the kind's factory, which
+ * loads the named instance's config per request.
+ */
+export function resolveRuntimeProviderDefinition(providerId: RuntimeProvider): RuntimeProviderDefinition | undefined {
+  if (Object.hasOwn(BUILTIN_PROVIDERS, providerId)) {
+    return BUILTIN_PROVIDERS[providerId as BuiltinRuntimeProvider]
+  }
+
+  const parsed = parseRuntimeProviderInstanceId(providerId)
+  if (!parsed) {
+    return undefined
+  }
+
+  const instanceId = providerId as RuntimeProviderInstanceId
+  let definition = instanceProviders.get(instanceId)
+  if (!definition) {
+    definition = INSTANCE_FACTORIES[parsed.kind](instanceId)
+    instanceProviders.set(instanceId, definition)
+  }
+
+  return definition
+}
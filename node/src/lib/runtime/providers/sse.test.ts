@@ -0,0 +1,49 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { parseServerSentEventJson, readServerSentEvents } from "./sse"
+
+function streamFromChunks(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      controller.close()
+    },
+  })
+}
+
+test("readServerSentEvents reassembles events split across chunks", async () => {
+  const events = []
+  for await (const event of readServerSentEvents(streamFromChunks([
+    "event: delta\r\ndata: {\"delta\":\"Hel",
+    "lo\"}\r\n\r\n: keep-alive\n\n",
+    "data: line one\ndata: line two\n\n",
+    "event: done\ndata: [DONE]",
+  ]))) {
+    events.push(event)
+  }
+
+  assert.deepEqual(events, [
+    { event: "delta", data: "{\"delta\":\"Hello\"}" },
+    { event: null, data: "line one\nline two" },
+    { event: "done", data: "[DONE]" },
+  ])
+})
+
+test("parseServerSentEventJson skips malformed payloads instead of throwing", () => {
+  const originalWarn = console.warn
+  const warnings: unknown[][] = []
+  console.warn = (...args: unknown[]) => {
+    warnings.push(args)
+  }
+
+  try {
+    assert.deepEqual(parseServerSentEventJson({ event: "delta", data: "{\"delta\":\"ok\"}" }, "test"), { delta: "ok" })
+    assert.equal(parseServerSentEventJson({ event: "delta", data: "{\"delta\":" }, "test"), undefined)
+    assert.equal(warnings.length, 1)
+  } finally {
+    console.warn = originalWarn
+  }
+})
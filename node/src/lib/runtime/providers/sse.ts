@@ -0,0 +1,89 @@
+export interface ServerSentEvent {
+  event: string | null
+  data: string
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event: string | null = null
+  const dataLines: string[] = []
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) {
+      continue
+    }
+
+    const separatorIndex = line.indexOf(":")
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex)
+    let value = separatorIndex === -1 ? "" : line.slice(separatorIndex + 1)
+    if (value.startsWith(" ")) {
+      value = value.slice(1)
+    }
+
+    if (field === "event") {
+      event = value
+    } else if (field === "data") {
+      dataLines.push(value)
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null
+  }
+
+  return {
+    event,
+    data: dataLines.join("\n"),
+  }
+}
+
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) {
+        break
+      }
+
+      buffer = `${buffer}${decoder.decode(value, { stream: true })}`.replace(/\r\n/gu, "\n")
+
+      let boundary = buffer.indexOf("\n\n")
+      while (boundary !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (parsed) {
+          yield parsed
+        }
+        boundary = buffer.indexOf("\n\n")
+      }
+    }
+
+    buffer += decoder.decode()
+    const trailing = parseEventBlock(buffer.replace(/\r\n/gu, "\n"))
+    if (trailing) {
+      yield trailing
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Parses an event's JSON payload. Malformed frames are logged and come back
+ * as `undefined` so stream readers can skip them instead of aborting the run.
+ */
+export function parseServerSentEventJson(event: ServerSentEvent, source: string): unknown {
+  try {
+    return JSON.parse(event.data) as unknown
+  } catch {
+    console.warn("Skipping malformed server-sent event", { source, event: event.event })
+    return undefined
+  }
+}
+
+export function isEventStreamResponse(response: Response): boolean {
+  return (response.headers.get("content-type") || "").toLowerCase().includes("text/event-stream")
+}
@@ -4,9 +4,26 @@ import type { RuntimeProfileName } from "@/lib/runtime/profiles"
 export interface RuntimeProviderContext {
   profile: RuntimeProfileName
   previousErrors: string[]
+  /** Aborted when the prompt is cancelled or times out; providers stop their I/O. */
+  signal?: AbortSignal
 }
 
+export type RuntimeProviderStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "result"; result: RuntimeResult }
+
 export interface RuntimeProviderDefinition {
   id: RuntimeProvider
   run: (request: RuntimeRequest, context: RuntimeProviderContext) => Promise<RuntimeResult>
+  /**
+   * Optional incremental variant of `run`. Implementations yield zero or more
+   * `delta` chunks and must finish with exactly one `result` event.
+   */
+  stream?: (request: RuntimeRequest, context: RuntimeProviderContext) => AsyncIterable<RuntimeProviderStreamEvent>
+  /**
+   * Record id of the instance this provider id resolves to for the request, or
+   * null when none is configured. Circuit and health state are kept per record,
+   * since the same id reaches a different server per user and ship.
+   */
+  resolveInstanceId?: (request: RuntimeRequest) => Promise<string | null>
 }
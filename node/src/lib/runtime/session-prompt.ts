@@ -1,9 +1,11 @@
 import type { Prisma, SessionInteraction } from "@prisma/client"
 import { prisma } from "@/lib/prisma"
-import { runSessionRuntime } from "@/lib/runtime"
+import { runSessionRuntime, streamSessionRuntime } from "@/lib/runtime"
+import { RuntimeGuardBlockedError } from "@/lib/runtime/guard"
 import { publishRealtimeEvent } from "@/lib/realtime/events"
+import { emitLifecycleHookEvent } from "@/lib/hooks/runner"
 import { resolveSessionRuntimePrompt } from "@/lib/runtime/bridge-prompt"
-import type { RuntimeResult } from "@/lib/types/runtime"
+import type { RuntimeProvider, RuntimeResult, RuntimeStreamEvent } from "@/lib/types/runtime"
 import {
   drainBridgeMirrorJobsSafely,
   enqueueSessionToThreadMirrorJob,
@@ -25,6 +27,12 @@ import {
   WalletEnclaveError,
 } from "@/lib/wallet-enclave/client"
 import { RuntimeProviderError } from "@/lib/runtime/errors"
+import {
+  isRuntimeAbortedError,
+  linkAbortSignal,
+  registerInFlightSessionPrompt,
+  sessionPromptTimeoutMs,
+} from "@/lib/runtime/cancellation"
 import { buildExocompCapabilityInstructionBlock } from "@/lib/subagents/capabilities"
 import { getShipToolRuntimeContext } from "@/lib/tools/requests"
 import { resolveHarnessPodContext } from "@/lib/runtime/harness"
@@ -288,6 +296,7 @@ interface QuartermasterCitationSource {
   id: string
   path: string
   title: string
+  location?: string
 }
 
 function normalizeQuartermasterCitationSource(value: unknown, index: number): QuartermasterCitationSource | null {
@@ -302,10 +311,12 @@ function normalizeQuartermasterCitationSource(value: unknown, index: number): Qu
     return null
   }
 
+  const location = nonEmptyString(record.location)
   return {
     id: id.startsWith("S") ? id : `S${id}`,
     path,
     title: nonEmptyString(record.title) || "Untitled",
+    ...(location ? { location } : {}),
   }
 }
 
@@ -335,7 +346,7 @@ export function buildQuartermasterCitationFooter(sources: QuartermasterCitationS
 
   const lines = ["Sources:"]
   for (const source of sources) {
-    lines.push(`[${source.id}] ${source.title} - ${source.path}`)
+    lines.push(`[${source.id}] ${source.title} - ${source.path}${source.location ? ` (${source.location})` : ""}`)
   }
   return lines.join("\n")
 }
@@ -424,11 +435,30 @@ export class SessionPromptError extends Error {
   }
 }
 
+export interface SessionPromptRuntimeDelta {
+  provider: RuntimeProvider
+  text: string
+}
+
 export interface ExecuteSessionPromptArgs {
   userId: string
   sessionId: string
   prompt: string
   metadata?: Record<string, unknown>
+  /**
+   * When set, the runtime is driven through `streamSessionRuntime` and every
+   * provider chunk is forwarded here before the response interaction is stored.
+   */
+  onRuntimeDelta?: (delta: SessionPromptRuntimeDelta) => void
+  /**
+   * Aborts the runtime call (e.g. when the client disconnects). The prompt can
+   * also be cancelled through `cancelInFlightSessionPrompts` or time out after
+   * `SESSION_PROMPT_TIMEOUT_MS`; either way the partial output is stored as a
+   * `cancelled`/`timed_out` response interaction.
+   */
+  signal?: AbortSignal
+  /** Called once the user interaction exists and the prompt can be cancelled by id. */
+  onPromptStarted?: (started: { interactionId: string }) => void
 }
 
 export interface ExecuteSessionPromptResult {
@@ -440,6 +470,96 @@ export interface ExecuteSessionPromptResult {
   warnings?: string[]
 }
 
+export async function collectRuntimeStream(
+  stream: AsyncIterable<RuntimeStreamEvent>,
+  onDelta: (delta: SessionPromptRuntimeDelta) => void,
+): Promise<RuntimeResult> {
+  let result: RuntimeResult | null = null
+
+  for await (const event of stream) {
+    if (event.type === "delta") {
+      onDelta({
+        provider: event.provider,
+        text: event.text,
+      })
+      continue
+    }
+
+    result = event.result
+  }
+
+  if (!result) {
+    throw new Error("Runtime stream ended without a result")
+  }
+
+  return result
+}
+
+/**
+ * Stores whatever the provider streamed before the abort as the response, so
+ * the transcript shows where the answer stopped.
+ */
+async function recordAbortedSessionPrompt(args: {
+  userId: string
+  sessionId: string
+  interactionId: string
+  error: RuntimeProviderError
+  partialOutput: string
+  runtimeProfile: string | null
+  runtimeExecutionKind: string | null
+  durationMs: number
+}): Promise<SessionInteraction> {
+  const reason = nonEmptyString(asRecord(args.error.details).reason) || "cancelled"
+  const status = args.error.code === "RUNTIME_TIMED_OUT" ? "timed_out" : "cancelled"
+
+  const responseInteraction = await prisma.sessionInteraction.create({
+    data: {
+      sessionId: args.sessionId,
+      type: "ai_response",
+      status,
+      content: args.partialOutput,
+      metadata: toJsonMetadata({
+        provider: args.error.provider,
+        fallbackUsed: false,
+        partial: true,
+        abort: {
+          reason,
+          code: args.error.code,
+          promptInteractionId: args.interactionId,
+        },
+      }),
+    },
+  })
+
+  await recordRuntimePerformanceSample({
+    userId: args.userId,
+    sessionId: args.sessionId,
+    source: "runtime.session-prompt",
+    runtimeProfile: args.runtimeProfile,
+    provider: args.error.provider,
+    providerInstanceId: nonEmptyString(asRecord(args.error.details).instanceId),
+    status: status === "timed_out" ? "timeout" : "cancelled",
+    fallbackUsed: false,
+    durationMs: args.durationMs,
+    errorCode: args.error.code,
+    executionKind: args.runtimeExecutionKind,
+  })
+
+  publishRealtimeEvent({
+    type: "session.prompt.cancelled",
+    userId: args.userId,
+    payload: {
+      sessionId: args.sessionId,
+      userInteractionId: args.interactionId,
+      aiInteractionId: responseInteraction.id,
+      status,
+      reason,
+    },
+  })
+
+  return responseInteraction
+}
+
 export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Promise<ExecuteSessionPromptResult> {
   const rawMetadataRecord = args.metadata && typeof args.metadata === "object" ? args.metadata : {}
   const metadataAsRecord = asRecord(rawMetadataRecord)
@@ -516,6 +636,17 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
     throw new SessionPromptError("Session not found", 404)
   }
 
+  const sessionRuntimeProfile = nonEmptyString(asRecord(asRecord(dbSession.metadata).runtime).profile)
+  if (sessionRuntimeProfile && !nonEmptyString(asRecord(metadataForRuntime.runtime).profile)) {
+    metadataForRuntime = {
+      ...metadataForRuntime,
+      runtime: {
+        ...asRecord(metadataForRuntime.runtime),
+        profile: sessionRuntimeProfile,
+      },
+    }
+  }
+
   const interaction = await prisma.sessionInteraction.create({
     data: {
       sessionId: args.sessionId,
@@ -525,6 +656,18 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
     },
   })
 
+  emitLifecycleHookEvent({
+    ownerUserId: args.userId,
+    event: "prompt_submitted",
+    subject: dbSession.source,
+    sessionId: args.sessionId,
+    payload: {
+      interactionId: interaction.id,
+      prompt: promptResolution.interactionContent,
+      subagentId: resolvedSubagentId,
+    },
+  })
+
   try {
     await enqueueSessionToThreadMirrorJob({
       interactionId: interaction.id,
@@ -545,14 +688,50 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
   const runtimeProfile = nonEmptyString(runtimeMetadataRecord.profile)
   const runtimeExecutionKind = nonEmptyString(runtimeMetadataRecord.executionKind)
   const runtimeStartedAt = Date.now()
+  const promptController = new AbortController()
+  const unlinkCallerSignal = linkAbortSignal(promptController, args.signal)
+  const promptTimeoutMs = sessionPromptTimeoutMs()
+  const promptTimeout = promptTimeoutMs
+    ? setTimeout(() => promptController.abort("timeout"), promptTimeoutMs)
+    : null
+  const unregisterInFlightPrompt = registerInFlightSessionPrompt({
+    userId: args.userId,
+    sessionId: args.sessionId,
+    interactionId: interaction.id,
+    controller: promptController,
+  })
+  args.onPromptStarted?.({ interactionId: interaction.id })
+  let partialOutput = ""
   let runtimeResult: RuntimeResult
   try {
-    runtimeResult = await runSessionRuntime({
+    const runtimeRequest = {
       userId: args.userId,
       sessionId: args.sessionId,
       prompt: runtimePrompt,
       metadata: metadataForRuntime,
-    })
+    }
+    const runtimeOptions = { signal: promptController.signal }
+    const onRuntimeDelta = args.onRuntimeDelta
+    runtimeResult = onRuntimeDelta
+      ? await collectRuntimeStream(streamSessionRuntime(runtimeRequest, runtimeOptions), (delta) => {
+          partialOutput += delta.text
+          onRuntimeDelta(delta)
+        })
+      : await runSessionRuntime(runtimeRequest, runtimeOptions)
+
+    if (runtimeResult.fallbackUsed) {
+      emitLifecycleHookEvent({
+        ownerUserId: args.userId,
+        event: "runtime_fallback",
+        subject: runtimeResult.provider,
+        sessionId: args.sessionId,
+        payload: {
+          provider: runtimeResult.provider,
+          runtimeProfile,
+          reason: nonEmptyString(asRecord(runtimeResult.metadata).reason),
+        },
+      })
+    }
 
     const runtimeIntelligence = runtimeIntelligencePerformanceFields(runtimeResult.metadata)
 
@@ -562,6 +741,7 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
       source: "runtime.session-prompt",
       runtimeProfile,
       provider: runtimeResult.provider,
+      providerInstanceId: nonEmptyString(asRecord(runtimeResult.metadata).instanceId),
       status: "success",
       fallbackUsed: runtimeResult.fallbackUsed,
       durationMs: Date.now() - runtimeStartedAt,
@@ -570,6 +750,48 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
     })
   } catch (error) {
     const runtimeDurationMs = Date.now() - runtimeStartedAt
+    if (isRuntimeAbortedError(error)) {
+      const responseInteraction = await recordAbortedSessionPrompt({
+        userId: args.userId,
+        sessionId: args.sessionId,
+        interactionId: interaction.id,
+        error,
+        partialOutput,
+        runtimeProfile,
+        runtimeExecutionKind,
+        durationMs: runtimeDurationMs,
+      })
+
+      throw new SessionPromptError(error.message, error.status, {
+        code: error.code,
+        provider: error.provider,
+        recoverable: false,
+        reason: asRecord(error.details).reason,
+        responseInteractionId: responseInteraction.id,
+      })
+    }
+
+    if (error instanceof RuntimeGuardBlockedError) {
+      await recordRuntimePerformanceSample({
+        userId: args.userId,
+        sessionId: args.sessionId,
+        source: "runtime.session-prompt",
+        runtimeProfile,
+        provider: null,
+        status: "error",
+        fallbackUsed: false,
+        durationMs: runtimeDurationMs,
+        errorCode: error.code,
+        executionKind: runtimeExecutionKind,
+      })
+
+      throw new SessionPromptError(error.message, error.status, {
+        code: error.code,
+        stage: error.stage,
+        detectors: error.detectors,
+      })
+    }
+
     if (error instanceof RuntimeProviderError) {
       await recordRuntimePerformanceSample({
         userId: args.userId,
@@ -577,6 +799,7 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
         source: "runtime.session-prompt",
         runtimeProfile,
         provider: error.provider,
+        providerInstanceId: nonEmptyString(asRecord(error.details).instanceId),
         status: "error",
         fallbackUsed: false,
         durationMs: runtimeDurationMs,
@@ -605,6 +828,12 @@ export async function executeSessionPrompt(args: ExecuteSessionPromptArgs): Prom
       executionKind: runtimeExecutionKind,
     })
     throw error
+  } finally {
+    if (promptTimeout) {
+      clearTimeout(promptTimeout)
+    }
+    unlinkCallerSignal()
+    unregisterInFlightPrompt()
   }
 
   const bridgeMetadata = asRecord(metadataForRuntime.bridge)
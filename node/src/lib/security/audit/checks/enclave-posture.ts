@@ -53,6 +53,7 @@ export async function runEnclavePostureAuditCheck(): Promise<SecurityAuditCheckR
   return {
     id: "enclave-posture",
     name: "Enclave and Token Posture",
+    controlIds: ["CTRL-ENCRYPTED-SECRET-STORAGE", "CTRL-TOKEN-SCOPING"],
     status: findings.some((finding) => finding.severity === "high" || finding.severity === "critical")
       ? "fail"
       : findings.length > 0
@@ -82,6 +82,7 @@ export async function runForwardingPostureAuditCheck(): Promise<SecurityAuditChe
   return {
     id: "forwarding-posture",
     name: "Forwarding Posture and Target Hygiene",
+    controlIds: ["CTRL-FWD-TARGET-ALLOWLIST"],
     status: findings.some((finding) => finding.severity === "critical" || finding.severity === "high")
       ? "fail"
       : findings.length > 0
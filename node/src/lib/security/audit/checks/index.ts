@@ -5,6 +5,7 @@ import { runOwnershipAuditCheck } from "./ownership"
 import { runPolicyCoverageAuditCheck } from "./policy-coverage"
 import { runPromptRiskAuditCheck } from "./prompt-risk"
 import { runRealtimeScopeAuditCheck } from "./realtime-scope"
+import { runRuntimeGuardAuditCheck } from "./runtime-guard"
 import { runSecretHandlingAuditCheck } from "./secret-handling"
 
 export async function runSecurityAuditChecks(args: {
@@ -19,6 +20,7 @@ export async function runSecurityAuditChecks(args: {
   results.push(await runEnclavePostureAuditCheck())
   results.push(await runPolicyCoverageAuditCheck(args.userId))
   results.push(await runPromptRiskAuditCheck(args.userId))
+  results.push(await runRuntimeGuardAuditCheck(args.userId))
 
   return results
 }
@@ -85,6 +85,7 @@ export async function runOwnershipAuditCheck(): Promise<SecurityAuditCheckResult
   return {
     id: "ownership",
     name: "Ownership and Authorization Boundaries",
+    controlIds: ["CTRL-OWNER-BOUND", "CTRL-OWNER-ENFORCEMENT", "CTRL-CENTRAL-AUTHZ"],
     status: findings.some((finding) => finding.severity === "high" || finding.severity === "critical")
       ? "fail"
       : findings.length > 0
@@ -60,6 +60,7 @@ export async function runPolicyCoverageAuditCheck(userId: string): Promise<Secur
   return {
     id: "policy-coverage",
     name: "Policy Coverage and Assignment Hygiene",
+    controlIds: ["CTRL-POLICY-ENFORCEMENT"],
     status: findings.some((finding) => finding.severity === "critical" || finding.severity === "high")
       ? "fail"
       : findings.length > 0
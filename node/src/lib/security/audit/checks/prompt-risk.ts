@@ -78,6 +78,7 @@ export async function runPromptRiskAuditCheck(userId: string): Promise<SecurityA
   return {
     id: "prompt-risk",
     name: "Prompt and Command Risk Evaluation",
+    controlIds: ["CTRL-PROMPT-RISK"],
     status: findings.some((finding) => finding.severity === "high" || finding.severity === "critical")
       ? "fail"
       : findings.length > 0
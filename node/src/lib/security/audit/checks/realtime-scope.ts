@@ -69,6 +69,7 @@ export async function runRealtimeScopeAuditCheck(): Promise<SecurityAuditCheckRe
   return {
     id: "realtime-scope",
     name: "Realtime Event Ownership Scope",
+    controlIds: ["CTRL-EVENT-SCOPING"],
     status: findings.some((finding) => finding.severity === "critical" || finding.severity === "high")
       ? "fail"
       : findings.length > 0
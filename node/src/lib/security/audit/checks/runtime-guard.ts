@@ -0,0 +1,81 @@
+import { prisma } from "@/lib/prisma"
+import { RUNTIME_GUARD_THREAT_LINKS } from "@/lib/runtime/guard"
+import type { SecurityAuditCheckResult, SecurityAuditFinding } from "../types"
+
+const RUNTIME_GUARD_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000
+
+export async function runRuntimeGuardAuditCheck(userId: string): Promise<SecurityAuditCheckResult> {
+  const findings: SecurityAuditFinding[] = []
+  const since = new Date(Date.now() - RUNTIME_GUARD_LOOKBACK_MS)
+
+  const hits = await prisma.runtimeGuardFinding.findMany({
+    where: {
+      userId,
+      createdAt: {
+        gte: since,
+      },
+    },
+    select: {
+      sessionId: true,
+      category: true,
+      detector: true,
+      action: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: 500,
+  })
+
+  const injection = hits.filter((hit) => hit.category === "injection")
+  if (injection.length > 0) {
+    findings.push({
+      id: "RTG-PROMPT-INJECTION-HITS",
+      title: "Runtime guard scored prompts as likely injection attempts",
+      summary: `${injection.length} prompt(s) crossed the injection threshold in the last 7 days.`,
+      severity: injection.some((hit) => hit.action === "flag") ? "high" : "medium",
+      threatIds: RUNTIME_GUARD_THREAT_LINKS.injection.threatIds,
+      controlIds: RUNTIME_GUARD_THREAT_LINKS.injection.controlIds,
+      recommendation: "Review the flagged sessions and set RUNTIME_GUARD_INJECTION_ACTION=block if they reached a provider.",
+      evidence: injection.slice(0, 15).map((hit) => `${hit.sessionId || "unknown"} -> ${hit.detector} (${hit.action})`),
+    })
+  }
+
+  const leaks = hits.filter((hit) => hit.category !== "injection")
+  if (leaks.length > 0) {
+    const unmasked = leaks.filter((hit) => hit.action === "flag")
+    findings.push({
+      id: "RTG-OUTPUT-LEAK-HITS",
+      title: "Runtime outputs contained secrets or PII",
+      summary: `${leaks.length} output finding(s) in the last 7 days, ${unmasked.length} delivered unmasked.`,
+      severity: unmasked.some((hit) => hit.category === "secret")
+        ? "critical"
+        : unmasked.length > 0
+          ? "high"
+          : "low",
+      threatIds: [...new Set(leaks.flatMap((hit) => RUNTIME_GUARD_THREAT_LINKS[hit.category].threatIds))],
+      controlIds: RUNTIME_GUARD_THREAT_LINKS.secret.controlIds,
+      recommendation: "Rotate any exposed credentials and tighten RUNTIME_GUARD_SECRET_ACTION / RUNTIME_GUARD_PII_ACTION.",
+      evidence: leaks.slice(0, 15).map((hit) => `${hit.sessionId || "unknown"} -> ${hit.category}:${hit.detector} (${hit.action})`),
+    })
+  }
+
+  return {
+    id: "runtime-guard",
+    name: "Runtime Prompt and Output Guard",
+    controlIds: [...RUNTIME_GUARD_THREAT_LINKS.injection.controlIds, ...RUNTIME_GUARD_THREAT_LINKS.secret.controlIds],
+    status: findings.some((finding) => finding.severity === "high" || finding.severity === "critical")
+      ? "fail"
+      : findings.length > 0
+        ? "warn"
+        : "pass",
+    findings,
+    metadata: {
+      lookbackDays: 7,
+      guardHits: hits.length,
+      blocked: hits.filter((hit) => hit.action === "block").length,
+      redacted: hits.filter((hit) => hit.action === "redact").length,
+      flagged: hits.filter((hit) => hit.action === "flag").length,
+    },
+  }
+}
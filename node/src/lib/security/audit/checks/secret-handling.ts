@@ -57,6 +57,7 @@ export async function runSecretHandlingAuditCheck(): Promise<SecurityAuditCheckR
   return {
     id: "secret-handling",
     name: "Secret Handling and Exposure Controls",
+    controlIds: ["CTRL-NO-SECRET-ECHO", "CTRL-ENCRYPTED-SECRET-STORAGE"],
     status: findings.some((finding) => finding.severity === "critical" || finding.severity === "high")
       ? "fail"
       : findings.length > 0
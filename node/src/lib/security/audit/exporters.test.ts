@@ -0,0 +1,138 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import {
+  parseSecurityAuditExportFormat,
+  renderSecurityAuditControlCsv,
+  renderSecurityAuditOscal,
+  renderSecurityAuditSarif,
+} from "./exporters"
+import type { SecurityAuditFinding, SecurityAuditReport } from "./types"
+
+const promptFinding: SecurityAuditFinding = {
+  id: "PRM-RISKY-PATTERN-HITS",
+  title: "Potential prompt/command risk patterns detected",
+  summary: "Pattern-based evaluator found risky content.",
+  severity: "high",
+  threatIds: ["TM-01", "TM-03"],
+  controlIds: ["CTRL-PROMPT-RISK"],
+  recommendation: "Review highlighted prompts.",
+  evidence: ["sub-1 (Helper) -> bypass_policy"],
+}
+
+const customFinding: SecurityAuditFinding = {
+  id: "CUSTOM-LOW",
+  title: "Custom, \"quoted\" finding",
+  summary: "Custom summary.",
+  severity: "low",
+  threatIds: ["TM-08"],
+  controlIds: ["CTRL-CUSTOM"],
+  recommendation: "=HYPERLINK(\"x\")",
+}
+
+function buildReport(): SecurityAuditReport {
+  return {
+    reportId: "sec-2026-03-01",
+    userId: "user-1",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    mode: "safe_sim",
+    checks: [
+      { id: "prompt-risk", name: "Prompt risk", status: "fail", findings: [promptFinding] },
+      { id: "custom", name: "Custom", status: "warn", findings: [customFinding] },
+      {
+        id: "ownership",
+        name: "Ownership",
+        controlIds: ["CTRL-OWNER-BOUND", "CTRL-OWNER-ENFORCEMENT", "CTRL-CENTRAL-AUTHZ"],
+        status: "pass",
+        findings: [],
+      },
+    ],
+    findings: [promptFinding, customFinding],
+    severityCounts: { critical: 0, high: 1, medium: 0, low: 1, info: 0 },
+    riskScore: { score: 32, level: "medium" },
+    threatModelVersion: "2026-02-28",
+    bridgeCrewScorecard: null,
+    bridgeCrewScoreDelta: null,
+    previousRiskScore: null,
+    riskDelta: null,
+  }
+}
+
+test("parseSecurityAuditExportFormat accepts known formats only", () => {
+  assert.equal(parseSecurityAuditExportFormat("SARIF"), "sarif")
+  assert.equal(parseSecurityAuditExportFormat("csv"), "csv")
+  assert.equal(parseSecurityAuditExportFormat("summary"), null)
+  assert.equal(parseSecurityAuditExportFormat(null), null)
+})
+
+test("renderSecurityAuditSarif emits one result per finding with severity and evidence", () => {
+  const sarif = renderSecurityAuditSarif(buildReport())
+  assert.equal(sarif.version, "2.1.0")
+
+  const [run] = sarif.runs as Array<Record<string, unknown>>
+  const driver = (run.tool as Record<string, Record<string, unknown>>).driver
+  const rules = driver.rules as Array<Record<string, unknown>>
+  const results = run.results as Array<Record<string, unknown>>
+
+  assert.deepEqual(rules.map((rule) => rule.id), ["PRM-RISKY-PATTERN-HITS", "CUSTOM-LOW"])
+  assert.equal((rules[0].properties as Record<string, unknown>)["security-severity"], "8.0")
+  assert.equal(results.length, 2)
+  assert.equal(results[0].level, "error")
+  assert.equal(results[1].level, "note")
+  assert.equal(results[1].ruleIndex, 1)
+  assert.match(String((results[0].message as Record<string, unknown>).text), /Evidence: sub-1 \(Helper\) -> bypass_policy/)
+  assert.deepEqual((results[0].properties as Record<string, unknown>).controlIds, ["CTRL-PROMPT-RISK"])
+})
+
+test("renderSecurityAuditOscal maps controls to findings and linked observations", () => {
+  const report = buildReport()
+  const document = renderSecurityAuditOscal(report)
+  const results = (document["assessment-results"] as Record<string, unknown>).results as Array<Record<string, unknown>>
+  const observations = results[0].observations as Array<Record<string, unknown>>
+  const findings = results[0].findings as Array<Record<string, unknown>>
+
+  const byControl = new Map(findings.map((finding) => [
+    (finding.target as Record<string, unknown>)["target-id"],
+    finding,
+  ]))
+  const promptRisk = byControl.get("CTRL-PROMPT-RISK")
+  assert.equal(((promptRisk?.target as Record<string, Record<string, unknown>>).status).state, "not-satisfied")
+  assert.deepEqual(promptRisk?.["related-observations"], [{ "observation-uuid": observations[0].uuid }])
+  assert.equal(((byControl.get("CTRL-OWNER-BOUND")?.target as Record<string, Record<string, unknown>>).status).state, "satisfied")
+  assert.ok(byControl.has("CTRL-CUSTOM"))
+
+  assert.deepEqual(renderSecurityAuditOscal(report), document)
+})
+
+test("controls no executed check covers are exported as not assessed", () => {
+  const report = buildReport()
+  const document = renderSecurityAuditOscal(report)
+  const results = (document["assessment-results"] as Record<string, unknown>).results as Array<Record<string, unknown>>
+  const findings = results[0].findings as Array<Record<string, unknown>>
+  const runtimeDlp = findings.find((finding) => (finding.target as Record<string, unknown>)["target-id"] === "CTRL-RUNTIME-DLP")
+
+  assert.equal((runtimeDlp?.target as Record<string, unknown>).status, undefined)
+  assert.ok((runtimeDlp?.props as Array<Record<string, string>>).some((prop) =>
+    prop.name === "assessment-status" && prop.value === "not-assessed"))
+
+  const lines = renderSecurityAuditControlCsv(report).trimEnd().split("\r\n")
+  const dlpRow = lines.find((line) => line.startsWith("CTRL-RUNTIME-DLP,"))
+  assert.ok(dlpRow?.includes(",not-assessed,"))
+  assert.equal(lines.some((line) => line.startsWith("CTRL-RUNTIME-DLP,") && line.includes(",satisfied,")), false)
+})
+
+test("renderSecurityAuditControlCsv keys rows by control and escapes quotes and formulas", () => {
+  const csv = renderSecurityAuditControlCsv(buildReport())
+  const lines = csv.trimEnd().split("\r\n")
+
+  assert.equal(
+    lines[0],
+    "control_id,control_description,threat_ids,status,finding_id,finding_title,severity,recommendation,report_id,generated_at",
+  )
+  assert.ok(lines.includes(
+    "CTRL-PROMPT-RISK,Prompt-risk evaluator in audit pipeline,TM-01 TM-03,not-satisfied,PRM-RISKY-PATTERN-HITS,Potential prompt/command risk patterns detected,high,Review highlighted prompts.,sec-2026-03-01,2026-03-01T00:00:00.000Z",
+  ))
+  assert.ok(lines.includes(
+    "CTRL-CUSTOM,,TM-08,not-satisfied,CUSTOM-LOW,\"Custom, \"\"quoted\"\" finding\",low,\"'=HYPERLINK(\"\"x\"\")\",sec-2026-03-01,2026-03-01T00:00:00.000Z",
+  ))
+  assert.ok(lines.some((line) => line.startsWith("CTRL-OWNER-BOUND,") && line.includes(",satisfied,")))
+})
@@ -0,0 +1,363 @@
+import crypto from "node:crypto"
+import { BRIDGE_CORE_THREAT_MODEL } from "@/lib/security/threat-model"
+import type { SecurityAuditFinding, SecurityAuditReport, SecurityFindingSeverity } from "./types"
+
+export type SecurityAuditExportFormat = "sarif" | "oscal" | "csv"
+
+const SECURITY_AUDIT_EXPORT_FORMATS: readonly SecurityAuditExportFormat[] = ["sarif", "oscal", "csv"]
+
+const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json"
+const OSCAL_VERSION = "1.1.2"
+const AUDIT_TOOL_NAME = "orchwiz-security-audit"
+const OSCAL_PROP_NS = `urn:orchwiz:${AUDIT_TOOL_NAME}`
+
+const SARIF_LEVELS: Record<SecurityFindingSeverity, "error" | "warning" | "note"> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "note",
+  info: "note",
+}
+
+// GitHub code scanning buckets `security-severity` into critical (>= 9), high (>= 7), medium (>= 4) and low.
+const SARIF_SECURITY_SEVERITY: Record<SecurityFindingSeverity, string> = {
+  critical: "9.5",
+  high: "8.0",
+  medium: "5.5",
+  low: "3.0",
+  info: "0.0",
+}
+
+const SEVERITY_RANK: Record<SecurityFindingSeverity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  info: 0,
+}
+
+export function parseSecurityAuditExportFormat(value: string | null): SecurityAuditExportFormat | null {
+  const normalized = value?.trim().toLowerCase()
+  return SECURITY_AUDIT_EXPORT_FORMATS.includes(normalized as SecurityAuditExportFormat)
+    ? normalized as SecurityAuditExportFormat
+    : null
+}
+
+/** Name-based UUID so re-exporting the same report yields the same OSCAL identifiers. */
+function stableUuid(...parts: string[]): string {
+  const hex = crypto.createHash("sha256").update(parts.join("\u0000")).digest("hex")
+  const variant = ((Number.parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+interface CheckFinding {
+  checkId: string
+  finding: SecurityAuditFinding
+}
+
+function findingsWithCheck(report: SecurityAuditReport): CheckFinding[] {
+  return report.checks.flatMap((check) => check.findings.map((finding) => ({ checkId: check.id, finding })))
+}
+
+function observationUuid(report: SecurityAuditReport, entry: CheckFinding): string {
+  return stableUuid(report.reportId, "observation", entry.checkId, entry.finding.id)
+}
+
+function oscalProp(name: string, value: string): Record<string, string> {
+  return { name, ns: OSCAL_PROP_NS, value }
+}
+
+/**
+ * SARIF 2.1.0 log with one rule per finding id and one result per finding.
+ * Audit findings are posture-level rather than file-level, so results carry a
+ * logical location named after the check that raised them.
+ */
+export function renderSecurityAuditSarif(report: SecurityAuditReport): Record<string, unknown> {
+  const entries = findingsWithCheck(report)
+  const ruleIndex = new Map<string, number>()
+  const rules: Record<string, unknown>[] = []
+
+  for (const { finding } of entries) {
+    if (ruleIndex.has(finding.id)) {
+      continue
+    }
+
+    ruleIndex.set(finding.id, rules.length)
+    rules.push({
+      id: finding.id,
+      name: finding.id,
+      shortDescription: { text: finding.title },
+      fullDescription: { text: finding.summary },
+      ...(finding.recommendation ? { help: { text: finding.recommendation } } : {}),
+      defaultConfiguration: { level: SARIF_LEVELS[finding.severity] },
+      properties: {
+        tags: ["security", ...finding.threatIds, ...finding.controlIds],
+        "security-severity": SARIF_SECURITY_SEVERITY[finding.severity],
+      },
+    })
+  }
+
+  const results = entries.map(({ checkId, finding }) => ({
+    ruleId: finding.id,
+    ruleIndex: ruleIndex.get(finding.id),
+    level: SARIF_LEVELS[finding.severity],
+    message: {
+      text: finding.evidence && finding.evidence.length > 0
+        ? `${finding.summary} Evidence: ${finding.evidence.join("; ")}`
+        : finding.summary,
+    },
+    locations: [
+      {
+        logicalLocations: [
+          {
+            name: checkId,
+            fullyQualifiedName: `security-audit/${checkId}`,
+            kind: "module",
+          },
+        ],
+      },
+    ],
+    partialFingerprints: {
+      securityAuditFinding: `${checkId}/${finding.id}`,
+    },
+    properties: {
+      severity: finding.severity,
+      checkId,
+      threatIds: finding.threatIds,
+      controlIds: finding.controlIds,
+      evidence: finding.evidence || [],
+    },
+  }))
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: AUDIT_TOOL_NAME,
+            version: report.threatModelVersion,
+            rules,
+          },
+        },
+        automationDetails: {
+          id: `security-audit/${report.reportId}`,
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            startTimeUtc: report.createdAt,
+          },
+        ],
+        results,
+        properties: {
+          mode: report.mode,
+          threatModelVersion: report.threatModelVersion,
+          riskScore: report.riskScore,
+          severityCounts: report.severityCounts,
+        },
+      },
+    ],
+  }
+}
+
+type ControlAssessmentStatus = "satisfied" | "not-satisfied" | "not-assessed"
+
+interface ControlAssessment {
+  controlId: string
+  description: string | null
+  threatIds: string[]
+  findings: CheckFinding[]
+  status: ControlAssessmentStatus
+}
+
+/**
+ * Every threat-model control plus any control a finding cites, each with the
+ * findings that reference it. A control with no findings is satisfied only
+ * when an executed check covers it; otherwise it was not assessed.
+ */
+function assessControls(report: SecurityAuditReport): ControlAssessment[] {
+  const covered = new Set(report.checks.flatMap((check) => check.controlIds || []))
+  const controls = new Map<string, ControlAssessment>()
+  const ensure = (controlId: string): ControlAssessment => {
+    let entry = controls.get(controlId)
+    if (!entry) {
+      entry = { controlId, description: null, threatIds: [], findings: [], status: "not-assessed" }
+      controls.set(controlId, entry)
+    }
+    return entry
+  }
+
+  for (const threat of BRIDGE_CORE_THREAT_MODEL) {
+    for (const control of threat.plannedControls) {
+      const entry = ensure(control.id)
+      entry.description = entry.description || control.description
+      if (!entry.threatIds.includes(threat.id)) {
+        entry.threatIds.push(threat.id)
+      }
+    }
+  }
+
+  for (const checkFinding of findingsWithCheck(report)) {
+    for (const controlId of checkFinding.finding.controlIds) {
+      const entry = ensure(controlId)
+      entry.findings.push(checkFinding)
+      for (const threatId of checkFinding.finding.threatIds) {
+        if (!entry.threatIds.includes(threatId)) {
+          entry.threatIds.push(threatId)
+        }
+      }
+    }
+  }
+
+  for (const entry of controls.values()) {
+    entry.status = entry.findings.length > 0
+      ? "not-satisfied"
+      : covered.has(entry.controlId) ? "satisfied" : "not-assessed"
+  }
+
+  return [...controls.values()].sort((left, right) => left.controlId.localeCompare(right.controlId))
+}
+
+function highestSeverity(findings: CheckFinding[]): SecurityFindingSeverity | null {
+  return findings.reduce<SecurityFindingSeverity | null>(
+    (highest, { finding }) => !highest || SEVERITY_RANK[finding.severity] > SEVERITY_RANK[highest] ? finding.severity : highest,
+    null,
+  )
+}
+
+/**
+ * OSCAL assessment-results document with one result for the audit run. Each
+ * control becomes an OSCAL finding targeting that control id; audit findings
+ * become observations linked from the controls they cite. Controls no executed
+ * check covers carry no status and an `assessment-status: not-assessed` prop.
+ */
+export function renderSecurityAuditOscal(report: SecurityAuditReport): Record<string, unknown> {
+  const observations = findingsWithCheck(report).map((entry) => {
+    const { checkId, finding } = entry
+    return {
+      uuid: observationUuid(report, entry),
+      title: finding.title,
+      description: finding.summary,
+      methods: ["AUTOMATED"],
+      types: ["finding"],
+      collected: report.createdAt,
+      props: [
+        oscalProp("severity", finding.severity),
+        oscalProp("check-id", checkId),
+        ...finding.threatIds.map((threatId) => oscalProp("threat-id", threatId)),
+      ],
+      ...(finding.evidence && finding.evidence.length > 0
+        ? { "relevant-evidence": finding.evidence.map((description) => ({ description })) }
+        : {}),
+      ...(finding.recommendation ? { remarks: finding.recommendation } : {}),
+    }
+  })
+
+  const controls = assessControls(report)
+  const findings = controls.map((control) => {
+    const severity = highestSeverity(control.findings)
+    const related = control.findings.map((entry) => observationUuid(report, entry))
+
+    return {
+      uuid: stableUuid(report.reportId, "control", control.controlId),
+      title: control.controlId,
+      description: control.description || `Control ${control.controlId}`,
+      target: {
+        type: "objective-id",
+        "target-id": control.controlId,
+        ...(control.status === "not-assessed" ? {} : { status: { state: control.status } }),
+      },
+      props: [
+        ...(control.status === "not-assessed" ? [oscalProp("assessment-status", "not-assessed")] : []),
+        ...control.threatIds.map((threatId) => oscalProp("threat-id", threatId)),
+        ...(severity ? [oscalProp("highest-severity", severity)] : []),
+      ],
+      ...(related.length > 0
+        ? { "related-observations": related.map((uuid) => ({ "observation-uuid": uuid })) }
+        : {}),
+    }
+  })
+
+  return {
+    "assessment-results": {
+      uuid: stableUuid(report.reportId, "assessment-results"),
+      metadata: {
+        title: `Security Audit Report: ${report.reportId}`,
+        "last-modified": report.createdAt,
+        version: report.threatModelVersion,
+        "oscal-version": OSCAL_VERSION,
+      },
+      "import-ap": {
+        href: `#bridge-core-threat-model-${report.threatModelVersion}`,
+      },
+      results: [
+        {
+          uuid: stableUuid(report.reportId, "result"),
+          title: `Security audit ${report.reportId}`,
+          description: `Risk score ${report.riskScore.score} (${report.riskScore.level}), mode ${report.mode}.`,
+          start: report.createdAt,
+          "reviewed-controls": {
+            "control-selections": [
+              {
+                "include-controls": controls.map((control) => ({ "control-id": control.controlId })),
+              },
+            ],
+          },
+          ...(observations.length > 0 ? { observations } : {}),
+          findings,
+        },
+      ],
+    },
+  }
+}
+
+function csvCell(value: string): string {
+  // Leading formula characters are quoted with an apostrophe so spreadsheets do not evaluate them.
+  const safe = /^[=+\-@]/u.test(value) ? `'${value}` : value
+  return /[",\n\r]/u.test(safe) ? `"${safe.replace(/"/gu, "\"\"")}"` : safe
+}
+
+/**
+ * Control-mapping CSV: one row per (control, finding), plus a single
+ * `satisfied` or `not-assessed` row for controls no finding cites.
+ */
+export function renderSecurityAuditControlCsv(report: SecurityAuditReport): string {
+  const header = [
+    "control_id",
+    "control_description",
+    "threat_ids",
+    "status",
+    "finding_id",
+    "finding_title",
+    "severity",
+    "recommendation",
+    "report_id",
+    "generated_at",
+  ]
+  const rows: string[][] = []
+
+  for (const control of assessControls(report)) {
+    const base = [control.controlId, control.description || "", control.threatIds.join(" ")]
+    if (control.findings.length === 0) {
+      rows.push([...base, control.status, "", "", "", "", report.reportId, report.createdAt])
+      continue
+    }
+
+    for (const { finding } of control.findings) {
+      rows.push([
+        ...base,
+        control.status,
+        finding.id,
+        finding.title,
+        finding.severity,
+        finding.recommendation || "",
+        report.reportId,
+        report.createdAt,
+      ])
+    }
+  }
+
+  return `${[header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`
+}
@@ -16,6 +16,8 @@ export interface SecurityAuditFinding {
 export interface SecurityAuditCheckResult {
   id: string
   name: string
+  /** Controls this check evaluates; a check that ran without citing one counts as evidence it holds. */
+  controlIds?: string[]
   status: "pass" | "warn" | "fail"
   findings: SecurityAuditFinding[]
   metadata?: Record<string, unknown>
@@ -11,7 +11,7 @@ export interface ThreatModelThreat {
   plannedControls: ThreatModelControl[]
 }
 
-export const BRIDGE_CORE_THREAT_MODEL_VERSION = "2026-02-10"
+export const BRIDGE_CORE_THREAT_MODEL_VERSION = "2026-02-28"
 
 export const BRIDGE_CORE_THREAT_MODEL: ThreatModelThreat[] = [
   {
@@ -22,6 +22,7 @@ export const BRIDGE_CORE_THREAT_MODEL: ThreatModelThreat[] = [
     plannedControls: [
       { id: "CTRL-PROMPT-RISK", description: "Prompt-risk evaluator in audit pipeline" },
       { id: "CTRL-POLICY-ENFORCEMENT", description: "Permission and policy boundaries for execution" },
+      { id: "CTRL-RUNTIME-GUARD", description: "Inline injection scoring on runtime prompts" },
     ],
   },
   {
@@ -42,6 +43,7 @@ export const BRIDGE_CORE_THREAT_MODEL: ThreatModelThreat[] = [
     plannedControls: [
       { id: "CTRL-EVENT-SCOPING", description: "Per-user realtime scoping" },
       { id: "CTRL-FWD-TARGET-ALLOWLIST", description: "Allowlisted forwarding test targets" },
+      { id: "CTRL-RUNTIME-DLP", description: "Secret and PII scanning of runtime outputs" },
     ],
   },
   {
@@ -52,6 +54,7 @@ export const BRIDGE_CORE_THREAT_MODEL: ThreatModelThreat[] = [
     plannedControls: [
       { id: "CTRL-NO-SECRET-ECHO", description: "No plaintext source key echo in API responses" },
       { id: "CTRL-ENCRYPTED-SECRET-STORAGE", description: "Wallet-enclave backed encryption for stored secrets" },
+      { id: "CTRL-RUNTIME-DLP", description: "Secret and PII scanning of runtime outputs" },
     ],
   },
   {
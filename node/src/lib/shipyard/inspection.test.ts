@@ -58,6 +58,7 @@ test("buildBridgeInspectionSummary returns provider counters and last delivery m
       { provider: "telegram", enabled: false, autoRelay: true },
       { provider: "discord", enabled: true, autoRelay: false },
       { provider: "whatsapp", enabled: false, autoRelay: false },
+      { provider: "slack", enabled: true, autoRelay: false },
       { provider: "custom", enabled: true, autoRelay: true },
     ],
     deliveries: [
@@ -66,8 +67,8 @@ test("buildBridgeInspectionSummary returns provider counters and last delivery m
     ],
   })
 
-  assert.equal(summary.total, 5)
-  assert.equal(summary.enabled, 3)
+  assert.equal(summary.total, 6)
+  assert.equal(summary.enabled, 4)
   assert.equal(summary.autoRelay, 2)
   assert.equal(summary.lastDeliveryStatus, "completed")
   assert.equal(summary.lastDeliveryAt, "2026-02-12T12:00:00.000Z")
@@ -75,6 +76,9 @@ test("buildBridgeInspectionSummary returns provider counters and last delivery m
     telegram: { total: 2, enabled: 1 },
     discord: { total: 1, enabled: 1 },
     whatsapp: { total: 1, enabled: 0 },
+    slack: { total: 1, enabled: 1 },
+    matrix: { total: 0, enabled: 0 },
+    webhook: { total: 0, enabled: 0 },
   })
 })
 
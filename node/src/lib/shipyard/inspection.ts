@@ -30,6 +30,9 @@ export interface ShipyardInspectionBridgeSummary {
     telegram: { total: number; enabled: number }
     discord: { total: number; enabled: number }
     whatsapp: { total: number; enabled: number }
+    slack: { total: number; enabled: number }
+    matrix: { total: number; enabled: number }
+    webhook: { total: number; enabled: number }
   }
   lastDeliveryAt: string | null
   lastDeliveryStatus: string | null
@@ -147,19 +150,19 @@ export function buildBridgeInspectionSummary(args: {
     telegram: { total: 0, enabled: 0 },
     discord: { total: 0, enabled: 0 },
     whatsapp: { total: 0, enabled: 0 },
+    slack: { total: 0, enabled: 0 },
+    matrix: { total: 0, enabled: 0 },
+    webhook: { total: 0, enabled: 0 },
   }
 
   for (const connection of args.connections) {
-    if (
-      connection.provider !== "telegram"
-      && connection.provider !== "discord"
-      && connection.provider !== "whatsapp"
-    ) {
+    if (!Object.hasOwn(providers, connection.provider)) {
       continue
     }
-    providers[connection.provider].total += 1
+    const counters = providers[connection.provider as keyof typeof providers]
+    counters.total += 1
     if (connection.enabled) {
-      providers[connection.provider].enabled += 1
+      counters.enabled += 1
     }
   }
 
@@ -65,7 +65,7 @@ test("normalizeSubagentSettings defaults harness settings when omitted", () => {
 test("normalizeSubagentSettings rejects invalid harness runtime profile", () => {
   const normalized = normalizeSubagentSettings({
     harness: {
-      runtimeProfile: "invalid",
+      runtimeProfile: "Not A Profile!",
     },
   })
 
@@ -1,8 +1,16 @@
 import { z } from "zod"
+import { RUNTIME_PROFILE_NAME_PATTERN } from "@/lib/runtime/profiles"
 import { DEFAULT_EXOCOMP_CAPABILITIES } from "./capabilities"
 
+/** Built-in profiles; users may also select their own stored runtime profiles by name. */
 export const HARNESS_RUNTIME_PROFILES = ["default", "quartermaster"] as const
-export type HarnessRuntimeProfile = (typeof HARNESS_RUNTIME_PROFILES)[number]
+export type HarnessRuntimeProfile = string
+
+const HarnessRuntimeProfileSchema = z.string().regex(RUNTIME_PROFILE_NAME_PATTERN)
+
+export function isHarnessRuntimeProfile(value: string): value is HarnessRuntimeProfile {
+  return HarnessRuntimeProfileSchema.safeParse(value).success
+}
 
 const OrchestrationSettingsSchema = z.object({
   handoffEnabled: z.boolean().default(true),
@@ -44,7 +52,7 @@ const HarnessAutoloadSchema = z.object({
 })
 
 const HarnessSettingsSchema = z.object({
-  runtimeProfile: z.enum(HARNESS_RUNTIME_PROFILES).default("default"),
+  runtimeProfile: HarnessRuntimeProfileSchema.default("default"),
   autoload: HarnessAutoloadSchema.default({
     context: true,
     tools: true,
@@ -95,7 +103,7 @@ export const PartialSubagentSettingsSchema = z.object({
   guidelines: GuidelinesSettingsSchema.partial().optional(),
   capabilities: CapabilitiesSettingsSchema.partial().optional(),
   harness: z.object({
-    runtimeProfile: z.enum(HARNESS_RUNTIME_PROFILES).optional(),
+    runtimeProfile: HarnessRuntimeProfileSchema.optional(),
     autoload: HarnessAutoloadSchema.partial().optional(),
     applyWhenSubagentPresent: z.boolean().optional(),
     failureMode: z.literal("fail-open").optional(),
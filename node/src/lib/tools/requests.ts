@@ -10,6 +10,7 @@ import {
   listRecentGovernanceGrantEvents,
 } from "@/lib/governance/events"
 import { writeGovernanceSecurityReport } from "@/lib/governance/reports"
+import { runPreToolUseHooks } from "@/lib/hooks/runner"
 import { listBridgeCrewSubagentAssignmentsForShip } from "@/lib/governance/subagent-assignments"
 import { SHIP_NOT_FOUND_CODE } from "@/lib/ships/errors"
 import type {
@@ -721,16 +722,51 @@ export async function reviewShipToolAccessRequestForOwner(args: {
     }
   }
 
-  const grantMode = args.grantMode
+  let grantMode = args.grantMode
   if (!grantMode) {
     throw new ShipToolsError("grantMode is required for approval", 400)
   }
 
-  const grantRationale = args.grantRationale?.trim() || ""
+  let grantRationale = args.grantRationale?.trim() || ""
   if (!grantRationale) {
     throw new ShipToolsError("grantRationale is required for approval", 400)
   }
 
+  const preToolUse = await runPreToolUseHooks({
+    ownerUserId: args.ownerUserId,
+    toolName: request.catalogEntry.slug,
+    toolUseId: request.id,
+    input: {
+      shipDeploymentId: args.shipDeploymentId,
+      catalogEntryId: request.catalogEntryId,
+      requesterBridgeCrewId: request.requesterBridgeCrewId,
+      grantMode,
+      grantRationale,
+    },
+    metadata: {
+      action: "ship_tool_grant",
+      reviewedByUserId: args.reviewedByUserId,
+    },
+  })
+
+  if (preToolUse.decision === "deny") {
+    throw new ShipToolsError(
+      preToolUse.reason || "Tool grant denied by pre_tool_use hook",
+      403,
+      "PRE_TOOL_USE_DENIED",
+    )
+  }
+
+  if (preToolUse.rewritten) {
+    const rewritten = asObjectJson(preToolUse.input) || {}
+    if (rewritten.grantMode === "requester_only" || rewritten.grantMode === "ship") {
+      grantMode = rewritten.grantMode
+    }
+    if (typeof rewritten.grantRationale === "string" && rewritten.grantRationale.trim()) {
+      grantRationale = rewritten.grantRationale.trim()
+    }
+  }
+
   let scope: "ship" | "bridge_crew" = "ship"
   let bridgeCrewId: string | null = null
 
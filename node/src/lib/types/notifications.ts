@@ -25,6 +25,7 @@ export const NOTIFICATION_CHANNELS = [
   "vault.topology",
   "vault.explorer",
   "vault.graph",
+  "vault.table",
   "personal.personal",
   "personal.shared",
   "personal.personal.context",
@@ -1,6 +1,8 @@
 export type RealtimeEventType =
   | "session.prompted"
+  | "session.prompt.cancelled"
   | "command.executed"
+  | "command.approval.updated"
   | "ship.updated"
   | "ship.application.updated"
   | "deployment.updated"
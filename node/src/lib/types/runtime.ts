@@ -1,4 +1,12 @@
-export type RuntimeProvider = "openclaw" | "openai-fallback" | "local-fallback" | "codex-cli"
+export type BuiltinRuntimeProvider = "openclaw" | "openai-fallback" | "local-fallback" | "codex-cli"
+
+/** Kinds of user-configured provider instances in the runtime provider registry. */
+export type RuntimeProviderInstanceKind = "openai-compatible" | "anthropic"
+
+/** A named registry instance, addressed as `<kind>:<name>` (e.g. `openai-compatible:llama-local`). */
+export type RuntimeProviderInstanceId = `${RuntimeProviderInstanceKind}:${string}`
+
+export type RuntimeProvider = BuiltinRuntimeProvider | RuntimeProviderInstanceId
 
 export interface RuntimeSignatureBundle {
   keyRef: string
@@ -24,3 +32,14 @@ export interface RuntimeResult {
   metadata?: Record<string, unknown>
   signatureBundle?: RuntimeSignatureBundle
 }
+
+export type RuntimeStreamEvent =
+  | {
+      type: "delta"
+      provider: RuntimeProvider
+      text: string
+    }
+  | {
+      type: "result"
+      result: RuntimeResult
+    }
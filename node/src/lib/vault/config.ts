@@ -1,5 +1,5 @@
-import { resolve } from "node:path"
-import type { PhysicalVaultId, VaultId } from "./types"
+import { isAbsolute, relative, resolve, sep } from "node:path"
+import type { CustomVaultId, PhysicalVaultId, VaultId } from "./types"
 
 export interface VaultDefinition {
   id: PhysicalVaultId
@@ -7,10 +7,30 @@ export interface VaultDefinition {
   namespace: string
   relativePath: string
   isPrivate: boolean
+  /** Notes are stored as wallet-enclave envelopes. */
+  encrypted: boolean
   encryptedLabel?: string
+  /** Set for user-registered vaults only. */
+  custom?: CustomVaultRegistration
 }
 
+export interface CustomVaultRegistration {
+  recordId: string
+  ownerUserId: string
+  shipDeploymentId: string | null
+  absolutePath: string
+}
+
+/**
+ * Who a vault request is for. Built-in vaults are always visible; a custom
+ * vault is visible to its owner and to the owner of the ship it is bound to.
+ * `"all"` is for system work such as RAG resync.
+ */
+export type VaultAccess = { userId: string; shipDeploymentIds: string[] } | "all"
+
 export const JOINED_VAULT_ID: VaultId = "joined"
+export const CUSTOM_VAULT_ID_PREFIX = "custom:"
+export const CUSTOM_VAULT_NAMESPACE_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/
 
 const VAULT_DEFINITIONS: VaultDefinition[] = [
   {
@@ -19,6 +39,7 @@ const VAULT_DEFINITIONS: VaultDefinition[] = [
     namespace: "orchwiz",
     relativePath: "OWZ-Vault",
     isPrivate: false,
+    encrypted: false,
   },
   {
     id: "ship",
@@ -26,6 +47,7 @@ const VAULT_DEFINITIONS: VaultDefinition[] = [
     namespace: "ship",
     relativePath: "Ship-Vault",
     isPrivate: false,
+    encrypted: false,
   },
   {
     id: "agent-public",
@@ -33,6 +55,7 @@ const VAULT_DEFINITIONS: VaultDefinition[] = [
     namespace: "agent-public",
     relativePath: "Agent-Vault/public",
     isPrivate: false,
+    encrypted: false,
   },
   {
     id: "agent-private",
@@ -40,21 +63,80 @@ const VAULT_DEFINITIONS: VaultDefinition[] = [
     namespace: "agent-private",
     relativePath: "Agent-Vault/private",
     isPrivate: true,
+    encrypted: true,
     encryptedLabel: "Encrypted via wallet-enclave",
   },
 ]
 
-const vaultById = new Map(VAULT_DEFINITIONS.map((vault) => [vault.id, vault]))
-const vaultByNamespace = new Map(VAULT_DEFINITIONS.map((vault) => [vault.namespace, vault.id]))
+const RESERVED_NAMESPACES = new Set([...VAULT_DEFINITIONS.map((vault) => vault.namespace), JOINED_VAULT_ID, "_trash"])
+
+const builtInVaultById = new Map(VAULT_DEFINITIONS.map((vault) => [vault.id, vault]))
+let customVaultDefinitions: VaultDefinition[] = []
+let vaultById = new Map(builtInVaultById)
+let vaultByNamespace = new Map(VAULT_DEFINITIONS.map((vault) => [vault.namespace, vault.id]))
+
+/** Replaces the registered custom vaults; called by the registry loader. */
+export function setCustomVaultDefinitions(definitions: VaultDefinition[]): void {
+  customVaultDefinitions = definitions.filter(
+    (definition) => definition.custom && !RESERVED_NAMESPACES.has(definition.namespace),
+  )
+  vaultById = new Map(builtInVaultById)
+  vaultByNamespace = new Map(VAULT_DEFINITIONS.map((vault) => [vault.namespace, vault.id]))
+  for (const definition of customVaultDefinitions) {
+    vaultById.set(definition.id, definition)
+    vaultByNamespace.set(definition.namespace, definition.id)
+  }
+}
+
+export function customVaultId(namespace: string): CustomVaultId {
+  return `${CUSTOM_VAULT_ID_PREFIX}${namespace}`
+}
+
+export function isCustomVaultId(value: string): value is CustomVaultId {
+  return value.startsWith(CUSTOM_VAULT_ID_PREFIX)
+    && CUSTOM_VAULT_NAMESPACE_PATTERN.test(value.slice(CUSTOM_VAULT_ID_PREFIX.length))
+}
+
+export function isReservedVaultNamespace(namespace: string): boolean {
+  return RESERVED_NAMESPACES.has(namespace)
+}
 
+/**
+ * Custom vault ids are accepted by shape so routes can parse them before the
+ * registry is loaded; unknown ids fail later with a 404.
+ */
 export function parseVaultId(value: string | null): VaultId | null {
   if (!value) return null
   if (value === JOINED_VAULT_ID) return JOINED_VAULT_ID
-  return vaultById.has(value as PhysicalVaultId) ? (value as PhysicalVaultId) : null
+  if (isCustomVaultId(value)) return value
+  return builtInVaultById.has(value as PhysicalVaultId) ? (value as PhysicalVaultId) : null
+}
+
+export function canAccessVaultDefinition(definition: VaultDefinition, access: VaultAccess | undefined): boolean {
+  if (!definition.custom) {
+    return true
+  }
+  if (access === "all") {
+    return true
+  }
+  if (!access) {
+    return false
+  }
+
+  return definition.custom.ownerUserId === access.userId
+    || Boolean(definition.custom.shipDeploymentId && access.shipDeploymentIds.includes(definition.custom.shipDeploymentId))
+}
+
+/** Built-in vaults plus the custom vaults `access` may see (none when omitted). */
+export function listPhysicalVaultDefinitions(access?: VaultAccess): VaultDefinition[] {
+  return [
+    ...VAULT_DEFINITIONS,
+    ...customVaultDefinitions.filter((definition) => canAccessVaultDefinition(definition, access)),
+  ]
 }
 
-export function listPhysicalVaultDefinitions(): VaultDefinition[] {
-  return VAULT_DEFINITIONS
+export function findVaultDefinition(vaultId: PhysicalVaultId): VaultDefinition | null {
+  return vaultById.get(vaultId) || null
 }
 
 export function getVaultDefinition(vaultId: PhysicalVaultId): VaultDefinition {
@@ -73,8 +155,49 @@ export function getRepoRootPath(): string {
   return resolve(process.cwd(), "..")
 }
 
+/**
+ * Directories custom vaults may live under (`VAULT_CUSTOM_ROOTS`, comma
+ * separated). Defaults to `Custom-Vaults/` in the repo root.
+ */
+export function vaultCustomRoots(env: NodeJS.ProcessEnv = process.env): string[] {
+  const configured = (env.VAULT_CUSTOM_ROOTS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => resolve(getRepoRootPath(), entry))
+
+  return configured.length > 0 ? configured : [resolve(getRepoRootPath(), "Custom-Vaults")]
+}
+
+function isWithin(parent: string, child: string): boolean {
+  const offset = relative(parent, child)
+  return offset === "" || (!offset.startsWith(`..${sep}`) && offset !== ".." && !isAbsolute(offset))
+}
+
+/**
+ * Resolves a custom vault root (absolute, or relative to the first custom
+ * root). Returns null when it escapes the allowed roots or overlaps a
+ * built-in vault.
+ */
+export function resolveCustomVaultRoot(rootPath: string, env: NodeJS.ProcessEnv = process.env): string | null {
+  const roots = vaultCustomRoots(env)
+  const absolutePath = resolve(roots[0], rootPath)
+  if (!roots.some((root) => isWithin(root, absolutePath) && absolutePath !== root)) {
+    return null
+  }
+
+  const overlapsBuiltIn = VAULT_DEFINITIONS.some((definition) => {
+    const builtInPath = resolve(getRepoRootPath(), definition.relativePath)
+    return isWithin(builtInPath, absolutePath) || isWithin(absolutePath, builtInPath)
+  })
+  return overlapsBuiltIn ? null : absolutePath
+}
+
 export function resolveVaultAbsolutePath(vaultId: PhysicalVaultId): string {
   const definition = getVaultDefinition(vaultId)
+  if (definition.custom) {
+    return definition.custom.absolutePath
+  }
   return resolve(getRepoRootPath(), definition.relativePath)
 }
 
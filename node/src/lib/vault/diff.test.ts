@@ -0,0 +1,30 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { diffVaultNoteLines } from "./diff"
+
+test("diffVaultNoteLines reports added and removed lines with line numbers", () => {
+  const diff = diffVaultNoteLines("# Title\nalpha\nbeta\ngamma\n", "# Title\nalpha\nBETA\ngamma\ndelta\n")
+
+  assert.equal(diff.added, 2)
+  assert.equal(diff.removed, 1)
+  assert.deepEqual(
+    diff.lines.map((line) => `${line.type}:${line.oldLine ?? "-"}:${line.newLine ?? "-"}:${line.text}`),
+    [
+      "context:1:1:# Title",
+      "context:2:2:alpha",
+      "remove:3:-:beta",
+      "add:-:3:BETA",
+      "context:4:4:gamma",
+      "add:-:5:delta",
+    ],
+  )
+})
+
+test("diffVaultNoteLines treats empty content as no lines", () => {
+  assert.deepEqual(diffVaultNoteLines("", ""), { added: 0, removed: 0, lines: [] })
+
+  const created = diffVaultNoteLines("", "one\r\ntwo")
+  assert.equal(created.added, 2)
+  assert.equal(created.removed, 0)
+  assert.deepEqual(created.lines.map((line) => line.text), ["one", "two"])
+})
@@ -0,0 +1,106 @@
+import type { VaultNoteDiffLine } from "./types"
+
+const MAX_LCS_CELLS = 4_000_000
+
+function splitLines(content: string): string[] {
+  if (!content) {
+    return []
+  }
+  const lines = content.replace(/\r\n/g, "\n").split("\n")
+  if (lines[lines.length - 1] === "") {
+    lines.pop()
+  }
+  return lines
+}
+
+/**
+ * Line diff between two note bodies. Common prefix/suffix are trimmed before
+ * the LCS table is built; if the remaining middle is still too large it is
+ * reported as a block replacement instead of an exact diff.
+ */
+export function diffVaultNoteLines(before: string, after: string): {
+  added: number
+  removed: number
+  lines: VaultNoteDiffLine[]
+} {
+  const oldLines = splitLines(before)
+  const newLines = splitLines(after)
+
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix += 1
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+  const lines: VaultNoteDiffLine[] = []
+  let oldLine = 1
+  let newLine = 1
+
+  const push = (type: VaultNoteDiffLine["type"], text: string) => {
+    lines.push({
+      type,
+      text,
+      oldLine: type === "add" ? null : oldLine,
+      newLine: type === "remove" ? null : newLine,
+    })
+    if (type !== "add") oldLine += 1
+    if (type !== "remove") newLine += 1
+  }
+
+  for (let index = 0; index < prefix; index += 1) {
+    push("context", oldLines[index])
+  }
+
+  const rows = oldMiddle.length
+  const cols = newMiddle.length
+  if ((rows + 1) * (cols + 1) > MAX_LCS_CELLS) {
+    oldMiddle.forEach((text) => push("remove", text))
+    newMiddle.forEach((text) => push("add", text))
+  } else {
+    const width = cols + 1
+    const table = new Uint32Array((rows + 1) * width)
+    for (let row = rows - 1; row >= 0; row -= 1) {
+      for (let col = cols - 1; col >= 0; col -= 1) {
+        table[row * width + col] = oldMiddle[row] === newMiddle[col]
+          ? table[(row + 1) * width + col + 1] + 1
+          : Math.max(table[(row + 1) * width + col], table[row * width + col + 1])
+      }
+    }
+
+    let row = 0
+    let col = 0
+    while (row < rows || col < cols) {
+      if (row < rows && col < cols && oldMiddle[row] === newMiddle[col]) {
+        push("context", oldMiddle[row])
+        row += 1
+        col += 1
+      } else if (row < rows && (col >= cols || table[(row + 1) * width + col] >= table[row * width + col + 1])) {
+        push("remove", oldMiddle[row])
+        row += 1
+      } else {
+        push("add", newMiddle[col])
+        col += 1
+      }
+    }
+  }
+
+  for (let index = oldLines.length - suffix; index < oldLines.length; index += 1) {
+    push("context", oldLines[index])
+  }
+
+  return {
+    added: lines.filter((line) => line.type === "add").length,
+    removed: lines.filter((line) => line.type === "remove").length,
+    lines,
+  }
+}
@@ -0,0 +1,81 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { embeddingMatchesProvider, resolveVaultEmbeddingProvider } from "./embeddings"
+
+test("resolveVaultEmbeddingProvider returns null for hosted OpenAI without a key", () => {
+  assert.equal(resolveVaultEmbeddingProvider({ NODE_ENV: "test" } as NodeJS.ProcessEnv), null)
+
+  const provider = resolveVaultEmbeddingProvider({ NODE_ENV: "test", OPENAI_API_KEY: "sk-test" } as NodeJS.ProcessEnv)
+  assert.equal(provider?.id, "openai")
+  assert.equal(provider?.model, "text-embedding-3-small")
+})
+
+test("openai-compatible embedding provider batches requests against the local endpoint", async () => {
+  const previousFetch = globalThis.fetch
+  const batches: string[][] = []
+  globalThis.fetch = (async (url: RequestInfo | URL, init?: RequestInit) => {
+    assert.equal(String(url), "http://ollama:11434/v1/embeddings")
+    assert.equal((init?.headers as Record<string, string>)?.Authorization, undefined)
+    const body = JSON.parse(String(init?.body))
+    assert.equal(body.model, "nomic-embed-text")
+    assert.equal(body.dimensions, 3)
+    batches.push(body.input)
+
+    return new Response(
+      JSON.stringify({
+        data: (body.input as string[])
+          .map((_text, index) => ({ index, embedding: [batches.length, index, 1] }))
+          .reverse(),
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )
+  }) as typeof fetch
+
+  try {
+    const provider = resolveVaultEmbeddingProvider({
+      NODE_ENV: "test",
+      VAULT_RAG_EMBEDDING_PROVIDER: "openai-compatible",
+      VAULT_RAG_EMBEDDING_BASE_URL: "http://ollama:11434/v1/",
+      VAULT_RAG_EMBEDDING_DIMENSIONS: "3",
+      VAULT_RAG_EMBED_BATCH_SIZE: "2",
+    } as NodeJS.ProcessEnv)
+
+    assert.equal(provider?.id, "openai-compatible")
+    const vectors = await provider?.embed(["a", "b", "c"])
+    assert.deepEqual(batches, [["a", "b"], ["c"]])
+    assert.deepEqual(vectors, [[1, 0, 1], [1, 1, 1], [2, 0, 1]])
+  } finally {
+    globalThis.fetch = previousFetch
+  }
+})
+
+test("openai-compatible embedding provider returns null when the endpoint fails", async () => {
+  const previousFetch = globalThis.fetch
+  const previousConsoleError = console.error
+  globalThis.fetch = (async () => new Response("unavailable", { status: 503 })) as typeof fetch
+  console.error = () => {}
+
+  try {
+    const provider = resolveVaultEmbeddingProvider({
+      NODE_ENV: "test",
+      VAULT_RAG_EMBEDDING_PROVIDER: "openai-compatible",
+    } as NodeJS.ProcessEnv)
+    assert.equal(await provider?.embed(["a"]), null)
+  } finally {
+    globalThis.fetch = previousFetch
+    console.error = previousConsoleError
+  }
+})
+
+test("embeddingMatchesProvider rejects chunks from another model or dimension", () => {
+  const provider = { model: "nomic-embed-text", dimensions: 768 }
+
+  assert.equal(embeddingMatchesProvider({ embeddingModel: "nomic-embed-text", embeddingDimensions: 768 }, provider), true)
+  assert.equal(embeddingMatchesProvider({ embeddingModel: "text-embedding-3-small", embeddingDimensions: 768 }, provider), false)
+  assert.equal(embeddingMatchesProvider({ embeddingModel: "nomic-embed-text", embeddingDimensions: 1536 }, provider), false)
+  assert.equal(embeddingMatchesProvider({ embeddingModel: null, embeddingDimensions: null }, provider), false)
+  assert.equal(
+    embeddingMatchesProvider({ embeddingModel: "nomic-embed-text", embeddingDimensions: 1024 }, { ...provider, dimensions: null }),
+    true,
+  )
+})
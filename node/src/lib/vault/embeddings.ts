@@ -0,0 +1,204 @@
+export type VaultEmbeddingProviderId = "openai" | "openai-compatible"
+
+/**
+ * Text embedding backend shared by vault RAG and the data-core local private
+ * index. `embed` resolves to `null` on any failure so callers can degrade to
+ * lexical ranking instead of failing the request.
+ */
+export interface VaultEmbeddingProvider {
+  id: VaultEmbeddingProviderId
+  model: string
+  /** Requested output dimension, when configured; otherwise the model default. */
+  dimensions: number | null
+  embed(texts: string[]): Promise<number[][] | null>
+}
+
+interface EmbeddingEndpointConfig {
+  id: VaultEmbeddingProviderId
+  baseUrl: string
+  apiKey: string | null
+  model: string
+  dimensions: number | null
+  batchSize: number
+  timeoutMs: number
+}
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1"
+const OPENAI_DEFAULT_MODEL = "text-embedding-3-small"
+const LOCAL_DEFAULT_BASE_URL = "http://localhost:11434/v1"
+const LOCAL_DEFAULT_MODEL = "nomic-embed-text"
+
+function asPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || "", 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback
+  }
+  return parsed
+}
+
+function asOptionalPositiveInt(value: string | undefined): number | null {
+  const parsed = Number.parseInt(value || "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+function parseEmbedding(value: unknown): number[] | null {
+  if (!Array.isArray(value)) {
+    return null
+  }
+
+  const parsed: number[] = []
+  for (const entry of value) {
+    if (typeof entry !== "number" || !Number.isFinite(entry)) {
+      return null
+    }
+    parsed.push(entry)
+  }
+
+  return parsed.length > 0 ? parsed : null
+}
+
+export function vaultEmbeddingProviderId(env: NodeJS.ProcessEnv = process.env): VaultEmbeddingProviderId {
+  const raw = env.VAULT_RAG_EMBEDDING_PROVIDER?.trim().toLowerCase()
+  return raw === "openai-compatible" || raw === "local" ? "openai-compatible" : "openai"
+}
+
+async function embedBatch(config: EmbeddingEndpointConfig, batch: string[]): Promise<number[][] | null> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(`${config.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        input: batch,
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+      }),
+      signal: controller.signal,
+    })
+  } catch (error) {
+    clearTimeout(timer)
+    console.error(`Vault embedding request to ${config.id} failed:`, error)
+    return null
+  }
+
+  try {
+    if (!response.ok) {
+      console.error(`Vault embedding request to ${config.id} returned non-2xx:`, response.status)
+      return null
+    }
+
+    const payload = (await response.json().catch(() => null)) as
+      | { data?: Array<{ embedding?: unknown; index?: number }> }
+      | null
+    if (!payload?.data || !Array.isArray(payload.data) || payload.data.length !== batch.length) {
+      return null
+    }
+
+    const ordered = [...payload.data].sort((a, b) => (a.index || 0) - (b.index || 0))
+    const vectors: number[][] = []
+    for (const entry of ordered) {
+      const embedding = parseEmbedding(entry.embedding)
+      if (!embedding) {
+        return null
+      }
+      vectors.push(embedding)
+    }
+
+    return vectors
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function createEndpointProvider(config: EmbeddingEndpointConfig): VaultEmbeddingProvider {
+  return {
+    id: config.id,
+    model: config.model,
+    dimensions: config.dimensions,
+    async embed(texts) {
+      if (texts.length === 0) {
+        return []
+      }
+
+      const vectors: number[][] = []
+      for (let start = 0; start < texts.length; start += config.batchSize) {
+        const batch = await embedBatch(config, texts.slice(start, start + config.batchSize))
+        if (!batch) {
+          return null
+        }
+        vectors.push(...batch)
+      }
+
+      // A model that returns mixed widths cannot be compared by cosine similarity.
+      const width = vectors[0]?.length
+      return vectors.every((vector) => vector.length === width) ? vectors : null
+    },
+  }
+}
+
+/**
+ * Resolves the configured embedding backend, or `null` when none is usable
+ * (hosted OpenAI without `OPENAI_API_KEY`). `openai-compatible` targets any
+ * `/v1/embeddings` endpoint such as Ollama or text-embeddings-inference, so
+ * air-gapped deployments keep semantic ranking without a hosted key.
+ */
+export function resolveVaultEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): VaultEmbeddingProvider | null {
+  const id = vaultEmbeddingProviderId(env)
+  const batchSize = asPositiveInt(env.VAULT_RAG_EMBED_BATCH_SIZE, 24)
+  const timeoutMs = asPositiveInt(env.VAULT_RAG_EMBEDDING_TIMEOUT_MS, 30_000)
+  const dimensions = asOptionalPositiveInt(env.VAULT_RAG_EMBEDDING_DIMENSIONS)
+  const configuredModel = env.VAULT_RAG_EMBEDDING_MODEL?.trim()
+
+  if (id === "openai") {
+    const apiKey = env.OPENAI_API_KEY?.trim()
+    if (!apiKey) {
+      return null
+    }
+
+    return createEndpointProvider({
+      id,
+      baseUrl: OPENAI_BASE_URL,
+      apiKey,
+      model: configuredModel || OPENAI_DEFAULT_MODEL,
+      dimensions,
+      batchSize,
+      timeoutMs,
+    })
+  }
+
+  return createEndpointProvider({
+    id,
+    baseUrl: (env.VAULT_RAG_EMBEDDING_BASE_URL?.trim() || LOCAL_DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    apiKey: env.VAULT_RAG_EMBEDDING_API_KEY?.trim() || null,
+    model: configuredModel || LOCAL_DEFAULT_MODEL,
+    dimensions,
+    batchSize,
+    timeoutMs,
+  })
+}
+
+/**
+ * True when a stored chunk vector was produced by `provider` and can be
+ * compared against its query vectors. Chunks indexed before model tracking
+ * carry no model and are treated as stale.
+ */
+export function embeddingMatchesProvider(
+  chunk: { embeddingModel: string | null; embeddingDimensions: number | null },
+  provider: Pick<VaultEmbeddingProvider, "model" | "dimensions">,
+): boolean {
+  if (chunk.embeddingModel !== provider.model) {
+    return false
+  }
+
+  return provider.dimensions === null || chunk.embeddingDimensions === provider.dimensions
+}
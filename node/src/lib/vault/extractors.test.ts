@@ -0,0 +1,138 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import {
+  __resetRegisteredVaultDocumentExtractorsForTests,
+  registerVaultDocumentExtractor,
+  resolveVaultDocumentExtractor,
+  VaultDocumentExtractionError,
+  type VaultDocumentExtractor,
+} from "./extractors"
+
+function extractorFor(path: string): VaultDocumentExtractor {
+  const extractor = resolveVaultDocumentExtractor(path)
+  assert.ok(extractor, `expected an extractor for ${path}`)
+  return extractor
+}
+
+function extract(path: string, content: string) {
+  return extractorFor(path).extract({ path, absolutePath: `/vault/${path}`, data: Buffer.from(content) })
+}
+
+test("resolveVaultDocumentExtractor maps extensions and honors VAULT_RAG_EXTRACTORS", () => {
+  const previous = process.env.VAULT_RAG_EXTRACTORS
+
+  try {
+    delete process.env.VAULT_RAG_EXTRACTORS
+    assert.equal(resolveVaultDocumentExtractor("notes/Readme.md"), null)
+    assert.equal(resolveVaultDocumentExtractor("specs/openapi.YAML")?.id, "structured")
+    assert.equal(resolveVaultDocumentExtractor("manuals/engine.pdf")?.id, "pdf")
+    assert.equal(resolveVaultDocumentExtractor("images/logo.png"), null)
+
+    process.env.VAULT_RAG_EXTRACTORS = "text, html"
+    assert.equal(resolveVaultDocumentExtractor("logs/boot.log")?.id, "text")
+    assert.equal(resolveVaultDocumentExtractor("manuals/engine.pdf"), null)
+
+    process.env.VAULT_RAG_EXTRACTORS = "none"
+    assert.equal(resolveVaultDocumentExtractor("logs/boot.log"), null)
+  } finally {
+    if (previous === undefined) {
+      delete process.env.VAULT_RAG_EXTRACTORS
+    } else {
+      process.env.VAULT_RAG_EXTRACTORS = previous
+    }
+  }
+})
+
+test("registered extractors take precedence over built-ins", async () => {
+  registerVaultDocumentExtractor({
+    id: "custom-log",
+    extensions: [".log"],
+    extract: async () => ({ sections: [{ heading: null, text: "custom", anchor: {} }] }),
+  })
+
+  try {
+    assert.equal(resolveVaultDocumentExtractor("logs/boot.log")?.id, "custom-log")
+    assert.equal(resolveVaultDocumentExtractor("notes/plain.txt")?.id, "text")
+  } finally {
+    __resetRegisteredVaultDocumentExtractorsForTests()
+  }
+})
+
+test("text and source extractors emit line-anchored blocks", async () => {
+  const text = await extract("logs/boot.log", "boot ok\nlink up\n\n\nwarp online\n")
+  assert.deepEqual(text.sections.map((section) => section.anchor), [
+    { lineStart: 1, lineEnd: 4 },
+    { lineStart: 5, lineEnd: 6 },
+  ])
+
+  const source = await extract("tools/sync.ts", "import x from \"x\"\n\nexport function a() {\n  return 1\n}\n\nexport const b = 2\n")
+  assert.deepEqual(source.sections.map((section) => section.anchor.lineStart), [1, 3, 7])
+
+  await assert.rejects(
+    () => extractorFor("logs/dump.txt").extract({ path: "logs/dump.txt", absolutePath: "", data: Buffer.from([0x41, 0x00]) }),
+    VaultDocumentExtractionError,
+  )
+})
+
+test("structured extractor cuts large top-level maps per child key", async () => {
+  const operations = Array.from({ length: 45 }, (_, index) => [`  /items/${index}:`, "    get: {}"]).flat()
+  const yaml = ["openapi: 3.1.0", "info:", "  title: Fleet API", "paths:", ...operations].join("\n")
+  const sections = (await extract("specs/openapi.yaml", yaml)).sections
+
+  assert.deepEqual(sections.slice(0, 4).map((section) => [section.heading, section.anchor.lineStart]), [
+    ["openapi", 1],
+    ["info", 2],
+    ["paths", 4],
+    ["paths > /items/0", 5],
+  ])
+
+  const minified = (await extract("specs/config.json", "{\"service\":\"payments\",\"replicas\":3}")).sections
+  assert.deepEqual(minified.map((section) => section.anchor), [{ section: "service" }, { section: "replicas" }])
+})
+
+test("html extractor drops scripts and anchors sections to heading ids", async () => {
+  const html = [
+    "<html><head><title>Runbook</title><style>p{}</style></head><body>",
+    "<p>Intro &amp; scope</p><script>alert(1)</script>",
+    "<h2 id=\"restart\">Restart</h2><p>Run <code>systemctl restart</code>.</p>",
+    "<h2>Verify</h2><ul><li>Check logs</li></ul>",
+    "</body></html>",
+  ].join("\n")
+
+  const sections = (await extract("exports/runbook.html", html)).sections
+  assert.deepEqual(sections.map((section) => [section.heading, section.text, section.anchor]), [
+    ["Runbook", "Intro & scope", {}],
+    ["Restart", "Run systemctl restart .", { section: "#restart" }],
+    ["Verify", "Check logs", { section: "Verify" }],
+  ])
+})
+
+test("pdf extractor splits pdftotext output into pages", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "orchwiz-vault-extractors-"))
+  const fakeBinary = join(dir, "pdftotext")
+  await writeFile(fakeBinary, "#!/bin/sh\nprintf 'Page one\\fPage two\\f'\n")
+  await chmod(fakeBinary, 0o755)
+
+  const previous = process.env.VAULT_RAG_PDFTOTEXT_BIN
+  try {
+    process.env.VAULT_RAG_PDFTOTEXT_BIN = fakeBinary
+    const document = await extract("manuals/engine.pdf", "%PDF-1.7")
+    assert.deepEqual(document.sections, [
+      { heading: null, text: "Page one", anchor: { page: 1 } },
+      { heading: null, text: "Page two", anchor: { page: 2 } },
+    ])
+
+    process.env.VAULT_RAG_PDFTOTEXT_BIN = join(dir, "missing-pdftotext")
+    await assert.rejects(() => extract("manuals/engine.pdf", "%PDF-1.7"), VaultDocumentExtractionError)
+  } finally {
+    if (previous === undefined) {
+      delete process.env.VAULT_RAG_PDFTOTEXT_BIN
+    } else {
+      process.env.VAULT_RAG_PDFTOTEXT_BIN = previous
+    }
+    await rm(dir, { recursive: true, force: true })
+  }
+})
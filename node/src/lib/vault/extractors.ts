@@ -0,0 +1,356 @@
+import { execFile as execFileCallback } from "node:child_process"
+import { extname } from "node:path"
+import { promisify } from "node:util"
+import type { VaultRagSourceAnchor } from "./types"
+
+const execFileAsync = promisify(execFileCallback)
+
+const DEFAULT_EXTRACTORS = ["text", "html", "structured", "source", "pdf"]
+const STRUCTURED_SECTION_LINES = 80
+const PDFTOTEXT_TIMEOUT_MS = 60_000
+const PDFTOTEXT_MAX_BUFFER = 32 * 1024 * 1024
+const BINARY_SNIFF_BYTES = 8192
+
+export interface VaultExtractedSection {
+  heading: string | null
+  text: string
+  anchor: VaultRagSourceAnchor
+}
+
+export interface VaultExtractedDocument {
+  sections: VaultExtractedSection[]
+}
+
+export interface VaultDocumentExtractorInput {
+  /** Vault-relative path, used for extension checks and messages. */
+  path: string
+  /** Filesystem path, for extractors that shell out. */
+  absolutePath: string
+  data: Buffer
+}
+
+/**
+ * Converts one non-markdown file type into sections the RAG chunker can cut.
+ * Sections carrying `lineStart`/`lineEnd` are split on line boundaries so
+ * citations keep exact line ranges.
+ */
+export interface VaultDocumentExtractor {
+  id: string
+  extensions: string[]
+  extract(input: VaultDocumentExtractorInput): Promise<VaultExtractedDocument>
+}
+
+export class VaultDocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "VaultDocumentExtractionError"
+  }
+}
+
+function decodeText(input: VaultDocumentExtractorInput): string {
+  if (input.data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    throw new VaultDocumentExtractionError(`${input.path} looks like a binary file.`)
+  }
+
+  return input.data.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n")
+}
+
+function lineSection(lines: string[], start: number, end: number, heading: string | null): VaultExtractedSection {
+  return {
+    heading,
+    text: lines.slice(start, end + 1).join("\n"),
+    anchor: {
+      lineStart: start + 1,
+      lineEnd: end + 1,
+      ...(heading ? { section: heading } : {}),
+    },
+  }
+}
+
+/** Cuts `lines` before every index in `starts`; blank-only sections are dropped. */
+function splitLinesAt(
+  lines: string[],
+  starts: number[],
+  headingFor: (startIndex: number) => string | null,
+): VaultExtractedSection[] {
+  const boundaries = [...new Set([0, ...starts])].sort((left, right) => left - right)
+  const sections: VaultExtractedSection[] = []
+
+  boundaries.forEach((start, index) => {
+    const end = (boundaries[index + 1] ?? lines.length) - 1
+    if (lines.slice(start, end + 1).some((line) => line.trim())) {
+      sections.push(lineSection(lines, start, end, headingFor(start)))
+    }
+  })
+
+  return sections
+}
+
+const textExtractor: VaultDocumentExtractor = {
+  id: "text",
+  extensions: [".txt", ".log", ".csv"],
+  async extract(input) {
+    const lines = decodeText(input).split("\n")
+    const starts = lines
+      .map((line, index) => (line.trim() && (index === 0 || !lines[index - 1].trim()) ? index : -1))
+      .filter((index) => index >= 0)
+
+    return { sections: splitLinesAt(lines, starts, () => null) }
+  },
+}
+
+const sourceExtractor: VaultDocumentExtractor = {
+  id: "source",
+  extensions: [
+    ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".go", ".rs", ".java", ".kt", ".rb",
+    ".c", ".h", ".cpp", ".hpp", ".cs", ".swift", ".sh", ".bash", ".sql", ".tf",
+  ],
+  async extract(input) {
+    const lines = decodeText(input).split("\n")
+    // Top-level blocks: an unindented line right after a blank line.
+    const starts = lines
+      .map((line, index) => (
+        /^\S/.test(line) && !/^[}\])]/.test(line) && (index === 0 || !lines[index - 1].trim()) ? index : -1
+      ))
+      .filter((index) => index >= 0)
+
+    return { sections: splitLinesAt(lines, starts, () => null) }
+  },
+}
+
+const YAML_KEY_PATTERN = /^(\s*)(?:-\s+)?["']?([^"'#:\s][^"'#:]*?)["']?\s*:(?:\s|$)/
+const JSON_KEY_PATTERN = /^(\s*)"((?:[^"\\]|\\.)*)"\s*:/
+
+function structuredSections(lines: string[], keyPattern: RegExp): VaultExtractedSection[] {
+  const keys = lines.map((line) => {
+    const match = line.match(keyPattern)
+    return match ? { indent: match[1].length, key: match[2] } : null
+  })
+  const indents = [...new Set(keys.flatMap((entry) => (entry ? [entry.indent] : [])))].sort((left, right) => left - right)
+  const depthOf = (index: number) => {
+    const entry = keys[index]
+    return entry ? indents.indexOf(entry.indent) : -1
+  }
+
+  const topStarts = lines.map((_, index) => (depthOf(index) === 0 ? index : -1)).filter((index) => index >= 0)
+  // Blocks pair a start line with the top-level key line naming it; a
+  // structural preamble (`{`, `---`) folds into the first key's block.
+  const blocks = topStarts.map((keyLine) => ({ start: keyLine, keyLine }))
+  if (blocks.length === 0 || lines.slice(0, blocks[0].start).some((line) => /\w/.test(line))) {
+    blocks.unshift({ start: 0, keyLine: -1 })
+  } else {
+    blocks[0].start = 0
+  }
+
+  const starts: number[] = []
+  const headings = new Map<number, string | null>()
+
+  blocks.forEach(({ start, keyLine }, index) => {
+    const end = (blocks[index + 1]?.start ?? lines.length) - 1
+    const topKey = keyLine >= 0 ? keys[keyLine]!.key : null
+    starts.push(start)
+    headings.set(start, topKey)
+
+    // Large top-level values (an OpenAPI `paths` map) are cut per child key.
+    if (end - start + 1 > STRUCTURED_SECTION_LINES && topKey) {
+      for (let line = keyLine + 1; line <= end; line += 1) {
+        if (depthOf(line) === 1) {
+          starts.push(line)
+          headings.set(line, `${topKey} > ${keys[line]!.key}`)
+        }
+      }
+    }
+  })
+
+  return splitLinesAt(lines, starts, (start) => headings.get(start) ?? null)
+}
+
+const structuredExtractor: VaultDocumentExtractor = {
+  id: "structured",
+  extensions: [".json", ".yaml", ".yml"],
+  async extract(input) {
+    const text = decodeText(input)
+    if (extname(input.path).toLowerCase() !== ".json") {
+      return { sections: structuredSections(text.split("\n"), YAML_KEY_PATTERN) }
+    }
+
+    const lines = text.split("\n")
+    if (lines.filter((line) => line.trim()).length > 1) {
+      return { sections: structuredSections(lines, JSON_KEY_PATTERN) }
+    }
+
+    // Minified JSON: reformat so keys get their own lines; line numbers no
+    // longer match the file, so only the section anchor is kept.
+    let pretty: string
+    try {
+      pretty = JSON.stringify(JSON.parse(text), null, 2)
+    } catch {
+      return { sections: [{ heading: null, text, anchor: {} }] }
+    }
+
+    return {
+      sections: structuredSections(pretty.split("\n"), JSON_KEY_PATTERN).map((section) => ({
+        ...section,
+        anchor: section.heading ? { section: section.heading } : {},
+      })),
+    }
+  },
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body.startsWith("#")) {
+      const codePoint = body[1] === "x" || body[1] === "X"
+        ? Number.parseInt(body.slice(2), 16)
+        : Number.parseInt(body.slice(1), 10)
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity
+    }
+    return HTML_ENTITIES[body.toLowerCase()] ?? entity
+  })
+}
+
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6]|\/pre|\/blockquote)\b[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n")
+}
+
+const htmlExtractor: VaultDocumentExtractor = {
+  id: "html",
+  extensions: [".html", ".htm"],
+  async extract(input) {
+    const raw = decodeText(input)
+    const title = htmlToText(raw.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || "") || null
+    const body = raw
+      .replace(/<head\b[\s\S]*?<\/head>/gi, "")
+      .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+
+    const sections: VaultExtractedSection[] = []
+    const headingPattern = /<h([1-6])\b([^>]*)>([\s\S]*?)<\/h\1>/gi
+    let heading = title
+    let anchor: VaultRagSourceAnchor = {}
+    let cursor = 0
+
+    const pushSection = (html: string) => {
+      const text = htmlToText(html)
+      if (text) {
+        sections.push({ heading, text, anchor })
+      }
+    }
+
+    for (const match of body.matchAll(headingPattern)) {
+      pushSection(body.slice(cursor, match.index))
+      heading = htmlToText(match[3]) || heading
+      const id = match[2].match(/\bid\s*=\s*["']([^"']+)["']/i)?.[1]
+      anchor = { section: id ? `#${id}` : heading || "" }
+      cursor = (match.index ?? 0) + match[0].length
+    }
+    pushSection(body.slice(cursor))
+
+    return { sections }
+  },
+}
+
+function pdftotextBinary(): string {
+  return process.env.VAULT_RAG_PDFTOTEXT_BIN?.trim() || "pdftotext"
+}
+
+const pdfExtractor: VaultDocumentExtractor = {
+  id: "pdf",
+  extensions: [".pdf"],
+  async extract(input) {
+    let stdout: string
+    try {
+      const result = await execFileAsync(pdftotextBinary(), ["-enc", "UTF-8", input.absolutePath, "-"], {
+        timeout: PDFTOTEXT_TIMEOUT_MS,
+        maxBuffer: PDFTOTEXT_MAX_BUFFER,
+      })
+      stdout = result.stdout
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+        throw new VaultDocumentExtractionError(
+          `PDF extraction needs ${pdftotextBinary()} (poppler-utils); set VAULT_RAG_PDFTOTEXT_BIN or drop "pdf" from VAULT_RAG_EXTRACTORS.`,
+        )
+      }
+      throw error
+    }
+
+    // pdftotext ends every page with a form feed.
+    return {
+      sections: stdout
+        .split("\f")
+        .map((page, index) => ({ heading: null, text: page.trim(), anchor: { page: index + 1 } }))
+        .filter((section) => section.text),
+    }
+  },
+}
+
+const BUILT_IN_EXTRACTORS = [textExtractor, htmlExtractor, structuredExtractor, sourceExtractor, pdfExtractor]
+const registeredExtractors: VaultDocumentExtractor[] = []
+
+function enabledBuiltInExtractorIds(): Set<string> {
+  const raw = process.env.VAULT_RAG_EXTRACTORS
+  if (raw === undefined || !raw.trim()) {
+    return new Set(DEFAULT_EXTRACTORS)
+  }
+
+  const normalized = raw.trim().toLowerCase()
+  if (normalized === "none" || normalized === "off") {
+    return new Set()
+  }
+
+  return new Set(normalized.split(",").map((entry) => entry.trim()).filter(Boolean))
+}
+
+/** Registered extractors win over built-ins for the same extension. */
+export function registerVaultDocumentExtractor(extractor: VaultDocumentExtractor): void {
+  const existingIndex = registeredExtractors.findIndex((entry) => entry.id === extractor.id)
+  if (existingIndex >= 0) {
+    registeredExtractors.splice(existingIndex, 1, extractor)
+  } else {
+    registeredExtractors.push(extractor)
+  }
+}
+
+export function __resetRegisteredVaultDocumentExtractorsForTests(): void {
+  registeredExtractors.length = 0
+}
+
+/** Markdown is chunked natively and never resolves to an extractor. */
+export function resolveVaultDocumentExtractor(path: string): VaultDocumentExtractor | null {
+  const extension = extname(path).toLowerCase()
+  if (!extension || extension === ".md") {
+    return null
+  }
+
+  const registered = registeredExtractors.find((extractor) => extractor.extensions.includes(extension))
+  if (registered) {
+    return registered
+  }
+
+  const enabled = enabledBuiltInExtractorIds()
+  return BUILT_IN_EXTRACTORS.find((extractor) => (
+    enabled.has(extractor.id) && extractor.extensions.includes(extension)
+  )) || null
+}
+
+export function vaultRagExtractMaxBytes(): number {
+  const parsed = Number.parseInt(process.env.VAULT_RAG_EXTRACT_MAX_BYTES || "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 10 * 1024 * 1024
+}
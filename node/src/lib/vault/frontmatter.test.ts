@@ -0,0 +1,141 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { mkdir, mkdtemp, rm } from "node:fs/promises"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import {
+  matchesVaultPropertyFilters,
+  parseVaultFrontmatter,
+  parseVaultPropertyQuery,
+} from "./frontmatter"
+import { queryVaultNoteProperties, saveVaultFile, searchVaultNotes } from "./index"
+
+function applyEnv(values: Record<string, string | undefined>): () => void {
+  const previous = new Map<string, string | undefined>()
+
+  for (const [key, value] of Object.entries(values)) {
+    previous.set(key, process.env[key])
+    if (value === undefined) {
+      delete process.env[key]
+    } else {
+      process.env[key] = value
+    }
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = value
+      }
+    }
+  }
+}
+
+test("parseVaultFrontmatter reads scalars, inline lists and block lists", () => {
+  const parsed = parseVaultFrontmatter([
+    "---",
+    "Service: payments",
+    "tag: [\"#incident\", sev1]",
+    "aliases:",
+    "  - Payments outage",
+    "  - PAY-42",
+    "severity: 2 # paged",
+    "owner:",
+    "  name: nested maps are skipped",
+    "---",
+    "",
+    "# Disk full",
+  ].join("\n"))
+
+  assert.deepEqual(parsed.properties, {
+    service: "payments",
+    tags: ["incident", "sev1"],
+    aliases: ["Payments outage", "PAY-42"],
+    severity: "2",
+  })
+  assert.equal(parsed.body, "# Disk full")
+})
+
+test("parseVaultFrontmatter leaves notes without a closed block untouched", () => {
+  assert.deepEqual(parseVaultFrontmatter("# Title\n---\nkey: value"), {
+    properties: {},
+    body: "# Title\n---\nkey: value",
+  })
+  assert.deepEqual(parseVaultFrontmatter("---\nkey: value\n").properties, {})
+})
+
+test("frontmatter keys named after Object.prototype members stay plain keys", () => {
+  const parsed = parseVaultFrontmatter("---\nconstructor: factory\ntoString: yes\n---\nbody")
+  assert.deepEqual(parsed.properties, { constructor: "factory", tostring: "yes" })
+
+  assert.deepEqual(parseVaultPropertyQuery("constructor:*").filters, [
+    { key: "constructor", operator: "exists", value: "*", negate: false },
+  ])
+  assert.equal(matchesVaultPropertyFilters({ service: "payments" }, parseVaultPropertyQuery("constructor:*").filters), false)
+  assert.equal(matchesVaultPropertyFilters(parsed.properties, parseVaultPropertyQuery("constructor:factory").filters), true)
+})
+
+test("parseVaultPropertyQuery splits filters from free text", () => {
+  assert.deepEqual(parseVaultPropertyQuery("tag:#incident service:payments -status:closed severity:>=2 owner:* disk full https://example.com"), {
+    text: "disk full https://example.com",
+    filters: [
+      { key: "tags", operator: "eq", value: "incident", negate: false },
+      { key: "service", operator: "eq", value: "payments", negate: false },
+      { key: "status", operator: "eq", value: "closed", negate: true },
+      { key: "severity", operator: "gte", value: "2", negate: false },
+      { key: "owner", operator: "exists", value: "*", negate: false },
+    ],
+  })
+  assert.deepEqual(parseVaultPropertyQuery("team:\"site reliability\"").filters, [
+    { key: "team", operator: "eq", value: "site reliability", negate: false },
+  ])
+})
+
+test("matchesVaultPropertyFilters compares lists, numbers and negations", () => {
+  const properties = { tags: ["incident", "sev1"], severity: "10", service: "Payments" }
+  const matches = (query: string) => matchesVaultPropertyFilters(properties, parseVaultPropertyQuery(query).filters)
+
+  assert.equal(matches("tag:incident service:payments"), true)
+  assert.equal(matches("severity:>9"), true)
+  assert.equal(matches("severity:<9"), false)
+  assert.equal(matches("-tag:sev1"), false)
+  assert.equal(matches("-owner:*"), true)
+  assert.equal(matches("tag:postmortem"), false)
+})
+
+test("vault search and property table honor frontmatter filters", async () => {
+  const root = await mkdtemp(join(tmpdir(), "orchwiz-vault-frontmatter-tests-"))
+  await mkdir(join(root, "OWZ-Vault"), { recursive: true })
+  await mkdir(join(root, "Ship-Vault"), { recursive: true })
+  const restoreEnv = applyEnv({
+    VAULT_REPO_ROOT: root,
+    VAULT_RAG_SYNC_ON_WRITE: "false",
+  })
+
+  try {
+    await saveVaultFile("orchwiz", "incidents/payments.md", "---\ntags: [incident]\nservice: payments\n---\n# Payments disk full")
+    await saveVaultFile("orchwiz", "incidents/search.md", "---\ntags: [incident]\nservice: search\n---\n# Search latency")
+    await saveVaultFile("ship", "runbooks/payments.md", "---\nservice: payments\n---\n# Payments runbook")
+    await saveVaultFile("ship", "plain.md", "# No frontmatter")
+
+    const search = await searchVaultNotes("joined", "tag:incident service:payments", { mode: "hybrid" })
+    assert.equal(search.mode, "lexical")
+    assert.deepEqual(search.results.map((result) => result.path), ["orchwiz/incidents/payments.md"])
+    assert.deepEqual(search.results[0]?.properties, { tags: ["incident"], service: "payments" })
+
+    const table = await queryVaultNoteProperties("joined", "service:payments")
+    assert.deepEqual(table.rows.map((row) => row.path), [
+      "orchwiz/incidents/payments.md",
+      "ship/runbooks/payments.md",
+    ])
+    assert.deepEqual(table.columns, ["service", "tags"])
+
+    const all = await queryVaultNoteProperties("joined", "")
+    assert.equal(all.rows.length, 3)
+  } finally {
+    restoreEnv()
+    await rm(root, { recursive: true, force: true })
+  }
+})
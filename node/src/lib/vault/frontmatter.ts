@@ -0,0 +1,268 @@
+import type { VaultNoteProperties, VaultNotePropertyValue } from "./types"
+
+const FRONTMATTER_KEY_PATTERN = /^[A-Za-z0-9_][\w.-]*$/
+const FILTER_TOKEN_PATTERN = /^(-?)([a-z0-9_][\w.-]*):(>=|<=|>|<)?(.+)$/i
+const MAX_PROPERTY_VALUE_LENGTH = 500
+
+/** Keys whose scalar values are split into lists (`tags: a, b` reads like `tags: [a, b]`). */
+const LIST_KEYS = new Set(["tags", "aliases"])
+const KEY_ALIASES: Record<string, string> = {
+  tag: "tags",
+  alias: "aliases",
+}
+
+export type VaultPropertyFilterOperator = "eq" | "gt" | "gte" | "lt" | "lte" | "exists"
+
+const COMPARATOR_OPERATORS: Record<string, VaultPropertyFilterOperator> = {
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+}
+
+export interface VaultPropertyFilter {
+  key: string
+  operator: VaultPropertyFilterOperator
+  value: string
+  negate: boolean
+}
+
+export interface VaultPropertyQuery {
+  /** Free text left after the property filters are removed. */
+  text: string
+  filters: VaultPropertyFilter[]
+}
+
+function normalizeKey(key: string): string {
+  const lower = key.toLowerCase()
+  return Object.hasOwn(KEY_ALIASES, lower) ? KEY_ALIASES[lower] : lower
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  if (
+    trimmed.length >= 2
+    && ((trimmed.startsWith("\"") && trimmed.endsWith("\"")) || (trimmed.startsWith("'") && trimmed.endsWith("'")))
+  ) {
+    return trimmed.slice(1, -1)
+  }
+
+  return trimmed
+}
+
+function stripInlineComment(value: string): string {
+  if (value.startsWith("\"") || value.startsWith("'")) {
+    return value
+  }
+
+  const commentIndex = value.search(/\s#/)
+  return commentIndex === -1 ? value : value.slice(0, commentIndex)
+}
+
+function normalizeListItem(key: string, value: string): string {
+  const item = unquote(value).slice(0, MAX_PROPERTY_VALUE_LENGTH)
+  return key === "tags" ? item.replace(/^#/, "") : item
+}
+
+function parseScalar(key: string, raw: string): VaultNotePropertyValue | null {
+  const value = stripInlineComment(raw).trim()
+  if (!value || value === "~" || value === "null") {
+    return null
+  }
+
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((item) => normalizeListItem(key, item))
+      .filter(Boolean)
+  }
+
+  const scalar = unquote(value).slice(0, MAX_PROPERTY_VALUE_LENGTH)
+  if (LIST_KEYS.has(key)) {
+    return scalar
+      .split(/[,\s]+/)
+      .map((item) => normalizeListItem(key, item))
+      .filter(Boolean)
+  }
+
+  return scalar
+}
+
+/**
+ * Reads the leading `---` block of a note. Supports the subset runbooks use:
+ * `key: value`, inline `[a, b]` lists and `- item` block lists. Nested maps
+ * are skipped. Keys are lower-cased; `tag` and `alias` fold into their plurals.
+ */
+export function parseVaultFrontmatter(content: string): { properties: VaultNoteProperties; body: string } {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n")
+  if (!normalized.startsWith("---\n")) {
+    return { properties: {}, body: content }
+  }
+
+  const lines = normalized.split("\n")
+  const closingIndex = lines.findIndex((line, index) => index > 0 && (line.trimEnd() === "---" || line.trimEnd() === "..."))
+  if (closingIndex === -1) {
+    return { properties: {}, body: content }
+  }
+
+  const properties: VaultNoteProperties = {}
+  let listKey: string | null = null
+
+  for (const line of lines.slice(1, closingIndex)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) {
+      continue
+    }
+
+    const listItem = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/)
+    if (listItem && listKey) {
+      const item = normalizeListItem(listKey, stripInlineComment(listItem[1]))
+      const existing = properties[listKey]
+      if (item) {
+        properties[listKey] = Array.isArray(existing) ? [...existing, item] : [item]
+      }
+      continue
+    }
+
+    if (/^\s/.test(line)) {
+      continue
+    }
+
+    listKey = null
+    const separator = line.indexOf(":")
+    if (separator <= 0) {
+      continue
+    }
+
+    const rawKey = line.slice(0, separator).trim()
+    if (!FRONTMATTER_KEY_PATTERN.test(rawKey)) {
+      continue
+    }
+
+    const key = normalizeKey(rawKey)
+    const rawValue = line.slice(separator + 1)
+    if (!rawValue.trim()) {
+      listKey = key
+      continue
+    }
+
+    const value = parseScalar(key, rawValue)
+    if (value !== null) {
+      properties[key] = value
+    }
+  }
+
+  return {
+    properties,
+    body: lines.slice(closingIndex + 1).join("\n").replace(/^\n+/, ""),
+  }
+}
+
+function tokenizeQuery(input: string): string[] {
+  return input.match(/(?:[^\s"]+|"[^"]*")+/g) || []
+}
+
+/**
+ * Splits `tag:incident service:payments disk full` into property filters and
+ * free text. Filters support `key:value`, `key:>value` (also `>=`, `<`, `<=`),
+ * `key:*` (property present) and a leading `-` to negate.
+ */
+export function parseVaultPropertyQuery(input: string): VaultPropertyQuery {
+  const filters: VaultPropertyFilter[] = []
+  const textTokens: string[] = []
+
+  for (const token of tokenizeQuery(input.trim())) {
+    const match = token.match(FILTER_TOKEN_PATTERN)
+    if (!match || match[4].startsWith("//")) {
+      textTokens.push(token)
+      continue
+    }
+
+    const [, negate, key, comparator, rawValue] = match
+    const value = unquote(rawValue)
+    if (!value) {
+      textTokens.push(token)
+      continue
+    }
+
+    const operator: VaultPropertyFilterOperator = comparator
+      ? COMPARATOR_OPERATORS[comparator]
+      : value === "*" ? "exists" : "eq"
+
+    filters.push({
+      key: normalizeKey(key),
+      operator,
+      value: key.toLowerCase() === "tag" || key.toLowerCase() === "tags" ? value.replace(/^#/, "") : value,
+      negate: negate === "-",
+    })
+  }
+
+  return {
+    text: textTokens.join(" "),
+    filters,
+  }
+}
+
+function compareValues(left: string, right: string): number {
+  const leftNumber = Number(left)
+  const rightNumber = Number(right)
+  if (left.trim() && right.trim() && Number.isFinite(leftNumber) && Number.isFinite(rightNumber)) {
+    return leftNumber - rightNumber
+  }
+
+  return left.toLowerCase().localeCompare(right.toLowerCase())
+}
+
+function valueMatches(candidate: string, filter: VaultPropertyFilter): boolean {
+  switch (filter.operator) {
+    case "eq":
+      return candidate.toLowerCase() === filter.value.toLowerCase()
+    case "gt":
+      return compareValues(candidate, filter.value) > 0
+    case "gte":
+      return compareValues(candidate, filter.value) >= 0
+    case "lt":
+      return compareValues(candidate, filter.value) < 0
+    case "lte":
+      return compareValues(candidate, filter.value) <= 0
+    default:
+      return true
+  }
+}
+
+function filterMatches(properties: VaultNoteProperties, filter: VaultPropertyFilter): boolean {
+  if (!Object.hasOwn(properties, filter.key)) {
+    return false
+  }
+
+  const value = properties[filter.key]
+
+  if (filter.operator === "exists") {
+    return true
+  }
+
+  const candidates = Array.isArray(value) ? value : [value]
+  return candidates.some((candidate) => valueMatches(candidate, filter))
+}
+
+/** Every filter must hold; list properties match when any item does. */
+export function matchesVaultPropertyFilters(properties: VaultNoteProperties, filters: VaultPropertyFilter[]): boolean {
+  return filters.every((filter) => filterMatches(properties, filter) !== filter.negate)
+}
+
+export function asVaultNoteProperties(value: unknown): VaultNoteProperties {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  const properties: VaultNoteProperties = {}
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof entry === "string") {
+      properties[key] = entry
+    } else if (Array.isArray(entry)) {
+      properties[key] = entry.filter((item): item is string => typeof item === "string")
+    }
+  }
+
+  return properties
+}
@@ -38,6 +38,14 @@ export async function directoryExists(absolutePath: string): Promise<boolean> {
 }
 
 export async function collectMarkdownFilePaths(vaultRootPath: string): Promise<string[]> {
+  return collectVaultFilePaths(vaultRootPath, (name) => name.toLowerCase().endsWith(".md"))
+}
+
+/** Walks a vault root like `collectMarkdownFilePaths`, keeping files whose name passes `include`. */
+export async function collectVaultFilePaths(
+  vaultRootPath: string,
+  include: (fileName: string) => boolean,
+): Promise<string[]> {
   const files: string[] = []
 
   const walk = async (relativeDir = ""): Promise<void> => {
@@ -62,7 +70,7 @@ export async function collectMarkdownFilePaths(vaultRootPath: string): Promise<s
 
       if (shouldSkipFile(entry.name)) continue
       if (!entry.isFile()) continue
-      if (!entry.name.toLowerCase().endsWith(".md")) continue
+      if (!include(entry.name)) continue
       files.push(relativePath)
     }
   }
@@ -192,6 +200,32 @@ export async function readMarkdownFile(
   }
 }
 
+/** Reads any vault file as bytes; used by the RAG extractors for non-markdown sources. */
+export async function readVaultFileBytes(
+  vaultRootPath: string,
+  relativePathInput: string,
+  maxBytes: number,
+): Promise<{ data: Buffer; absolutePath: string; size: number; mtime: Date }> {
+  const relativePath = sanitizeRelativeVaultPath(relativePathInput)
+  const absolutePath = resolvePathWithinRoot(vaultRootPath, relativePath)
+  const fileStats = await fs.stat(absolutePath)
+
+  if (!fileStats.isFile()) {
+    throw new Error("Not a file.")
+  }
+
+  if (fileStats.size > maxBytes) {
+    throw new Error(`File exceeds ${maxBytes} bytes.`)
+  }
+
+  return {
+    data: await fs.readFile(absolutePath),
+    absolutePath,
+    size: fileStats.size,
+    mtime: fileStats.mtime,
+  }
+}
+
 export async function writeMarkdownFile(
   vaultRootPath: string,
   relativePathInput: string,
@@ -1,12 +1,17 @@
 import { basename, dirname, extname, posix } from "node:path"
 import {
+  canAccessVaultDefinition,
+  findVaultDefinition,
+  getVaultDefinition,
   JOINED_VAULT_ID,
   listPhysicalVaultDefinitions,
   parseJoinedVaultPath,
   resolveVaultAbsolutePath,
   resolveVaultIdByNamespace,
   toJoinedVaultPath,
+  type VaultAccess,
 } from "./config"
+import { loadVaultRegistry } from "./registry"
 import {
   buildVaultTree,
   collectMarkdownFilePaths,
@@ -35,6 +40,16 @@ import {
   privateMemoryEncryptionRequired,
   PrivateVaultEncryptionError,
 } from "./private-enclave-client"
+import { diffVaultNoteLines } from "./diff"
+import { matchesVaultPropertyFilters, parseVaultFrontmatter, parseVaultPropertyQuery, type VaultPropertyQuery } from "./frontmatter"
+import {
+  findVaultNoteRevision,
+  listVaultNoteRevisions,
+  recordVaultNoteRevision,
+  serializeVaultNoteRevision,
+  type VaultNoteRevisionInput,
+} from "./revisions"
+import type { VaultNoteRevision } from "@prisma/client"
 import type {
   PhysicalVaultId,
   VaultDeleteMode,
@@ -47,9 +62,20 @@ import type {
   VaultId,
   VaultLinkRef,
   VaultMoveResponse,
+  VaultNoteDiffResponse,
+  VaultNoteHistoryResponse,
+  VaultNoteProperties,
+  VaultNoteRevisionAction,
+  VaultNoteRevisionResponse,
+  VaultRestoreResponse,
+  VaultRevisionAuthor,
+  VaultPropertyTableResponse,
+  VaultPropertyTableRow,
   VaultSaveResponse,
   VaultSearchResponse,
   VaultSummary,
+  VaultTrashEntry,
+  VaultTrashResponse,
   VaultTreeNode,
   VaultTreeResponse,
 } from "./types"
@@ -64,7 +90,7 @@ const EDIT_MAX_BYTES = parseEnvByteLimit("VAULT_MAX_EDIT_BYTES", 2 * 1024 * 1024
 const SEARCH_MAX_BYTES = parseEnvByteLimit("VAULT_SEARCH_MAX_BYTES", 128 * 1024)
 const GRAPH_MAX_NOTES = parseEnvByteLimit("VAULT_GRAPH_MAX_NOTES", 2000)
 const GRAPH_MAX_EDGES = parseEnvByteLimit("VAULT_GRAPH_MAX_EDGES", 10000)
-const PRIVATE_VAULT_ID: PhysicalVaultId = "agent-private"
+const PROPERTY_TABLE_MAX_ROWS = 500
 
 interface RawVaultLink {
   kind: "wiki" | "markdown"
@@ -119,6 +145,23 @@ export function __setVaultRagMutationSyncForTests(nextImpl: VaultRagMutationSync
   vaultRagMutationSyncImpl = nextImpl || syncVaultRagMutation
 }
 
+type VaultRevisionRecorderFn = typeof recordVaultNoteRevision
+let vaultRevisionRecorderImpl: VaultRevisionRecorderFn = recordVaultNoteRevision
+
+export function __setVaultRevisionRecorderForTests(nextImpl: VaultRevisionRecorderFn | null): void {
+  vaultRevisionRecorderImpl = nextImpl || recordVaultNoteRevision
+}
+
+export interface VaultMutationOptions {
+  /** Who made the change; defaults to `system` for internal writers. */
+  author?: VaultRevisionAuthor
+  /** Required to reach custom vaults; built-in vaults ignore it. */
+  access?: VaultAccess
+}
+
+const SYSTEM_REVISION_AUTHOR: VaultRevisionAuthor = { type: "system" }
+const REVISION_HISTORY_LIMIT = 100
+
 export class VaultRequestError extends Error {
   status: number
   code?: string
@@ -171,8 +214,15 @@ function clipContentByByteLimit(content: string, maxBytes: number): { content: s
   }
 }
 
-function isPrivatePhysicalVault(vaultId: PhysicalVaultId): boolean {
-  return vaultId === PRIVATE_VAULT_ID
+function isEncryptedPhysicalVault(vaultId: PhysicalVaultId): boolean {
+  return findVaultDefinition(vaultId)?.encrypted === true
+}
+
+function assertVaultAccessible(vaultId: PhysicalVaultId, access: VaultAccess | undefined): void {
+  const definition = findVaultDefinition(vaultId)
+  if (!definition || !canAccessVaultDefinition(definition, access)) {
+    throw new VaultRequestError("Vault not found.", 404)
+  }
 }
 
 function throwPrivateEncryptionVaultError(error: unknown): never {
@@ -184,6 +234,7 @@ function throwPrivateEncryptionVaultError(error: unknown): never {
 
 async function readPrivateVaultContent(input: {
   vaultRootPath: string
+  namespace: string
   physicalPath: string
   maxBytes: number
   allowMigration: boolean
@@ -212,6 +263,7 @@ async function readPrivateVaultContent(input: {
         const encrypted = await encryptPrivateVaultContent({
           relativePath: input.physicalPath,
           plaintext,
+          namespace: input.namespace,
         })
         const saved = await writeMarkdownFile(
           input.vaultRootPath,
@@ -261,9 +313,10 @@ async function readVaultContent(input: {
   allowPrivateMigration: boolean
 }): Promise<ResolvedVaultContent> {
   const vaultRootPath = resolveVaultAbsolutePath(input.physicalVaultId)
-  if (isPrivatePhysicalVault(input.physicalVaultId)) {
+  if (isEncryptedPhysicalVault(input.physicalVaultId)) {
     return readPrivateVaultContent({
       vaultRootPath,
+      namespace: getVaultDefinition(input.physicalVaultId).namespace,
       physicalPath: input.physicalPath,
       maxBytes: input.maxBytes,
       allowMigration: input.allowPrivateMigration,
@@ -320,16 +373,8 @@ function buildCatalogFromMap(pathsByVault: Map<PhysicalVaultId, string[]>): Note
   }
 }
 
-async function buildCatalogForScope(scopeVaultId: VaultId): Promise<NoteCatalog> {
-  const physicalVaultIds: PhysicalVaultId[] = []
-  if (scopeVaultId === JOINED_VAULT_ID) {
-    for (const definition of listPhysicalVaultDefinitions()) {
-      physicalVaultIds.push(definition.id)
-    }
-  } else {
-    physicalVaultIds.push(scopeVaultId as PhysicalVaultId)
-  }
-
+async function buildCatalogForScope(scopeVaultId: VaultId, access: VaultAccess | undefined): Promise<NoteCatalog> {
+  const physicalVaultIds = physicalVaultIdsForScope(scopeVaultId, access)
   const pathsByVault = new Map<PhysicalVaultId, string[]>()
   for (const physicalVaultId of physicalVaultIds) {
     const rootPath = resolveVaultAbsolutePath(physicalVaultId)
@@ -344,7 +389,20 @@ async function buildCatalogForScope(scopeVaultId: VaultId): Promise<NoteCatalog>
   return buildCatalogFromMap(pathsByVault)
 }
 
-function resolveRequestedNoteTarget(vaultId: VaultId, notePathInput: string): RequestedNoteTarget {
+function physicalVaultIdsForScope(vaultId: VaultId, access: VaultAccess | undefined): PhysicalVaultId[] {
+  if (vaultId === JOINED_VAULT_ID) {
+    return listPhysicalVaultDefinitions(access).map((definition) => definition.id)
+  }
+
+  assertVaultAccessible(vaultId as PhysicalVaultId, access)
+  return [vaultId as PhysicalVaultId]
+}
+
+function resolveRequestedNoteTarget(
+  vaultId: VaultId,
+  notePathInput: string,
+  access: VaultAccess | undefined,
+): RequestedNoteTarget {
   if (vaultId === JOINED_VAULT_ID) {
     const joinedPath = sanitizeRelativeVaultPath(notePathInput, { requireMarkdown: true })
     const parsed = parseJoinedVaultPath(joinedPath)
@@ -352,6 +410,7 @@ function resolveRequestedNoteTarget(vaultId: VaultId, notePathInput: string): Re
       throw new VaultRequestError("Joined vault note paths must start with a vault namespace.", 400)
     }
 
+    assertVaultAccessible(parsed.vaultId, access)
     const innerPath = sanitizeRelativeVaultPath(parsed.innerPath, { requireMarkdown: true })
     return {
       requestedVaultId: vaultId,
@@ -361,6 +420,7 @@ function resolveRequestedNoteTarget(vaultId: VaultId, notePathInput: string): Re
     }
   }
 
+  assertVaultAccessible(vaultId as PhysicalVaultId, access)
   const path = sanitizeRelativeVaultPath(notePathInput, { requireMarkdown: true })
   return {
     requestedVaultId: vaultId,
@@ -375,6 +435,27 @@ function createTrashPath(physicalPath: string): string {
   return `_trash/${timestamp}/${physicalPath}`
 }
 
+function parseTrashPath(physicalPath: string): { originalPath: string; deletedAt: string | null } | null {
+  const match = /^_trash\/([^/]+)\/(.+)$/i.exec(physicalPath)
+  if (!match) {
+    return null
+  }
+
+  const deletedAt = Date.parse(match[1])
+  return {
+    originalPath: match[2],
+    deletedAt: Number.isFinite(deletedAt) ? new Date(deletedAt).toISOString() : null,
+  }
+}
+
+async function recordRevisionFailOpen(input: VaultNoteRevisionInput): Promise<void> {
+  try {
+    await vaultRevisionRecorderImpl(input)
+  } catch (error) {
+    console.error("Vault note revision recording failed (fail-open):", error)
+  }
+}
+
 async function syncRagMutationFailOpen(args: {
   upsertJoinedPaths?: string[]
   deleteJoinedPaths?: string[]
@@ -471,7 +552,7 @@ export function resolveVaultLinkTarget(input: {
   catalogPathsByVault: Partial<Record<PhysicalVaultId, string[]>>
 }): ResolvedVaultLinkTarget | null {
   const pathsByVault = new Map<PhysicalVaultId, string[]>()
-  for (const definition of listPhysicalVaultDefinitions()) {
+  for (const definition of listPhysicalVaultDefinitions("all")) {
     const entries = input.catalogPathsByVault[definition.id]
     if (entries && entries.length > 0) {
       pathsByVault.set(definition.id, entries)
@@ -593,9 +674,10 @@ function mapGraphNotes(catalog: NoteCatalog, vaultId: VaultId, includeTrash: boo
   return notes
 }
 
-export async function getVaultSummaries(): Promise<VaultSummary[]> {
+export async function getVaultSummaries(access?: VaultAccess): Promise<VaultSummary[]> {
+  await loadVaultRegistry()
   const physicalSummaries: VaultSummary[] = []
-  for (const definition of listPhysicalVaultDefinitions()) {
+  for (const definition of listPhysicalVaultDefinitions(access)) {
     const absolutePath = resolveVaultAbsolutePath(definition.id)
     const exists = await directoryExists(absolutePath)
     const noteCount = exists ? await countMarkdownFiles(absolutePath) : 0
@@ -608,6 +690,8 @@ export async function getVaultSummaries(): Promise<VaultSummary[]> {
       isJoined: false,
       encryptedLabel: definition.encryptedLabel,
       noteCount,
+      namespace: definition.namespace,
+      ...(definition.custom ? { isCustom: true } : {}),
     })
   }
 
@@ -623,11 +707,12 @@ export async function getVaultSummaries(): Promise<VaultSummary[]> {
   return [...physicalSummaries, joinedSummary]
 }
 
-export async function getVaultTree(vaultId: VaultId): Promise<VaultTreeResponse> {
+export async function getVaultTree(vaultId: VaultId, access?: VaultAccess): Promise<VaultTreeResponse> {
+  await loadVaultRegistry()
   if (vaultId === JOINED_VAULT_ID) {
     const joinedTree: VaultTreeNode[] = []
 
-    for (const definition of listPhysicalVaultDefinitions()) {
+    for (const definition of listPhysicalVaultDefinitions(access)) {
       const rootPath = resolveVaultAbsolutePath(definition.id)
       if (!(await directoryExists(rootPath))) {
         continue
@@ -653,6 +738,7 @@ export async function getVaultTree(vaultId: VaultId): Promise<VaultTreeResponse>
   }
 
   const physicalVaultId = vaultId as PhysicalVaultId
+  assertVaultAccessible(physicalVaultId, access)
   const rootPath = resolveVaultAbsolutePath(physicalVaultId)
   if (!(await directoryExists(rootPath))) {
     return {
@@ -673,10 +759,11 @@ export async function getVaultTree(vaultId: VaultId): Promise<VaultTreeResponse>
 export async function getVaultFile(
   vaultId: VaultId,
   notePathInput: string,
-  options: { mode?: VaultFileReadMode } = {},
+  options: { mode?: VaultFileReadMode; access?: VaultAccess } = {},
 ): Promise<VaultFileResponse> {
+  await loadVaultRegistry()
   const mode = options.mode || "preview"
-  const requested = resolveRequestedNoteTarget(vaultId, notePathInput)
+  const requested = resolveRequestedNoteTarget(vaultId, notePathInput, options.access)
   const vaultRootPath = resolveVaultAbsolutePath(requested.physicalVaultId)
   if (!(await directoryExists(vaultRootPath))) {
     throw new VaultRequestError("Vault directory does not exist.", 404)
@@ -703,7 +790,7 @@ export async function getVaultFile(
     throw new VaultRequestError(`Vault note exceeds edit size limit (${EDIT_MAX_BYTES} bytes).`, 413)
   }
 
-  const catalog = await buildCatalogForScope(vaultId)
+  const catalog = await buildCatalogForScope(vaultId, options.access)
   const sourcePathForResponse = requested.requestedPath
   const sourceVaultIdForResponse = requested.requestedVaultId
 
@@ -800,18 +887,34 @@ export async function saveVaultFile(
   vaultId: VaultId,
   notePathInput: string,
   contentInput: string,
+  options: VaultMutationOptions = {},
 ): Promise<VaultSaveResponse> {
-  const requested = resolveRequestedNoteTarget(vaultId, notePathInput)
+  return writeVaultNote(vaultId, notePathInput, contentInput, options)
+}
+
+async function writeVaultNote(
+  vaultId: VaultId,
+  notePathInput: string,
+  contentInput: string,
+  options: VaultMutationOptions,
+  revisionAction?: Extract<VaultNoteRevisionAction, "restore">,
+): Promise<VaultSaveResponse> {
+  await loadVaultRegistry()
+  const requested = resolveRequestedNoteTarget(vaultId, notePathInput, options.access)
   const vaultRootPath = resolveVaultAbsolutePath(requested.physicalVaultId)
+  const existed = await readMarkdownFileWithLimit(vaultRootPath, requested.physicalPath, 0)
+    .then(() => true)
+    .catch(() => false)
 
   let persistContent = contentInput
   let encrypted = false
 
-  if (isPrivatePhysicalVault(requested.physicalVaultId)) {
+  if (isEncryptedPhysicalVault(requested.physicalVaultId)) {
     try {
       const envelope = await encryptPrivateVaultContent({
         relativePath: requested.physicalPath,
         plaintext: contentInput,
+        namespace: getVaultDefinition(requested.physicalVaultId).namespace,
       })
       persistContent = serializePrivateVaultEncryptedEnvelope(envelope)
       encrypted = true
@@ -824,6 +927,14 @@ export async function saveVaultFile(
 
   try {
     const saved = await writeMarkdownFile(vaultRootPath, requested.physicalPath, persistContent)
+    await recordRevisionFailOpen({
+      physicalVaultId: requested.physicalVaultId,
+      physicalPath: requested.physicalPath,
+      action: revisionAction || (existed ? "update" : "create"),
+      storedContent: persistContent,
+      encrypted,
+      author: options.author || SYSTEM_REVISION_AUTHOR,
+    })
     const joinedPath = toJoinedVaultPath(requested.physicalVaultId, requested.physicalPath)
     await syncRagMutationFailOpen({
       upsertJoinedPaths: [joinedPath],
@@ -845,9 +956,26 @@ export async function moveVaultFile(
   vaultId: VaultId,
   fromPathInput: string,
   toPathInput: string,
+  options: VaultMutationOptions = {},
+): Promise<VaultMoveResponse> {
+  return relocateVaultNote(vaultId, fromPathInput, toPathInput, options, "move")
+}
+
+/**
+ * Shared by rename/move, soft delete (into `_trash/`) and trash restore; the
+ * action decides how the revision is recorded. Delete revisions stay on the
+ * original path so the note's history shows the deletion.
+ */
+async function relocateVaultNote(
+  vaultId: VaultId,
+  fromPathInput: string,
+  toPathInput: string,
+  options: VaultMutationOptions,
+  revisionAction: Extract<VaultNoteRevisionAction, "move" | "delete" | "restore">,
 ): Promise<VaultMoveResponse> {
-  const fromTarget = resolveRequestedNoteTarget(vaultId, fromPathInput)
-  const toTarget = resolveRequestedNoteTarget(vaultId, toPathInput)
+  await loadVaultRegistry()
+  const fromTarget = resolveRequestedNoteTarget(vaultId, fromPathInput, options.access)
+  const toTarget = resolveRequestedNoteTarget(vaultId, toPathInput, options.access)
 
   if (fromTarget.physicalVaultId !== toTarget.physicalVaultId) {
     throw new VaultRequestError("Cross-vault move is not allowed.", 400)
@@ -859,7 +987,18 @@ export async function moveVaultFile(
     throw new VaultRequestError("Vault directory does not exist.", 404)
   }
 
-  if (isPrivatePhysicalVault(physicalVaultId)) {
+  const recordRelocation = (storedContent: string, encrypted: boolean) => recordRevisionFailOpen({
+    physicalVaultId,
+    ...(revisionAction === "delete"
+      ? { physicalPath: fromTarget.physicalPath, trashPath: toTarget.physicalPath }
+      : { physicalPath: toTarget.physicalPath, previousPath: fromTarget.physicalPath }),
+    action: revisionAction,
+    storedContent,
+    encrypted,
+    author: options.author || SYSTEM_REVISION_AUTHOR,
+  })
+
+  if (isEncryptedPhysicalVault(physicalVaultId)) {
     const sourceExists = await readMarkdownFile(vaultRootPath, fromTarget.physicalPath).catch(() => null)
     if (!sourceExists) {
       throw new VaultRequestError("Vault note not found.", 404)
@@ -901,6 +1040,7 @@ export async function moveVaultFile(
       const envelope = await encryptPrivateVaultContent({
         relativePath: toTarget.physicalPath,
         plaintext,
+        namespace: getVaultDefinition(physicalVaultId).namespace,
       })
       persistContent = serializePrivateVaultEncryptedEnvelope(envelope)
       encrypted = true
@@ -913,6 +1053,7 @@ export async function moveVaultFile(
     try {
       const saved = await writeMarkdownFile(vaultRootPath, toTarget.physicalPath, persistContent)
       await deleteMarkdownFile(vaultRootPath, fromTarget.physicalPath)
+      await recordRelocation(persistContent, encrypted)
       await syncRagMutationFailOpen({
         upsertJoinedPaths: [toJoinedVaultPath(physicalVaultId, toTarget.physicalPath)],
         deleteJoinedPaths: [toJoinedVaultPath(physicalVaultId, fromTarget.physicalPath)],
@@ -936,6 +1077,10 @@ export async function moveVaultFile(
 
   try {
     const saved = await moveMarkdownFile(vaultRootPath, fromTarget.physicalPath, toTarget.physicalPath)
+    if (fromTarget.physicalPath !== toTarget.physicalPath) {
+      const stored = await readMarkdownFile(vaultRootPath, toTarget.physicalPath)
+      await recordRelocation(stored.content, false)
+    }
     await syncRagMutationFailOpen({
       upsertJoinedPaths: [toJoinedVaultPath(physicalVaultId, toTarget.physicalPath)],
       deleteJoinedPaths: [toJoinedVaultPath(physicalVaultId, fromTarget.physicalPath)],
@@ -965,8 +1110,10 @@ export async function deleteVaultFile(
   vaultId: VaultId,
   notePathInput: string,
   mode: VaultDeleteMode = "soft",
+  options: VaultMutationOptions = {},
 ): Promise<VaultDeleteResponse> {
-  const requested = resolveRequestedNoteTarget(vaultId, notePathInput)
+  await loadVaultRegistry()
+  const requested = resolveRequestedNoteTarget(vaultId, notePathInput, options.access)
   const vaultRootPath = resolveVaultAbsolutePath(requested.physicalVaultId)
 
   if (!(await directoryExists(vaultRootPath))) {
@@ -976,7 +1123,7 @@ export async function deleteVaultFile(
   if (mode === "soft") {
     const trashPhysicalPath = createTrashPath(requested.physicalPath)
     const trashScopedPath = toScopedPath(vaultId, requested.physicalVaultId, trashPhysicalPath)
-    await moveVaultFile(vaultId, requested.requestedPath, trashScopedPath)
+    await relocateVaultNote(vaultId, requested.requestedPath, trashScopedPath, options, "delete")
 
     return {
       vaultId,
@@ -988,7 +1135,16 @@ export async function deleteVaultFile(
   }
 
   try {
+    const stored = await readMarkdownFile(vaultRootPath, requested.physicalPath)
     await deleteMarkdownFile(vaultRootPath, requested.physicalPath)
+    await recordRevisionFailOpen({
+      physicalVaultId: requested.physicalVaultId,
+      physicalPath: requested.physicalPath,
+      action: "delete",
+      storedContent: stored.content,
+      encrypted: Boolean(parsePrivateVaultEncryptedEnvelope(stored.content)),
+      author: options.author || SYSTEM_REVISION_AUTHOR,
+    })
     await syncRagMutationFailOpen({
       deleteJoinedPaths: [toJoinedVaultPath(requested.physicalVaultId, requested.physicalPath)],
     })
@@ -1004,29 +1160,238 @@ export async function deleteVaultFile(
   }
 }
 
-async function searchVaultNotesLexical(vaultId: VaultId, queryInput: string): Promise<VaultSearchResponse> {
-  const query = queryInput.trim()
-  const catalog = await buildCatalogForScope(vaultId)
+async function loadScopedRevision(
+  vaultId: VaultId,
+  revisionId: string,
+  access: VaultAccess | undefined,
+): Promise<VaultNoteRevision> {
+  await loadVaultRegistry()
+  const revision = await findVaultNoteRevision(revisionId)
+  if (!revision || !physicalVaultIdsForScope(vaultId, access).includes(revision.physicalVaultId as PhysicalVaultId)) {
+    throw new VaultRequestError("Vault note revision not found.", 404)
+  }
+  return revision
+}
 
-  if (catalog.entriesByVault.size === 0) {
-    return {
-      vaultId,
-      exists: false,
-      results: [],
+async function revisionPlaintext(revision: VaultNoteRevision): Promise<string> {
+  const envelope = revision.encrypted ? parsePrivateVaultEncryptedEnvelope(revision.content) : null
+  if (!envelope) {
+    return revision.content
+  }
+
+  try {
+    return await decryptPrivateVaultContent({ envelope })
+  } catch (error) {
+    throwPrivateEncryptionVaultError(error)
+  }
+}
+
+export async function getVaultFileHistory(
+  vaultId: VaultId,
+  notePathInput: string,
+  access?: VaultAccess,
+): Promise<VaultNoteHistoryResponse> {
+  await loadVaultRegistry()
+  const requested = resolveRequestedNoteTarget(vaultId, notePathInput, access)
+  const revisions = await listVaultNoteRevisions({
+    physicalVaultId: requested.physicalVaultId,
+    physicalPath: requested.physicalPath,
+    limit: REVISION_HISTORY_LIMIT,
+  })
+
+  return {
+    vaultId,
+    path: requested.requestedPath,
+    revisions: revisions.map((revision) => serializeVaultNoteRevision(
+      revision,
+      (physicalPath) => toScopedPath(vaultId, requested.physicalVaultId, physicalPath),
+    )),
+    originVaultId: requested.physicalVaultId,
+  }
+}
+
+export async function getVaultFileRevision(
+  vaultId: VaultId,
+  revisionId: string,
+  access?: VaultAccess,
+): Promise<VaultNoteRevisionResponse> {
+  const revision = await loadScopedRevision(vaultId, revisionId, access)
+  const physicalVaultId = revision.physicalVaultId as PhysicalVaultId
+
+  return {
+    vaultId,
+    revision: serializeVaultNoteRevision(
+      revision,
+      (physicalPath) => toScopedPath(vaultId, physicalVaultId, physicalPath),
+    ),
+    content: await revisionPlaintext(revision),
+  }
+}
+
+/** Diffs a revision against a later revision, or against the note as it is now (`"current"`). */
+export async function diffVaultFileRevisions(
+  vaultId: VaultId,
+  fromRevisionId: string,
+  toRevisionId: string | "current" = "current",
+  access?: VaultAccess,
+): Promise<VaultNoteDiffResponse> {
+  const fromRevision = await loadScopedRevision(vaultId, fromRevisionId, access)
+  const physicalVaultId = fromRevision.physicalVaultId as PhysicalVaultId
+  const before = await revisionPlaintext(fromRevision)
+
+  let after = ""
+  let path = toScopedPath(vaultId, physicalVaultId, fromRevision.physicalPath)
+  if (toRevisionId === "current") {
+    const current = await readVaultContent({
+      physicalVaultId,
+      physicalPath: fromRevision.physicalPath,
+      maxBytes: EDIT_MAX_BYTES,
+      allowPrivateMigration: false,
+    }).catch((error) => {
+      if (error instanceof VaultRequestError) {
+        throw error
+      }
+      return null
+    })
+    after = current?.content || ""
+  } else {
+    const toRevision = await loadScopedRevision(vaultId, toRevisionId, access)
+    after = await revisionPlaintext(toRevision)
+    path = toScopedPath(vaultId, toRevision.physicalVaultId as PhysicalVaultId, toRevision.physicalPath)
+  }
+
+  return {
+    vaultId,
+    path,
+    fromRevisionId,
+    toRevisionId,
+    ...diffVaultNoteLines(before, after),
+  }
+}
+
+/**
+ * Writes a revision's content back to the path it was recorded at. Restoring
+ * a soft-delete revision also clears the matching `_trash/` copy.
+ */
+export async function restoreVaultFileRevision(
+  vaultId: VaultId,
+  revisionId: string,
+  options: VaultMutationOptions = {},
+): Promise<VaultRestoreResponse> {
+  const revision = await loadScopedRevision(vaultId, revisionId, options.access)
+  const physicalVaultId = revision.physicalVaultId as PhysicalVaultId
+  const plaintext = await revisionPlaintext(revision)
+
+  const saved = await writeVaultNote(
+    vaultId,
+    toScopedPath(vaultId, physicalVaultId, revision.physicalPath),
+    plaintext,
+    options,
+    "restore",
+  )
+
+  if (revision.action === "delete" && revision.trashPath) {
+    const vaultRootPath = resolveVaultAbsolutePath(physicalVaultId)
+    const removed = await deleteMarkdownFile(vaultRootPath, revision.trashPath).then(() => true).catch(() => false)
+    if (removed) {
+      await syncRagMutationFailOpen({
+        deleteJoinedPaths: [toJoinedVaultPath(physicalVaultId, revision.trashPath)],
+      })
     }
   }
 
-  if (!query) {
-    return {
-      vaultId,
-      exists: true,
-      results: [],
+  return {
+    ...saved,
+    restoredFrom: { revisionId },
+  }
+}
+
+export async function listVaultTrash(vaultId: VaultId, access?: VaultAccess): Promise<VaultTrashResponse> {
+  await loadVaultRegistry()
+  const entries: VaultTrashEntry[] = []
+
+  for (const physicalVaultId of physicalVaultIdsForScope(vaultId, access)) {
+    const rootPath = resolveVaultAbsolutePath(physicalVaultId)
+    if (!(await directoryExists(rootPath))) {
+      continue
+    }
+
+    for (const physicalPath of await collectMarkdownFilePaths(rootPath)) {
+      const parsed = isTrashPath(physicalPath) ? parseTrashPath(physicalPath) : null
+      if (!parsed) {
+        continue
+      }
+
+      entries.push({
+        trashPath: toScopedPath(vaultId, physicalVaultId, physicalPath),
+        originalPath: toScopedPath(vaultId, physicalVaultId, parsed.originalPath),
+        deletedAt: parsed.deletedAt,
+        originVaultId: physicalVaultId,
+      })
     }
   }
 
-  const lowerQuery = query.toLowerCase()
-  const results: VaultSearchResponse["results"] = []
+  entries.sort((left, right) => (right.deletedAt || "").localeCompare(left.deletedAt || ""))
+  return {
+    vaultId,
+    entries,
+  }
+}
 
+export async function restoreVaultTrashEntry(
+  vaultId: VaultId,
+  trashPathInput: string,
+  options: VaultMutationOptions = {},
+): Promise<VaultRestoreResponse> {
+  await loadVaultRegistry()
+  const requested = resolveRequestedNoteTarget(vaultId, trashPathInput, options.access)
+  const parsed = isTrashPath(requested.physicalPath) ? parseTrashPath(requested.physicalPath) : null
+  if (!parsed) {
+    throw new VaultRequestError("Path is not a vault trash entry.", 400)
+  }
+
+  const moved = await relocateVaultNote(
+    vaultId,
+    requested.requestedPath,
+    toScopedPath(vaultId, requested.physicalVaultId, parsed.originalPath),
+    options,
+    "restore",
+  )
+
+  return {
+    vaultId,
+    path: moved.toPath,
+    size: moved.size,
+    mtime: moved.mtime,
+    encrypted: moved.encrypted,
+    originVaultId: moved.originVaultId,
+    restoredFrom: { trashPath: requested.requestedPath },
+  }
+}
+
+interface ScannedVaultNote {
+  physicalVaultId: PhysicalVaultId
+  physicalPath: string
+  title: string
+  content: string
+  properties: VaultNoteProperties
+}
+
+/**
+ * Notes in scope matching the free text (path, title or body) and every
+ * property filter. An empty query matches nothing unless `matchAll` is set.
+ */
+async function scanVaultNotes(
+  catalog: NoteCatalog,
+  query: VaultPropertyQuery,
+  options: { limit: number; matchAll?: boolean; requireProperties?: boolean },
+): Promise<{ notes: ScannedVaultNote[]; truncated: boolean }> {
+  const lowerText = query.text.toLowerCase()
+  if (!lowerText && query.filters.length === 0 && !options.matchAll) {
+    return { notes: [], truncated: false }
+  }
+
+  const notes: ScannedVaultNote[] = []
   for (const [physicalVaultId, paths] of catalog.entriesByVault.entries()) {
     for (const physicalPath of paths) {
       let content = ""
@@ -1042,29 +1407,60 @@ async function searchVaultNotesLexical(vaultId: VaultId, queryInput: string): Pr
         continue
       }
 
-      const title = basename(physicalPath, ".md")
-      const searchablePath = physicalPath.toLowerCase()
-      const searchableTitle = title.toLowerCase()
-      const searchableContent = content.toLowerCase()
+      const { properties } = parseVaultFrontmatter(content)
+      if (options.requireProperties && Object.keys(properties).length === 0) {
+        continue
+      }
+      if (!matchesVaultPropertyFilters(properties, query.filters)) {
+        continue
+      }
 
+      const title = basename(physicalPath, ".md")
       if (
-        !searchablePath.includes(lowerQuery)
-        && !searchableTitle.includes(lowerQuery)
-        && !searchableContent.includes(lowerQuery)
+        lowerText
+        && !physicalPath.toLowerCase().includes(lowerText)
+        && !title.toLowerCase().includes(lowerText)
+        && !content.toLowerCase().includes(lowerText)
       ) {
         continue
       }
 
-      results.push({
-        vaultId,
-        path: toScopedPath(vaultId, physicalVaultId, physicalPath),
-        title,
-        excerpt: createExcerpt(content, query),
-        originVaultId: physicalVaultId,
-      })
+      notes.push({ physicalVaultId, physicalPath, title, content, properties })
+      if (notes.length > options.limit) {
+        return { notes: notes.slice(0, options.limit), truncated: true }
+      }
     }
   }
 
+  return { notes, truncated: false }
+}
+
+async function searchVaultNotesLexical(
+  vaultId: VaultId,
+  queryInput: string,
+  access: VaultAccess | undefined,
+): Promise<VaultSearchResponse> {
+  const query = parseVaultPropertyQuery(queryInput)
+  const catalog = await buildCatalogForScope(vaultId, access)
+
+  if (catalog.entriesByVault.size === 0) {
+    return {
+      vaultId,
+      exists: false,
+      results: [],
+    }
+  }
+
+  const { notes } = await scanVaultNotes(catalog, query, { limit: Number.POSITIVE_INFINITY })
+  const results: VaultSearchResponse["results"] = notes.map((note) => ({
+    vaultId,
+    path: toScopedPath(vaultId, note.physicalVaultId, note.physicalPath),
+    title: note.title,
+    excerpt: createExcerpt(query.filters.length > 0 ? parseVaultFrontmatter(note.content).body : note.content, query.text),
+    originVaultId: note.physicalVaultId,
+    ...(query.filters.length > 0 ? { properties: note.properties } : {}),
+  }))
+
   results.sort((a, b) => a.path.localeCompare(b.path))
 
   return {
@@ -1074,19 +1470,80 @@ async function searchVaultNotesLexical(vaultId: VaultId, queryInput: string): Pr
   }
 }
 
+/**
+ * Notes matching a property query (for example `tag:incident service:payments`)
+ * with their frontmatter, for the vault table view.
+ */
+export async function queryVaultNoteProperties(
+  vaultId: VaultId,
+  queryInput: string,
+  options: { access?: VaultAccess } = {},
+): Promise<VaultPropertyTableResponse> {
+  await loadVaultRegistry()
+  const query = parseVaultPropertyQuery(queryInput)
+  const catalog = await buildCatalogForScope(vaultId, options.access)
+  if (catalog.entriesByVault.size === 0) {
+    return {
+      vaultId,
+      exists: false,
+      query: queryInput,
+      columns: [],
+      rows: [],
+      truncated: false,
+    }
+  }
+
+  const { notes, truncated } = await scanVaultNotes(catalog, query, {
+    limit: PROPERTY_TABLE_MAX_ROWS,
+    matchAll: true,
+    requireProperties: true,
+  })
+
+  const columnCounts = new Map<string, number>()
+  const rows: VaultPropertyTableRow[] = notes
+    .map((note) => {
+      for (const key of Object.keys(note.properties)) {
+        columnCounts.set(key, (columnCounts.get(key) || 0) + 1)
+      }
+      return {
+        path: toScopedPath(vaultId, note.physicalVaultId, note.physicalPath),
+        title: note.title,
+        originVaultId: note.physicalVaultId,
+        properties: note.properties,
+      }
+    })
+    .sort((left, right) => left.path.localeCompare(right.path))
+
+  return {
+    vaultId,
+    exists: true,
+    query: queryInput,
+    columns: [...columnCounts.entries()]
+      .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+      .map(([key]) => key),
+    rows,
+    truncated,
+  }
+}
+
 export async function searchVaultNotes(
   vaultId: VaultId,
   queryInput: string,
   options: {
     mode?: VaultRagQueryMode
     k?: number
+    access?: VaultAccess
   } = {},
 ): Promise<VaultSearchResponse> {
+  await loadVaultRegistry()
   const mode = options.mode || "hybrid"
   const k = options.k
+  if (vaultId !== JOINED_VAULT_ID) {
+    assertVaultAccessible(vaultId as PhysicalVaultId, options.access)
+  }
 
   if (!queryInput.trim()) {
-    const lexicalEmpty = await searchVaultNotesLexical(vaultId, queryInput)
+    const lexicalEmpty = await searchVaultNotesLexical(vaultId, queryInput, options.access)
     return {
       ...lexicalEmpty,
       mode,
@@ -1094,12 +1551,24 @@ export async function searchVaultNotes(
     }
   }
 
+  // Property filters without free text have nothing to rank semantically.
+  if (!parseVaultPropertyQuery(queryInput).text) {
+    const filtered = await searchVaultNotesLexical(vaultId, queryInput, options.access)
+    return {
+      ...filtered,
+      mode: "lexical",
+      fallbackUsed: false,
+      results: filtered.results.slice(0, Math.max(1, Math.min(100, k || 100))),
+    }
+  }
+
   try {
     const rag = await searchVaultRagNotes({
       query: queryInput,
       vaultId,
       mode,
       k,
+      access: options.access,
     })
 
     if (rag.results.length > 0) {
@@ -1118,6 +1587,7 @@ export async function searchVaultNotes(
           scopeType: result.scopeType,
           shipDeploymentId: result.shipDeploymentId,
           citations: result.citations,
+          ...(result.properties ? { properties: result.properties } : {}),
         })),
       }
     }
@@ -1125,7 +1595,7 @@ export async function searchVaultNotes(
     console.error("Vault hybrid search failed, falling back to lexical scan:", error)
   }
 
-  const lexical = await searchVaultNotesLexical(vaultId, queryInput)
+  const lexical = await searchVaultNotesLexical(vaultId, queryInput, options.access)
   return {
     ...lexical,
     mode: "lexical",
@@ -1142,14 +1612,16 @@ export async function getVaultGraph(
     includeUnresolved?: boolean
     includeTrash?: boolean
     query?: string
+    access?: VaultAccess
   } = {},
 ): Promise<VaultGraphResponse> {
+  await loadVaultRegistry()
   const includeUnresolved = options.includeUnresolved ?? true
   const includeTrash = options.includeTrash ?? false
   const query = (options.query || "").trim()
   const depth = clampGraphDepth(options.depth)
 
-  const catalog = await buildCatalogForScope(vaultId)
+  const catalog = await buildCatalogForScope(vaultId, options.access)
   const allNotes = mapGraphNotes(catalog, vaultId, includeTrash)
 
   if (allNotes.length === 0) {
@@ -1174,7 +1646,7 @@ export async function getVaultGraph(
     }
   }
 
-  const focusTarget = options.focusPath ? resolveRequestedNoteTarget(vaultId, options.focusPath) : null
+  const focusTarget = options.focusPath ? resolveRequestedNoteTarget(vaultId, options.focusPath, options.access) : null
   const focusScopedPath = focusTarget
     ? toScopedPath(vaultId, focusTarget.physicalVaultId, focusTarget.physicalPath)
     : null
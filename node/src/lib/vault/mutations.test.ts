@@ -5,12 +5,16 @@ import { join } from "node:path"
 import { tmpdir } from "node:os"
 import {
   __setVaultRagMutationSyncForTests,
+  __setVaultRevisionRecorderForTests,
   deleteVaultFile,
+  getVaultTree,
   moveVaultFile,
   saveVaultFile,
   VaultRequestError,
 } from "./index"
+import { __setVaultRegistryLoaderForTests } from "./registry"
 import { parsePrivateVaultEncryptedEnvelope } from "./private-encryption"
+import type { VaultNoteRevisionInput } from "./revisions"
 
 interface TempVaultRepo {
   root: string
@@ -349,3 +353,145 @@ test("moveVaultFile re-encrypts private notes with destination path context", as
     await repo.cleanup()
   }
 })
+
+test("vault mutations record revisions with action and author", async () => {
+  const repo = await setupTempVaultRepo()
+  const restoreEnv = applyEnv({
+    VAULT_REPO_ROOT: repo.root,
+  })
+
+  const revisions: VaultNoteRevisionInput[] = []
+  __setVaultRevisionRecorderForTests(async (input) => {
+    revisions.push(input)
+  })
+
+  const author = { type: "user" as const, userId: "user-1" }
+  try {
+    await saveVaultFile("ship", "notes/log.md", "# Log", { author })
+    await saveVaultFile("ship", "notes/log.md", "# Log\n\nupdated", {
+      author: { type: "subagent", subagentId: "agent-1", userId: "user-1" },
+    })
+    await moveVaultFile("ship", "notes/log.md", "notes/renamed.md", { author })
+    const deleted = await deleteVaultFile("ship", "notes/renamed.md", "soft", { author })
+
+    assert.deepEqual(revisions.map((revision) => revision.action), ["create", "update", "move", "delete"])
+    assert.deepEqual(revisions[1].author, { type: "subagent", subagentId: "agent-1", userId: "user-1" })
+    assert.equal(revisions[2].physicalPath, "notes/renamed.md")
+    assert.equal(revisions[2].previousPath, "notes/log.md")
+    assert.equal(revisions[3].physicalPath, "notes/renamed.md")
+    assert.equal(revisions[3].trashPath, deleted.deletedPath)
+    assert.equal(revisions[3].storedContent, "# Log\n\nupdated")
+    assert.equal(revisions.every((revision) => revision.encrypted === false), true)
+  } finally {
+    __setVaultRevisionRecorderForTests(null)
+    restoreEnv()
+    await repo.cleanup()
+  }
+})
+
+test("deleteVaultFile hard mode records the removed content and defaults to system author", async () => {
+  const repo = await setupTempVaultRepo()
+  const restoreEnv = applyEnv({
+    VAULT_REPO_ROOT: repo.root,
+  })
+
+  const revisions: VaultNoteRevisionInput[] = []
+  __setVaultRevisionRecorderForTests(async (input) => {
+    revisions.push(input)
+  })
+
+  try {
+    await saveVaultFile("orchwiz", "gone.md", "# Gone")
+    await deleteVaultFile("orchwiz", "gone.md", "hard")
+
+    assert.equal(revisions.length, 2)
+    assert.equal(revisions[1].action, "delete")
+    assert.equal(revisions[1].storedContent, "# Gone")
+    assert.equal(revisions[1].trashPath, undefined)
+    assert.deepEqual(revisions[1].author, { type: "system" })
+  } finally {
+    __setVaultRevisionRecorderForTests(null)
+    restoreEnv()
+    await repo.cleanup()
+  }
+})
+
+test("vault mutations succeed when revision recording fails", async () => {
+  const repo = await setupTempVaultRepo()
+  const restoreEnv = applyEnv({
+    VAULT_REPO_ROOT: repo.root,
+  })
+
+  __setVaultRevisionRecorderForTests(async () => {
+    throw new Error("database unavailable")
+  })
+
+  try {
+    const saved = await saveVaultFile("ship", "notes/resilient.md", "# Still saved")
+    assert.equal(saved.path, "notes/resilient.md")
+    assert.equal(
+      await readFile(join(repo.root, "Ship-Vault", "notes", "resilient.md"), "utf8"),
+      "# Still saved",
+    )
+  } finally {
+    __setVaultRevisionRecorderForTests(null)
+    restoreEnv()
+    await repo.cleanup()
+  }
+})
+
+test("custom vaults are reachable only with matching access", async () => {
+  const repo = await setupTempVaultRepo()
+  const restoreEnv = applyEnv({
+    VAULT_REPO_ROOT: repo.root,
+    VAULT_CUSTOM_ROOTS: undefined,
+  })
+
+  __setVaultRegistryLoaderForTests(async () => [
+    {
+      id: "reg-1",
+      ownerUserId: "user-1",
+      shipDeploymentId: "ship-1",
+      namespace: "research",
+      label: "Research",
+      rootPath: "research",
+      isPrivate: false,
+      encrypted: false,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ])
+
+  const owner = { userId: "user-1", shipDeploymentIds: [] }
+  const shipOwner = { userId: "user-2", shipDeploymentIds: ["ship-1"] }
+  const stranger = { userId: "user-3", shipDeploymentIds: [] }
+
+  try {
+    const saved = await saveVaultFile("joined", "research/notes/first.md", "# First", { access: owner })
+    assert.equal(saved.originVaultId, "custom:research")
+    assert.equal(
+      await readFile(join(repo.root, "Custom-Vaults", "research", "notes", "first.md"), "utf8"),
+      "# First",
+    )
+
+    const shipTree = await getVaultTree("joined", shipOwner)
+    assert.equal(shipTree.tree.some((node) => node.path === "research"), true)
+
+    const strangerTree = await getVaultTree("joined", stranger)
+    assert.equal(strangerTree.tree.some((node) => node.path === "research"), false)
+
+    await assert.rejects(
+      () => saveVaultFile("custom:research", "notes/second.md", "# Second", { access: stranger }),
+      (error: unknown) => error instanceof VaultRequestError && error.status === 404,
+    )
+    await assert.rejects(
+      () => saveVaultFile("custom:research", "notes/second.md", "# Second"),
+      (error: unknown) => error instanceof VaultRequestError && error.status === 404,
+    )
+  } finally {
+    __setVaultRegistryLoaderForTests(null)
+    restoreEnv()
+    await repo.cleanup()
+  }
+})
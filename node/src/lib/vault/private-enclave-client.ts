@@ -52,6 +52,8 @@ function fromBase64(payload: string): string {
 export async function encryptPrivateVaultContent(args: {
   relativePath: string
   plaintext: string
+  /** Vault namespace bound into the envelope context; defaults to `agent-private`. */
+  namespace?: string
   enclaveUrl?: string
 }): Promise<PrivateVaultEncryptedEnvelope> {
   const mustEncrypt = privateMemoryEncryptionRequired()
@@ -63,7 +65,7 @@ export async function encryptPrivateVaultContent(args: {
   }
 
   try {
-    const context = buildPrivateVaultEncryptionContext(args.relativePath)
+    const context = buildPrivateVaultEncryptionContext(args.relativePath, args.namespace)
     const encrypted = await encryptWithWalletEnclave({
       context,
       plaintextB64: toBase64(args.plaintext),
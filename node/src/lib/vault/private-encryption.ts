@@ -23,8 +23,8 @@ function asNonEmptyString(value: unknown): string | null {
   return trimmed.length > 0 ? trimmed : null
 }
 
-export function buildPrivateVaultEncryptionContext(relativePath: string): string {
-  return `vault:agent-private:${relativePath}`
+export function buildPrivateVaultEncryptionContext(relativePath: string, namespace = "agent-private"): string {
+  return `vault:${namespace}:${relativePath}`
 }
 
 export function parsePrivateVaultEncryptedEnvelope(markdown: string): PrivateVaultEncryptedEnvelope | null {
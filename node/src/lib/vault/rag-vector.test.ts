@@ -0,0 +1,92 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { Prisma } from "@prisma/client"
+import {
+  searchVaultRagChunkVectors,
+  toPgVectorLiteral,
+  vaultRagVectorScopeSql,
+  vaultRagVectorSearchMode,
+} from "./rag-vector"
+
+test("toPgVectorLiteral formats finite vectors and rejects invalid ones", () => {
+  assert.equal(toPgVectorLiteral([0.5, -1, 2e-7]), "[0.5,-1,2e-7]")
+  assert.throws(() => toPgVectorLiteral([]))
+  assert.throws(() => toPgVectorLiteral([1, Number.NaN]))
+})
+
+test("vaultRagVectorScopeSql mirrors ship, fleet and all scope selection", () => {
+  assert.equal(vaultRagVectorScopeSql({ scope: "all" }).sql, "TRUE")
+  assert.equal(vaultRagVectorScopeSql({ scope: "fleet", shipDeploymentId: "ship-1" }).sql, `c."scopeType" = 'fleet'`)
+  assert.equal(vaultRagVectorScopeSql({ scope: "ship" }).sql, "FALSE")
+
+  const ship = vaultRagVectorScopeSql({ scope: "ship", shipDeploymentId: "ship-1" })
+  assert.equal(ship.sql, `c."scopeType" = 'ship' AND c."shipDeploymentId" = ?`)
+  assert.deepEqual(ship.values, ["ship-1"])
+})
+
+test("vaultRagVectorSearchMode defaults to pgvector", () => {
+  assert.equal(vaultRagVectorSearchMode({ NODE_ENV: "test" } as NodeJS.ProcessEnv), "pgvector")
+  assert.equal(
+    vaultRagVectorSearchMode({ NODE_ENV: "test", VAULT_RAG_VECTOR_SEARCH: "in-process" } as NodeJS.ProcessEnv),
+    "in-process",
+  )
+})
+
+test("searchVaultRagChunkVectors filters inside an iterative HNSW scan", async () => {
+  const globalAny = globalThis as any
+  const previousPrisma = globalAny.prisma
+  const statements: Prisma.Sql[] = []
+  const tx = {
+    $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      statements.push(Prisma.sql(strings, ...values))
+      return 1
+    },
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      statements.push(Prisma.sql(strings, ...values))
+      return [{ id: "chunk-2", distance: 0.25 }]
+    },
+  }
+  let transactions = 0
+  globalAny.prisma = {
+    $transaction: async (run: (client: typeof tx) => Promise<unknown>) => {
+      transactions += 1
+      return run(tx)
+    },
+  }
+
+  try {
+    const hits = await searchVaultRagChunkVectors({
+      vector: [0.1, 0.2, 0.3],
+      model: "text-embedding-3-small",
+      pathPrefixes: ["ship/"],
+      documentIds: ["doc-2"],
+      scope: "ship",
+      shipDeploymentId: "ship-1",
+      limit: 200,
+    })
+
+    assert.deepEqual(hits, [{ chunkId: "chunk-2", similarity: 0.75 }])
+    assert.equal(transactions, 1)
+    assert.equal(statements.length, 3)
+    assert.match(statements[0].sql, /set_config\('hnsw\.iterative_scan', 'strict_order', true\)/)
+    assert.match(statements[1].sql, /set_config\('hnsw\.ef_search', \?, true\)/)
+    assert.deepEqual(statements[1].values, ["200"])
+
+    const [, , search] = statements
+    assert.match(search.sql, /c\."embeddingModel" = \?/)
+    assert.match(search.sql, /c\."joinedPath" LIKE ANY\(\?::text\[\]\)/)
+    assert.match(search.sql, /c\."documentId" = ANY\(\?::text\[\]\)/)
+    assert.match(search.sql, /c\."scopeType" = 'ship' AND c\."shipDeploymentId" = \?/)
+    assert.deepEqual(search.values, [
+      "[0.1,0.2,0.3]",
+      "text-embedding-3-small",
+      ["ship/%"],
+      ["doc-2"],
+      "ship-1",
+      "[0.1,0.2,0.3]",
+      200,
+    ])
+  } finally {
+    globalAny.prisma = previousPrisma
+  }
+})
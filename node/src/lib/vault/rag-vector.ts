@@ -0,0 +1,129 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import type { VaultKnowledgeScope } from "./rag"
+
+export type VaultRagVectorSearch = "pgvector" | "in-process"
+
+export interface VaultRagVectorHit {
+  chunkId: string
+  similarity: number
+}
+
+/**
+ * Dimensions with a partial HNSW index (see the `vault_rag_pgvector`
+ * migration). Other widths still work but fall back to an exact scan.
+ */
+export const VAULT_RAG_INDEXED_DIMENSIONS = [384, 768, 1024, 1536] as const
+
+const MAX_PGVECTOR_DIMENSIONS = 16_000
+
+// pgvector's default and maximum for `hnsw.ef_search`.
+const MIN_HNSW_EF_SEARCH = 40
+const MAX_HNSW_EF_SEARCH = 1000
+
+function asPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || "", 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback
+  }
+  return parsed
+}
+
+export function vaultRagVectorSearchMode(env: NodeJS.ProcessEnv = process.env): VaultRagVectorSearch {
+  const raw = env.VAULT_RAG_VECTOR_SEARCH?.trim().toLowerCase()
+  return raw === "in-process" ? "in-process" : "pgvector"
+}
+
+export function vaultRagVectorCandidateLimit(env: NodeJS.ProcessEnv = process.env): number {
+  return asPositiveInt(env.VAULT_RAG_VECTOR_CANDIDATE_LIMIT, 200)
+}
+
+/** pgvector text input format; rejects vectors that cannot be cast safely. */
+export function toPgVectorLiteral(vector: number[]): string {
+  if (vector.length === 0 || vector.length > MAX_PGVECTOR_DIMENSIONS || !vector.every(Number.isFinite)) {
+    throw new Error("Embedding vector cannot be stored as pgvector")
+  }
+
+  return `[${vector.join(",")}]`
+}
+
+/** SQL twin of the in-process `scopeMatchesSelection` filter. */
+export function vaultRagVectorScopeSql(args: {
+  scope: VaultKnowledgeScope
+  shipDeploymentId?: string
+}): Prisma.Sql {
+  if (args.scope === "all") {
+    return Prisma.sql`TRUE`
+  }
+
+  if (args.scope === "fleet") {
+    return Prisma.sql`c."scopeType" = 'fleet'`
+  }
+
+  if (!args.shipDeploymentId) {
+    return Prisma.sql`FALSE`
+  }
+
+  return Prisma.sql`c."scopeType" = 'ship' AND c."shipDeploymentId" = ${args.shipDeploymentId}`
+}
+
+/**
+ * Nearest chunks by cosine distance. The width is inlined as a literal so the
+ * planner can match the partial HNSW index for that dimension. The model,
+ * vault path, scope and document predicates are applied to the index scan's
+ * output, so the scan runs iteratively (pgvector 0.8+) until `limit` rows pass
+ * them instead of stopping after the first `ef_search` candidates.
+ */
+export async function searchVaultRagChunkVectors(args: {
+  vector: number[]
+  model: string
+  /** Joined-path prefixes of the vaults the caller may read; chunks outside them never match. */
+  pathPrefixes: string[]
+  /** Restricts hits to these documents (property-filtered queries); null for no restriction. */
+  documentIds?: string[] | null
+  scope: VaultKnowledgeScope
+  shipDeploymentId?: string
+  limit: number
+}): Promise<VaultRagVectorHit[]> {
+  const dimensions = Prisma.raw(String(args.vector.length))
+  const queryVector = toPgVectorLiteral(args.vector)
+  const pathFilter = Prisma.sql`c."joinedPath" LIKE ANY(${args.pathPrefixes.map((prefix) => `${prefix}%`)}::text[])`
+  const documentFilter = args.documentIds
+    ? Prisma.sql`c."documentId" = ANY(${args.documentIds}::text[])`
+    : Prisma.sql`TRUE`
+
+  const efSearch = Math.min(MAX_HNSW_EF_SEARCH, Math.max(MIN_HNSW_EF_SEARCH, args.limit))
+
+  const rows = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT set_config('hnsw.iterative_scan', 'strict_order', true)`
+    await tx.$executeRaw`SELECT set_config('hnsw.ef_search', ${String(efSearch)}, true)`
+    return tx.$queryRaw<Array<{ id: string; distance: number }>>`
+      SELECT c."id", c."embeddingVector"::vector(${dimensions}) <=> ${queryVector}::vector(${dimensions}) AS "distance"
+      FROM "VaultRagChunk" c
+      WHERE c."embeddingVector" IS NOT NULL
+        AND c."embeddingModel" = ${args.model}
+        AND c."embeddingDimensions" = ${dimensions}
+        AND ${pathFilter}
+        AND ${documentFilter}
+        AND ${vaultRagVectorScopeSql(args)}
+      ORDER BY c."embeddingVector"::vector(${dimensions}) <=> ${queryVector}::vector(${dimensions})
+      LIMIT ${args.limit}
+    `
+  })
+
+  return rows.map((row) => ({
+    chunkId: row.id,
+    similarity: 1 - Number(row.distance),
+  }))
+}
+
+/** Copies the JSON embeddings of a document's chunks into the pgvector column. */
+export async function syncVaultRagChunkVectors(documentId: string): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE "VaultRagChunk"
+    SET "embeddingVector" = ("embedding"::text)::vector
+    WHERE "documentId" = ${documentId}
+      AND "embedding" IS NOT NULL
+      AND jsonb_typeof("embedding") = 'array'
+  `
+}
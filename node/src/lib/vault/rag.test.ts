@@ -1,8 +1,10 @@
 import test from "node:test"
 import assert from "node:assert/strict"
 import {
+  chunkExtractedDocumentForRag,
   chunkMarkdownForRag,
   classifyVaultRagScope,
+  formatVaultRagAnchor,
   rankVaultRagCandidate,
 } from "./rag"
 
@@ -30,6 +32,38 @@ test("chunkMarkdownForRag is deterministic for same markdown input", () => {
   assert.ok(first.length >= 2)
 })
 
+test("chunkMarkdownForRag anchors chunks to their source lines", () => {
+  const chunks = chunkMarkdownForRag("# Readiness\n\nRun diagnostics\nand verify comms.\n\nLog issues.")
+
+  assert.deepEqual(chunks.map((chunk) => chunk.anchor), [
+    { lineStart: 3, lineEnd: 4 },
+    { lineStart: 6, lineEnd: 6 },
+  ])
+})
+
+test("chunkExtractedDocumentForRag packs adjacent line blocks and keeps page anchors apart", () => {
+  const chunks = chunkExtractedDocumentForRag({
+    sections: [
+      { heading: null, text: "first block", anchor: { lineStart: 1, lineEnd: 1 } },
+      { heading: null, text: "\nsecond block\n", anchor: { lineStart: 2, lineEnd: 4 } },
+      { heading: "paths > /users", text: "get users", anchor: { lineStart: 5, lineEnd: 5, section: "paths > /users" } },
+      { heading: null, text: "Page one text", anchor: { page: 1 } },
+      { heading: null, text: "Page two text", anchor: { page: 2 } },
+    ],
+  })
+
+  assert.deepEqual(chunks.map((chunk) => [chunk.content, chunk.anchor]), [
+    ["first block\nsecond block", { lineStart: 1, lineEnd: 3 }],
+    ["paths > /users\nget users", { lineStart: 5, lineEnd: 5, section: "paths > /users" }],
+    ["Page one text", { page: 1 }],
+    ["Page two text", { page: 2 }],
+  ])
+  assert.deepEqual(chunks.map((chunk) => chunk.chunkIndex), [0, 1, 2, 3])
+  assert.equal(formatVaultRagAnchor(chunks[0].anchor), "L1-L3")
+  assert.equal(formatVaultRagAnchor(chunks[2].anchor), "p. 1")
+  assert.equal(formatVaultRagAnchor({ section: "#install" }), "#install")
+})
+
 test("rankVaultRagCandidate favors lexical+semantic matches and ship scope boost", () => {
   const boosted = rankVaultRagCandidate({
     queryTokens: ["engine", "status"],
@@ -82,3 +116,21 @@ test("rankVaultRagCandidate falls back to lexical when embedding vector is unava
   assert.ok(result.lexical > 0)
   assert.ok(result.score > 0)
 })
+
+test("rankVaultRagCandidate prefers database similarity over the chunk vector", () => {
+  const result = rankVaultRagCandidate({
+    queryTokens: ["reactor"],
+    queryLower: "reactor",
+    queryEmbedding: [1, 0],
+    mode: "hybrid",
+    chunkPath: "ship/kb/fleet/reactor.md",
+    chunkTitle: "Reactor",
+    chunkNormalizedContent: "reactor output nominal",
+    chunkEmbedding: null,
+    chunkSimilarity: 0.75,
+    chunkScopeType: "fleet",
+    chunkShipDeploymentId: null,
+  })
+
+  assert.equal(result.semantic, 0.75)
+})
@@ -8,9 +8,40 @@ import type {
   VaultRagSyncTrigger,
 } from "@prisma/client"
 import { prisma } from "@/lib/prisma"
-import type { PhysicalVaultId, VaultSearchResponse } from "@/lib/vault/types"
-import { listPhysicalVaultDefinitions, parseJoinedVaultPath, resolveVaultAbsolutePath, toJoinedVaultPath } from "./config"
-import { collectMarkdownFilePaths, directoryExists, readMarkdownFile } from "./fs"
+import type {
+  PhysicalVaultId,
+  VaultId,
+  VaultNoteProperties,
+  VaultRagSourceAnchor,
+  VaultSearchResponse,
+} from "@/lib/vault/types"
+import {
+  canAccessVaultDefinition,
+  findVaultDefinition,
+  JOINED_VAULT_ID,
+  listPhysicalVaultDefinitions,
+  parseJoinedVaultPath,
+  resolveVaultAbsolutePath,
+  toJoinedVaultPath,
+  type VaultAccess,
+} from "./config"
+import { loadVaultRegistry } from "./registry"
+import { asVaultNoteProperties, matchesVaultPropertyFilters, parseVaultFrontmatter, parseVaultPropertyQuery } from "./frontmatter"
+import { collectVaultFilePaths, directoryExists, readMarkdownFile, readVaultFileBytes } from "./fs"
+import {
+  resolveVaultDocumentExtractor,
+  vaultRagExtractMaxBytes,
+  type VaultExtractedDocument,
+} from "./extractors"
+import { embeddingMatchesProvider, resolveVaultEmbeddingProvider, type VaultEmbeddingProvider } from "./embeddings"
+import {
+  searchVaultRagChunkVectors,
+  syncVaultRagChunkVectors,
+  vaultRagVectorCandidateLimit,
+  vaultRagVectorSearchMode,
+  type VaultRagVectorHit,
+  type VaultRagVectorSearch,
+} from "./rag-vector"
 
 export type VaultRagQueryMode = "hybrid" | "lexical"
 export type VaultKnowledgeScope = "ship" | "fleet" | "all"
@@ -26,6 +57,7 @@ export interface VaultRagChunkDraft {
   content: string
   normalizedContent: string
   tokenCount: number
+  anchor: VaultRagSourceAnchor | null
 }
 
 export interface VaultRagCitation {
@@ -38,6 +70,10 @@ export interface VaultRagCitation {
   score: number
   lexicalScore: number
   semanticScore: number
+  /** Frontmatter of the source note; set when the query used property filters. */
+  properties?: VaultNoteProperties
+  /** Page, line range or section of the source file the excerpt came from. */
+  anchor?: VaultRagSourceAnchor
 }
 
 export interface VaultRagQueryResult {
@@ -87,6 +123,7 @@ interface ScannedDocument {
   scopeType: VaultRagScopeType
   shipDeploymentId: string | null
   content: string
+  properties: VaultNoteProperties
   contentHash: string
   byteSize: number
   mtime: Date
@@ -95,11 +132,13 @@ interface ScannedDocument {
 
 interface RankedChunk {
   chunkId: string
+  documentId: string
   path: string
   title: string
   scopeType: VaultRagScopeType
   shipDeploymentId: string | null
   content: string
+  anchor: VaultRagSourceAnchor | null
   score: number
   lexicalScore: number
   semanticScore: number
@@ -136,12 +175,6 @@ function vaultRagSyncOnWrite(): boolean {
   return asBoolean(process.env.VAULT_RAG_SYNC_ON_WRITE, true)
 }
 
-function embeddingModel(): string {
-  const raw = process.env.VAULT_RAG_EMBEDDING_MODEL?.trim()
-  if (raw) return raw
-  return "text-embedding-3-small"
-}
-
 function ragTopKDefault(): number {
   return asPositiveInt(process.env.VAULT_RAG_TOP_K, 12)
 }
@@ -154,10 +187,6 @@ function ragMaxChunksPerDoc(): number {
   return asPositiveInt(process.env.VAULT_RAG_MAX_CHUNKS_PER_DOC, 120)
 }
 
-function ragEmbeddingBatchSize(): number {
-  return asPositiveInt(process.env.VAULT_RAG_EMBED_BATCH_SIZE, 24)
-}
-
 function ragCandidateLimit(): number {
   return asPositiveInt(process.env.VAULT_RAG_QUERY_CANDIDATE_LIMIT, 1800)
 }
@@ -176,16 +205,30 @@ export function tokenizeRagText(value: string): string[] {
     .filter((token) => token.length >= 2)
 }
 
-function contentHashFor(text: string): string {
-  return createHash("sha256").update(text).digest("hex")
+function contentHashFor(...parts: Array<string | Buffer>): string {
+  const hash = createHash("sha256")
+  for (const part of parts) {
+    hash.update(part)
+  }
+  return hash.digest("hex")
 }
 
-function isPrivateVaultId(vaultId: string): boolean {
-  return vaultId === "agent-private"
+function isPrivateVaultId(vaultId: PhysicalVaultId): boolean {
+  return findVaultDefinition(vaultId)?.isPrivate !== false
 }
 
 function isPhysicalVaultId(vaultId: string): vaultId is PhysicalVaultId {
-  return vaultId === "orchwiz" || vaultId === "ship" || vaultId === "agent-public" || vaultId === "agent-private"
+  return vaultId !== JOINED_VAULT_ID && findVaultDefinition(vaultId as PhysicalVaultId) !== null
+}
+
+/**
+ * Joined-path prefixes a joined query may read: built-in vaults plus the
+ * custom vaults in `access`. Allow-listing (rather than excluding other
+ * owners' vaults) keeps chunks of unregistered or deactivated namespaces out
+ * of every result until they are purged.
+ */
+function accessibleVaultPathPrefixes(access: VaultAccess | undefined): string[] {
+  return listPhysicalVaultDefinitions(access).map((definition) => `${definition.namespace}/`)
 }
 
 export function resolveVaultRagMode(raw: string | null | undefined): VaultRagQueryMode {
@@ -271,6 +314,8 @@ export function chunkMarkdownForRag(markdown: string): VaultRagChunkDraft[] {
   const chunks: VaultRagChunkDraft[] = []
   let currentHeading: string | null = null
   let paragraphLines: string[] = []
+  let paragraphStartLine = 0
+  let paragraphEndLine = 0
 
   const flushParagraph = () => {
     const paragraph = normalizeWhitespace(paragraphLines.join(" "))
@@ -280,6 +325,7 @@ export function chunkMarkdownForRag(markdown: string): VaultRagChunkDraft[] {
       return
     }
 
+    const anchor: VaultRagSourceAnchor = { lineStart: paragraphStartLine, lineEnd: paragraphEndLine }
     const blockPrefix = currentHeading ? `${currentHeading}\n` : ""
     const block = `${blockPrefix}${paragraph}`.trim()
     const splitBlocks = splitLongBlock(block, maxChars)
@@ -296,11 +342,12 @@ export function chunkMarkdownForRag(markdown: string): VaultRagChunkDraft[] {
         content: splitBlock,
         normalizedContent,
         tokenCount: tokenizeRagText(splitBlock).length,
+        anchor,
       })
     }
   }
 
-  for (const rawLine of lines) {
+  for (const [lineIndex, rawLine] of lines.entries()) {
     const line = rawLine.trim()
 
     const headingMatch = line.match(/^#{1,6}\s+(.+)$/u)
@@ -315,6 +362,10 @@ export function chunkMarkdownForRag(markdown: string): VaultRagChunkDraft[] {
       continue
     }
 
+    if (paragraphLines.length === 0) {
+      paragraphStartLine = lineIndex + 1
+    }
+    paragraphEndLine = lineIndex + 1
     paragraphLines.push(line)
   }
 
@@ -333,12 +384,154 @@ export function chunkMarkdownForRag(markdown: string): VaultRagChunkDraft[] {
       content: block,
       normalizedContent: normalizeRagText(block),
       tokenCount: tokenizeRagText(block).length,
+      anchor: null,
     }))
   }
 
   return chunks
 }
 
+interface AnchoredBlock {
+  text: string
+  anchor: VaultRagSourceAnchor
+}
+
+/** Splits a line-anchored section into windows under `maxChars`, keeping exact line ranges. */
+function splitLineAnchoredSection(text: string, anchor: VaultRagSourceAnchor, maxChars: number): AnchoredBlock[] {
+  const firstLine = anchor.lineStart ?? 1
+  const blocks: AnchoredBlock[] = []
+  let window: Array<{ line: string; lineNumber: number }> = []
+  let windowChars = 0
+
+  const flush = () => {
+    while (window.length > 0 && !window[window.length - 1].line.trim()) {
+      window.pop()
+    }
+    if (window.length > 0) {
+      blocks.push({
+        text: window.map((entry) => entry.line).join("\n"),
+        anchor: { ...anchor, lineStart: window[0].lineNumber, lineEnd: window[window.length - 1].lineNumber },
+      })
+    }
+    window = []
+    windowChars = 0
+  }
+
+  text.split("\n").forEach((line, offset) => {
+    const lineNumber = firstLine + offset
+    if (line.length > maxChars) {
+      flush()
+      for (const part of splitLongBlock(line, maxChars)) {
+        blocks.push({ text: part, anchor: { ...anchor, lineStart: lineNumber, lineEnd: lineNumber } })
+      }
+      return
+    }
+
+    if (windowChars + line.length + 1 > maxChars) {
+      flush()
+    }
+    if (window.length === 0 && !line.trim()) {
+      return
+    }
+    window.push({ line, lineNumber })
+    windowChars += line.length + 1
+  })
+
+  flush()
+  return blocks
+}
+
+function canMergeAnchoredBlocks(left: AnchoredBlock, right: AnchoredBlock): boolean {
+  return left.anchor.page === right.anchor.page
+    && left.anchor.section === right.anchor.section
+    && left.anchor.lineEnd !== undefined
+    && right.anchor.lineStart !== undefined
+    && left.anchor.lineEnd < right.anchor.lineStart
+}
+
+/**
+ * Chunks extractor output (PDF pages, HTML sections, text or source blocks).
+ * Adjacent small blocks under the same heading are packed together so code
+ * and log files do not explode into one chunk per paragraph.
+ */
+export function chunkExtractedDocumentForRag(document: VaultExtractedDocument): VaultRagChunkDraft[] {
+  const maxChars = ragChunkCharLimit()
+  const maxChunks = ragMaxChunksPerDoc()
+  const packed: Array<AnchoredBlock & { heading: string | null }> = []
+
+  for (const section of document.sections) {
+    const blocks = section.anchor.lineStart !== undefined
+      ? splitLineAnchoredSection(section.text, section.anchor, maxChars)
+      : splitLongBlock(normalizeWhitespace(section.text), maxChars).map((text) => ({ text, anchor: section.anchor }))
+
+    for (const block of blocks) {
+      const previous = packed[packed.length - 1]
+      if (
+        previous
+        && previous.heading === section.heading
+        && canMergeAnchoredBlocks(previous, block)
+        && previous.text.length + block.text.length + 1 <= maxChars
+      ) {
+        previous.text = `${previous.text}\n${block.text}`
+        previous.anchor = { ...previous.anchor, lineEnd: block.anchor.lineEnd }
+        continue
+      }
+
+      packed.push({ ...block, heading: section.heading })
+    }
+  }
+
+  return packed.slice(0, maxChunks).map((block, index) => {
+    const content = block.heading ? `${block.heading}\n${block.text}` : block.text
+    return {
+      chunkIndex: index,
+      heading: block.heading,
+      content,
+      normalizedContent: normalizeRagText(content),
+      tokenCount: tokenizeRagText(content).length,
+      anchor: Object.keys(block.anchor).length > 0 ? block.anchor : null,
+    }
+  })
+}
+
+/** Short human label for a citation anchor: `p. 3`, `L12-L40`, `#install`. */
+export function formatVaultRagAnchor(anchor: VaultRagSourceAnchor | null | undefined): string | null {
+  if (!anchor) {
+    return null
+  }
+
+  const parts: string[] = []
+  if (anchor.page !== undefined) {
+    parts.push(`p. ${anchor.page}`)
+  }
+  if (anchor.lineStart !== undefined) {
+    parts.push(
+      anchor.lineEnd !== undefined && anchor.lineEnd !== anchor.lineStart
+        ? `L${anchor.lineStart}-L${anchor.lineEnd}`
+        : `L${anchor.lineStart}`,
+    )
+  }
+  if (anchor.section && anchor.lineStart === undefined) {
+    parts.push(anchor.section)
+  }
+
+  return parts.length > 0 ? parts.join(", ") : null
+}
+
+function parseRagAnchor(value: unknown): VaultRagSourceAnchor | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null
+  }
+
+  const record = value as Record<string, unknown>
+  const anchor: VaultRagSourceAnchor = {}
+  if (typeof record.page === "number") anchor.page = record.page
+  if (typeof record.lineStart === "number") anchor.lineStart = record.lineStart
+  if (typeof record.lineEnd === "number") anchor.lineEnd = record.lineEnd
+  if (typeof record.section === "string") anchor.section = record.section
+  return Object.keys(anchor).length > 0 ? anchor : null
+}
+
 function parseEmbedding(value: unknown): number[] | null {
   if (!Array.isArray(value)) {
     return null
@@ -458,6 +651,8 @@ export function rankVaultRagCandidate(args: {
   chunkTitle: string
   chunkNormalizedContent: string
   chunkEmbedding: number[] | null
+  /** Similarity already computed by the database; takes precedence over `chunkEmbedding`. */
+  chunkSimilarity?: number | null
   chunkScopeType: VaultRagScopeType
   chunkShipDeploymentId: string | null
   requestedShipDeploymentId?: string
@@ -468,9 +663,13 @@ export function rankVaultRagCandidate(args: {
 } {
   const lexical = lexicalScore(args.queryTokens, args.chunkNormalizedContent)
   const semantic =
-    args.mode === "hybrid" && args.queryEmbedding && args.chunkEmbedding
-      ? Math.max(0, cosineSimilarity(args.queryEmbedding, args.chunkEmbedding))
-      : 0
+    args.mode !== "hybrid" || !args.queryEmbedding
+      ? 0
+      : typeof args.chunkSimilarity === "number"
+        ? Math.max(0, args.chunkSimilarity)
+        : args.chunkEmbedding
+          ? Math.max(0, cosineSimilarity(args.queryEmbedding, args.chunkEmbedding))
+          : 0
 
   const boost = scopeBoost({
     scopeType: args.chunkScopeType,
@@ -513,66 +712,6 @@ function excerptAround(content: string, query: string): string {
   return compact.slice(start, end)
 }
 
-async function embedTextsWithOpenAi(texts: string[]): Promise<number[][] | null> {
-  if (texts.length === 0) {
-    return []
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY?.trim()
-  if (!apiKey) {
-    return null
-  }
-
-  const model = embeddingModel()
-  const batchSize = ragEmbeddingBatchSize()
-  const vectors: number[][] = []
-
-  for (let start = 0; start < texts.length; start += batchSize) {
-    const batch = texts.slice(start, start + batchSize)
-
-    let response: Response
-    try {
-      response = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          input: batch,
-        }),
-      })
-    } catch (error) {
-      console.error("Vault RAG embedding request failed:", error)
-      return null
-    }
-
-    if (!response.ok) {
-      console.error("Vault RAG embedding request returned non-2xx:", response.status)
-      return null
-    }
-
-    const payload = (await response.json().catch(() => null)) as
-      | { data?: Array<{ embedding?: unknown; index?: number }> }
-      | null
-    if (!payload?.data || !Array.isArray(payload.data)) {
-      return null
-    }
-
-    const ordered = [...payload.data].sort((a, b) => (a.index || 0) - (b.index || 0))
-    for (const entry of ordered) {
-      const embedding = parseEmbedding(entry.embedding)
-      if (!embedding) {
-        return null
-      }
-      vectors.push(embedding)
-    }
-  }
-
-  return vectors
-}
-
 function buildDocumentScopeWhere(scope: VaultRagSyncScope, shipDeploymentId?: string): Prisma.VaultRagDocumentWhereInput {
   if (scope === "fleet") {
     return {
@@ -611,14 +750,79 @@ function shouldIncludeDocumentInSync(args: {
   return args.scopeType === "ship" && args.shipDeploymentId === args.requestedShipDeploymentId
 }
 
+type RagSourceContent = Pick<
+  ScannedDocument,
+  "title" | "content" | "properties" | "contentHash" | "byteSize" | "mtime" | "chunks"
+>
+
+function isMarkdownPath(path: string): boolean {
+  return path.toLowerCase().endsWith(".md")
+}
+
+function isRagSourcePath(path: string): boolean {
+  return isMarkdownPath(path) || resolveVaultDocumentExtractor(path) !== null
+}
+
+/** Reads a markdown note, or runs the matching extractor for any other indexed file type. */
+async function readRagSource(rootPath: string, physicalPath: string): Promise<RagSourceContent | null> {
+  if (isMarkdownPath(physicalPath)) {
+    const file = await readMarkdownFile(rootPath, physicalPath).catch(() => null)
+    if (!file) {
+      return null
+    }
+
+    return {
+      title: basename(physicalPath, ".md"),
+      content: file.content,
+      properties: parseVaultFrontmatter(file.content).properties,
+      contentHash: contentHashFor(file.content),
+      byteSize: Buffer.byteLength(file.content, "utf8"),
+      mtime: file.mtime,
+      chunks: chunkMarkdownForRag(file.content),
+    }
+  }
+
+  const extractor = resolveVaultDocumentExtractor(physicalPath)
+  if (!extractor) {
+    return null
+  }
+
+  const file = await readVaultFileBytes(rootPath, physicalPath, vaultRagExtractMaxBytes()).catch(() => null)
+  if (!file) {
+    return null
+  }
+
+  try {
+    const extracted = await extractor.extract({
+      path: physicalPath,
+      absolutePath: file.absolutePath,
+      data: file.data,
+    })
+
+    return {
+      title: basename(physicalPath),
+      content: extracted.sections.map((section) => section.text).join("\n\n"),
+      properties: {},
+      // Salted with the extractor id so switching extractors re-chunks unchanged files.
+      contentHash: contentHashFor(`${extractor.id}:`, file.data),
+      byteSize: file.size,
+      mtime: file.mtime,
+      chunks: chunkExtractedDocumentForRag(extracted),
+    }
+  } catch (error) {
+    console.error(`Vault RAG ${extractor.id} extraction failed for ${physicalPath} (fail-open):`, error)
+    return null
+  }
+}
+
 async function scanVaultCorpus(args: {
   scope: VaultRagSyncScope
   shipDeploymentId?: string
 }): Promise<ScannedDocument[]> {
   const scanned: ScannedDocument[] = []
 
-  for (const definition of listPhysicalVaultDefinitions()) {
-    if (definition.isPrivate) {
+  for (const definition of listPhysicalVaultDefinitions("all")) {
+    if (definition.isPrivate || definition.encrypted) {
       continue
     }
 
@@ -627,13 +831,8 @@ async function scanVaultCorpus(args: {
       continue
     }
 
-    const paths = await collectMarkdownFilePaths(rootPath)
+    const paths = await collectVaultFilePaths(rootPath, isRagSourcePath)
     for (const physicalPath of paths) {
-      const file = await readMarkdownFile(rootPath, physicalPath).catch(() => null)
-      if (!file) {
-        continue
-      }
-
       const joinedPath = toJoinedVaultPath(definition.id, physicalPath)
       const scopeMeta = classifyVaultRagScope(joinedPath)
       if (
@@ -647,19 +846,18 @@ async function scanVaultCorpus(args: {
         continue
       }
 
-      const chunks = chunkMarkdownForRag(file.content)
+      const source = await readRagSource(rootPath, physicalPath)
+      if (!source) {
+        continue
+      }
+
       scanned.push({
         joinedPath,
         physicalVaultId: definition.id,
         physicalPath,
-        title: basename(physicalPath, ".md"),
         scopeType: scopeMeta.scopeType,
         shipDeploymentId: scopeMeta.shipDeploymentId,
-        content: file.content,
-        contentHash: contentHashFor(file.content),
-        byteSize: Buffer.byteLength(file.content, "utf8"),
-        mtime: file.mtime,
-        chunks,
+        ...source,
       })
     }
   }
@@ -668,7 +866,32 @@ async function scanVaultCorpus(args: {
   return scanned
 }
 
-async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted: boolean; chunkCount: number }> {
+/** Chunks embedded by another model or width, or never embedded, need a fresh vector. */
+async function documentHasStaleEmbeddings(documentId: string, embedder: VaultEmbeddingProvider | null): Promise<boolean> {
+  if (!embedder) {
+    return false
+  }
+
+  const staleCount = await prisma.vaultRagChunk.count({
+    where: {
+      documentId,
+      OR: [
+        { embeddingModel: null },
+        { embeddingModel: { not: embedder.model } },
+        ...(embedder.dimensions
+          ? [{ embeddingDimensions: null }, { embeddingDimensions: { not: embedder.dimensions } }]
+          : []),
+      ],
+    },
+  })
+
+  return staleCount > 0
+}
+
+async function upsertScannedDocument(
+  doc: ScannedDocument,
+  embedder: VaultEmbeddingProvider | null,
+): Promise<{ upserted: boolean; chunkCount: number }> {
   const existing = await prisma.vaultRagDocument.findUnique({
     where: {
       joinedPath: doc.joinedPath,
@@ -680,7 +903,12 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
     },
   })
 
-  if (existing && existing.contentHash === doc.contentHash && existing.chunkCount === doc.chunks.length) {
+  if (
+    existing
+    && existing.contentHash === doc.contentHash
+    && existing.chunkCount === doc.chunks.length
+    && !(await documentHasStaleEmbeddings(existing.id, embedder))
+  ) {
     await prisma.vaultRagDocument.update({
       where: { id: existing.id },
       data: {
@@ -689,6 +917,7 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
         title: doc.title,
         scopeType: doc.scopeType,
         shipDeploymentId: doc.shipDeploymentId,
+        properties: doc.properties as Prisma.InputJsonValue,
         byteSize: doc.byteSize,
         mtime: doc.mtime,
         lastIndexedAt: new Date(),
@@ -701,7 +930,7 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
     }
   }
 
-  const embeddings = await embedTextsWithOpenAi(doc.chunks.map((chunk) => chunk.content))
+  const embeddings = embedder ? await embedder.embed(doc.chunks.map((chunk) => chunk.content)) : null
   const chunksData = doc.chunks.map((chunk, index) => ({
     joinedPath: doc.joinedPath,
     scopeType: doc.scopeType,
@@ -710,11 +939,14 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
     heading: chunk.heading,
     content: chunk.content,
     normalizedContent: chunk.normalizedContent,
+    anchor: chunk.anchor ? (chunk.anchor as Prisma.InputJsonValue) : undefined,
     embedding: embeddings?.[index] ? (embeddings[index] as Prisma.InputJsonValue) : undefined,
+    embeddingModel: embeddings?.[index] && embedder ? embedder.model : null,
+    embeddingDimensions: embeddings?.[index]?.length ?? null,
     tokenCount: chunk.tokenCount,
   }))
 
-  await prisma.vaultRagDocument.upsert({
+  const upserted = await prisma.vaultRagDocument.upsert({
     where: {
       joinedPath: doc.joinedPath,
     },
@@ -725,6 +957,7 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
       title: doc.title,
       scopeType: doc.scopeType,
       shipDeploymentId: doc.shipDeploymentId,
+      properties: doc.properties as Prisma.InputJsonValue,
       contentHash: doc.contentHash,
       byteSize: doc.byteSize,
       mtime: doc.mtime,
@@ -740,6 +973,7 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
       title: doc.title,
       scopeType: doc.scopeType,
       shipDeploymentId: doc.shipDeploymentId,
+      properties: doc.properties as Prisma.InputJsonValue,
       contentHash: doc.contentHash,
       byteSize: doc.byteSize,
       mtime: doc.mtime,
@@ -750,8 +984,19 @@ async function upsertScannedDocument(doc: ScannedDocument): Promise<{ upserted:
         create: chunksData,
       },
     },
+    select: {
+      id: true,
+    },
   })
 
+  if (embeddings) {
+    // The JSON column stays authoritative; a missing pgvector extension only
+    // costs the database-side search path.
+    await syncVaultRagChunkVectors(upserted.id).catch((error) => {
+      console.error("Vault RAG pgvector sync failed:", error)
+    })
+  }
+
   return {
     upserted: true,
     chunkCount: chunksData.length,
@@ -810,6 +1055,7 @@ export async function runVaultRagResync(args: {
   initiatedByUserId?: string
   mode?: VaultRagQueryMode
 }): Promise<VaultRagSyncSummary> {
+  await loadVaultRegistry()
   if (!vaultRagEnabled()) {
     return {
       runId: "disabled",
@@ -855,8 +1101,9 @@ export async function runVaultRagResync(args: {
 
     stats.documentsScanned = scannedDocs.length
 
+    const embedder = resolveVaultEmbeddingProvider()
     for (const scanned of scannedDocs) {
-      const result = await upsertScannedDocument(scanned)
+      const result = await upsertScannedDocument(scanned, embedder)
       if (result.upserted) {
         stats.documentsUpserted += 1
         stats.chunksUpserted += result.chunkCount
@@ -958,8 +1205,8 @@ async function upsertJoinedPathFromFilesystem(joinedPath: string): Promise<boole
   }
 
   const rootPath = resolveVaultAbsolutePath(parsed.vaultId)
-  const file = await readMarkdownFile(rootPath, parsed.innerPath).catch(() => null)
-  if (!file) {
+  const source = isRagSourcePath(parsed.innerPath) ? await readRagSource(rootPath, parsed.innerPath) : null
+  if (!source) {
     await prisma.vaultRagDocument.deleteMany({
       where: {
         joinedPath,
@@ -973,17 +1220,12 @@ async function upsertJoinedPathFromFilesystem(joinedPath: string): Promise<boole
     joinedPath,
     physicalVaultId: parsed.vaultId,
     physicalPath: parsed.innerPath,
-    title: basename(parsed.innerPath, ".md"),
     scopeType: scopeMeta.scopeType,
     shipDeploymentId: scopeMeta.shipDeploymentId,
-    content: file.content,
-    contentHash: contentHashFor(file.content),
-    byteSize: Buffer.byteLength(file.content, "utf8"),
-    mtime: file.mtime,
-    chunks: chunkMarkdownForRag(file.content),
+    ...source,
   }
 
-  const result = await upsertScannedDocument(scanned)
+  const result = await upsertScannedDocument(scanned, resolveVaultEmbeddingProvider())
   return result.upserted
 }
 
@@ -996,6 +1238,8 @@ export async function syncVaultRagMutation(args: {
     return null
   }
 
+  await loadVaultRegistry()
+
   const upsertJoinedPaths = [...new Set((args.upsertJoinedPaths || []).filter(Boolean))]
   const deleteJoinedPaths = [...new Set((args.deleteJoinedPaths || []).filter(Boolean))]
 
@@ -1112,39 +1356,53 @@ export async function getLatestVaultRagSyncRun(args: {
   }
 }
 
-async function queryEmbeddingForInput(input: string, mode: VaultRagQueryMode): Promise<{ vector: number[] | null; fallbackUsed: boolean }> {
+async function queryEmbeddingForInput(input: string, mode: VaultRagQueryMode): Promise<{
+  vector: number[] | null
+  embedder: VaultEmbeddingProvider | null
+  fallbackUsed: boolean
+}> {
   if (mode !== "hybrid") {
     return {
       vector: null,
+      embedder: null,
       fallbackUsed: false,
     }
   }
 
-  const vectors = await embedTextsWithOpenAi([input])
-  if (!vectors || vectors.length === 0) {
+  const embedder = resolveVaultEmbeddingProvider()
+  const vectors = embedder ? await embedder.embed([input]) : null
+  if (!embedder || !vectors || vectors.length === 0) {
     return {
       vector: null,
+      embedder: null,
       fallbackUsed: true,
     }
   }
 
   return {
     vector: vectors[0],
+    embedder,
     fallbackUsed: false,
   }
 }
 
 export async function queryVaultRag(args: {
   query: string
-  vaultId: "orchwiz" | "ship" | "agent-public" | "agent-private" | "joined"
+  vaultId: VaultId
   mode?: VaultRagQueryMode
   scope?: VaultKnowledgeScope
   shipDeploymentId?: string
   k?: number
+  /** Custom vaults outside this access are excluded; omitted means built-in vaults only. */
+  access?: VaultAccess
+  /** Overrides `VAULT_RAG_VECTOR_SEARCH`; used by the vector search benchmark. */
+  vectorSearch?: VaultRagVectorSearch
 }): Promise<VaultRagQueryResult> {
   const mode = args.mode || "hybrid"
   const scope = args.scope || "all"
-  const query = args.query.trim()
+  const propertyQuery = parseVaultPropertyQuery(args.query)
+  const query = propertyQuery.text
+  const vectorSearch = args.vectorSearch || vaultRagVectorSearchMode()
 
   if (!vaultRagEnabled()) {
     return {
@@ -1166,32 +1424,85 @@ export async function queryVaultRag(args: {
   const queryLower = query.toLowerCase()
   const k = Math.max(1, Math.min(100, args.k || ragTopKDefault()))
 
+  await loadVaultRegistry()
+  const scopedDefinition = args.vaultId === JOINED_VAULT_ID ? null : findVaultDefinition(args.vaultId as PhysicalVaultId)
+  if (args.vaultId !== JOINED_VAULT_ID && (!scopedDefinition || !canAccessVaultDefinition(scopedDefinition, args.access))) {
+    return {
+      mode,
+      fallbackUsed: false,
+      results: [],
+    }
+  }
+
+  const pathPrefixes = scopedDefinition
+    ? [`${scopedDefinition.namespace}/`]
+    : accessibleVaultPathPrefixes(args.access)
+  const pathWhere = {
+    OR: pathPrefixes.map((prefix) => ({ joinedPath: { startsWith: prefix } })),
+  } satisfies Prisma.VaultRagChunkWhereInput & Prisma.VaultRagDocumentWhereInput
+
+  // Property filters are evaluated against each document's indexed frontmatter.
+  let matchingDocuments: Map<string, VaultNoteProperties> | null = null
+  if (propertyQuery.filters.length > 0) {
+    const documents = await prisma.vaultRagDocument.findMany({
+      where: pathWhere,
+      select: {
+        id: true,
+        properties: true,
+      },
+    })
+
+    matchingDocuments = new Map()
+    for (const document of documents) {
+      const properties = asVaultNoteProperties(document.properties)
+      if (matchesVaultPropertyFilters(properties, propertyQuery.filters)) {
+        matchingDocuments.set(document.id, properties)
+      }
+    }
+
+    if (matchingDocuments.size === 0) {
+      return {
+        mode,
+        fallbackUsed: false,
+        results: [],
+      }
+    }
+  }
+
   const where: Prisma.VaultRagChunkWhereInput = {
-    ...(args.vaultId !== "joined"
+    ...pathWhere,
+    ...(matchingDocuments
       ? {
-          joinedPath: {
-            startsWith: `${args.vaultId}/`,
+          documentId: {
+            in: [...matchingDocuments.keys()],
           },
         }
       : {}),
   }
 
-  const candidateRows = await prisma.vaultRagChunk.findMany({
-    where,
-    select: {
-      id: true,
-      joinedPath: true,
-      scopeType: true,
-      shipDeploymentId: true,
-      content: true,
-      normalizedContent: true,
-      embedding: true,
-      document: {
-        select: {
-          title: true,
-        },
+  const candidateSelect = {
+    id: true,
+    documentId: true,
+    joinedPath: true,
+    scopeType: true,
+    shipDeploymentId: true,
+    content: true,
+    normalizedContent: true,
+    anchor: true,
+    // pgvector ranks in SQL, so the lexical window does not need the vectors.
+    embedding: vectorSearch === "in-process",
+    embeddingModel: true,
+    embeddingDimensions: true,
+    document: {
+      select: {
+        title: true,
       },
     },
+  } satisfies Prisma.VaultRagChunkSelect
+
+  const candidateRows = await prisma.vaultRagChunk.findMany({
+    where,
+    select: candidateSelect,
     orderBy: {
       updatedAt: "desc",
     },
@@ -1208,6 +1519,40 @@ export async function queryVaultRag(args: {
 
   const embeddingResolution = await queryEmbeddingForInput(query, mode)
 
+  let vectorHits: Map<string, number> | null = null
+  if (vectorSearch === "pgvector" && embeddingResolution.vector && embeddingResolution.embedder) {
+    let hits: VaultRagVectorHit[] = []
+    try {
+      hits = await searchVaultRagChunkVectors({
+        vector: embeddingResolution.vector,
+        model: embeddingResolution.embedder.model,
+        pathPrefixes,
+        documentIds: matchingDocuments ? [...matchingDocuments.keys()] : null,
+        scope,
+        shipDeploymentId: args.shipDeploymentId,
+        limit: Math.max(k * 4, vaultRagVectorCandidateLimit()),
+      })
+    } catch (error) {
+      console.error("Vault RAG pgvector search failed; ranking lexically:", error)
+      embeddingResolution.vector = null
+      embeddingResolution.fallbackUsed = true
+    }
+
+    vectorHits = new Map(hits.map((hit) => [hit.chunkId, hit.similarity]))
+    const knownIds = new Set(candidateRows.map((row) => row.id))
+    const missingIds = hits.map((hit) => hit.chunkId).filter((id) => !knownIds.has(id))
+    if (missingIds.length > 0) {
+      candidateRows.push(...await prisma.vaultRagChunk.findMany({
+        where: {
+          id: {
+            in: missingIds,
+          },
+        },
+        select: candidateSelect,
+      }))
+    }
+  }
+
   const ranked: RankedChunk[] = []
   for (const row of candidateRows) {
     if (
@@ -1221,7 +1566,9 @@ export async function queryVaultRag(args: {
       continue
     }
 
-    const parsedEmbedding = parseEmbedding(row.embedding)
+    const parsedEmbedding = !vectorHits && embeddingResolution.embedder && embeddingMatchesProvider(row, embeddingResolution.embedder)
+      ? parseEmbedding(row.embedding)
+      : null
     const scoring = rankVaultRagCandidate({
       queryTokens,
       queryLower,
@@ -1231,6 +1578,7 @@ export async function queryVaultRag(args: {
       chunkTitle: row.document.title,
       chunkNormalizedContent: row.normalizedContent,
       chunkEmbedding: parsedEmbedding,
+      chunkSimilarity: vectorHits ? vectorHits.get(row.id) ?? 0 : null,
       chunkScopeType: row.scopeType,
       chunkShipDeploymentId: row.shipDeploymentId,
       requestedShipDeploymentId: args.shipDeploymentId,
@@ -1242,11 +1590,13 @@ export async function queryVaultRag(args: {
 
     ranked.push({
       chunkId: row.id,
+      documentId: row.documentId,
       path: row.joinedPath,
       title: row.document.title,
       scopeType: row.scopeType,
       shipDeploymentId: row.shipDeploymentId,
       content: row.content,
+      anchor: parseRagAnchor(row.anchor),
       score: scoring.score,
       lexicalScore: scoring.lexical,
       semanticScore: scoring.semantic,
@@ -1266,6 +1616,8 @@ export async function queryVaultRag(args: {
     score: Number(entry.score.toFixed(4)),
     lexicalScore: Number(entry.lexicalScore.toFixed(4)),
     semanticScore: Number(entry.semanticScore.toFixed(4)),
+    ...(entry.anchor ? { anchor: entry.anchor } : {}),
+    ...(matchingDocuments ? { properties: matchingDocuments.get(entry.documentId) || {} } : {}),
   }))
 
   return {
@@ -1277,11 +1629,13 @@ export async function queryVaultRag(args: {
 
 export async function searchVaultRagNotes(args: {
   query: string
-  vaultId: "orchwiz" | "ship" | "agent-public" | "agent-private" | "joined"
+  vaultId: VaultId
   mode?: VaultRagQueryMode
   scope?: VaultKnowledgeScope
   shipDeploymentId?: string
   k?: number
+  /** Custom vaults outside this access are excluded; omitted means built-in vaults only. */
+  access?: VaultAccess
 }): Promise<VaultRagSearchResponse> {
   const queryResult = await queryVaultRag(args)
   const grouped = new Map<string, VaultRagSearchResult>()
@@ -1311,6 +1665,7 @@ export async function searchVaultRagNotes(args: {
         shipDeploymentId: citation.shipDeploymentId,
         citations: [scopedCitation],
         originVaultId: parsed.vaultId,
+        ...(citation.properties ? { properties: citation.properties } : {}),
       })
       continue
     }
@@ -0,0 +1,124 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { mkdir, mkdtemp, rm, symlink } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join, resolve } from "node:path"
+import { resolveCustomVaultRoot } from "./config"
+import {
+  assertVaultRootIsDisjoint,
+  canonicalizeVaultRoot,
+  parseVaultRegistrationCreateInput,
+  parseVaultRegistrationUpdateInput,
+  VaultRegistrationValidationError,
+} from "./registry-validation"
+
+const env: NodeJS.ProcessEnv = {
+  ...process.env,
+  VAULT_CUSTOM_ROOTS: "/srv/vaults",
+}
+
+const isValidationError = (error: unknown) => error instanceof VaultRegistrationValidationError
+
+test("parseVaultRegistrationCreateInput applies defaults and normalizes the namespace", () => {
+  const parsed = parseVaultRegistrationCreateInput({
+    namespace: "Research",
+    label: " Research Notes ",
+    rootPath: "research",
+  }, env)
+
+  assert.deepEqual(parsed, {
+    namespace: "research",
+    label: "Research Notes",
+    rootPath: "research",
+    isPrivate: false,
+    encrypted: false,
+    shipDeploymentId: null,
+    isActive: true,
+  })
+})
+
+test("parseVaultRegistrationCreateInput rejects reserved namespaces, escaping roots and public encryption", () => {
+  const base = { namespace: "research", label: "Research", rootPath: "research" }
+
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, namespace: "agent-private" }, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, namespace: "joined" }, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, namespace: "bad/ns" }, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, rootPath: "../etc" }, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, rootPath: "/srv/vaults" }, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, label: "" }, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationCreateInput({ ...base, encrypted: true }, env), isValidationError)
+
+  const encrypted = parseVaultRegistrationCreateInput({ ...base, isPrivate: true, encrypted: true }, env)
+  assert.equal(encrypted.encrypted, true)
+})
+
+test("parseVaultRegistrationUpdateInput keeps namespace and encryption fixed", () => {
+  const existing = { isPrivate: true, encrypted: true }
+
+  assert.throws(() => parseVaultRegistrationUpdateInput({ namespace: "other" }, existing, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationUpdateInput({ encrypted: false }, existing, env), isValidationError)
+  assert.throws(() => parseVaultRegistrationUpdateInput({ isPrivate: false }, existing, env), isValidationError)
+
+  assert.deepEqual(
+    parseVaultRegistrationUpdateInput({ label: "Renamed", isActive: false }, existing, env),
+    { label: "Renamed", isActive: false },
+  )
+})
+
+test("resolveCustomVaultRoot refuses paths overlapping built-in vaults", () => {
+  const previousRepoRoot = process.env.VAULT_REPO_ROOT
+  process.env.VAULT_REPO_ROOT = "/srv/repo"
+
+  try {
+    const repoEnv: NodeJS.ProcessEnv = { ...process.env, VAULT_CUSTOM_ROOTS: "/srv/repo" }
+    assert.equal(resolveCustomVaultRoot("Team-Vault", repoEnv), resolve("/srv/repo/Team-Vault"))
+    assert.equal(resolveCustomVaultRoot("OWZ-Vault/nested", repoEnv), null)
+    assert.equal(resolveCustomVaultRoot("Agent-Vault", repoEnv), null)
+  } finally {
+    if (previousRepoRoot === undefined) {
+      delete process.env.VAULT_REPO_ROOT
+    } else {
+      process.env.VAULT_REPO_ROOT = previousRepoRoot
+    }
+  }
+})
+
+test("assertVaultRootIsDisjoint rejects equal, nested and containing roots, including via symlinks", async () => {
+  const root = await mkdtemp(join(tmpdir(), "vault-registry-"))
+  const rootsEnv: NodeJS.ProcessEnv = { ...process.env, VAULT_CUSTOM_ROOTS: root }
+  const isConflict = (error: unknown) => isValidationError(error) && (error as VaultRegistrationValidationError).status === 409
+
+  try {
+    await mkdir(join(root, "research", "notes"), { recursive: true })
+    await symlink(join(root, "research"), join(root, "alias"))
+    const others = [{ namespace: "research", rootPath: "research" }]
+
+    await assert.rejects(assertVaultRootIsDisjoint({ rootPath: "research", others, env: rootsEnv }), isConflict)
+    await assert.rejects(assertVaultRootIsDisjoint({ rootPath: "research/notes", others, env: rootsEnv }), isConflict)
+    await assert.rejects(assertVaultRootIsDisjoint({ rootPath: "alias", others, env: rootsEnv }), isConflict)
+    await assert.rejects(assertVaultRootIsDisjoint({ rootPath: "alias/new/deeper", others, env: rootsEnv }), isConflict)
+    await assert.rejects(
+      assertVaultRootIsDisjoint({ rootPath: "research", others: [{ namespace: "notes", rootPath: "alias/notes" }], env: rootsEnv }),
+      isConflict,
+    )
+
+    await assertVaultRootIsDisjoint({ rootPath: "research-archive", others, env: rootsEnv })
+    await assertVaultRootIsDisjoint({ rootPath: "other", others, env: rootsEnv })
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test("canonicalizeVaultRoot resolves the deepest existing ancestor of a missing root", async () => {
+  const root = await mkdtemp(join(tmpdir(), "vault-registry-"))
+
+  try {
+    await mkdir(join(root, "real"))
+    await symlink(join(root, "real"), join(root, "link"))
+    const realRoot = await canonicalizeVaultRoot(root)
+
+    assert.equal(await canonicalizeVaultRoot(join(root, "link", "a", "b")), join(realRoot, "real", "a", "b"))
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,227 @@
+import { realpath } from "node:fs/promises"
+import { basename, dirname, isAbsolute, join, relative, sep } from "node:path"
+import {
+  CUSTOM_VAULT_NAMESPACE_PATTERN,
+  isReservedVaultNamespace,
+  resolveCustomVaultRoot,
+} from "./config"
+
+const MAX_LABEL_LENGTH = 120
+
+export interface ParsedVaultRegistrationInput {
+  namespace: string
+  label: string
+  rootPath: string
+  isPrivate: boolean
+  encrypted: boolean
+  shipDeploymentId: string | null
+  isActive: boolean
+}
+
+/**
+ * The namespace is fixed after creation (joined paths, RAG chunks and
+ * revisions are keyed by it), and so is `encrypted`, since existing notes
+ * would be left in the other format.
+ */
+export type ParsedVaultRegistrationUpdateInput = Partial<Omit<ParsedVaultRegistrationInput, "namespace" | "encrypted">>
+
+export class VaultRegistrationValidationError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "VaultRegistrationValidationError"
+    this.status = status
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  return value as Record<string, unknown>
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function has(record: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function parseNamespace(value: unknown): string {
+  const namespace = asNonEmptyString(value)?.toLowerCase() || ""
+  if (!CUSTOM_VAULT_NAMESPACE_PATTERN.test(namespace)) {
+    throw new VaultRegistrationValidationError(
+      "namespace must be 1-48 lowercase letters, digits or '-' and start with a letter or digit.",
+    )
+  }
+  if (isReservedVaultNamespace(namespace)) {
+    throw new VaultRegistrationValidationError(`namespace \`${namespace}\` is reserved.`)
+  }
+
+  return namespace
+}
+
+function parseLabel(value: unknown): string {
+  const label = asNonEmptyString(value)
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    throw new VaultRegistrationValidationError(`label is required (max ${MAX_LABEL_LENGTH} characters).`)
+  }
+
+  return label
+}
+
+function parseRootPath(value: unknown, env: NodeJS.ProcessEnv): string {
+  const rootPath = asNonEmptyString(value)
+  if (!rootPath) {
+    throw new VaultRegistrationValidationError("rootPath is required.")
+  }
+  if (!resolveCustomVaultRoot(rootPath, env)) {
+    throw new VaultRegistrationValidationError(
+      "rootPath must be inside VAULT_CUSTOM_ROOTS and must not overlap a built-in vault.",
+    )
+  }
+
+  return rootPath
+}
+
+function parseBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new VaultRegistrationValidationError(`${field} must be a boolean.`)
+  }
+
+  return value
+}
+
+function parseShipDeploymentId(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null
+  }
+
+  const shipDeploymentId = asNonEmptyString(value)
+  if (!shipDeploymentId) {
+    throw new VaultRegistrationValidationError("shipDeploymentId must be a non-empty string or null.")
+  }
+
+  return shipDeploymentId
+}
+
+function assertEncryptionIsPrivate(isPrivate: boolean, encrypted: boolean): void {
+  if (encrypted && !isPrivate) {
+    throw new VaultRegistrationValidationError("Encrypted vaults must also be private.")
+  }
+}
+
+export function parseVaultRegistrationCreateInput(
+  body: unknown,
+  env: NodeJS.ProcessEnv = process.env,
+): ParsedVaultRegistrationInput {
+  const record = asRecord(body)
+  const isPrivate = has(record, "isPrivate") ? parseBoolean(record.isPrivate, "isPrivate") : false
+  const encrypted = has(record, "encrypted") ? parseBoolean(record.encrypted, "encrypted") : false
+  assertEncryptionIsPrivate(isPrivate, encrypted)
+
+  return {
+    namespace: parseNamespace(record.namespace),
+    label: parseLabel(record.label),
+    rootPath: parseRootPath(record.rootPath, env),
+    isPrivate,
+    encrypted,
+    shipDeploymentId: parseShipDeploymentId(record.shipDeploymentId),
+    isActive: has(record, "isActive") ? parseBoolean(record.isActive, "isActive") : true,
+  }
+}
+
+export function parseVaultRegistrationUpdateInput(
+  body: unknown,
+  existing: { isPrivate: boolean; encrypted: boolean },
+  env: NodeJS.ProcessEnv = process.env,
+): ParsedVaultRegistrationUpdateInput {
+  const record = asRecord(body)
+  for (const field of ["namespace", "encrypted"]) {
+    if (has(record, field)) {
+      throw new VaultRegistrationValidationError(`${field} cannot be changed; register a new vault instead.`)
+    }
+  }
+
+  const update: ParsedVaultRegistrationUpdateInput = {}
+  if (has(record, "label")) update.label = parseLabel(record.label)
+  if (has(record, "rootPath")) update.rootPath = parseRootPath(record.rootPath, env)
+  if (has(record, "isPrivate")) update.isPrivate = parseBoolean(record.isPrivate, "isPrivate")
+  if (has(record, "shipDeploymentId")) update.shipDeploymentId = parseShipDeploymentId(record.shipDeploymentId)
+  if (has(record, "isActive")) update.isActive = parseBoolean(record.isActive, "isActive")
+
+  assertEncryptionIsPrivate(update.isPrivate ?? existing.isPrivate, existing.encrypted)
+  return update
+}
+
+/**
+ * Resolves symlinks so two spellings of one directory compare equal. A root
+ * that does not exist yet keeps its missing tail on top of the deepest
+ * existing ancestor's real path.
+ */
+export async function canonicalizeVaultRoot(absolutePath: string): Promise<string> {
+  const missing: string[] = []
+  let current = absolutePath
+  for (;;) {
+    try {
+      return join(await realpath(current), ...missing.reverse())
+    } catch (error) {
+      const parent = dirname(current)
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT" || parent === current) {
+        throw error
+      }
+      missing.push(basename(current))
+      current = parent
+    }
+  }
+}
+
+function containsPath(parent: string, child: string): boolean {
+  const relation = relative(parent, child)
+  return relation === "" || (!relation.startsWith(`..${sep}`) && relation !== ".." && !isAbsolute(relation))
+}
+
+/**
+ * Rejects (409) a root that equals, contains or sits inside another
+ * registration's root, whoever owns it: overlapping roots would index and
+ * expose the same notes under two namespaces with different access rules.
+ * Registrations whose stored root is no longer allowed are skipped.
+ */
+export async function assertVaultRootIsDisjoint(args: {
+  rootPath: string
+  others: Array<{ namespace: string; rootPath: string }>
+  env?: NodeJS.ProcessEnv
+}): Promise<void> {
+  const env = args.env || process.env
+  const absolutePath = resolveCustomVaultRoot(args.rootPath, env)
+  if (!absolutePath) {
+    throw new VaultRegistrationValidationError(
+      "rootPath must be inside VAULT_CUSTOM_ROOTS and must not overlap a built-in vault.",
+    )
+  }
+
+  const candidate = await canonicalizeVaultRoot(absolutePath)
+  for (const other of args.others) {
+    const otherPath = resolveCustomVaultRoot(other.rootPath, env)
+    if (!otherPath) {
+      continue
+    }
+
+    const existing = await canonicalizeVaultRoot(otherPath)
+    if (containsPath(existing, candidate) || containsPath(candidate, existing)) {
+      throw new VaultRegistrationValidationError(
+        `rootPath overlaps the root of vault \`${other.namespace}\`.`,
+        409,
+      )
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { VaultRegistration } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import {
+  customVaultId,
+  listPhysicalVaultDefinitions,
+  resolveCustomVaultRoot,
+  setCustomVaultDefinitions,
+  type VaultAccess,
+  type VaultDefinition,
+} from "./config"
+
+const REGISTRY_CACHE_TTL_MS = 30_000
+const ENCRYPTED_VAULT_LABEL = "Encrypted via wallet-enclave"
+
+type VaultRegistryLoader = () => Promise<VaultRegistration[]>
+
+const defaultLoader: VaultRegistryLoader = () =>
+  prisma.vaultRegistration.findMany({
+    where: {
+      isActive: true,
+    },
+    orderBy: {
+      namespace: "asc",
+    },
+  })
+
+let registryLoader: VaultRegistryLoader = defaultLoader
+let registryExpiresAt = 0
+let registryGeneration = 0
+let inflightLoad: Promise<void> | null = null
+
+export function __setVaultRegistryLoaderForTests(nextLoader: VaultRegistryLoader | null): void {
+  registryLoader = nextLoader || defaultLoader
+  clearVaultRegistryCache()
+}
+
+/** Also detaches any in-flight load so it cannot overwrite newer registrations. */
+export function clearVaultRegistryCache(): void {
+  registryExpiresAt = 0
+  registryGeneration += 1
+  inflightLoad = null
+}
+
+/** Null when the stored root is no longer allowed (e.g. `VAULT_CUSTOM_ROOTS` changed). */
+export function toCustomVaultDefinition(
+  record: VaultRegistration,
+  env: NodeJS.ProcessEnv = process.env,
+): VaultDefinition | null {
+  const absolutePath = resolveCustomVaultRoot(record.rootPath, env)
+  if (!absolutePath) {
+    return null
+  }
+
+  return {
+    id: customVaultId(record.namespace),
+    label: record.label,
+    namespace: record.namespace,
+    relativePath: record.rootPath,
+    isPrivate: record.isPrivate,
+    encrypted: record.encrypted,
+    ...(record.encrypted ? { encryptedLabel: ENCRYPTED_VAULT_LABEL } : {}),
+    custom: {
+      recordId: record.id,
+      ownerUserId: record.ownerUserId,
+      shipDeploymentId: record.shipDeploymentId,
+      absolutePath,
+    },
+  }
+}
+
+/**
+ * Refreshes the custom vault definitions held by `config.ts`. Cached briefly;
+ * a failed load keeps the previous set so built-in vaults keep working.
+ */
+export async function loadVaultRegistry(): Promise<void> {
+  if (Date.now() < registryExpiresAt) {
+    return
+  }
+
+  if (!inflightLoad) {
+    const generation = registryGeneration
+    inflightLoad = (async () => {
+      try {
+        const records = await registryLoader()
+        if (generation === registryGeneration) {
+          setCustomVaultDefinitions(
+            records
+              .map((record) => toCustomVaultDefinition(record))
+              .filter((definition): definition is VaultDefinition => definition !== null),
+          )
+        }
+      } catch (error) {
+        console.error("Vault registry load failed (fail-open):", error)
+      } finally {
+        if (generation === registryGeneration) {
+          registryExpiresAt = Date.now() + REGISTRY_CACHE_TTL_MS
+          inflightLoad = null
+        }
+      }
+    })()
+  }
+
+  await inflightLoad
+}
+
+/** Access context for a signed-in user: their own vaults plus those bound to ships they own. */
+export async function resolveVaultAccess(userId: string): Promise<VaultAccess> {
+  await loadVaultRegistry()
+
+  const hasShipBoundVaults = listPhysicalVaultDefinitions("all").some((definition) => definition.custom?.shipDeploymentId)
+  if (!hasShipBoundVaults) {
+    return { userId, shipDeploymentIds: [] }
+  }
+
+  const ships = await prisma.agentDeployment.findMany({
+    where: {
+      userId,
+      deploymentType: "ship",
+    },
+    select: {
+      id: true,
+    },
+  })
+
+  return {
+    userId,
+    shipDeploymentIds: ships.map((ship) => ship.id),
+  }
+}
+
+/**
+ * Drops the RAG index of a custom vault namespace (chunks cascade). With
+ * `revisions`, its note history goes too; deactivation keeps history so a
+ * reactivated vault still has it, and revisions are only served for
+ * registered vaults.
+ */
+export async function purgeVaultNamespaceData(
+  namespace: string,
+  options: { revisions: boolean },
+): Promise<void> {
+  const physicalVaultId = customVaultId(namespace)
+  await prisma.$transaction([
+    prisma.vaultRagDocument.deleteMany({
+      where: {
+        physicalVaultId,
+      },
+    }),
+    ...(options.revisions
+      ? [
+          prisma.vaultNoteRevision.deleteMany({
+            where: {
+              physicalVaultId,
+            },
+          }),
+        ]
+      : []),
+  ])
+}
+
+export function serializeVaultRegistration(record: VaultRegistration) {
+  return {
+    ...record,
+    vaultId: customVaultId(record.namespace),
+    rootAvailable: resolveCustomVaultRoot(record.rootPath) !== null,
+  }
+}
@@ -0,0 +1,202 @@
+import { createHash } from "node:crypto"
+import type { VaultNoteRevision } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import type {
+  PhysicalVaultId,
+  VaultNoteRevisionAction,
+  VaultNoteRevisionSummary,
+  VaultRevisionAuthor,
+} from "./types"
+
+const MAX_MOVE_HOPS = 10
+
+export interface VaultNoteRevisionInput {
+  physicalVaultId: PhysicalVaultId
+  physicalPath: string
+  previousPath?: string | null
+  trashPath?: string | null
+  action: VaultNoteRevisionAction
+  /** Content as stored on disk: the encrypted envelope for private notes. */
+  storedContent: string
+  encrypted: boolean
+  author: VaultRevisionAuthor
+}
+
+function asNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || "", 10)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return fallback
+  }
+  return parsed
+}
+
+/** Consecutive saves by one author within this window update a single revision (editor autosave). */
+export function vaultRevisionCoalesceMs(env: NodeJS.ProcessEnv = process.env): number {
+  return asNonNegativeInt(env.VAULT_REVISION_COALESCE_MS, 60_000)
+}
+
+export function vaultRevisionContentHash(storedContent: string): string {
+  return createHash("sha256").update(storedContent, "utf8").digest("hex")
+}
+
+function authorColumns(author: VaultRevisionAuthor) {
+  return {
+    authorType: author.type,
+    authorUserId: author.type === "system" ? null : author.userId || null,
+    authorSubagentId: author.type === "subagent" ? author.subagentId : null,
+  }
+}
+
+function sameAuthor(revision: VaultNoteRevision, author: VaultRevisionAuthor): boolean {
+  const columns = authorColumns(author)
+  return revision.authorType === columns.authorType
+    && revision.authorUserId === columns.authorUserId
+    && revision.authorSubagentId === columns.authorSubagentId
+}
+
+/**
+ * Author for a user-initiated vault mutation. A `subagentId` attributes the
+ * change to that subagent on the user's behalf; returns null when the user
+ * cannot act as it (not owned and not shared).
+ */
+export async function resolveVaultRevisionAuthor(args: {
+  userId: string
+  subagentId?: string | null
+}): Promise<VaultRevisionAuthor | null> {
+  const subagentId = args.subagentId?.trim()
+  if (!subagentId) {
+    return { type: "user", userId: args.userId }
+  }
+
+  const subagent = await prisma.subagent.findFirst({
+    where: {
+      id: subagentId,
+      OR: [{ ownerUserId: args.userId }, { isShared: true }],
+    },
+    select: { id: true },
+  })
+
+  return subagent ? { type: "subagent", subagentId: subagent.id, userId: args.userId } : null
+}
+
+export async function recordVaultNoteRevision(input: VaultNoteRevisionInput): Promise<void> {
+  const contentHash = vaultRevisionContentHash(input.storedContent)
+  const data = {
+    content: input.storedContent,
+    encrypted: input.encrypted,
+    contentHash,
+    byteSize: Buffer.byteLength(input.storedContent, "utf8"),
+  }
+
+  if (input.action === "update") {
+    const latest = await prisma.vaultNoteRevision.findFirst({
+      where: {
+        physicalVaultId: input.physicalVaultId,
+        physicalPath: input.physicalPath,
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    })
+
+    if (latest && latest.action !== "delete" && latest.contentHash === contentHash) {
+      return
+    }
+
+    const coalesceMs = vaultRevisionCoalesceMs()
+    if (
+      latest
+      && coalesceMs > 0
+      && (latest.action === "create" || latest.action === "update")
+      && sameAuthor(latest, input.author)
+      && Date.now() - latest.updatedAt.getTime() <= coalesceMs
+    ) {
+      await prisma.vaultNoteRevision.update({
+        where: { id: latest.id },
+        data,
+      })
+      return
+    }
+  }
+
+  await prisma.vaultNoteRevision.create({
+    data: {
+      physicalVaultId: input.physicalVaultId,
+      physicalPath: input.physicalPath,
+      previousPath: input.previousPath || null,
+      trashPath: input.trashPath || null,
+      action: input.action,
+      ...data,
+      ...authorColumns(input.author),
+    },
+  })
+}
+
+/**
+ * Revisions of a note, newest first. When the oldest revision at a path is
+ * the move that created it, history continues at the previous path so a
+ * renamed note keeps its earlier versions.
+ */
+export async function listVaultNoteRevisions(args: {
+  physicalVaultId: PhysicalVaultId
+  physicalPath: string
+  limit: number
+}): Promise<VaultNoteRevision[]> {
+  const revisions: VaultNoteRevision[] = []
+  let path = args.physicalPath
+  let before: Date | null = null
+
+  for (let hop = 0; hop < MAX_MOVE_HOPS && revisions.length < args.limit; hop += 1) {
+    const rows: VaultNoteRevision[] = await prisma.vaultNoteRevision.findMany({
+      where: {
+        physicalVaultId: args.physicalVaultId,
+        physicalPath: path,
+        ...(before ? { createdAt: { lt: before } } : {}),
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      take: args.limit - revisions.length,
+    })
+
+    revisions.push(...rows)
+    const oldest = rows[rows.length - 1]
+    if (!oldest || oldest.action !== "move" || !oldest.previousPath) {
+      break
+    }
+
+    path = oldest.previousPath
+    before = oldest.createdAt
+  }
+
+  return revisions
+}
+
+export async function findVaultNoteRevision(id: string): Promise<VaultNoteRevision | null> {
+  return prisma.vaultNoteRevision.findUnique({
+    where: { id },
+  })
+}
+
+export function serializeVaultNoteRevision(
+  revision: VaultNoteRevision,
+  toScopedPath: (physicalPath: string) => string,
+): VaultNoteRevisionSummary {
+  return {
+    id: revision.id,
+    path: toScopedPath(revision.physicalPath),
+    previousPath: revision.previousPath ? toScopedPath(revision.previousPath) : null,
+    trashPath: revision.trashPath ? toScopedPath(revision.trashPath) : null,
+    action: revision.action,
+    contentHash: revision.contentHash,
+    byteSize: revision.byteSize,
+    encrypted: revision.encrypted,
+    author: {
+      type: revision.authorType,
+      userId: revision.authorUserId,
+      subagentId: revision.authorSubagentId,
+    },
+    createdAt: revision.createdAt.toISOString(),
+    originVaultId: revision.physicalVaultId as PhysicalVaultId,
+  }
+}
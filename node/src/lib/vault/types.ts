@@ -1,4 +1,7 @@
-export type VaultId = "orchwiz" | "ship" | "agent-public" | "agent-private" | "joined"
+export type BuiltInVaultId = "orchwiz" | "ship" | "agent-public" | "agent-private"
+/** User-registered vault; the suffix is its joined-view namespace. */
+export type CustomVaultId = `custom:${string}`
+export type VaultId = BuiltInVaultId | CustomVaultId | "joined"
 export type VaultRagMode = "hybrid" | "lexical"
 export type VaultRagBackend = "auto" | "vault-local" | "data-core-merged"
 export type VaultRagScopeType = "ship" | "fleet" | "global"
@@ -6,6 +9,7 @@ export type VaultRagScopeType = "ship" | "fleet" | "global"
 export type PhysicalVaultId = Exclude<VaultId, "joined">
 export type VaultFileReadMode = "preview" | "full"
 export type VaultDeleteMode = "soft" | "hard"
+export type VaultNoteRevisionAction = "create" | "update" | "move" | "delete" | "restore"
 
 export interface VaultSummary {
   id: VaultId
@@ -15,6 +19,9 @@ export interface VaultSummary {
   isJoined: boolean
   encryptedLabel?: string
   noteCount: number
+  /** Joined-view path prefix; absent for the joined summary itself. */
+  namespace?: string
+  isCustom?: boolean
 }
 
 export interface VaultTreeNode {
@@ -84,12 +91,18 @@ export interface VaultDeleteResponse {
   originVaultId?: PhysicalVaultId
 }
 
+/** Frontmatter values as strings; YAML lists become string arrays. */
+export type VaultNotePropertyValue = string | string[]
+export type VaultNoteProperties = Record<string, VaultNotePropertyValue>
+
 export interface VaultSearchResult {
   vaultId: VaultId
   path: string
   title: string
   excerpt: string
   originVaultId?: PhysicalVaultId
+  /** Present when the query used property filters. */
+  properties?: VaultNoteProperties
   score?: number
   scopeType?: VaultRagScopeType
   shipDeploymentId?: string | null
@@ -103,9 +116,18 @@ export interface VaultSearchResult {
     score: number
     lexicalScore: number
     semanticScore: number
+    anchor?: VaultRagSourceAnchor
   }>
 }
 
+/** Page, line range or section a RAG chunk was cut from. */
+export interface VaultRagSourceAnchor {
+  page?: number
+  lineStart?: number
+  lineEnd?: number
+  section?: string
+}
+
 export interface VaultSearchResponse {
   vaultId: VaultId
   exists: boolean
@@ -122,6 +144,23 @@ export interface VaultSearchResponse {
   results: VaultSearchResult[]
 }
 
+export interface VaultPropertyTableRow {
+  path: string
+  title: string
+  originVaultId: PhysicalVaultId
+  properties: VaultNoteProperties
+}
+
+export interface VaultPropertyTableResponse {
+  vaultId: VaultId
+  exists: boolean
+  query: string
+  /** Property keys across the rows, most common first. */
+  columns: string[]
+  rows: VaultPropertyTableRow[]
+  truncated: boolean
+}
+
 export interface VaultGraphNode {
   id: string
   nodeType: "note" | "ghost"
@@ -190,3 +229,72 @@ export interface VaultSeedPackInstallResponse {
   noteCount: number
   files: VaultSeedPackInstalledFile[]
 }
+
+export type VaultRevisionAuthor =
+  | { type: "user"; userId: string }
+  | { type: "subagent"; subagentId: string; userId?: string | null }
+  | { type: "system" }
+
+export interface VaultNoteRevisionSummary {
+  id: string
+  path: string
+  previousPath: string | null
+  trashPath: string | null
+  action: VaultNoteRevisionAction
+  contentHash: string
+  byteSize: number
+  encrypted: boolean
+  author: {
+    type: VaultRevisionAuthor["type"]
+    userId: string | null
+    subagentId: string | null
+  }
+  createdAt: string
+  originVaultId: PhysicalVaultId
+}
+
+export interface VaultNoteHistoryResponse {
+  vaultId: VaultId
+  path: string
+  revisions: VaultNoteRevisionSummary[]
+  originVaultId: PhysicalVaultId
+}
+
+export interface VaultNoteRevisionResponse {
+  vaultId: VaultId
+  revision: VaultNoteRevisionSummary
+  content: string
+}
+
+export interface VaultNoteDiffLine {
+  type: "context" | "add" | "remove"
+  text: string
+  oldLine: number | null
+  newLine: number | null
+}
+
+export interface VaultNoteDiffResponse {
+  vaultId: VaultId
+  path: string
+  fromRevisionId: string
+  toRevisionId: string | "current"
+  added: number
+  removed: number
+  lines: VaultNoteDiffLine[]
+}
+
+export interface VaultRestoreResponse extends VaultSaveResponse {
+  restoredFrom: { revisionId: string } | { trashPath: string }
+}
+
+export interface VaultTrashEntry {
+  trashPath: string
+  originalPath: string
+  deletedAt: string | null
+  originVaultId: PhysicalVaultId
+}
+
+export interface VaultTrashResponse {
+  vaultId: VaultId
+  entries: VaultTrashEntry[]
+}
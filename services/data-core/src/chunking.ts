@@ -1,3 +1,5 @@
+import type { DataCoreEmbeddingConfig } from "./config.js"
+
 export interface ChunkDraft {
   chunkIndex: number
   heading: string | null
@@ -170,43 +172,53 @@ export function parseEmbedding(value: unknown): number[] | null {
   return parsed.length > 0 ? parsed : null
 }
 
-export async function embedTextsWithOpenAi(texts: string[], model: string): Promise<number[][] | null> {
+/**
+ * Embeds `texts` with the configured endpoint. Resolves to `null` on any
+ * failure (and for hosted OpenAI without a key) so queries degrade to lexical
+ * ranking instead of failing.
+ */
+export async function embedTexts(texts: string[], config: DataCoreEmbeddingConfig): Promise<number[][] | null> {
   if (texts.length === 0) {
     return []
   }
 
-  const apiKey = process.env.OPENAI_API_KEY?.trim()
-  if (!apiKey) {
+  if (config.provider === "openai" && !config.apiKey) {
     return null
   }
 
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`
+  }
+
   let response: Response
   try {
-    response = await fetch("https://api.openai.com/v1/embeddings", {
+    response = await fetch(`${config.baseUrl}/embeddings`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
+      headers,
       body: JSON.stringify({
-        model,
+        model: config.model,
         input: texts,
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
       }),
+      signal: AbortSignal.timeout(config.timeoutMs),
     })
   } catch (error) {
-    console.error("Data-core embedding request failed:", error)
+    console.error(`Data-core embedding request to ${config.provider} failed:`, error)
     return null
   }
 
   if (!response.ok) {
-    console.error("Data-core embedding request returned non-2xx:", response.status)
+    console.error(`Data-core embedding request to ${config.provider} returned non-2xx:`, response.status)
     return null
   }
 
   const payload = (await response.json().catch(() => null)) as
     | { data?: Array<{ embedding?: unknown; index?: number }> }
     | null
-  if (!payload?.data || !Array.isArray(payload.data)) {
+  if (!payload?.data || !Array.isArray(payload.data) || payload.data.length !== texts.length) {
     return null
   }
 
@@ -220,5 +232,6 @@ export async function embedTextsWithOpenAi(texts: string[], model: string): Prom
     vectors.push(embedding)
   }
 
-  return vectors
+  // Mixed widths cannot be compared by cosine similarity.
+  return vectors.every((vector) => vector.length === vectors[0].length) ? vectors : null
 }
@@ -2,6 +2,8 @@ import { asBoolean, asPositiveInt } from "./util.js"
 
 export type DataCoreRole = "ship" | "fleet"
 
+export type DataCoreConflictPolicy = "manual" | "last-writer-wins" | "merge"
+
 export interface DataCoreEdgeQuakePluginConfig {
   enabled: boolean
   baseUrl: string | null
@@ -14,6 +16,19 @@ export interface DataCoreEdgeQuakePluginConfig {
   drainIntervalMs: number
 }
 
+export type DataCoreEmbeddingProvider = "openai" | "openai-compatible"
+
+/** Any OpenAI-style `/embeddings` endpoint; `openai-compatible` covers Ollama and text-embeddings-inference. */
+export interface DataCoreEmbeddingConfig {
+  provider: DataCoreEmbeddingProvider
+  baseUrl: string
+  apiKey: string | null
+  model: string
+  /** Requested output width; null keeps the model default. */
+  dimensions: number | null
+  timeoutMs: number
+}
+
 export interface DataCoreConfig {
   host: string
   port: number
@@ -30,6 +45,8 @@ export interface DataCoreConfig {
   queryCandidateLimit: number
   queryTopKDefault: number
   enableMergeWorker: boolean
+  conflictPolicy: DataCoreConflictPolicy
+  embedding: DataCoreEmbeddingConfig
   edgequake: DataCoreEdgeQuakePluginConfig
 }
 
@@ -47,9 +64,32 @@ function optional(name: string): string | null {
   return value.trim()
 }
 
+function loadEmbeddingConfig(): DataCoreEmbeddingConfig {
+  const providerRaw = (process.env.DATA_CORE_EMBEDDING_PROVIDER || "openai").trim().toLowerCase()
+  const provider: DataCoreEmbeddingProvider = providerRaw === "openai-compatible" || providerRaw === "local"
+    ? "openai-compatible"
+    : "openai"
+  const dimensions = Number.parseInt(process.env.DATA_CORE_EMBEDDING_DIMENSIONS || "", 10)
+  const baseUrl = optional("DATA_CORE_EMBEDDING_BASE_URL")
+    || (provider === "openai" ? "https://api.openai.com/v1" : "http://localhost:11434/v1")
+
+  return {
+    provider,
+    baseUrl: baseUrl.replace(/\/+$/u, ""),
+    apiKey: optional("DATA_CORE_EMBEDDING_API_KEY") || (provider === "openai" ? optional("OPENAI_API_KEY") : null),
+    model: optional("DATA_CORE_EMBEDDING_MODEL") || (provider === "openai" ? "text-embedding-3-small" : "nomic-embed-text"),
+    dimensions: Number.isFinite(dimensions) && dimensions > 0 ? dimensions : null,
+    timeoutMs: asPositiveInt(process.env.DATA_CORE_EMBEDDING_TIMEOUT_MS, 30000),
+  }
+}
+
 export function loadConfig(): DataCoreConfig {
   const roleRaw = (process.env.DATA_CORE_ROLE || "ship").trim().toLowerCase()
   const role: DataCoreRole = roleRaw === "fleet" ? "fleet" : "ship"
+  const conflictPolicyRaw = (process.env.DATA_CORE_CONFLICT_POLICY || "manual").trim().toLowerCase()
+  const conflictPolicy: DataCoreConflictPolicy = conflictPolicyRaw === "last-writer-wins" || conflictPolicyRaw === "merge"
+    ? conflictPolicyRaw
+    : "manual"
   const edgequakeEnabled = asBoolean(process.env.DATA_CORE_PLUGIN_EDGEQUAKE_ENABLED, false)
   const edgequakeBaseUrlRaw = optional("DATA_CORE_PLUGIN_EDGEQUAKE_BASE_URL")
   const edgequakeBaseUrl = edgequakeBaseUrlRaw ? edgequakeBaseUrlRaw.replace(/\/+$/u, "") : null
@@ -73,6 +113,8 @@ export function loadConfig(): DataCoreConfig {
     queryCandidateLimit: asPositiveInt(process.env.DATA_CORE_QUERY_CANDIDATE_LIMIT, 2500),
     queryTopKDefault: asPositiveInt(process.env.DATA_CORE_QUERY_TOP_K, 12),
     enableMergeWorker: asBoolean(process.env.DATA_CORE_ENABLE_MERGE_WORKER, true),
+    conflictPolicy,
+    embedding: loadEmbeddingConfig(),
     edgequake: {
       enabled: edgequakeEnabled,
       baseUrl: edgequakeBaseUrl,
@@ -55,6 +55,16 @@ export async function ensureSchema(db: DataCoreDb): Promise<void> {
       UNIQUE(writer_type, writer_id)
     );
 
+    CREATE TABLE IF NOT EXISTS signer_binding_history (
+      id TEXT PRIMARY KEY,
+      writer_type TEXT NOT NULL,
+      writer_id TEXT NOT NULL,
+      key_ref TEXT NOT NULL,
+      address TEXT NOT NULL,
+      valid_from TIMESTAMPTZ NOT NULL DEFAULT now(),
+      valid_to TIMESTAMPTZ
+    );
+
     CREATE TABLE IF NOT EXISTS memory_event_log (
       id TEXT PRIMARY KEY,
       cursor BIGSERIAL UNIQUE,
@@ -138,6 +148,24 @@ export async function ensureSchema(db: DataCoreDb): Promise<void> {
       updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    CREATE TABLE IF NOT EXISTS memory_sync_conflict (
+      id TEXT PRIMARY KEY,
+      domain TEXT NOT NULL,
+      canonical_path TEXT NOT NULL,
+      local_event_id TEXT,
+      remote_event_id TEXT NOT NULL,
+      remote_core_id TEXT NOT NULL,
+      local_version_vector JSONB NOT NULL DEFAULT '{}'::jsonb,
+      remote_version_vector JSONB NOT NULL DEFAULT '{}'::jsonb,
+      status TEXT NOT NULL DEFAULT 'open',
+      resolution TEXT,
+      resolved_by TEXT,
+      resolution_event_id TEXT,
+      resolved_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
     CREATE TABLE IF NOT EXISTS ingest_idempotency (
       id TEXT PRIMARY KEY,
       idempotency_key TEXT NOT NULL UNIQUE,
@@ -185,15 +213,52 @@ export async function ensureSchema(db: DataCoreDb): Promise<void> {
       updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    ALTER TABLE memory_event_log ADD COLUMN IF NOT EXISTS version_vector JSONB NOT NULL DEFAULT '{}'::jsonb;
+    ALTER TABLE memory_event_log ADD COLUMN IF NOT EXISTS envelope JSONB;
+    ALTER TABLE memory_document_current ADD COLUMN IF NOT EXISTS version_vector JSONB NOT NULL DEFAULT '{}'::jsonb;
+    ALTER TABLE memory_sync_cursor ADD COLUMN IF NOT EXISTS last_pushed_cursor BIGINT NOT NULL DEFAULT 0;
+    ALTER TABLE memory_sync_cursor ADD COLUMN IF NOT EXISTS last_pushed_at TIMESTAMPTZ;
+    ALTER TABLE memory_chunk_index ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+    ALTER TABLE memory_chunk_index ADD COLUMN IF NOT EXISTS embedding_dimensions INT;
+
+    CREATE INDEX IF NOT EXISTS signer_binding_history_writer_idx
+      ON signer_binding_history(writer_type, writer_id, valid_from);
     CREATE INDEX IF NOT EXISTS memory_event_log_domain_path_idx ON memory_event_log(domain, canonical_path, occurred_at DESC);
     CREATE INDEX IF NOT EXISTS memory_event_log_cursor_idx ON memory_event_log(cursor);
     CREATE INDEX IF NOT EXISTS memory_document_current_domain_deleted_idx ON memory_document_current(domain, deleted_at);
     CREATE INDEX IF NOT EXISTS memory_chunk_index_domain_path_idx ON memory_chunk_index(domain, canonical_path);
     CREATE INDEX IF NOT EXISTS memory_chunk_index_updated_idx ON memory_chunk_index(updated_at DESC);
     CREATE INDEX IF NOT EXISTS memory_merge_job_status_idx ON memory_merge_job(status, created_at);
+    CREATE INDEX IF NOT EXISTS memory_sync_conflict_status_idx ON memory_sync_conflict(status, created_at);
+    CREATE INDEX IF NOT EXISTS memory_sync_conflict_domain_path_idx ON memory_sync_conflict(domain, canonical_path, status);
     CREATE INDEX IF NOT EXISTS memory_plugin_edgequake_sync_job_status_next_idx
       ON memory_plugin_edgequake_sync_job(status, next_attempt_at);
     CREATE INDEX IF NOT EXISTS memory_plugin_edgequake_sync_job_domain_path_idx
       ON memory_plugin_edgequake_sync_job(domain, canonical_path);
   `)
+
+  // Signers registered before bindings were versioned get their current binding, valid since registration.
+  await db.query(`
+    INSERT INTO signer_binding_history (id, writer_type, writer_id, key_ref, address, valid_from)
+    SELECT 'legacy:' || registry.id, registry.writer_type, registry.writer_id, registry.key_ref, registry.address, registry.created_at
+    FROM signer_registry registry
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM signer_binding_history history
+      WHERE history.writer_type = registry.writer_type AND history.writer_id = registry.writer_id
+    )
+  `)
+
+  // Chunks embedded before model tracking all came from the hosted OpenAI path,
+  // which only honoured DATA_CORE_EMBEDDING_MODEL.
+  await db.query(
+    `
+      UPDATE memory_chunk_index
+      SET embedding_model = $1, embedding_dimensions = jsonb_array_length(embedding)
+      WHERE embedding IS NOT NULL
+        AND embedding_model IS NULL
+        AND jsonb_typeof(embedding) = 'array'
+    `,
+    [process.env.DATA_CORE_EMBEDDING_MODEL?.trim() || "text-embedding-3-small"],
+  )
 }
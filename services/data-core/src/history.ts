@@ -0,0 +1,68 @@
+import type { MemoryWriteEnvelope } from "./schema.js"
+import { canonicalPayloadHash } from "./signature.js"
+
+/** Either bound may be set; with both, an event must satisfy each. */
+export interface PointInTime {
+  atCursor: number | null
+  asOf: Date | null
+}
+
+export interface HistoryChainEvent {
+  eventId: string
+  cursor: number
+  canonicalPath: string
+  envelope: MemoryWriteEnvelope
+  payloadHash: string
+  supersedesEventId: string | null
+  /** Latest applied event on the same path before this one, as seen in the log. */
+  expectedSupersedesEventId: string | null
+  /** Writer binding in force when the event was ingested, or `null` when none was. */
+  registeredSigner: { keyRef: string; address: string } | null
+}
+
+export interface HistoryVerificationFailure {
+  eventId: string
+  cursor: number
+  canonicalPath: string
+  reasons: string[]
+}
+
+/**
+ * Checks one logged event: its stored payload hash still matches the signed
+ * payload, the signer is bound to the key it signed with, and it supersedes
+ * the event that was current for its path.
+ */
+export function verifyHistoryChainEvent(event: HistoryChainEvent): string[] {
+  const reasons: string[] = []
+  const { envelope } = event
+
+  const computedHash = canonicalPayloadHash(envelope)
+  if (computedHash !== event.payloadHash) {
+    reasons.push("Payload hash mismatch")
+  }
+  if (envelope.signature.payloadHash !== event.payloadHash) {
+    reasons.push("Signature payload hash differs from logged hash")
+  }
+  if (!envelope.signature.signature.trim()) {
+    reasons.push("Empty signature value")
+  }
+
+  if (envelope.metadata.writerType !== "system") {
+    if (!event.registeredSigner) {
+      reasons.push("Signer is not registered")
+    } else {
+      if (event.registeredSigner.keyRef !== envelope.signature.keyRef) {
+        reasons.push("Signer keyRef mismatch")
+      }
+      if (event.registeredSigner.address !== envelope.signature.address) {
+        reasons.push("Signer address mismatch")
+      }
+    }
+  }
+
+  if ((event.supersedesEventId || null) !== (event.expectedSupersedesEventId || null)) {
+    reasons.push("Chain break: supersedes_event_id does not match the previous event for this path")
+  }
+
+  return reasons
+}
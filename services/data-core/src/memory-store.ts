@@ -2,12 +2,21 @@ import crypto from "node:crypto"
 import type { PoolClient } from "pg"
 import type { DataCoreConfig } from "./config.js"
 import type { DataCoreDb } from "./db.js"
-import { chunkMarkdownForRag, cosineSimilarity, embedTextsWithOpenAi, normalizeRagText, parseEmbedding, tokenizeRagText } from "./chunking.js"
+import { chunkMarkdownForRag, cosineSimilarity, embedTexts, normalizeRagText, parseEmbedding, tokenizeRagText } from "./chunking.js"
 import { extractLinks, resolveLinkPath } from "./links.js"
 import type { DataCorePlugin } from "./plugins/types.js"
-import type { MemoryWriteEnvelope } from "./schema.js"
-import { canonicalPayloadHash, verifyWriteSignature } from "./signature.js"
+import type { ConflictResolutionStrategy, MemoryWriteEnvelope } from "./schema.js"
+import { type HistoryVerificationFailure, type PointInTime, verifyHistoryChainEvent } from "./history.js"
+import { canonicalPayloadHash, verifyWalletEnclaveSignature, verifyWriteSignature } from "./signature.js"
 import { canonicalTitleFromPath } from "./util.js"
+import {
+  asVersionVector,
+  bumpVersionVector,
+  compareVersionVectors,
+  dominatesVersionVectors,
+  mergeVersionVectors,
+  type VersionVector,
+} from "./version-vector.js"
 
 interface DocumentRow {
   domain: string
@@ -18,6 +27,21 @@ interface DocumentRow {
   latest_event_id: string
   updated_at: string
   deleted_at: string | null
+  version_vector?: unknown
+}
+
+interface SignerBinding {
+  keyRef: string
+  address: string
+  validFrom: number
+  validTo: number | null
+}
+
+/** The binding in force when the event was ingested, i.e. the one it was verified against. */
+function signerBindingAt(bindings: SignerBinding[], ingestedAt: string): { keyRef: string; address: string } | null {
+  const at = asDate(ingestedAt).getTime()
+  const binding = bindings.find((entry) => entry.validFrom <= at && (entry.validTo === null || at < entry.validTo))
+  return binding ? { keyRef: binding.keyRef, address: binding.address } : null
 }
 
 interface ChunkRow {
@@ -29,6 +53,8 @@ interface ChunkRow {
   content: string
   normalized_content: string
   embedding: unknown
+  embedding_model: string | null
+  embedding_dimensions: number | null
 }
 
 interface EventRow {
@@ -51,8 +77,135 @@ interface EventRow {
   deleted: boolean
   supersedes_event_id: string | null
   status: string
+  version_vector?: unknown
+  envelope?: unknown
+}
+
+interface ConflictRow {
+  id: string
+  domain: string
+  canonical_path: string
+  local_event_id: string | null
+  remote_event_id: string
+  remote_core_id: string
+  local_version_vector: unknown
+  remote_version_vector: unknown
+  status: string
+  resolution: string | null
+  resolved_by: string | null
+  resolution_event_id: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
 }
 
+/** `conflict` and `superseded` events are logged but not materialized. */
+export type MemoryEventStatus = "applied" | "conflict" | "superseded"
+
+export interface MemorySyncConflictSummary {
+  id: string
+  domain: string
+  canonicalPath: string
+  remoteCoreId: string
+  status: string
+  resolution: string | null
+  resolvedBy: string | null
+  resolutionEventId: string | null
+  createdAt: string
+  resolvedAt: string | null
+}
+
+export interface MemorySyncConflictVersion {
+  eventId: string | null
+  sourceCoreId: string | null
+  writerId: string | null
+  occurredAt: string | null
+  deleted: boolean
+  contentMarkdown: string
+  versionVector: VersionVector
+}
+
+export interface MemoryHistoryEntry {
+  eventId: string
+  cursor: number
+  operation: string
+  status: string
+  canonicalPath: string
+  fromCanonicalPath: string | null
+  sourceCoreId: string
+  sourceSeq: number
+  occurredAt: string
+  ingestedAt: string
+  supersedesEventId: string | null
+  deleted: boolean
+  signer: {
+    writerType: string
+    writerId: string
+    keyRef: string | null
+    address: string | null
+    signature: string | null
+    payloadHash: string
+    signedAt: string | null
+  }
+}
+
+export interface MemorySyncCursor {
+  peerCoreId: string
+  pullCursor: number
+  pushCursor: number
+}
+
+export interface MemorySyncPeer {
+  peerCoreId: string
+  peerUrl: string
+  role: string
+  active: boolean
+  lastSeenAt: string | null
+  metadata: Record<string, unknown>
+}
+
+const EVENT_COLUMNS = `
+  id,
+  cursor,
+  source_core_id,
+  source_seq,
+  idempotency_key,
+  operation,
+  domain,
+  canonical_path,
+  content_markdown,
+  metadata,
+  writer_type,
+  writer_id,
+  signature,
+  payload_hash,
+  occurred_at,
+  ingested_at,
+  deleted,
+  supersedes_event_id,
+  status,
+  version_vector,
+  envelope
+`
+
+const CONFLICT_COLUMNS = `
+  id,
+  domain,
+  canonical_path,
+  local_event_id,
+  remote_event_id,
+  remote_core_id,
+  local_version_vector,
+  remote_version_vector,
+  status,
+  resolution,
+  resolved_by,
+  resolution_event_id,
+  resolved_at,
+  created_at,
+  updated_at
+`
+
 function ensureCanonicalPath(domain: string, canonicalPath: string): void {
   if (!canonicalPath.startsWith(`${domain}/`)) {
     throw new Error(`canonicalPath must start with ${domain}/`)
@@ -67,6 +220,154 @@ function asDate(value: string): Date {
   return parsed
 }
 
+function asIsoOrNull(value: string | null | undefined): string | null {
+  return value ? asDate(value).toISOString() : null
+}
+
+function systemSourceSeq(): number {
+  return Date.now() * 1000 + Math.floor(Math.random() * 1000)
+}
+
+function buildSystemEnvelope(args: {
+  coreId: string
+  operation: MemoryWriteEnvelope["operation"]
+  domain: string
+  canonicalPath: string
+  contentMarkdown?: string
+  metadata: Omit<MemoryWriteEnvelope["metadata"], "source" | "writerType">
+  idempotencyKey: string
+}): MemoryWriteEnvelope {
+  const envelope: MemoryWriteEnvelope = {
+    operation: args.operation,
+    domain: args.domain as MemoryWriteEnvelope["domain"],
+    canonicalPath: args.canonicalPath,
+    contentMarkdown: args.contentMarkdown,
+    metadata: {
+      ...args.metadata,
+      source: "system",
+      writerType: "system",
+    },
+    event: {
+      sourceCoreId: args.coreId,
+      sourceSeq: systemSourceSeq(),
+      occurredAt: new Date().toISOString(),
+      idempotencyKey: args.idempotencyKey,
+    },
+    signature: {
+      chain: "cardano",
+      alg: "cip8-ed25519",
+      keyRef: "system:qtm-lgr-fleet",
+      address: "system:qtm-lgr-fleet",
+      signature: "internal-merge-signature",
+      payloadHash: "",
+      signedAt: new Date().toISOString(),
+    },
+  }
+
+  envelope.signature.payloadHash = canonicalPayloadHash(envelope)
+  return envelope
+}
+
+/**
+ * Rebuilds the wire envelope for a logged event. Events logged before the
+ * `envelope` column existed are reconstructed from their columns, which can
+ * drift from the signed payload hash (timestamps lose their original format).
+ */
+function envelopeFromEventRow(row: EventRow): MemoryWriteEnvelope {
+  const stored = row.envelope && typeof row.envelope === "object" ? row.envelope as MemoryWriteEnvelope : null
+  const base: MemoryWriteEnvelope = stored || {
+    operation: row.operation as MemoryWriteEnvelope["operation"],
+    domain: row.domain as MemoryWriteEnvelope["domain"],
+    canonicalPath: row.canonical_path,
+    contentMarkdown: row.content_markdown ?? undefined,
+    metadata: row.metadata as MemoryWriteEnvelope["metadata"],
+    event: {
+      sourceCoreId: row.source_core_id,
+      sourceSeq: Number(row.source_seq),
+      occurredAt: asDate(row.occurred_at).toISOString(),
+      idempotencyKey: row.idempotency_key,
+    },
+    signature: row.signature as MemoryWriteEnvelope["signature"],
+  }
+
+  return {
+    ...base,
+    replication: {
+      versionVector: asVersionVector(row.version_vector),
+      originEventId: row.id,
+    },
+  }
+}
+
+/** Later `occurredAt` wins; ties go to the lexically greater core id so every core picks the same side. */
+function lastWriterWins(args: {
+  local: EventRow | null
+  remote: EventRow
+}): "keep-local" | "keep-remote" {
+  if (!args.local) {
+    return "keep-remote"
+  }
+
+  const localAt = asDate(args.local.occurred_at).getTime()
+  const remoteAt = asDate(args.remote.occurred_at).getTime()
+  if (localAt !== remoteAt) {
+    return remoteAt > localAt ? "keep-remote" : "keep-local"
+  }
+
+  return args.remote.source_core_id > args.local.source_core_id ? "keep-remote" : "keep-local"
+}
+
+// Events that changed a path's materialized state: writes to it and moves away from it.
+const TOUCHES_PATH_SQL = `(canonical_path = $2 OR (operation = 'move' AND metadata->>'fromCanonicalPath' = $2))`
+
+// Point-in-time bounds; `asOf` compares ingestion time, i.e. when this core learned of the event.
+const POINT_IN_TIME_SQL = `($3::bigint IS NULL OR cursor <= $3) AND ($4::timestamptz IS NULL OR ingested_at <= $4)`
+
+const MAX_MOVE_RECONSTRUCTION_DEPTH = 16
+
+function historyEntryFromRow(row: EventRow): MemoryHistoryEntry {
+  const signature = row.signature || {}
+  const fromCanonicalPath = row.metadata?.fromCanonicalPath
+  return {
+    eventId: row.id,
+    cursor: Number(row.cursor),
+    operation: row.operation,
+    status: row.status,
+    canonicalPath: row.canonical_path,
+    fromCanonicalPath: typeof fromCanonicalPath === "string" ? fromCanonicalPath : null,
+    sourceCoreId: row.source_core_id,
+    sourceSeq: Number(row.source_seq),
+    occurredAt: asDate(row.occurred_at).toISOString(),
+    ingestedAt: asDate(row.ingested_at).toISOString(),
+    supersedesEventId: row.supersedes_event_id,
+    deleted: row.deleted,
+    signer: {
+      writerType: row.writer_type,
+      writerId: row.writer_id,
+      keyRef: typeof signature.keyRef === "string" ? signature.keyRef : null,
+      address: typeof signature.address === "string" ? signature.address : null,
+      signature: typeof signature.signature === "string" ? signature.signature : null,
+      payloadHash: row.payload_hash,
+      signedAt: typeof signature.signedAt === "string" ? signature.signedAt : null,
+    },
+  }
+}
+
+function conflictSummaryFromRow(row: ConflictRow): MemorySyncConflictSummary {
+  return {
+    id: row.id,
+    domain: row.domain,
+    canonicalPath: row.canonical_path,
+    remoteCoreId: row.remote_core_id,
+    status: row.status,
+    resolution: row.resolution,
+    resolvedBy: row.resolved_by,
+    resolutionEventId: row.resolution_event_id,
+    createdAt: asDate(row.created_at).toISOString(),
+    resolvedAt: asIsoOrNull(row.resolved_at),
+  }
+}
+
 function lexicalScore(queryTokens: string[], haystack: string): number {
   if (queryTokens.length === 0 || !haystack) {
     return 0
@@ -153,6 +454,77 @@ function deterministicMerge(args: {
   ].join("\n")
 }
 
+function buildPathTree(canonicalPaths: string[]): Array<Record<string, unknown>> {
+  interface MutableNode {
+    id: string
+    name: string
+    path: string
+    nodeType: "folder" | "file"
+    children?: Map<string, MutableNode>
+  }
+
+  const root = new Map<string, MutableNode>()
+
+  const ensureNode = (
+    collection: Map<string, MutableNode>,
+    segment: string,
+    path: string,
+    nodeType: "folder" | "file",
+  ): MutableNode => {
+    const existing = collection.get(segment)
+    if (existing) {
+      if (nodeType === "folder" && !existing.children) {
+        existing.children = new Map()
+      }
+      return existing
+    }
+
+    const created: MutableNode = {
+      id: path,
+      name: segment,
+      path,
+      nodeType,
+      ...(nodeType === "folder" ? { children: new Map<string, MutableNode>() } : {}),
+    }
+    collection.set(segment, created)
+    return created
+  }
+
+  for (const canonicalPath of canonicalPaths) {
+    const segments = canonicalPath.split("/").filter(Boolean)
+    let current = root
+    let builtPath = ""
+
+    for (let idx = 0; idx < segments.length; idx += 1) {
+      const segment = segments[idx]
+      builtPath = builtPath ? `${builtPath}/${segment}` : segment
+      const isLeaf = idx === segments.length - 1
+      const node = ensureNode(current, segment, builtPath, isLeaf ? "file" : "folder")
+      if (!isLeaf) {
+        current = node.children as Map<string, MutableNode>
+      }
+    }
+  }
+
+  const serialize = (collection: Map<string, MutableNode>): Array<Record<string, unknown>> =>
+    [...collection.values()]
+      .sort((left, right) => {
+        if (left.nodeType !== right.nodeType) {
+          return left.nodeType === "folder" ? -1 : 1
+        }
+        return left.name.localeCompare(right.name)
+      })
+      .map((node) => ({
+        id: node.id,
+        name: node.name,
+        path: node.path,
+        nodeType: node.nodeType,
+        ...(node.children && node.children.size > 0 ? { children: serialize(node.children) } : {}),
+      }))
+
+  return serialize(root)
+}
+
 export class MemoryStore {
   constructor(
     private readonly db: DataCoreDb,
@@ -160,6 +532,11 @@ export class MemoryStore {
     private readonly plugin: DataCorePlugin | null = null,
   ) {}
 
+  /**
+   * Sets the writer's current binding. A changed key or address closes the
+   * previous binding in `signer_binding_history` instead of losing it, so
+   * events signed before a rotation still verify against the key they used.
+   */
   async upsertSigner(input: {
     writerType: string
     writerId: string
@@ -168,23 +545,61 @@ export class MemoryStore {
     key?: string
     metadata?: Record<string, unknown>
   }): Promise<{ writerType: string; writerId: string; keyRef: string; address: string }> {
-    const id = crypto.randomUUID()
     const metadata = input.metadata || {}
 
-    await this.db.query(
-      `
-        INSERT INTO signer_registry (id, writer_type, writer_id, key_ref, address, key, metadata)
-        VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
-        ON CONFLICT (writer_type, writer_id)
-        DO UPDATE SET
-          key_ref = EXCLUDED.key_ref,
-          address = EXCLUDED.address,
-          key = EXCLUDED.key,
-          metadata = EXCLUDED.metadata,
-          updated_at = now()
-      `,
-      [id, input.writerType, input.writerId, input.keyRef, input.address, input.key || null, JSON.stringify(metadata)],
-    )
+    await this.db.transaction(async (client) => {
+      const open = await client.query<{ id: string; key_ref: string; address: string }>(
+        `
+          SELECT id, key_ref, address
+          FROM signer_binding_history
+          WHERE writer_type = $1 AND writer_id = $2 AND valid_to IS NULL
+          FOR UPDATE
+        `,
+        [input.writerType, input.writerId],
+      )
+
+      const current = open.rows[0]
+      if (!current || current.key_ref !== input.keyRef || current.address !== input.address) {
+        await client.query(
+          `
+            UPDATE signer_binding_history
+            SET valid_to = now()
+            WHERE writer_type = $1 AND writer_id = $2 AND valid_to IS NULL
+          `,
+          [input.writerType, input.writerId],
+        )
+        await client.query(
+          `
+            INSERT INTO signer_binding_history (id, writer_type, writer_id, key_ref, address, valid_from)
+            VALUES ($1, $2, $3, $4, $5, now())
+          `,
+          [crypto.randomUUID(), input.writerType, input.writerId, input.keyRef, input.address],
+        )
+      }
+
+      await client.query(
+        `
+          INSERT INTO signer_registry (id, writer_type, writer_id, key_ref, address, key, metadata)
+          VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+          ON CONFLICT (writer_type, writer_id)
+          DO UPDATE SET
+            key_ref = EXCLUDED.key_ref,
+            address = EXCLUDED.address,
+            key = EXCLUDED.key,
+            metadata = EXCLUDED.metadata,
+            updated_at = now()
+        `,
+        [
+          crypto.randomUUID(),
+          input.writerType,
+          input.writerId,
+          input.keyRef,
+          input.address,
+          input.key || null,
+          JSON.stringify(metadata),
+        ],
+      )
+    })
 
     return {
       writerType: input.writerType,
@@ -194,6 +609,31 @@ export class MemoryStore {
     }
   }
 
+  /** Every binding the writer has had, oldest first. */
+  private async listSignerBindings(writerType: string, writerId: string): Promise<SignerBinding[]> {
+    const result = await this.db.query<{
+      key_ref: string
+      address: string
+      valid_from: string
+      valid_to: string | null
+    }>(
+      `
+        SELECT key_ref, address, valid_from, valid_to
+        FROM signer_binding_history
+        WHERE writer_type = $1 AND writer_id = $2
+        ORDER BY valid_from ASC
+      `,
+      [writerType, writerId],
+    )
+
+    return result.rows.map((row) => ({
+      keyRef: row.key_ref,
+      address: row.address,
+      validFrom: asDate(row.valid_from).getTime(),
+      validTo: row.valid_to ? asDate(row.valid_to).getTime() : null,
+    }))
+  }
+
   async getSigner(writerType: string, writerId: string): Promise<{
     writerType: string
     writerId: string
@@ -250,8 +690,7 @@ export class MemoryStore {
       return
     }
 
-    const embeddingModel = process.env.DATA_CORE_EMBEDDING_MODEL?.trim() || "text-embedding-3-small"
-    const embeddings = await embedTextsWithOpenAi(chunks.map((chunk) => chunk.content), embeddingModel)
+    const embeddings = await embedTexts(chunks.map((chunk) => chunk.content), this.config.embedding)
 
     for (let idx = 0; idx < chunks.length; idx += 1) {
       const chunk = chunks[idx]
@@ -266,9 +705,11 @@ export class MemoryStore {
             content,
             normalized_content,
             embedding,
+            embedding_model,
+            embedding_dimensions,
             updated_at
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, now())
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10, now())
         `,
         [
           crypto.randomUUID(),
@@ -279,6 +720,8 @@ export class MemoryStore {
           chunk.content,
           chunk.normalizedContent,
           embeddings?.[idx] ? JSON.stringify(embeddings[idx]) : null,
+          embeddings?.[idx] ? this.config.embedding.model : null,
+          embeddings?.[idx] ? embeddings[idx].length : null,
         ],
       )
     }
@@ -289,12 +732,14 @@ export class MemoryStore {
     envelope: MemoryWriteEnvelope
     deleted: boolean
     supersedesEventId?: string | null
-  }): Promise<{ eventId: string; duplicate: boolean }> {
+    status: MemoryEventStatus
+    versionVector: VersionVector
+  }): Promise<{ eventId: string; duplicate: boolean; status: MemoryEventStatus; versionVector: VersionVector }> {
     const { envelope } = args
 
-    const duplicate = await args.client.query<{ id: string }>(
+    const duplicate = await args.client.query<{ id: string; status: MemoryEventStatus; version_vector: unknown }>(
       `
-        SELECT id
+        SELECT id, status, version_vector
         FROM memory_event_log
         WHERE idempotency_key = $1
         LIMIT 1
@@ -306,6 +751,8 @@ export class MemoryStore {
       return {
         eventId: duplicate.rows[0].id,
         duplicate: true,
+        status: duplicate.rows[0].status,
+        versionVector: asVersionVector(duplicate.rows[0].version_vector),
       }
     }
 
@@ -329,7 +776,10 @@ export class MemoryStore {
           payload_hash,
           occurred_at,
           deleted,
-          supersedes_event_id
+          supersedes_event_id,
+          status,
+          version_vector,
+          envelope
         )
         VALUES (
           $1,
@@ -347,7 +797,10 @@ export class MemoryStore {
           $13,
           $14::timestamptz,
           $15,
-          $16
+          $16,
+          $17,
+          $18::jsonb,
+          $19::jsonb
         )
       `,
       [
@@ -367,12 +820,17 @@ export class MemoryStore {
         envelope.event.occurredAt,
         args.deleted,
         args.supersedesEventId || null,
+        args.status,
+        JSON.stringify(args.versionVector),
+        JSON.stringify({ ...envelope, replication: undefined }),
       ],
     )
 
     return {
       eventId,
       duplicate: false,
+      status: args.status,
+      versionVector: args.versionVector,
     }
   }
 
@@ -385,6 +843,9 @@ export class MemoryStore {
     domain: string
     canonicalPath: string
     mergeQueued: boolean
+    status: MemoryEventStatus
+    conflictId: string | null
+    versionVector: VersionVector
   }> {
     const { envelope } = args
     ensureCanonicalPath(envelope.domain, envelope.canonicalPath)
@@ -408,10 +869,11 @@ export class MemoryStore {
 
       const existingDoc = await client.query<DocumentRow>(
         `
-          SELECT domain, canonical_path, title, content_markdown, metadata, latest_event_id, updated_at, deleted_at
+          SELECT domain, canonical_path, title, content_markdown, metadata, latest_event_id, updated_at, deleted_at, version_vector
           FROM memory_document_current
           WHERE domain = $1 AND canonical_path = $2
           LIMIT 1
+          FOR UPDATE
         `,
         [envelope.domain, envelope.canonicalPath],
       )
@@ -420,9 +882,19 @@ export class MemoryStore {
       const previousUpdatedAt = latest ? asDate(latest.updated_at) : null
       const incomingOccurredAt = asDate(envelope.event.occurredAt)
 
+      // Replicated events carry the writer's version vector; local writes advance this core's counter.
+      const currentVector = asVersionVector(latest?.version_vector)
+      const incomingVector = envelope.replication ? asVersionVector(envelope.replication.versionVector) : null
+      const order = incomingVector && latest ? compareVersionVectors(incomingVector, currentVector) : null
+      const status: MemoryEventStatus = order === "concurrent"
+        ? "conflict"
+        : order === "before" || order === "equal" ? "superseded" : "applied"
+      const versionVector = incomingVector || bumpVersionVector(currentVector, this.config.coreId)
+
       let mergeQueued = false
       if (
-        latest
+        !incomingVector
+        && latest
         && !latest.deleted_at
         && previousUpdatedAt
         && previousUpdatedAt.getTime() > incomingOccurredAt.getTime()
@@ -446,21 +918,57 @@ export class MemoryStore {
         envelope,
         deleted,
         supersedesEventId: latest?.latest_event_id || null,
+        status,
+        versionVector,
       })
 
       let syncFromCanonicalPath: string | null = null
       let syncContentMarkdown: string | null = null
 
-      if (inserted.duplicate) {
+      if (inserted.duplicate || inserted.status !== "applied") {
+        let conflictId: string | null = null
+        if (!inserted.duplicate && inserted.status === "conflict") {
+          conflictId = crypto.randomUUID()
+          await client.query(
+            `
+              INSERT INTO memory_sync_conflict (
+                id,
+                domain,
+                canonical_path,
+                local_event_id,
+                remote_event_id,
+                remote_core_id,
+                local_version_vector,
+                remote_version_vector,
+                status
+              )
+              VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8::jsonb, 'open')
+            `,
+            [
+              conflictId,
+              envelope.domain,
+              envelope.canonicalPath,
+              latest?.latest_event_id || null,
+              inserted.eventId,
+              envelope.event.sourceCoreId,
+              JSON.stringify(currentVector),
+              JSON.stringify(inserted.versionVector),
+            ],
+          )
+        }
+
         return {
           eventId: inserted.eventId,
-          duplicate: true,
+          duplicate: inserted.duplicate,
           domain: envelope.domain,
           canonicalPath: envelope.canonicalPath,
           mergeQueued,
           operation: envelope.operation,
           syncFromCanonicalPath,
           syncContentMarkdown,
+          status: inserted.status,
+          conflictId,
+          versionVector: inserted.versionVector,
         }
       }
 
@@ -475,14 +983,16 @@ export class MemoryStore {
               content_markdown,
               metadata,
               latest_event_id,
+              version_vector,
               updated_at,
               deleted_at
             )
-            VALUES ($1, $2, $3, COALESCE($4, ''), $5::jsonb, $6, now(), now())
+            VALUES ($1, $2, $3, COALESCE($4, ''), $5::jsonb, $6, $7::jsonb, now(), now())
             ON CONFLICT (domain, canonical_path)
             DO UPDATE SET
               latest_event_id = EXCLUDED.latest_event_id,
               metadata = EXCLUDED.metadata,
+              version_vector = EXCLUDED.version_vector,
               updated_at = now(),
               deleted_at = now()
           `,
@@ -493,6 +1003,7 @@ export class MemoryStore {
             latest?.content_markdown || "",
             JSON.stringify(envelope.metadata),
             inserted.eventId,
+            JSON.stringify(versionVector),
           ],
         )
 
@@ -533,16 +1044,18 @@ export class MemoryStore {
               content_markdown,
               metadata,
               latest_event_id,
+              version_vector,
               updated_at,
               deleted_at
             )
-            VALUES ($1, $2, $3, $4, $5::jsonb, $6, now(), NULL)
+            VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb, now(), NULL)
             ON CONFLICT (domain, canonical_path)
             DO UPDATE SET
               title = EXCLUDED.title,
               content_markdown = EXCLUDED.content_markdown,
               metadata = EXCLUDED.metadata,
               latest_event_id = EXCLUDED.latest_event_id,
+              version_vector = EXCLUDED.version_vector,
               updated_at = now(),
               deleted_at = NULL
           `,
@@ -553,6 +1066,7 @@ export class MemoryStore {
             movedContent,
             JSON.stringify(envelope.metadata),
             inserted.eventId,
+            JSON.stringify(versionVector),
           ],
         )
 
@@ -588,16 +1102,18 @@ export class MemoryStore {
               content_markdown,
               metadata,
               latest_event_id,
+              version_vector,
               updated_at,
               deleted_at
             )
-            VALUES ($1, $2, $3, $4, $5::jsonb, $6, now(), NULL)
+            VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb, now(), NULL)
             ON CONFLICT (domain, canonical_path)
             DO UPDATE SET
               title = EXCLUDED.title,
               content_markdown = EXCLUDED.content_markdown,
               metadata = EXCLUDED.metadata,
               latest_event_id = EXCLUDED.latest_event_id,
+              version_vector = EXCLUDED.version_vector,
               updated_at = now(),
               deleted_at = NULL
           `,
@@ -608,6 +1124,7 @@ export class MemoryStore {
             content,
             JSON.stringify(envelope.metadata),
             inserted.eventId,
+            JSON.stringify(versionVector),
           ],
         )
 
@@ -629,6 +1146,15 @@ export class MemoryStore {
         ).catch(() => {})
       }
 
+      await this.closeSupersededConflicts({
+        client,
+        domain: envelope.domain,
+        canonicalPath: envelope.canonicalPath,
+        versionVector,
+        eventId: inserted.eventId,
+        exceptConflictId: envelope.metadata.conflictId || null,
+      })
+
       return {
         eventId: inserted.eventId,
         duplicate: false,
@@ -638,10 +1164,13 @@ export class MemoryStore {
         operation: envelope.operation,
         syncFromCanonicalPath,
         syncContentMarkdown,
+        status: inserted.status,
+        conflictId: null,
+        versionVector,
       }
     })
 
-    if (!applied.duplicate && this.plugin) {
+    if (!applied.duplicate && applied.status === "applied" && this.plugin) {
       void this.plugin.enqueueWriteSync({
         eventId: applied.eventId,
         operation: applied.operation,
@@ -654,12 +1183,59 @@ export class MemoryStore {
       })
     }
 
+    // Only the fleet hub applies the policy; ships hold the conflict until the hub's resolution replicates back.
+    if (applied.conflictId && this.config.conflictPolicy !== "manual" && this.config.role === "fleet") {
+      await this.autoResolveConflict(applied.conflictId).catch((error) => {
+        console.error("data-core conflict auto-resolve failed (fail-open):", error)
+      })
+    }
+
     return {
       eventId: applied.eventId,
       duplicate: applied.duplicate,
       domain: applied.domain,
       canonicalPath: applied.canonicalPath,
       mergeQueued: applied.mergeQueued,
+      status: applied.status,
+      conflictId: applied.conflictId,
+      versionVector: applied.versionVector,
+    }
+  }
+
+  private async closeSupersededConflicts(args: {
+    client: PoolClient
+    domain: string
+    canonicalPath: string
+    versionVector: VersionVector
+    eventId: string
+    exceptConflictId: string | null
+  }): Promise<void> {
+    const open = await args.client.query<ConflictRow>(
+      `
+        SELECT ${CONFLICT_COLUMNS}
+        FROM memory_sync_conflict
+        WHERE domain = $1 AND canonical_path = $2 AND status = 'open'
+      `,
+      [args.domain, args.canonicalPath],
+    )
+
+    for (const conflict of open.rows) {
+      if (conflict.id === args.exceptConflictId) continue
+      const covered = dominatesVersionVectors(
+        args.versionVector,
+        asVersionVector(conflict.local_version_vector),
+        asVersionVector(conflict.remote_version_vector),
+      )
+      if (!covered) continue
+
+      await args.client.query(
+        `
+          UPDATE memory_sync_conflict
+          SET status = 'resolved', resolution = 'superseded', resolution_event_id = $2, resolved_at = now(), updated_at = now()
+          WHERE id = $1
+        `,
+        [conflict.id, args.eventId],
+      )
     }
   }
 
@@ -807,78 +1383,263 @@ export class MemoryStore {
       params,
     )
 
-    interface MutableNode {
-      id: string
-      name: string
-      path: string
-      nodeType: "folder" | "file"
-      children?: Map<string, MutableNode>
+    return {
+      domain: args.domain,
+      prefix,
+      noteCount: rows.rows.length,
+      tree: buildPathTree(rows.rows.map((row) => row.canonical_path)),
     }
+  }
 
-    const root = new Map<string, MutableNode>()
-
-    const ensureNode = (
-      collection: Map<string, MutableNode>,
-      segment: string,
-      path: string,
-      nodeType: "folder" | "file",
-    ): MutableNode => {
-      const existing = collection.get(segment)
-      if (existing) {
-        if (nodeType === "folder" && !existing.children) {
-          existing.children = new Map()
-        }
-        return existing
-      }
+  /** Reconstructs a document from the event log as this core held it at `at`. */
+  async getFileAt(args: {
+    domain: string
+    canonicalPath: string
+    at: PointInTime
+  }): Promise<{
+    domain: string
+    canonicalPath: string
+    title: string
+    contentMarkdown: string
+    metadata: Record<string, unknown>
+    eventId: string
+    cursor: number
+    occurredAt: string
+    ingestedAt: string
+    signer: MemoryHistoryEntry["signer"]
+  } | null> {
+    const resolved = await this.resolveContentAt(args.domain, args.canonicalPath, args.at, 0)
+    if (!resolved) {
+      return null
+    }
 
-      const created: MutableNode = {
-        id: path,
-        name: segment,
-        path,
-        nodeType,
-        ...(nodeType === "folder" ? { children: new Map<string, MutableNode>() } : {}),
-      }
-      collection.set(segment, created)
-      return created
+    const entry = historyEntryFromRow(resolved.event)
+    return {
+      domain: args.domain,
+      canonicalPath: args.canonicalPath,
+      title: canonicalTitleFromPath(args.canonicalPath),
+      contentMarkdown: resolved.contentMarkdown,
+      metadata: resolved.event.metadata || {},
+      eventId: entry.eventId,
+      cursor: entry.cursor,
+      occurredAt: entry.occurredAt,
+      ingestedAt: entry.ingestedAt,
+      signer: entry.signer,
     }
+  }
 
-    for (const row of rows.rows) {
-      const segments = row.canonical_path.split("/").filter(Boolean)
-      let current = root
-      let builtPath = ""
-
-      for (let idx = 0; idx < segments.length; idx += 1) {
-        const segment = segments[idx]
-        builtPath = builtPath ? `${builtPath}/${segment}` : segment
-        const isLeaf = idx === segments.length - 1
-        const node = ensureNode(current, segment, builtPath, isLeaf ? "file" : "folder")
-        if (!isLeaf) {
-          current = node.children as Map<string, MutableNode>
-        }
+  private async resolveContentAt(
+    domain: string,
+    canonicalPath: string,
+    at: PointInTime,
+    depth: number,
+  ): Promise<{ event: EventRow; contentMarkdown: string } | null> {
+    const result = await this.db.query<EventRow>(
+      `
+        SELECT ${EVENT_COLUMNS}
+        FROM memory_event_log
+        WHERE domain = $1
+          AND status = 'applied'
+          AND ${TOUCHES_PATH_SQL}
+          AND ${POINT_IN_TIME_SQL}
+        ORDER BY cursor DESC
+        LIMIT 1
+      `,
+      [domain, canonicalPath, at.atCursor, at.asOf?.toISOString() || null],
+    )
+
+    const event = result.rows[0]
+    if (!event || event.operation === "delete" || event.canonical_path !== canonicalPath) {
+      return null
+    }
+
+    // Moves without explicit content carry the source document forward.
+    const fromCanonicalPath = event.metadata?.fromCanonicalPath
+    if (event.operation === "move" && event.content_markdown === null && typeof fromCanonicalPath === "string") {
+      if (depth >= MAX_MOVE_RECONSTRUCTION_DEPTH) {
+        throw new Error("Move chain is too deep to reconstruct")
       }
+      const source = await this.resolveContentAt(domain, fromCanonicalPath, { atCursor: Number(event.cursor) - 1, asOf: null }, depth + 1)
+      return { event, contentMarkdown: source?.contentMarkdown || "" }
     }
 
-    const serialize = (collection: Map<string, MutableNode>): Array<Record<string, unknown>> =>
-      [...collection.values()]
-        .sort((left, right) => {
-          if (left.nodeType !== right.nodeType) {
-            return left.nodeType === "folder" ? -1 : 1
-          }
-          return left.name.localeCompare(right.name)
-        })
-        .map((node) => ({
-          id: node.id,
-          name: node.name,
-          path: node.path,
-          nodeType: node.nodeType,
-          ...(node.children && node.children.size > 0 ? { children: serialize(node.children) } : {}),
-        }))
+    return { event, contentMarkdown: event.content_markdown || "" }
+  }
+
+  async listTreeAt(args: {
+    domain: string
+    prefix?: string
+    at: PointInTime
+  }): Promise<{
+    domain: string
+    prefix: string | null
+    noteCount: number
+    tree: Array<Record<string, unknown>>
+  }> {
+    const prefix = args.prefix?.trim() || null
+    const rows = await this.db.query<{ path: string; operation: string; cursor: string; moved_away: boolean }>(
+      `
+        SELECT DISTINCT ON (path) path, operation, cursor, moved_away
+        FROM (
+          SELECT canonical_path AS path, operation, cursor, false AS moved_away
+          FROM memory_event_log
+          WHERE domain = $1 AND status = 'applied' AND ${POINT_IN_TIME_SQL}
+          UNION ALL
+          SELECT metadata->>'fromCanonicalPath' AS path, operation, cursor, true AS moved_away
+          FROM memory_event_log
+          WHERE domain = $1 AND status = 'applied' AND operation = 'move'
+            AND metadata ? 'fromCanonicalPath'
+            AND ${POINT_IN_TIME_SQL}
+        ) touched
+        WHERE ($2::text IS NULL OR path LIKE $2 || '%')
+        ORDER BY path ASC, cursor DESC
+      `,
+      [args.domain, prefix, args.at.atCursor, args.at.asOf?.toISOString() || null],
+    )
+
+    const livePaths = rows.rows
+      .filter((row) => !row.moved_away && row.operation !== "delete")
+      .map((row) => row.path)
 
     return {
       domain: args.domain,
       prefix,
-      noteCount: rows.rows.length,
-      tree: serialize(root),
+      noteCount: livePaths.length,
+      tree: buildPathTree(livePaths),
+    }
+  }
+
+  /** Signed edit history of one path, newest first; includes conflict and superseded events. */
+  async listHistory(args: {
+    domain: string
+    canonicalPath: string
+    beforeCursor?: number
+    limit?: number
+  }): Promise<{
+    domain: string
+    canonicalPath: string
+    entries: MemoryHistoryEntry[]
+    nextBeforeCursor: number | null
+  }> {
+    const limit = Math.max(1, Math.min(500, args.limit || 100))
+    const result = await this.db.query<EventRow>(
+      `
+        SELECT ${EVENT_COLUMNS}
+        FROM memory_event_log
+        WHERE domain = $1
+          AND ${TOUCHES_PATH_SQL}
+          AND ($3::bigint IS NULL OR cursor < $3)
+        ORDER BY cursor DESC
+        LIMIT $4
+      `,
+      [args.domain, args.canonicalPath, args.beforeCursor ?? null, limit],
+    )
+
+    const entries = result.rows.map((row) => historyEntryFromRow(row))
+    return {
+      domain: args.domain,
+      canonicalPath: args.canonicalPath,
+      entries,
+      nextBeforeCursor: entries.length === limit ? entries.at(-1)?.cursor ?? null : null,
+    }
+  }
+
+  /**
+   * Re-verifies a cursor range of the log: payload hashes, the signer binding
+   * in force when each event was ingested, per-path supersedes links and
+   * (when enabled) wallet-enclave signatures.
+   */
+  async verifyHistory(args: {
+    fromCursor?: number
+    toCursor?: number
+    domain?: string
+    canonicalPath?: string
+    limit?: number
+  }): Promise<{
+    fromCursor: number
+    lastCursor: number | null
+    checked: number
+    valid: number
+    invalid: number
+    failures: HistoryVerificationFailure[]
+  }> {
+    const fromCursor = args.fromCursor ?? 1
+    const limit = Math.max(1, Math.min(1000, args.limit || 500))
+    const result = await this.db.query<EventRow & { expected_supersedes_event_id: string | null }>(
+      `
+        SELECT
+          ${EVENT_COLUMNS},
+          (
+            SELECT previous.id
+            FROM memory_event_log previous
+            WHERE previous.domain = e.domain
+              AND previous.status = 'applied'
+              AND previous.cursor < e.cursor
+              AND (
+                previous.canonical_path = e.canonical_path
+                OR (previous.operation = 'move' AND previous.metadata->>'fromCanonicalPath' = e.canonical_path)
+              )
+            ORDER BY previous.cursor DESC
+            LIMIT 1
+          ) AS expected_supersedes_event_id
+        FROM memory_event_log e
+        WHERE e.cursor >= $1
+          AND ($2::bigint IS NULL OR e.cursor <= $2)
+          AND ($3::text IS NULL OR e.domain = $3)
+          AND ($4::text IS NULL OR e.canonical_path = $4)
+        ORDER BY e.cursor ASC
+        LIMIT $5
+      `,
+      [fromCursor, args.toCursor ?? null, args.domain || null, args.canonicalPath || null, limit],
+    )
+
+    const writers = new Map<string, { writerType: string; writerId: string }>()
+    for (const row of result.rows) {
+      writers.set(`${row.writer_type}:${row.writer_id}`, { writerType: row.writer_type, writerId: row.writer_id })
+    }
+    const bindings = new Map<string, SignerBinding[]>()
+    for (const [key, writer] of writers) {
+      bindings.set(key, await this.listSignerBindings(writer.writerType, writer.writerId))
+    }
+
+    const failures: HistoryVerificationFailure[] = []
+    for (const row of result.rows) {
+      const envelope = envelopeFromEventRow(row)
+      const reasons = verifyHistoryChainEvent({
+        eventId: row.id,
+        cursor: Number(row.cursor),
+        canonicalPath: row.canonical_path,
+        envelope,
+        payloadHash: row.payload_hash,
+        supersedesEventId: row.supersedes_event_id,
+        expectedSupersedesEventId: row.expected_supersedes_event_id,
+        registeredSigner: signerBindingAt(bindings.get(`${row.writer_type}:${row.writer_id}`) || [], row.ingested_at),
+      })
+
+      if (reasons.length === 0 && row.writer_type !== "system") {
+        const enclave = await verifyWalletEnclaveSignature(envelope)
+        if (!enclave.ok) {
+          reasons.push(enclave.reason || "Wallet enclave verification failed")
+        }
+      }
+
+      if (reasons.length > 0) {
+        failures.push({
+          eventId: row.id,
+          cursor: Number(row.cursor),
+          canonicalPath: row.canonical_path,
+          reasons,
+        })
+      }
+    }
+
+    return {
+      fromCursor,
+      lastCursor: result.rows.length > 0 ? Number(result.rows.at(-1)?.cursor) : null,
+      checked: result.rows.length,
+      valid: result.rows.length - failures.length,
+      invalid: failures.length,
+      failures,
     }
   }
 
@@ -1011,6 +1772,8 @@ export class MemoryStore {
           c.content,
           c.normalized_content,
           c.embedding,
+          c.embedding_model,
+          c.embedding_dimensions,
           d.title
         FROM memory_chunk_index c
         JOIN memory_document_current d
@@ -1037,8 +1800,7 @@ export class MemoryStore {
     let fallbackUsed = false
 
     if (mode === "hybrid") {
-      const embeddingModel = process.env.DATA_CORE_EMBEDDING_MODEL?.trim() || "text-embedding-3-small"
-      const embedded = await embedTextsWithOpenAi([query], embeddingModel)
+      const embedded = await embedTexts([query], this.config.embedding)
       if (embedded && embedded.length > 0) {
         queryEmbedding = embedded[0]
       } else {
@@ -1049,7 +1811,10 @@ export class MemoryStore {
     const ranked = candidates.rows
       .map((row) => {
         const lexical = lexicalScore(queryTokens, row.normalized_content)
+        // Vectors from another model or width (or from before model tracking) rank lexically only.
         const semantic = queryEmbedding
+          && row.embedding_model === this.config.embedding.model
+          && row.embedding_dimensions === queryEmbedding.length
           ? Math.max(0, cosineSimilarity(queryEmbedding, parseEmbedding(row.embedding) || []))
           : 0
         const titlePath = titlePathBonus(queryLower, row.canonical_path, row.title)
@@ -1276,34 +2041,18 @@ export class MemoryStore {
   async listSyncEvents(args: {
     afterCursor: number
     limit: number
+    excludeSourceCoreId?: string | null
   }): Promise<{
     events: EventRow[]
+    envelopes: MemoryWriteEnvelope[]
     nextCursor: number
   }> {
     const limit = Math.max(1, Math.min(this.config.maxSyncBatch, args.limit))
 
+    // The cursor advances past excluded events so peers do not re-scan their own writes.
     const rows = await this.db.query<EventRow>(
       `
-        SELECT
-          id,
-          cursor,
-          source_core_id,
-          source_seq,
-          idempotency_key,
-          operation,
-          domain,
-          canonical_path,
-          content_markdown,
-          metadata,
-          writer_type,
-          writer_id,
-          signature,
-          payload_hash,
-          occurred_at,
-          ingested_at,
-          deleted,
-          supersedes_event_id,
-          status
+        SELECT ${EVENT_COLUMNS}
         FROM memory_event_log
         WHERE cursor > $1
         ORDER BY cursor ASC
@@ -1312,14 +2061,380 @@ export class MemoryStore {
       [args.afterCursor, limit],
     )
 
-    const nextCursor = rows.rows.length > 0 ? rows.rows.at(-1)?.cursor || args.afterCursor : args.afterCursor
+    const nextCursor = rows.rows.length > 0 ? Number(rows.rows.at(-1)?.cursor) || args.afterCursor : args.afterCursor
+    const events = args.excludeSourceCoreId
+      ? rows.rows.filter((row) => row.source_core_id !== args.excludeSourceCoreId)
+      : rows.rows
 
     return {
-      events: rows.rows,
+      events,
+      envelopes: events.map((row) => envelopeFromEventRow(row)),
       nextCursor,
     }
   }
 
+  async getSyncCursor(peerCoreId: string): Promise<MemorySyncCursor> {
+    const result = await this.db.query<{ last_cursor: string | number; last_pushed_cursor: string | number }>(
+      `
+        SELECT last_cursor, last_pushed_cursor
+        FROM memory_sync_cursor
+        WHERE peer_core_id = $1
+        LIMIT 1
+      `,
+      [peerCoreId],
+    )
+
+    const row = result.rows[0]
+    return {
+      peerCoreId,
+      pullCursor: Number(row?.last_cursor || 0),
+      pushCursor: Number(row?.last_pushed_cursor || 0),
+    }
+  }
+
+  async saveSyncCursor(args: {
+    peerCoreId: string
+    pullCursor?: number
+    pushCursor?: number
+  }): Promise<void> {
+    await this.db.query(
+      `
+        INSERT INTO memory_sync_cursor (id, peer_core_id, last_cursor, last_pushed_cursor, last_synced_at, last_pushed_at, updated_at)
+        VALUES (
+          $1,
+          $2,
+          COALESCE($3::bigint, 0),
+          COALESCE($4::bigint, 0),
+          CASE WHEN $3::bigint IS NULL THEN NULL ELSE now() END,
+          CASE WHEN $4::bigint IS NULL THEN NULL ELSE now() END,
+          now()
+        )
+        ON CONFLICT (peer_core_id)
+        DO UPDATE SET
+          last_cursor = COALESCE($3::bigint, memory_sync_cursor.last_cursor),
+          last_pushed_cursor = COALESCE($4::bigint, memory_sync_cursor.last_pushed_cursor),
+          last_synced_at = CASE WHEN $3::bigint IS NULL THEN memory_sync_cursor.last_synced_at ELSE now() END,
+          last_pushed_at = CASE WHEN $4::bigint IS NULL THEN memory_sync_cursor.last_pushed_at ELSE now() END,
+          updated_at = now()
+      `,
+      [crypto.randomUUID(), args.peerCoreId, args.pullCursor ?? null, args.pushCursor ?? null],
+    )
+  }
+
+  async upsertSyncPeer(input: {
+    peerCoreId: string
+    peerUrl: string
+    role: string
+    active?: boolean
+    metadata?: Record<string, unknown>
+  }): Promise<MemorySyncPeer> {
+    const result = await this.db.query<{
+      peer_core_id: string
+      peer_url: string
+      role: string
+      active: boolean
+      last_seen_at: string | null
+      metadata: Record<string, unknown>
+    }>(
+      `
+        INSERT INTO memory_sync_peer (id, peer_core_id, peer_url, role, active, metadata)
+        VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+        ON CONFLICT (peer_core_id)
+        DO UPDATE SET
+          peer_url = EXCLUDED.peer_url,
+          role = EXCLUDED.role,
+          active = EXCLUDED.active,
+          metadata = EXCLUDED.metadata,
+          updated_at = now()
+        RETURNING peer_core_id, peer_url, role, active, last_seen_at, metadata
+      `,
+      [
+        crypto.randomUUID(),
+        input.peerCoreId,
+        input.peerUrl.replace(/\/+$/u, ""),
+        input.role,
+        input.active ?? true,
+        JSON.stringify(input.metadata || {}),
+      ],
+    )
+
+    const row = result.rows[0]
+    return {
+      peerCoreId: row.peer_core_id,
+      peerUrl: row.peer_url,
+      role: row.role,
+      active: row.active,
+      lastSeenAt: asIsoOrNull(row.last_seen_at),
+      metadata: row.metadata || {},
+    }
+  }
+
+  async listSyncPeers(args: { activeOnly?: boolean } = {}): Promise<MemorySyncPeer[]> {
+    const result = await this.db.query<{
+      peer_core_id: string
+      peer_url: string
+      role: string
+      active: boolean
+      last_seen_at: string | null
+      metadata: Record<string, unknown>
+    }>(
+      `
+        SELECT peer_core_id, peer_url, role, active, last_seen_at, metadata
+        FROM memory_sync_peer
+        WHERE ($1::boolean IS NOT TRUE OR active = true)
+        ORDER BY peer_core_id ASC
+      `,
+      [args.activeOnly === true],
+    )
+
+    return result.rows.map((row) => ({
+      peerCoreId: row.peer_core_id,
+      peerUrl: row.peer_url,
+      role: row.role,
+      active: row.active,
+      lastSeenAt: asIsoOrNull(row.last_seen_at),
+      metadata: row.metadata || {},
+    }))
+  }
+
+  async markSyncPeerSeen(peerCoreId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE memory_sync_peer SET last_seen_at = now(), updated_at = now() WHERE peer_core_id = $1`,
+      [peerCoreId],
+    )
+  }
+
+  async listConflicts(args: {
+    status?: string
+    domain?: string
+    limit?: number
+  } = {}): Promise<{ conflicts: MemorySyncConflictSummary[] }> {
+    const result = await this.db.query<ConflictRow>(
+      `
+        SELECT ${CONFLICT_COLUMNS}
+        FROM memory_sync_conflict
+        WHERE ($1::text IS NULL OR status = $1)
+          AND ($2::text IS NULL OR domain = $2)
+        ORDER BY created_at DESC
+        LIMIT $3
+      `,
+      [args.status || null, args.domain || null, Math.max(1, Math.min(500, args.limit || 100))],
+    )
+
+    return {
+      conflicts: result.rows.map((row) => conflictSummaryFromRow(row)),
+    }
+  }
+
+  /** Lists both sides: the current local document and the remote event held back from it. */
+  async getConflict(conflictId: string): Promise<{
+    conflict: MemorySyncConflictSummary
+    local: MemorySyncConflictVersion
+    remote: MemorySyncConflictVersion
+  } | null> {
+    const context = await this.loadConflictContext(conflictId)
+    if (!context) {
+      return null
+    }
+
+    const { conflict, current, localEvent, remoteEvent } = context
+    return {
+      conflict: conflictSummaryFromRow(conflict),
+      local: {
+        eventId: current?.latest_event_id || conflict.local_event_id,
+        sourceCoreId: localEvent?.source_core_id || null,
+        writerId: localEvent?.writer_id || null,
+        occurredAt: asIsoOrNull(localEvent?.occurred_at),
+        deleted: !current || Boolean(current.deleted_at),
+        contentMarkdown: current?.content_markdown || "",
+        versionVector: asVersionVector(current?.version_vector ?? conflict.local_version_vector),
+      },
+      remote: {
+        eventId: remoteEvent.id,
+        sourceCoreId: remoteEvent.source_core_id,
+        writerId: remoteEvent.writer_id,
+        occurredAt: asIsoOrNull(remoteEvent.occurred_at),
+        deleted: remoteEvent.deleted,
+        contentMarkdown: remoteEvent.content_markdown || "",
+        versionVector: asVersionVector(conflict.remote_version_vector),
+      },
+    }
+  }
+
+  /**
+   * Writes the chosen version as a new event whose version vector covers both
+   * sides, so peers fast-forward to it and close their own copy of the conflict.
+   */
+  async resolveConflict(args: {
+    conflictId: string
+    strategy: ConflictResolutionStrategy
+    contentMarkdown?: string
+    resolvedBy: string
+  }): Promise<{
+    conflict: MemorySyncConflictSummary
+    eventId: string
+  }> {
+    const context = await this.loadConflictContext(args.conflictId)
+    if (!context) {
+      throw new Error("Conflict not found")
+    }
+
+    const { conflict, current, remoteEvent } = context
+    if (conflict.status !== "open") {
+      throw new Error(`Conflict is already ${conflict.status}`)
+    }
+
+    const localContent = current && !current.deleted_at ? current.content_markdown : null
+    const remoteContent = remoteEvent.deleted ? null : remoteEvent.content_markdown || ""
+    let contentMarkdown: string | null
+    switch (args.strategy) {
+      case "keep-local":
+        contentMarkdown = localContent
+        break
+      case "keep-remote":
+        contentMarkdown = remoteContent
+        break
+      case "merge":
+        contentMarkdown = deterministicMerge({
+          canonicalPath: conflict.canonical_path,
+          currentContent: localContent || "",
+          incomingContent: remoteContent || "",
+        })
+        break
+      default:
+        if (args.contentMarkdown === undefined) {
+          throw new Error("contentMarkdown is required for the custom strategy")
+        }
+        contentMarkdown = args.contentMarkdown
+    }
+
+    const envelope = buildSystemEnvelope({
+      coreId: this.config.coreId,
+      operation: contentMarkdown === null ? "delete" : "merge",
+      domain: conflict.domain,
+      canonicalPath: conflict.canonical_path,
+      contentMarkdown: contentMarkdown ?? undefined,
+      metadata: {
+        tags: ["merge", "conflict-resolution", args.strategy],
+        citations: [],
+        writerId: "QTM-LGR:fleet",
+        conflictId: conflict.id,
+        resolution: args.strategy,
+        resolvedBy: args.resolvedBy,
+      },
+      idempotencyKey: `conflict:${conflict.id}`,
+    })
+    envelope.replication = {
+      versionVector: bumpVersionVector(
+        mergeVersionVectors(
+          asVersionVector(current?.version_vector),
+          asVersionVector(conflict.local_version_vector),
+          asVersionVector(conflict.remote_version_vector),
+        ),
+        this.config.coreId,
+      ),
+    }
+
+    const applied = await this.applyWriteEnvelope({
+      envelope,
+      skipSignatureCheck: true,
+    })
+
+    const updated = await this.db.query<ConflictRow>(
+      `
+        UPDATE memory_sync_conflict
+        SET status = 'resolved', resolution = $2, resolved_by = $3, resolution_event_id = $4, resolved_at = now(), updated_at = now()
+        WHERE id = $1 AND status = 'open'
+        RETURNING ${CONFLICT_COLUMNS}
+      `,
+      [conflict.id, args.strategy, args.resolvedBy, applied.eventId],
+    )
+
+    return {
+      conflict: conflictSummaryFromRow(updated.rows[0] || conflict),
+      eventId: applied.eventId,
+    }
+  }
+
+  private async autoResolveConflict(conflictId: string): Promise<void> {
+    const context = await this.loadConflictContext(conflictId)
+    if (!context) {
+      return
+    }
+
+    const policy = this.config.conflictPolicy
+    let strategy: ConflictResolutionStrategy = "merge"
+    if (policy === "last-writer-wins") {
+      strategy = lastWriterWins({
+        local: context.localEvent,
+        remote: context.remoteEvent,
+      })
+    }
+
+    await this.resolveConflict({
+      conflictId,
+      strategy,
+      resolvedBy: `policy:${policy}`,
+    })
+  }
+
+  private async loadConflictContext(conflictId: string): Promise<{
+    conflict: ConflictRow
+    current: DocumentRow | null
+    localEvent: EventRow | null
+    remoteEvent: EventRow
+  } | null> {
+    const conflictResult = await this.db.query<ConflictRow>(
+      `
+        SELECT ${CONFLICT_COLUMNS}
+        FROM memory_sync_conflict
+        WHERE id = $1
+        LIMIT 1
+      `,
+      [conflictId],
+    )
+
+    const conflict = conflictResult.rows[0]
+    if (!conflict) {
+      return null
+    }
+
+    const currentResult = await this.db.query<DocumentRow>(
+      `
+        SELECT domain, canonical_path, title, content_markdown, metadata, latest_event_id, updated_at, deleted_at, version_vector
+        FROM memory_document_current
+        WHERE domain = $1 AND canonical_path = $2
+        LIMIT 1
+      `,
+      [conflict.domain, conflict.canonical_path],
+    )
+    const current = currentResult.rows[0] || null
+
+    const eventIds = [conflict.remote_event_id, current?.latest_event_id || conflict.local_event_id].filter(
+      (id): id is string => Boolean(id),
+    )
+    const eventsResult = await this.db.query<EventRow>(
+      `
+        SELECT ${EVENT_COLUMNS}
+        FROM memory_event_log
+        WHERE id = ANY($1::text[])
+      `,
+      [eventIds],
+    )
+
+    const remoteEvent = eventsResult.rows.find((row) => row.id === conflict.remote_event_id)
+    if (!remoteEvent) {
+      throw new Error("Conflict remote event is missing")
+    }
+
+    return {
+      conflict,
+      current,
+      localEvent: eventsResult.rows.find((row) => row.id === (current?.latest_event_id || conflict.local_event_id)) || null,
+      remoteEvent,
+    }
+  }
+
   async processPendingMergeJobs(maxJobs = 10): Promise<{ processed: number; completed: number; failed: number }> {
     const jobs = await this.db.query<{
       id: string
@@ -1356,26 +2471,7 @@ export class MemoryStore {
 
         const incomingEventResult = await this.db.query<EventRow>(
           `
-            SELECT
-              id,
-              cursor,
-              source_core_id,
-              source_seq,
-              idempotency_key,
-              operation,
-              domain,
-              canonical_path,
-              content_markdown,
-              metadata,
-              writer_type,
-              writer_id,
-              signature,
-              payload_hash,
-              occurred_at,
-              ingested_at,
-              deleted,
-              supersedes_event_id,
-              status
+            SELECT ${EVENT_COLUMNS}
             FROM memory_event_log
             WHERE id = $1
             LIMIT 1
@@ -1395,36 +2491,19 @@ export class MemoryStore {
           incomingContent: incomingEvent.content_markdown || "",
         })
 
-        const mergeEnvelope: MemoryWriteEnvelope = {
+        const mergeEnvelope = buildSystemEnvelope({
+          coreId: this.config.coreId,
           operation: "merge",
-          domain: job.domain as MemoryWriteEnvelope["domain"],
+          domain: job.domain,
           canonicalPath: job.canonical_path,
           contentMarkdown: mergedContent,
           metadata: {
             tags: ["merge", "quartermaster"],
             citations: [],
-            source: "system",
-            writerType: "system",
             writerId: "QTM-LGR:fleet",
           },
-          event: {
-            sourceCoreId: this.config.coreId,
-            sourceSeq: Date.now() * 1000 + Math.floor(Math.random() * 1000),
-            occurredAt: new Date().toISOString(),
-            idempotencyKey: `merge:${job.id}`,
-          },
-          signature: {
-            chain: "cardano",
-            alg: "cip8-ed25519",
-            keyRef: "system:qtm-lgr-fleet",
-            address: "system:qtm-lgr-fleet",
-            signature: "internal-merge-signature",
-            payloadHash: "",
-            signedAt: new Date().toISOString(),
-          },
-        }
-
-        mergeEnvelope.signature.payloadHash = canonicalPayloadHash(mergeEnvelope)
+          idempotencyKey: `merge:${job.id}`,
+        })
 
         const applied = await this.applyWriteEnvelope({
           envelope: mergeEnvelope,
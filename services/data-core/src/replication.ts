@@ -0,0 +1,299 @@
+import crypto from "node:crypto"
+import type { DataCoreConfig } from "./config.js"
+import type { MemoryStore, MemorySyncPeer } from "./memory-store.js"
+import { memoryWriteEnvelopeSchema, type MemoryWriteEnvelope } from "./schema.js"
+import { signSyncPayload } from "./security.js"
+
+/** Cursor key used for the configured fleet hub, kept from the pull-only sync. */
+export const FLEET_HUB_PEER_ID = "fleet-hub"
+
+const MAX_PUSH_BATCH = 500
+
+export interface PeerSyncSummary {
+  peerCoreId: string
+  pulled: number
+  applied: number
+  conflicts: number
+  pushed: number
+  /** Events the peer refused; the push cursor stops before the first one so it is retried. */
+  rejected: number
+  pullCursor: number
+  pushCursor: number
+  error: string | null
+}
+
+type ReplicationStore = Pick<
+  MemoryStore,
+  "applyWriteEnvelope" | "getSyncCursor" | "saveSyncCursor" | "listSyncEvents" | "listSyncPeers" | "markSyncPeerSeen"
+>
+
+function signerBinding(envelope: MemoryWriteEnvelope): { writer: string; key: string } | null {
+  if (envelope.metadata.writerType === "system") {
+    return null
+  }
+
+  return {
+    writer: `${envelope.metadata.writerType}:${envelope.metadata.writerId}`,
+    key: `${envelope.signature.keyRef}\u0000${envelope.signature.address}`,
+  }
+}
+
+/**
+ * Pushes and pulls event deltas with every active peer. Each peer keeps its own
+ * pull cursor (position in the peer's log) and push cursor (position in ours).
+ */
+export class PeerReplicator {
+  constructor(
+    private readonly store: ReplicationStore,
+    private readonly config: DataCoreConfig,
+    private readonly fetchImpl: typeof fetch = fetch,
+  ) {}
+
+  async listPeers(): Promise<MemorySyncPeer[]> {
+    const peers = await this.store.listSyncPeers({ activeOnly: true })
+    const fleetHubUrl = this.config.fleetHubUrl?.replace(/\/+$/u, "")
+    if (this.config.role === "ship" && fleetHubUrl && !peers.some((peer) => peer.peerUrl === fleetHubUrl)) {
+      peers.unshift({
+        peerCoreId: FLEET_HUB_PEER_ID,
+        peerUrl: fleetHubUrl,
+        role: "fleet",
+        active: true,
+        lastSeenAt: null,
+        metadata: {},
+      })
+    }
+    return peers
+  }
+
+  async syncAll(limit = this.config.maxSyncBatch): Promise<PeerSyncSummary[]> {
+    const summaries: PeerSyncSummary[] = []
+    for (const peer of await this.listPeers()) {
+      summaries.push(await this.syncPeer(peer, limit))
+    }
+    return summaries
+  }
+
+  async syncPeer(peer: MemorySyncPeer, limit = this.config.maxSyncBatch): Promise<PeerSyncSummary> {
+    const summary: PeerSyncSummary = {
+      peerCoreId: peer.peerCoreId,
+      pulled: 0,
+      applied: 0,
+      conflicts: 0,
+      pushed: 0,
+      rejected: 0,
+      pullCursor: 0,
+      pushCursor: 0,
+      error: null,
+    }
+
+    try {
+      Object.assign(summary, await this.pull(peer, limit))
+      Object.assign(summary, await this.push(peer, limit))
+      if (peer.peerCoreId !== FLEET_HUB_PEER_ID) {
+        await this.store.markSyncPeerSeen(peer.peerCoreId)
+      }
+    } catch (error) {
+      summary.error = error instanceof Error ? error.message : "Peer sync failed"
+      console.error(`data-core peer sync failed for ${peer.peerCoreId} (fail-open):`, error)
+    }
+
+    return summary
+  }
+
+  async pull(peer: MemorySyncPeer, limit: number): Promise<Pick<PeerSyncSummary, "pulled" | "applied" | "conflicts" | "pullCursor">> {
+    const cursor = await this.store.getSyncCursor(peer.peerCoreId)
+    const url = new URL(`${peer.peerUrl}/v1/sync/events`)
+    url.searchParams.set("afterCursor", String(cursor.pullCursor))
+    url.searchParams.set("limit", String(Math.max(1, Math.min(this.config.maxSyncBatch, limit))))
+    url.searchParams.set("excludeSourceCoreId", this.config.coreId)
+
+    const response = await this.fetchImpl(url.toString(), {
+      headers: {
+        ...(this.config.apiKey
+          ? {
+              "x-data-core-api-key": this.config.apiKey,
+            }
+          : {}),
+      },
+    })
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "")
+      throw new Error(`Peer sync pull failed (${response.status}): ${text}`)
+    }
+
+    const payload = (await response.json().catch(() => null)) as
+      | { envelopes?: unknown[]; events?: unknown[]; nextCursor?: number }
+      | null
+
+    // Older peers only return `events`; their rows do not parse as envelopes and are skipped.
+    const envelopes = Array.isArray(payload?.envelopes)
+      ? payload.envelopes
+      : Array.isArray(payload?.events) ? payload.events : []
+    const nextCursor = typeof payload?.nextCursor === "number" ? payload.nextCursor : cursor.pullCursor
+
+    let applied = 0
+    let conflicts = 0
+    for (const candidate of envelopes) {
+      const parsed = memoryWriteEnvelopeSchema.safeParse(candidate)
+      if (!parsed.success) {
+        continue
+      }
+
+      const outcome = await this.store.applyWriteEnvelope({ envelope: parsed.data, skipSignatureCheck: true })
+      if (outcome.duplicate) continue
+      if (outcome.status === "conflict") {
+        conflicts += 1
+      } else if (outcome.status === "applied") {
+        applied += 1
+      }
+    }
+
+    await this.store.saveSyncCursor({ peerCoreId: peer.peerCoreId, pullCursor: nextCursor })
+
+    return {
+      pulled: envelopes.length,
+      applied,
+      conflicts,
+      pullCursor: nextCursor,
+    }
+  }
+
+  async push(peer: MemorySyncPeer, limit: number): Promise<Pick<PeerSyncSummary, "pushed" | "rejected" | "pushCursor">> {
+    const cursor = await this.store.getSyncCursor(peer.peerCoreId)
+    const batch = await this.store.listSyncEvents({
+      afterCursor: cursor.pushCursor,
+      limit: Math.min(MAX_PUSH_BATCH, limit),
+      excludeSourceCoreId: peer.peerCoreId,
+    })
+
+    // Peers verify agent and user events against their own signer registry, so
+    // each writer's binding is sent ahead of the first event it signed.
+    const pushedSigners = new Map<string, string>()
+    let segmentStart = 0
+    let firstRejected: number | null = null
+    let rejected = 0
+    for (let index = 0; index <= batch.envelopes.length; index += 1) {
+      const envelope = batch.envelopes[index]
+      const binding = envelope ? signerBinding(envelope) : null
+      const needsSigner = binding !== null && pushedSigners.get(binding.writer) !== binding.key
+      if (index < batch.envelopes.length && !needsSigner) {
+        continue
+      }
+
+      if (index > segmentStart) {
+        const outcome = await this.postEvents(peer, batch.envelopes.slice(segmentStart, index))
+        if (outcome.firstRejected !== null) {
+          firstRejected = segmentStart + outcome.firstRejected
+          rejected = outcome.rejected
+          break
+        }
+      }
+
+      segmentStart = index
+      if (envelope && binding && needsSigner) {
+        await this.postSigner(peer, envelope)
+        pushedSigners.set(binding.writer, binding.key)
+      }
+    }
+
+    const pushCursor = firstRejected === null
+      ? batch.nextCursor
+      : firstRejected > 0 ? Number(batch.events[firstRejected - 1]?.cursor) || cursor.pushCursor : cursor.pushCursor
+    if (pushCursor !== cursor.pushCursor) {
+      await this.store.saveSyncCursor({ peerCoreId: peer.peerCoreId, pushCursor })
+    }
+
+    if (firstRejected !== null) {
+      console.error(`data-core peer ${peer.peerCoreId} rejected ${rejected} pushed event(s); holding push cursor at ${pushCursor}`)
+    }
+
+    return {
+      pushed: firstRejected ?? batch.envelopes.length,
+      rejected,
+      pushCursor,
+    }
+  }
+
+  /** Returns the index of the first event the peer rejected, or `null` when it took them all. */
+  private async postEvents(
+    peer: MemorySyncPeer,
+    events: MemoryWriteEnvelope[],
+  ): Promise<{ firstRejected: number | null; rejected: number }> {
+    const body = JSON.stringify({
+      sourceCoreId: this.config.coreId,
+      events,
+    })
+
+    const response = await this.fetchImpl(`${peer.peerUrl}/v1/sync/events`, {
+      method: "POST",
+      headers: this.syncHeaders(body),
+      body,
+    })
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => "")
+      throw new Error(`Peer sync push failed (${response.status}): ${details}`)
+    }
+
+    const payload = (await response.json().catch(() => null)) as
+      | { rejected?: number; firstRejectedIndex?: number | null }
+      | null
+    const rejected = typeof payload?.rejected === "number" ? payload.rejected : 0
+    if (rejected <= 0) {
+      return { firstRejected: null, rejected: 0 }
+    }
+
+    // Peers that predate `firstRejectedIndex` only report a count, so the whole request is retried.
+    const index = payload?.firstRejectedIndex
+    return {
+      firstRejected: typeof index === "number" && index >= 0 && index < events.length ? index : 0,
+      rejected,
+    }
+  }
+
+  private async postSigner(peer: MemorySyncPeer, envelope: MemoryWriteEnvelope): Promise<void> {
+    const body = JSON.stringify({
+      writerType: envelope.metadata.writerType,
+      writerId: envelope.metadata.writerId,
+      keyRef: envelope.signature.keyRef,
+      address: envelope.signature.address,
+      key: envelope.signature.key,
+      metadata: {
+        source: envelope.metadata.source,
+      },
+    })
+
+    const response = await this.fetchImpl(`${peer.peerUrl}/v1/signer/upsert`, {
+      method: "POST",
+      headers: this.syncHeaders(body),
+      body,
+    })
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => "")
+      throw new Error(`Peer signer push failed (${response.status}): ${details}`)
+    }
+  }
+
+  private syncHeaders(body: string): Record<string, string> {
+    const timestamp = String(Date.now())
+    const nonce = crypto.randomUUID()
+
+    return {
+      "Content-Type": "application/json",
+      ...(this.config.apiKey
+        ? {
+            "x-data-core-api-key": this.config.apiKey,
+          }
+        : {}),
+      ...(this.config.syncSharedSecret
+        ? {
+            "x-data-core-timestamp": timestamp,
+            "x-data-core-nonce": nonce,
+            "x-data-core-signature": signSyncPayload(timestamp, nonce, body, this.config.syncSharedSecret),
+          }
+        : {}),
+    }
+  }
+}
@@ -17,6 +17,9 @@ export const signatureEnvelopeSchema = z.object({
   signedAt: z.string().datetime(),
 })
 
+export const conflictResolutionStrategySchema = z.enum(["keep-local", "keep-remote", "merge", "custom"])
+export type ConflictResolutionStrategy = z.infer<typeof conflictResolutionStrategySchema>
+
 export const writeMetadataSchema = z.object({
   tags: z.array(z.string()).optional(),
   citations: z.array(z.string()).optional(),
@@ -24,6 +27,9 @@ export const writeMetadataSchema = z.object({
   writerType: z.enum(["agent", "user", "system"]),
   writerId: z.string().min(1),
   fromCanonicalPath: z.string().optional(),
+  conflictId: z.string().optional(),
+  resolution: conflictResolutionStrategySchema.optional(),
+  resolvedBy: z.string().optional(),
 })
 
 export const eventSchema = z.object({
@@ -33,6 +39,12 @@ export const eventSchema = z.object({
   idempotencyKey: z.string().min(8).max(256),
 })
 
+// Stamped by the originating core; not part of the signed payload.
+export const replicationStampSchema = z.object({
+  versionVector: z.record(z.string(), z.number().int().positive()),
+  originEventId: z.string().optional(),
+})
+
 export const memoryWriteEnvelopeSchema = z.object({
   operation: operationSchema,
   domain: memoryDomainSchema,
@@ -41,6 +53,7 @@ export const memoryWriteEnvelopeSchema = z.object({
   metadata: writeMetadataSchema,
   event: eventSchema,
   signature: signatureEnvelopeSchema,
+  replication: replicationStampSchema.optional(),
 })
 
 export type MemoryWriteEnvelope = z.infer<typeof memoryWriteEnvelopeSchema>
@@ -77,3 +90,27 @@ export const syncEventsRequestSchema = z.object({
   sourceCoreId: z.string().min(1),
   events: z.array(memoryWriteEnvelopeSchema).max(500),
 })
+
+export const syncPeerUpsertSchema = z.object({
+  peerCoreId: z.string().min(1),
+  peerUrl: z.string().url(),
+  role: z.enum(["ship", "fleet"]),
+  active: z.boolean().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+})
+
+export const conflictResolveRequestSchema = z.object({
+  strategy: conflictResolutionStrategySchema,
+  contentMarkdown: z.string().optional(),
+  resolvedBy: z.string().trim().min(1).max(200).optional(),
+}).refine((value) => value.strategy !== "custom" || value.contentMarkdown !== undefined, {
+  message: "contentMarkdown is required for the custom strategy",
+})
+
+export const historyVerifyRequestSchema = z.object({
+  fromCursor: z.number().int().positive().optional(),
+  toCursor: z.number().int().positive().optional(),
+  domain: memoryDomainSchema.optional(),
+  canonicalPath: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+})
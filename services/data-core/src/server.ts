@@ -4,8 +4,19 @@ import { z } from "zod"
 import { loadConfig } from "./config.js"
 import { DataCoreDb, ensureSchema } from "./db.js"
 import { MemoryStore } from "./memory-store.js"
+import type { PointInTime } from "./history.js"
 import { createDataCorePlugin } from "./plugins/index.js"
-import { memoryWriteEnvelopeSchema, moveRequestSchema, queryRequestSchema, signerUpsertSchema, syncEventsRequestSchema } from "./schema.js"
+import { FLEET_HUB_PEER_ID, PeerReplicator } from "./replication.js"
+import {
+  conflictResolveRequestSchema,
+  historyVerifyRequestSchema,
+  memoryWriteEnvelopeSchema,
+  moveRequestSchema,
+  queryRequestSchema,
+  signerUpsertSchema,
+  syncEventsRequestSchema,
+  syncPeerUpsertSchema,
+} from "./schema.js"
 import { requireApiKey, signSyncPayload, verifySyncRequest } from "./security.js"
 
 interface RequestWithRawBody extends Request {
@@ -28,6 +39,25 @@ function asBoolean(raw: string | null | undefined, fallback: boolean): boolean {
   return fallback
 }
 
+function pointInTimeFromQuery(query: Request["query"]): PointInTime {
+  const atCursorRaw = typeof query.atCursor === "string" ? query.atCursor : null
+  const asOfRaw = typeof query.asOf === "string" ? query.asOf : null
+  const atCursor = atCursorRaw ? asPositiveInt(atCursorRaw, 0) : null
+  if (atCursor === 0) {
+    throw new Error("atCursor must be a positive integer")
+  }
+
+  const asOf = asOfRaw ? new Date(asOfRaw) : null
+  if (asOf && Number.isNaN(asOf.getTime())) {
+    throw new Error("asOf must be an ISO timestamp")
+  }
+  if (atCursor === null && !asOf) {
+    throw new Error("asOf or atCursor is required")
+  }
+
+  return { atCursor, asOf }
+}
+
 function firstErrorMessage(error: unknown): string {
   if (error instanceof z.ZodError) {
     return error.issues[0]?.message || "Invalid payload"
@@ -44,6 +74,7 @@ async function main(): Promise<void> {
 
   const plugin = createDataCorePlugin({ db, config })
   const store = new MemoryStore(db, config, plugin)
+  const replicator = new PeerReplicator(store, config)
   let edgeQuakeDrainTimer: NodeJS.Timeout | null = null
   let edgeQuakeDrainInFlight = false
 
@@ -201,79 +232,6 @@ async function main(): Promise<void> {
     }
   }
 
-  async function pullFromFleet(limit: number): Promise<{ pulled: number; applied: number; nextCursor: number }> {
-    if (config.role !== "ship" || !config.fleetHubUrl) {
-      return { pulled: 0, applied: 0, nextCursor: 0 }
-    }
-
-    const cursorRow = await db.query<{ last_cursor: number }>(
-      `
-        SELECT last_cursor
-        FROM memory_sync_cursor
-        WHERE peer_core_id = $1
-        LIMIT 1
-      `,
-      ["fleet-hub"],
-    )
-
-    const afterCursor = cursorRow.rows[0]?.last_cursor || 0
-    const url = new URL(`${config.fleetHubUrl.replace(/\/$/u, "")}/v1/sync/events`)
-    url.searchParams.set("afterCursor", String(afterCursor))
-    url.searchParams.set("limit", String(Math.max(1, Math.min(config.maxSyncBatch, limit))))
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        ...(config.apiKey
-          ? {
-              "x-data-core-api-key": config.apiKey,
-            }
-          : {}),
-      },
-    })
-
-    if (!response.ok) {
-      const text = await response.text().catch(() => "")
-      throw new Error(`Fleet sync pull failed (${response.status}): ${text}`)
-    }
-
-    const payload = (await response.json().catch(() => null)) as
-      | { events?: unknown[]; nextCursor?: number }
-      | null
-
-    const events = Array.isArray(payload?.events) ? payload.events : []
-    const nextCursor = typeof payload?.nextCursor === "number" ? payload.nextCursor : afterCursor
-
-    let applied = 0
-    for (const event of events) {
-      const parsed = memoryWriteEnvelopeSchema.safeParse(event)
-      if (!parsed.success) {
-        continue
-      }
-
-      await store.applyWriteEnvelope({ envelope: parsed.data, skipSignatureCheck: true })
-      applied += 1
-    }
-
-    await db.query(
-      `
-        INSERT INTO memory_sync_cursor (id, peer_core_id, last_cursor, last_synced_at, updated_at)
-        VALUES ($1, $2, $3, now(), now())
-        ON CONFLICT (peer_core_id)
-        DO UPDATE SET
-          last_cursor = EXCLUDED.last_cursor,
-          last_synced_at = now(),
-          updated_at = now()
-      `,
-      [crypto.randomUUID(), "fleet-hub", nextCursor],
-    )
-
-    return {
-      pulled: events.length,
-      applied,
-      nextCursor,
-    }
-  }
-
   app.post("/v1/signer/upsert", async (req, res) => {
     try {
       const parsed = signerUpsertSchema.parse(req.body)
@@ -308,7 +266,10 @@ async function main(): Promise<void> {
 
       const applied = await store.applyWriteEnvelope({ envelope: parsed })
       if (!applied.duplicate) {
-        void pushEnvelopeToFleet(parsed).catch((error) => {
+        void pushEnvelopeToFleet({
+          ...parsed,
+          replication: { versionVector: applied.versionVector, originEventId: applied.eventId },
+        }).catch((error) => {
           console.error("data-core fleet sync push failed (upsert):", error)
         })
       }
@@ -330,7 +291,10 @@ async function main(): Promise<void> {
 
       const applied = await store.applyWriteEnvelope({ envelope: parsed })
       if (!applied.duplicate) {
-        void pushEnvelopeToFleet(parsed).catch((error) => {
+        void pushEnvelopeToFleet({
+          ...parsed,
+          replication: { versionVector: applied.versionVector, originEventId: applied.eventId },
+        }).catch((error) => {
           console.error("data-core fleet sync push failed (delete):", error)
         })
       }
@@ -359,7 +323,10 @@ async function main(): Promise<void> {
 
       const applied = await store.applyWriteEnvelope({ envelope })
       if (!applied.duplicate) {
-        void pushEnvelopeToFleet(envelope).catch((error) => {
+        void pushEnvelopeToFleet({
+          ...envelope,
+          replication: { versionVector: applied.versionVector, originEventId: applied.eventId },
+        }).catch((error) => {
           console.error("data-core fleet sync push failed (move):", error)
         })
       }
@@ -438,6 +405,70 @@ async function main(): Promise<void> {
     }
   })
 
+  app.get("/v1/memory/snapshot/file", async (req, res) => {
+    try {
+      const domain = typeof req.query.domain === "string" ? req.query.domain : null
+      const canonicalPath = typeof req.query.canonicalPath === "string" ? req.query.canonicalPath : null
+      if (!domain || !canonicalPath) {
+        return res.status(400).json({ error: "domain and canonicalPath are required" })
+      }
+
+      const file = await store.getFileAt({ domain, canonicalPath, at: pointInTimeFromQuery(req.query) })
+      if (!file) {
+        return res.status(404).json({ error: "Memory file did not exist at that point" })
+      }
+
+      return res.json(file)
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.get("/v1/memory/snapshot/tree", async (req, res) => {
+    try {
+      const domain = typeof req.query.domain === "string" ? req.query.domain : null
+      if (!domain) {
+        return res.status(400).json({ error: "domain is required" })
+      }
+      const prefix = typeof req.query.prefix === "string" ? req.query.prefix : undefined
+
+      const tree = await store.listTreeAt({ domain, prefix, at: pointInTimeFromQuery(req.query) })
+      return res.json(tree)
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.get("/v1/memory/history", async (req, res) => {
+    try {
+      const domain = typeof req.query.domain === "string" ? req.query.domain : null
+      const canonicalPath = typeof req.query.canonicalPath === "string" ? req.query.canonicalPath : null
+      if (!domain || !canonicalPath) {
+        return res.status(400).json({ error: "domain and canonicalPath are required" })
+      }
+
+      const history = await store.listHistory({
+        domain,
+        canonicalPath,
+        beforeCursor: typeof req.query.beforeCursor === "string" ? asPositiveInt(req.query.beforeCursor, 0) || undefined : undefined,
+        limit: asPositiveInt(typeof req.query.limit === "string" ? req.query.limit : null, 100),
+      })
+      return res.json(history)
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.post("/v1/memory/history/verify", async (req, res) => {
+    try {
+      const parsed = historyVerifyRequestSchema.parse(req.body || {})
+      const verification = await store.verifyHistory(parsed)
+      return res.json(verification)
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
   app.post("/v1/sync/events", async (req: RequestWithRawBody, res: Response) => {
     try {
       const nonceHeader = req.header("x-data-core-nonce") ?? null
@@ -471,13 +502,28 @@ async function main(): Promise<void> {
       const parsed = syncEventsRequestSchema.parse(req.body)
       let applied = 0
       let duplicates = 0
-
-      for (const event of parsed.events) {
-        const outcome = await store.applyWriteEnvelope({ envelope: event })
-        if (outcome.duplicate) {
-          duplicates += 1
-        } else {
-          applied += 1
+      let conflicts = 0
+      let rejected = 0
+      let firstRejectedIndex: number | null = null
+
+      for (const [index, event] of parsed.events.entries()) {
+        try {
+          // System events (merges, conflict resolutions) are authored by the peer core and trusted via the sync HMAC.
+          const outcome = await store.applyWriteEnvelope({
+            envelope: event,
+            skipSignatureCheck: Boolean(config.syncSharedSecret) && event.metadata.writerType === "system",
+          })
+          if (outcome.duplicate) {
+            duplicates += 1
+          } else if (outcome.status === "conflict") {
+            conflicts += 1
+          } else {
+            applied += 1
+          }
+        } catch (error) {
+          rejected += 1
+          firstRejectedIndex ??= index
+          console.error(`data-core sync event rejected from ${parsed.sourceCoreId}:`, error)
         }
       }
 
@@ -485,6 +531,9 @@ async function main(): Promise<void> {
         received: parsed.events.length,
         applied,
         duplicates,
+        conflicts,
+        rejected,
+        firstRejectedIndex,
       })
     } catch (error) {
       return res.status(400).json({ error: firstErrorMessage(error) })
@@ -495,17 +544,102 @@ async function main(): Promise<void> {
     try {
       const afterCursor = asPositiveInt(typeof req.query.afterCursor === "string" ? req.query.afterCursor : null, 0)
       const limit = asPositiveInt(typeof req.query.limit === "string" ? req.query.limit : null, config.maxSyncBatch)
+      const excludeSourceCoreId = typeof req.query.excludeSourceCoreId === "string" ? req.query.excludeSourceCoreId : null
 
-      const events = await store.listSyncEvents({ afterCursor, limit })
+      const events = await store.listSyncEvents({ afterCursor, limit, excludeSourceCoreId })
       return res.json(events)
     } catch (error) {
       return res.status(400).json({ error: firstErrorMessage(error) })
     }
   })
 
+  app.get("/v1/sync/peers", async (_req, res) => {
+    try {
+      const peers = await store.listSyncPeers()
+      const withCursors = await Promise.all(peers.map(async (peer) => ({
+        ...peer,
+        cursor: await store.getSyncCursor(peer.peerCoreId),
+      })))
+      return res.json({ peers: withCursors })
+    } catch (error) {
+      return res.status(500).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.post("/v1/sync/peers", async (req, res) => {
+    try {
+      const parsed = syncPeerUpsertSchema.parse(req.body)
+      if (parsed.peerCoreId === config.coreId) {
+        return res.status(400).json({ error: "A core cannot register itself as a peer" })
+      }
+      const peer = await store.upsertSyncPeer(parsed)
+      return res.json({ peer })
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.get("/v1/sync/conflicts", async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "open"
+      const domain = typeof req.query.domain === "string" ? req.query.domain : undefined
+      const limit = asPositiveInt(typeof req.query.limit === "string" ? req.query.limit : null, 100)
+
+      const conflicts = await store.listConflicts({
+        status: status === "all" ? undefined : status,
+        domain,
+        limit,
+      })
+      return res.json(conflicts)
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.get("/v1/sync/conflicts/:id", async (req, res) => {
+    try {
+      const conflict = await store.getConflict(req.params.id)
+      if (!conflict) {
+        return res.status(404).json({ error: "Conflict not found" })
+      }
+      return res.json(conflict)
+    } catch (error) {
+      return res.status(500).json({ error: firstErrorMessage(error) })
+    }
+  })
+
+  app.post("/v1/sync/conflicts/:id/resolve", async (req, res) => {
+    try {
+      const parsed = conflictResolveRequestSchema.parse(req.body)
+      const existing = await store.getConflict(req.params.id)
+      if (!existing) {
+        return res.status(404).json({ error: "Conflict not found" })
+      }
+      if (existing.conflict.status !== "open") {
+        return res.status(409).json({ error: `Conflict is already ${existing.conflict.status}` })
+      }
+
+      const resolved = await store.resolveConflict({
+        conflictId: req.params.id,
+        strategy: parsed.strategy,
+        contentMarkdown: parsed.contentMarkdown,
+        resolvedBy: parsed.resolvedBy || "operator",
+      })
+      return res.json(resolved)
+    } catch (error) {
+      return res.status(400).json({ error: firstErrorMessage(error) })
+    }
+  })
+
   app.post("/v1/sync/reconcile", async (_req, res) => {
     try {
-      const pull = await pullFromFleet(config.maxSyncBatch)
+      const peers = await replicator.syncAll(config.maxSyncBatch)
+      const fleetHub = peers.find((peer) => peer.peerCoreId === FLEET_HUB_PEER_ID)
+      const pull = {
+        pulled: fleetHub?.pulled || 0,
+        applied: fleetHub?.applied || 0,
+        nextCursor: fleetHub?.pullCursor || 0,
+      }
       const merge = config.enableMergeWorker
         ? await store.processPendingMergeJobs(20)
         : { processed: 0, completed: 0, failed: 0 }
@@ -515,6 +649,7 @@ async function main(): Promise<void> {
         role: config.role,
         coreId: config.coreId,
         pull,
+        peers,
         merge,
       })
     } catch (error) {
@@ -29,7 +29,7 @@ function shouldVerifyWithWalletEnclave(): boolean {
   return false
 }
 
-async function verifySignatureWithWalletEnclave(envelope: MemoryWriteEnvelope): Promise<{ ok: boolean; reason?: string }> {
+export async function verifyWalletEnclaveSignature(envelope: MemoryWriteEnvelope): Promise<{ ok: boolean; reason?: string }> {
   if (!shouldVerifyWithWalletEnclave()) {
     return { ok: true }
   }
@@ -155,7 +155,7 @@ export async function verifyWriteSignature(args: {
     return { ok: false, reason: "Empty signature value" }
   }
 
-  const enclaveVerification = await verifySignatureWithWalletEnclave(envelope)
+  const enclaveVerification = await verifyWalletEnclaveSignature(envelope)
   if (!enclaveVerification.ok) {
     return enclaveVerification
   }
@@ -0,0 +1,64 @@
+export type VersionVector = Record<string, number>
+
+export type VersionOrder = "equal" | "before" | "after" | "concurrent"
+
+export function asVersionVector(value: unknown): VersionVector {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {}
+  }
+
+  const vector: VersionVector = {}
+  for (const [coreId, counter] of Object.entries(value as Record<string, unknown>)) {
+    const parsed = typeof counter === "number" ? counter : Number(counter)
+    if (coreId && Number.isInteger(parsed) && parsed > 0) {
+      vector[coreId] = parsed
+    }
+  }
+  return vector
+}
+
+/**
+ * Orders `left` against `right`: `before` means every counter in `left` is
+ * covered by `right`, `concurrent` means each side saw a write the other did not.
+ */
+export function compareVersionVectors(left: VersionVector, right: VersionVector): VersionOrder {
+  let leftAhead = false
+  let rightAhead = false
+
+  for (const coreId of new Set([...Object.keys(left), ...Object.keys(right)])) {
+    const leftCounter = left[coreId] || 0
+    const rightCounter = right[coreId] || 0
+    if (leftCounter > rightCounter) leftAhead = true
+    if (rightCounter > leftCounter) rightAhead = true
+  }
+
+  if (leftAhead && rightAhead) return "concurrent"
+  if (leftAhead) return "after"
+  if (rightAhead) return "before"
+  return "equal"
+}
+
+export function mergeVersionVectors(...vectors: VersionVector[]): VersionVector {
+  const merged: VersionVector = {}
+  for (const vector of vectors) {
+    for (const [coreId, counter] of Object.entries(vector)) {
+      merged[coreId] = Math.max(merged[coreId] || 0, counter)
+    }
+  }
+  return merged
+}
+
+export function bumpVersionVector(vector: VersionVector, coreId: string): VersionVector {
+  return {
+    ...vector,
+    [coreId]: (vector[coreId] || 0) + 1,
+  }
+}
+
+/** `true` when `vector` has seen everything in each of `others`. */
+export function dominatesVersionVectors(vector: VersionVector, ...others: VersionVector[]): boolean {
+  return others.every((other) => {
+    const order = compareVersionVectors(vector, other)
+    return order === "after" || order === "equal"
+  })
+}
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import { embedTexts } from "../src/chunking.js"
+import type { DataCoreEmbeddingConfig } from "../src/config.js"
+
+function makeEmbeddingConfig(overrides: Partial<DataCoreEmbeddingConfig> = {}): DataCoreEmbeddingConfig {
+  return {
+    provider: "openai-compatible",
+    baseUrl: "http://embeddings.test/v1",
+    apiKey: null,
+    model: "nomic-embed-text",
+    dimensions: null,
+    timeoutMs: 1000,
+    ...overrides,
+  }
+}
+
+test("embedTexts posts to the configured OpenAI-compatible endpoint", async () => {
+  const originalFetch = globalThis.fetch
+  const calls: Array<{ url: string; init?: RequestInit }> = []
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(input), init })
+    return new Response(JSON.stringify({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    }), { status: 200 })
+  }) as typeof fetch
+
+  try {
+    const vectors = await embedTexts(["first", "second"], makeEmbeddingConfig({ apiKey: "local-key", dimensions: 2 }))
+
+    assert.deepEqual(vectors, [[1, 0], [0, 1]])
+    assert.equal(calls.length, 1)
+    assert.equal(calls[0].url, "http://embeddings.test/v1/embeddings")
+    assert.deepEqual(JSON.parse(String(calls[0].init?.body)), {
+      model: "nomic-embed-text",
+      input: ["first", "second"],
+      dimensions: 2,
+    })
+    assert.equal((calls[0].init?.headers as Record<string, string>).Authorization, "Bearer local-key")
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("embedTexts rejects responses with mixed vector widths", async () => {
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = (async () => new Response(JSON.stringify({
+    data: [
+      { index: 0, embedding: [1, 0, 0] },
+      { index: 1, embedding: [0, 1] },
+    ],
+  }), { status: 200 })) as typeof fetch
+
+  try {
+    assert.equal(await embedTexts(["first", "second"], makeEmbeddingConfig()), null)
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("embedTexts skips hosted OpenAI without a key", async () => {
+  const originalFetch = globalThis.fetch
+  let called = false
+  globalThis.fetch = (async () => {
+    called = true
+    return new Response("{}", { status: 200 })
+  }) as typeof fetch
+
+  try {
+    const vectors = await embedTexts(["first"], makeEmbeddingConfig({
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+    }))
+    assert.equal(vectors, null)
+    assert.equal(called, false)
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
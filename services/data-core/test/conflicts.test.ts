@@ -0,0 +1,370 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import type { DataCoreConfig } from "../src/config.js"
+import type { DataCoreDb } from "../src/db.js"
+import { MemoryStore } from "../src/memory-store.js"
+import type { ConflictResolutionStrategy, MemoryWriteEnvelope } from "../src/schema.js"
+import { canonicalPayloadHash } from "../src/signature.js"
+
+const PATH = "ship/runbooks/reactor.md"
+
+function makeConfig(overrides: Partial<DataCoreConfig> = {}): DataCoreConfig {
+  return {
+    host: "127.0.0.1",
+    port: 3390,
+    databaseUrl: "postgresql://example.invalid/data-core",
+    apiKey: null,
+    syncSharedSecret: null,
+    coreId: "ship-a",
+    role: "ship",
+    clusterId: "local",
+    shipDeploymentId: null,
+    fleetHubUrl: null,
+    autoMigrate: false,
+    maxSyncBatch: 200,
+    queryCandidateLimit: 500,
+    queryTopKDefault: 12,
+    enableMergeWorker: true,
+    conflictPolicy: "manual",
+    embedding: {
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: null,
+      model: "text-embedding-3-small",
+      dimensions: null,
+      timeoutMs: 1000,
+    },
+    edgequake: {
+      enabled: false,
+      baseUrl: null,
+      apiKey: null,
+      bearerToken: null,
+      timeoutMs: 6000,
+      tenantId: "00000000-0000-0000-0000-000000000002",
+      maxRetries: 12,
+      drainBatch: 25,
+      drainIntervalMs: 15000,
+    },
+    ...overrides,
+  }
+}
+
+function write(args: {
+  content: string
+  sourceCoreId: string
+  seq: number
+  versionVector?: Record<string, number>
+  occurredAt?: string
+}): MemoryWriteEnvelope {
+  const envelope: MemoryWriteEnvelope = {
+    operation: "upsert",
+    domain: "ship",
+    canonicalPath: PATH,
+    contentMarkdown: args.content,
+    metadata: {
+      source: "agent",
+      writerType: "agent",
+      writerId: `ENG-${args.sourceCoreId}`,
+    },
+    event: {
+      sourceCoreId: args.sourceCoreId,
+      sourceSeq: args.seq,
+      occurredAt: args.occurredAt || "2026-02-20T10:00:00.000Z",
+      idempotencyKey: `idem:${args.sourceCoreId}:${args.seq}`,
+    },
+    signature: {
+      chain: "cardano",
+      alg: "cip8-ed25519",
+      keyRef: `agent:${args.sourceCoreId}`,
+      address: `addr_${args.sourceCoreId}`,
+      signature: "sig",
+      payloadHash: "",
+      signedAt: args.occurredAt || "2026-02-20T10:00:00.000Z",
+    },
+    ...(args.versionVector ? { replication: { versionVector: args.versionVector } } : {}),
+  }
+  envelope.signature.payloadHash = canonicalPayloadHash(envelope)
+  return envelope
+}
+
+/** In-memory stand-in for the tables `applyWriteEnvelope` and conflict resolution touch. */
+function createFakeDb() {
+  const events: Array<Record<string, any>> = []
+  const docs: Array<Record<string, any>> = []
+  const conflicts: Array<Record<string, any>> = []
+  const now = () => new Date().toISOString()
+  const parse = (value: unknown) => (typeof value === "string" ? JSON.parse(value) : value)
+
+  const query = async (sql: string, params: any[] = []): Promise<{ rows: any[] }> => {
+    if (sql.includes("INSERT INTO memory_event_log")) {
+      events.push({
+        id: params[0],
+        cursor: events.length + 1,
+        source_core_id: params[1],
+        source_seq: params[2],
+        idempotency_key: params[3],
+        operation: params[4],
+        domain: params[5],
+        canonical_path: params[6],
+        content_markdown: params[7],
+        metadata: parse(params[8]),
+        writer_type: params[9],
+        writer_id: params[10],
+        signature: parse(params[11]),
+        payload_hash: params[12],
+        occurred_at: params[13],
+        ingested_at: now(),
+        deleted: params[14],
+        supersedes_event_id: params[15],
+        status: params[16],
+        version_vector: parse(params[17]),
+        envelope: parse(params[18]),
+      })
+      return { rows: [] }
+    }
+    if (sql.includes("FROM memory_event_log") && sql.includes("idempotency_key = $1")) {
+      return { rows: events.filter((event) => event.idempotency_key === params[0]) }
+    }
+    if (sql.includes("FROM memory_event_log") && sql.includes("id = ANY")) {
+      return { rows: events.filter((event) => params[0].includes(event.id)) }
+    }
+    if (sql.includes("INSERT INTO memory_document_current")) {
+      const existing = docs.find((doc) => doc.domain === params[0] && doc.canonical_path === params[1])
+      const next = {
+        domain: params[0],
+        canonical_path: params[1],
+        title: params[2],
+        content_markdown: params[3],
+        metadata: parse(params[4]),
+        latest_event_id: params[5],
+        version_vector: parse(params[6]),
+        updated_at: now(),
+        deleted_at: sql.includes("deleted_at = now()") ? now() : null,
+      }
+      if (existing) Object.assign(existing, next)
+      else docs.push(next)
+      return { rows: [] }
+    }
+    if (sql.includes("FROM memory_document_current")) {
+      return { rows: docs.filter((doc) => doc.domain === params[0] && doc.canonical_path === params[1]) }
+    }
+    if (sql.includes("INSERT INTO memory_sync_conflict")) {
+      conflicts.push({
+        id: params[0],
+        domain: params[1],
+        canonical_path: params[2],
+        local_event_id: params[3],
+        remote_event_id: params[4],
+        remote_core_id: params[5],
+        local_version_vector: parse(params[6]),
+        remote_version_vector: parse(params[7]),
+        status: "open",
+        resolution: null,
+        resolved_by: null,
+        resolution_event_id: null,
+        resolved_at: null,
+        created_at: now(),
+        updated_at: now(),
+      })
+      return { rows: [] }
+    }
+    if (sql.includes("FROM memory_sync_conflict") && sql.includes("status = 'open'")) {
+      return {
+        rows: conflicts.filter((conflict) =>
+          conflict.domain === params[0] && conflict.canonical_path === params[1] && conflict.status === "open"),
+      }
+    }
+    if (sql.includes("FROM memory_sync_conflict")) {
+      return { rows: conflicts.filter((conflict) => conflict.id === params[0]) }
+    }
+    if (sql.includes("UPDATE memory_sync_conflict") && sql.includes("resolution = 'superseded'")) {
+      Object.assign(conflicts.find((conflict) => conflict.id === params[0]) || {}, {
+        status: "resolved",
+        resolution: "superseded",
+        resolution_event_id: params[1],
+        resolved_at: now(),
+      })
+      return { rows: [] }
+    }
+    if (sql.includes("UPDATE memory_sync_conflict")) {
+      const conflict = conflicts.find((entry) => entry.id === params[0] && entry.status === "open")
+      if (!conflict) return { rows: [] }
+      Object.assign(conflict, {
+        status: "resolved",
+        resolution: params[1],
+        resolved_by: params[2],
+        resolution_event_id: params[3],
+        resolved_at: now(),
+      })
+      return { rows: [conflict] }
+    }
+    if (sql.includes("memory_chunk_index") || sql.includes("memory_merge_job")) {
+      return { rows: [] }
+    }
+    throw new Error(`Unexpected query: ${sql}`)
+  }
+
+  const db = {
+    query,
+    transaction: async <T>(fn: (client: unknown) => Promise<T>) => fn({ query }),
+  } as unknown as DataCoreDb
+
+  return { db, events, docs, conflicts }
+}
+
+/** Local write on ship-a, then a concurrent write from ship-b that queues a conflict. */
+async function seedConflict(store: MemoryStore) {
+  await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nVent before restart.", sourceCoreId: "ship-a", seq: 1 }),
+    skipSignatureCheck: true,
+  })
+  return store.applyWriteEnvelope({
+    envelope: write({
+      content: "# Reactor\n\nCool for an hour.",
+      sourceCoreId: "ship-b",
+      seq: 1,
+      versionVector: { "ship-b": 1 },
+      occurredAt: "2026-02-20T11:00:00.000Z",
+    }),
+    skipSignatureCheck: true,
+  })
+}
+
+test("applyWriteEnvelope fast-forwards, supersedes and queues concurrent writes as conflicts", async () => {
+  const fake = createFakeDb()
+  const store = new MemoryStore(fake.db, makeConfig())
+
+  const local = await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nv1", sourceCoreId: "ship-a", seq: 1 }),
+    skipSignatureCheck: true,
+  })
+  assert.equal(local.status, "applied")
+  assert.deepEqual(local.versionVector, { "ship-a": 1 })
+
+  const forward = await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nv2", sourceCoreId: "ship-b", seq: 1, versionVector: { "ship-a": 1, "ship-b": 1 } }),
+    skipSignatureCheck: true,
+  })
+  assert.equal(forward.status, "applied")
+  assert.equal(fake.docs[0]?.content_markdown, "# Reactor\n\nv2")
+
+  const stale = await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nold", sourceCoreId: "ship-c", seq: 1, versionVector: { "ship-a": 1 } }),
+    skipSignatureCheck: true,
+  })
+  assert.equal(stale.status, "superseded")
+  assert.equal(stale.conflictId, null)
+
+  const concurrent = await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nfork", sourceCoreId: "ship-c", seq: 2, versionVector: { "ship-a": 1, "ship-c": 1 } }),
+    skipSignatureCheck: true,
+  })
+  assert.equal(concurrent.status, "conflict")
+  assert.ok(concurrent.conflictId)
+  assert.equal(fake.docs[0]?.content_markdown, "# Reactor\n\nv2")
+  assert.deepEqual(fake.conflicts.map((conflict) => ({
+    status: conflict.status,
+    local: conflict.local_event_id,
+    remote: conflict.remote_event_id,
+    localVector: conflict.local_version_vector,
+    remoteVector: conflict.remote_version_vector,
+  })), [{
+    status: "open",
+    local: forward.eventId,
+    remote: concurrent.eventId,
+    localVector: { "ship-a": 1, "ship-b": 1 },
+    remoteVector: { "ship-a": 1, "ship-c": 1 },
+  }])
+})
+
+test("resolveConflict writes the chosen version with a vector covering both sides", async () => {
+  const cases: Array<{ strategy: ConflictResolutionStrategy; contentMarkdown?: string; expected: RegExp }> = [
+    { strategy: "keep-local", expected: /^# Reactor\n\nVent before restart\.$/u },
+    { strategy: "keep-remote", expected: /^# Reactor\n\nCool for an hour\.$/u },
+    { strategy: "merge", expected: /Merge Resolution[\s\S]*Vent before restart\.\nCool for an hour\./u },
+    { strategy: "custom", contentMarkdown: "# Reactor\n\nVent, then cool.", expected: /Vent, then cool\./u },
+  ]
+
+  for (const entry of cases) {
+    const fake = createFakeDb()
+    const store = new MemoryStore(fake.db, makeConfig())
+    const conflict = await seedConflict(store)
+    assert.equal(conflict.status, "conflict")
+
+    const resolved = await store.resolveConflict({
+      conflictId: conflict.conflictId || "",
+      strategy: entry.strategy,
+      contentMarkdown: entry.contentMarkdown,
+      resolvedBy: "captain",
+    })
+
+    assert.equal(resolved.conflict.status, "resolved", entry.strategy)
+    assert.equal(resolved.conflict.resolution, entry.strategy)
+    assert.equal(resolved.conflict.resolvedBy, "captain")
+    assert.equal(resolved.conflict.resolutionEventId, resolved.eventId)
+    assert.match(fake.docs[0]?.content_markdown, entry.expected, entry.strategy)
+
+    const resolution = fake.events.find((event) => event.id === resolved.eventId)
+    assert.equal(resolution?.status, "applied")
+    assert.equal(resolution?.metadata.conflictId, conflict.conflictId)
+    assert.deepEqual(resolution?.version_vector, { "ship-a": 2, "ship-b": 1 })
+  }
+
+  const fake = createFakeDb()
+  const store = new MemoryStore(fake.db, makeConfig())
+  const conflict = await seedConflict(store)
+  await assert.rejects(
+    store.resolveConflict({ conflictId: conflict.conflictId || "", strategy: "custom", resolvedBy: "captain" }),
+    /contentMarkdown is required/u,
+  )
+  await store.resolveConflict({ conflictId: conflict.conflictId || "", strategy: "keep-local", resolvedBy: "captain" })
+  await assert.rejects(
+    store.resolveConflict({ conflictId: conflict.conflictId || "", strategy: "keep-remote", resolvedBy: "captain" }),
+    /already resolved/u,
+  )
+})
+
+test("the fleet hub auto-resolves new conflicts with the configured policy", async () => {
+  const lastWriter = createFakeDb()
+  const lastWriterStore = new MemoryStore(lastWriter.db, makeConfig({ role: "fleet", coreId: "fleet", conflictPolicy: "last-writer-wins" }))
+  const lastWriterConflict = await seedConflict(lastWriterStore)
+
+  assert.equal(lastWriter.conflicts[0]?.id, lastWriterConflict.conflictId)
+  assert.equal(lastWriter.conflicts[0]?.status, "resolved")
+  assert.equal(lastWriter.conflicts[0]?.resolution, "keep-remote")
+  assert.equal(lastWriter.conflicts[0]?.resolved_by, "policy:last-writer-wins")
+  assert.equal(lastWriter.docs[0]?.content_markdown, "# Reactor\n\nCool for an hour.")
+
+  const merge = createFakeDb()
+  const mergeStore = new MemoryStore(merge.db, makeConfig({ role: "fleet", coreId: "fleet", conflictPolicy: "merge" }))
+  await seedConflict(mergeStore)
+  assert.equal(merge.conflicts[0]?.resolution, "merge")
+  assert.match(merge.docs[0]?.content_markdown, /Vent before restart\.\nCool for an hour\./u)
+
+  const ship = createFakeDb()
+  const shipStore = new MemoryStore(ship.db, makeConfig({ conflictPolicy: "last-writer-wins" }))
+  await seedConflict(shipStore)
+  assert.equal(ship.conflicts[0]?.status, "open")
+})
+
+test("a replicated resolution whose vector covers both sides closes the local copy of the conflict", async () => {
+  const fake = createFakeDb()
+  const store = new MemoryStore(fake.db, makeConfig())
+  await seedConflict(store)
+
+  const partial = await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nship-a only", sourceCoreId: "fleet", seq: 1, versionVector: { "ship-a": 2 } }),
+    skipSignatureCheck: true,
+  })
+  assert.equal(partial.status, "applied")
+  assert.equal(fake.conflicts[0]?.status, "open")
+
+  const covering = await store.applyWriteEnvelope({
+    envelope: write({ content: "# Reactor\n\nagreed", sourceCoreId: "fleet", seq: 2, versionVector: { "ship-a": 2, "ship-b": 1, fleet: 1 } }),
+    skipSignatureCheck: true,
+  })
+  assert.equal(covering.status, "applied")
+  assert.equal(fake.conflicts[0]?.status, "resolved")
+  assert.equal(fake.conflicts[0]?.resolution, "superseded")
+  assert.equal(fake.conflicts[0]?.resolution_event_id, covering.eventId)
+})
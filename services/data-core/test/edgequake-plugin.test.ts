@@ -21,6 +21,15 @@ function makeConfig(maxRetries = 3): DataCoreConfig {
     queryCandidateLimit: 500,
     queryTopKDefault: 12,
     enableMergeWorker: true,
+    conflictPolicy: "manual",
+    embedding: {
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: null,
+      model: "text-embedding-3-small",
+      dimensions: null,
+      timeoutMs: 1000,
+    },
     edgequake: {
       enabled: true,
       baseUrl: "http://127.0.0.1:8011",
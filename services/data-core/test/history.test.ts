@@ -0,0 +1,283 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import type { DataCoreConfig } from "../src/config.js"
+import type { DataCoreDb } from "../src/db.js"
+import { verifyHistoryChainEvent, type HistoryChainEvent } from "../src/history.js"
+import { MemoryStore } from "../src/memory-store.js"
+import type { MemoryWriteEnvelope } from "../src/schema.js"
+import { canonicalPayloadHash } from "../src/signature.js"
+
+function makeConfig(): DataCoreConfig {
+  return {
+    host: "127.0.0.1",
+    port: 3390,
+    databaseUrl: "postgresql://example.invalid/data-core",
+    apiKey: null,
+    syncSharedSecret: null,
+    coreId: "core-test",
+    role: "ship",
+    clusterId: "local",
+    shipDeploymentId: null,
+    fleetHubUrl: null,
+    autoMigrate: false,
+    maxSyncBatch: 200,
+    queryCandidateLimit: 500,
+    queryTopKDefault: 12,
+    enableMergeWorker: true,
+    conflictPolicy: "manual",
+    embedding: {
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: null,
+      model: "text-embedding-3-small",
+      dimensions: null,
+      timeoutMs: 1000,
+    },
+    edgequake: {
+      enabled: false,
+      baseUrl: null,
+      apiKey: null,
+      bearerToken: null,
+      timeoutMs: 6000,
+      tenantId: "00000000-0000-0000-0000-000000000002",
+      maxRetries: 12,
+      drainBatch: 25,
+      drainIntervalMs: 15000,
+    },
+  }
+}
+
+function signedEnvelope(): MemoryWriteEnvelope {
+  const envelope: MemoryWriteEnvelope = {
+    operation: "upsert",
+    domain: "ship",
+    canonicalPath: "ship/runbooks/reactor.md",
+    contentMarkdown: "# Reactor\n\nVent before restart.",
+    metadata: {
+      source: "agent",
+      writerType: "agent",
+      writerId: "ENG-GEO",
+    },
+    event: {
+      sourceCoreId: "ship-a",
+      sourceSeq: 7,
+      occurredAt: "2026-02-20T10:00:00.000Z",
+      idempotencyKey: "idem:reactor:7",
+    },
+    signature: {
+      chain: "cardano",
+      alg: "cip8-ed25519",
+      keyRef: "agent:eng-geo",
+      address: "addr_test1geo",
+      signature: "sig-geo",
+      payloadHash: "",
+      signedAt: "2026-02-20T10:00:00.000Z",
+    },
+  }
+  envelope.signature.payloadHash = canonicalPayloadHash(envelope)
+  return envelope
+}
+
+function chainEvent(overrides: Partial<HistoryChainEvent> = {}): HistoryChainEvent {
+  const envelope = signedEnvelope()
+  return {
+    eventId: "evt-2",
+    cursor: 2,
+    canonicalPath: envelope.canonicalPath,
+    envelope,
+    payloadHash: envelope.signature.payloadHash,
+    supersedesEventId: "evt-1",
+    expectedSupersedesEventId: "evt-1",
+    registeredSigner: { keyRef: "agent:eng-geo", address: "addr_test1geo" },
+    ...overrides,
+  }
+}
+
+test("verifyHistoryChainEvent accepts an intact event and reports each broken link", () => {
+  assert.deepEqual(verifyHistoryChainEvent(chainEvent()), [])
+
+  const tampered = signedEnvelope()
+  tampered.contentMarkdown = "# Reactor\n\nRestart immediately."
+  assert.deepEqual(verifyHistoryChainEvent(chainEvent({ envelope: tampered })), ["Payload hash mismatch"])
+
+  assert.deepEqual(
+    verifyHistoryChainEvent(chainEvent({
+      registeredSigner: { keyRef: "agent:eng-geo-rotated", address: "addr_test1geo" },
+      expectedSupersedesEventId: "evt-0",
+    })),
+    [
+      "Signer keyRef mismatch",
+      "Chain break: supersedes_event_id does not match the previous event for this path",
+    ],
+  )
+
+  assert.deepEqual(verifyHistoryChainEvent(chainEvent({ registeredSigner: null })), ["Signer is not registered"])
+})
+
+test("getFileAt follows a content-less move back to the source document", async () => {
+  const queries: Array<{ sql: string; params: unknown[] }> = []
+  const row = (overrides: Record<string, unknown>) => ({
+    id: "evt",
+    cursor: "1",
+    source_core_id: "ship-a",
+    source_seq: "1",
+    idempotency_key: "idem",
+    operation: "upsert",
+    domain: "ship",
+    canonical_path: "ship/drafts/reactor.md",
+    content_markdown: null,
+    metadata: { writerType: "agent", writerId: "ENG-GEO", source: "agent" },
+    writer_type: "agent",
+    writer_id: "ENG-GEO",
+    signature: { keyRef: "agent:eng-geo", address: "addr_test1geo", signature: "sig", signedAt: "2026-02-20T10:00:00.000Z" },
+    payload_hash: "hash-0001",
+    occurred_at: "2026-02-20T10:00:00.000Z",
+    ingested_at: "2026-02-20T10:00:01.000Z",
+    deleted: false,
+    supersedes_event_id: null,
+    status: "applied",
+    version_vector: {},
+    envelope: null,
+    ...overrides,
+  })
+
+  const db = {
+    query: async (sql: string, params: unknown[] = []) => {
+      queries.push({ sql, params })
+      if (params[1] === "ship/runbooks/reactor.md") {
+        return {
+          rows: [row({
+            id: "evt-move",
+            cursor: "9",
+            operation: "move",
+            canonical_path: "ship/runbooks/reactor.md",
+            metadata: { writerType: "agent", writerId: "ENG-GEO", source: "agent", fromCanonicalPath: "ship/drafts/reactor.md" },
+          })],
+        }
+      }
+      return { rows: [row({ id: "evt-draft", cursor: "4", content_markdown: "# Reactor draft" })] }
+    },
+  } as unknown as DataCoreDb
+
+  const store = new MemoryStore(db, makeConfig())
+  const file = await store.getFileAt({
+    domain: "ship",
+    canonicalPath: "ship/runbooks/reactor.md",
+    at: { atCursor: null, asOf: new Date("2026-02-21T00:00:00.000Z") },
+  })
+
+  assert.equal(file?.contentMarkdown, "# Reactor draft")
+  assert.equal(file?.eventId, "evt-move")
+  assert.equal(file?.cursor, 9)
+  assert.equal(file?.signer.keyRef, "agent:eng-geo")
+  assert.deepEqual(queries.map((query) => query.params.slice(1)), [
+    ["ship/runbooks/reactor.md", null, "2026-02-21T00:00:00.000Z"],
+    ["ship/drafts/reactor.md", 8, null],
+  ])
+})
+
+test("verifyHistory checks each event against the signer binding in force when it was ingested", async () => {
+  const signedWith = (keyRef: string, sourceSeq: number): MemoryWriteEnvelope => {
+    const envelope = signedEnvelope()
+    envelope.event = { ...envelope.event, sourceSeq, idempotencyKey: `idem:reactor:${sourceSeq}` }
+    envelope.signature = { ...envelope.signature, keyRef }
+    envelope.signature.payloadHash = canonicalPayloadHash(envelope)
+    return envelope
+  }
+  const eventRow = (id: string, cursor: number, ingestedAt: string, envelope: MemoryWriteEnvelope) => ({
+    id,
+    cursor: String(cursor),
+    source_core_id: "ship-a",
+    source_seq: String(envelope.event.sourceSeq),
+    idempotency_key: envelope.event.idempotencyKey,
+    operation: "upsert",
+    domain: "ship",
+    canonical_path: envelope.canonicalPath,
+    content_markdown: envelope.contentMarkdown,
+    metadata: envelope.metadata,
+    writer_type: "agent",
+    writer_id: "ENG-GEO",
+    signature: envelope.signature,
+    payload_hash: envelope.signature.payloadHash,
+    occurred_at: envelope.event.occurredAt,
+    ingested_at: ingestedAt,
+    deleted: false,
+    supersedes_event_id: cursor === 1 ? null : `evt-${cursor - 1}`,
+    expected_supersedes_event_id: cursor === 1 ? null : `evt-${cursor - 1}`,
+    status: "applied",
+    version_vector: {},
+    envelope,
+  })
+
+  const db = {
+    query: async (sql: string) => {
+      if (sql.includes("FROM signer_binding_history")) {
+        return {
+          rows: [
+            { key_ref: "agent:eng-geo", address: "addr_test1geo", valid_from: "2026-02-20T09:00:00.000Z", valid_to: "2026-02-20T11:00:00.000Z" },
+            { key_ref: "agent:eng-geo-rotated", address: "addr_test1geo", valid_from: "2026-02-20T11:00:00.000Z", valid_to: null },
+          ],
+        }
+      }
+      return {
+        rows: [
+          eventRow("evt-1", 1, "2026-02-20T10:00:00.000Z", signedWith("agent:eng-geo", 1)),
+          eventRow("evt-2", 2, "2026-02-20T12:00:00.000Z", signedWith("agent:eng-geo-rotated", 2)),
+          eventRow("evt-3", 3, "2026-02-20T12:30:00.000Z", signedWith("agent:eng-geo", 3)),
+        ],
+      }
+    },
+  } as unknown as DataCoreDb
+
+  const verification = await new MemoryStore(db, makeConfig()).verifyHistory({})
+
+  assert.equal(verification.checked, 3)
+  assert.equal(verification.valid, 2)
+  assert.deepEqual(verification.failures, [{
+    eventId: "evt-3",
+    cursor: 3,
+    canonicalPath: "ship/runbooks/reactor.md",
+    reasons: ["Signer keyRef mismatch"],
+  }])
+})
+
+test("upsertSigner closes the previous binding only when the key or address changes", async () => {
+  const statements: string[] = []
+  let openBinding: { id: string; key_ref: string; address: string } | null = null
+  const client = {
+    query: async (sql: string, params: unknown[] = []) => {
+      const statement = sql.trim().split(/\s+/u).slice(0, 3).join(" ")
+      statements.push(statement)
+      if (sql.includes("FROM signer_binding_history")) {
+        return { rows: openBinding ? [openBinding] : [] }
+      }
+      if (sql.includes("INSERT INTO signer_binding_history")) {
+        openBinding = { id: String(params[0]), key_ref: String(params[3]), address: String(params[4]) }
+      }
+      return { rows: [] }
+    },
+  }
+  const db = {
+    transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+  } as unknown as DataCoreDb
+  const store = new MemoryStore(db, makeConfig())
+  const signer = { writerType: "agent", writerId: "ENG-GEO", keyRef: "agent:eng-geo", address: "addr_test1geo" }
+
+  await store.upsertSigner(signer)
+  await store.upsertSigner(signer)
+  await store.upsertSigner({ ...signer, keyRef: "agent:eng-geo-rotated" })
+
+  assert.deepEqual(statements, [
+    "SELECT id, key_ref,",
+    "UPDATE signer_binding_history SET",
+    "INSERT INTO signer_binding_history",
+    "INSERT INTO signer_registry",
+    "SELECT id, key_ref,",
+    "INSERT INTO signer_registry",
+    "SELECT id, key_ref,",
+    "UPDATE signer_binding_history SET",
+    "INSERT INTO signer_binding_history",
+    "INSERT INTO signer_registry",
+  ])
+  assert.equal(openBinding?.key_ref, "agent:eng-geo-rotated")
+})
@@ -22,6 +22,15 @@ function makeConfig(): DataCoreConfig {
     queryCandidateLimit: 500,
     queryTopKDefault: 12,
     enableMergeWorker: true,
+    conflictPolicy: "manual",
+    embedding: {
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: null,
+      model: "text-embedding-3-small",
+      dimensions: null,
+      timeoutMs: 1000,
+    },
     edgequake: {
       enabled: true,
       baseUrl: "http://127.0.0.1:8011",
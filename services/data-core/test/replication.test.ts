@@ -0,0 +1,346 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import type { DataCoreConfig } from "../src/config.js"
+import type { MemoryStore, MemorySyncCursor, MemorySyncPeer } from "../src/memory-store.js"
+import { FLEET_HUB_PEER_ID, PeerReplicator } from "../src/replication.js"
+import type { MemoryWriteEnvelope } from "../src/schema.js"
+import {
+  asVersionVector,
+  bumpVersionVector,
+  compareVersionVectors,
+  dominatesVersionVectors,
+  mergeVersionVectors,
+} from "../src/version-vector.js"
+
+function makeConfig(overrides: Partial<DataCoreConfig> = {}): DataCoreConfig {
+  return {
+    host: "127.0.0.1",
+    port: 3390,
+    databaseUrl: "postgresql://example.invalid/data-core",
+    apiKey: "core-key",
+    syncSharedSecret: "sync-secret",
+    coreId: "ship-a",
+    role: "ship",
+    clusterId: "local",
+    shipDeploymentId: null,
+    fleetHubUrl: "http://fleet.local:3390/",
+    autoMigrate: false,
+    maxSyncBatch: 200,
+    queryCandidateLimit: 500,
+    queryTopKDefault: 12,
+    enableMergeWorker: true,
+    conflictPolicy: "manual",
+    embedding: {
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: null,
+      model: "text-embedding-3-small",
+      dimensions: null,
+      timeoutMs: 1000,
+    },
+    edgequake: {
+      enabled: false,
+      baseUrl: null,
+      apiKey: null,
+      bearerToken: null,
+      timeoutMs: 6000,
+      tenantId: "00000000-0000-0000-0000-000000000002",
+      maxRetries: 12,
+      drainBatch: 25,
+      drainIntervalMs: 15000,
+    },
+    ...overrides,
+  }
+}
+
+function envelope(
+  canonicalPath: string,
+  sourceCoreId: string,
+  versionVector: Record<string, number>,
+  keyRef = "agent:xo",
+): MemoryWriteEnvelope {
+  return {
+    operation: "upsert",
+    domain: "ship",
+    canonicalPath,
+    contentMarkdown: "# Note",
+    metadata: {
+      source: "agent",
+      writerType: "agent",
+      writerId: "XO-CB01",
+    },
+    event: {
+      sourceCoreId,
+      sourceSeq: 1,
+      occurredAt: "2026-02-20T10:00:00.000Z",
+      idempotencyKey: `idem:${canonicalPath}`,
+    },
+    signature: {
+      chain: "cardano",
+      alg: "cip8-ed25519",
+      keyRef,
+      address: "addr_test1",
+      signature: "sig",
+      payloadHash: "hash-0001",
+      signedAt: "2026-02-20T10:00:00.000Z",
+    },
+    replication: { versionVector },
+  }
+}
+
+function createStoreSpy(args: {
+  peers?: MemorySyncPeer[]
+  cursors?: Record<string, MemorySyncCursor>
+  localEnvelopes?: MemoryWriteEnvelope[]
+  conflictPaths?: string[]
+}) {
+  const applied: MemoryWriteEnvelope[] = []
+  const savedCursors: Array<{ peerCoreId: string; pullCursor?: number; pushCursor?: number }> = []
+  const listed: Array<{ afterCursor: number; excludeSourceCoreId?: string | null }> = []
+
+  const store = {
+    listSyncPeers: async () => [...(args.peers || [])],
+    getSyncCursor: async (peerCoreId: string) => args.cursors?.[peerCoreId] || { peerCoreId, pullCursor: 0, pushCursor: 0 },
+    saveSyncCursor: async (cursor: { peerCoreId: string; pullCursor?: number; pushCursor?: number }) => {
+      savedCursors.push(cursor)
+    },
+    listSyncEvents: async (query: { afterCursor: number; limit: number; excludeSourceCoreId?: string | null }) => {
+      listed.push({ afterCursor: query.afterCursor, excludeSourceCoreId: query.excludeSourceCoreId })
+      const envelopes = args.localEnvelopes || []
+      return {
+        events: envelopes.map((_entry, index) => ({ cursor: query.afterCursor + index + 1 })),
+        envelopes,
+        nextCursor: query.afterCursor + envelopes.length,
+      }
+    },
+    applyWriteEnvelope: async ({ envelope: incoming }: { envelope: MemoryWriteEnvelope }) => {
+      applied.push(incoming)
+      const conflict = args.conflictPaths?.includes(incoming.canonicalPath) || false
+      return {
+        eventId: `evt-${applied.length}`,
+        duplicate: false,
+        domain: incoming.domain,
+        canonicalPath: incoming.canonicalPath,
+        mergeQueued: false,
+        status: conflict ? "conflict" as const : "applied" as const,
+        conflictId: conflict ? `conflict-${applied.length}` : null,
+        versionVector: incoming.replication?.versionVector || {},
+      }
+    },
+    markSyncPeerSeen: async () => {},
+  }
+
+  return {
+    store: store as unknown as MemoryStore,
+    applied,
+    savedCursors,
+    listed,
+  }
+}
+
+test("compareVersionVectors orders dominated, equal and concurrent vectors", () => {
+  assert.equal(compareVersionVectors({ "ship-a": 1 }, { "ship-a": 2 }), "before")
+  assert.equal(compareVersionVectors({ "ship-a": 2, fleet: 1 }, { "ship-a": 2 }), "after")
+  assert.equal(compareVersionVectors({ "ship-a": 2 }, { "ship-a": 2 }), "equal")
+  assert.equal(compareVersionVectors({ "ship-a": 2 }, { "ship-b": 1 }), "concurrent")
+
+  const resolved = bumpVersionVector(mergeVersionVectors({ "ship-a": 2 }, { "ship-b": 1 }), "fleet")
+  assert.deepEqual(resolved, { "ship-a": 2, "ship-b": 1, fleet: 1 })
+  assert.equal(dominatesVersionVectors(resolved, { "ship-a": 2 }, { "ship-b": 1 }), true)
+  assert.equal(dominatesVersionVectors({ "ship-a": 3 }, { "ship-b": 1 }), false)
+
+  assert.deepEqual(asVersionVector({ "ship-a": "3", "ship-b": 0, fleet: 1.5, "": 2 }), { "ship-a": 3 })
+})
+
+test("peer sync pulls stamped envelopes, counts conflicts and pushes local deltas", async () => {
+  const requests: Array<{ url: string; init?: RequestInit }> = []
+  const fetchImpl: typeof fetch = async (input, init) => {
+    const url = String(input)
+    requests.push({ url, init })
+    if (!init?.method) {
+      return Response.json({
+        events: [],
+        envelopes: [
+          envelope("ship/notes/a.md", "fleet", { fleet: 1 }),
+          envelope("ship/notes/b.md", "ship-b", { "ship-b": 2 }),
+          { malformed: true },
+        ],
+        nextCursor: 42,
+      })
+    }
+    return Response.json({ received: 1, applied: 1, duplicates: 0, conflicts: 0, rejected: 0 })
+  }
+
+  const spy = createStoreSpy({
+    cursors: { [FLEET_HUB_PEER_ID]: { peerCoreId: FLEET_HUB_PEER_ID, pullCursor: 7, pushCursor: 3 } },
+    localEnvelopes: [envelope("ship/notes/c.md", "ship-a", { "ship-a": 4 })],
+    conflictPaths: ["ship/notes/b.md"],
+  })
+
+  const replicator = new PeerReplicator(spy.store, makeConfig(), fetchImpl)
+  const [summary] = await replicator.syncAll()
+
+  assert.deepEqual(summary, {
+    peerCoreId: FLEET_HUB_PEER_ID,
+    pulled: 3,
+    applied: 1,
+    conflicts: 1,
+    pushed: 1,
+    rejected: 0,
+    pullCursor: 42,
+    pushCursor: 4,
+    error: null,
+  })
+
+  const pullUrl = new URL(requests[0].url)
+  assert.equal(pullUrl.origin + pullUrl.pathname, "http://fleet.local:3390/v1/sync/events")
+  assert.equal(pullUrl.searchParams.get("afterCursor"), "7")
+  assert.equal(pullUrl.searchParams.get("excludeSourceCoreId"), "ship-a")
+
+  assert.deepEqual(spy.applied.map((entry) => entry.replication?.versionVector), [{ fleet: 1 }, { "ship-b": 2 }])
+  assert.deepEqual(spy.listed, [{ afterCursor: 3, excludeSourceCoreId: FLEET_HUB_PEER_ID }])
+  assert.deepEqual(spy.savedCursors, [
+    { peerCoreId: FLEET_HUB_PEER_ID, pullCursor: 42 },
+    { peerCoreId: FLEET_HUB_PEER_ID, pushCursor: 4 },
+  ])
+
+  const signer = requests[1]
+  assert.equal(signer.url, "http://fleet.local:3390/v1/signer/upsert")
+  assert.ok((signer.init?.headers as Record<string, string>)["x-data-core-signature"])
+  assert.deepEqual(JSON.parse(String(signer.init?.body)), {
+    writerType: "agent",
+    writerId: "XO-CB01",
+    keyRef: "agent:xo",
+    address: "addr_test1",
+    metadata: { source: "agent" },
+  })
+
+  const push = requests[2]
+  assert.equal(push.url, "http://fleet.local:3390/v1/sync/events")
+  assert.equal(push.init?.method, "POST")
+  const headers = push.init?.headers as Record<string, string>
+  assert.equal(headers["x-data-core-api-key"], "core-key")
+  assert.ok(headers["x-data-core-signature"])
+  const body = JSON.parse(String(push.init?.body)) as { sourceCoreId: string; events: MemoryWriteEnvelope[] }
+  assert.equal(body.sourceCoreId, "ship-a")
+  assert.deepEqual(body.events[0]?.replication, { versionVector: { "ship-a": 4 } })
+})
+
+test("peer sync fails open per peer and leaves cursors untouched on errors", async () => {
+  const peers: MemorySyncPeer[] = [
+    { peerCoreId: "ship-b", peerUrl: "http://ship-b.local:3390", role: "ship", active: true, lastSeenAt: null, metadata: {} },
+    { peerCoreId: "ship-c", peerUrl: "http://ship-c.local:3390", role: "ship", active: true, lastSeenAt: null, metadata: {} },
+  ]
+  const fetchImpl: typeof fetch = async (input, init) => {
+    if (String(input).startsWith("http://ship-b.local")) {
+      return new Response("unavailable", { status: 503 })
+    }
+    return init?.method ? Response.json({}) : Response.json({ envelopes: [], nextCursor: 0 })
+  }
+
+  const spy = createStoreSpy({ peers })
+  const replicator = new PeerReplicator(spy.store, makeConfig({ role: "fleet", fleetHubUrl: null }), fetchImpl)
+
+  const originalConsoleError = console.error
+  console.error = () => {}
+  let summaries: Awaited<ReturnType<PeerReplicator["syncAll"]>>
+  try {
+    summaries = await replicator.syncAll()
+  } finally {
+    console.error = originalConsoleError
+  }
+
+  assert.deepEqual(summaries.map((summary) => summary.peerCoreId), ["ship-b", "ship-c"])
+  assert.match(summaries[0]?.error || "", /Peer sync pull failed \(503\)/)
+  assert.equal(summaries[1]?.error, null)
+  assert.deepEqual(spy.savedCursors, [{ peerCoreId: "ship-c", pullCursor: 0 }])
+})
+
+test("peer push holds its cursor before the first rejected event and re-sends rotated signer bindings", async () => {
+  const peers: MemorySyncPeer[] = [
+    { peerCoreId: "ship-b", peerUrl: "http://ship-b.local:3390", role: "ship", active: true, lastSeenAt: null, metadata: {} },
+  ]
+  const posts: Array<{ path: string; body: any }> = []
+  const fetchImpl: typeof fetch = async (input, init) => {
+    if (!init?.method) {
+      return Response.json({ envelopes: [], nextCursor: 0 })
+    }
+
+    const path = new URL(String(input)).pathname
+    const body = JSON.parse(String(init.body))
+    posts.push({ path, body })
+    if (path === "/v1/signer/upsert") {
+      return Response.json({ signer: body })
+    }
+
+    // The peer refuses the second event of the first batch.
+    const rejected = body.events.length === 2 ? 1 : 0
+    return Response.json({
+      received: body.events.length,
+      applied: body.events.length - rejected,
+      duplicates: 0,
+      conflicts: 0,
+      rejected,
+      firstRejectedIndex: rejected ? 1 : null,
+    })
+  }
+
+  const spy = createStoreSpy({
+    peers,
+    cursors: { "ship-b": { peerCoreId: "ship-b", pullCursor: 0, pushCursor: 10 } },
+    localEnvelopes: [
+      envelope("ship/notes/a.md", "ship-a", { "ship-a": 1 }),
+      envelope("ship/notes/b.md", "ship-a", { "ship-a": 2 }),
+      envelope("ship/notes/c.md", "ship-a", { "ship-a": 3 }, "agent:xo-rotated"),
+    ],
+  })
+
+  const originalConsoleError = console.error
+  console.error = () => {}
+  let summary: Awaited<ReturnType<PeerReplicator["syncPeer"]>>
+  try {
+    summary = await new PeerReplicator(spy.store, makeConfig({ fleetHubUrl: null }), fetchImpl).syncPeer(peers[0]!)
+  } finally {
+    console.error = originalConsoleError
+  }
+
+  assert.equal(summary.pushed, 1)
+  assert.equal(summary.rejected, 1)
+  assert.equal(summary.pushCursor, 11)
+  assert.deepEqual(spy.savedCursors.at(-1), { peerCoreId: "ship-b", pushCursor: 11 })
+  assert.deepEqual(posts.map((post) => post.path === "/v1/signer/upsert"
+    ? `signer:${post.body.keyRef}`
+    : `events:${post.body.events.map((event: MemoryWriteEnvelope) => event.canonicalPath).join(",")}`), [
+    "signer:agent:xo",
+    "events:ship/notes/a.md,ship/notes/b.md",
+  ])
+
+  posts.length = 0
+  spy.savedCursors.length = 0
+  const fullyAccepted = createStoreSpy({
+    peers,
+    cursors: { "ship-b": { peerCoreId: "ship-b", pullCursor: 0, pushCursor: 10 } },
+    localEnvelopes: [
+      envelope("ship/notes/a.md", "ship-a", { "ship-a": 1 }),
+      envelope("ship/notes/c.md", "ship-a", { "ship-a": 3 }, "agent:xo-rotated"),
+    ],
+  })
+  const accepted = await new PeerReplicator(fullyAccepted.store, makeConfig({ fleetHubUrl: null }), async (input, init) => {
+    if (!init?.method) return Response.json({ envelopes: [], nextCursor: 0 })
+    const path = new URL(String(input)).pathname
+    const body = JSON.parse(String(init.body))
+    posts.push({ path, body })
+    return Response.json(path === "/v1/signer/upsert" ? { signer: body } : { rejected: 0, firstRejectedIndex: null })
+  }).syncPeer(peers[0]!)
+
+  assert.equal(accepted.pushed, 2)
+  assert.equal(accepted.pushCursor, 12)
+  assert.deepEqual(posts.map((post) => post.path === "/v1/signer/upsert"
+    ? `signer:${post.body.keyRef}`
+    : `events:${post.body.events.map((event: MemoryWriteEnvelope) => event.canonicalPath).join(",")}`), [
+    "signer:agent:xo",
+    "events:ship/notes/a.md",
+    "signer:agent:xo-rotated",
+    "events:ship/notes/c.md",
+  ])
+})
@@ -0,0 +1,35 @@
+import crypto from "node:crypto"
+import type { KeyCustody } from "../custody/custody.js"
+import type { AddressInput, SignDataInput, SignDataOutput, SigningAdapter } from "./types.js"
+
+/** Plain RFC 8032 signatures over the UTF-8 payload; the address is the public key hex. */
+export class Ed25519RawAdapter implements SigningAdapter {
+  readonly chain = "generic" as const
+  readonly alg = "ed25519" as const
+  readonly keyType = "ed25519" as const
+
+  constructor(private readonly custody: KeyCustody) {}
+
+  async getAddress(input: AddressInput): Promise<string> {
+    const publicKey = await this.custody.getPublicKey(input.keyRef, this.keyType)
+    return Buffer.from(publicKey).toString("hex")
+  }
+
+  async signData(input: SignDataInput): Promise<SignDataOutput> {
+    const address = await this.getAddress({ keyRef: input.keyRef })
+    if (input.address && input.address.toLowerCase() !== address) {
+      throw new Error(`Address does not match the ed25519 key for keyRef '${input.keyRef}'`)
+    }
+
+    const payloadHash = crypto.createHash("sha256").update(input.payload, "utf8").digest("hex")
+    const signature = await this.custody.sign(input.keyRef, this.keyType, Buffer.from(input.payload, "utf8"))
+
+    return {
+      address,
+      payloadHash,
+      key: address,
+      signature: Buffer.from(signature).toString("hex"),
+      alg: this.alg,
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import crypto from "node:crypto"
+import { secp256k1 } from "@noble/curves/secp256k1.js"
+import { keccak_256 } from "@noble/hashes/sha3.js"
+import type { KeyCustody } from "../custody/custody.js"
+import type { AddressInput, SignDataInput, SignDataOutput, SigningAdapter } from "./types.js"
+
+/** `personal_sign` digest: keccak256("\x19Ethereum Signed Message:\n" + len + message). */
+export function eip191Digest(message: Uint8Array): Uint8Array {
+  const prefix = Buffer.from(`\x19Ethereum Signed Message:\n${message.length}`, "utf8")
+  return keccak_256(Buffer.concat([prefix, message]))
+}
+
+/** EIP-55 checksummed address for an uncompressed (65-byte) public key. */
+export function ethereumAddress(publicKey: Uint8Array): string {
+  const lower = Buffer.from(keccak_256(publicKey.subarray(1)).subarray(12)).toString("hex")
+  const checksum = Buffer.from(keccak_256(Buffer.from(lower, "utf8"))).toString("hex")
+  let address = "0x"
+  for (let index = 0; index < lower.length; index += 1) {
+    address += Number.parseInt(checksum[index], 16) >= 8 ? lower[index].toUpperCase() : lower[index]
+  }
+  return address
+}
+
+/**
+ * Custody backends return bare `r || s`; Ethereum wants low-s plus a recovery
+ * id, which is found by recovering against the known public key.
+ */
+function toRecoverableSignature(compact: Uint8Array, digest: Uint8Array, publicKey: Uint8Array): string {
+  let signature = secp256k1.Signature.fromBytes(compact, "compact")
+  if (signature.hasHighS()) {
+    signature = new secp256k1.Signature(signature.r, secp256k1.Point.Fn.ORDER - signature.s)
+  }
+
+  const expected = Buffer.from(publicKey).toString("hex")
+  for (const recovery of [0, 1]) {
+    const recovered = signature.addRecoveryBit(recovery).recoverPublicKey(digest)
+    if (Buffer.from(recovered.toBytes(false)).toString("hex") === expected) {
+      return `0x${Buffer.from(signature.toBytes("compact")).toString("hex")}${(27 + recovery).toString(16)}`
+    }
+  }
+
+  throw new Error("Custody signature does not recover to the stored secp256k1 key")
+}
+
+export class Eip191Secp256k1Adapter implements SigningAdapter {
+  readonly chain = "ethereum" as const
+  readonly alg = "eip191-secp256k1" as const
+  readonly keyType = "secp256k1" as const
+
+  constructor(private readonly custody: KeyCustody) {}
+
+  async getAddress(input: AddressInput): Promise<string> {
+    return ethereumAddress(await this.custody.getPublicKey(input.keyRef, this.keyType))
+  }
+
+  async signData(input: SignDataInput): Promise<SignDataOutput> {
+    const publicKey = await this.custody.getPublicKey(input.keyRef, this.keyType)
+    const address = ethereumAddress(publicKey)
+    if (input.address && input.address.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Address does not match the secp256k1 key for keyRef '${input.keyRef}'`)
+    }
+
+    const digest = eip191Digest(Buffer.from(input.payload, "utf8"))
+    const compact = await this.custody.sign(input.keyRef, this.keyType, digest)
+
+    return {
+      address,
+      payloadHash: crypto.createHash("sha256").update(input.payload, "utf8").digest("hex"),
+      key: `0x${Buffer.from(publicKey).toString("hex")}`,
+      signature: toRecoverableSignature(compact, digest, publicKey),
+      alg: this.alg,
+    }
+  }
+}
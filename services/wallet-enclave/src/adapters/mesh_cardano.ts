@@ -1,22 +1,7 @@
 import crypto from "node:crypto"
+import type { AddressInput, SignDataInput, SignDataOutput, SigningAdapter } from "./types.js"
 
-export interface SignDataInput {
-  keyRef: string
-  payload: string
-  address?: string
-}
-
-export interface SignDataOutput {
-  address: string
-  payloadHash: string
-  key: string
-  signature: string
-  alg: "cip8-ed25519"
-}
-
-export interface AddressInput {
-  keyRef: string
-}
+export type { AddressInput, SignDataInput, SignDataOutput } from "./types.js"
 
 interface MeshWalletLike {
   getChangeAddress(): Promise<string>
@@ -84,7 +69,10 @@ async function buildMeshWallet(mnemonicWords: string[]): Promise<MeshWalletLike>
   })
 }
 
-export class MeshCardanoAdapter {
+export class MeshCardanoAdapter implements SigningAdapter {
+  readonly chain = "cardano" as const
+  readonly alg = "cip8-ed25519" as const
+
   private walletByKeyRef = new Map<string, MeshWalletLike>()
 
   private async walletFor(keyRef: string): Promise<MeshWalletLike> {
@@ -119,7 +107,7 @@ export class MeshCardanoAdapter {
       payloadHash,
       key: signed.key,
       signature: signed.signature,
-      alg: "cip8-ed25519",
+      alg: this.alg,
     }
   }
 }
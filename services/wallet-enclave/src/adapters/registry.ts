@@ -0,0 +1,27 @@
+import type { KeyCustody } from "../custody/custody.js"
+import type { Chain, SignatureScheme } from "../types.js"
+import { Ed25519RawAdapter } from "./ed25519_raw.js"
+import { Eip191Secp256k1Adapter } from "./eip191_secp256k1.js"
+import { MeshCardanoAdapter } from "./mesh_cardano.js"
+import type { SigningAdapter } from "./types.js"
+
+export class SigningAdapterRegistry {
+  private readonly adapters: SigningAdapter[]
+
+  constructor(adapters: SigningAdapter[]) {
+    this.adapters = [...adapters]
+  }
+
+  /** The first adapter registered for a chain is its default when no `alg` is requested. */
+  resolve(chain: Chain, alg?: SignatureScheme): SigningAdapter | null {
+    return this.adapters.find((adapter) => adapter.chain === chain && (!alg || adapter.alg === alg)) || null
+  }
+}
+
+export function createSigningAdapters(custody: KeyCustody): SigningAdapterRegistry {
+  return new SigningAdapterRegistry([
+    new MeshCardanoAdapter(),
+    new Eip191Secp256k1Adapter(custody),
+    new Ed25519RawAdapter(custody),
+  ])
+}
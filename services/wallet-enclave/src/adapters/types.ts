@@ -0,0 +1,29 @@
+import type { CustodyKeyType } from "../custody/custody.js"
+import type { Chain, SignatureScheme } from "../types.js"
+
+export interface SignDataInput {
+  keyRef: string
+  payload: string
+  address?: string
+}
+
+export interface SignDataOutput {
+  address: string
+  payloadHash: string
+  key: string
+  signature: string
+  alg: SignatureScheme
+}
+
+export interface AddressInput {
+  keyRef: string
+}
+
+export interface SigningAdapter {
+  readonly chain: Chain
+  readonly alg: SignatureScheme
+  /** Set when keys live in a custody backend and can be provisioned through the enclave. */
+  readonly keyType?: CustodyKeyType
+  getAddress(input: AddressInput): Promise<string>
+  signData(input: SignDataInput): Promise<SignDataOutput>
+}
@@ -7,6 +7,9 @@ export type AuditEvent = {
   endpoint: string
   decision: "allow" | "deny"
   reason?: string
+  /** Policy rule that produced the decision, when one did. */
+  ruleId?: string
+  caller?: string
   meta?: unknown
   error?: { code: string; message: string }
 }
@@ -1,5 +1,21 @@
 import crypto from "node:crypto"
 
+export interface MasterSecret {
+  keyId: string
+  secret: Buffer
+}
+
+export interface EncryptedEnvelope {
+  alg: "AES-256-GCM"
+  ciphertextB64: string
+  nonceB64: string
+  keyId: string
+}
+
+function masterKeyId(secret: Buffer): string {
+  return crypto.createHash("sha256").update("wallet-enclave-master-key-id:").update(secret).digest("hex").slice(0, 16)
+}
+
 function masterSecret(): Buffer {
   const secret = process.env.WALLET_ENCLAVE_MASTER_SECRET
   if (!secret) {
@@ -9,17 +25,51 @@ function masterSecret(): Buffer {
   return Buffer.from(secret, "utf8")
 }
 
-export function deriveKey(context: string): Buffer {
+/**
+ * Current secret first, then retired secrets from the comma-separated
+ * WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS. Key ids are fingerprints of the
+ * secret, so rotating only means moving the old value into the previous list.
+ */
+export function masterSecrets(): MasterSecret[] {
+  const current = masterSecret()
+  const previous = (process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => Buffer.from(entry, "utf8"))
+
+  const seen = new Set<string>()
+  const secrets: MasterSecret[] = []
+  for (const secret of [current, ...previous]) {
+    const keyId = masterKeyId(secret)
+    if (seen.has(keyId)) continue
+    seen.add(keyId)
+    secrets.push({ keyId, secret })
+  }
+  return secrets
+}
+
+export function currentMasterKeyId(): string {
+  return masterKeyId(masterSecret())
+}
+
+function masterSecretById(keyId: string): MasterSecret {
+  const match = masterSecrets().find((entry) => entry.keyId === keyId)
+  if (!match) {
+    throw new Error(`Unknown master key id '${keyId}'`)
+  }
+  return match
+}
+
+export function deriveKey(context: string, keyId?: string): Buffer {
+  const secret = keyId ? masterSecretById(keyId).secret : masterSecret()
   const salt = Buffer.from("wallet-enclave-hkdf-salt", "utf8")
-  return Buffer.from(crypto.hkdfSync("sha256", masterSecret(), salt, Buffer.from(context, "utf8"), 32))
+  return Buffer.from(crypto.hkdfSync("sha256", secret, salt, Buffer.from(context, "utf8"), 32))
 }
 
-export function encrypt(context: string, plaintextB64: string): {
-  alg: "AES-256-GCM"
-  ciphertextB64: string
-  nonceB64: string
-} {
-  const key = deriveKey(context)
+export function encrypt(context: string, plaintextB64: string): EncryptedEnvelope {
+  const keyId = currentMasterKeyId()
+  const key = deriveKey(context, keyId)
   const nonce = crypto.randomBytes(12)
   const plaintext = Buffer.from(plaintextB64, "base64")
 
@@ -32,30 +82,74 @@ export function encrypt(context: string, plaintextB64: string): {
     alg: "AES-256-GCM",
     ciphertextB64: packed.toString("base64"),
     nonceB64: nonce.toString("base64"),
+    keyId,
   }
 }
 
+function openWithKey(key: Buffer, ciphertextB64: string, nonceB64: string): Buffer {
+  const nonce = Buffer.from(nonceB64, "base64")
+  const packed = Buffer.from(ciphertextB64, "base64")
+
+  const ciphertext = packed.subarray(0, packed.length - 16)
+  const tag = packed.subarray(packed.length - 16)
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+/**
+ * Envelopes written before key ids existed carry no `keyId`; those are tried
+ * against every known secret and the GCM tag picks the right one.
+ */
 export function decrypt(
   context: string,
   ciphertextB64: string,
   nonceB64: string,
+  keyId?: string,
 ): {
   alg: "AES-256-GCM"
   plaintextB64: string
+  keyId: string
 } {
-  const key = deriveKey(context)
-  const nonce = Buffer.from(nonceB64, "base64")
-  const packed = Buffer.from(ciphertextB64, "base64")
+  const candidates = keyId ? [masterSecretById(keyId)] : masterSecrets()
 
-  const ciphertext = packed.subarray(0, packed.length - 16)
-  const tag = packed.subarray(packed.length - 16)
+  let lastError: unknown = null
+  for (const candidate of candidates) {
+    try {
+      const plaintext = openWithKey(deriveKey(context, candidate.keyId), ciphertextB64, nonceB64)
+      return {
+        alg: "AES-256-GCM",
+        plaintextB64: plaintext.toString("base64"),
+        keyId: candidate.keyId,
+      }
+    } catch (error) {
+      lastError = error
+    }
+  }
 
-  const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce)
-  decipher.setAuthTag(tag)
-  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()])
+  throw lastError instanceof Error ? lastError : new Error("Decrypt failed")
+}
+
+/** Re-encrypts an envelope under the current master secret; current envelopes are returned unchanged. */
+export function rewrap(
+  context: string,
+  envelope: { ciphertextB64: string; nonceB64: string; keyId?: string },
+): EncryptedEnvelope & { rewrapped: boolean } {
+  const currentKeyId = currentMasterKeyId()
+  const opened = decrypt(context, envelope.ciphertextB64, envelope.nonceB64, envelope.keyId)
+  if (opened.keyId === currentKeyId && envelope.keyId === currentKeyId) {
+    return {
+      alg: "AES-256-GCM",
+      ciphertextB64: envelope.ciphertextB64,
+      nonceB64: envelope.nonceB64,
+      keyId: currentKeyId,
+      rewrapped: false,
+    }
+  }
 
   return {
-    alg: "AES-256-GCM",
-    plaintextB64: plaintext.toString("base64"),
+    ...encrypt(context, opened.plaintextB64),
+    rewrapped: true,
   }
 }
@@ -0,0 +1,44 @@
+import path from "node:path"
+import { FileKeystore } from "./file_keystore.js"
+import { Pkcs11Custody } from "./pkcs11.js"
+
+export type CustodyKeyType = "ed25519" | "secp256k1"
+
+export type CustodyBackend = "file" | "pkcs11"
+
+/**
+ * Holds private keys for the raw signing adapters. Private key material never
+ * leaves a backend; callers only see public keys and signatures.
+ *
+ * `sign` takes the full message for `ed25519` (EdDSA hashes internally) and a
+ * 32-byte digest for `secp256k1`, returning a 64-byte `r || s` signature that
+ * may still carry a high `s`.
+ */
+export interface KeyCustody {
+  readonly backend: CustodyBackend
+  generateKey(keyRef: string, keyType: CustodyKeyType): Promise<Uint8Array>
+  getPublicKey(keyRef: string, keyType: CustodyKeyType): Promise<Uint8Array>
+  sign(keyRef: string, keyType: CustodyKeyType, message: Uint8Array): Promise<Uint8Array>
+}
+
+export function keyCustodyFromEnv(dataDir: string): KeyCustody {
+  const backend = (process.env.WALLET_ENCLAVE_CUSTODY_BACKEND || "file").trim().toLowerCase()
+
+  if (backend === "pkcs11") {
+    const modulePath = process.env.WALLET_ENCLAVE_PKCS11_MODULE
+    if (!modulePath) {
+      throw new Error("WALLET_ENCLAVE_PKCS11_MODULE must be set for the pkcs11 custody backend")
+    }
+    return new Pkcs11Custody({
+      modulePath,
+      tokenLabel: process.env.WALLET_ENCLAVE_PKCS11_TOKEN_LABEL || undefined,
+      pin: process.env.WALLET_ENCLAVE_PKCS11_PIN || undefined,
+    })
+  }
+
+  if (backend !== "file") {
+    throw new Error(`Unsupported WALLET_ENCLAVE_CUSTODY_BACKEND '${backend}'`)
+  }
+
+  return new FileKeystore(process.env.WALLET_ENCLAVE_KEYSTORE_DIR || path.join(dataDir, "keystore"))
+}
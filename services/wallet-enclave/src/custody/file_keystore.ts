@@ -0,0 +1,147 @@
+import crypto from "node:crypto"
+import fs from "node:fs"
+import path from "node:path"
+import { ed25519 } from "@noble/curves/ed25519.js"
+import { secp256k1 } from "@noble/curves/secp256k1.js"
+import { currentMasterKeyId, decrypt, encrypt, rewrap, type EncryptedEnvelope } from "../crypto/crypto.js"
+import type { CustodyKeyType, KeyCustody } from "./custody.js"
+
+export interface KeystoreRecord {
+  keyRef: string
+  keyType: CustodyKeyType
+  publicKeyHex: string
+  wrapped: EncryptedEnvelope
+  createdAt: string
+  rewrappedAt?: string
+}
+
+export interface KeystoreRewrapResult {
+  total: number
+  rewrapped: number
+  keyId: string
+}
+
+function wrapContext(keyRef: string, keyType: CustodyKeyType): string {
+  return `keystore:${keyType}:${keyRef}`
+}
+
+function publicKeyFor(keyType: CustodyKeyType, secretKey: Uint8Array): Uint8Array {
+  return keyType === "ed25519" ? ed25519.getPublicKey(secretKey) : secp256k1.getPublicKey(secretKey, false)
+}
+
+function signWith(keyType: CustodyKeyType, secretKey: Uint8Array, message: Uint8Array): Uint8Array {
+  if (keyType === "ed25519") {
+    return ed25519.sign(message, secretKey)
+  }
+  if (message.length !== 32) {
+    throw new Error("secp256k1 custody signing expects a 32-byte digest")
+  }
+  return secp256k1.sign(message, secretKey, { prehash: false }).toBytes("compact")
+}
+
+/**
+ * Stores one JSON record per key under `dir`, with the private key wrapped by
+ * the master-secret envelope (`crypto.ts`) under a per-key context.
+ */
+export class FileKeystore implements KeyCustody {
+  readonly backend = "file" as const
+
+  constructor(private readonly dir: string) {}
+
+  private recordPath(keyRef: string, keyType: CustodyKeyType): string {
+    const digest = crypto.createHash("sha256").update(keyRef, "utf8").digest("hex").slice(0, 32)
+    return path.join(this.dir, `${digest}.${keyType}.json`)
+  }
+
+  private readRecord(keyRef: string, keyType: CustodyKeyType): KeystoreRecord {
+    const file = this.recordPath(keyRef, keyType)
+    if (!fs.existsSync(file)) {
+      throw new Error(`No ${keyType} key stored for keyRef '${keyRef}'`)
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8")) as KeystoreRecord
+  }
+
+  private writeRecord(record: KeystoreRecord): void {
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 })
+    const file = this.recordPath(record.keyRef, record.keyType)
+    const tmp = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tmp, `${JSON.stringify(record, null, 2)}\n`, { encoding: "utf8", mode: 0o600 })
+    fs.renameSync(tmp, file)
+  }
+
+  private unwrapSecretKey(record: KeystoreRecord): Buffer {
+    const opened = decrypt(
+      wrapContext(record.keyRef, record.keyType),
+      record.wrapped.ciphertextB64,
+      record.wrapped.nonceB64,
+      record.wrapped.keyId,
+    )
+    return Buffer.from(opened.plaintextB64, "base64")
+  }
+
+  async importKey(keyRef: string, keyType: CustodyKeyType, secretKey: Uint8Array): Promise<Uint8Array> {
+    if (fs.existsSync(this.recordPath(keyRef, keyType))) {
+      throw new Error(`A ${keyType} key already exists for keyRef '${keyRef}'`)
+    }
+
+    const publicKey = publicKeyFor(keyType, secretKey)
+    this.writeRecord({
+      keyRef,
+      keyType,
+      publicKeyHex: Buffer.from(publicKey).toString("hex"),
+      wrapped: encrypt(wrapContext(keyRef, keyType), Buffer.from(secretKey).toString("base64")),
+      createdAt: new Date().toISOString(),
+    })
+    return publicKey
+  }
+
+  async generateKey(keyRef: string, keyType: CustodyKeyType): Promise<Uint8Array> {
+    const secretKey = keyType === "ed25519" ? ed25519.utils.randomSecretKey() : secp256k1.utils.randomSecretKey()
+    try {
+      return await this.importKey(keyRef, keyType, secretKey)
+    } finally {
+      secretKey.fill(0)
+    }
+  }
+
+  async getPublicKey(keyRef: string, keyType: CustodyKeyType): Promise<Uint8Array> {
+    return Buffer.from(this.readRecord(keyRef, keyType).publicKeyHex, "hex")
+  }
+
+  async sign(keyRef: string, keyType: CustodyKeyType, message: Uint8Array): Promise<Uint8Array> {
+    const secretKey = this.unwrapSecretKey(this.readRecord(keyRef, keyType))
+    try {
+      return signWith(keyType, secretKey, message)
+    } finally {
+      secretKey.fill(0)
+    }
+  }
+
+  /** Re-wraps every stored key that is not yet under the current master secret. */
+  rewrapAll(): KeystoreRewrapResult {
+    const keyId = currentMasterKeyId()
+    const result: KeystoreRewrapResult = { total: 0, rewrapped: 0, keyId }
+    if (!fs.existsSync(this.dir)) {
+      return result
+    }
+
+    for (const entry of fs.readdirSync(this.dir)) {
+      if (!entry.endsWith(".json")) continue
+      const record = JSON.parse(fs.readFileSync(path.join(this.dir, entry), "utf8")) as KeystoreRecord
+      result.total += 1
+
+      const next = rewrap(wrapContext(record.keyRef, record.keyType), record.wrapped)
+      if (!next.rewrapped) continue
+
+      const { rewrapped: _rewrapped, ...wrapped } = next
+      this.writeRecord({
+        ...record,
+        wrapped,
+        rewrappedAt: new Date().toISOString(),
+      })
+      result.rewrapped += 1
+    }
+
+    return result
+  }
+}
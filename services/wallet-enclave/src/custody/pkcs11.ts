@@ -0,0 +1,236 @@
+import type { CustodyKeyType, KeyCustody } from "./custody.js"
+
+// pkcs11js is an optional native dependency; it is resolved at runtime only.
+const PKCS11_MODULE = "pkcs11js"
+
+// PKCS#11 v3.0 values that pkcs11js does not export.
+const CKK_EC_EDWARDS = 0x40
+const CKM_EC_EDWARDS_KEY_PAIR_GEN = 0x1055
+const CKM_EDDSA = 0x1057
+
+// DER-encoded named-curve OIDs for CKA_EC_PARAMS.
+const EC_PARAMS: Record<CustodyKeyType, Buffer> = {
+  secp256k1: Buffer.from("06052b8104000a", "hex"),
+  ed25519: Buffer.from("06032b6570", "hex"),
+}
+
+const PUBLIC_KEY_LENGTH: Record<CustodyKeyType, number> = {
+  secp256k1: 65,
+  ed25519: 32,
+}
+
+type Handle = Buffer
+
+interface Pkcs11Attribute {
+  type: number
+  value?: number | boolean | string | Buffer
+}
+
+interface Pkcs11Like {
+  load(path: string): void
+  C_Initialize(): void
+  C_Finalize(): void
+  C_GetSlotList(tokenPresent?: boolean): Handle[]
+  C_GetTokenInfo(slot: Handle): { label: string }
+  C_OpenSession(slot: Handle, flags: number): Handle
+  C_CloseSession(session: Handle): void
+  C_Login(session: Handle, userType: number, pin?: string): void
+  C_FindObjectsInit(session: Handle, template: Pkcs11Attribute[]): void
+  C_FindObjects(session: Handle, maxObjectCount: number): Handle[]
+  C_FindObjectsFinal(session: Handle): void
+  C_GetAttributeValue(session: Handle, object: Handle, template: Pkcs11Attribute[]): Pkcs11Attribute[]
+  C_GenerateKeyPair(
+    session: Handle,
+    mechanism: { mechanism: number },
+    publicTmpl: Pkcs11Attribute[],
+    privateTmpl: Pkcs11Attribute[],
+  ): { publicKey: Handle; privateKey: Handle }
+  C_SignInit(session: Handle, mechanism: { mechanism: number }, key: Handle): void
+  C_Sign(session: Handle, inData: Buffer, outData: Buffer): Buffer
+}
+
+interface Pkcs11Module {
+  PKCS11: new () => Pkcs11Like
+  [constant: string]: unknown
+}
+
+export interface Pkcs11CustodyOptions {
+  /** Path to the vendor library, e.g. `/usr/lib/softhsm/libsofthsm2.so`. */
+  modulePath: string
+  /** Token to use; defaults to the first slot with a token present. */
+  tokenLabel?: string
+  pin?: string
+}
+
+/**
+ * Strips the DER OCTET STRING that most tokens wrap CKA_EC_POINT in, so both
+ * wrapped and bare points come back as raw public key bytes.
+ */
+export function unwrapEcPoint(value: Buffer, keyType: CustodyKeyType): Buffer {
+  const expected = PUBLIC_KEY_LENGTH[keyType]
+  if (value.length === expected) {
+    return value
+  }
+  if (value.length === expected + 2 && value[0] === 0x04 && value[1] === expected) {
+    return value.subarray(2)
+  }
+  throw new Error(`Unexpected ${keyType} EC point encoding (${value.length} bytes)`)
+}
+
+/**
+ * Keys live on the token as non-extractable objects labelled with their
+ * keyRef; the enclave only ever asks the token to sign.
+ */
+export class Pkcs11Custody implements KeyCustody {
+  readonly backend = "pkcs11" as const
+
+  private state: Promise<{ module: Pkcs11Module; pkcs11: Pkcs11Like; session: Handle }> | null = null
+
+  constructor(private readonly options: Pkcs11CustodyOptions) {}
+
+  private constant(module: Pkcs11Module, name: string): number {
+    const value = module[name]
+    if (typeof value !== "number") {
+      throw new Error(`pkcs11js is missing constant ${name}`)
+    }
+    return value
+  }
+
+  private async open(): Promise<{ module: Pkcs11Module; pkcs11: Pkcs11Like; session: Handle }> {
+    const imported = (await import(PKCS11_MODULE)) as Pkcs11Module & { default?: Pkcs11Module }
+    const module = imported.default || imported
+    const pkcs11 = new module.PKCS11()
+    pkcs11.load(this.options.modulePath)
+    pkcs11.C_Initialize()
+
+    try {
+      const slots = pkcs11.C_GetSlotList(true)
+      const slot = this.options.tokenLabel
+        ? slots.find((candidate) => pkcs11.C_GetTokenInfo(candidate).label.trim() === this.options.tokenLabel)
+        : slots[0]
+      if (!slot) {
+        throw new Error(
+          this.options.tokenLabel ? `PKCS#11 token '${this.options.tokenLabel}' not found` : "No PKCS#11 token present",
+        )
+      }
+
+      const session = pkcs11.C_OpenSession(
+        slot,
+        this.constant(module, "CKF_SERIAL_SESSION") | this.constant(module, "CKF_RW_SESSION"),
+      )
+      if (this.options.pin) {
+        pkcs11.C_Login(session, this.constant(module, "CKU_USER"), this.options.pin)
+      }
+      return { module, pkcs11, session }
+    } catch (error) {
+      pkcs11.C_Finalize()
+      throw error
+    }
+  }
+
+  private async connection(): Promise<{ module: Pkcs11Module; pkcs11: Pkcs11Like; session: Handle }> {
+    if (!this.state) {
+      this.state = this.open().catch((error) => {
+        this.state = null
+        throw error
+      })
+    }
+    return this.state
+  }
+
+  private keyTemplate(module: Pkcs11Module, keyRef: string, keyType: CustodyKeyType, objectClass: string): Pkcs11Attribute[] {
+    return [
+      { type: this.constant(module, "CKA_CLASS"), value: this.constant(module, objectClass) },
+      {
+        type: this.constant(module, "CKA_KEY_TYPE"),
+        value: keyType === "ed25519" ? CKK_EC_EDWARDS : this.constant(module, "CKK_EC"),
+      },
+      { type: this.constant(module, "CKA_LABEL"), value: keyRef },
+    ]
+  }
+
+  private async findObject(keyRef: string, keyType: CustodyKeyType, objectClass: string): Promise<Handle | null> {
+    const { module, pkcs11, session } = await this.connection()
+    pkcs11.C_FindObjectsInit(session, this.keyTemplate(module, keyRef, keyType, objectClass))
+    try {
+      return pkcs11.C_FindObjects(session, 1)[0] || null
+    } finally {
+      pkcs11.C_FindObjectsFinal(session)
+    }
+  }
+
+  private async readPublicKey(handle: Handle, keyType: CustodyKeyType): Promise<Uint8Array> {
+    const { module, pkcs11, session } = await this.connection()
+    const [point] = pkcs11.C_GetAttributeValue(session, handle, [{ type: this.constant(module, "CKA_EC_POINT") }])
+    if (!point || !Buffer.isBuffer(point.value)) {
+      throw new Error("PKCS#11 public key has no CKA_EC_POINT")
+    }
+    return unwrapEcPoint(point.value, keyType)
+  }
+
+  async generateKey(keyRef: string, keyType: CustodyKeyType): Promise<Uint8Array> {
+    if (await this.findObject(keyRef, keyType, "CKO_PRIVATE_KEY")) {
+      throw new Error(`A ${keyType} key already exists for keyRef '${keyRef}'`)
+    }
+
+    const { module, pkcs11, session } = await this.connection()
+    const attr = (name: string, value: Pkcs11Attribute["value"]): Pkcs11Attribute => ({
+      type: this.constant(module, name),
+      value,
+    })
+
+    const { publicKey } = pkcs11.C_GenerateKeyPair(
+      session,
+      {
+        mechanism: keyType === "ed25519" ? CKM_EC_EDWARDS_KEY_PAIR_GEN : this.constant(module, "CKM_EC_KEY_PAIR_GEN"),
+      },
+      [
+        attr("CKA_TOKEN", true),
+        attr("CKA_VERIFY", true),
+        attr("CKA_LABEL", keyRef),
+        attr("CKA_EC_PARAMS", EC_PARAMS[keyType]),
+      ],
+      [
+        attr("CKA_TOKEN", true),
+        attr("CKA_PRIVATE", true),
+        attr("CKA_SENSITIVE", true),
+        attr("CKA_EXTRACTABLE", false),
+        attr("CKA_SIGN", true),
+        attr("CKA_LABEL", keyRef),
+      ],
+    )
+
+    return this.readPublicKey(publicKey, keyType)
+  }
+
+  async getPublicKey(keyRef: string, keyType: CustodyKeyType): Promise<Uint8Array> {
+    const handle = await this.findObject(keyRef, keyType, "CKO_PUBLIC_KEY")
+    if (!handle) {
+      throw new Error(`No ${keyType} public key on token for keyRef '${keyRef}'`)
+    }
+    return this.readPublicKey(handle, keyType)
+  }
+
+  async sign(keyRef: string, keyType: CustodyKeyType, message: Uint8Array): Promise<Uint8Array> {
+    const handle = await this.findObject(keyRef, keyType, "CKO_PRIVATE_KEY")
+    if (!handle) {
+      throw new Error(`No ${keyType} private key on token for keyRef '${keyRef}'`)
+    }
+
+    const { module, pkcs11, session } = await this.connection()
+    pkcs11.C_SignInit(
+      session,
+      { mechanism: keyType === "ed25519" ? CKM_EDDSA : this.constant(module, "CKM_ECDSA") },
+      handle,
+    )
+    return Buffer.from(pkcs11.C_Sign(session, Buffer.from(message), Buffer.alloc(128)))
+  }
+
+  async close(): Promise<void> {
+    if (!this.state) return
+    const { pkcs11, session } = await this.state
+    this.state = null
+    pkcs11.C_CloseSession(session)
+    pkcs11.C_Finalize()
+  }
+}
@@ -2,6 +2,16 @@ export * from "./types.js"
 export * from "./v1/schema.js"
 export * from "./v1/routes.js"
 export * from "./policy/policy.js"
+export * from "./policy/approvals.js"
+export * from "./policy/usage.js"
 export * from "./crypto/crypto.js"
+export * from "./custody/custody.js"
+export * from "./custody/file_keystore.js"
+export * from "./custody/pkcs11.js"
+export * from "./adapters/types.js"
+export * from "./adapters/registry.js"
+export * from "./adapters/mesh_cardano.js"
+export * from "./adapters/ed25519_raw.js"
+export * from "./adapters/eip191_secp256k1.js"
 export * from "./idempotency/idempotency.js"
 export * from "./audit/audit_log.js"
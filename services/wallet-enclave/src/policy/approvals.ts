@@ -0,0 +1,188 @@
+import crypto from "node:crypto"
+import fs from "node:fs"
+import path from "node:path"
+import { compactJsonl } from "./jsonl.js"
+import type { CallerIdentity } from "./callers.js"
+import type { ApprovalRequirement, SignPolicyApproval } from "./policy.js"
+
+export interface ApprovalRecord extends SignPolicyApproval {
+  approvers: string[]
+  /** Credential fingerprint of the requester; null when it had no caller token. */
+  requestedByCredential?: string | null
+  approvedByCredential?: string
+  requestedAt: string
+  approvedAt?: string
+  consumedAt?: string
+}
+
+type ApprovalEvent =
+  | { type: "requested"; ts: string; approval: ApprovalRecord }
+  | { type: "approved"; ts: string; id: string; approvedBy: string; approvedByCredential?: string }
+  | { type: "consumed"; ts: string; id: string }
+  | { type: "released"; ts: string; id: string }
+
+function filePath(dataDir: string): string {
+  return path.join(dataDir, "approvals.jsonl")
+}
+
+function appendEvent(dataDir: string, event: ApprovalEvent): void {
+  fs.mkdirSync(dataDir, { recursive: true })
+  fs.appendFileSync(filePath(dataDir), `${JSON.stringify(event)}\n`, "utf8")
+}
+
+function eventApprovalId(event: ApprovalEvent): string {
+  return event.type === "requested" ? event.approval.id : event.id
+}
+
+/**
+ * Folds the append-only event log into the latest state of each approval.
+ * With `retainSince`, approvals that expired before it can no longer unlock a
+ * signature; their events are dropped and the file is compacted.
+ */
+export function loadApprovals(dataDir: string, retainSince?: Date | null): Map<string, ApprovalRecord> {
+  const approvals = new Map<string, ApprovalRecord>()
+  const file = filePath(dataDir)
+  if (!fs.existsSync(file)) {
+    return approvals
+  }
+
+  const events: Array<{ line: string; event: ApprovalEvent }> = []
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line) continue
+    try {
+      events.push({ line, event: JSON.parse(line) as ApprovalEvent })
+    } catch {
+      // Ignore malformed lines to preserve append-only recovery behavior.
+    }
+  }
+
+  for (const { event } of events) {
+    if (event.type === "requested") {
+      approvals.set(event.approval.id, { ...event.approval })
+      continue
+    }
+
+    const existing = approvals.get(event.id)
+    if (!existing) continue
+    if (event.type === "approved") {
+      existing.status = "approved"
+      existing.approvedBy = event.approvedBy
+      existing.approvedByCredential = event.approvedByCredential
+      existing.approvedAt = event.ts
+    } else if (event.type === "consumed") {
+      existing.status = "consumed"
+      existing.consumedAt = event.ts
+    } else if (existing.status === "consumed") {
+      existing.status = "approved"
+      delete existing.consumedAt
+    }
+  }
+
+  if (retainSince) {
+    for (const [id, approval] of approvals) {
+      if (Date.parse(approval.expiresAt) < retainSince.getTime()) {
+        approvals.delete(id)
+      }
+    }
+
+    const retained = events.filter(({ event }) => approvals.has(eventApprovalId(event)))
+    if (retained.length < events.length) {
+      compactJsonl(file, retained.map(({ line }) => line))
+    }
+  }
+
+  return approvals
+}
+
+/** Returns the caller's open request for the same intent, or records a new one. */
+export function requestApproval(
+  dataDir: string,
+  args: {
+    requirement: ApprovalRequirement
+    keyRef: string
+    payloadHash: string
+    requestedBy: CallerIdentity | null
+    now: Date
+  },
+): ApprovalRecord {
+  const requestedBy = args.requestedBy?.caller ?? null
+  for (const existing of loadApprovals(dataDir).values()) {
+    if (
+      existing.status === "pending"
+      && existing.ruleId === args.requirement.ruleId
+      && existing.keyRef === args.keyRef
+      && existing.payloadHash === args.payloadHash
+      && existing.requestedBy === requestedBy
+      && Date.parse(existing.expiresAt) > args.now.getTime()
+    ) {
+      return existing
+    }
+  }
+
+  const approval: ApprovalRecord = {
+    id: crypto.randomUUID(),
+    ruleId: args.requirement.ruleId,
+    keyRef: args.keyRef,
+    payloadHash: args.payloadHash,
+    requestedBy,
+    requestedByCredential: args.requestedBy?.credentialId ?? null,
+    approvers: args.requirement.approvers,
+    status: "pending",
+    requestedAt: args.now.toISOString(),
+    expiresAt: new Date(args.now.getTime() + args.requirement.ttlSeconds * 1000).toISOString(),
+  }
+  appendEvent(dataDir, { type: "requested", ts: approval.requestedAt, approval })
+  return approval
+}
+
+/**
+ * Records a second party's approval. The approver must be listed on the rule
+ * and must be neither the requesting caller nor hold the requester's token.
+ */
+export function approveApproval(dataDir: string, id: string, approver: CallerIdentity, now: Date): ApprovalRecord {
+  const approval = loadApprovals(dataDir).get(id)
+  if (!approval) {
+    throw new Error(`Approval '${id}' not found`)
+  }
+  if (approval.status !== "pending") {
+    throw new Error(`Approval '${id}' is already ${approval.status}`)
+  }
+  if (Date.parse(approval.expiresAt) <= now.getTime()) {
+    throw new Error(`Approval '${id}' has expired`)
+  }
+  if (!approval.approvers.includes(approver.caller)) {
+    throw new Error(`Caller '${approver.caller}' is not an approver for rule '${approval.ruleId}'`)
+  }
+  if (approval.requestedBy === approver.caller || approval.requestedByCredential === approver.credentialId) {
+    throw new Error("Approvals require a second party; requester cannot approve")
+  }
+
+  appendEvent(dataDir, {
+    type: "approved",
+    ts: now.toISOString(),
+    id,
+    approvedBy: approver.caller,
+    approvedByCredential: approver.credentialId,
+  })
+  return {
+    ...approval,
+    status: "approved",
+    approvedBy: approver.caller,
+    approvedByCredential: approver.credentialId,
+    approvedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Marks the approval spent. `/v1/sign-data` calls this before signing, in the
+ * same synchronous step as the policy check, so two concurrent requests cannot
+ * both redeem it.
+ */
+export function consumeApproval(dataDir: string, id: string, now: Date): void {
+  appendEvent(dataDir, { type: "consumed", ts: now.toISOString(), id })
+}
+
+/** Returns a consumed approval to `approved` when the signature it unlocked failed. */
+export function releaseApproval(dataDir: string, id: string, now: Date): void {
+  appendEvent(dataDir, { type: "released", ts: now.toISOString(), id })
+}
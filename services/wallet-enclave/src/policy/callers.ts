@@ -0,0 +1,62 @@
+import crypto from "node:crypto"
+
+/** A caller proven by its own token, as opposed to the shared sidecar secret. */
+export interface CallerIdentity {
+  caller: string
+  /** Non-reversible fingerprint of the token, stored on approvals to tell credentials apart. */
+  credentialId: string
+}
+
+export interface CallerCredential extends CallerIdentity {
+  digest: Buffer
+}
+
+function tokenDigest(token: string): Buffer {
+  return crypto.createHash("sha256").update(token, "utf8").digest()
+}
+
+/**
+ * Parses `WALLET_ENCLAVE_CALLER_TOKENS` (`caller:token` pairs separated by
+ * commas). Two callers sharing a token could approve for each other, so
+ * duplicates are rejected along with malformed entries.
+ */
+export function parseCallerCredentials(raw: string | undefined): CallerCredential[] {
+  const credentials: CallerCredential[] = []
+  for (const entry of (raw || "").split(",")) {
+    if (!entry.trim()) continue
+
+    const separator = entry.indexOf(":")
+    const caller = separator > 0 ? entry.slice(0, separator).trim() : ""
+    const token = separator > 0 ? entry.slice(separator + 1).trim() : ""
+    if (!caller || !token) {
+      throw new Error("WALLET_ENCLAVE_CALLER_TOKENS entries must be 'caller:token'")
+    }
+
+    const digest = tokenDigest(token)
+    const credentialId = digest.toString("hex").slice(0, 16)
+    if (credentials.some((existing) => existing.caller === caller || existing.credentialId === credentialId)) {
+      throw new Error(`WALLET_ENCLAVE_CALLER_TOKENS repeats caller '${caller}' or its token`)
+    }
+
+    credentials.push({ caller, credentialId, digest })
+  }
+
+  return credentials
+}
+
+/** Matches the presented token against every credential in constant time per entry. */
+export function resolveCallerIdentity(credentials: CallerCredential[], token: string | undefined): CallerIdentity | null {
+  if (!token || !token.trim()) {
+    return null
+  }
+
+  const digest = tokenDigest(token.trim())
+  let match: CallerIdentity | null = null
+  for (const credential of credentials) {
+    if (crypto.timingSafeEqual(credential.digest, digest)) {
+      match = { caller: credential.caller, credentialId: credential.credentialId }
+    }
+  }
+
+  return match
+}
@@ -0,0 +1,11 @@
+import fs from "node:fs"
+
+/**
+ * Replaces an append-only log with the lines still worth keeping. The rewrite
+ * goes through a temp file and a rename so a crash never leaves half a log.
+ */
+export function compactJsonl(file: string, lines: string[]): void {
+  const tmp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tmp, lines.map((line) => `${line}\n`).join(""), "utf8")
+  fs.renameSync(tmp, file)
+}
@@ -1,20 +1,132 @@
 import fs from "node:fs"
 import path from "node:path"
+import { z } from "zod"
+
+export interface PayloadSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null"
+  required?: string[]
+  properties?: Record<string, PayloadSchema>
+  additionalProperties?: boolean
+  enum?: unknown[]
+  const?: unknown
+  pattern?: string
+  maxLength?: number
+}
+
+const PayloadSchemaSchema: z.ZodType<PayloadSchema> = z.lazy(() =>
+  z.object({
+    type: z.enum(["object", "array", "string", "number", "integer", "boolean", "null"]).optional(),
+    required: z.array(z.string()).optional(),
+    properties: z.record(PayloadSchemaSchema).optional(),
+    additionalProperties: z.boolean().optional(),
+    enum: z.array(z.unknown()).optional(),
+    const: z.unknown().optional(),
+    pattern: z.string().optional(),
+    maxLength: z.number().int().positive().optional(),
+  }),
+)
+
+const PayloadMatchSchema = z.object({
+  prefix: z.string().min(1).optional(),
+  pattern: z.string().min(1).optional(),
+})
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+
+const TimeWindowSchema = z.object({
+  days: z.array(z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"])).optional(),
+  start: TimeOfDaySchema,
+  end: TimeOfDaySchema,
+  timezone: z.string().min(1).default("UTC"),
+})
+
+const PolicyRuleSchema = z.object({
+  id: z.string().min(1),
+  /** Exact keyRefs, `*` for every keyRef, or a `prefix*` pattern. */
+  keyRefs: z.array(z.string().min(1)).min(1),
+  callers: z.array(z.string().min(1)).optional(),
+  payload: PayloadMatchSchema.extend({
+    maxBytes: z.number().int().positive().optional(),
+    schema: PayloadSchemaSchema.optional(),
+  }).optional(),
+  rateLimit: z.object({
+    max: z.number().int().positive(),
+    windowSeconds: z.number().int().positive(),
+  }).optional(),
+  dailyQuota: z.number().int().positive().optional(),
+  timeWindows: z.array(TimeWindowSchema).min(1).optional(),
+  approval: z.object({
+    approvers: z.array(z.string().min(1)).min(1),
+    /** Limits the approval requirement to high-risk payloads; every payload when omitted. */
+    when: PayloadMatchSchema.optional(),
+    ttlSeconds: z.number().int().positive().default(3600),
+  }).optional(),
+})
+
+export type TimeWindow = z.infer<typeof TimeWindowSchema>
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>
 
 export interface Policy {
   allowKeyRefs: string[]
   denyKeyRefs: string[]
+  rules?: PolicyRule[]
+  /** Set when `policy.json` has rules that do not parse; every intent is denied until fixed. */
+  invalid?: string
 }
 
 export const DEFAULT_POLICY: Policy = {
   allowKeyRefs: [],
   denyKeyRefs: [],
+  rules: [],
 }
 
 export interface PolicyDecision {
   ok: boolean
   code?: string
   message?: string
+  ruleId?: string
+}
+
+export interface ApprovalRequirement {
+  ruleId: string
+  approvers: string[]
+  ttlSeconds: number
+}
+
+export interface SignPolicyDecision extends PolicyDecision {
+  /** Rules that matched the keyRef, in evaluation order. */
+  ruleIds: string[]
+  /** Present with `APPROVAL_REQUIRED` when no usable approval was supplied. */
+  approval?: ApprovalRequirement
+  /** Approvals that satisfied their rules; each is consumed once the signature is issued. */
+  approvalIds?: string[]
+}
+
+export interface SignPolicyIntent {
+  keyRef: string
+  payload: string
+  payloadHash: string
+  caller: string | null
+  /** One approval per approval-requiring rule; each is matched to the rule it was requested for. */
+  approvalIds?: string[]
+}
+
+export interface SignPolicyApproval {
+  id: string
+  ruleId: string
+  keyRef: string
+  payloadHash: string
+  requestedBy: string | null
+  status: "pending" | "approved" | "consumed"
+  approvedBy?: string
+  expiresAt: string
+}
+
+export interface SignPolicyState {
+  now: Date
+  countUsage(ruleId: string, keyRef: string, since: Date): number
+  findApproval(id: string): SignPolicyApproval | null
 }
 
 export function loadPolicy(dataDir: string): Policy {
@@ -24,6 +136,8 @@ export function loadPolicy(dataDir: string): Policy {
   }
 
   const parsed = JSON.parse(fs.readFileSync(file, "utf8")) as Partial<Policy>
+  const rules = z.array(PolicyRuleSchema).safeParse(parsed.rules ?? [])
+
   return {
     allowKeyRefs: Array.isArray(parsed.allowKeyRefs)
       ? parsed.allowKeyRefs.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
@@ -31,15 +145,27 @@ export function loadPolicy(dataDir: string): Policy {
     denyKeyRefs: Array.isArray(parsed.denyKeyRefs)
       ? parsed.denyKeyRefs.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
       : [],
+    rules: rules.success ? rules.data : [],
+    ...(rules.success ? {} : { invalid: rules.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") }),
   }
 }
 
 export function checkSignIntent(policy: Policy, keyRef: string): PolicyDecision {
+  if (policy.invalid) {
+    return {
+      ok: false,
+      code: "POLICY_INVALID",
+      message: `policy.json rules are invalid: ${policy.invalid}`,
+      ruleId: "rules",
+    }
+  }
+
   if (policy.denyKeyRefs.includes(keyRef)) {
     return {
       ok: false,
       code: "KEY_REF_DENIED",
       message: `Signing denied for keyRef '${keyRef}'.`,
+      ruleId: "denyKeyRefs",
     }
   }
 
@@ -48,8 +174,218 @@ export function checkSignIntent(policy: Policy, keyRef: string): PolicyDecision
       ok: false,
       code: "KEY_REF_NOT_ALLOWLISTED",
       message: `Signing is only allowed for configured key references.`,
+      ruleId: "allowKeyRefs",
     }
   }
 
   return { ok: true }
 }
+
+export function ruleMatchesKeyRef(rule: PolicyRule, keyRef: string): boolean {
+  return rule.keyRefs.some((pattern) => {
+    if (pattern === "*") return true
+    if (pattern.endsWith("*")) return keyRef.startsWith(pattern.slice(0, -1))
+    return pattern === keyRef
+  })
+}
+
+function matchesPayload(match: z.infer<typeof PayloadMatchSchema>, payload: string): boolean {
+  if (match.prefix && !payload.startsWith(match.prefix)) return false
+  if (match.pattern && !new RegExp(match.pattern, "u").test(payload)) return false
+  return true
+}
+
+function typeOfValue(value: unknown): NonNullable<PayloadSchema["type"]> {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  return typeof value as "object" | "string" | "boolean"
+}
+
+/** Validates against the JSON Schema subset in `PayloadSchema`; returns the first violation. */
+export function payloadSchemaViolation(value: unknown, schema: PayloadSchema, at = "$"): string | null {
+  if (schema.type) {
+    const actual = typeOfValue(value)
+    if (actual !== schema.type && !(schema.type === "number" && actual === "integer")) {
+      return `${at} must be ${schema.type}`
+    }
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    return `${at} must equal ${JSON.stringify(schema.const)}`
+  }
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    return `${at} must be one of ${JSON.stringify(schema.enum)}`
+  }
+  if (typeof value === "string") {
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${at} exceeds ${schema.maxLength} characters`
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, "u").test(value)) {
+      return `${at} does not match ${schema.pattern}`
+    }
+  }
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (!(key in record)) return `${at}.${key} is required`
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key]
+      if (!childSchema) {
+        if (schema.additionalProperties === false) return `${at}.${key} is not allowed`
+        continue
+      }
+      const violation = payloadSchemaViolation(child, childSchema, `${at}.${key}`)
+      if (violation) return violation
+    }
+  }
+
+  return null
+}
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const
+
+function withinTimeWindow(window: TimeWindow, now: Date): boolean {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: window.timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  )
+
+  const day = WEEKDAYS.find((candidate) => candidate === String(parts.weekday).toLowerCase())
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute)
+  const toMinutes = (value: string) => Number(value.slice(0, 2)) * 60 + Number(value.slice(3, 5))
+  const start = toMinutes(window.start)
+  const end = toMinutes(window.end)
+
+  if (window.days && (!day || !window.days.includes(day))) {
+    return false
+  }
+  // A window whose end is before its start runs overnight.
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+}
+
+/**
+ * Oldest usage any rule can still count: the longest rate-limit window, or the
+ * start of the UTC day when a rule has a daily quota. Null while the rules are
+ * invalid, so a broken policy.json never discards usage history.
+ */
+export function signUsageRetentionStart(policy: Policy, now: Date): Date | null {
+  if (policy.invalid) {
+    return null
+  }
+
+  let earliest = now.getTime()
+  for (const rule of policy.rules || []) {
+    if (rule.rateLimit) {
+      earliest = Math.min(earliest, now.getTime() - rule.rateLimit.windowSeconds * 1000)
+    }
+    if (rule.dailyQuota !== undefined) {
+      earliest = Math.min(earliest, startOfUtcDay(now).getTime())
+    }
+  }
+  return new Date(earliest)
+}
+
+function deny(rule: PolicyRule, ruleIds: string[], code: string, message: string): SignPolicyDecision {
+  return { ok: false, code, message, ruleId: rule.id, ruleIds }
+}
+
+/**
+ * Runs the keyRef allow/deny lists, then every rule matching the keyRef in
+ * file order. The first failing check denies and names its rule.
+ */
+export function evaluateSignIntent(policy: Policy, intent: SignPolicyIntent, state: SignPolicyState): SignPolicyDecision {
+  const base = checkSignIntent(policy, intent.keyRef)
+  if (!base.ok) {
+    return { ...base, ruleIds: [] }
+  }
+
+  const rules = (policy.rules || []).filter((rule) => ruleMatchesKeyRef(rule, intent.keyRef))
+  const ruleIds = rules.map((rule) => rule.id)
+  const approvals = (intent.approvalIds || []).map((id) => state.findApproval(id))
+  const approvalIds: string[] = []
+
+  for (const rule of rules) {
+    if (rule.callers && (!intent.caller || !rule.callers.includes(intent.caller))) {
+      return deny(rule, ruleIds, "CALLER_NOT_ALLOWED", intent.caller
+        ? `Caller '${intent.caller}' may not sign with keyRef '${intent.keyRef}'.`
+        : "Signing requires a caller identity (x-wallet-enclave-caller-token).")
+    }
+
+    if (rule.timeWindows && !rule.timeWindows.some((window) => withinTimeWindow(window, state.now))) {
+      return deny(rule, ruleIds, "OUTSIDE_TIME_WINDOW", "Signing is not allowed at this time.")
+    }
+
+    if (rule.payload) {
+      if (rule.payload.maxBytes !== undefined && Buffer.byteLength(intent.payload, "utf8") > rule.payload.maxBytes) {
+        return deny(rule, ruleIds, "PAYLOAD_TOO_LARGE", `Payload exceeds ${rule.payload.maxBytes} bytes.`)
+      }
+      if (!matchesPayload(rule.payload, intent.payload)) {
+        return deny(rule, ruleIds, "PAYLOAD_NOT_ALLOWED", "Payload does not match the allowed prefix or pattern.")
+      }
+      if (rule.payload.schema) {
+        let value: unknown
+        try {
+          value = JSON.parse(intent.payload)
+        } catch {
+          return deny(rule, ruleIds, "PAYLOAD_SCHEMA_MISMATCH", "Payload must be JSON.")
+        }
+        const violation = payloadSchemaViolation(value, rule.payload.schema)
+        if (violation) {
+          return deny(rule, ruleIds, "PAYLOAD_SCHEMA_MISMATCH", violation)
+        }
+      }
+    }
+
+    if (rule.rateLimit) {
+      const since = new Date(state.now.getTime() - rule.rateLimit.windowSeconds * 1000)
+      if (state.countUsage(rule.id, intent.keyRef, since) >= rule.rateLimit.max) {
+        return deny(rule, ruleIds, "RATE_LIMITED",
+          `At most ${rule.rateLimit.max} signatures per ${rule.rateLimit.windowSeconds}s for keyRef '${intent.keyRef}'.`)
+      }
+    }
+
+    if (rule.dailyQuota !== undefined && state.countUsage(rule.id, intent.keyRef, startOfUtcDay(state.now)) >= rule.dailyQuota) {
+      return deny(rule, ruleIds, "DAILY_QUOTA_EXCEEDED", `Daily quota of ${rule.dailyQuota} signatures reached for keyRef '${intent.keyRef}'.`)
+    }
+
+    if (rule.approval && (!rule.approval.when || matchesPayload(rule.approval.when, intent.payload))) {
+      const forRule = approvals.filter((candidate): candidate is SignPolicyApproval => candidate?.ruleId === rule.id)
+      const usable = forRule.find((approval) =>
+        approval.status === "approved"
+        && approval.keyRef === intent.keyRef
+        && approval.payloadHash === intent.payloadHash
+        && approval.requestedBy === intent.caller
+        && Date.parse(approval.expiresAt) > state.now.getTime())
+
+      if (!usable) {
+        const approval = forRule[0]
+        return {
+          ...deny(rule, ruleIds, "APPROVAL_REQUIRED", approval
+            ? `Approval '${approval.id}' is ${approval.status === "approved" ? "not valid for this intent" : approval.status}.`
+            : "This intent requires approval by a second party."),
+          approval: {
+            ruleId: rule.id,
+            approvers: rule.approval.approvers,
+            ttlSeconds: rule.approval.ttlSeconds,
+          },
+        }
+      }
+      approvalIds.push(usable.id)
+    }
+  }
+
+  return { ok: true, ruleIds, ...(approvalIds.length > 0 ? { approvalIds } : {}) }
+}
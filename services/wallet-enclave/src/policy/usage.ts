@@ -0,0 +1,92 @@
+import crypto from "node:crypto"
+import fs from "node:fs"
+import path from "node:path"
+import { compactJsonl } from "./jsonl.js"
+
+export interface SignUsageRecord {
+  /** Set on reservations so a failed signature can release its slot. */
+  id?: string
+  ts: string
+  keyRef: string
+  ruleIds: string[]
+}
+
+interface SignUsageRelease {
+  releases: string
+  ts: string
+}
+
+function filePath(dataDir: string): string {
+  return path.join(dataDir, "sign-usage.jsonl")
+}
+
+/**
+ * Reads the usage log. With `retainSince`, records older than it can no longer
+ * count toward any quota; they are dropped and the file is compacted so each
+ * request does not re-read the full history.
+ */
+export function readSignUsage(dataDir: string, retainSince?: Date | null): SignUsageRecord[] {
+  const file = filePath(dataDir)
+  if (!fs.existsSync(file)) {
+    return []
+  }
+
+  const entries: Array<{ line: string; entry: SignUsageRecord | SignUsageRelease }> = []
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line) continue
+    try {
+      entries.push({ line, entry: JSON.parse(line) as SignUsageRecord | SignUsageRelease })
+    } catch {
+      // Ignore malformed lines to preserve append-only recovery behavior.
+    }
+  }
+
+  const sinceMs = retainSince ? retainSince.getTime() : Number.NEGATIVE_INFINITY
+  const current = entries.filter(({ entry }) => "releases" in entry || Date.parse(entry.ts) >= sinceMs)
+  const reservationIds = new Set(current.flatMap(({ entry }) => "releases" in entry || !entry.id ? [] : [entry.id]))
+  const retained = current.filter(({ entry }) => !("releases" in entry) || reservationIds.has(entry.releases))
+  if (retainSince && retained.length < entries.length) {
+    compactJsonl(file, retained.map(({ line }) => line))
+  }
+
+  const records: SignUsageRecord[] = []
+  const released = new Set<string>()
+  for (const { entry } of retained) {
+    if ("releases" in entry) {
+      released.add(entry.releases)
+    } else {
+      records.push(entry)
+    }
+  }
+  return released.size > 0 ? records.filter((record) => !record.id || !released.has(record.id)) : records
+}
+
+export function countSignUsage(records: SignUsageRecord[], ruleId: string, keyRef: string, since: Date): number {
+  const sinceMs = since.getTime()
+  return records.filter(
+    (record) => record.keyRef === keyRef && record.ruleIds.includes(ruleId) && Date.parse(record.ts) >= sinceMs,
+  ).length
+}
+
+function appendLine(dataDir: string, entry: SignUsageRecord | SignUsageRelease): void {
+  fs.mkdirSync(dataDir, { recursive: true })
+  fs.appendFileSync(filePath(dataDir), `${JSON.stringify(entry)}\n`, "utf8")
+}
+
+export function recordSignUsage(dataDir: string, record: SignUsageRecord): void {
+  appendLine(dataDir, record)
+}
+
+/**
+ * Counts a signature against its rules before it is issued, so concurrent
+ * requests see each other's usage. Returns the id for `releaseSignUsage`.
+ */
+export function reserveSignUsage(dataDir: string, record: Omit<SignUsageRecord, "id">): string {
+  const id = crypto.randomUUID()
+  appendLine(dataDir, { id, ...record })
+  return id
+}
+
+export function releaseSignUsage(dataDir: string, id: string, now: Date): void {
+  appendLine(dataDir, { releases: id, ts: now.toISOString() })
+}
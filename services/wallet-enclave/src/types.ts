@@ -1,9 +1,12 @@
-export type Chain = "cardano"
+export type Chain = "cardano" | "ethereum" | "generic"
+
+export type SignatureScheme = "cip8-ed25519" | "eip191-secp256k1" | "ed25519"
 
 export interface SigningIntent {
   chain: Chain
   keyRef: string
   payload: string
+  alg?: SignatureScheme
   address?: string
   idempotencyKey?: string
 }
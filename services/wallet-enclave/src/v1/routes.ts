@@ -1,22 +1,35 @@
 import crypto from "node:crypto"
 import type { Express, Request, Response } from "express"
 import { appendAuditJsonl } from "../audit/audit_log.js"
-import { decrypt, encrypt } from "../crypto/crypto.js"
+import { decrypt, encrypt, rewrap } from "../crypto/crypto.js"
+import { keyCustodyFromEnv } from "../custody/custody.js"
+import { FileKeystore } from "../custody/file_keystore.js"
 import { lookupIdempotency, storeIdempotency } from "../idempotency/idempotency.js"
-import { checkSignIntent, loadPolicy } from "../policy/policy.js"
+import { approveApproval, consumeApproval, loadApprovals, releaseApproval, requestApproval } from "../policy/approvals.js"
+import { parseCallerCredentials, resolveCallerIdentity, type CallerIdentity } from "../policy/callers.js"
+import { checkSignIntent, evaluateSignIntent, loadPolicy, signUsageRetentionStart } from "../policy/policy.js"
+import { countSignUsage, readSignUsage, releaseSignUsage, reserveSignUsage } from "../policy/usage.js"
 import {
   AddrRequestSchema,
+  ApprovalListQuerySchema,
   DecryptRequestSchema,
   EncryptRequestSchema,
+  KeyCreateRequestSchema,
+  RewrapRequestSchema,
   SignDataRequestSchema,
 } from "./schema.js"
-import { MeshCardanoAdapter } from "../adapters/mesh_cardano.js"
+import { createSigningAdapters } from "../adapters/registry.js"
 
 function requestIdFrom(req: Request): string {
   const headerId = req.header("x-request-id")
   return headerId && headerId.trim().length > 0 ? headerId : crypto.randomUUID()
 }
 
+/** Set by the `/v1` middleware from the caller's own token; null for anonymous requests. */
+function callerFrom(res: Response): CallerIdentity | null {
+  return (res.locals.caller as CallerIdentity | null | undefined) || null
+}
+
 function dataDir(): string {
   return process.env.WALLET_ENCLAVE_DATA_DIR || "/tmp/wallet-enclave"
 }
@@ -74,7 +87,9 @@ function sendError(
 }
 
 export function registerV1(app: Express): void {
-  const adapter = new MeshCardanoAdapter()
+  const custody = keyCustodyFromEnv(dataDir())
+  const adapters = createSigningAdapters(custody)
+  const callerCredentials = parseCallerCredentials(process.env.WALLET_ENCLAVE_CALLER_TOKENS)
 
   app.use("/v1", (req, res, next) => {
     if (!isAuthorized(req)) {
@@ -89,6 +104,26 @@ export function registerV1(app: Express): void {
       sendError(res, requestId, "UNAUTHORIZED_CLIENT", "Missing or invalid enclave token", undefined, 401)
       return
     }
+
+    // The caller name is never taken on its word: it must be the one bound to the presented caller token.
+    const presentedToken = req.header("x-wallet-enclave-caller-token")
+    const claimedCaller = req.header("x-wallet-enclave-caller")?.trim()
+    const identity = resolveCallerIdentity(callerCredentials, presentedToken)
+    if ((presentedToken && !identity) || (claimedCaller && claimedCaller !== identity?.caller)) {
+      const requestId = requestIdFrom(req)
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: req.path,
+        decision: "deny",
+        reason: "CALLER_UNVERIFIED",
+        caller: claimedCaller || undefined,
+      })
+      sendError(res, requestId, "CALLER_UNVERIFIED", "Caller token is missing, unknown or does not match x-wallet-enclave-caller", undefined, 401)
+      return
+    }
+
+    res.locals.caller = identity
     next()
   })
 
@@ -108,8 +143,14 @@ export function registerV1(app: Express): void {
         endpoint: "/v1/addr",
         decision: "deny",
         reason: decision.code,
+        ruleId: decision.ruleId,
       })
-      return sendError(res, requestId, decision.code || "POLICY_DENY", decision.message || "Policy denied", undefined, 403)
+      return sendError(res, requestId, decision.code || "POLICY_DENY", decision.message || "Policy denied", { ruleId: decision.ruleId }, 403)
+    }
+
+    const adapter = adapters.resolve(parsed.data.chain, parsed.data.alg)
+    if (!adapter) {
+      return sendError(res, requestId, "UNSUPPORTED_SCHEME", `No signing scheme '${parsed.data.alg}' for chain '${parsed.data.chain}'`)
     }
 
     try {
@@ -119,13 +160,14 @@ export function registerV1(app: Express): void {
         requestId,
         endpoint: "/v1/addr",
         decision: "allow",
-        meta: { keyRef: parsed.data.keyRef },
+        meta: { keyRef: parsed.data.keyRef, alg: adapter.alg },
       })
 
       res.setHeader("x-request-id", requestId)
       res.json({
-        chain: "cardano",
+        chain: adapter.chain,
         keyRef: parsed.data.keyRef,
+        alg: adapter.alg,
         address,
       })
     } catch (error) {
@@ -147,20 +189,77 @@ export function registerV1(app: Express): void {
       return sendError(res, requestId, "BAD_REQUEST", "Invalid request body", parsed.error.flatten())
     }
 
+    const identity = callerFrom(res)
+    const caller = identity?.caller ?? null
+    const payloadHash = crypto.createHash("sha256").update(parsed.data.payload, "utf8").digest("hex")
+    const now = new Date()
     const policy = loadPolicy(dataDir())
-    const decision = checkSignIntent(policy, parsed.data.keyRef)
+    const usage = readSignUsage(dataDir(), signUsageRetentionStart(policy, now))
+    const approvals = loadApprovals(dataDir(), now)
+    const decision = evaluateSignIntent(
+      policy,
+      {
+        keyRef: parsed.data.keyRef,
+        payload: parsed.data.payload,
+        payloadHash,
+        caller,
+        approvalIds: [
+          ...(parsed.data.approvalId ? [parsed.data.approvalId] : []),
+          ...(parsed.data.approvalIds || []),
+        ],
+      },
+      {
+        now,
+        countUsage: (ruleId, keyRef, since) => countSignUsage(usage, ruleId, keyRef, since),
+        findApproval: (id) => approvals.get(id) || null,
+      },
+    )
     if (!decision.ok) {
+      const approval = decision.approval
+        ? requestApproval(dataDir(), {
+            requirement: decision.approval,
+            keyRef: parsed.data.keyRef,
+            payloadHash,
+            requestedBy: identity,
+            now,
+          })
+        : null
       appendAuditJsonl(dataDir(), {
-        ts: new Date().toISOString(),
+        ts: now.toISOString(),
         requestId,
         endpoint: "/v1/sign-data",
         decision: "deny",
         reason: decision.code,
+        ruleId: decision.ruleId,
+        caller: caller || undefined,
+        meta: {
+          keyRef: parsed.data.keyRef,
+          payloadHash,
+          ...(approval ? { approvalId: approval.id } : {}),
+        },
       })
-      return sendError(res, requestId, decision.code || "POLICY_DENY", decision.message || "Policy denied", undefined, 403)
+      return sendError(
+        res,
+        requestId,
+        decision.code || "POLICY_DENY",
+        decision.message || "Policy denied",
+        {
+          ruleId: decision.ruleId,
+          ...(approval ? { approvalId: approval.id, approvers: approval.approvers, expiresAt: approval.expiresAt } : {}),
+        },
+        403,
+      )
+    }
+
+    const adapter = adapters.resolve(parsed.data.chain, parsed.data.alg)
+    if (!adapter) {
+      return sendError(res, requestId, "UNSUPPORTED_SCHEME", `No signing scheme '${parsed.data.alg}' for chain '${parsed.data.chain}'`)
     }
 
-    const scope = `sign-data:${parsed.data.keyRef}`
+    // CIP-8 keeps its original scope so idempotency records written before other schemes still hit.
+    const scope = adapter.alg === "cip8-ed25519"
+      ? `sign-data:${parsed.data.keyRef}`
+      : `sign-data:${adapter.alg}:${parsed.data.keyRef}`
     if (parsed.data.idempotencyKey) {
       const existing = lookupIdempotency(dataDir(), scope, parsed.data.idempotencyKey)
       if (existing) {
@@ -170,6 +269,7 @@ export function registerV1(app: Express): void {
           endpoint: "/v1/sign-data",
           decision: "allow",
           reason: "IDEMPOTENCY_HIT",
+          caller: caller || undefined,
           meta: { keyRef: parsed.data.keyRef },
         })
         res.setHeader("x-request-id", requestId)
@@ -177,6 +277,15 @@ export function registerV1(app: Express): void {
       }
     }
 
+    // Reserve quota and spend the approval in the same synchronous step as the policy
+    // check, so concurrent requests cannot all pass it while this one awaits the signer.
+    const usageReservation = decision.ruleIds.length > 0
+      ? reserveSignUsage(dataDir(), { ts: now.toISOString(), keyRef: parsed.data.keyRef, ruleIds: decision.ruleIds })
+      : null
+    for (const approvalId of decision.approvalIds || []) {
+      consumeApproval(dataDir(), approvalId, now)
+    }
+
     try {
       const signed = await adapter.signData({
         keyRef: parsed.data.keyRef,
@@ -185,7 +294,7 @@ export function registerV1(app: Express): void {
       })
 
       const responseBody = {
-        chain: "cardano" as const,
+        chain: adapter.chain,
         keyRef: parsed.data.keyRef,
         address: signed.address,
         payloadHash: signed.payloadHash,
@@ -208,15 +317,26 @@ export function registerV1(app: Express): void {
         requestId,
         endpoint: "/v1/sign-data",
         decision: "allow",
+        caller: caller || undefined,
         meta: {
           keyRef: parsed.data.keyRef,
+          alg: signed.alg,
           payloadHash: signed.payloadHash,
+          ruleIds: decision.ruleIds,
+          ...(decision.approvalIds ? { approvalIds: decision.approvalIds } : {}),
         },
       })
 
       res.setHeader("x-request-id", requestId)
       res.json(responseBody)
     } catch (error) {
+      if (usageReservation) {
+        releaseSignUsage(dataDir(), usageReservation, new Date())
+      }
+      for (const approvalId of decision.approvalIds || []) {
+        releaseApproval(dataDir(), approvalId, new Date())
+      }
+
       appendAuditJsonl(dataDir(), {
         ts: new Date().toISOString(),
         requestId,
@@ -228,6 +348,150 @@ export function registerV1(app: Express): void {
     }
   })
 
+  app.get("/v1/approvals", (req, res) => {
+    const requestId = requestIdFrom(req)
+    const parsed = ApprovalListQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      return sendError(res, requestId, "BAD_REQUEST", "Invalid query", parsed.error.flatten())
+    }
+
+    const approvals = [...loadApprovals(dataDir()).values()].filter((approval) => {
+      if (parsed.data.status && approval.status !== parsed.data.status) return false
+      if (parsed.data.keyRef && approval.keyRef !== parsed.data.keyRef) return false
+      return true
+    })
+
+    res.setHeader("x-request-id", requestId)
+    res.json({ approvals })
+  })
+
+  app.post("/v1/approvals/:id/approve", (req, res) => {
+    const requestId = requestIdFrom(req)
+    const identity = callerFrom(res)
+    if (!identity) {
+      return sendError(res, requestId, "CALLER_REQUIRED", "Approving requires a caller token (x-wallet-enclave-caller-token)", undefined, 401)
+    }
+    const caller = identity.caller
+
+    try {
+      const approval = approveApproval(dataDir(), req.params.id, identity, new Date())
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/approvals/approve",
+        decision: "allow",
+        ruleId: approval.ruleId,
+        caller,
+        meta: { approvalId: approval.id, keyRef: approval.keyRef, requestedBy: approval.requestedBy },
+      })
+      res.setHeader("x-request-id", requestId)
+      res.json(approval)
+    } catch (error) {
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/approvals/approve",
+        decision: "deny",
+        caller,
+        meta: { approvalId: req.params.id },
+        error: { code: "APPROVAL_REJECTED", message: String(error) },
+      })
+      return sendError(res, requestId, "APPROVAL_REJECTED", error instanceof Error ? error.message : "Approval rejected", undefined, 403)
+    }
+  })
+
+  app.post("/v1/keys", async (req, res) => {
+    const requestId = requestIdFrom(req)
+    const parsed = KeyCreateRequestSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return sendError(res, requestId, "BAD_REQUEST", "Invalid request body", parsed.error.flatten())
+    }
+
+    const policy = loadPolicy(dataDir())
+    const decision = checkSignIntent(policy, parsed.data.keyRef)
+    if (!decision.ok) {
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/keys",
+        decision: "deny",
+        reason: decision.code,
+        ruleId: decision.ruleId,
+      })
+      return sendError(res, requestId, decision.code || "POLICY_DENY", decision.message || "Policy denied", { ruleId: decision.ruleId }, 403)
+    }
+
+    const adapter = adapters.resolve(parsed.data.chain, parsed.data.alg)
+    if (!adapter) {
+      return sendError(res, requestId, "UNSUPPORTED_SCHEME", `No signing scheme '${parsed.data.alg}' for chain '${parsed.data.chain}'`)
+    }
+    if (!adapter.keyType) {
+      return sendError(res, requestId, "KEY_PROVISIONING_UNSUPPORTED", `Keys for '${adapter.alg}' are not held by the custody backend`)
+    }
+
+    try {
+      await custody.generateKey(parsed.data.keyRef, adapter.keyType)
+      const address = await adapter.getAddress({ keyRef: parsed.data.keyRef })
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/keys",
+        decision: "allow",
+        meta: { keyRef: parsed.data.keyRef, alg: adapter.alg, backend: custody.backend },
+      })
+
+      res.setHeader("x-request-id", requestId)
+      res.status(201).json({
+        chain: adapter.chain,
+        keyRef: parsed.data.keyRef,
+        alg: adapter.alg,
+        address,
+        backend: custody.backend,
+      })
+    } catch (error) {
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/keys",
+        decision: "deny",
+        error: { code: "KEY_CREATE_FAILED", message: String(error) },
+      })
+      return sendError(res, requestId, "KEY_CREATE_FAILED", "Failed to create key")
+    }
+  })
+
+  app.post("/v1/keys/rewrap", (req, res) => {
+    const requestId = requestIdFrom(req)
+
+    try {
+      // PKCS#11 keys never leave the token, so only the file keystore holds wrapped keys.
+      const result = custody instanceof FileKeystore
+        ? custody.rewrapAll()
+        : { total: 0, rewrapped: 0, keyId: null }
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/keys/rewrap",
+        decision: "allow",
+        meta: { backend: custody.backend, ...result },
+      })
+      res.setHeader("x-request-id", requestId)
+      res.json({
+        backend: custody.backend,
+        ...result,
+      })
+    } catch (error) {
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/keys/rewrap",
+        decision: "deny",
+        error: { code: "REWRAP_FAILED", message: String(error) },
+      })
+      return sendError(res, requestId, "REWRAP_FAILED", "Keystore rewrap failed")
+    }
+  })
+
   app.post("/v1/crypto/encrypt", (req, res) => {
     const requestId = requestIdFrom(req)
     const parsed = EncryptRequestSchema.safeParse(req.body)
@@ -268,7 +532,7 @@ export function registerV1(app: Express): void {
     }
 
     try {
-      const decrypted = decrypt(parsed.data.context, parsed.data.ciphertextB64, parsed.data.nonceB64)
+      const decrypted = decrypt(parsed.data.context, parsed.data.ciphertextB64, parsed.data.nonceB64, parsed.data.keyId)
       appendAuditJsonl(dataDir(), {
         ts: new Date().toISOString(),
         requestId,
@@ -291,4 +555,36 @@ export function registerV1(app: Express): void {
       return sendError(res, requestId, "CRYPTO_FAILED", "Decrypt failed")
     }
   })
+  app.post("/v1/crypto/rewrap", (req, res) => {
+    const requestId = requestIdFrom(req)
+    const parsed = RewrapRequestSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return sendError(res, requestId, "BAD_REQUEST", "Invalid request body", parsed.error.flatten())
+    }
+
+    try {
+      const rewrapped = rewrap(parsed.data.context, parsed.data)
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/crypto/rewrap",
+        decision: "allow",
+        meta: { keyId: rewrapped.keyId, rewrapped: rewrapped.rewrapped },
+      })
+      res.setHeader("x-request-id", requestId)
+      res.json({
+        context: parsed.data.context,
+        ...rewrapped,
+      })
+    } catch (error) {
+      appendAuditJsonl(dataDir(), {
+        ts: new Date().toISOString(),
+        requestId,
+        endpoint: "/v1/crypto/rewrap",
+        decision: "deny",
+        error: { code: "CRYPTO_FAILED", message: String(error) },
+      })
+      return sendError(res, requestId, "CRYPTO_FAILED", "Rewrap failed")
+    }
+  })
 }
@@ -1,6 +1,8 @@
 import { z } from "zod"
 
-export const ChainSchema = z.literal("cardano")
+export const ChainSchema = z.enum(["cardano", "ethereum", "generic"])
+
+export const SignatureSchemeSchema = z.enum(["cip8-ed25519", "eip191-secp256k1", "ed25519"])
 
 export const HealthResponseSchema = z.object({
   ok: z.boolean(),
@@ -11,11 +13,13 @@ export const HealthResponseSchema = z.object({
 export const AddrRequestSchema = z.object({
   chain: ChainSchema,
   keyRef: z.string().min(1),
+  alg: SignatureSchemeSchema.optional(),
 })
 
 export const AddrResponseSchema = z.object({
   chain: ChainSchema,
   keyRef: z.string(),
+  alg: SignatureSchemeSchema,
   address: z.string(),
 })
 
@@ -23,8 +27,12 @@ export const SignDataRequestSchema = z.object({
   chain: ChainSchema,
   keyRef: z.string().min(1),
   payload: z.string().min(1),
+  alg: SignatureSchemeSchema.optional(),
   address: z.string().optional(),
   idempotencyKey: z.string().min(1).optional(),
+  approvalId: z.string().min(1).optional(),
+  /** One approval per approval-requiring rule when several rules match the keyRef. */
+  approvalIds: z.array(z.string().min(1)).max(16).optional(),
 })
 
 export const SignDataResponseSchema = z.object({
@@ -34,7 +42,48 @@ export const SignDataResponseSchema = z.object({
   payloadHash: z.string(),
   key: z.string(),
   signature: z.string(),
-  alg: z.literal("cip8-ed25519"),
+  alg: SignatureSchemeSchema,
+})
+
+export const ApprovalListQuerySchema = z.object({
+  status: z.enum(["pending", "approved", "consumed"]).optional(),
+  keyRef: z.string().min(1).optional(),
+})
+
+export const ApprovalSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  keyRef: z.string(),
+  payloadHash: z.string(),
+  requestedBy: z.string().nullable(),
+  approvers: z.array(z.string()),
+  status: z.enum(["pending", "approved", "consumed"]),
+  requestedAt: z.string(),
+  expiresAt: z.string(),
+  approvedBy: z.string().optional(),
+  approvedAt: z.string().optional(),
+  consumedAt: z.string().optional(),
+})
+
+export const KeyCreateRequestSchema = z.object({
+  chain: ChainSchema,
+  keyRef: z.string().min(1),
+  alg: SignatureSchemeSchema.optional(),
+})
+
+export const KeyCreateResponseSchema = z.object({
+  chain: ChainSchema,
+  keyRef: z.string(),
+  alg: SignatureSchemeSchema,
+  address: z.string(),
+  backend: z.enum(["file", "pkcs11"]),
+})
+
+export const KeyRewrapResponseSchema = z.object({
+  backend: z.enum(["file", "pkcs11"]),
+  total: z.number(),
+  rewrapped: z.number(),
+  keyId: z.string().nullable(),
 })
 
 export const EncryptRequestSchema = z.object({
@@ -47,18 +96,27 @@ export const EncryptResponseSchema = z.object({
   ciphertextB64: z.string(),
   nonceB64: z.string(),
   alg: z.literal("AES-256-GCM"),
+  keyId: z.string(),
 })
 
 export const DecryptRequestSchema = z.object({
   context: z.string().min(1),
   ciphertextB64: z.string().min(1),
   nonceB64: z.string().min(1),
+  keyId: z.string().min(1).optional(),
 })
 
 export const DecryptResponseSchema = z.object({
   context: z.string(),
   plaintextB64: z.string(),
   alg: z.literal("AES-256-GCM"),
+  keyId: z.string(),
+})
+
+export const RewrapRequestSchema = DecryptRequestSchema
+
+export const RewrapResponseSchema = EncryptResponseSchema.extend({
+  rewrapped: z.boolean(),
 })
 
 export const ApiErrorSchema = z.object({
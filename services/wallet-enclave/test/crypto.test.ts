@@ -1,6 +1,6 @@
 import test from "node:test"
 import assert from "node:assert/strict"
-import { decrypt, encrypt } from "../src/crypto/crypto.js"
+import { currentMasterKeyId, decrypt, encrypt, rewrap } from "../src/crypto/crypto.js"
 
 test("encrypt/decrypt roundtrip", () => {
   process.env.WALLET_ENCLAVE_MASTER_SECRET = "dev-secret"
@@ -20,3 +20,29 @@ test("decrypt fails with wrong context", () => {
 
   assert.throws(() => decrypt("ctx-b", encrypted.ciphertextB64, encrypted.nonceB64))
 })
+
+test("rotated master secret still decrypts and rewraps old envelopes", () => {
+  process.env.WALLET_ENCLAVE_MASTER_SECRET = "old-secret"
+  delete process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS
+
+  const plaintext = Buffer.from("rotate me", "utf8").toString("base64")
+  const legacy = encrypt("ctx", plaintext)
+  const oldKeyId = legacy.keyId
+
+  process.env.WALLET_ENCLAVE_MASTER_SECRET = "new-secret"
+  process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS = "old-secret"
+  const newKeyId = currentMasterKeyId()
+  assert.notEqual(newKeyId, oldKeyId)
+
+  assert.equal(decrypt("ctx", legacy.ciphertextB64, legacy.nonceB64, legacy.keyId).keyId, oldKeyId)
+  assert.equal(decrypt("ctx", legacy.ciphertextB64, legacy.nonceB64).plaintextB64, plaintext)
+
+  const rewrapped = rewrap("ctx", legacy)
+  assert.equal(rewrapped.rewrapped, true)
+  assert.equal(rewrapped.keyId, newKeyId)
+  assert.equal(rewrap("ctx", rewrapped).rewrapped, false)
+
+  delete process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS
+  assert.equal(decrypt("ctx", rewrapped.ciphertextB64, rewrapped.nonceB64, rewrapped.keyId).plaintextB64, plaintext)
+  assert.throws(() => decrypt("ctx", legacy.ciphertextB64, legacy.nonceB64, legacy.keyId), /Unknown master key id/)
+})
@@ -0,0 +1,39 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import crypto from "node:crypto"
+import { ed25519 } from "@noble/curves/ed25519.js"
+import { Ed25519RawAdapter } from "../src/adapters/ed25519_raw.js"
+import { Eip191Secp256k1Adapter } from "../src/adapters/eip191_secp256k1.js"
+import { Pkcs11Custody, unwrapEcPoint } from "../src/custody/pkcs11.js"
+
+// e.g. WALLET_ENCLAVE_PKCS11_MODULE=/usr/lib/softhsm/libsofthsm2.so with a token initialised via softhsm2-util.
+const hasToken = Boolean(process.env.WALLET_ENCLAVE_PKCS11_MODULE && process.env.WALLET_ENCLAVE_PKCS11_PIN)
+
+test("unwrapEcPoint accepts DER-wrapped and bare points", () => {
+  const point = Buffer.alloc(32, 7)
+  assert.deepEqual(unwrapEcPoint(Buffer.concat([Buffer.from([0x04, 0x20]), point]), "ed25519"), point)
+  assert.deepEqual(unwrapEcPoint(point, "ed25519"), point)
+  assert.throws(() => unwrapEcPoint(Buffer.alloc(40), "secp256k1"), /Unexpected secp256k1 EC point encoding/)
+})
+
+test("pkcs11 custody generates and signs on the token", { skip: !hasToken }, async () => {
+  const custody = new Pkcs11Custody({
+    modulePath: process.env.WALLET_ENCLAVE_PKCS11_MODULE || "",
+    tokenLabel: process.env.WALLET_ENCLAVE_PKCS11_TOKEN_LABEL || undefined,
+    pin: process.env.WALLET_ENCLAVE_PKCS11_PIN,
+  })
+  const suffix = crypto.randomUUID()
+
+  try {
+    const edPublicKey = await custody.generateKey(`test-ed-${suffix}`, "ed25519")
+    const edSigned = await new Ed25519RawAdapter(custody).signData({ keyRef: `test-ed-${suffix}`, payload: "hsm" })
+    assert.equal(ed25519.verify(Buffer.from(edSigned.signature, "hex"), Buffer.from("hsm", "utf8"), edPublicKey), true)
+
+    await custody.generateKey(`test-eth-${suffix}`, "secp256k1")
+    const ethSigned = await new Eip191Secp256k1Adapter(custody).signData({ keyRef: `test-eth-${suffix}`, payload: "hsm" })
+    assert.match(ethSigned.address, /^0x[0-9a-fA-F]{40}$/)
+    assert.match(ethSigned.signature, /^0x[0-9a-f]{128}(1b|1c)$/)
+  } finally {
+    await custody.close()
+  }
+})
@@ -1,6 +1,19 @@
 import test from "node:test"
 import assert from "node:assert/strict"
-import { checkSignIntent } from "../src/policy/policy.js"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { approveApproval, consumeApproval, loadApprovals, releaseApproval, requestApproval } from "../src/policy/approvals.js"
+import { parseCallerCredentials, resolveCallerIdentity, type CallerIdentity } from "../src/policy/callers.js"
+import {
+  checkSignIntent,
+  evaluateSignIntent,
+  signUsageRetentionStart,
+  type PolicyRule,
+  type SignPolicyIntent,
+  type SignPolicyState,
+} from "../src/policy/policy.js"
+import { countSignUsage, readSignUsage, recordSignUsage, releaseSignUsage, reserveSignUsage } from "../src/policy/usage.js"
 
 test("policy allowlist + denylist behavior", () => {
   const allow = checkSignIntent({ allowKeyRefs: ["xo"], denyKeyRefs: [] }, "xo")
@@ -12,3 +25,260 @@ test("policy allowlist + denylist behavior", () => {
   const blockedDenied = checkSignIntent({ allowKeyRefs: [], denyKeyRefs: ["ops"] }, "ops")
   assert.equal(blockedDenied.ok, false)
 })
+
+function state(overrides: Partial<SignPolicyState> = {}): SignPolicyState {
+  return {
+    now: new Date("2026-03-04T10:30:00.000Z"),
+    countUsage: () => 0,
+    findApproval: () => null,
+    ...overrides,
+  }
+}
+
+function intent(overrides: Partial<SignPolicyIntent> = {}): SignPolicyIntent {
+  return {
+    keyRef: "agent:xo",
+    payload: JSON.stringify({ kind: "memory-write", path: "ship/notes.md" }),
+    payloadHash: "hash-1",
+    caller: "bridge-agent",
+    ...overrides,
+  }
+}
+
+const rules: PolicyRule[] = [
+  {
+    id: "xo-writes",
+    keyRefs: ["agent:*"],
+    callers: ["bridge-agent"],
+    payload: {
+      maxBytes: 256,
+      schema: {
+        type: "object",
+        required: ["kind"],
+        properties: { kind: { enum: ["memory-write", "transfer"] }, path: { type: "string" }, amount: { type: "number" } },
+        additionalProperties: false,
+      },
+    },
+    rateLimit: { max: 2, windowSeconds: 60 },
+    dailyQuota: 10,
+    timeWindows: [{ days: ["mon", "tue", "wed", "thu", "fri"], start: "08:00", end: "18:00", timezone: "UTC" }],
+  },
+  {
+    id: "xo-transfers",
+    keyRefs: ["agent:xo"],
+    approval: { approvers: ["sec-officer"], when: { pattern: "\"kind\":\"transfer\"" }, ttlSeconds: 600 },
+  },
+]
+
+test("evaluateSignIntent names the rule that denied each intent", () => {
+  const policy = { allowKeyRefs: [], denyKeyRefs: [], rules }
+
+  assert.deepEqual(evaluateSignIntent(policy, intent(), state()), { ok: true, ruleIds: ["xo-writes", "xo-transfers"] })
+
+  const denials = [
+    evaluateSignIntent(policy, intent({ caller: "unknown" }), state()),
+    evaluateSignIntent(policy, intent(), state({ now: new Date("2026-03-07T10:30:00.000Z") })),
+    evaluateSignIntent(policy, intent({ payload: JSON.stringify({ kind: "drop-table" }) }), state()),
+    evaluateSignIntent(policy, intent({ payload: "not json" }), state()),
+    evaluateSignIntent(policy, intent(), state({ countUsage: (_ruleId, _keyRef, since) => since.getUTCHours() === 0 ? 10 : 0 })),
+    evaluateSignIntent(policy, intent(), state({ countUsage: () => 2 })),
+  ]
+  assert.deepEqual(
+    denials.map((decision) => [decision.code, decision.ruleId]),
+    [
+      ["CALLER_NOT_ALLOWED", "xo-writes"],
+      ["OUTSIDE_TIME_WINDOW", "xo-writes"],
+      ["PAYLOAD_SCHEMA_MISMATCH", "xo-writes"],
+      ["PAYLOAD_SCHEMA_MISMATCH", "xo-writes"],
+      ["DAILY_QUOTA_EXCEEDED", "xo-writes"],
+      ["RATE_LIMITED", "xo-writes"],
+    ],
+  )
+  assert.equal(denials[2]?.message, "$.kind must be one of [\"memory-write\",\"transfer\"]")
+
+  const invalid = evaluateSignIntent({ ...policy, invalid: "rules.0.id: Required" }, intent(), state())
+  assert.equal(invalid.code, "POLICY_INVALID")
+})
+
+test("high-risk intents need a second party's approval bound to the same payload", () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-approvals-"))
+  const policy = { allowKeyRefs: [], denyKeyRefs: [], rules }
+  const transfer = intent({ payload: JSON.stringify({ kind: "transfer", amount: 5 }), payloadHash: "hash-transfer" })
+  const now = new Date("2026-03-04T10:30:00.000Z")
+  const withApprovals = () => state({ findApproval: (id) => loadApprovals(dataDir).get(id) || null })
+  const bridgeAgent: CallerIdentity = { caller: "bridge-agent", credentialId: "cred-bridge" }
+
+  const first = evaluateSignIntent(policy, transfer, withApprovals())
+  assert.equal(first.code, "APPROVAL_REQUIRED")
+  assert.equal(first.ruleId, "xo-transfers")
+  assert.ok(first.approval)
+
+  const approval = requestApproval(dataDir, {
+    requirement: first.approval,
+    keyRef: transfer.keyRef,
+    payloadHash: transfer.payloadHash,
+    requestedBy: bridgeAgent,
+    now,
+  })
+  assert.equal(requestApproval(dataDir, {
+    requirement: first.approval,
+    keyRef: transfer.keyRef,
+    payloadHash: transfer.payloadHash,
+    requestedBy: bridgeAgent,
+    now,
+  }).id, approval.id)
+
+  assert.throws(() => approveApproval(dataDir, approval.id, bridgeAgent, now), /not an approver/)
+  assert.throws(
+    () => approveApproval(dataDir, approval.id, { caller: "sec-officer", credentialId: "cred-bridge" }, now),
+    /requester cannot approve/,
+  )
+  assert.equal(evaluateSignIntent(policy, { ...transfer, approvalIds: [approval.id] }, withApprovals()).code, "APPROVAL_REQUIRED")
+
+  approveApproval(dataDir, approval.id, { caller: "sec-officer", credentialId: "cred-sec" }, now)
+  assert.equal(
+    evaluateSignIntent(policy, { ...transfer, payloadHash: "hash-other", approvalIds: [approval.id] }, withApprovals()).code,
+    "APPROVAL_REQUIRED",
+  )
+  assert.deepEqual(evaluateSignIntent(policy, { ...transfer, approvalIds: [approval.id] }, withApprovals()), {
+    ok: true,
+    ruleIds: ["xo-writes", "xo-transfers"],
+    approvalIds: [approval.id],
+  })
+
+  consumeApproval(dataDir, approval.id, now)
+  assert.equal(evaluateSignIntent(policy, { ...transfer, approvalIds: [approval.id] }, withApprovals()).code, "APPROVAL_REQUIRED")
+
+  releaseApproval(dataDir, approval.id, now)
+  assert.equal(evaluateSignIntent(policy, { ...transfer, approvalIds: [approval.id] }, withApprovals()).ok, true)
+})
+
+test("a keyRef matched by two approval rules signs once each rule has its own approval", () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-approvals-"))
+  const policy = {
+    allowKeyRefs: [],
+    denyKeyRefs: [],
+    rules: [
+      ...rules,
+      { id: "xo-treasury", keyRefs: ["agent:xo"], approval: { approvers: ["treasurer"], ttlSeconds: 600 } },
+    ],
+  }
+  const transfer = intent({ payload: JSON.stringify({ kind: "transfer", amount: 5 }), payloadHash: "hash-transfer" })
+  const now = new Date("2026-03-04T10:30:00.000Z")
+  const withApprovals = () => state({ findApproval: (id) => loadApprovals(dataDir).get(id) || null })
+  const bridgeAgent: CallerIdentity = { caller: "bridge-agent", credentialId: "cred-bridge" }
+  const requestFor = (decision: ReturnType<typeof evaluateSignIntent>) => {
+    assert.ok(decision.approval)
+    return requestApproval(dataDir, {
+      requirement: decision.approval,
+      keyRef: transfer.keyRef,
+      payloadHash: transfer.payloadHash,
+      requestedBy: bridgeAgent,
+      now,
+    })
+  }
+
+  const transfers = requestFor(evaluateSignIntent(policy, transfer, withApprovals()))
+  approveApproval(dataDir, transfers.id, { caller: "sec-officer", credentialId: "cred-sec" }, now)
+
+  const second = evaluateSignIntent(policy, { ...transfer, approvalIds: [transfers.id] }, withApprovals())
+  assert.equal(second.code, "APPROVAL_REQUIRED")
+  assert.equal(second.ruleId, "xo-treasury")
+  const treasury = requestFor(second)
+  approveApproval(dataDir, treasury.id, { caller: "treasurer", credentialId: "cred-treasurer" }, now)
+
+  assert.deepEqual(evaluateSignIntent(policy, { ...transfer, approvalIds: [treasury.id, transfers.id] }, withApprovals()), {
+    ok: true,
+    ruleIds: ["xo-writes", "xo-transfers", "xo-treasury"],
+    approvalIds: [transfers.id, treasury.id],
+  })
+})
+
+test("expired approvals are pruned from the approval log", () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-approvals-"))
+  const requirement = { ruleId: "xo-transfers", approvers: ["sec-officer"], ttlSeconds: 600 }
+  const bridgeAgent: CallerIdentity = { caller: "bridge-agent", credentialId: "cred-bridge" }
+  const stale = requestApproval(dataDir, {
+    requirement,
+    keyRef: "agent:xo",
+    payloadHash: "hash-old",
+    requestedBy: bridgeAgent,
+    now: new Date("2026-03-04T09:00:00.000Z"),
+  })
+  approveApproval(dataDir, stale.id, { caller: "sec-officer", credentialId: "cred-sec" }, new Date("2026-03-04T09:01:00.000Z"))
+  const fresh = requestApproval(dataDir, {
+    requirement,
+    keyRef: "agent:xo",
+    payloadHash: "hash-new",
+    requestedBy: bridgeAgent,
+    now: new Date("2026-03-04T10:25:00.000Z"),
+  })
+
+  const approvals = loadApprovals(dataDir, new Date("2026-03-04T10:30:00.000Z"))
+  assert.deepEqual([...approvals.keys()], [fresh.id])
+
+  const lines = fs.readFileSync(path.join(dataDir, "approvals.jsonl"), "utf8").trim().split("\n")
+  assert.equal(lines.length, 1)
+  assert.deepEqual([...loadApprovals(dataDir).keys()], [fresh.id])
+})
+
+test("sign usage counts per rule and keyRef inside the window", () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-usage-"))
+  recordSignUsage(dataDir, { ts: "2026-03-04T09:00:00.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+  recordSignUsage(dataDir, { ts: "2026-03-04T10:29:30.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes", "xo-transfers"] })
+  recordSignUsage(dataDir, { ts: "2026-03-04T10:29:40.000Z", keyRef: "agent:eng", ruleIds: ["xo-writes"] })
+
+  const usage = readSignUsage(dataDir)
+  assert.equal(countSignUsage(usage, "xo-writes", "agent:xo", new Date("2026-03-04T00:00:00.000Z")), 2)
+  assert.equal(countSignUsage(usage, "xo-writes", "agent:xo", new Date("2026-03-04T10:29:00.000Z")), 1)
+  assert.equal(countSignUsage(usage, "xo-transfers", "agent:eng", new Date("2026-03-04T00:00:00.000Z")), 0)
+})
+
+test("released usage reservations stop counting against quotas", () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-usage-"))
+  const since = new Date("2026-03-04T00:00:00.000Z")
+  const kept = reserveSignUsage(dataDir, { ts: "2026-03-04T10:00:00.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+  const failed = reserveSignUsage(dataDir, { ts: "2026-03-04T10:00:01.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+  assert.notEqual(kept, failed)
+  assert.equal(countSignUsage(readSignUsage(dataDir), "xo-writes", "agent:xo", since), 2)
+
+  releaseSignUsage(dataDir, failed, new Date("2026-03-04T10:00:02.000Z"))
+  assert.equal(countSignUsage(readSignUsage(dataDir), "xo-writes", "agent:xo", since), 1)
+})
+
+test("usage older than every quota window is pruned from the usage log", () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-usage-"))
+  const now = new Date("2026-03-04T10:30:00.000Z")
+  const policy = { allowKeyRefs: [], denyKeyRefs: [], rules }
+  const retainSince = signUsageRetentionStart(policy, now)
+  assert.equal(retainSince?.toISOString(), "2026-03-04T00:00:00.000Z")
+  assert.equal(signUsageRetentionStart({ ...policy, invalid: "rules.0.id: Required" }, now), null)
+
+  const yesterday = reserveSignUsage(dataDir, { ts: "2026-03-03T23:59:00.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+  releaseSignUsage(dataDir, yesterday, new Date("2026-03-03T23:59:01.000Z"))
+  recordSignUsage(dataDir, { ts: "2026-03-03T22:00:00.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+  const failed = reserveSignUsage(dataDir, { ts: "2026-03-04T10:00:00.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+  releaseSignUsage(dataDir, failed, new Date("2026-03-04T10:00:01.000Z"))
+  recordSignUsage(dataDir, { ts: "2026-03-04T10:29:00.000Z", keyRef: "agent:xo", ruleIds: ["xo-writes"] })
+
+  const usage = readSignUsage(dataDir, retainSince)
+  assert.deepEqual(usage.map((record) => record.ts), ["2026-03-04T10:29:00.000Z"])
+
+  const lines = fs.readFileSync(path.join(dataDir, "sign-usage.jsonl"), "utf8").trim().split("\n")
+  assert.equal(lines.length, 3)
+  assert.equal(countSignUsage(readSignUsage(dataDir), "xo-writes", "agent:xo", new Date(0)), 1)
+})
+
+test("caller identities come from per-caller tokens", () => {
+  const credentials = parseCallerCredentials("bridge-agent:token-bridge, sec-officer:token-sec")
+  const bridge = resolveCallerIdentity(credentials, "token-bridge")
+  assert.equal(bridge?.caller, "bridge-agent")
+  assert.equal(resolveCallerIdentity(credentials, "token-sec")?.caller, "sec-officer")
+  assert.notEqual(bridge?.credentialId, resolveCallerIdentity(credentials, "token-sec")?.credentialId)
+  assert.equal(resolveCallerIdentity(credentials, "token-other"), null)
+  assert.equal(resolveCallerIdentity(credentials, undefined), null)
+
+  assert.deepEqual(parseCallerCredentials(undefined), [])
+  assert.throws(() => parseCallerCredentials("bridge-agent"), /caller:token/)
+  assert.throws(() => parseCallerCredentials("bridge-agent:same,sec-officer:same"), /repeats/)
+})
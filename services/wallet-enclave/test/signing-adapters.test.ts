@@ -0,0 +1,96 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { ed25519 } from "@noble/curves/ed25519.js"
+import { Ed25519RawAdapter } from "../src/adapters/ed25519_raw.js"
+import { Eip191Secp256k1Adapter, eip191Digest } from "../src/adapters/eip191_secp256k1.js"
+import { createSigningAdapters } from "../src/adapters/registry.js"
+import { currentMasterKeyId } from "../src/crypto/crypto.js"
+import { FileKeystore } from "../src/custody/file_keystore.js"
+
+function tempKeystore(): { dir: string; keystore: FileKeystore } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-enclave-keystore-"))
+  return { dir, keystore: new FileKeystore(dir) }
+}
+
+test("eip191 adapter matches the personal_sign reference vector", async () => {
+  process.env.WALLET_ENCLAVE_MASTER_SECRET = "dev-secret"
+  delete process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS
+
+  const { keystore } = tempKeystore()
+  await keystore.importKey(
+    "agent-eth",
+    "secp256k1",
+    Buffer.from("4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318", "hex"),
+  )
+
+  const adapter = new Eip191Secp256k1Adapter(keystore)
+  assert.equal(await adapter.getAddress({ keyRef: "agent-eth" }), "0x2c7536E3605D9C16a7a3D7b1898e529396a65c23")
+  assert.equal(
+    Buffer.from(eip191Digest(Buffer.from("Some data", "utf8"))).toString("hex"),
+    "1da44b586eb0729ff70a73c326926f6ed5a25f5b056e7f47fbc6e58d86871655",
+  )
+
+  const signed = await adapter.signData({ keyRef: "agent-eth", payload: "Some data" })
+  assert.equal(signed.alg, "eip191-secp256k1")
+  assert.equal(
+    signed.signature,
+    "0xb91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a0291c",
+  )
+
+  await assert.rejects(
+    adapter.signData({ keyRef: "agent-eth", payload: "Some data", address: "0x0000000000000000000000000000000000000000" }),
+    /Address does not match/,
+  )
+})
+
+test("ed25519 adapter signs with a generated keystore key and never stores it in the clear", async () => {
+  process.env.WALLET_ENCLAVE_MASTER_SECRET = "dev-secret"
+  delete process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS
+
+  const { dir, keystore } = tempKeystore()
+  const publicKey = await keystore.generateKey("agent-raw", "ed25519")
+  await assert.rejects(keystore.generateKey("agent-raw", "ed25519"), /already exists/)
+
+  const adapter = new Ed25519RawAdapter(keystore)
+  const signed = await adapter.signData({ keyRef: "agent-raw", payload: "hello" })
+  assert.equal(signed.address, Buffer.from(publicKey).toString("hex"))
+  assert.equal(ed25519.verify(Buffer.from(signed.signature, "hex"), Buffer.from("hello", "utf8"), publicKey), true)
+
+  const [file] = fs.readdirSync(dir)
+  const record = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) as { wrapped: { keyId: string } }
+  assert.equal(record.wrapped.keyId, currentMasterKeyId())
+  assert.doesNotMatch(JSON.stringify(record), /"secretKey"|"privateKey"/)
+
+  await assert.rejects(adapter.signData({ keyRef: "missing", payload: "hello" }), /No ed25519 key stored/)
+})
+
+test("keystore rewrap moves every key to the current master secret", async () => {
+  process.env.WALLET_ENCLAVE_MASTER_SECRET = "old-secret"
+  delete process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS
+
+  const { keystore } = tempKeystore()
+  await keystore.generateKey("agent-a", "ed25519")
+  await keystore.generateKey("agent-b", "secp256k1")
+
+  process.env.WALLET_ENCLAVE_MASTER_SECRET = "new-secret"
+  process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS = "old-secret"
+  assert.deepEqual(keystore.rewrapAll(), { total: 2, rewrapped: 2, keyId: currentMasterKeyId() })
+  assert.deepEqual(keystore.rewrapAll(), { total: 2, rewrapped: 0, keyId: currentMasterKeyId() })
+
+  delete process.env.WALLET_ENCLAVE_PREVIOUS_MASTER_SECRETS
+  const signed = await new Eip191Secp256k1Adapter(keystore).signData({ keyRef: "agent-b", payload: "after rotation" })
+  assert.match(signed.signature, /^0x[0-9a-f]{128}(1b|1c)$/)
+})
+
+test("adapter registry resolves chain defaults and rejects mismatched schemes", () => {
+  const { keystore } = tempKeystore()
+  const adapters = createSigningAdapters(keystore)
+
+  assert.equal(adapters.resolve("cardano")?.alg, "cip8-ed25519")
+  assert.equal(adapters.resolve("ethereum")?.alg, "eip191-secp256k1")
+  assert.equal(adapters.resolve("generic", "ed25519")?.keyType, "ed25519")
+  assert.equal(adapters.resolve("cardano", "eip191-secp256k1"), null)
+})